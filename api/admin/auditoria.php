@@ -0,0 +1,129 @@
+<?php
+/**
+ * API do Log de Auditoria do Admin
+ * GET /admin/auditoria.php - Lista as alterações, mais recentes primeiro
+ *
+ * Filtros: entidade, entidade_id, usuario_id, acao, de, ate (AAAA-MM-DD),
+ * pagina, limite. O log completo exige auditoria.ver; o histórico de um
+ * registro (entidade + entidade_id) exige só a permissão de ver a entidade,
+ * para os painéis de histórico do produto e do pedido.
+ */
+
+require_once 'config.php';
+require_once __DIR__ . '/../auditoria.php';
+
+$usuario = verificarAuth();
+
+if ($_SERVER['REQUEST_METHOD'] !== 'GET') {
+    responderErro('Método não permitido', 405);
+}
+
+$entidade = $_GET['entidade'] ?? null;
+$entidadeId = isset($_GET['entidade_id']) ? intval($_GET['entidade_id']) : null;
+
+if ($entidade !== null && !isset(AUDITORIA_ENTIDADES[$entidade])) {
+    responderErro('Entidade inválida');
+}
+
+exigirPermissao($usuario, $entidade !== null && $entidadeId
+    ? AUDITORIA_ENTIDADES[$entidade]['permissao']
+    : 'auditoria.ver');
+
+listarAuditoria($entidade, $entidadeId, $usuario);
+
+function listarAuditoria($entidade, $entidadeId, $usuario) {
+    $conexao = getConnection();
+
+    $limite = min(100, max(1, isset($_GET['limite']) ? intval($_GET['limite']) : 50));
+    $pagina = max(1, isset($_GET['pagina']) ? intval($_GET['pagina']) : 1);
+    $offset = ($pagina - 1) * $limite;
+
+    $condicoes = [];
+    $valores = [];
+    $tipos = "";
+
+    if ($entidade !== null) {
+        $condicoes[] = "entidade = ?";
+        $valores[] = $entidade;
+        $tipos .= "s";
+    }
+    if ($entidadeId) {
+        $condicoes[] = "entidade_id = ?";
+        $valores[] = $entidadeId;
+        $tipos .= "i";
+    }
+    if (!empty($_GET['usuario_id'])) {
+        $condicoes[] = "usuario_id = ?";
+        $valores[] = intval($_GET['usuario_id']);
+        $tipos .= "i";
+    }
+    if (!empty($_GET['acao'])) {
+        if (!in_array($_GET['acao'], AUDITORIA_ACOES, true)) {
+            responderErro('Ação inválida');
+        }
+        $condicoes[] = "acao = ?";
+        $valores[] = $_GET['acao'];
+        $tipos .= "s";
+    }
+    foreach (['de' => '>=', 'ate' => '<'] as $param => $operador) {
+        if (empty($_GET[$param])) {
+            continue;
+        }
+        $data = DateTime::createFromFormat('!Y-m-d', $_GET[$param]);
+        if (!$data) {
+            responderErro('Data inválida');
+        }
+        // "ate" inclui o dia inteiro
+        if ($param === 'ate') {
+            $data->modify('+1 day');
+        }
+        $condicoes[] = "created_at $operador ?";
+        $valores[] = $data->format('Y-m-d H:i:s');
+        $tipos .= "s";
+    }
+
+    $where = count($condicoes) > 0 ? "WHERE " . implode(" AND ", $condicoes) : "";
+
+    $stmt = $conexao->prepare("SELECT COUNT(*) AS total FROM auditoria $where");
+    if ($tipos !== "") {
+        $stmt->bind_param($tipos, ...$valores);
+    }
+    $stmt->execute();
+    $total = (int)$stmt->get_result()->fetch_assoc()['total'];
+    $stmt->close();
+
+    $stmt = $conexao->prepare("SELECT * FROM auditoria $where ORDER BY created_at DESC, id DESC LIMIT $limite OFFSET $offset");
+    if ($tipos !== "") {
+        $stmt->bind_param($tipos, ...$valores);
+    }
+    $stmt->execute();
+    $result = $stmt->get_result();
+
+    $registros = [];
+    while ($row = $result->fetch_assoc()) {
+        $row['alteracoes'] = json_decode($row['alteracoes'], true) ?: [];
+        $registros[] = $row;
+    }
+    $stmt->close();
+
+    // Quem já aparece no log, para o filtro por usuário da página de auditoria
+    $atores = [];
+    if (temPermissao($usuario, 'auditoria.ver')) {
+        $result = $conexao->query("SELECT usuario_id AS id, MAX(usuario_nome) AS nome FROM auditoria WHERE usuario_id IS NOT NULL GROUP BY usuario_id ORDER BY nome");
+        while ($row = $result->fetch_assoc()) {
+            $row['id'] = (int)$row['id'];
+            $atores[] = $row;
+        }
+    }
+
+    $conexao->close();
+
+    responderSucesso([
+        'registros' => $registros,
+        'total' => $total,
+        'pagina' => $pagina,
+        'limite' => $limite,
+        'atores' => $atores
+    ]);
+}
+?>
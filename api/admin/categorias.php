@@ -1,14 +1,17 @@
 <?php
 /**
  * API CRUD de Categorias do Admin
+ * Criação, alteração e exclusão ficam no log de auditoria (auditoria.php)
  */
 
 require_once 'config.php';
+require_once __DIR__ . '/../auditoria.php';
 
-// Verificar autenticação
+// Verificar autenticação e a permissão do papel para a ação
 $usuario = verificarAuth();
 
 $method = $_SERVER['REQUEST_METHOD'];
+exigirPermissao($usuario, $method === 'GET' ? 'categorias.ver' : 'categorias.editar');
 $id = isset($_GET['id']) ? intval($_GET['id']) : null;
 
 switch ($method) {
@@ -20,15 +23,15 @@ switch ($method) {
         }
         break;
     case 'POST':
-        criarCategoria();
+        criarCategoria($usuario);
         break;
     case 'PUT':
         if (!$id) responderErro('ID é obrigatório');
-        atualizarCategoria($id);
+        atualizarCategoria($id, $usuario);
         break;
     case 'DELETE':
         if (!$id) responderErro('ID é obrigatório');
-        excluirCategoria($id);
+        excluirCategoria($id, $usuario);
         break;
     default:
         responderErro('Método não permitido', 405);
@@ -62,7 +65,7 @@ function buscarCategoria($id) {
     responderSucesso($categoria);
 }
 
-function criarCategoria() {
+function criarCategoria($usuario) {
     $input = json_decode(file_get_contents('php://input'), true);
     
     if (empty($input['nome'])) {
@@ -77,6 +80,8 @@ function criarCategoria() {
     $ordem = $input['ordem'] ?? 0;
     $ativo = isset($input['ativo']) ? ($input['ativo'] ? 1 : 0) : 1;
     
+    $conexao->begin_transaction();
+    
     $stmt = $conexao->prepare("INSERT INTO categorias (nome, slug, descricao, imagem, ordem, ativo) VALUES (?, ?, ?, ?, ?, ?)");
     $stmt->bind_param("ssssii", $input['nome'], $slug, $descricao, $imagem, $ordem, $ativo);
     
@@ -86,15 +91,24 @@ function criarCategoria() {
     
     $id = $stmt->insert_id;
     $stmt->close();
+    
+    registrarAuditoria($conexao, $usuario, 'criar', 'categoria', $id, null, carregarEstadoAuditoria($conexao, 'categoria', $id));
+    
+    $conexao->commit();
     $conexao->close();
     
     responderSucesso(['id' => $id], 'Categoria criada com sucesso');
 }
 
-function atualizarCategoria($id) {
+function atualizarCategoria($id, $usuario) {
     $input = json_decode(file_get_contents('php://input'), true);
     $conexao = getConnection();
     
+    $antes = carregarEstadoAuditoria($conexao, 'categoria', $id);
+    if (!$antes) {
+        responderErro('Categoria não encontrada', 404);
+    }
+    
     $campos = [];
     $valores = [];
     $tipos = "";
@@ -117,27 +131,40 @@ function atualizarCategoria($id) {
         $valores[] = $id;
         $tipos .= "i";
         
+        $conexao->begin_transaction();
+        
         $stmt = $conexao->prepare($sql);
         $stmt->bind_param($tipos, ...$valores);
         $stmt->execute();
         $stmt->close();
+        
+        registrarAuditoria($conexao, $usuario, 'atualizar', 'categoria', $id, $antes, carregarEstadoAuditoria($conexao, 'categoria', $id));
+        
+        $conexao->commit();
     }
     
     $conexao->close();
     responderSucesso(['id' => $id], 'Categoria atualizada');
 }
 
-function excluirCategoria($id) {
+function excluirCategoria($id, $usuario) {
     $conexao = getConnection();
-    $stmt = $conexao->prepare("DELETE FROM categorias WHERE id = ?");
-    $stmt->bind_param("i", $id);
-    $stmt->execute();
     
-    if ($stmt->affected_rows === 0) {
+    $antes = carregarEstadoAuditoria($conexao, 'categoria', $id);
+    if (!$antes) {
         responderErro('Categoria não encontrada', 404);
     }
     
+    $conexao->begin_transaction();
+    
+    $stmt = $conexao->prepare("DELETE FROM categorias WHERE id = ?");
+    $stmt->bind_param("i", $id);
+    $stmt->execute();
     $stmt->close();
+    
+    registrarAuditoria($conexao, $usuario, 'excluir', 'categoria', $id, $antes, null);
+    
+    $conexao->commit();
     $conexao->close();
     responderSucesso(null, 'Categoria excluída');
 }
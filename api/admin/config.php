@@ -18,6 +18,8 @@ if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
 
 // Incluir conexão existente
 require_once __DIR__ . '/../conexao.php';
+require_once __DIR__ . '/../auth.php';
+require_once __DIR__ . '/../permissoes.php';
 
 // Variável global para pool de conexão
 $poolConnection = null;
@@ -59,11 +61,10 @@ function getConnection() {
 }
 
 /**
- * Verificar autenticação via token
+ * Verificar autenticação via token (assinado, ver auth.php)
  */
 function verificarAuth() {
-    $headers = getallheaders();
-    $token = $headers['Authorization'] ?? '';
+    $token = obterTokenRequisicao();
     
     if (empty($token)) {
         http_response_code(401);
@@ -74,43 +75,22 @@ function verificarAuth() {
         exit();
     }
     
-    // Remover "Bearer " do início
-    $token = str_replace('Bearer ', '', $token);
+    $payload = lerToken($token, 'acesso');
     
-    // Decodificar token (base64 simples)
-    $decoded = base64_decode($token);
-    $parts = explode(':', $decoded);
-    
-    if (count($parts) !== 2) {
-        http_response_code(401);
-        echo json_encode([
-            'success' => false,
-            'error' => 'Token inválido'
-        ]);
-        exit();
-    }
-    
-    $userId = $parts[0];
-    $timestamp = $parts[1];
-    
-    // Verificar se o token não expirou (24 horas)
-    if (time() - intval($timestamp) > 86400) {
+    if (!$payload) {
         http_response_code(401);
         echo json_encode([
             'success' => false,
-            'error' => 'Token expirado'
+            'error' => 'Token inválido ou expirado'
         ]);
         exit();
     }
     
-    // Verificar se o usuário existe e é admin
+    // Verificar se o usuário existe, é admin e o token não foi revogado
     $conexao = getConnection();
-    $stmt = $conexao->prepare("SELECT id, nome, email, tipo FROM usuarios WHERE id = ? AND tipo = 'admin' AND ativo = 1");
-    $stmt->bind_param("i", $userId);
-    $stmt->execute();
-    $result = $stmt->get_result();
+    $usuario = buscarUsuarioDoToken($conexao, $payload);
     
-    if ($result->num_rows === 0) {
+    if (!$usuario || $usuario['tipo'] !== 'admin') {
         http_response_code(401);
         echo json_encode([
             'success' => false,
@@ -118,14 +98,26 @@ function verificarAuth() {
         ]);
         exit();
     }
-    
-    $usuario = $result->fetch_assoc();
-    $stmt->close();
     // Não fechar a conexão - será reutilizada
     
     return $usuario;
 }
 
+/**
+ * Interrompe com 403 se o papel do usuário não tem a permissão (permissoes.php)
+ */
+function exigirPermissao(array $usuario, string $permissao) {
+    if (!temPermissao($usuario, $permissao)) {
+        http_response_code(403);
+        echo json_encode([
+            'success' => false,
+            'code' => 'sem_permissao',
+            'error' => 'Seu papel na equipe não permite esta ação'
+        ], JSON_UNESCAPED_UNICODE);
+        exit();
+    }
+}
+
 /**
  * Resposta de sucesso
  */
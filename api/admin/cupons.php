@@ -0,0 +1,280 @@
+<?php
+/**
+ * API CRUD de Cupons do Admin
+ *
+ * Restrições de produtos e categorias chegam como listas de ids
+ * (produtos / categorias) e substituem as anteriores a cada gravação.
+ * Criação, alteração e exclusão ficam no log de auditoria (auditoria.php).
+ */
+
+require_once 'config.php';
+require_once __DIR__ . '/../cupom.php';
+require_once __DIR__ . '/../auditoria.php';
+
+// Verificar autenticação e a permissão do papel para a ação
+$usuario = verificarAuth();
+
+$method = $_SERVER['REQUEST_METHOD'];
+exigirPermissao($usuario, $method === 'GET' ? 'cupons.ver' : 'cupons.editar');
+$id = isset($_GET['id']) ? intval($_GET['id']) : null;
+
+switch ($method) {
+    case 'GET':
+        if ($id) {
+            buscarCupom($id);
+        } else {
+            listarCupons();
+        }
+        break;
+    case 'POST':
+        criarCupom($usuario);
+        break;
+    case 'PUT':
+        if (!$id) responderErro('ID é obrigatório');
+        atualizarCupom($id, $usuario);
+        break;
+    case 'DELETE':
+        if (!$id) responderErro('ID é obrigatório');
+        excluirCupom($id, $usuario);
+        break;
+    default:
+        responderErro('Método não permitido', 405);
+}
+
+function listarCupons() {
+    $conexao = getConnection();
+    $result = $conexao->query("SELECT * FROM cupons ORDER BY created_at DESC");
+    $cupons = [];
+    while ($row = $result->fetch_assoc()) {
+        $restricoes = buscarRestricoesCupom($conexao, (int)$row['id']);
+        $row['produtos'] = $restricoes['produtos'];
+        $row['categorias'] = $restricoes['categorias'];
+        $cupons[] = $row;
+    }
+    $conexao->close();
+    responderSucesso($cupons);
+}
+
+function buscarCupom($id) {
+    $conexao = getConnection();
+    $stmt = $conexao->prepare("SELECT * FROM cupons WHERE id = ?");
+    $stmt->bind_param("i", $id);
+    $stmt->execute();
+    $result = $stmt->get_result();
+
+    if ($result->num_rows === 0) {
+        responderErro('Cupom não encontrado', 404);
+    }
+
+    $cupom = $result->fetch_assoc();
+    $stmt->close();
+
+    $restricoes = buscarRestricoesCupom($conexao, $id);
+    $cupom['produtos'] = $restricoes['produtos'];
+    $cupom['categorias'] = $restricoes['categorias'];
+
+    $conexao->close();
+    responderSucesso($cupom);
+}
+
+/**
+ * Valida e normaliza os campos do formulário
+ * Campos vazios de limite, mínimo e validade viram NULL (sem restrição)
+ */
+function normalizarDadosCupom(array $input): array {
+    $codigo = normalizarCodigoCupom((string)($input['codigo'] ?? ''));
+    if ($codigo === '') {
+        responderErro('Código é obrigatório');
+    }
+    if (!preg_match('/^[A-Z0-9_-]{3,40}$/', $codigo)) {
+        responderErro('Código deve ter de 3 a 40 letras, números, "-" ou "_"');
+    }
+
+    $tipo = $input['tipo'] ?? '';
+    if (!in_array($tipo, ['percentual', 'valor_fixo', 'frete_gratis'], true)) {
+        responderErro('Tipo de cupom inválido');
+    }
+
+    $valor = $tipo === 'frete_gratis' ? 0.0 : round((float)($input['valor'] ?? 0), 2);
+    if ($tipo === 'percentual' && ($valor <= 0 || $valor > 100)) {
+        responderErro('Percentual deve estar entre 0 e 100');
+    }
+    if ($tipo === 'valor_fixo' && $valor <= 0) {
+        responderErro('Valor do desconto deve ser maior que zero');
+    }
+
+    $opcional = function ($chave) use ($input) {
+        return isset($input[$chave]) && $input[$chave] !== '' && $input[$chave] !== null ? $input[$chave] : null;
+    };
+
+    $validoDe = $opcional('valido_de');
+    $validoAte = $opcional('valido_ate');
+    if ($validoDe !== null && $validoAte !== null && strtotime($validoAte) < strtotime($validoDe)) {
+        responderErro('A data final deve ser posterior à inicial');
+    }
+
+    return [
+        'codigo' => $codigo,
+        'descricao' => $input['descricao'] ?? '',
+        'tipo' => $tipo,
+        'valor' => $valor,
+        'valor_minimo' => $opcional('valor_minimo') !== null ? round((float)$input['valor_minimo'], 2) : null,
+        'valido_de' => $validoDe !== null ? date('Y-m-d H:i:s', strtotime($validoDe)) : null,
+        'valido_ate' => $validoAte !== null ? date('Y-m-d H:i:s', strtotime($validoAte)) : null,
+        'limite_uso' => $opcional('limite_uso') !== null ? max(1, intval($input['limite_uso'])) : null,
+        'limite_por_cliente' => $opcional('limite_por_cliente') !== null ? max(1, intval($input['limite_por_cliente'])) : null,
+        'ativo' => isset($input['ativo']) ? ($input['ativo'] ? 1 : 0) : 1,
+        'produtos' => array_values(array_unique(array_map('intval', is_array($input['produtos'] ?? null) ? $input['produtos'] : []))),
+        'categorias' => array_values(array_unique(array_map('intval', is_array($input['categorias'] ?? null) ? $input['categorias'] : [])))
+    ];
+}
+
+function codigoCupomEmUso($conexao, string $codigo, ?int $ignorarId = null): bool {
+    $ignorar = $ignorarId ?? 0;
+    $stmt = $conexao->prepare("SELECT id FROM cupons WHERE codigo = ? AND id <> ? LIMIT 1");
+    $stmt->bind_param("si", $codigo, $ignorar);
+    $stmt->execute();
+    $existe = $stmt->get_result()->num_rows > 0;
+    $stmt->close();
+    return $existe;
+}
+
+function salvarRestricoesCupom($conexao, int $cupomId, array $produtos, array $categorias) {
+    $stmt = $conexao->prepare("DELETE FROM cupom_produtos WHERE cupom_id = ?");
+    $stmt->bind_param("i", $cupomId);
+    $stmt->execute();
+    $stmt->close();
+
+    $stmt = $conexao->prepare("DELETE FROM cupom_categorias WHERE cupom_id = ?");
+    $stmt->bind_param("i", $cupomId);
+    $stmt->execute();
+    $stmt->close();
+
+    $stmt = $conexao->prepare("INSERT INTO cupom_produtos (cupom_id, produto_id) VALUES (?, ?)");
+    foreach ($produtos as $produtoId) {
+        $stmt->bind_param("ii", $cupomId, $produtoId);
+        $stmt->execute();
+    }
+    $stmt->close();
+
+    $stmt = $conexao->prepare("INSERT INTO cupom_categorias (cupom_id, categoria_id) VALUES (?, ?)");
+    foreach ($categorias as $categoriaId) {
+        $stmt->bind_param("ii", $cupomId, $categoriaId);
+        $stmt->execute();
+    }
+    $stmt->close();
+}
+
+function criarCupom($usuario) {
+    $input = json_decode(file_get_contents('php://input'), true);
+    $dados = normalizarDadosCupom($input ?: []);
+
+    $conexao = getConnection();
+
+    if (codigoCupomEmUso($conexao, $dados['codigo'])) {
+        responderErro('Já existe um cupom com este código', 409);
+    }
+
+    $conexao->begin_transaction();
+
+    $stmt = $conexao->prepare("INSERT INTO cupons (codigo, descricao, tipo, valor, valor_minimo, valido_de, valido_ate, limite_uso, limite_por_cliente, ativo) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)");
+    $stmt->bind_param(
+        "sssddssiii",
+        $dados['codigo'],
+        $dados['descricao'],
+        $dados['tipo'],
+        $dados['valor'],
+        $dados['valor_minimo'],
+        $dados['valido_de'],
+        $dados['valido_ate'],
+        $dados['limite_uso'],
+        $dados['limite_por_cliente'],
+        $dados['ativo']
+    );
+
+    if (!$stmt->execute()) {
+        $conexao->rollback();
+        responderErro('Erro ao criar cupom');
+    }
+
+    $id = $stmt->insert_id;
+    $stmt->close();
+
+    salvarRestricoesCupom($conexao, $id, $dados['produtos'], $dados['categorias']);
+    registrarAuditoria($conexao, $usuario, 'criar', 'cupom', $id, null, carregarEstadoAuditoria($conexao, 'cupom', $id));
+
+    $conexao->commit();
+    $conexao->close();
+
+    responderSucesso(['id' => $id], 'Cupom criado com sucesso');
+}
+
+function atualizarCupom($id, $usuario) {
+    $input = json_decode(file_get_contents('php://input'), true);
+    $dados = normalizarDadosCupom($input ?: []);
+
+    $conexao = getConnection();
+
+    $antes = carregarEstadoAuditoria($conexao, 'cupom', $id);
+    if (!$antes) {
+        responderErro('Cupom não encontrado', 404);
+    }
+
+    if (codigoCupomEmUso($conexao, $dados['codigo'], $id)) {
+        responderErro('Já existe um cupom com este código', 409);
+    }
+
+    $conexao->begin_transaction();
+
+    $stmt = $conexao->prepare("UPDATE cupons SET codigo = ?, descricao = ?, tipo = ?, valor = ?, valor_minimo = ?, valido_de = ?, valido_ate = ?, limite_uso = ?, limite_por_cliente = ?, ativo = ? WHERE id = ?");
+    $stmt->bind_param(
+        "sssddssiiii",
+        $dados['codigo'],
+        $dados['descricao'],
+        $dados['tipo'],
+        $dados['valor'],
+        $dados['valor_minimo'],
+        $dados['valido_de'],
+        $dados['valido_ate'],
+        $dados['limite_uso'],
+        $dados['limite_por_cliente'],
+        $dados['ativo'],
+        $id
+    );
+
+    if (!$stmt->execute()) {
+        $conexao->rollback();
+        responderErro('Erro ao atualizar cupom');
+    }
+    $stmt->close();
+
+    salvarRestricoesCupom($conexao, $id, $dados['produtos'], $dados['categorias']);
+    registrarAuditoria($conexao, $usuario, 'atualizar', 'cupom', $id, $antes, carregarEstadoAuditoria($conexao, 'cupom', $id));
+
+    $conexao->commit();
+    $conexao->close();
+    responderSucesso(['id' => $id], 'Cupom atualizado');
+}
+
+function excluirCupom($id, $usuario) {
+    $conexao = getConnection();
+
+    $antes = carregarEstadoAuditoria($conexao, 'cupom', $id);
+    if (!$antes) {
+        responderErro('Cupom não encontrado', 404);
+    }
+
+    $conexao->begin_transaction();
+
+    $stmt = $conexao->prepare("DELETE FROM cupons WHERE id = ?");
+    $stmt->bind_param("i", $id);
+    $stmt->execute();
+    $stmt->close();
+
+    registrarAuditoria($conexao, $usuario, 'excluir', 'cupom', $id, $antes, null);
+
+    $conexao->commit();
+    $conexao->close();
+    responderSucesso(null, 'Cupom excluído');
+}
+?>
@@ -0,0 +1,145 @@
+<?php
+/**
+ * API da Equipe do painel
+ * GET  /admin/equipe.php        - Lista os usuários do painel
+ * POST /admin/equipe.php        - Convida um membro { nome, email, papel }
+ * PUT  /admin/equipe.php?id=X   - Altera { papel, ativo }
+ *
+ * Exige equipe.gerenciar (dono). O convidado recebe por email o link de
+ * redefinição de senha (conta_tokens.php) para criar a própria senha. O
+ * papel e o ativo são lidos do banco a cada requisição (auth.php), então as
+ * mudanças valem na hora; ninguém altera o próprio acesso, para a loja não
+ * ficar sem dono. Convites e mudanças de acesso ficam no log de auditoria.
+ */
+
+require_once 'config.php';
+require_once __DIR__ . '/../conta_tokens.php';
+require_once __DIR__ . '/../auditoria.php';
+
+// Verificar autenticação e a permissão do papel para a ação
+$usuario = verificarAuth();
+exigirPermissao($usuario, 'equipe.gerenciar');
+
+$method = $_SERVER['REQUEST_METHOD'];
+$id = isset($_GET['id']) ? intval($_GET['id']) : null;
+
+switch ($method) {
+    case 'GET':
+        listarEquipe();
+        break;
+    case 'POST':
+        convidarMembro($usuario);
+        break;
+    case 'PUT':
+        if (!$id) responderErro('ID é obrigatório');
+        atualizarMembro($id, $usuario);
+        break;
+    default:
+        responderErro('Método não permitido', 405);
+}
+
+function listarEquipe() {
+    $conexao = getConnection();
+    $result = $conexao->query("SELECT id, nome, email, papel, ativo, created_at FROM usuarios WHERE tipo = 'admin' ORDER BY nome");
+    $equipe = [];
+    while ($row = $result->fetch_assoc()) {
+        $row['id'] = (int)$row['id'];
+        $row['ativo'] = (bool)$row['ativo'];
+        $equipe[] = $row;
+    }
+    $conexao->close();
+    responderSucesso($equipe);
+}
+
+function convidarMembro($usuario) {
+    $input = json_decode(file_get_contents('php://input'), true);
+
+    $nome = trim($input['nome'] ?? '');
+    $email = strtolower(trim($input['email'] ?? ''));
+    $papel = $input['papel'] ?? '';
+
+    if ($nome === '') {
+        responderErro('Nome é obrigatório');
+    }
+    if (!filter_var($email, FILTER_VALIDATE_EMAIL)) {
+        responderErro('Email inválido');
+    }
+    if (!in_array($papel, PAPEIS_ADMIN, true)) {
+        responderErro('Papel inválido');
+    }
+
+    $conexao = getConnection();
+
+    $stmt = $conexao->prepare("SELECT id FROM usuarios WHERE email = ?");
+    $stmt->bind_param("s", $email);
+    $stmt->execute();
+    $existe = $stmt->get_result()->num_rows > 0;
+    $stmt->close();
+
+    if ($existe) {
+        responderErro('Este email já está cadastrado', 409);
+    }
+
+    // Senha aleatória que ninguém conhece: o membro cria a dele pelo link
+    $senhaHash = password_hash(bin2hex(random_bytes(16)), PASSWORD_DEFAULT);
+
+    $stmt = $conexao->prepare("INSERT INTO usuarios (nome, email, senha, tipo, papel, ativo) VALUES (?, ?, ?, 'admin', ?, 1)");
+    $stmt->bind_param("ssss", $nome, $email, $senhaHash, $papel);
+    $stmt->execute();
+    $novoId = $conexao->insert_id;
+    $stmt->close();
+
+    registrarAuditoria($conexao, $usuario, 'criar', 'usuario', $novoId, null, carregarEstadoAuditoria($conexao, 'usuario', $novoId));
+
+    $enviado = enviarEmailRedefinicaoSenha($conexao, ['id' => $novoId, 'nome' => $nome, 'email' => $email]);
+
+    responderSucesso(
+        ['id' => $novoId],
+        $enviado
+            ? 'Membro adicionado. Enviamos o link para ele criar a senha'
+            : 'Membro adicionado, mas o email não foi enviado. Peça para usar "Não sei a minha senha"'
+    );
+}
+
+function atualizarMembro($id, $usuario) {
+    $input = json_decode(file_get_contents('php://input'), true);
+
+    if ($id === (int)$usuario['id']) {
+        responderErro('Você não pode alterar o seu próprio acesso');
+    }
+
+    $conexao = getConnection();
+
+    $stmt = $conexao->prepare("SELECT id FROM usuarios WHERE id = ? AND tipo = 'admin'");
+    $stmt->bind_param("i", $id);
+    $stmt->execute();
+    $existe = $stmt->get_result()->num_rows > 0;
+    $stmt->close();
+
+    $membro = $existe ? carregarEstadoAuditoria($conexao, 'usuario', $id) : null;
+    if (!$membro) {
+        responderErro('Membro não encontrado', 404);
+    }
+
+    $papel = $input['papel'] ?? $membro['papel'];
+    $ativo = isset($input['ativo']) ? ($input['ativo'] ? 1 : 0) : (int)$membro['ativo'];
+
+    if (!in_array($papel, PAPEIS_ADMIN, true)) {
+        responderErro('Papel inválido');
+    }
+
+    $conexao->begin_transaction();
+
+    $stmt = $conexao->prepare("UPDATE usuarios SET papel = ?, ativo = ? WHERE id = ?");
+    $stmt->bind_param("sii", $papel, $ativo, $id);
+    $stmt->execute();
+    $stmt->close();
+
+    registrarAuditoria($conexao, $usuario, 'atualizar', 'usuario', $id, $membro, carregarEstadoAuditoria($conexao, 'usuario', $id));
+
+    $conexao->commit();
+    $conexao->close();
+
+    responderSucesso(null, 'Acesso atualizado');
+}
+?>
@@ -0,0 +1,41 @@
+<?php
+/**
+ * API de Upload de Imagens do Admin
+ * POST /admin/imagens.php - multipart: imagem (arquivo), destino (produtos | categorias)
+ *
+ * Retorna a URL da maior versão e a lista de versões geradas (imagens.php).
+ * O arquivo só passa a aparecer na loja quando o produto ou a categoria é
+ * salvo com ele.
+ */
+
+require_once 'config.php';
+require_once __DIR__ . '/../imagens.php';
+
+$usuario = verificarAuth();
+
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    responderErro('Método não permitido', 405);
+}
+
+$destino = $_POST['destino'] ?? 'produtos';
+if (!in_array($destino, IMAGEM_DESTINOS, true)) {
+    responderErro('Destino inválido');
+}
+
+// Quem pode editar o produto ou a categoria pode enviar a imagem dele
+exigirPermissao($usuario, $destino === 'produtos' ? 'produtos.editar' : 'categorias.editar');
+
+$arquivo = $_FILES['imagem'] ?? null;
+$erro = validarUploadImagem($arquivo);
+if ($erro) {
+    responderErro($erro, 422);
+}
+
+try {
+    $imagem = processarUploadImagem($arquivo, $destino);
+} catch (RuntimeException $e) {
+    responderErro($e->getMessage(), 500);
+}
+
+responderSucesso($imagem, 'Imagem enviada');
+?>
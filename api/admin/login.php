@@ -32,7 +32,7 @@ if (!filter_var($email, FILTER_VALIDATE_EMAIL)) {
 
 // Buscar usuário
 $conexao = getConnection();
-$stmt = $conexao->prepare("SELECT id, nome, email, senha, tipo FROM usuarios WHERE email = ? AND tipo = 'admin' AND ativo = 1");
+$stmt = $conexao->prepare("SELECT id, nome, email, senha, telefone, cpf, tipo, papel, token_versao, email_verificado FROM usuarios WHERE email = ? AND tipo = 'admin' AND ativo = 1");
 $stmt->bind_param("s", $email);
 $stmt->execute();
 $result = $stmt->get_result();
@@ -52,17 +52,14 @@ if (!password_verify($senha, $usuario['senha'])) {
     responderErro('Email ou senha inválidos', 401);
 }
 
-// Gerar token simples (base64 do ID:timestamp)
-$token = base64_encode($usuario['id'] . ':' . time());
+// Token assinado (auth.php); o painel não usa o token de renovação
+$tokens = gerarTokensUsuario($usuario);
 
 // Retornar dados do usuário
 responderSucesso([
-    'token' => $token,
-    'usuario' => [
-        'id' => $usuario['id'],
-        'nome' => $usuario['nome'],
-        'email' => $usuario['email'],
-        'tipo' => $usuario['tipo']
-    ]
+    'token' => $tokens['token'],
+    'expira_em' => $tokens['expira_em'],
+    'usuario' => dadosUsuarioSessao($usuario),
+    'permissoes' => permissoesDoPapel($usuario['papel'])
 ], 'Login realizado com sucesso');
 ?>
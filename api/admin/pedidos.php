@@ -1,14 +1,22 @@
 <?php
 /**
  * API de Pedidos do Admin
+ * Alterações de status, rastreio e observações ficam no log de auditoria (auditoria.php)
  */
 
 require_once 'config.php';
+require_once __DIR__ . '/../pedido_status.php';
+require_once __DIR__ . '/../estoque.php';
+require_once __DIR__ . '/../unidades.php';
+require_once __DIR__ . '/../cupom.php';
+require_once __DIR__ . '/../cartao.php';
+require_once __DIR__ . '/../auditoria.php';
 
-// Verificar autenticação
+// Verificar autenticação e a permissão do papel para a ação
 $usuario = verificarAuth();
 
 $method = $_SERVER['REQUEST_METHOD'];
+exigirPermissao($usuario, $method === 'GET' ? 'pedidos.ver' : 'pedidos.editar');
 $id = isset($_GET['id']) ? intval($_GET['id']) : null;
 
 switch ($method) {
@@ -21,7 +29,7 @@ switch ($method) {
         break;
     case 'PUT':
         if (!$id) responderErro('ID é obrigatório');
-        atualizarPedido($id);
+        atualizarPedido($id, $usuario);
         break;
     default:
         responderErro('Método não permitido', 405);
@@ -45,7 +53,7 @@ function listarPedidos() {
     
     $pedidos = [];
     while ($row = $result->fetch_assoc()) {
-        $pedidos[] = $row;
+        $pedidos[] = ocultarTokenCartao($row);
     }
     
     // Total
@@ -79,35 +87,65 @@ function buscarPedido($id) {
     $stmt->close();
     
     // Buscar itens
-    $stmtItens = $conexao->prepare("SELECT * FROM pedido_itens WHERE pedido_id = ?");
+    $stmtItens = $conexao->prepare("SELECT id, produto_id, produto_nome AS nome, produto_sku AS sku, produto_imagem AS imagem,
+        variacao_id, variacao_cor, variacao_cor_codigo, variacao_capacidade, quantidade, preco_unitario, subtotal
+        FROM pedido_itens WHERE pedido_id = ?");
     $stmtItens->bind_param("i", $id);
     $stmtItens->execute();
     $itensResult = $stmtItens->get_result();
     
+    // IMEI ou série dos aparelhos reservados ou vendidos em cada item
+    $unidades = listarUnidadesPedido($conexao, $id);
+    
     $itens = [];
     while ($item = $itensResult->fetch_assoc()) {
+        $item['unidades'] = $unidades[(int)$item['id']] ?? [];
         $itens[] = $item;
     }
     $stmtItens->close();
     
     $pedido['itens'] = $itens;
+    $pedido['historico'] = buscarHistoricoPedido($conexao, $id, true);
     
     $conexao->close();
-    responderSucesso($pedido);
+    responderSucesso(ocultarTokenCartao($pedido));
 }
 
-function atualizarPedido($id) {
+function atualizarPedido($id, $usuario) {
     $input = json_decode(file_get_contents('php://input'), true);
     $conexao = getConnection();
     
     $campos = [];
     $valores = [];
     $tipos = "";
+    $statusAtual = null;
+    $novoStatus = null;
     
     if (isset($input['status'])) { 
-        $campos[] = "status = ?"; 
-        $valores[] = $input['status']; 
-        $tipos .= "s"; 
+        $stmtAtual = $conexao->prepare("SELECT status FROM pedidos WHERE id = ?");
+        $stmtAtual->bind_param("i", $id);
+        $stmtAtual->execute();
+        $atual = $stmtAtual->get_result()->fetch_assoc();
+        $stmtAtual->close();
+        
+        if (!$atual) {
+            responderErro('Pedido não encontrado', 404);
+        }
+        
+        $statusAtual = $atual['status'];
+        
+        // Reenviar o mesmo status (ex.: só atualizar rastreio) não é uma transição
+        if ($input['status'] !== $statusAtual) {
+            $erroTransicao = validarTransicaoStatus($statusAtual, $input['status']);
+            if ($erroTransicao) {
+                responderErro($erroTransicao, 409);
+            }
+            
+            $novoStatus = $input['status'];
+            $campos[] = "status = ?"; 
+            $valores[] = $novoStatus; 
+            $tipos .= "s"; 
+        }
     }
     if (isset($input['codigo_rastreio'])) { 
         $campos[] = "codigo_rastreio = ?"; 
@@ -125,18 +163,65 @@ function atualizarPedido($id) {
         $valores[] = $id;
         $tipos .= "i";
         
+        // A condição no status atual evita sobrescrever uma mudança concorrente
+        if ($statusAtual !== null) {
+            $sql .= " AND status = ?";
+            $valores[] = $statusAtual;
+            $tipos .= "s";
+        }
+        
+        $antes = carregarEstadoAuditoria($conexao, 'pedido', $id);
+        if (!$antes) {
+            responderErro('Pedido não encontrado', 404);
+        }
+        
+        $conexao->begin_transaction();
+        
         $stmt = $conexao->prepare($sql);
         $stmt->bind_param($tipos, ...$valores);
         
         if (!$stmt->execute()) {
+            $conexao->rollback();
             responderErro('Erro ao atualizar pedido');
         }
         
-        if ($stmt->affected_rows === 0) {
-            responderErro('Pedido não encontrado', 404);
+        if ($stmt->affected_rows === 0 && $statusAtual !== null) {
+            $conexao->rollback();
+            responderErro('O status do pedido foi alterado. Atualize a lista e tente novamente', 409);
         }
         
         $stmt->close();
+        
+        if ($novoStatus !== null) {
+            $observacao = isset($input['observacao_status']) && trim($input['observacao_status']) !== ''
+                ? trim($input['observacao_status'])
+                : null;
+            if ($observacao === null && !empty($input['codigo_rastreio'])) {
+                $observacao = 'Código de rastreio: ' . $input['codigo_rastreio'];
+            }
+            
+            try {
+                if ($novoStatus === 'cancelado') {
+                    liberarReservasPedido($conexao, $id);
+                    liberarUsoCupom($conexao, $id);
+                } elseif ($novoStatus === 'pago') {
+                    confirmarReservasPedido($conexao, $id);
+                    // Baixa manual (ex.: boleto compensado): a cobrança em aberto acompanha o pedido
+                    $stmtPagamento = $conexao->prepare("UPDATE pagamentos SET status = 'pago', requer_autenticacao = 0, pago_em = NOW() WHERE pedido_id = ? AND status = 'pendente'");
+                    $stmtPagamento->bind_param("i", $id);
+                    $stmtPagamento->execute();
+                    $stmtPagamento->close();
+                }
+                registrarHistoricoPedido($conexao, $id, $statusAtual, $novoStatus, 'admin', (int)$usuario['id'], $usuario['nome'], $observacao);
+            } catch (Throwable $e) {
+                $conexao->rollback();
+                responderErro($e->getMessage(), 500);
+            }
+        }
+        
+        registrarAuditoria($conexao, $usuario, 'atualizar', 'pedido', $id, $antes, carregarEstadoAuditoria($conexao, 'pedido', $id));
+        
+        $conexao->commit();
     }
     
     $conexao->close();
@@ -1,19 +1,33 @@
 <?php
 /**
  * API CRUD de Produtos do Admin
- * GET    /admin/produtos.php - Lista todos os produtos
+ * GET    /admin/produtos.php - Lista os produtos (filtros e paginação em listarProdutos)
  * GET    /admin/produtos.php?id=X - Busca produto específico
  * POST   /admin/produtos.php - Criar novo produto
  * PUT    /admin/produtos.php?id=X - Atualizar produto
  * DELETE /admin/produtos.php?id=X - Excluir produto
+ *
+ * Ações em vários produtos de uma vez ficam em produtos_lote.php
+ *
+ * Criação, alteração e exclusão ficam no log de auditoria (auditoria.php)
+ *
+ * imagens: lista na ordem de exibição de { url, variantes, principal } vindos
+ * do upload (admin/imagens.php); URLs soltas ainda são aceitas
+ *
+ * Produtos com unidades de aparelho cadastradas (admin/unidades.php) têm o
+ * estoque calculado pelas unidades: o campo estoque enviado é ignorado
  */
 
 require_once 'config.php';
+require_once __DIR__ . '/../auditoria.php';
+require_once __DIR__ . '/../catalogo.php';
+require_once __DIR__ . '/../unidades.php';
 
-// Verificar autenticação
+// Verificar autenticação e a permissão do papel para a ação
 $usuario = verificarAuth();
 
 $method = $_SERVER['REQUEST_METHOD'];
+exigirPermissao($usuario, $method === 'GET' ? 'produtos.ver' : 'produtos.editar');
 $id = isset($_GET['id']) ? intval($_GET['id']) : null;
 
 switch ($method) {
@@ -25,44 +39,119 @@ switch ($method) {
         }
         break;
     case 'POST':
-        criarProduto();
+        criarProduto($usuario);
         break;
     case 'PUT':
         if (!$id) {
             responderErro('ID do produto é obrigatório');
         }
-        atualizarProduto($id);
+        atualizarProduto($id, $usuario);
         break;
     case 'DELETE':
         if (!$id) {
             responderErro('ID do produto é obrigatório');
         }
-        excluirProduto($id);
+        excluirProduto($id, $usuario);
         break;
     default:
         responderErro('Método não permitido', 405);
 }
 
 /**
- * Listar todos os produtos
+ * Listar produtos com filtros e ordenação
+ *
+ * Filtros: busca (nome, SKU ou categoria), categoria_id, condicao, ativo,
+ * destaque, estoque_min, estoque_max, preco_min, preco_max. Ordem: ordenar
+ * (nome, sku, preco, estoque, categoria, created_at) e direcao (asc | desc).
+ * Com pagina, responde { produtos, total, pagina, limite }; sem, a lista
+ * completa (seletor de produtos dos cupons)
  */
 function listarProdutos() {
     $conexao = getConnection();
     
-    $sql = "SELECT 
+    $condicoes = [];
+    $valores = [];
+    $tipos = "";
+    
+    if (!empty($_GET['busca'])) {
+        $busca = '%' . trim($_GET['busca']) . '%';
+        $condicoes[] = "(p.nome LIKE ? OR p.sku LIKE ? OR c.nome LIKE ?)";
+        array_push($valores, $busca, $busca, $busca);
+        $tipos .= "sss";
+    }
+    if (!empty($_GET['categoria_id'])) {
+        $condicoes[] = "p.categoria_id = ?";
+        $valores[] = intval($_GET['categoria_id']);
+        $tipos .= "i";
+    }
+    if (!empty($_GET['condicao'])) {
+        if (!in_array($_GET['condicao'], PRODUTO_CONDICOES, true)) {
+            responderErro('Condição inválida');
+        }
+        $condicoes[] = "p.condicao = ?";
+        $valores[] = $_GET['condicao'];
+        $tipos .= "s";
+    }
+    foreach (['ativo', 'destaque'] as $campo) {
+        if (isset($_GET[$campo]) && $_GET[$campo] !== '') {
+            $condicoes[] = "p.$campo = ?";
+            $valores[] = $_GET[$campo] ? 1 : 0;
+            $tipos .= "i";
+        }
+    }
+    // Faixas: estoque_min, estoque_max, preco_min, preco_max (inclusivas)
+    foreach (['estoque' => 'i', 'preco' => 'd'] as $campo => $tipo) {
+        foreach (['min' => '>=', 'max' => '<='] as $sufixo => $operador) {
+            $param = "{$campo}_{$sufixo}";
+            if (!isset($_GET[$param]) || $_GET[$param] === '') {
+                continue;
+            }
+            if (!is_numeric($_GET[$param])) {
+                responderErro("Valor inválido para $param");
+            }
+            $condicoes[] = "p.$campo $operador ?";
+            $valores[] = $tipo === 'i' ? intval($_GET[$param]) : floatval($_GET[$param]);
+            $tipos .= $tipo;
+        }
+    }
+    
+    $where = count($condicoes) > 0 ? "WHERE " . implode(" AND ", $condicoes) : "";
+    $ordenacao = montarOrdenacaoProdutos($_GET['ordenar'] ?? null, $_GET['direcao'] ?? null);
+    $from = "FROM produtos p LEFT JOIN categorias c ON p.categoria_id = c.id $where";
+    
+    $paginado = isset($_GET['pagina']);
+    $limiteSql = "";
+    if ($paginado) {
+        $limite = min(100, max(1, isset($_GET['limite']) ? intval($_GET['limite']) : 20));
+        $pagina = max(1, intval($_GET['pagina']));
+        $limiteSql = "LIMIT $limite OFFSET " . (($pagina - 1) * $limite);
+        
+        $stmt = $conexao->prepare("SELECT COUNT(*) AS total $from");
+        if ($tipos !== "") {
+            $stmt->bind_param($tipos, ...$valores);
+        }
+        $stmt->execute();
+        $total = (int)$stmt->get_result()->fetch_assoc()['total'];
+        $stmt->close();
+    }
+    
+    $stmt = $conexao->prepare("SELECT 
                 p.*,
                 c.nome as categoria_nome,
                 c.slug as categoria_slug
-            FROM produtos p
-            LEFT JOIN categorias c ON p.categoria_id = c.id
-            ORDER BY p.created_at DESC";
-    
-    $result = $conexao->query($sql);
+            $from
+            ORDER BY $ordenacao
+            $limiteSql");
+    if ($tipos !== "") {
+        $stmt->bind_param($tipos, ...$valores);
+    }
+    $stmt->execute();
+    $result = $stmt->get_result();
     $produtos = [];
     
     while ($row = $result->fetch_assoc()) {
         // Buscar imagens do produto
-        $stmtImg = $conexao->prepare("SELECT id, url, ordem, principal FROM produto_imagens WHERE produto_id = ? ORDER BY ordem");
+        $stmtImg = $conexao->prepare("SELECT id, url, variantes, ordem, principal FROM produto_imagens WHERE produto_id = ? ORDER BY ordem");
         $stmtImg->bind_param("i", $row['id']);
         $stmtImg->execute();
         $imgResult = $stmtImg->get_result();
@@ -71,6 +160,7 @@ function listarProdutos() {
             $imagens[] = [
                 'id' => (int)$img['id'],
                 'url' => $img['url'],
+                'variantes' => lerVariantesImagem($img['variantes']),
                 'ordem' => (int)$img['ordem'],
                 'principal' => (bool)$img['principal']
             ];
@@ -92,11 +182,38 @@ function listarProdutos() {
         $row['especificacoes'] = $specs;
         $produtos[] = $row;
     }
+    $stmt->close();
     
     $conexao->close();
+    
+    if ($paginado) {
+        responderSucesso([
+            'produtos' => $produtos,
+            'total' => $total,
+            'pagina' => $pagina,
+            'limite' => $limite
+        ]);
+    }
     responderSucesso($produtos);
 }
 
+/**
+ * ORDER BY da listagem; só as colunas permitidas, mais recentes primeiro por padrão
+ */
+function montarOrdenacaoProdutos($ordenar, $direcao) {
+    $colunas = [
+        'nome' => 'p.nome',
+        'sku' => 'p.sku',
+        'preco' => 'p.preco',
+        'estoque' => 'p.estoque',
+        'categoria' => 'c.nome',
+        'created_at' => 'p.created_at'
+    ];
+    $coluna = $colunas[$ordenar] ?? 'p.created_at';
+    $sentido = strtolower((string)$direcao) === 'asc' ? 'ASC' : 'DESC';
+    return "$coluna $sentido, p.id $sentido";
+}
+
 /**
  * Buscar produto específico
  */
@@ -124,7 +241,7 @@ function buscarProduto($id) {
     $stmt->close();
     
     // Buscar imagens
-    $stmtImg = $conexao->prepare("SELECT id, url, ordem, principal FROM produto_imagens WHERE produto_id = ? ORDER BY ordem");
+    $stmtImg = $conexao->prepare("SELECT id, url, variantes, ordem, principal FROM produto_imagens WHERE produto_id = ? ORDER BY ordem");
     $stmtImg->bind_param("i", $id);
     $stmtImg->execute();
     $imgResult = $stmtImg->get_result();
@@ -133,6 +250,7 @@ function buscarProduto($id) {
         $imagens[] = [
             'id' => (int)$img['id'],
             'url' => $img['url'],
+            'variantes' => lerVariantesImagem($img['variantes']),
             'ordem' => (int)$img['ordem'],
             'principal' => (bool)$img['principal']
         ];
@@ -150,8 +268,27 @@ function buscarProduto($id) {
     }
     $stmtSpec->close();
     
+    // Variações ativas, para o cadastro de unidades de aparelho
+    $stmtVar = $conexao->prepare("SELECT id, cor, cor_codigo, capacidade, estoque, preco FROM produto_variacoes WHERE produto_id = ? AND ativo = 1 ORDER BY capacidade, cor");
+    $stmtVar->bind_param("i", $id);
+    $stmtVar->execute();
+    $varResult = $stmtVar->get_result();
+    $variacoes = [];
+    while ($variacao = $varResult->fetch_assoc()) {
+        $variacoes[] = $variacao;
+    }
+    $stmtVar->close();
+    
     $produto['imagens'] = $imagens;
     $produto['especificacoes'] = $specs;
+    $produto['variacoes'] = $variacoes;
+    
+    // Com unidades cadastradas, o formulário mostra o estoque só para leitura
+    $stmtUnidades = $conexao->prepare("SELECT COUNT(*) AS total FROM produto_unidades WHERE produto_id = ?");
+    $stmtUnidades->bind_param("i", $id);
+    $stmtUnidades->execute();
+    $produto['unidades_total'] = (int)$stmtUnidades->get_result()->fetch_assoc()['total'];
+    $stmtUnidades->close();
     
     $conexao->close();
     responderSucesso($produto);
@@ -160,7 +297,7 @@ function buscarProduto($id) {
 /**
  * Criar novo produto
  */
-function criarProduto() {
+function criarProduto($usuario) {
     $input = json_decode(file_get_contents('php://input'), true);
     
     // Validações
@@ -174,17 +311,8 @@ function criarProduto() {
     
     $conexao = getConnection();
     
-    // Gerar slug
-    $slug = gerarSlug($input['nome']);
-    
-    // Verificar se slug já existe
-    $stmtCheck = $conexao->prepare("SELECT id FROM produtos WHERE slug = ?");
-    $stmtCheck->bind_param("s", $slug);
-    $stmtCheck->execute();
-    if ($stmtCheck->get_result()->num_rows > 0) {
-        $slug .= '-' . time();
-    }
-    $stmtCheck->close();
+    // Gerar slug (com sufixo se já existir)
+    $slug = gerarSlugProduto($conexao, $input['nome']);
     
     // Gerar SKU se não fornecido
     $sku = $input['sku'] ?? 'SKU' . time();
@@ -208,18 +336,22 @@ function criarProduto() {
     $camera = $input['camera'] ?? null;
     $chip = $input['chip'] ?? null;
     $parcelas = !empty($input['parcelas']) ? intval($input['parcelas']) : 12;
+    $pesoGramas = !empty($input['peso_gramas']) ? intval($input['peso_gramas']) : 400;
     $modelo3dUrl = $input['modelo_3d_url'] ?? null;
     $arEnabled = isset($input['ar_enabled']) ? ($input['ar_enabled'] ? 1 : 0) : 0;
 
+    // Produto e registro de auditoria gravados juntos
+    $conexao->begin_transaction();
+
     $stmt = $conexao->prepare("INSERT INTO produtos 
         (sku, nome, slug, descricao, descricao_curta, categoria_id, modelo, condicao, condicao_descricao, 
-         preco, preco_original, desconto_percentual, estoque, garantia_meses, tela, camera, chip, destaque, parcelas, ativo, modelo_3d_url, ar_enabled)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)");
+         preco, preco_original, desconto_percentual, estoque, garantia_meses, tela, camera, chip, destaque, parcelas, peso_gramas, ativo, modelo_3d_url, ar_enabled)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)");
     
-    $stmt->bind_param("sssssisssddiiisssiiisi", 
+    $stmt->bind_param("sssssisssddiiisssiiiisi", 
         $sku, $input['nome'], $slug, $descricao, $descricaoCurta, $categoriaId,
         $modelo, $condicao, $condicaoDescricao, $preco, $precoOriginal, $desconto,
-        $estoque, $garantia, $tela, $camera, $chip, $destaque, $parcelas, $ativo, $modelo3dUrl, $arEnabled
+        $estoque, $garantia, $tela, $camera, $chip, $destaque, $parcelas, $pesoGramas, $ativo, $modelo3dUrl, $arEnabled
     );
     
     if (!$stmt->execute()) {
@@ -233,27 +365,17 @@ function criarProduto() {
     
     // Inserir imagens
     if (!empty($input['imagens']) && is_array($input['imagens'])) {
-        $stmtImg = $conexao->prepare("INSERT INTO produto_imagens (produto_id, url, ordem, principal) VALUES (?, ?, ?, ?)");
-        foreach ($input['imagens'] as $ordem => $url) {
-            $principal = $ordem === 0 ? 1 : 0;
-            $stmtImg->bind_param("isii", $produtoId, $url, $ordem, $principal);
-            $stmtImg->execute();
-        }
-        $stmtImg->close();
+        salvarImagensProduto($conexao, $produtoId, $input['imagens']);
     }
     
     // Inserir especificações
     if (!empty($input['especificacoes']) && is_array($input['especificacoes'])) {
-        $stmtSpec = $conexao->prepare("INSERT INTO produto_especificacoes (produto_id, label, valor, ordem) VALUES (?, ?, ?, ?)");
-        foreach ($input['especificacoes'] as $ordem => $spec) {
-            if (!empty($spec['label']) && !empty($spec['valor'])) {
-                $stmtSpec->bind_param("issi", $produtoId, $spec['label'], $spec['valor'], $ordem);
-                $stmtSpec->execute();
-            }
-        }
-        $stmtSpec->close();
+        salvarEspecificacoesProduto($conexao, $produtoId, $input['especificacoes']);
     }
     
+    registrarAuditoria($conexao, $usuario, 'criar', 'produto', $produtoId, null, carregarEstadoAuditoria($conexao, 'produto', $produtoId));
+    
+    $conexao->commit();
     $conexao->close();
     
     responderSucesso(['id' => $produtoId, 'slug' => $slug], 'Produto criado com sucesso');
@@ -262,21 +384,19 @@ function criarProduto() {
 /**
  * Atualizar produto
  */
-function atualizarProduto($id) {
+function atualizarProduto($id, $usuario) {
     $input = json_decode(file_get_contents('php://input'), true);
     
     $conexao = getConnection();
     
-    // Verificar se produto existe
-    $stmtCheck = $conexao->prepare("SELECT id FROM produtos WHERE id = ?");
-    $stmtCheck->bind_param("i", $id);
-    $stmtCheck->execute();
-    if ($stmtCheck->get_result()->num_rows === 0) {
-        $stmtCheck->close();
+    // Verificar se produto existe (o estado anterior vai para a auditoria)
+    $antes = carregarEstadoAuditoria($conexao, 'produto', $id);
+    if (!$antes) {
         $conexao->close();
         responderErro('Produto não encontrado', 404);
     }
-    $stmtCheck->close();
+    
+    $conexao->begin_transaction();
     
     // Montar query de atualização
     $campos = [];
@@ -289,14 +409,7 @@ function atualizarProduto($id) {
         $tipos .= "s";
         
         // Atualizar slug
-        $slug = gerarSlug($input['nome']);
-        $stmtSlug = $conexao->prepare("SELECT id FROM produtos WHERE slug = ? AND id != ?");
-        $stmtSlug->bind_param("si", $slug, $id);
-        $stmtSlug->execute();
-        if ($stmtSlug->get_result()->num_rows > 0) {
-            $slug .= '-' . $id;
-        }
-        $stmtSlug->close();
+        $slug = gerarSlugProduto($conexao, $input['nome'], $id);
         $campos[] = "slug = ?";
         $valores[] = $slug;
         $tipos .= "s";
@@ -312,13 +425,14 @@ function atualizarProduto($id) {
     if (isset($input['preco'])) { $campos[] = "preco = ?"; $valores[] = floatval($input['preco']); $tipos .= "d"; }
     if (isset($input['preco_original'])) { $campos[] = "preco_original = ?"; $valores[] = floatval($input['preco_original']); $tipos .= "d"; }
     if (isset($input['desconto_percentual'])) { $campos[] = "desconto_percentual = ?"; $valores[] = intval($input['desconto_percentual']); $tipos .= "i"; }
-    if (isset($input['estoque'])) { $campos[] = "estoque = ?"; $valores[] = intval($input['estoque']); $tipos .= "i"; }
+    if (isset($input['estoque']) && !produtoUsaUnidades($conexao, $id)) { $campos[] = "estoque = ?"; $valores[] = intval($input['estoque']); $tipos .= "i"; }
     if (isset($input['garantia_meses'])) { $campos[] = "garantia_meses = ?"; $valores[] = intval($input['garantia_meses']); $tipos .= "i"; }
     if (isset($input['tela'])) { $campos[] = "tela = ?"; $valores[] = $input['tela']; $tipos .= "s"; }
     if (isset($input['camera'])) { $campos[] = "camera = ?"; $valores[] = $input['camera']; $tipos .= "s"; }
     if (isset($input['chip'])) { $campos[] = "chip = ?"; $valores[] = $input['chip']; $tipos .= "s"; }
     if (isset($input['destaque'])) { $campos[] = "destaque = ?"; $valores[] = $input['destaque'] ? 1 : 0; $tipos .= "i"; }
     if (isset($input['parcelas'])) { $campos[] = "parcelas = ?"; $valores[] = intval($input['parcelas']); $tipos .= "i"; }
+    if (isset($input['peso_gramas'])) { $campos[] = "peso_gramas = ?"; $valores[] = intval($input['peso_gramas']); $tipos .= "i"; }
     if (isset($input['ativo'])) { $campos[] = "ativo = ?"; $valores[] = $input['ativo'] ? 1 : 0; $tipos .= "i"; }
     if (isset($input['modelo_3d_url'])) { $campos[] = "modelo_3d_url = ?"; $valores[] = $input['modelo_3d_url']; $tipos .= "s"; }
     if (isset($input['ar_enabled'])) { $campos[] = "ar_enabled = ?"; $valores[] = $input['ar_enabled'] ? 1 : 0; $tipos .= "i"; }
@@ -348,13 +462,7 @@ function atualizarProduto($id) {
         $stmtDel->close();
         
         // Inserir novas
-        $stmtImg = $conexao->prepare("INSERT INTO produto_imagens (produto_id, url, ordem, principal) VALUES (?, ?, ?, ?)");
-        foreach ($input['imagens'] as $ordem => $url) {
-            $principal = $ordem === 0 ? 1 : 0;
-            $stmtImg->bind_param("isii", $id, $url, $ordem, $principal);
-            $stmtImg->execute();
-        }
-        $stmtImg->close();
+        salvarImagensProduto($conexao, $id, $input['imagens']);
     }
     
     // Atualizar especificações
@@ -366,16 +474,12 @@ function atualizarProduto($id) {
         $stmtDel->close();
         
         // Inserir novas
-        $stmtSpec = $conexao->prepare("INSERT INTO produto_especificacoes (produto_id, label, valor, ordem) VALUES (?, ?, ?, ?)");
-        foreach ($input['especificacoes'] as $ordem => $spec) {
-            if (!empty($spec['label']) && !empty($spec['valor'])) {
-                $stmtSpec->bind_param("issi", $id, $spec['label'], $spec['valor'], $ordem);
-                $stmtSpec->execute();
-            }
-        }
-        $stmtSpec->close();
+        salvarEspecificacoesProduto($conexao, $id, $input['especificacoes']);
     }
     
+    registrarAuditoria($conexao, $usuario, 'atualizar', 'produto', $id, $antes, carregarEstadoAuditoria($conexao, 'produto', $id));
+    
+    $conexao->commit();
     $conexao->close();
     
     responderSucesso(['id' => $id], 'Produto atualizado com sucesso');
@@ -384,9 +488,17 @@ function atualizarProduto($id) {
 /**
  * Excluir produto
  */
-function excluirProduto($id) {
+function excluirProduto($id, $usuario) {
     $conexao = getConnection();
     
+    $antes = carregarEstadoAuditoria($conexao, 'produto', $id);
+    if (!$antes) {
+        $conexao->close();
+        responderErro('Produto não encontrado', 404);
+    }
+    
+    $conexao->begin_transaction();
+    
     $stmt = $conexao->prepare("DELETE FROM produtos WHERE id = ?");
     $stmt->bind_param("i", $id);
     
@@ -403,24 +515,12 @@ function excluirProduto($id) {
     }
     
     $stmt->close();
+    
+    registrarAuditoria($conexao, $usuario, 'excluir', 'produto', $id, $antes, null);
+    
+    $conexao->commit();
     $conexao->close();
     
     responderSucesso(null, 'Produto excluído com sucesso');
 }
-
-/**
- * Gerar slug a partir do nome
- */
-function gerarSlug($texto) {
-    $texto = mb_strtolower($texto, 'UTF-8');
-    $texto = preg_replace('/[áàãâä]/u', 'a', $texto);
-    $texto = preg_replace('/[éèêë]/u', 'e', $texto);
-    $texto = preg_replace('/[íìîï]/u', 'i', $texto);
-    $texto = preg_replace('/[óòõôö]/u', 'o', $texto);
-    $texto = preg_replace('/[úùûü]/u', 'u', $texto);
-    $texto = preg_replace('/[ç]/u', 'c', $texto);
-    $texto = preg_replace('/[^a-z0-9]+/', '-', $texto);
-    $texto = trim($texto, '-');
-    return $texto;
-}
 ?>
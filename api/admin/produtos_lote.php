@@ -0,0 +1,149 @@
+<?php
+/**
+ * Ações em vários produtos de uma vez
+ * POST /admin/produtos_lote.php - { ids: [..], acao, categoria_id?, percentual? }
+ *
+ * Ações: ativar, desativar, destacar, remover_destaque, categoria (move para
+ * categoria_id), preco (reajusta o preço em percentual, positivo ou negativo)
+ * e excluir.
+ *
+ * Cada produto é gravado na sua própria transação, com o log de auditoria: um
+ * produto que falha não impede os outros. A resposta traz o resultado de cada
+ * id, na ordem recebida.
+ */
+
+require_once 'config.php';
+require_once __DIR__ . '/../auditoria.php';
+
+$usuario = verificarAuth();
+exigirPermissao($usuario, 'produtos.editar');
+
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    responderErro('Método não permitido', 405);
+}
+
+const PRODUTOS_LOTE_ACOES = ['ativar', 'desativar', 'destacar', 'remover_destaque', 'categoria', 'preco', 'excluir'];
+const PRODUTOS_LOTE_MAXIMO = 200;
+// Reajuste permitido, em percentual
+const PRODUTOS_LOTE_PERCENTUAL_MINIMO = -90;
+const PRODUTOS_LOTE_PERCENTUAL_MAXIMO = 500;
+
+executarLoteProdutos($usuario);
+
+function executarLoteProdutos($usuario) {
+    $input = json_decode(file_get_contents('php://input'), true) ?: [];
+
+    $acao = $input['acao'] ?? '';
+    if (!in_array($acao, PRODUTOS_LOTE_ACOES, true)) {
+        responderErro('Ação inválida');
+    }
+
+    $ids = array_values(array_unique(array_filter(array_map('intval', (array)($input['ids'] ?? [])))));
+    if (count($ids) === 0) {
+        responderErro('Selecione pelo menos um produto');
+    }
+    if (count($ids) > PRODUTOS_LOTE_MAXIMO) {
+        responderErro('Selecione no máximo ' . PRODUTOS_LOTE_MAXIMO . ' produtos por vez');
+    }
+
+    $conexao = getConnection();
+
+    $parametro = null;
+    if ($acao === 'categoria') {
+        $parametro = intval($input['categoria_id'] ?? 0);
+        $stmt = $conexao->prepare("SELECT id FROM categorias WHERE id = ?");
+        $stmt->bind_param('i', $parametro);
+        $stmt->execute();
+        $existe = $stmt->get_result()->num_rows > 0;
+        $stmt->close();
+        if (!$existe) {
+            responderErro('Categoria não encontrada');
+        }
+    } elseif ($acao === 'preco') {
+        $parametro = isset($input['percentual']) && is_numeric($input['percentual']) ? floatval($input['percentual']) : 0;
+        if ($parametro == 0 || $parametro < PRODUTOS_LOTE_PERCENTUAL_MINIMO || $parametro > PRODUTOS_LOTE_PERCENTUAL_MAXIMO) {
+            responderErro('O reajuste precisa estar entre ' . PRODUTOS_LOTE_PERCENTUAL_MINIMO . '% e ' . PRODUTOS_LOTE_PERCENTUAL_MAXIMO . '% e ser diferente de zero');
+        }
+    }
+
+    $resultados = [];
+    foreach ($ids as $id) {
+        $resultados[] = aplicarAcaoProduto($conexao, $usuario, $id, $acao, $parametro);
+    }
+
+    $conexao->close();
+
+    $sucessos = count(array_filter($resultados, function ($resultado) {
+        return $resultado['sucesso'];
+    }));
+
+    responderSucesso([
+        'resultados' => $resultados,
+        'sucessos' => $sucessos,
+        'falhas' => count($resultados) - $sucessos
+    ]);
+}
+
+/**
+ * Aplica a ação a um produto; retorna { id, nome, sucesso, erro }
+ */
+function aplicarAcaoProduto($conexao, $usuario, int $id, string $acao, $parametro): array {
+    $antes = carregarEstadoAuditoria($conexao, 'produto', $id);
+    if (!$antes) {
+        return ['id' => $id, 'nome' => null, 'sucesso' => false, 'erro' => 'Produto não encontrado'];
+    }
+    $resultado = ['id' => $id, 'nome' => $antes['nome'], 'sucesso' => true, 'erro' => null];
+
+    $conexao->begin_transaction();
+
+    try {
+        switch ($acao) {
+            case 'ativar':
+            case 'desativar':
+                $ativo = $acao === 'ativar' ? 1 : 0;
+                executarLoteSql($conexao, "UPDATE produtos SET ativo = ? WHERE id = ?", 'ii', [$ativo, $id]);
+                break;
+            case 'destacar':
+            case 'remover_destaque':
+                $destaque = $acao === 'destacar' ? 1 : 0;
+                executarLoteSql($conexao, "UPDATE produtos SET destaque = ? WHERE id = ?", 'ii', [$destaque, $id]);
+                break;
+            case 'categoria':
+                executarLoteSql($conexao, "UPDATE produtos SET categoria_id = ? WHERE id = ?", 'ii', [$parametro, $id]);
+                break;
+            case 'preco':
+                // Variações acompanham o reajuste; o preço "de" nunca fica abaixo do novo preço
+                // (no MySQL, preco_original já enxerga o preco reajustado na mesma instrução)
+                $fator = 1 + $parametro / 100;
+                executarLoteSql($conexao, "UPDATE produtos SET preco = ROUND(preco * ?, 2), preco_original = GREATEST(COALESCE(preco_original, 0), preco) WHERE id = ?", 'di', [$fator, $id]);
+                executarLoteSql($conexao, "UPDATE produto_variacoes SET preco = ROUND(preco * ?, 2) WHERE produto_id = ? AND preco IS NOT NULL", 'di', [$fator, $id]);
+                break;
+            case 'excluir':
+                executarLoteSql($conexao, "DELETE FROM produtos WHERE id = ?", 'i', [$id]);
+                break;
+        }
+
+        $depois = $acao === 'excluir' ? null : carregarEstadoAuditoria($conexao, 'produto', $id);
+        registrarAuditoria($conexao, $usuario, $acao === 'excluir' ? 'excluir' : 'atualizar', 'produto', $id, $antes, $depois);
+
+        $conexao->commit();
+    } catch (Throwable $e) {
+        $conexao->rollback();
+        $resultado['sucesso'] = false;
+        $resultado['erro'] = 'Erro ao gravar: ' . $e->getMessage();
+    }
+
+    return $resultado;
+}
+
+function executarLoteSql($conexao, string $sql, string $tipos, array $valores): void {
+    $stmt = $conexao->prepare($sql);
+    $stmt->bind_param($tipos, ...$valores);
+    if (!$stmt->execute()) {
+        $erro = $stmt->error;
+        $stmt->close();
+        throw new Exception($erro);
+    }
+    $stmt->close();
+}
+?>
@@ -0,0 +1,704 @@
+<?php
+/**
+ * Exportação e importação de produtos por planilha (CSV ou XLSX)
+ * GET  /admin/produtos_planilha.php?formato=csv|xlsx - Baixa todos os produtos
+ * POST /admin/produtos_planilha.php - multipart: arquivo, aplicar (0 | 1)
+ *
+ * Uma linha por produto. O produto da linha é o do id, se preenchido, ou o do
+ * sku; sem nenhum dos dois cadastrado, a linha cria um produto novo. Colunas
+ * ausentes e células vazias mantêm o valor atual.
+ *
+ * Colunas com listas separam os itens por " | ":
+ *   imagens         URLs, a primeira é a principal
+ *   especificacoes  Rótulo: valor
+ *   variacoes       cor;cor_codigo;capacidade;estoque;preco
+ *
+ * Sem aplicar, a resposta é só a prévia: o que cada linha vai criar ou mudar
+ * e os erros encontrados. Com aplicar=1, a planilha é conferida de novo e,
+ * se não houver nenhum erro, todas as linhas são gravadas numa única
+ * transação, com o log de auditoria de cada produto; qualquer erro desfaz tudo.
+ *
+ * O estoque de produtos com unidades de aparelho cadastradas (unidades.php)
+ * vem das unidades: mudá-lo pela planilha é um erro, e o das variações é
+ * recalculado depois da gravação.
+ */
+
+require_once 'config.php';
+require_once __DIR__ . '/../auditoria.php';
+require_once __DIR__ . '/../catalogo.php';
+require_once __DIR__ . '/../planilha.php';
+require_once __DIR__ . '/../unidades.php';
+
+$usuario = verificarAuth();
+
+$method = $_SERVER['REQUEST_METHOD'];
+exigirPermissao($usuario, $method === 'GET' ? 'produtos.ver' : 'produtos.editar');
+
+// Tipo de cada coluna importável, na ordem da exportação
+const PRODUTO_PLANILHA_CAMPOS = [
+    'sku' => 'texto',
+    'nome' => 'texto',
+    'categoria_id' => 'inteiro',
+    'modelo' => 'texto',
+    'condicao' => 'condicao',
+    'condicao_descricao' => 'texto',
+    'preco' => 'decimal',
+    'preco_original' => 'decimal',
+    'desconto_percentual' => 'inteiro',
+    'estoque' => 'inteiro',
+    'garantia_meses' => 'inteiro',
+    'tela' => 'texto',
+    'camera' => 'texto',
+    'chip' => 'texto',
+    'parcelas' => 'inteiro',
+    'peso_gramas' => 'inteiro',
+    'destaque' => 'booleano',
+    'ativo' => 'booleano',
+    'descricao_curta' => 'texto',
+    'descricao' => 'texto',
+    'imagens' => 'imagens',
+    'especificacoes' => 'especificacoes',
+    'variacoes' => 'variacoes'
+];
+
+// Tamanho das colunas VARCHAR de produtos
+const PRODUTO_PLANILHA_TAMANHOS = [
+    'sku' => 50,
+    'nome' => 255,
+    'modelo' => 50,
+    'condicao_descricao' => 255,
+    'tela' => 100,
+    'camera' => 100,
+    'chip' => 50,
+    'descricao_curta' => 500
+];
+
+// Exportadas só para referência; a importação não lê
+const PRODUTO_PLANILHA_INFORMATIVAS = ['id', 'categoria'];
+
+const PRODUTO_PLANILHA_OBRIGATORIOS_CRIACAO = ['nome', 'preco', 'categoria_id'];
+
+const PRODUTO_PLANILHA_LINHAS_MAXIMO = 2000;
+
+switch ($method) {
+    case 'GET':
+        $formato = $_GET['formato'] ?? 'xlsx';
+        if (!in_array($formato, PLANILHA_FORMATOS, true)) {
+            responderErro('Formato inválido');
+        }
+        exportarProdutos($formato);
+        break;
+    case 'POST':
+        importarProdutos($usuario, !empty($_POST['aplicar']));
+        break;
+    default:
+        responderErro('Método não permitido', 405);
+}
+
+function exportarProdutos(string $formato) {
+    $conexao = getConnection();
+    $produtos = carregarProdutosPlanilha($conexao);
+    $conexao->close();
+
+    $cabecalho = array_merge(['id', 'sku', 'nome', 'categoria_id', 'categoria'], array_slice(array_keys(PRODUTO_PLANILHA_CAMPOS), 3));
+    $linhas = [$cabecalho];
+    foreach ($produtos as $produto) {
+        $linha = [];
+        foreach ($cabecalho as $coluna) {
+            $linha[] = $produto[$coluna];
+        }
+        $linhas[] = $linha;
+    }
+
+    try {
+        enviarPlanilha($linhas, $formato, 'produtos-' . date('Y-m-d'));
+    } catch (RuntimeException $e) {
+        responderErro($e->getMessage(), 500);
+    }
+}
+
+/**
+ * Produtos no formato das células da planilha, indexados pelo id
+ * Com $ids, só esses produtos
+ */
+function carregarProdutosPlanilha($conexao, ?array $ids = null): array {
+    $sql = "SELECT p.*, c.nome AS categoria FROM produtos p LEFT JOIN categorias c ON p.categoria_id = c.id";
+    if ($ids !== null) {
+        if (count($ids) === 0) {
+            return [];
+        }
+        $sql .= " WHERE p.id IN (" . implode(',', array_map('intval', $ids)) . ")";
+    }
+    $sql .= " ORDER BY p.id";
+
+    $result = $conexao->query($sql);
+    $produtos = [];
+
+    while ($row = $result->fetch_assoc()) {
+        $id = (int)$row['id'];
+
+        $produto = ['id' => $id, 'categoria' => $row['categoria'] ?? ''];
+        foreach (PRODUTO_PLANILHA_CAMPOS as $campo => $tipo) {
+            if (array_key_exists($campo, $row)) {
+                $produto[$campo] = formatarCelulaProduto($tipo, $row[$campo]);
+            }
+        }
+
+        // A principal vai primeiro: na importação, a primeira URL é a principal
+        $imagens = [];
+        $stmt = $conexao->prepare("SELECT url FROM produto_imagens WHERE produto_id = ? ORDER BY principal DESC, ordem");
+        $stmt->bind_param('i', $id);
+        $stmt->execute();
+        $imgResult = $stmt->get_result();
+        while ($img = $imgResult->fetch_assoc()) {
+            $imagens[] = $img['url'];
+        }
+        $stmt->close();
+
+        $especificacoes = [];
+        $stmt = $conexao->prepare("SELECT label, valor FROM produto_especificacoes WHERE produto_id = ? ORDER BY ordem");
+        $stmt->bind_param('i', $id);
+        $stmt->execute();
+        $specResult = $stmt->get_result();
+        while ($spec = $specResult->fetch_assoc()) {
+            $especificacoes[] = $spec['label'] . ': ' . $spec['valor'];
+        }
+        $stmt->close();
+
+        $variacoes = [];
+        $stmt = $conexao->prepare("SELECT cor, cor_codigo, capacidade, estoque, preco FROM produto_variacoes WHERE produto_id = ? AND ativo = 1 ORDER BY capacidade, cor");
+        $stmt->bind_param('i', $id);
+        $stmt->execute();
+        $varResult = $stmt->get_result();
+        while ($variacao = $varResult->fetch_assoc()) {
+            $variacoes[] = formatarVariacaoPlanilha($variacao);
+        }
+        $stmt->close();
+
+        $produto['imagens'] = implode(' | ', $imagens);
+        $produto['especificacoes'] = implode(' | ', $especificacoes);
+        $produto['variacoes'] = implode(' | ', $variacoes);
+        $produtos[$id] = $produto;
+    }
+
+    return $produtos;
+}
+
+// Valor do banco no formato da célula; é também o formato comparado na prévia
+function formatarCelulaProduto(string $tipo, $valor) {
+    if ($valor === null) {
+        return $tipo === 'booleano' ? 'nao' : '';
+    }
+    if ($tipo === 'inteiro') {
+        return (int)$valor;
+    }
+    if ($tipo === 'decimal') {
+        return round((float)$valor, 2);
+    }
+    if ($tipo === 'booleano') {
+        return $valor ? 'sim' : 'nao';
+    }
+    return (string)$valor;
+}
+
+function formatarVariacaoPlanilha(array $variacao): string {
+    return implode(';', [
+        $variacao['cor'] ?? '',
+        $variacao['cor_codigo'] ?? '',
+        $variacao['capacidade'] ?? '',
+        (int)$variacao['estoque'],
+        round((float)$variacao['preco'], 2)
+    ]);
+}
+
+/**
+ * Confere a planilha enviada e, com $aplicar e sem erros, grava tudo
+ */
+function importarProdutos(array $usuario, bool $aplicar) {
+    $arquivo = $_FILES['arquivo'] ?? null;
+    $erro = validarUploadPlanilha($arquivo);
+    if ($erro) {
+        responderErro($erro, 422);
+    }
+
+    try {
+        $linhas = lerPlanilha($arquivo['tmp_name'], formatoPlanilha($arquivo['name']));
+    } catch (RuntimeException $e) {
+        responderErro($e->getMessage(), 422);
+    }
+
+    if (count($linhas) < 2) {
+        responderErro('A planilha não tem nenhum produto', 422);
+    }
+    if (count($linhas) - 1 > PRODUTO_PLANILHA_LINHAS_MAXIMO) {
+        responderErro('A planilha passa do limite de ' . PRODUTO_PLANILHA_LINHAS_MAXIMO . ' produtos por importação', 422);
+    }
+
+    $cabecalho = array_map(function ($coluna) {
+        return mb_strtolower(trim($coluna), 'UTF-8');
+    }, array_shift($linhas));
+
+    if (!in_array('sku', $cabecalho, true)) {
+        responderErro('A planilha precisa da coluna sku', 422);
+    }
+
+    $ignoradas = [];
+    foreach ($cabecalho as $coluna) {
+        if ($coluna !== '' && !isset(PRODUTO_PLANILHA_CAMPOS[$coluna]) && !in_array($coluna, PRODUTO_PLANILHA_INFORMATIVAS, true)) {
+            $ignoradas[] = $coluna;
+        }
+    }
+
+    $conexao = getConnection();
+    $analise = analisarPlanilhaProdutos($conexao, $cabecalho, $linhas);
+
+    $resumo = ['criar' => 0, 'atualizar' => 0, 'sem_alteracao' => 0, 'erros' => 0];
+    $previa = [];
+    foreach ($analise as $linha) {
+        $resumo[count($linha['erros']) > 0 ? 'erros' : $linha['acao']]++;
+        $previa[] = [
+            'linha' => $linha['linha'],
+            'sku' => $linha['sku'],
+            'nome' => $linha['nome'],
+            'produto_id' => $linha['produto_id'],
+            'acao' => $linha['acao'],
+            'alteracoes' => (object)$linha['alteracoes'],
+            'erros' => $linha['erros']
+        ];
+    }
+
+    $aplicado = false;
+    if ($aplicar && $resumo['erros'] === 0) {
+        aplicarPlanilhaProdutos($conexao, $usuario, $analise);
+        $aplicado = true;
+    }
+    $conexao->close();
+
+    responderSucesso([
+        'linhas' => $previa,
+        'resumo' => $resumo,
+        'colunas_ignoradas' => $ignoradas,
+        'aplicado' => $aplicado
+    ], $aplicado ? 'Importação concluída' : null);
+}
+
+/**
+ * Valida cada linha e compara com o produto atual
+ * Retorna por linha: linha, sku, nome, produto_id, acao, valores, alteracoes, erros
+ */
+function analisarPlanilhaProdutos($conexao, array $cabecalho, array $linhas): array {
+    $categorias = [];
+    $result = $conexao->query("SELECT id FROM categorias");
+    while ($row = $result->fetch_assoc()) {
+        $categorias[(int)$row['id']] = true;
+    }
+
+    $comUnidades = [];
+    $result = $conexao->query("SELECT DISTINCT produto_id FROM produto_unidades");
+    while ($row = $result->fetch_assoc()) {
+        $comUnidades[(int)$row['produto_id']] = true;
+    }
+
+    $idsPorSku = [];
+    $result = $conexao->query("SELECT id, sku FROM produtos WHERE sku IS NOT NULL");
+    while ($row = $result->fetch_assoc()) {
+        $idsPorSku[mb_strtolower($row['sku'], 'UTF-8')] = (int)$row['id'];
+    }
+
+    // Produtos citados pela coluna id ou pelo sku, carregados de uma vez para a comparação
+    $indiceId = array_search('id', $cabecalho, true);
+    $indiceSku = array_search('sku', $cabecalho, true);
+    $citados = [];
+    foreach ($linhas as $celulas) {
+        if ($indiceId !== false && ctype_digit($celulas[$indiceId] ?? '')) {
+            $citados[] = (int)$celulas[$indiceId];
+        }
+        $sku = mb_strtolower($celulas[$indiceSku] ?? '', 'UTF-8');
+        if (isset($idsPorSku[$sku])) {
+            $citados[] = $idsPorSku[$sku];
+        }
+    }
+    $atuais = carregarProdutosPlanilha($conexao, array_values(array_unique($citados)));
+
+    $analise = [];
+    $linhaPorSku = [];
+
+    foreach ($linhas as $indice => $celulas) {
+        // Linha 1 é o cabeçalho
+        $numeroLinha = $indice + 2;
+        $erros = [];
+
+        $celula = function ($coluna) use ($cabecalho, $celulas) {
+            $posicao = array_search($coluna, $cabecalho, true);
+            return $posicao === false ? '' : ($celulas[$posicao] ?? '');
+        };
+
+        $sku = $celula('sku');
+        $skuChave = mb_strtolower($sku, 'UTF-8');
+        if ($sku === '') {
+            $erros[] = 'sku: obrigatório';
+        } elseif (isset($linhaPorSku[$skuChave])) {
+            $erros[] = "sku: repetido na planilha (linha {$linhaPorSku[$skuChave]})";
+        } else {
+            $linhaPorSku[$skuChave] = $numeroLinha;
+        }
+
+        $produtoId = null;
+        $idCelula = $celula('id');
+        if ($idCelula !== '') {
+            if (!ctype_digit($idCelula) || !isset($atuais[(int)$idCelula])) {
+                $erros[] = "id: produto $idCelula não encontrado";
+            } else {
+                $produtoId = (int)$idCelula;
+            }
+        } elseif ($sku !== '' && isset($idsPorSku[$skuChave])) {
+            $produtoId = $idsPorSku[$skuChave];
+        }
+
+        if ($produtoId !== null && $sku !== '' && isset($idsPorSku[$skuChave]) && $idsPorSku[$skuChave] !== $produtoId) {
+            $erros[] = "sku: já usado pelo produto {$idsPorSku[$skuChave]}";
+        }
+
+        // Só as células preenchidas entram; as vazias mantêm o valor atual
+        $valores = [];
+        foreach (PRODUTO_PLANILHA_CAMPOS as $campo => $tipo) {
+            $texto = $celula($campo);
+            if ($texto === '') {
+                continue;
+            }
+            $erroCampo = null;
+            $valor = lerCelulaProduto($tipo, $texto, $erroCampo);
+            if ($erroCampo === null) {
+                $erroCampo = validarValorProduto($campo, $valor, $categorias);
+            }
+            if ($erroCampo !== null) {
+                $erros[] = "$campo: $erroCampo";
+            } else {
+                $valores[$campo] = $valor;
+            }
+        }
+
+        $atual = $produtoId !== null ? $atuais[$produtoId] : null;
+        if ($atual === null && $idCelula === '') {
+            foreach (PRODUTO_PLANILHA_OBRIGATORIOS_CRIACAO as $campo) {
+                if (!isset($valores[$campo]) && $celula($campo) === '') {
+                    $erros[] = "$campo: obrigatório para criar o produto";
+                }
+            }
+        }
+
+        $alteracoes = [];
+        foreach ($valores as $campo => $valor) {
+            $antes = $atual[$campo] ?? null;
+            if ($atual === null || (string)$antes !== (string)$valor) {
+                $alteracoes[$campo] = ['antes' => $antes, 'depois' => $valor];
+            }
+        }
+
+        if (isset($alteracoes['estoque']) && isset($comUnidades[$produtoId])) {
+            $erros[] = 'estoque: calculado pelas unidades cadastradas do produto';
+        }
+
+        if ($atual === null) {
+            $acao = 'criar';
+        } else {
+            $acao = count($alteracoes) > 0 ? 'atualizar' : 'sem_alteracao';
+        }
+
+        $analise[] = [
+            'linha' => $numeroLinha,
+            'sku' => $sku,
+            'nome' => $valores['nome'] ?? ($atual['nome'] ?? ''),
+            'produto_id' => $produtoId,
+            'acao' => $acao,
+            'valores' => $valores,
+            'alteracoes' => $alteracoes,
+            'erros' => $erros
+        ];
+    }
+
+    return $analise;
+}
+
+/**
+ * Converte o texto da célula no valor do campo (no formato de formatarCelulaProduto)
+ * Em caso de erro, preenche $erro e retorna null
+ */
+function lerCelulaProduto(string $tipo, string $texto, ?string &$erro) {
+    if ($tipo === 'inteiro' || $tipo === 'decimal') {
+        $numero = lerNumeroPlanilha($texto);
+        if ($numero === null || ($tipo === 'inteiro' && floor($numero) != $numero)) {
+            $erro = "'$texto' não é um número " . ($tipo === 'inteiro' ? 'inteiro' : 'válido');
+            return null;
+        }
+        return $tipo === 'inteiro' ? (int)$numero : round($numero, 2);
+    }
+
+    if ($tipo === 'booleano') {
+        $normalizado = mb_strtolower($texto, 'UTF-8');
+        if (in_array($normalizado, ['sim', 's', '1', 'true', 'verdadeiro'], true)) {
+            return 'sim';
+        }
+        if (in_array($normalizado, ['nao', 'não', 'n', '0', 'false', 'falso'], true)) {
+            return 'nao';
+        }
+        $erro = "'$texto' não é sim ou não";
+        return null;
+    }
+
+    if ($tipo === 'condicao') {
+        $condicao = mb_strtolower($texto, 'UTF-8');
+        if (!in_array($condicao, PRODUTO_CONDICOES, true)) {
+            $erro = "'$texto' não é uma condição válida (" . implode(', ', PRODUTO_CONDICOES) . ')';
+            return null;
+        }
+        return $condicao;
+    }
+
+    if ($tipo === 'imagens') {
+        $urls = dividirListaPlanilha($texto);
+        foreach ($urls as $url) {
+            if (!preg_match('#^(https?://|/)\S+$#i', $url)) {
+                $erro = "'$url' não é uma URL de imagem";
+                return null;
+            }
+        }
+        return implode(' | ', $urls);
+    }
+
+    if ($tipo === 'especificacoes') {
+        $especificacoes = [];
+        foreach (dividirListaPlanilha($texto) as $item) {
+            $partes = explode(':', $item, 2);
+            if (count($partes) < 2 || trim($partes[0]) === '' || trim($partes[1]) === '') {
+                $erro = "'$item' não está no formato Rótulo: valor";
+                return null;
+            }
+            $especificacoes[] = trim($partes[0]) . ': ' . trim($partes[1]);
+        }
+        return implode(' | ', $especificacoes);
+    }
+
+    if ($tipo === 'variacoes') {
+        $variacoes = [];
+        foreach (dividirListaPlanilha($texto) as $item) {
+            $partes = array_map('trim', explode(';', $item));
+            if (count($partes) !== 5) {
+                $erro = "'$item' não está no formato cor;cor_codigo;capacidade;estoque;preco";
+                return null;
+            }
+            [$cor, $corCodigo, $capacidade, $estoque, $preco] = $partes;
+            $estoqueNumero = lerNumeroPlanilha($estoque);
+            $precoNumero = lerNumeroPlanilha($preco);
+            if ($cor === '' && $capacidade === '') {
+                $erro = "'$item' precisa de cor ou capacidade";
+            } elseif ($corCodigo !== '' && !preg_match('/^#[0-9a-f]{6}$/i', $corCodigo)) {
+                $erro = "'$corCodigo' não é uma cor no formato #RRGGBB";
+            } elseif ($estoqueNumero === null || $estoqueNumero < 0 || floor($estoqueNumero) != $estoqueNumero) {
+                $erro = "estoque '$estoque' inválido em '$item'";
+            } elseif ($precoNumero === null || $precoNumero <= 0) {
+                $erro = "preço '$preco' inválido em '$item'";
+            }
+            if ($erro !== null) {
+                return null;
+            }
+            $variacoes[] = formatarVariacaoPlanilha([
+                'cor' => $cor,
+                'cor_codigo' => $corCodigo,
+                'capacidade' => $capacidade,
+                'estoque' => $estoqueNumero,
+                'preco' => $precoNumero
+            ]);
+        }
+        return implode(' | ', $variacoes);
+    }
+
+    return $texto;
+}
+
+/**
+ * Regras de cada campo já convertido; retorna a mensagem de erro ou null
+ */
+function validarValorProduto(string $campo, $valor, array $categorias): ?string {
+    if (isset(PRODUTO_PLANILHA_TAMANHOS[$campo]) && mb_strlen($valor, 'UTF-8') > PRODUTO_PLANILHA_TAMANHOS[$campo]) {
+        return 'passa de ' . PRODUTO_PLANILHA_TAMANHOS[$campo] . ' caracteres';
+    }
+    if ($campo === 'categoria_id' && !isset($categorias[$valor])) {
+        return "categoria $valor não existe";
+    }
+    if (($campo === 'preco' || $campo === 'preco_original') && $valor <= 0) {
+        return 'precisa ser maior que zero';
+    }
+    if ($campo === 'desconto_percentual' && ($valor < 0 || $valor > 100)) {
+        return 'precisa estar entre 0 e 100';
+    }
+    if (PRODUTO_PLANILHA_CAMPOS[$campo] === 'inteiro' && $valor < 0) {
+        return 'não pode ser negativo';
+    }
+    return null;
+}
+
+// Aceita 3999.90, 3999,90, 3.999,90 e R$ 3.999,90
+function lerNumeroPlanilha(string $texto): ?float {
+    $texto = preg_replace('/^R\$\s*/i', '', trim($texto));
+    if (strpos($texto, ',') !== false) {
+        $texto = str_replace(',', '.', str_replace('.', '', $texto));
+    }
+    return is_numeric($texto) ? (float)$texto : null;
+}
+
+function dividirListaPlanilha(string $texto): array {
+    return array_values(array_filter(array_map('trim', explode('|', $texto)), 'strlen'));
+}
+
+/**
+ * Grava as linhas criar/atualizar numa única transação
+ * Responde com erro (sem gravar nada) se alguma falhar
+ */
+function aplicarPlanilhaProdutos($conexao, array $usuario, array $analise): void {
+    $conexao->begin_transaction();
+
+    try {
+        foreach ($analise as $linha) {
+            if ($linha['acao'] === 'criar') {
+                $produtoId = criarProdutoPlanilha($conexao, $linha['valores']);
+                registrarAuditoria($conexao, $usuario, 'criar', 'produto', $produtoId, null, carregarEstadoAuditoria($conexao, 'produto', $produtoId));
+            } elseif ($linha['acao'] === 'atualizar') {
+                $produtoId = $linha['produto_id'];
+                $antes = carregarEstadoAuditoria($conexao, 'produto', $produtoId);
+                $mudancas = [];
+                foreach ($linha['alteracoes'] as $campo => $alteracao) {
+                    $mudancas[$campo] = $alteracao['depois'];
+                }
+                atualizarProdutoPlanilha($conexao, $produtoId, $mudancas);
+                sincronizarEstoqueUnidades($conexao, $produtoId);
+                registrarAuditoria($conexao, $usuario, 'atualizar', 'produto', $produtoId, $antes, carregarEstadoAuditoria($conexao, 'produto', $produtoId));
+            }
+        }
+        $conexao->commit();
+    } catch (Throwable $e) {
+        $conexao->rollback();
+        $conexao->close();
+        responderErro("Erro na linha {$linha['linha']}: " . $e->getMessage() . '. Nada foi importado', 500);
+    }
+}
+
+// Valores das colunas da tabela produtos com o tipo do bind_param
+function colunasProdutoPlanilha(array $valores): array {
+    $tiposBind = ['texto' => 's', 'condicao' => 's', 'inteiro' => 'i', 'decimal' => 'd', 'booleano' => 'i'];
+    $colunas = [];
+    foreach ($valores as $campo => $valor) {
+        $tipo = PRODUTO_PLANILHA_CAMPOS[$campo];
+        if (!isset($tiposBind[$tipo])) {
+            continue;
+        }
+        $colunas[$campo] = [$tiposBind[$tipo], $tipo === 'booleano' ? ($valor === 'sim' ? 1 : 0) : $valor];
+    }
+    return $colunas;
+}
+
+function criarProdutoPlanilha($conexao, array $valores): int {
+    $colunas = colunasProdutoPlanilha($valores);
+    $colunas['slug'] = ['s', gerarSlugProduto($conexao, $valores['nome'])];
+    // Como no cadastro pelo formulário: sem preço original, vale o preço
+    if (!isset($colunas['preco_original'])) {
+        $colunas['preco_original'] = ['d', $valores['preco']];
+    }
+
+    $sql = "INSERT INTO produtos (" . implode(', ', array_keys($colunas)) . ") VALUES (" . implode(', ', array_fill(0, count($colunas), '?')) . ")";
+    executarProdutoPlanilha($conexao, $sql, $colunas);
+    $produtoId = $conexao->insert_id;
+
+    salvarListasProdutoPlanilha($conexao, $produtoId, $valores);
+    return $produtoId;
+}
+
+function atualizarProdutoPlanilha($conexao, int $produtoId, array $mudancas): void {
+    $colunas = colunasProdutoPlanilha($mudancas);
+    if (isset($mudancas['nome'])) {
+        $colunas['slug'] = ['s', gerarSlugProduto($conexao, $mudancas['nome'], $produtoId)];
+    }
+
+    if (count($colunas) > 0) {
+        $atribuicoes = array_map(function ($coluna) {
+            return "$coluna = ?";
+        }, array_keys($colunas));
+        $colunas['id'] = ['i', $produtoId];
+        executarProdutoPlanilha($conexao, "UPDATE produtos SET " . implode(', ', $atribuicoes) . " WHERE id = ?", $colunas);
+    }
+
+    salvarListasProdutoPlanilha($conexao, $produtoId, $mudancas);
+}
+
+function executarProdutoPlanilha($conexao, string $sql, array $colunas): void {
+    $tipos = implode('', array_column($colunas, 0));
+    $parametros = array_column($colunas, 1);
+
+    $stmt = $conexao->prepare($sql);
+    $stmt->bind_param($tipos, ...$parametros);
+    if (!$stmt->execute()) {
+        $erro = $stmt->error;
+        $stmt->close();
+        throw new Exception($erro);
+    }
+    $stmt->close();
+}
+
+/**
+ * Substitui as imagens, especificações e variações presentes em $valores
+ * Imagens que já eram do produto mantêm as versões geradas no upload
+ */
+function salvarListasProdutoPlanilha($conexao, int $produtoId, array $valores): void {
+    if (isset($valores['imagens'])) {
+        $variantesPorUrl = [];
+        $stmt = $conexao->prepare("SELECT url, variantes FROM produto_imagens WHERE produto_id = ?");
+        $stmt->bind_param('i', $produtoId);
+        $stmt->execute();
+        $result = $stmt->get_result();
+        while ($row = $result->fetch_assoc()) {
+            $variantesPorUrl[$row['url']] = lerVariantesImagem($row['variantes']);
+        }
+        $stmt->close();
+
+        $stmt = $conexao->prepare("DELETE FROM produto_imagens WHERE produto_id = ?");
+        $stmt->bind_param('i', $produtoId);
+        $stmt->execute();
+        $stmt->close();
+
+        $imagens = [];
+        foreach (dividirListaPlanilha($valores['imagens']) as $indice => $url) {
+            $imagens[] = ['url' => $url, 'variantes' => $variantesPorUrl[$url] ?? [], 'principal' => $indice === 0];
+        }
+        salvarImagensProduto($conexao, $produtoId, $imagens);
+    }
+
+    if (isset($valores['especificacoes'])) {
+        $stmt = $conexao->prepare("DELETE FROM produto_especificacoes WHERE produto_id = ?");
+        $stmt->bind_param('i', $produtoId);
+        $stmt->execute();
+        $stmt->close();
+
+        $especificacoes = [];
+        foreach (dividirListaPlanilha($valores['especificacoes']) as $item) {
+            [$label, $valor] = array_map('trim', explode(':', $item, 2));
+            $especificacoes[] = ['label' => $label, 'valor' => $valor];
+        }
+        salvarEspecificacoesProduto($conexao, $produtoId, $especificacoes);
+    }
+
+    if (isset($valores['variacoes'])) {
+        $variacoes = [];
+        foreach (dividirListaPlanilha($valores['variacoes']) as $item) {
+            [$cor, $corCodigo, $capacidade, $estoque, $preco] = explode(';', $item);
+            $variacoes[] = [
+                'cor' => $cor,
+                'cor_codigo' => $corCodigo,
+                'capacidade' => $capacidade,
+                'estoque' => (int)$estoque,
+                'preco' => (float)$preco
+            ];
+        }
+        salvarVariacoesProduto($conexao, $produtoId, $variacoes);
+    }
+}
+?>
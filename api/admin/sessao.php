@@ -0,0 +1,22 @@
+<?php
+/**
+ * API de Sessão do Admin
+ * GET /admin/sessao.php - Usuário do token, papel e permissões atuais
+ *
+ * O painel consulta ao abrir (AdminRoute); mudanças de papel valem sem
+ * precisar entrar de novo.
+ */
+
+require_once 'config.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'GET') {
+    responderErro('Método não permitido', 405);
+}
+
+$usuario = verificarAuth();
+
+responderSucesso([
+    'usuario' => dadosUsuarioSessao($usuario),
+    'permissoes' => permissoesDoPapel($usuario['papel'])
+]);
+?>
@@ -0,0 +1,223 @@
+<?php
+/**
+ * API da fila de avaliações do trade-in do Admin
+ * GET /admin/tradein_avaliacoes.php     - Filtros: busca (número, nome, email ou modelo), etapa,
+ *                                         pagina, limite; responde { avaliacoes, total, pagina, limite }
+ * GET /admin/tradein_avaliacoes.php?id=
+ * PUT /admin/tradein_avaliacoes.php?id= - { etapa, valor_final, observacoes } (TRADEIN_TRANSICOES)
+ *
+ * Aceitar exige o valor final e gera o cupom de crédito do cliente
+ * (tradein.php: gerarCreditoTradeIn); aceitar ou recusar avisa o cliente por
+ * email. Toda gravação entra no log de auditoria.
+ */
+
+require_once 'config.php';
+require_once __DIR__ . '/../tradein.php';
+require_once __DIR__ . '/../auditoria.php';
+
+// Verificar autenticação e a permissão do papel para a ação
+$usuario = verificarAuth();
+
+$method = $_SERVER['REQUEST_METHOD'];
+exigirPermissao($usuario, $method === 'GET' ? 'tradein.ver' : 'tradein.editar');
+$id = isset($_GET['id']) ? intval($_GET['id']) : null;
+
+switch ($method) {
+    case 'GET':
+        if ($id) {
+            buscarAvaliacao($id);
+        } else {
+            listarAvaliacoes();
+        }
+        break;
+    case 'PUT':
+        if (!$id) responderErro('ID é obrigatório');
+        atualizarAvaliacao($id, $usuario);
+        break;
+    default:
+        responderErro('Método não permitido', 405);
+}
+
+// Avaliação com o cupom de crédito e o pedido em que ele foi usado
+const TRADEIN_SELECT = "SELECT a.*, c.codigo AS cupom_codigo, c.valido_ate AS cupom_valido_ate, pe.numero AS pedido_numero
+    FROM tradein_avaliacoes a
+    LEFT JOIN cupons c ON c.id = a.cupom_id
+    LEFT JOIN cupom_usos cu ON cu.cupom_id = a.cupom_id
+    LEFT JOIN pedidos pe ON pe.id = cu.pedido_id";
+
+function formatarAvaliacao(array $row): array {
+    $row['respostas'] = json_decode($row['respostas'], true) ?: [];
+    return $row;
+}
+
+function listarAvaliacoes() {
+    $conexao = getConnection();
+
+    $condicoes = [];
+    $valores = [];
+    $tipos = "";
+
+    if (!empty($_GET['busca'])) {
+        $busca = '%' . trim($_GET['busca']) . '%';
+        $condicoes[] = "(a.numero LIKE ? OR a.nome LIKE ? OR a.email LIKE ? OR a.modelo LIKE ?)";
+        array_push($valores, $busca, $busca, $busca, $busca);
+        $tipos .= "ssss";
+    }
+    if (!empty($_GET['etapa'])) {
+        if (!in_array($_GET['etapa'], TRADEIN_ETAPAS, true)) {
+            responderErro('Etapa inválida');
+        }
+        $condicoes[] = "a.etapa = ?";
+        $valores[] = $_GET['etapa'];
+        $tipos .= "s";
+    }
+
+    $where = count($condicoes) > 0 ? "WHERE " . implode(" AND ", $condicoes) : "";
+    $limite = min(100, max(1, isset($_GET['limite']) ? intval($_GET['limite']) : 30));
+    $pagina = max(1, isset($_GET['pagina']) ? intval($_GET['pagina']) : 1);
+    $offset = ($pagina - 1) * $limite;
+
+    $stmt = $conexao->prepare("SELECT COUNT(*) AS total FROM tradein_avaliacoes a $where");
+    if ($tipos !== "") {
+        $stmt->bind_param($tipos, ...$valores);
+    }
+    $stmt->execute();
+    $total = (int)$stmt->get_result()->fetch_assoc()['total'];
+    $stmt->close();
+
+    // As que esperam a equipe primeiro, das mais antigas; depois as encerradas, das mais recentes
+    $stmt = $conexao->prepare(TRADEIN_SELECT . " $where
+        ORDER BY a.etapa IN ('aceita', 'recusada'), IF(a.etapa IN ('aceita', 'recusada'), -UNIX_TIMESTAMP(a.updated_at), UNIX_TIMESTAMP(a.created_at)), a.id
+        LIMIT $limite OFFSET $offset");
+    if ($tipos !== "") {
+        $stmt->bind_param($tipos, ...$valores);
+    }
+    $stmt->execute();
+    $result = $stmt->get_result();
+    $avaliacoes = [];
+    while ($row = $result->fetch_assoc()) {
+        $avaliacoes[] = formatarAvaliacao($row);
+    }
+    $stmt->close();
+
+    $conexao->close();
+
+    responderSucesso([
+        'avaliacoes' => $avaliacoes,
+        'total' => $total,
+        'pagina' => $pagina,
+        'limite' => $limite
+    ]);
+}
+
+function buscarAvaliacao($id) {
+    $conexao = getConnection();
+    $avaliacao = carregarAvaliacao($conexao, $id);
+    $conexao->close();
+
+    if (!$avaliacao) {
+        responderErro('Avaliação não encontrada', 404);
+    }
+
+    responderSucesso($avaliacao);
+}
+
+function carregarAvaliacao($conexao, int $id): ?array {
+    $stmt = $conexao->prepare(TRADEIN_SELECT . " WHERE a.id = ?");
+    $stmt->bind_param("i", $id);
+    $stmt->execute();
+    $avaliacao = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+    return $avaliacao ? formatarAvaliacao($avaliacao) : null;
+}
+
+function atualizarAvaliacao($id, $usuario) {
+    $input = json_decode(file_get_contents('php://input'), true) ?: [];
+    $conexao = getConnection();
+
+    $avaliacao = carregarAvaliacao($conexao, $id);
+    if (!$avaliacao) {
+        responderErro('Avaliação não encontrada', 404);
+    }
+
+    $etapaAtual = $avaliacao['etapa'];
+    $etapa = $input['etapa'] ?? $etapaAtual;
+    $erroTransicao = validarTransicaoTradeIn($etapaAtual, $etapa);
+    if ($erroTransicao) {
+        responderErro($erroTransicao, 409);
+    }
+
+    $observacoes = trim((string)($input['observacoes'] ?? ''));
+    $observacoes = $observacoes !== '' ? mb_substr($observacoes, 0, 1000) : null;
+
+    // O valor final só é definido ao aceitar; depois disso o cupom já foi gerado
+    $aceitando = $etapa === 'aceita' && $etapaAtual !== 'aceita';
+    $valorFinal = $avaliacao['valor_final'] !== null ? (float)$avaliacao['valor_final'] : null;
+    if ($aceitando) {
+        $valor = $input['valor_final'] ?? null;
+        if (!is_numeric($valor) || $valor <= 0) {
+            responderErro('Informe o valor final do aparelho para aceitar');
+        }
+        $valorFinal = round((float)$valor, 2);
+
+        $erroValor = validarValorFinalTradeIn(
+            $valorFinal,
+            (float)$avaliacao['cotacao_maxima'],
+            temPermissao($usuario, TRADEIN_PERMISSAO_ACIMA_COTACAO)
+        );
+        if ($erroValor) {
+            responderErro($erroValor, 403);
+        }
+    }
+
+    $conexao->begin_transaction();
+
+    try {
+        $antes = carregarEstadoAuditoria($conexao, 'tradein', $id);
+
+        // A condição na etapa atual evita aceitar duas vezes (e gerar dois créditos)
+        $stmt = $conexao->prepare("UPDATE tradein_avaliacoes SET etapa = ?, valor_final = ?, observacoes = ? WHERE id = ? AND etapa = ?");
+        $stmt->bind_param("sdsis", $etapa, $valorFinal, $observacoes, $id, $etapaAtual);
+        $stmt->execute();
+        $alterado = $stmt->affected_rows > 0;
+        $stmt->close();
+
+        $depois = carregarEstadoAuditoria($conexao, 'tradein', $id);
+        if (!$alterado && $depois['etapa'] !== $etapaAtual) {
+            $conexao->rollback();
+            responderErro('A avaliação foi alterada por outra pessoa. Atualize a página e tente novamente', 409);
+        }
+
+        $credito = null;
+        if ($aceitando) {
+            $credito = gerarCreditoTradeIn($conexao, $avaliacao, $valorFinal);
+
+            $stmt = $conexao->prepare("UPDATE tradein_avaliacoes SET cupom_id = ? WHERE id = ?");
+            $stmt->bind_param("ii", $credito['id'], $id);
+            $stmt->execute();
+            $stmt->close();
+
+            registrarAuditoria($conexao, $usuario, 'criar', 'cupom', $credito['id'], null, carregarEstadoAuditoria($conexao, 'cupom', $credito['id']));
+            $depois = carregarEstadoAuditoria($conexao, 'tradein', $id);
+        }
+
+        registrarAuditoria($conexao, $usuario, 'atualizar', 'tradein', $id, $antes, $depois);
+
+        $conexao->commit();
+    } catch (Throwable $e) {
+        $conexao->rollback();
+        responderErro('Erro ao atualizar avaliação: ' . $e->getMessage(), 500);
+    }
+
+    // A avaliação já está gravada; uma falha no email não desfaz a decisão
+    if ($etapa !== $etapaAtual && in_array($etapa, ['aceita', 'recusada'], true)) {
+        $avaliacao['valor_final'] = $valorFinal;
+        $avaliacao['observacoes'] = $observacoes;
+        enviarEmailTradeInConcluido($conexao, $avaliacao, $credito);
+    }
+
+    $atualizada = carregarAvaliacao($conexao, $id);
+    $conexao->close();
+    responderSucesso($atualizada, $aceitando ? "Avaliação aceita. Crédito {$credito['codigo']} enviado ao cliente" : 'Avaliação atualizada');
+}
+?>
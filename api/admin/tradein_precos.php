@@ -0,0 +1,184 @@
+<?php
+/**
+ * API CRUD da tabela de preços do trade-in (tradein_precos)
+ * GET    /admin/tradein_precos.php      - Todos os preços, por modelo e capacidade
+ * POST   /admin/tradein_precos.php      - Cadastra a faixa de um modelo e capacidade
+ * PUT    /admin/tradein_precos.php?id=  - Altera a faixa ou desativa
+ * DELETE /admin/tradein_precos.php?id=
+ *
+ * A faixa vale para o aparelho sem defeitos e com bateria perfeita; a
+ * cotação aplica os descontos de tradein.php. Avaliações já enviadas guardam
+ * a própria cotação e não mudam com a tabela.
+ */
+
+require_once 'config.php';
+require_once __DIR__ . '/../auditoria.php';
+
+// Verificar autenticação e a permissão do papel para a ação
+$usuario = verificarAuth();
+
+$method = $_SERVER['REQUEST_METHOD'];
+exigirPermissao($usuario, $method === 'GET' ? 'tradein.ver' : 'tradein.editar');
+$id = isset($_GET['id']) ? intval($_GET['id']) : null;
+
+switch ($method) {
+    case 'GET':
+        listarPrecos();
+        break;
+    case 'POST':
+        criarPreco($usuario);
+        break;
+    case 'PUT':
+        if (!$id) responderErro('ID é obrigatório');
+        atualizarPreco($id, $usuario);
+        break;
+    case 'DELETE':
+        if (!$id) responderErro('ID é obrigatório');
+        excluirPreco($id, $usuario);
+        break;
+    default:
+        responderErro('Método não permitido', 405);
+}
+
+function listarPrecos() {
+    $conexao = getConnection();
+    $result = $conexao->query("SELECT * FROM tradein_precos ORDER BY modelo, capacidade");
+    $precos = [];
+    while ($row = $result->fetch_assoc()) {
+        $precos[] = $row;
+    }
+    $conexao->close();
+    responderSucesso($precos);
+}
+
+/**
+ * Valida e normaliza os campos do formulário
+ * Responde 409 se o modelo e a capacidade já têm outra faixa
+ */
+function normalizarDadosPreco($conexao, array $input, int $ignorarId = 0): array {
+    $modelo = trim((string)($input['modelo'] ?? ''));
+    $capacidade = strtoupper(trim((string)($input['capacidade'] ?? '')));
+
+    if ($modelo === '' || mb_strlen($modelo) > 60) {
+        responderErro('Modelo é obrigatório (até 60 caracteres)');
+    }
+    if ($capacidade === '' || strlen($capacidade) > 10) {
+        responderErro('Capacidade é obrigatória (até 10 caracteres)');
+    }
+
+    $minimo = $input['valor_minimo'] ?? null;
+    $maximo = $input['valor_maximo'] ?? null;
+    if (!is_numeric($minimo) || $minimo <= 0 || !is_numeric($maximo) || $maximo <= 0) {
+        responderErro('Informe os valores mínimo e máximo');
+    }
+    if ($minimo > $maximo) {
+        responderErro('O valor mínimo não pode ser maior que o máximo');
+    }
+
+    $stmt = $conexao->prepare("SELECT id FROM tradein_precos WHERE modelo = ? AND capacidade = ? AND id <> ? LIMIT 1");
+    $stmt->bind_param("ssi", $modelo, $capacidade, $ignorarId);
+    $stmt->execute();
+    $existe = $stmt->get_result()->num_rows > 0;
+    $stmt->close();
+    if ($existe) {
+        responderErro("Já existe um preço para $modelo $capacidade", 409);
+    }
+
+    return [
+        'modelo' => $modelo,
+        'capacidade' => $capacidade,
+        'valor_minimo' => round((float)$minimo, 2),
+        'valor_maximo' => round((float)$maximo, 2),
+        'ativo' => isset($input['ativo']) ? ($input['ativo'] ? 1 : 0) : 1
+    ];
+}
+
+function criarPreco($usuario) {
+    $input = json_decode(file_get_contents('php://input'), true) ?: [];
+    $conexao = getConnection();
+    $dados = normalizarDadosPreco($conexao, $input);
+
+    $conexao->begin_transaction();
+
+    try {
+        $stmt = $conexao->prepare("INSERT INTO tradein_precos (modelo, capacidade, valor_minimo, valor_maximo, ativo) VALUES (?, ?, ?, ?, ?)");
+        $stmt->bind_param("ssddi", $dados['modelo'], $dados['capacidade'], $dados['valor_minimo'], $dados['valor_maximo'], $dados['ativo']);
+        if (!$stmt->execute()) {
+            throw new Exception($stmt->error);
+        }
+        $id = $stmt->insert_id;
+        $stmt->close();
+
+        registrarAuditoria($conexao, $usuario, 'criar', 'tradein_preco', $id, null, carregarEstadoAuditoria($conexao, 'tradein_preco', $id));
+
+        $conexao->commit();
+    } catch (Throwable $e) {
+        $conexao->rollback();
+        responderErro('Erro ao cadastrar preço: ' . $e->getMessage(), 500);
+    }
+
+    $conexao->close();
+    responderSucesso(['id' => $id], 'Preço cadastrado');
+}
+
+function atualizarPreco($id, $usuario) {
+    $input = json_decode(file_get_contents('php://input'), true) ?: [];
+    $conexao = getConnection();
+
+    $antes = carregarEstadoAuditoria($conexao, 'tradein_preco', $id);
+    if (!$antes) {
+        responderErro('Preço não encontrado', 404);
+    }
+
+    $dados = normalizarDadosPreco($conexao, $input, $id);
+
+    $conexao->begin_transaction();
+
+    try {
+        $stmt = $conexao->prepare("UPDATE tradein_precos SET modelo = ?, capacidade = ?, valor_minimo = ?, valor_maximo = ?, ativo = ? WHERE id = ?");
+        $stmt->bind_param("ssddii", $dados['modelo'], $dados['capacidade'], $dados['valor_minimo'], $dados['valor_maximo'], $dados['ativo'], $id);
+        if (!$stmt->execute()) {
+            throw new Exception($stmt->error);
+        }
+        $stmt->close();
+
+        registrarAuditoria($conexao, $usuario, 'atualizar', 'tradein_preco', $id, $antes, carregarEstadoAuditoria($conexao, 'tradein_preco', $id));
+
+        $conexao->commit();
+    } catch (Throwable $e) {
+        $conexao->rollback();
+        responderErro('Erro ao atualizar preço: ' . $e->getMessage(), 500);
+    }
+
+    $conexao->close();
+    responderSucesso(['id' => $id], 'Preço atualizado');
+}
+
+function excluirPreco($id, $usuario) {
+    $conexao = getConnection();
+
+    $antes = carregarEstadoAuditoria($conexao, 'tradein_preco', $id);
+    if (!$antes) {
+        responderErro('Preço não encontrado', 404);
+    }
+
+    $conexao->begin_transaction();
+
+    try {
+        $stmt = $conexao->prepare("DELETE FROM tradein_precos WHERE id = ?");
+        $stmt->bind_param("i", $id);
+        $stmt->execute();
+        $stmt->close();
+
+        registrarAuditoria($conexao, $usuario, 'excluir', 'tradein_preco', $id, $antes, null);
+
+        $conexao->commit();
+    } catch (Throwable $e) {
+        $conexao->rollback();
+        responderErro('Erro ao excluir preço: ' . $e->getMessage(), 500);
+    }
+
+    $conexao->close();
+    responderSucesso(null, 'Preço excluído');
+}
+?>
@@ -0,0 +1,403 @@
+<?php
+/**
+ * API CRUD de Unidades de aparelho do Admin (unidades.php)
+ * GET    /admin/unidades.php - Filtros: busca (IMEI, série ou produto), produto_id,
+ *                              situacao, pagina, limite; responde { unidades, total, pagina, limite }
+ * POST   /admin/unidades.php - Cadastra uma unidade
+ * PUT    /admin/unidades.php?id= - Altera dados e situação (UNIDADE_TRANSICOES)
+ * DELETE /admin/unidades.php?id= - Só unidades que nunca foram de um pedido
+ *
+ * Toda gravação recalcula o estoque do produto e entra no log de auditoria.
+ */
+
+require_once 'config.php';
+require_once __DIR__ . '/../unidades.php';
+require_once __DIR__ . '/../auditoria.php';
+
+// Verificar autenticação e a permissão do papel para a ação
+$usuario = verificarAuth();
+
+$method = $_SERVER['REQUEST_METHOD'];
+exigirPermissao($usuario, $method === 'GET' ? 'produtos.ver' : 'produtos.editar');
+$id = isset($_GET['id']) ? intval($_GET['id']) : null;
+
+switch ($method) {
+    case 'GET':
+        if ($id) {
+            buscarUnidade($id);
+        } else {
+            listarUnidades();
+        }
+        break;
+    case 'POST':
+        criarUnidade($usuario);
+        break;
+    case 'PUT':
+        if (!$id) responderErro('ID é obrigatório');
+        atualizarUnidade($id, $usuario);
+        break;
+    case 'DELETE':
+        if (!$id) responderErro('ID é obrigatório');
+        excluirUnidade($id, $usuario);
+        break;
+    default:
+        responderErro('Método não permitido', 405);
+}
+
+// Unidade com o produto, a variação e o pedido em que foi reservada ou vendida
+const UNIDADE_SELECT = "SELECT u.*, p.nome AS produto_nome, v.cor AS variacao_cor, v.capacidade AS variacao_capacidade,
+        i.pedido_id, pe.numero AS pedido_numero
+    FROM produto_unidades u
+    INNER JOIN produtos p ON p.id = u.produto_id
+    LEFT JOIN produto_variacoes v ON v.id = u.variacao_id
+    LEFT JOIN pedido_itens i ON i.id = u.pedido_item_id
+    LEFT JOIN pedidos pe ON pe.id = i.pedido_id";
+
+function listarUnidades() {
+    $conexao = getConnection();
+
+    $condicoes = [];
+    $valores = [];
+    $tipos = "";
+
+    if (!empty($_GET['busca'])) {
+        $busca = '%' . trim($_GET['busca']) . '%';
+        $condicoes[] = "(u.imei LIKE ? OR u.numero_serie LIKE ? OR p.nome LIKE ?)";
+        array_push($valores, $busca, $busca, $busca);
+        $tipos .= "sss";
+    }
+    if (!empty($_GET['produto_id'])) {
+        $condicoes[] = "u.produto_id = ?";
+        $valores[] = intval($_GET['produto_id']);
+        $tipos .= "i";
+    }
+    if (!empty($_GET['situacao'])) {
+        if (!in_array($_GET['situacao'], UNIDADE_SITUACOES, true)) {
+            responderErro('Situação inválida');
+        }
+        $condicoes[] = "u.situacao = ?";
+        $valores[] = $_GET['situacao'];
+        $tipos .= "s";
+    }
+
+    $where = count($condicoes) > 0 ? "WHERE " . implode(" AND ", $condicoes) : "";
+    $limite = min(100, max(1, isset($_GET['limite']) ? intval($_GET['limite']) : 30));
+    $pagina = max(1, isset($_GET['pagina']) ? intval($_GET['pagina']) : 1);
+    $offset = ($pagina - 1) * $limite;
+
+    $stmt = $conexao->prepare("SELECT COUNT(*) AS total FROM produto_unidades u INNER JOIN produtos p ON p.id = u.produto_id $where");
+    if ($tipos !== "") {
+        $stmt->bind_param($tipos, ...$valores);
+    }
+    $stmt->execute();
+    $total = (int)$stmt->get_result()->fetch_assoc()['total'];
+    $stmt->close();
+
+    $stmt = $conexao->prepare(UNIDADE_SELECT . " $where ORDER BY u.data_entrada DESC, u.id DESC LIMIT $limite OFFSET $offset");
+    if ($tipos !== "") {
+        $stmt->bind_param($tipos, ...$valores);
+    }
+    $stmt->execute();
+    $result = $stmt->get_result();
+    $unidades = [];
+    while ($row = $result->fetch_assoc()) {
+        $unidades[] = $row;
+    }
+    $stmt->close();
+
+    $conexao->close();
+
+    responderSucesso([
+        'unidades' => $unidades,
+        'total' => $total,
+        'pagina' => $pagina,
+        'limite' => $limite
+    ]);
+}
+
+function buscarUnidade($id) {
+    $conexao = getConnection();
+    $unidade = carregarUnidade($conexao, $id);
+    $conexao->close();
+
+    if (!$unidade) {
+        responderErro('Unidade não encontrada', 404);
+    }
+
+    responderSucesso($unidade);
+}
+
+function carregarUnidade($conexao, int $id): ?array {
+    $stmt = $conexao->prepare(UNIDADE_SELECT . " WHERE u.id = ?");
+    $stmt->bind_param("i", $id);
+    $stmt->execute();
+    $unidade = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+    return $unidade ?: null;
+}
+
+/**
+ * Valida e normaliza os campos do formulário
+ * IMEI e série chegam só com os caracteres válidos; pelo menos um é obrigatório
+ */
+function normalizarDadosUnidade($conexao, array $input): array {
+    $produtoId = intval($input['produto_id'] ?? 0);
+    $stmt = $conexao->prepare("SELECT id FROM produtos WHERE id = ?");
+    $stmt->bind_param("i", $produtoId);
+    $stmt->execute();
+    $existe = $stmt->get_result()->num_rows > 0;
+    $stmt->close();
+    if (!$existe) {
+        responderErro('Produto não encontrado');
+    }
+
+    $variacaoId = !empty($input['variacao_id']) ? intval($input['variacao_id']) : null;
+    if ($variacaoId !== null) {
+        $stmt = $conexao->prepare("SELECT id FROM produto_variacoes WHERE id = ? AND produto_id = ?");
+        $stmt->bind_param("ii", $variacaoId, $produtoId);
+        $stmt->execute();
+        $existe = $stmt->get_result()->num_rows > 0;
+        $stmt->close();
+        if (!$existe) {
+            responderErro('Variação não pertence ao produto');
+        }
+    }
+
+    $imei = preg_replace('/\D/', '', (string)($input['imei'] ?? ''));
+    $numeroSerie = strtoupper(preg_replace('/[^A-Za-z0-9]/', '', (string)($input['numero_serie'] ?? '')));
+    if ($imei === '' && $numeroSerie === '') {
+        responderErro('Informe o IMEI ou o número de série');
+    }
+    if ($imei !== '' && !validarImei($imei)) {
+        responderErro('IMEI inválido');
+    }
+    if ($numeroSerie !== '' && (strlen($numeroSerie) < 8 || strlen($numeroSerie) > 30)) {
+        responderErro('Número de série deve ter de 8 a 30 letras ou números');
+    }
+
+    $bateria = $input['saude_bateria'] ?? null;
+    if (!is_numeric($bateria) || (int)$bateria != $bateria || $bateria < 1 || $bateria > 100) {
+        responderErro('Saúde da bateria deve ser um percentual inteiro de 1 a 100');
+    }
+
+    $grade = $input['grade'] ?? '';
+    if (!in_array($grade, UNIDADE_GRADES, true)) {
+        responderErro('Grade inválida');
+    }
+
+    $custo = $input['custo'] ?? null;
+    if (!is_numeric($custo) || $custo < 0) {
+        responderErro('Custo de compra inválido');
+    }
+
+    $dataEntrada = (string)($input['data_entrada'] ?? '');
+    $data = DateTime::createFromFormat('Y-m-d', $dataEntrada);
+    if (!$data || $data->format('Y-m-d') !== $dataEntrada) {
+        responderErro('Data de entrada inválida');
+    }
+    if ($dataEntrada > date('Y-m-d')) {
+        responderErro('A data de entrada não pode ser futura');
+    }
+
+    $observacoes = trim((string)($input['observacoes'] ?? ''));
+
+    return [
+        'produto_id' => $produtoId,
+        'variacao_id' => $variacaoId,
+        'imei' => $imei !== '' ? $imei : null,
+        'numero_serie' => $numeroSerie !== '' ? $numeroSerie : null,
+        'saude_bateria' => (int)$bateria,
+        'grade' => $grade,
+        'custo' => round((float)$custo, 2),
+        'data_entrada' => $dataEntrada,
+        'observacoes' => $observacoes !== '' ? mb_substr($observacoes, 0, 500) : null
+    ];
+}
+
+/**
+ * Responde 409 se o IMEI ou a série já pertencem a outra unidade
+ */
+function verificarIdentificacaoUnidade($conexao, array $dados, int $ignorarId = 0): void {
+    foreach (['imei' => 'IMEI', 'numero_serie' => 'número de série'] as $campo => $rotulo) {
+        if ($dados[$campo] === null) {
+            continue;
+        }
+        $stmt = $conexao->prepare("SELECT id FROM produto_unidades WHERE $campo = ? AND id <> ? LIMIT 1");
+        $stmt->bind_param("si", $dados[$campo], $ignorarId);
+        $stmt->execute();
+        $existente = $stmt->get_result()->fetch_assoc();
+        $stmt->close();
+        if ($existente) {
+            responderErro("Já existe uma unidade com este $rotulo (#{$existente['id']})", 409);
+        }
+    }
+}
+
+function criarUnidade($usuario) {
+    $input = json_decode(file_get_contents('php://input'), true) ?: [];
+    $conexao = getConnection();
+    $dados = normalizarDadosUnidade($conexao, $input);
+    verificarIdentificacaoUnidade($conexao, $dados);
+
+    // Unidade nova entra em estoque ou direto para o reparo
+    $situacao = $input['situacao'] ?? 'em_estoque';
+    if (!in_array($situacao, ['em_estoque', 'em_reparo'], true)) {
+        responderErro('Unidade nova deve entrar em estoque ou em reparo');
+    }
+
+    $conexao->begin_transaction();
+
+    try {
+        $stmt = $conexao->prepare("INSERT INTO produto_unidades
+            (produto_id, variacao_id, imei, numero_serie, saude_bateria, grade, custo, data_entrada, situacao, observacoes)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)");
+        $stmt->bind_param(
+            "iissisdsss",
+            $dados['produto_id'],
+            $dados['variacao_id'],
+            $dados['imei'],
+            $dados['numero_serie'],
+            $dados['saude_bateria'],
+            $dados['grade'],
+            $dados['custo'],
+            $dados['data_entrada'],
+            $situacao,
+            $dados['observacoes']
+        );
+        if (!$stmt->execute()) {
+            throw new Exception($stmt->error);
+        }
+        $id = $stmt->insert_id;
+        $stmt->close();
+
+        sincronizarEstoqueUnidades($conexao, $dados['produto_id']);
+        registrarAuditoria($conexao, $usuario, 'criar', 'unidade', $id, null, carregarEstadoAuditoria($conexao, 'unidade', $id));
+
+        $conexao->commit();
+    } catch (Throwable $e) {
+        $conexao->rollback();
+        responderErro('Erro ao cadastrar unidade: ' . $e->getMessage(), 500);
+    }
+
+    $conexao->close();
+    responderSucesso(['id' => $id], 'Unidade cadastrada');
+}
+
+function atualizarUnidade($id, $usuario) {
+    $input = json_decode(file_get_contents('php://input'), true) ?: [];
+    $conexao = getConnection();
+
+    $antes = carregarEstadoAuditoria($conexao, 'unidade', $id);
+    if (!$antes) {
+        responderErro('Unidade não encontrada', 404);
+    }
+
+    $dados = normalizarDadosUnidade($conexao, $input);
+    verificarIdentificacaoUnidade($conexao, $dados, $id);
+
+    $situacaoAtual = $antes['situacao'];
+    $situacao = $input['situacao'] ?? $situacaoAtual;
+    $erroTransicao = validarTransicaoUnidade($situacaoAtual, $situacao);
+    if ($erroTransicao) {
+        responderErro($erroTransicao, 409);
+    }
+
+    // Unidade de um pedido continua no produto e na variação vendidos
+    $deUmPedido = in_array($situacaoAtual, ['reservado', 'vendido'], true);
+    if ($deUmPedido && ((int)$antes['produto_id'] !== $dados['produto_id'] || ($antes['variacao_id'] !== null ? (int)$antes['variacao_id'] : null) !== $dados['variacao_id'])) {
+        responderErro('Unidade reservada ou vendida não pode mudar de produto', 409);
+    }
+
+    // Devolvida que volta ao estoque ou ao reparo deixa de ser do pedido
+    $pedidoItemId = $antes['pedido_item_id'] !== null ? (int)$antes['pedido_item_id'] : null;
+    if ($situacaoAtual === 'devolvido' && $situacao !== 'devolvido') {
+        $pedidoItemId = null;
+    }
+
+    $conexao->begin_transaction();
+
+    try {
+        // A condição na situação atual evita sobrescrever uma reserva feita neste intervalo
+        $stmt = $conexao->prepare("UPDATE produto_unidades SET produto_id = ?, variacao_id = ?, imei = ?, numero_serie = ?,
+            saude_bateria = ?, grade = ?, custo = ?, data_entrada = ?, situacao = ?, pedido_item_id = ?, observacoes = ?
+            WHERE id = ? AND situacao = ?");
+        $stmt->bind_param(
+            "iissisdssisis",
+            $dados['produto_id'],
+            $dados['variacao_id'],
+            $dados['imei'],
+            $dados['numero_serie'],
+            $dados['saude_bateria'],
+            $dados['grade'],
+            $dados['custo'],
+            $dados['data_entrada'],
+            $situacao,
+            $pedidoItemId,
+            $dados['observacoes'],
+            $id,
+            $situacaoAtual
+        );
+        if (!$stmt->execute()) {
+            throw new Exception($stmt->error);
+        }
+        $alterado = $stmt->affected_rows > 0;
+        $stmt->close();
+
+        if (!$alterado) {
+            $depois = carregarEstadoAuditoria($conexao, 'unidade', $id);
+            if ($depois['situacao'] !== $situacaoAtual) {
+                $conexao->rollback();
+                responderErro('A situação da unidade foi alterada. Atualize a página e tente novamente', 409);
+            }
+        }
+
+        sincronizarEstoqueUnidades($conexao, $dados['produto_id']);
+        if ((int)$antes['produto_id'] !== $dados['produto_id']) {
+            sincronizarEstoqueUnidades($conexao, (int)$antes['produto_id'], true);
+        }
+        registrarAuditoria($conexao, $usuario, 'atualizar', 'unidade', $id, $antes, carregarEstadoAuditoria($conexao, 'unidade', $id));
+
+        $conexao->commit();
+    } catch (Throwable $e) {
+        $conexao->rollback();
+        responderErro('Erro ao atualizar unidade: ' . $e->getMessage(), 500);
+    }
+
+    $conexao->close();
+    responderSucesso(['id' => $id], 'Unidade atualizada');
+}
+
+function excluirUnidade($id, $usuario) {
+    $conexao = getConnection();
+
+    $antes = carregarEstadoAuditoria($conexao, 'unidade', $id);
+    if (!$antes) {
+        responderErro('Unidade não encontrada', 404);
+    }
+
+    // Vendidas e devolvidas ficam para o histórico do pedido e da garantia
+    if ($antes['pedido_item_id'] !== null || !in_array($antes['situacao'], ['em_estoque', 'em_reparo'], true)) {
+        responderErro('Só é possível excluir unidades em estoque ou em reparo que nunca foram de um pedido', 409);
+    }
+
+    $conexao->begin_transaction();
+
+    try {
+        $stmt = $conexao->prepare("DELETE FROM produto_unidades WHERE id = ? AND situacao IN ('em_estoque', 'em_reparo')");
+        $stmt->bind_param("i", $id);
+        $stmt->execute();
+        $stmt->close();
+
+        sincronizarEstoqueUnidades($conexao, (int)$antes['produto_id'], true);
+        registrarAuditoria($conexao, $usuario, 'excluir', 'unidade', $id, $antes, null);
+
+        $conexao->commit();
+    } catch (Throwable $e) {
+        $conexao->rollback();
+        responderErro('Erro ao excluir unidade: ' . $e->getMessage(), 500);
+    }
+
+    $conexao->close();
+    responderSucesso(null, 'Unidade excluída');
+}
+?>
@@ -0,0 +1,75 @@
+<?php
+/**
+ * API de Troca de Senha do cliente logado
+ * POST /alterar_senha.php { senha_atual, nova_senha } (Authorization: Bearer)
+ *
+ * Confere a senha atual e encerra as sessões abertas em outros aparelhos
+ * (token_versao). Retorna um novo par de tokens para a sessão atual continuar.
+ */
+
+header('Content-Type: application/json; charset=utf-8');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: POST, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+// Handle preflight
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit();
+}
+
+require_once 'conexao.php';
+require_once 'auth.php';
+
+// Apenas POST é permitido
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    http_response_code(405);
+    echo json_encode(['success' => false, 'error' => 'Método não permitido'], JSON_UNESCAPED_UNICODE);
+    exit();
+}
+
+$usuario = autenticarCliente($conexao);
+
+$input = json_decode(file_get_contents('php://input'), true);
+$senhaAtual = $input['senha_atual'] ?? '';
+$novaSenha = $input['nova_senha'] ?? '';
+
+if (strlen($novaSenha) < 6) {
+    http_response_code(400);
+    echo json_encode(['success' => false, 'error' => 'A nova senha deve ter pelo menos 6 caracteres'], JSON_UNESCAPED_UNICODE);
+    exit();
+}
+
+$usuarioId = (int)$usuario['id'];
+
+$stmt = $conexao->prepare("SELECT senha FROM usuarios WHERE id = ?");
+$stmt->bind_param("i", $usuarioId);
+$stmt->execute();
+$senhaHash = $stmt->get_result()->fetch_assoc()['senha'];
+$stmt->close();
+
+if (!password_verify($senhaAtual, $senhaHash)) {
+    http_response_code(400);
+    echo json_encode(['success' => false, 'code' => 'senha_incorreta', 'error' => 'Senha atual incorreta'], JSON_UNESCAPED_UNICODE);
+    exit();
+}
+
+$novoHash = password_hash($novaSenha, PASSWORD_DEFAULT);
+
+$stmt = $conexao->prepare("UPDATE usuarios SET senha = ?, token_versao = token_versao + 1 WHERE id = ?");
+$stmt->bind_param("si", $novoHash, $usuarioId);
+$stmt->execute();
+$stmt->close();
+$conexao->close();
+
+$usuario['token_versao'] = (int)$usuario['token_versao'] + 1;
+$tokens = gerarTokensUsuario($usuario);
+
+echo json_encode([
+    'success' => true,
+    'message' => 'Senha alterada com sucesso',
+    'data' => $tokens + [
+        'usuario' => dadosUsuarioSessao($usuario)
+    ]
+], JSON_UNESCAPED_UNICODE);
+?>
@@ -0,0 +1,160 @@
+<?php
+/**
+ * Log de auditoria do painel
+ *
+ * As ações de api/admin que alteram dados carregam o estado da entidade antes
+ * e depois da mudança (carregarEstadoAuditoria) e registram só os campos que
+ * mudaram, com o usuário, a ação e o IP (registrarAuditoria). O log é
+ * consultado em admin/auditoria.php. Os nomes das entidades e das ações ficam
+ * em src/lib/auditoria.ts.
+ */
+
+const AUDITORIA_ACOES = ['criar', 'atualizar', 'excluir'];
+
+// Tabela, colunas registradas, campo que identifica o registro e permissão para ver o histórico
+const AUDITORIA_ENTIDADES = [
+    'produto' => [
+        'tabela' => 'produtos',
+        'colunas' => '*',
+        'rotulo' => 'nome',
+        'permissao' => 'produtos.ver'
+    ],
+    'categoria' => [
+        'tabela' => 'categorias',
+        'colunas' => '*',
+        'rotulo' => 'nome',
+        'permissao' => 'categorias.ver'
+    ],
+    'cupom' => [
+        'tabela' => 'cupons',
+        'colunas' => '*',
+        'rotulo' => 'codigo',
+        'permissao' => 'cupons.ver'
+    ],
+    // Só os campos que o painel altera; o restante do pedido vem do cliente
+    'pedido' => [
+        'tabela' => 'pedidos',
+        'colunas' => 'id, numero, status, codigo_rastreio, observacoes',
+        'rotulo' => 'numero',
+        'permissao' => 'pedidos.ver'
+    ],
+    'usuario' => [
+        'tabela' => 'usuarios',
+        'colunas' => 'id, nome, email, papel, ativo',
+        'rotulo' => 'nome',
+        'permissao' => 'equipe.gerenciar'
+    ],
+    // Aparelho físico, identificado pelo IMEI ou, sem ele, pelo número de série
+    'unidade' => [
+        'tabela' => 'produto_unidades',
+        'colunas' => '*, COALESCE(imei, numero_serie) AS identificacao',
+        'rotulo' => 'identificacao',
+        'permissao' => 'produtos.ver'
+    ],
+    // Só os campos que o painel altera; o aparelho e a cotação vêm do cliente
+    'tradein' => [
+        'tabela' => 'tradein_avaliacoes',
+        'colunas' => 'id, numero, etapa, valor_final, cupom_id, observacoes',
+        'rotulo' => 'numero',
+        'permissao' => 'tradein.ver'
+    ],
+    'tradein_preco' => [
+        'tabela' => 'tradein_precos',
+        'colunas' => "*, CONCAT(modelo, ' ', capacidade) AS aparelho",
+        'rotulo' => 'aparelho',
+        'permissao' => 'tradein.ver'
+    ]
+];
+
+// Mudam a cada gravação ou repetem outro campo, e não dizem nada sobre a alteração
+const AUDITORIA_CAMPOS_IGNORADOS = ['created_at', 'updated_at', 'identificacao', 'aparelho'];
+
+/**
+ * Estado atual da entidade para comparação, ou null se não existe
+ * Produtos incluem imagens, especificações e variações; cupons, as restrições
+ */
+function carregarEstadoAuditoria($conexao, string $entidade, int $id): ?array {
+    $config = AUDITORIA_ENTIDADES[$entidade];
+
+    $stmt = $conexao->prepare("SELECT {$config['colunas']} FROM {$config['tabela']} WHERE id = ?");
+    $stmt->bind_param('i', $id);
+    $stmt->execute();
+    $estado = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    if (!$estado) {
+        return null;
+    }
+
+    if ($entidade === 'produto') {
+        $estado['imagens'] = listarColunaAuditoria($conexao, "SELECT IF(principal, CONCAT(url, ' (principal)'), url) FROM produto_imagens WHERE produto_id = ? ORDER BY ordem", $id);
+        $estado['especificacoes'] = listarColunaAuditoria($conexao, "SELECT CONCAT(label, ': ', valor) FROM produto_especificacoes WHERE produto_id = ? ORDER BY ordem", $id);
+        $estado['variacoes'] = listarColunaAuditoria($conexao, "SELECT CONCAT_WS(' ', cor, capacidade, CONCAT('(', estoque, ' un. a ', preco, ')')) FROM produto_variacoes WHERE produto_id = ? AND ativo = 1 ORDER BY capacidade, cor", $id);
+    } elseif ($entidade === 'cupom') {
+        $estado['produtos'] = listarColunaAuditoria($conexao, "SELECT produto_id FROM cupom_produtos WHERE cupom_id = ? ORDER BY produto_id", $id);
+        $estado['categorias'] = listarColunaAuditoria($conexao, "SELECT categoria_id FROM cupom_categorias WHERE cupom_id = ? ORDER BY categoria_id", $id);
+    }
+
+    return $estado;
+}
+
+function listarColunaAuditoria($conexao, string $sql, int $id): array {
+    $stmt = $conexao->prepare($sql);
+    $stmt->bind_param('i', $id);
+    $stmt->execute();
+    $result = $stmt->get_result();
+    $valores = [];
+    while ($row = $result->fetch_row()) {
+        $valores[] = $row[0];
+    }
+    $stmt->close();
+    return $valores;
+}
+
+/**
+ * Campos que mudaram entre os dois estados: [campo => ['antes' => x, 'depois' => y]]
+ * Sem estado anterior (criação) ou posterior (exclusão), o lado ausente é null
+ */
+function diffAuditoria(?array $antes, ?array $depois): array {
+    $antes = $antes ?? [];
+    $depois = $depois ?? [];
+    $diff = [];
+
+    foreach (array_unique(array_merge(array_keys($antes), array_keys($depois))) as $campo) {
+        if (in_array($campo, AUDITORIA_CAMPOS_IGNORADOS, true)) {
+            continue;
+        }
+        $valorAntes = $antes[$campo] ?? null;
+        $valorDepois = $depois[$campo] ?? null;
+        if ($valorAntes !== $valorDepois) {
+            $diff[$campo] = ['antes' => $valorAntes, 'depois' => $valorDepois];
+        }
+    }
+
+    return $diff;
+}
+
+/**
+ * Registra a ação do usuário do painel sobre a entidade
+ * Uma atualização que não mudou nenhum campo não é registrada
+ */
+function registrarAuditoria($conexao, array $usuario, string $acao, string $entidade, int $entidadeId, ?array $antes, ?array $depois): void {
+    $diff = diffAuditoria($antes, $depois);
+    if ($acao === 'atualizar' && count($diff) === 0) {
+        return;
+    }
+
+    $campoRotulo = AUDITORIA_ENTIDADES[$entidade]['rotulo'];
+    $rotulo = $depois[$campoRotulo] ?? $antes[$campoRotulo] ?? null;
+    $rotulo = $rotulo !== null ? mb_substr((string)$rotulo, 0, 255) : null;
+
+    $usuarioId = (int)$usuario['id'];
+    $alteracoes = json_encode($diff, JSON_UNESCAPED_UNICODE);
+    $ip = $_SERVER['REMOTE_ADDR'] ?? null;
+
+    $stmt = $conexao->prepare("INSERT INTO auditoria (usuario_id, usuario_nome, acao, entidade, entidade_id, entidade_nome, alteracoes, ip) VALUES (?, ?, ?, ?, ?, ?, ?, ?)");
+    $stmt->bind_param('isssisss', $usuarioId, $usuario['nome'], $acao, $entidade, $entidadeId, $rotulo, $alteracoes, $ip);
+    $stmt->execute();
+    $stmt->close();
+}
+?>
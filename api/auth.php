@@ -0,0 +1,191 @@
+<?php
+/**
+ * Tokens de acesso de clientes e administradores
+ *
+ * Formato JWT (HS256) assinado com AUTH_TOKEN_SEGREDO. O token de acesso
+ * ("acesso") vai no header Authorization: Bearer e dura AUTH_TOKEN_DURACAO
+ * (AUTH_TOKEN_DURACAO_ADMIN para administradores); o de renovação
+ * ("renovacao") só é aceito em renovar_token.php e gera um novo par.
+ *
+ * Os dois carregam usuarios.token_versao: incrementá-la (troca de senha,
+ * conta desativada) invalida todos os tokens já emitidos para o usuário.
+ *
+ * Token ausente, adulterado, expirado ou de usuário inativo responde 401 com
+ * code "token_invalido"; o site então renova o token ou encerra a sessão.
+ *
+ * AUTH_TOKEN_SEGREDO vem só do ambiente (mínimo de 32 caracteres): sem ele
+ * todo token é recusado e login, cadastro e renovação respondem 503.
+ */
+
+// Segredo de assinatura dos tokens, sem padrão: ausente ou curto, nenhum token é emitido ou aceito
+define('AUTH_TOKEN_SEGREDO', getenv('AUTH_TOKEN_SEGREDO') ?: '');
+define('AUTH_TOKEN_SEGREDO_MINIMO', 32);
+
+define('AUTH_TOKEN_DURACAO', 3600);
+define('AUTH_TOKEN_DURACAO_ADMIN', 8 * 3600);
+define('AUTH_RENOVACAO_DURACAO', 30 * 86400);
+
+function base64UrlEncode(string $dados): string {
+    return rtrim(strtr(base64_encode($dados), '+/', '-_'), '=');
+}
+
+function base64UrlDecode(string $dados): string {
+    return (string)base64_decode(strtr($dados, '-_', '+/'));
+}
+
+function segredoTokensConfigurado(): bool {
+    return strlen(AUTH_TOKEN_SEGREDO) >= AUTH_TOKEN_SEGREDO_MINIMO;
+}
+
+/**
+ * Interrompe com 503 quando o servidor não pode emitir tokens
+ */
+function exigirSegredoTokens() {
+    if (!segredoTokensConfigurado()) {
+        http_response_code(503);
+        echo json_encode(['success' => false, 'error' => 'Login indisponível no momento'], JSON_UNESCAPED_UNICODE);
+        exit();
+    }
+}
+
+function assinarToken(array $payload): string {
+    exigirSegredoTokens();
+    $cabecalho = base64UrlEncode(json_encode(['alg' => 'HS256', 'typ' => 'JWT']));
+    $corpo = base64UrlEncode(json_encode($payload));
+    $assinatura = base64UrlEncode(hash_hmac('sha256', "$cabecalho.$corpo", AUTH_TOKEN_SEGREDO, true));
+    return "$cabecalho.$corpo.$assinatura";
+}
+
+/**
+ * Payload de um token válido do tipo esperado, ou null
+ */
+function lerToken(string $token, string $tipo): ?array {
+    if (!segredoTokensConfigurado()) {
+        return null;
+    }
+
+    $partes = explode('.', $token);
+    if (count($partes) !== 3) {
+        return null;
+    }
+
+    [$cabecalho, $corpo, $assinatura] = $partes;
+    $esperada = base64UrlEncode(hash_hmac('sha256', "$cabecalho.$corpo", AUTH_TOKEN_SEGREDO, true));
+    if (!hash_equals($esperada, $assinatura)) {
+        return null;
+    }
+
+    $payload = json_decode(base64UrlDecode($corpo), true);
+    if (!is_array($payload) || ($payload['typ'] ?? null) !== $tipo || (int)($payload['exp'] ?? 0) < time()) {
+        return null;
+    }
+
+    return $payload;
+}
+
+/**
+ * Novo par de tokens para o usuário
+ * Retorna ['token', 'refresh_token', 'expira_em'] (expira_em em timestamp Unix)
+ */
+function gerarTokensUsuario(array $usuario): array {
+    $agora = time();
+    $duracao = ($usuario['tipo'] ?? 'cliente') === 'admin' ? AUTH_TOKEN_DURACAO_ADMIN : AUTH_TOKEN_DURACAO;
+    $base = [
+        'sub' => (int)$usuario['id'],
+        'tipo' => $usuario['tipo'] ?? 'cliente',
+        'ver' => (int)($usuario['token_versao'] ?? 0),
+        'iat' => $agora
+    ];
+
+    return [
+        'token' => assinarToken($base + ['typ' => 'acesso', 'exp' => $agora + $duracao]),
+        'refresh_token' => assinarToken($base + ['typ' => 'renovacao', 'exp' => $agora + AUTH_RENOVACAO_DURACAO]),
+        'expira_em' => $agora + $duracao
+    ];
+}
+
+/**
+ * Token do header Authorization (o Apache às vezes só o repassa em REDIRECT_)
+ */
+function obterTokenRequisicao(): string {
+    $header = $_SERVER['HTTP_AUTHORIZATION'] ?? $_SERVER['REDIRECT_HTTP_AUTHORIZATION'] ?? '';
+    if ($header === '' && function_exists('getallheaders')) {
+        foreach (getallheaders() as $nome => $valor) {
+            if (strcasecmp($nome, 'Authorization') === 0) {
+                $header = $valor;
+                break;
+            }
+        }
+    }
+
+    return preg_match('/^Bearer\s+(\S+)$/i', trim($header), $m) ? $m[1] : '';
+}
+
+/**
+ * Usuário ativo dono do token, conferindo a versão dos tokens
+ */
+function buscarUsuarioDoToken($conexao, array $payload): ?array {
+    $id = (int)($payload['sub'] ?? 0);
+    $stmt = $conexao->prepare("SELECT id, nome, email, telefone, cpf, tipo, papel, token_versao, email_verificado FROM usuarios WHERE id = ? AND ativo = 1");
+    $stmt->bind_param('i', $id);
+    $stmt->execute();
+    $usuario = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    if (!$usuario || (int)$usuario['token_versao'] !== (int)($payload['ver'] ?? -1)) {
+        return null;
+    }
+
+    return $usuario;
+}
+
+/**
+ * Dados do usuário devolvidos ao site junto com os tokens
+ */
+function dadosUsuarioSessao(array $usuario): array {
+    return [
+        'id' => (int)$usuario['id'],
+        'nome' => $usuario['nome'],
+        'email' => $usuario['email'],
+        'telefone' => $usuario['telefone'] ?? null,
+        'cpf' => $usuario['cpf'] ?? null,
+        'tipo' => $usuario['tipo'],
+        // Papel na equipe do painel (permissoes.php); null para clientes
+        'papel' => $usuario['tipo'] === 'admin' ? ($usuario['papel'] ?? null) : null,
+        'email_verificado' => (bool)($usuario['email_verificado'] ?? false)
+    ];
+}
+
+function responderTokenInvalido(string $mensagem = 'Sessão expirada. Entre novamente') {
+    http_response_code(401);
+    echo json_encode(['success' => false, 'code' => 'token_invalido', 'error' => $mensagem], JSON_UNESCAPED_UNICODE);
+    exit();
+}
+
+/**
+ * Cliente autenticado pela requisição
+ *
+ * Com $obrigatorio = false, requisições sem token seguem como visitante
+ * (retorna null); um token presente mas inválido sempre responde 401, para
+ * o site não continuar achando que está logado.
+ */
+function autenticarCliente($conexao, bool $obrigatorio = true): ?array {
+    $token = obterTokenRequisicao();
+
+    if ($token === '') {
+        if ($obrigatorio) {
+            responderTokenInvalido('Entre na sua conta para continuar');
+        }
+        return null;
+    }
+
+    $payload = lerToken($token, 'acesso');
+    $usuario = $payload ? buscarUsuarioDoToken($conexao, $payload) : null;
+
+    if (!$usuario) {
+        responderTokenInvalido();
+    }
+
+    return $usuario;
+}
+?>
@@ -0,0 +1,148 @@
+<?php
+/**
+ * Boleto bancário (padrão FEBRABAN)
+ *
+ * Código de barras de 44 dígitos: banco (3), moeda (1), DV geral (1), fator
+ * de vencimento (4), valor em centavos (10) e campo livre (25). O campo
+ * livre segue o layout de convênio de 7 dígitos: 6 zeros, convênio (7),
+ * nosso número (10) e carteira (2).
+ *
+ * O vencimento é boleto_vencimento_dias corridos após a emissão, adiado para
+ * segunda-feira quando cair no fim de semana. A reserva de estoque dura até o
+ * vencimento mais boleto_compensacao_dias (prazo de compensação bancária);
+ * depois disso o pedido é cancelado por expirarReservasVencidas().
+ */
+
+const BOLETO_VENCIMENTO_DIAS_PADRAO = 3;
+const BOLETO_COMPENSACAO_DIAS_PADRAO = 2;
+
+// Data base do fator de vencimento e reinício em 1000 após 9999 (22/02/2025)
+const BOLETO_DATA_BASE = '1997-10-07';
+
+function obterConfigBoleto($conexao): array {
+    $config = [
+        'banco' => '001',
+        'convenio' => '0000000',
+        'carteira' => '17',
+        'vencimento_dias' => BOLETO_VENCIMENTO_DIAS_PADRAO,
+        'compensacao_dias' => BOLETO_COMPENSACAO_DIAS_PADRAO
+    ];
+
+    $result = $conexao->query("SELECT chave, valor FROM configuracoes WHERE chave LIKE 'boleto\\_%'");
+    while ($row = $result->fetch_assoc()) {
+        $valor = trim((string)$row['valor']);
+        switch ($row['chave']) {
+            case 'boleto_banco':
+                $config['banco'] = str_pad(preg_replace('/\D/', '', $valor), 3, '0', STR_PAD_LEFT);
+                break;
+            case 'boleto_convenio':
+                $config['convenio'] = str_pad(preg_replace('/\D/', '', $valor), 7, '0', STR_PAD_LEFT);
+                break;
+            case 'boleto_carteira':
+                $config['carteira'] = str_pad(preg_replace('/\D/', '', $valor), 2, '0', STR_PAD_LEFT);
+                break;
+            case 'boleto_vencimento_dias':
+                if ((int)$valor > 0) $config['vencimento_dias'] = (int)$valor;
+                break;
+            case 'boleto_compensacao_dias':
+                if ((int)$valor >= 0) $config['compensacao_dias'] = (int)$valor;
+                break;
+        }
+    }
+
+    return $config;
+}
+
+/**
+ * Data de vencimento (Y-m-d) de um boleto emitido em $emissao
+ */
+function calcularVencimentoBoleto(array $config, ?int $emissao = null): string {
+    $vencimento = strtotime('+' . $config['vencimento_dias'] . ' days', $emissao ?? time());
+
+    // Sábado e domingo passam para segunda-feira
+    $diaSemana = (int)date('N', $vencimento);
+    if ($diaSemana >= 6) {
+        $vencimento = strtotime('+' . (8 - $diaSemana) . ' days', $vencimento);
+    }
+
+    return date('Y-m-d', $vencimento);
+}
+
+/**
+ * Fim da reserva de estoque de um pedido pago com boleto
+ */
+function calcularExpiracaoBoleto(array $config, ?int $emissao = null): string {
+    $vencimento = calcularVencimentoBoleto($config, $emissao);
+    return date('Y-m-d 23:59:59', strtotime('+' . $config['compensacao_dias'] . ' days', strtotime($vencimento)));
+}
+
+function fatorVencimentoBoleto(string $vencimento): string {
+    $dias = (int)floor((strtotime($vencimento . ' 12:00:00') - strtotime(BOLETO_DATA_BASE . ' 12:00:00')) / 86400);
+    if ($dias > 9999) {
+        $dias = (($dias - 10000) % 9000) + 1000;
+    }
+    return str_pad((string)$dias, 4, '0', STR_PAD_LEFT);
+}
+
+function modulo10Boleto(string $numero): int {
+    $soma = 0;
+    $peso = 2;
+    for ($i = strlen($numero) - 1; $i >= 0; $i--) {
+        $produto = (int)$numero[$i] * $peso;
+        $soma += $produto > 9 ? $produto - 9 : $produto;
+        $peso = $peso === 2 ? 1 : 2;
+    }
+    return (10 - ($soma % 10)) % 10;
+}
+
+function modulo11Boleto(string $numero): int {
+    $soma = 0;
+    $peso = 2;
+    for ($i = strlen($numero) - 1; $i >= 0; $i--) {
+        $soma += (int)$numero[$i] * $peso;
+        $peso = $peso === 9 ? 2 : $peso + 1;
+    }
+    $dv = 11 - ($soma % 11);
+    return ($dv === 0 || $dv === 10 || $dv === 11) ? 1 : $dv;
+}
+
+/**
+ * Gera o código de barras e a linha digitável
+ * Retorna ['codigo_barras', 'linha_digitavel', 'nosso_numero', 'vencimento']
+ * O mesmo cálculo está em gerarBoleto (src/lib/boleto.ts), coberto por testes
+ */
+function gerarBoleto(array $config, int $pedidoId, float $valor, string $vencimento): array {
+    $nossoNumero = $config['convenio'] . str_pad((string)$pedidoId, 10, '0', STR_PAD_LEFT);
+    $campoLivre = '000000' . $config['convenio'] . str_pad((string)$pedidoId, 10, '0', STR_PAD_LEFT) . $config['carteira'];
+
+    $valorCentavos = str_pad((string)(int)round($valor * 100), 10, '0', STR_PAD_LEFT);
+    if (strlen($valorCentavos) > 10) {
+        throw new InvalidArgumentException('Valor acima do limite do boleto');
+    }
+
+    $semDv = $config['banco'] . '9' . fatorVencimentoBoleto($vencimento) . $valorCentavos . $campoLivre;
+    $dv = modulo11Boleto($semDv);
+    $codigoBarras = substr($semDv, 0, 4) . $dv . substr($semDv, 4);
+
+    // Campos 1 a 3 com DV módulo 10; campo 4 é o DV geral; campo 5, fator + valor
+    $campo1 = $config['banco'] . '9' . substr($campoLivre, 0, 5);
+    $campo2 = substr($campoLivre, 5, 10);
+    $campo3 = substr($campoLivre, 15, 10);
+    $campo1 .= modulo10Boleto($campo1);
+    $campo2 .= modulo10Boleto($campo2);
+    $campo3 .= modulo10Boleto($campo3);
+
+    $linhaDigitavel = substr($campo1, 0, 5) . '.' . substr($campo1, 5) . ' '
+        . substr($campo2, 0, 5) . '.' . substr($campo2, 5) . ' '
+        . substr($campo3, 0, 5) . '.' . substr($campo3, 5) . ' '
+        . $dv . ' '
+        . substr($codigoBarras, 5, 14);
+
+    return [
+        'codigo_barras' => $codigoBarras,
+        'linha_digitavel' => $linhaDigitavel,
+        'nosso_numero' => $nossoNumero,
+        'vencimento' => $vencimento
+    ];
+}
+?>
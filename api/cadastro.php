@@ -16,6 +16,9 @@ if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
 }
 
 require_once 'conexao.php';
+require_once 'auth.php';
+require_once 'conta_tokens.php';
+require_once 'cliente.php';
 
 // Apenas POST é permitido
 if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
@@ -24,6 +27,9 @@ if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
     exit();
 }
 
+// Sem segredo de tokens a conta seria criada sem sessão
+exigirSegredoTokens();
+
 // Obter dados do corpo da requisição
 $input = json_decode(file_get_contents('php://input'), true);
 
@@ -64,6 +70,15 @@ if (strlen($senha) < 6) {
     exit();
 }
 
+[$contato, $erroContato] = normalizarContatoCliente($telefone, $cpf);
+if ($erroContato) {
+    http_response_code(400);
+    echo json_encode(['success' => false, 'error' => $erroContato], JSON_UNESCAPED_UNICODE);
+    exit();
+}
+$telefone = $contato['telefone'];
+$cpf = $contato['cpf'];
+
 // Verificar se email já existe
 $stmt = $conexao->prepare("SELECT id FROM usuarios WHERE email = ?");
 $stmt->bind_param("s", $email);
@@ -89,22 +104,32 @@ if ($stmt->execute()) {
     $userId = $conexao->insert_id;
     $stmt->close();
     
-    // Gerar token
-    $token = base64_encode($userId . ':' . time());
+    $usuario = [
+        'id' => $userId,
+        'nome' => $nome,
+        'email' => $email,
+        'telefone' => $telefone,
+        'cpf' => $cpf,
+        'tipo' => 'cliente',
+        'token_versao' => 0,
+        'email_verificado' => 0
+    ];
+
+    // Link de confirmação do email; se o envio falhar, o cliente pode pedir outro
+    $verificacaoEnviada = enviarEmailVerificacao($conexao, $usuario);
+
+    // Gerar tokens de acesso e renovação (auth.php)
+    $tokens = gerarTokensUsuario($usuario);
     
     echo json_encode([
         'success' => true,
-        'message' => 'Cadastro realizado com sucesso',
-        'data' => [
-            'token' => $token,
-            'usuario' => [
-                'id' => $userId,
-                'nome' => $nome,
-                'email' => $email,
-                'tipo' => 'cliente'
-            ]
+        'message' => $verificacaoEnviada
+            ? 'Cadastro realizado com sucesso. Enviamos um link para confirmar seu email'
+            : 'Cadastro realizado com sucesso',
+        'data' => $tokens + [
+            'usuario' => dadosUsuarioSessao($usuario)
         ]
-    ]);
+    ], JSON_UNESCAPED_UNICODE);
 } else {
     $stmt->close();
     http_response_code(500);
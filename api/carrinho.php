@@ -0,0 +1,265 @@
+<?php
+header('Content-Type: application/json; charset=utf-8');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: GET, POST, PUT, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit();
+}
+
+require_once 'conexao.php';
+require_once 'estoque.php';
+require_once 'auth.php';
+
+/**
+ * API do Carrinho do cliente logado
+ *
+ * GET  /api/carrinho.php  - Carrinho salvo, com preço e estoque atuais
+ * PUT  /api/carrinho.php  - Substituir o carrinho (sincronização do useCart)
+ * POST /api/carrinho.php  - Mesclar o carrinho anônimo no login
+ *
+ * Exige o token do cliente (auth.php); o carrinho é sempre o da conta dele.
+ *
+ * Uma linha é o produto + variação (ou cor/capacidade, em itens sem
+ * variacao_id), a mesma regra de getCartLineKey() em src/hooks/useCart.ts.
+ * O preço gravado é o que o cliente viu ao adicionar; a resposta traz o
+ * preço e o estoque atuais para o carrinho sinalizar itens desatualizados.
+ */
+
+try {
+    $method = $_SERVER['REQUEST_METHOD'];
+
+    switch ($method) {
+        case 'GET':
+            handleGet($conexao);
+            break;
+        case 'PUT':
+            handlePut($conexao);
+            break;
+        case 'POST':
+            handlePost($conexao);
+            break;
+        default:
+            http_response_code(405);
+            echo json_encode(['success' => false, 'error' => 'Método não permitido'], JSON_UNESCAPED_UNICODE);
+    }
+} catch (Throwable $e) {
+    http_response_code(500);
+    echo json_encode(['success' => false, 'error' => $e->getMessage()], JSON_UNESCAPED_UNICODE);
+}
+
+function responderJson($data, int $codigo = 200) {
+    http_response_code($codigo);
+    echo json_encode($data, JSON_UNESCAPED_UNICODE);
+}
+
+function handleGet($conexao) {
+    $usuarioId = (int)autenticarCliente($conexao)['id'];
+    responderJson(['success' => true, 'data' => listarCarrinho($conexao, $usuarioId)]);
+}
+
+function handlePut($conexao) {
+    $input = json_decode(file_get_contents('php://input'), true);
+
+    $usuarioId = (int)autenticarCliente($conexao)['id'];
+
+    if (!$input || !isset($input['itens']) || !is_array($input['itens'])) {
+        responderJson(['success' => false, 'error' => 'Dados inválidos'], 400);
+        return;
+    }
+
+    $linhas = normalizarLinhasCarrinho($conexao, $input['itens']);
+
+    salvarCarrinho($conexao, $usuarioId, array_values($linhas));
+
+    responderJson(['success' => true, 'data' => listarCarrinho($conexao, $usuarioId)]);
+}
+
+/**
+ * Mescla o carrinho anônimo com o salvo:
+ * - linha só em um dos carrinhos: entra como está
+ * - linha nos dois: fica a maior quantidade (não soma, para não dobrar o
+ *   mesmo item adicionado nos dois aparelhos), limitada ao estoque atual
+ */
+function handlePost($conexao) {
+    $input = json_decode(file_get_contents('php://input'), true);
+
+    $usuarioId = (int)autenticarCliente($conexao)['id'];
+
+    if (!$input || !isset($input['itens']) || !is_array($input['itens'])) {
+        responderJson(['success' => false, 'error' => 'Dados inválidos'], 400);
+        return;
+    }
+
+    $linhas = [];
+    foreach (listarCarrinho($conexao, $usuarioId) as $salvo) {
+        $linhas[chaveLinhaCarrinho($salvo)] = $salvo;
+    }
+
+    foreach (normalizarLinhasCarrinho($conexao, $input['itens']) as $chave => $local) {
+        if (!isset($linhas[$chave])) {
+            $linhas[$chave] = $local;
+            continue;
+        }
+
+        $quantidade = max((int)$linhas[$chave]['quantidade'], (int)$local['quantidade']);
+        $estoque = consultarEstoqueDisponivel($conexao, (int)$local['produto_id'], $local['variacao_id']);
+        if ($estoque > 0) {
+            $quantidade = min($quantidade, $estoque);
+        }
+
+        $linhas[$chave]['quantidade'] = $quantidade;
+    }
+
+    salvarCarrinho($conexao, $usuarioId, array_values($linhas));
+
+    responderJson([
+        'success' => true,
+        'data' => listarCarrinho($conexao, $usuarioId),
+        'message' => 'Carrinho mesclado com sucesso'
+    ]);
+}
+
+/**
+ * Chave da linha: espelha getCartLineKey() do front
+ */
+function chaveLinhaCarrinho(array $item): string {
+    if (!empty($item['variacao_id'])) {
+        return $item['produto_id'] . ':' . $item['variacao_id'];
+    }
+
+    return $item['produto_id'] . ':' . ($item['cor'] ?? '') . ':' . ($item['capacidade'] ?? '');
+}
+
+/**
+ * Valida os itens recebidos e junta linhas repetidas (somando quantidades)
+ */
+function normalizarLinhasCarrinho($conexao, array $itens): array {
+    $linhas = [];
+
+    foreach ($itens as $item) {
+        $produtoId = (int)($item['produto_id'] ?? 0);
+        $quantidade = (int)($item['quantidade'] ?? 0);
+        if ($produtoId <= 0 || $quantidade <= 0) {
+            continue;
+        }
+
+        $linha = [
+            'produto_id' => $produtoId,
+            'variacao_id' => resolverVariacao($conexao, $produtoId, $item),
+            'cor' => isset($item['cor']) && $item['cor'] !== '' ? (string)$item['cor'] : null,
+            'cor_codigo' => isset($item['cor_codigo']) && $item['cor_codigo'] !== '' ? (string)$item['cor_codigo'] : null,
+            'capacidade' => isset($item['capacidade']) && $item['capacidade'] !== '' ? (string)$item['capacidade'] : null,
+            'quantidade' => $quantidade,
+            'preco' => round((float)($item['preco'] ?? 0), 2)
+        ];
+
+        $chave = chaveLinhaCarrinho($linha);
+        if (isset($linhas[$chave])) {
+            $linhas[$chave]['quantidade'] += $quantidade;
+        } else {
+            $linhas[$chave] = $linha;
+        }
+    }
+
+    return $linhas;
+}
+
+function salvarCarrinho($conexao, int $usuarioId, array $linhas): void {
+    $conexao->begin_transaction();
+
+    try {
+        $stmt = $conexao->prepare("DELETE FROM carrinho_itens WHERE usuario_id = ?");
+        $stmt->bind_param('i', $usuarioId);
+        $stmt->execute();
+        $stmt->close();
+
+        $stmt = $conexao->prepare("INSERT INTO carrinho_itens (
+            usuario_id,
+            produto_id,
+            variacao_id,
+            cor,
+            cor_codigo,
+            capacidade,
+            quantidade,
+            preco_adicionado
+        ) VALUES (?,?,?,?,?,?,?,?)");
+
+        foreach ($linhas as $linha) {
+            $produtoId = (int)$linha['produto_id'];
+            $variacaoId = $linha['variacao_id'] !== null ? (int)$linha['variacao_id'] : null;
+            $quantidade = (int)$linha['quantidade'];
+            $preco = (float)$linha['preco'];
+
+            $stmt->bind_param(
+                'iiisssid',
+                $usuarioId,
+                $produtoId,
+                $variacaoId,
+                $linha['cor'],
+                $linha['cor_codigo'],
+                $linha['capacidade'],
+                $quantidade,
+                $preco
+            );
+
+            if (!$stmt->execute()) {
+                throw new Exception('Erro ao salvar carrinho: ' . $stmt->error);
+            }
+        }
+
+        $stmt->close();
+        $conexao->commit();
+    } catch (Throwable $e) {
+        $conexao->rollback();
+        throw $e;
+    }
+}
+
+/**
+ * Linhas do carrinho com dados atuais do produto
+ * preco_atual é null quando o produto ou a variação não estão mais à venda
+ */
+function listarCarrinho($conexao, int $usuarioId): array {
+    $stmt = $conexao->prepare("SELECT
+            c.produto_id,
+            c.variacao_id,
+            c.cor,
+            c.cor_codigo,
+            c.capacidade,
+            c.quantidade,
+            c.preco_adicionado AS preco,
+            p.nome,
+            (SELECT url FROM produto_imagens WHERE produto_id = p.id ORDER BY principal DESC, ordem ASC LIMIT 1) AS imagem,
+            CASE
+                WHEN p.ativo = 0 OR (c.variacao_id IS NOT NULL AND (v.id IS NULL OR v.ativo = 0)) THEN NULL
+                WHEN v.preco > 0 THEN v.preco
+                ELSE p.preco
+            END AS preco_atual,
+            IF(c.variacao_id IS NOT NULL, COALESCE(v.estoque, 0), p.estoque) AS estoque
+        FROM carrinho_itens c
+        INNER JOIN produtos p ON p.id = c.produto_id
+        LEFT JOIN produto_variacoes v ON v.id = c.variacao_id
+        WHERE c.usuario_id = ?
+        ORDER BY c.id ASC");
+    $stmt->bind_param('i', $usuarioId);
+    $stmt->execute();
+    $result = $stmt->get_result();
+
+    $itens = [];
+    while ($item = $result->fetch_assoc()) {
+        $item['produto_id'] = (int)$item['produto_id'];
+        $item['variacao_id'] = $item['variacao_id'] !== null ? (int)$item['variacao_id'] : null;
+        $item['quantidade'] = (int)$item['quantidade'];
+        $item['preco'] = (float)$item['preco'];
+        $item['preco_atual'] = $item['preco_atual'] !== null ? (float)$item['preco_atual'] : null;
+        $item['estoque'] = max(0, (int)$item['estoque']);
+        $itens[] = $item;
+    }
+
+    $stmt->close();
+    return $itens;
+}
+?>
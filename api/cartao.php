@@ -0,0 +1,55 @@
+<?php
+/**
+ * Dados de cartão aceitos pela loja
+ *
+ * O número do cartão é tokenizado pelo gateway no navegador
+ * (src/services/cartaoGateway.ts); aqui chegam apenas o token, a bandeira e
+ * os 4 últimos dígitos. O token é de uso único: a cobrança o consome e ele
+ * é apagado do pedido (pagamento/cobranca.php).
+ */
+
+const BANDEIRAS_CARTAO = ['visa', 'mastercard', 'elo', 'amex', 'hipercard'];
+
+/**
+ * Valida o cartão tokenizado enviado pelo cliente
+ * Retorna ['token', 'bandeira', 'final'] ou lança InvalidArgumentException
+ */
+function normalizarCartaoToken($cartao): array {
+    if (!is_array($cartao)) {
+        throw new InvalidArgumentException('Dados do cartão não informados');
+    }
+
+    // Recusar qualquer dado sensível: só o token deve sair do navegador
+    foreach (['numero', 'cvv', 'validade'] as $campo) {
+        if (isset($cartao[$campo])) {
+            throw new InvalidArgumentException('Envie apenas o token do cartão');
+        }
+    }
+
+    $token = trim((string)($cartao['token'] ?? ''));
+    $bandeira = strtolower(trim((string)($cartao['bandeira'] ?? '')));
+    $final = trim((string)($cartao['final'] ?? ''));
+
+    if (!preg_match('/^[A-Za-z0-9_\-]{8,100}$/', $token)) {
+        throw new InvalidArgumentException('Token do cartão inválido');
+    }
+
+    if (!in_array($bandeira, BANDEIRAS_CARTAO, true)) {
+        throw new InvalidArgumentException('Bandeira do cartão não aceita');
+    }
+
+    if (!preg_match('/^\d{4}$/', $final)) {
+        throw new InvalidArgumentException('Final do cartão inválido');
+    }
+
+    return ['token' => $token, 'bandeira' => $bandeira, 'final' => $final];
+}
+
+/**
+ * Remove o token das respostas de consulta de pedidos
+ */
+function ocultarTokenCartao(array $pedido): array {
+    unset($pedido['cartao_token']);
+    return $pedido;
+}
+?>
@@ -0,0 +1,163 @@
+<?php
+/**
+ * Gravação dos dados do produto compartilhada pelo CRUD do painel
+ * (admin/produtos.php) e pela importação de planilha (admin/produtos_planilha.php)
+ */
+
+require_once __DIR__ . '/imagens.php';
+
+// Mesmos valores do ENUM produtos.condicao
+const PRODUTO_CONDICOES = ['novo', 'seminovo', 'usado_excelente', 'usado_bom', 'recondicionado', 'com_defeito'];
+
+/**
+ * Grava as imagens na ordem recebida
+ * Aceita { url, variantes, principal } ou só a URL; sem principal marcada, vale a primeira
+ */
+function salvarImagensProduto($conexao, $produtoId, array $imagens) {
+    $lista = [];
+    foreach ($imagens as $imagem) {
+        $imagem = is_array($imagem) ? $imagem : ['url' => $imagem];
+        $url = trim((string)($imagem['url'] ?? ''));
+        if ($url === '') {
+            continue;
+        }
+
+        // Só as versões conhecidas, com URL e largura
+        $variantes = [];
+        foreach ((array)($imagem['variantes'] ?? []) as $variante) {
+            if (isset(IMAGEM_VARIANTES[$variante['nome'] ?? '']) && !empty($variante['url']) && !empty($variante['largura'])) {
+                $variantes[] = [
+                    'nome' => $variante['nome'],
+                    'url' => (string)$variante['url'],
+                    'largura' => (int)$variante['largura'],
+                    'altura' => (int)($variante['altura'] ?? 0)
+                ];
+            }
+        }
+
+        $lista[] = [
+            'url' => $url,
+            'variantes' => count($variantes) > 0 ? json_encode($variantes, JSON_UNESCAPED_SLASHES) : null,
+            'principal' => !empty($imagem['principal'])
+        ];
+    }
+
+    $indicePrincipal = 0;
+    foreach ($lista as $indice => $imagem) {
+        if ($imagem['principal']) {
+            $indicePrincipal = $indice;
+            break;
+        }
+    }
+
+    $stmtImg = $conexao->prepare("INSERT INTO produto_imagens (produto_id, url, variantes, ordem, principal) VALUES (?, ?, ?, ?, ?)");
+    foreach ($lista as $ordem => $imagem) {
+        $principal = $ordem === $indicePrincipal ? 1 : 0;
+        $stmtImg->bind_param("issii", $produtoId, $imagem['url'], $imagem['variantes'], $ordem, $principal);
+        $stmtImg->execute();
+    }
+    $stmtImg->close();
+}
+
+/**
+ * Grava as especificações [{ label, valor }] na ordem recebida, ignorando as incompletas
+ */
+function salvarEspecificacoesProduto($conexao, $produtoId, array $especificacoes) {
+    $stmtSpec = $conexao->prepare("INSERT INTO produto_especificacoes (produto_id, label, valor, ordem) VALUES (?, ?, ?, ?)");
+    foreach ($especificacoes as $ordem => $spec) {
+        if (!empty($spec['label']) && !empty($spec['valor'])) {
+            $stmtSpec->bind_param("issi", $produtoId, $spec['label'], $spec['valor'], $ordem);
+            $stmtSpec->execute();
+        }
+    }
+    $stmtSpec->close();
+}
+
+/**
+ * Sincroniza as variações [{ cor, cor_codigo, capacidade, estoque, preco }]
+ * A variação é a mesma quando cor e capacidade coincidem (como em resolverVariacao);
+ * as que não vierem são desativadas, não excluídas, porque carrinhos e pedidos
+ * apontam para elas
+ */
+function salvarVariacoesProduto($conexao, int $produtoId, array $variacoes): void {
+    $existentes = [];
+    $stmt = $conexao->prepare("SELECT id, COALESCE(cor, '') AS cor, COALESCE(capacidade, '') AS capacidade FROM produto_variacoes WHERE produto_id = ?");
+    $stmt->bind_param('i', $produtoId);
+    $stmt->execute();
+    $result = $stmt->get_result();
+    while ($row = $result->fetch_assoc()) {
+        $existentes[$row['cor'] . '|' . $row['capacidade']] = (int)$row['id'];
+    }
+    $stmt->close();
+
+    $mantidas = [];
+    $stmtAtualizar = $conexao->prepare("UPDATE produto_variacoes SET cor_codigo = ?, estoque = ?, preco = ?, ativo = 1 WHERE id = ?");
+    $stmtInserir = $conexao->prepare("INSERT INTO produto_variacoes (produto_id, cor, cor_codigo, capacidade, estoque, preco) VALUES (?, ?, ?, ?, ?, ?)");
+
+    foreach ($variacoes as $variacao) {
+        $cor = trim((string)($variacao['cor'] ?? ''));
+        $capacidade = trim((string)($variacao['capacidade'] ?? ''));
+        $corCodigo = ($variacao['cor_codigo'] ?? '') !== '' ? $variacao['cor_codigo'] : null;
+        $estoque = (int)($variacao['estoque'] ?? 0);
+        $preco = (float)($variacao['preco'] ?? 0);
+        $chave = $cor . '|' . $capacidade;
+
+        if (isset($existentes[$chave])) {
+            $stmtAtualizar->bind_param('sidi', $corCodigo, $estoque, $preco, $existentes[$chave]);
+            $stmtAtualizar->execute();
+            $mantidas[] = $existentes[$chave];
+        } else {
+            $corValor = $cor !== '' ? $cor : null;
+            $capacidadeValor = $capacidade !== '' ? $capacidade : null;
+            $stmtInserir->bind_param('isssid', $produtoId, $corValor, $corCodigo, $capacidadeValor, $estoque, $preco);
+            $stmtInserir->execute();
+            $mantidas[] = $stmtInserir->insert_id;
+        }
+    }
+    $stmtAtualizar->close();
+    $stmtInserir->close();
+
+    $sql = "UPDATE produto_variacoes SET ativo = 0 WHERE produto_id = ?";
+    if (count($mantidas) > 0) {
+        $sql .= " AND id NOT IN (" . implode(',', array_map('intval', $mantidas)) . ")";
+    }
+    $stmt = $conexao->prepare($sql);
+    $stmt->bind_param('i', $produtoId);
+    $stmt->execute();
+    $stmt->close();
+}
+
+/**
+ * Slug do nome que ainda não é usado por outro produto
+ */
+function gerarSlugProduto($conexao, string $nome, ?int $produtoId = null): string {
+    $slug = gerarSlug($nome);
+    $idAtual = $produtoId ?? 0;
+
+    $stmtSlug = $conexao->prepare("SELECT id FROM produtos WHERE slug = ? AND id != ?");
+    $stmtSlug->bind_param("si", $slug, $idAtual);
+    $stmtSlug->execute();
+    if ($stmtSlug->get_result()->num_rows > 0) {
+        $slug .= '-' . ($produtoId ?? time());
+    }
+    $stmtSlug->close();
+
+    return $slug;
+}
+
+/**
+ * Gerar slug a partir do nome
+ */
+function gerarSlug($texto) {
+    $texto = mb_strtolower($texto, 'UTF-8');
+    $texto = preg_replace('/[áàãâä]/u', 'a', $texto);
+    $texto = preg_replace('/[éèêë]/u', 'e', $texto);
+    $texto = preg_replace('/[íìîï]/u', 'i', $texto);
+    $texto = preg_replace('/[óòõôö]/u', 'o', $texto);
+    $texto = preg_replace('/[úùûü]/u', 'u', $texto);
+    $texto = preg_replace('/[ç]/u', 'c', $texto);
+    $texto = preg_replace('/[^a-z0-9]+/', '-', $texto);
+    $texto = trim($texto, '-');
+    return $texto;
+}
+?>
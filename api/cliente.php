@@ -0,0 +1,78 @@
+<?php
+/**
+ * Validação dos dados de contato do cliente (telefone e CPF)
+ * Espelha src/lib/cliente.ts
+ */
+
+function normalizarDigitos($valor): string {
+    return preg_replace('/\D/', '', (string)$valor);
+}
+
+/**
+ * DDD + 8 dígitos (fixo) ou 9 dígitos (celular)
+ */
+function validarTelefone(string $telefone): bool {
+    return (bool)preg_match('/^\d{10,11}$/', normalizarDigitos($telefone));
+}
+
+/**
+ * Telefone no formato (00) 00000-0000 ou (00) 0000-0000
+ */
+function formatarTelefone(string $telefone): string {
+    $digitos = normalizarDigitos($telefone);
+    $corte = strlen($digitos) === 11 ? 5 : 4;
+    return '(' . substr($digitos, 0, 2) . ') ' . substr($digitos, 2, $corte) . '-' . substr($digitos, 2 + $corte);
+}
+
+/**
+ * CPF com 11 dígitos, não repetidos, e dígitos verificadores corretos
+ */
+function validarCpf(string $cpf): bool {
+    $digitos = normalizarDigitos($cpf);
+    if (strlen($digitos) !== 11 || preg_match('/^(\d)\1{10}$/', $digitos)) {
+        return false;
+    }
+
+    foreach ([9, 10] as $posicao) {
+        $soma = 0;
+        for ($i = 0; $i < $posicao; $i++) {
+            $soma += (int)$digitos[$i] * ($posicao + 1 - $i);
+        }
+        $verificador = ($soma * 10) % 11 % 10;
+        if ((int)$digitos[$posicao] !== $verificador) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * CPF no formato 000.000.000-00
+ */
+function formatarCpf(string $cpf): string {
+    $digitos = normalizarDigitos($cpf);
+    return substr($digitos, 0, 3) . '.' . substr($digitos, 3, 3) . '.' . substr($digitos, 6, 3) . '-' . substr($digitos, 9);
+}
+
+/**
+ * Normaliza telefone e CPF opcionais: vazio vira null e valores válidos são
+ * formatados. Retorna [dados, erro]; erro é null quando os dados são válidos
+ */
+function normalizarContatoCliente($telefone, $cpf): array {
+    $telefone = trim((string)$telefone);
+    $cpf = trim((string)$cpf);
+
+    if ($telefone !== '' && !validarTelefone($telefone)) {
+        return [null, 'Telefone inválido'];
+    }
+    if ($cpf !== '' && !validarCpf($cpf)) {
+        return [null, 'CPF inválido'];
+    }
+
+    return [[
+        'telefone' => $telefone !== '' ? formatarTelefone($telefone) : null,
+        'cpf' => $cpf !== '' ? formatarCpf($cpf) : null
+    ], null];
+}
+?>
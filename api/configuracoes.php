@@ -18,19 +18,22 @@ require_once 'conexao.php';
  */
 
 try {
-    $stmt = $pdo->query("SELECT chave, valor FROM configuracoes");
-    $rows = $stmt->fetchAll(PDO::FETCH_ASSOC);
+    $result = $conexao->query("SELECT chave, valor FROM configuracoes");
+    
+    if (!$result) {
+        throw new Exception('Erro na consulta: ' . $conexao->error);
+    }
     
     // Converter para objeto chave-valor
     $config = [];
-    foreach ($rows as $row) {
+    while ($row = $result->fetch_assoc()) {
         $config[$row['chave']] = $row['valor'];
     }
     
     echo json_encode([
         'success' => true,
         'data' => $config
-    ]);
+    ], JSON_UNESCAPED_UNICODE);
     
 } catch (Exception $e) {
     http_response_code(500);
@@ -0,0 +1,147 @@
+<?php
+/**
+ * Links de uso único da conta do cliente
+ *
+ * Redefinição de senha e confirmação de email mandam ao cliente um link com
+ * um token aleatório; o banco guarda apenas o hash (usuario_tokens). Cada
+ * token vale uma vez, até expirar (redefinir_senha_minutos e
+ * verificar_email_horas), e gerar um novo invalida os anteriores do mesmo
+ * tipo. Um novo link só é enviado depois de CONTA_TOKEN_INTERVALO_SEGUNDOS.
+ */
+
+require_once __DIR__ . '/email.php';
+
+const REDEFINIR_SENHA_MINUTOS_PADRAO = 60;
+const VERIFICAR_EMAIL_HORAS_PADRAO = 48;
+const CONTA_TOKEN_INTERVALO_SEGUNDOS = 60;
+
+function hashTokenConta(string $token): string {
+    return hash('sha256', $token);
+}
+
+/**
+ * Validade do tipo de token, em minutos
+ */
+function validadeTokenConta($conexao, string $tipo): int {
+    $chave = $tipo === 'redefinir_senha' ? 'redefinir_senha_minutos' : 'verificar_email_horas';
+    $minutos = $tipo === 'redefinir_senha' ? REDEFINIR_SENHA_MINUTOS_PADRAO : VERIFICAR_EMAIL_HORAS_PADRAO * 60;
+
+    $stmt = $conexao->prepare("SELECT valor FROM configuracoes WHERE chave = ? LIMIT 1");
+    $stmt->bind_param('s', $chave);
+    $stmt->execute();
+    $row = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    if ($row && (int)$row['valor'] > 0) {
+        $minutos = $tipo === 'redefinir_senha' ? (int)$row['valor'] : (int)$row['valor'] * 60;
+    }
+
+    return $minutos;
+}
+
+/**
+ * Gera um novo token para o usuário, invalidando os anteriores do mesmo tipo
+ * Retorna null se outro foi gerado há menos do intervalo mínimo
+ */
+function gerarTokenConta($conexao, int $usuarioId, string $tipo): ?string {
+    $stmt = $conexao->prepare("SELECT COUNT(*) AS c FROM usuario_tokens
+        WHERE usuario_id = ? AND tipo = ? AND created_at > DATE_SUB(NOW(), INTERVAL ? SECOND)");
+    $intervalo = CONTA_TOKEN_INTERVALO_SEGUNDOS;
+    $stmt->bind_param('isi', $usuarioId, $tipo, $intervalo);
+    $stmt->execute();
+    $recentes = (int)$stmt->get_result()->fetch_assoc()['c'];
+    $stmt->close();
+
+    if ($recentes > 0) {
+        return null;
+    }
+
+    $stmt = $conexao->prepare("UPDATE usuario_tokens SET usado_em = NOW() WHERE usuario_id = ? AND tipo = ? AND usado_em IS NULL");
+    $stmt->bind_param('is', $usuarioId, $tipo);
+    $stmt->execute();
+    $stmt->close();
+
+    $token = bin2hex(random_bytes(32));
+    $hash = hashTokenConta($token);
+    $minutos = validadeTokenConta($conexao, $tipo);
+    $expiraEm = date('Y-m-d H:i:s', strtotime("+$minutos minutes"));
+    $ip = $_SERVER['REMOTE_ADDR'] ?? null;
+
+    $stmt = $conexao->prepare("INSERT INTO usuario_tokens (usuario_id, tipo, token_hash, expira_em, ip) VALUES (?, ?, ?, ?, ?)");
+    $stmt->bind_param('issss', $usuarioId, $tipo, $hash, $expiraEm, $ip);
+    $stmt->execute();
+    $stmt->close();
+
+    return $token;
+}
+
+/**
+ * Consome o token e retorna o id do usuário, ou null se inválido, expirado
+ * ou já usado
+ */
+function consumirTokenConta($conexao, string $token, string $tipo): ?int {
+    if (!preg_match('/^[a-f0-9]{64}$/', $token)) {
+        return null;
+    }
+
+    $hash = hashTokenConta($token);
+
+    $stmt = $conexao->prepare("SELECT id, usuario_id FROM usuario_tokens
+        WHERE token_hash = ? AND tipo = ? AND usado_em IS NULL AND expira_em > NOW() LIMIT 1");
+    $stmt->bind_param('ss', $hash, $tipo);
+    $stmt->execute();
+    $registro = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    if (!$registro) {
+        return null;
+    }
+
+    // A condição em usado_em impede que duas requisições usem o mesmo token
+    $id = (int)$registro['id'];
+    $stmt = $conexao->prepare("UPDATE usuario_tokens SET usado_em = NOW() WHERE id = ? AND usado_em IS NULL");
+    $stmt->bind_param('i', $id);
+    $stmt->execute();
+    $consumido = $stmt->affected_rows === 1;
+    $stmt->close();
+
+    return $consumido ? (int)$registro['usuario_id'] : null;
+}
+
+/**
+ * Envia o link de confirmação do email do usuário
+ * Retorna false se o intervalo mínimo não passou ou o email não foi aceito
+ */
+function enviarEmailVerificacao($conexao, array $usuario): bool {
+    $token = gerarTokenConta($conexao, (int)$usuario['id'], 'verificar_email');
+    if ($token === null) {
+        return false;
+    }
+
+    $link = SITE_URL . '/verificar-email?token=' . $token;
+    $corpo = "Olá, {$usuario['nome']}!\n\n"
+        . "Confirme seu email acessando o link abaixo:\n$link\n\n"
+        . "Se você não criou uma conta na loja, ignore este email.";
+
+    return enviarEmail($conexao, $usuario['email'], 'Confirme seu email', $corpo);
+}
+
+/**
+ * Envia o link de redefinição de senha
+ * Retorna false se o intervalo mínimo não passou ou o email não foi aceito
+ */
+function enviarEmailRedefinicaoSenha($conexao, array $usuario): bool {
+    $token = gerarTokenConta($conexao, (int)$usuario['id'], 'redefinir_senha');
+    if ($token === null) {
+        return false;
+    }
+
+    $link = SITE_URL . '/redefinir-senha?token=' . $token;
+    $corpo = "Olá, {$usuario['nome']}!\n\n"
+        . "Para criar uma nova senha, acesse o link abaixo:\n$link\n\n"
+        . "O link vale por " . validadeTokenConta($conexao, 'redefinir_senha') . " minutos e só pode ser usado uma vez.\n"
+        . "Se você não pediu a redefinição, ignore este email; sua senha continua a mesma.";
+
+    return enviarEmail($conexao, $usuario['email'], 'Redefinição de senha', $corpo);
+}
+?>
@@ -0,0 +1,32 @@
+<?php
+/**
+ * Expiração das reservas de estoque (tarefa agendada)
+ *
+ * Cancela os pedidos não pagos cuja reserva venceu e devolve o estoque
+ * (expirarReservasVencidas). Roda só pela linha de comando, a cada poucos
+ * minutos:
+ *
+ *   0-59/5 * * * * php /caminho/api/cron/expirar_reservas.php
+ *
+ * As consultas (GET) não expiram nada: além desta tarefa, só a criação de
+ * pedidos e de cobranças e o webhook de pagamento expiram as reservas vencidas.
+ */
+
+if (PHP_SAPI !== 'cli') {
+    http_response_code(404);
+    exit();
+}
+
+require_once __DIR__ . '/../conexao.php';
+require_once __DIR__ . '/../pedido_status.php';
+require_once __DIR__ . '/../estoque.php';
+
+try {
+    $cancelados = expirarReservasVencidas($conexao);
+    $conexao->close();
+    echo date('Y-m-d H:i:s') . " - {$cancelados} pedido(s) cancelado(s) por reserva vencida\n";
+} catch (Throwable $e) {
+    fwrite(STDERR, date('Y-m-d H:i:s') . ' - Erro ao expirar reservas: ' . $e->getMessage() . "\n");
+    exit(1);
+}
+?>
@@ -0,0 +1,212 @@
+<?php
+/**
+ * Cupons de desconto
+ *
+ * Tipos:
+ * - percentual:  valor % sobre o subtotal dos itens elegíveis
+ * - valor_fixo:  valor em R$, limitado ao subtotal dos itens elegíveis
+ * - frete_gratis: desconta o frete escolhido
+ *
+ * Itens elegíveis: todos, ou só os produtos/categorias vinculados ao cupom
+ * (cupom_produtos / cupom_categorias). O valor mínimo vale para o subtotal
+ * do carrinho inteiro.
+ *
+ * O uso é gravado em cupom_usos na criação do pedido (registrarUsoCupom) e
+ * devolvido se o pedido for cancelado (liberarUsoCupom).
+ */
+
+class CupomInvalidoException extends Exception {
+    public function __construct(string $mensagem) {
+        parent::__construct($mensagem, 422);
+    }
+}
+
+function normalizarCodigoCupom(string $codigo): string {
+    return strtoupper(trim($codigo));
+}
+
+/**
+ * Calcula o desconto do cupom para o carrinho
+ *
+ * $linhas: itens já precificados (produto_id, categoria_id, subtotal)
+ * $usuarioId / $email: identificam o cliente no limite por cliente
+ *
+ * Retorna ['cupom_id', 'codigo', 'tipo', 'descricao', 'desconto'].
+ * Lança CupomInvalidoException com a mensagem a exibir ao cliente.
+ */
+function calcularDescontoCupom($conexao, string $codigo, array $linhas, float $subtotal, float $frete, ?int $usuarioId = null, ?string $email = null): array {
+    $codigo = normalizarCodigoCupom($codigo);
+
+    $stmt = $conexao->prepare("SELECT * FROM cupons WHERE codigo = ? LIMIT 1");
+    $stmt->bind_param('s', $codigo);
+    $stmt->execute();
+    $cupom = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    if (!$cupom || !(int)$cupom['ativo']) {
+        throw new CupomInvalidoException('Cupom inválido');
+    }
+
+    $agora = date('Y-m-d H:i:s');
+    if ($cupom['valido_de'] !== null && $agora < $cupom['valido_de']) {
+        throw new CupomInvalidoException('Este cupom ainda não está válido');
+    }
+    if ($cupom['valido_ate'] !== null && $agora > $cupom['valido_ate']) {
+        throw new CupomInvalidoException('Este cupom expirou');
+    }
+
+    if ($cupom['valor_minimo'] !== null && $subtotal < (float)$cupom['valor_minimo']) {
+        throw new CupomInvalidoException('Valor mínimo para este cupom: R$ ' . number_format((float)$cupom['valor_minimo'], 2, ',', '.'));
+    }
+
+    if ($cupom['limite_uso'] !== null && (int)$cupom['usos'] >= (int)$cupom['limite_uso']) {
+        throw new CupomInvalidoException('Este cupom esgotou');
+    }
+
+    if ($cupom['limite_por_cliente'] !== null && contarUsosCupomCliente($conexao, (int)$cupom['id'], $usuarioId, $email) >= (int)$cupom['limite_por_cliente']) {
+        throw new CupomInvalidoException('Você já usou este cupom o número máximo de vezes');
+    }
+
+    $restricoes = buscarRestricoesCupom($conexao, (int)$cupom['id']);
+    $subtotalElegivel = 0.0;
+    foreach ($linhas as $linha) {
+        if (itemElegivelCupom($restricoes, $linha)) {
+            $subtotalElegivel += (float)$linha['subtotal'];
+        }
+    }
+
+    if ($subtotalElegivel <= 0) {
+        throw new CupomInvalidoException('Este cupom não é válido para os produtos do carrinho');
+    }
+
+    switch ($cupom['tipo']) {
+        case 'percentual':
+            $desconto = $subtotalElegivel * (float)$cupom['valor'] / 100;
+            break;
+        case 'valor_fixo':
+            $desconto = min((float)$cupom['valor'], $subtotalElegivel);
+            break;
+        case 'frete_gratis':
+            $desconto = $frete;
+            break;
+        default:
+            throw new CupomInvalidoException('Cupom inválido');
+    }
+
+    return [
+        'cupom_id' => (int)$cupom['id'],
+        'codigo' => $cupom['codigo'],
+        'tipo' => $cupom['tipo'],
+        'descricao' => $cupom['descricao'],
+        'desconto' => round($desconto, 2)
+    ];
+}
+
+/**
+ * Produtos e categorias a que o cupom se limita (listas vazias = sem restrição)
+ */
+function buscarRestricoesCupom($conexao, int $cupomId): array {
+    $restricoes = ['produtos' => [], 'categorias' => []];
+
+    $stmt = $conexao->prepare("SELECT produto_id FROM cupom_produtos WHERE cupom_id = ?");
+    $stmt->bind_param('i', $cupomId);
+    $stmt->execute();
+    $result = $stmt->get_result();
+    while ($row = $result->fetch_assoc()) {
+        $restricoes['produtos'][] = (int)$row['produto_id'];
+    }
+    $stmt->close();
+
+    $stmt = $conexao->prepare("SELECT categoria_id FROM cupom_categorias WHERE cupom_id = ?");
+    $stmt->bind_param('i', $cupomId);
+    $stmt->execute();
+    $result = $stmt->get_result();
+    while ($row = $result->fetch_assoc()) {
+        $restricoes['categorias'][] = (int)$row['categoria_id'];
+    }
+    $stmt->close();
+
+    return $restricoes;
+}
+
+function itemElegivelCupom(array $restricoes, array $linha): bool {
+    if (count($restricoes['produtos']) === 0 && count($restricoes['categorias']) === 0) {
+        return true;
+    }
+
+    return in_array((int)$linha['produto_id'], $restricoes['produtos'], true)
+        || ($linha['categoria_id'] !== null && in_array((int)$linha['categoria_id'], $restricoes['categorias'], true));
+}
+
+function contarUsosCupomCliente($conexao, int $cupomId, ?int $usuarioId, ?string $email): int {
+    $email = $email !== null ? trim($email) : '';
+    if ($usuarioId === null && $email === '') {
+        return 0;
+    }
+
+    $vUsuarioId = $usuarioId ?? 0;
+    $stmt = $conexao->prepare("SELECT COUNT(*) AS total FROM cupom_usos WHERE cupom_id = ? AND (usuario_id = ? OR (? <> '' AND cliente_email = ?))");
+    $stmt->bind_param('iiss', $cupomId, $vUsuarioId, $email, $email);
+    $stmt->execute();
+    $row = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    return (int)($row['total'] ?? 0);
+}
+
+/**
+ * Registra o uso do cupom no pedido
+ * Deve ser chamada dentro da transação que cria o pedido: o contador só
+ * avança se ainda houver usos disponíveis (UPDATE condicional), então dois
+ * pedidos simultâneos não ultrapassam o limite global.
+ */
+function registrarUsoCupom($conexao, array $cupom, int $pedidoId, ?int $usuarioId, string $email): void {
+    $cupomId = (int)$cupom['cupom_id'];
+
+    $stmt = $conexao->prepare("UPDATE cupons SET usos = usos + 1 WHERE id = ? AND (limite_uso IS NULL OR usos < limite_uso)");
+    $stmt->bind_param('i', $cupomId);
+    $stmt->execute();
+    $registrado = $stmt->affected_rows > 0;
+    $stmt->close();
+
+    if (!$registrado) {
+        throw new CupomInvalidoException('Este cupom esgotou');
+    }
+
+    $valor = (float)$cupom['desconto'];
+    $stmt = $conexao->prepare("INSERT INTO cupom_usos (cupom_id, pedido_id, usuario_id, cliente_email, valor_desconto) VALUES (?, ?, ?, ?, ?)");
+    $stmt->bind_param('iiisd', $cupomId, $pedidoId, $usuarioId, $email, $valor);
+    if (!$stmt->execute()) {
+        throw new Exception('Erro ao registrar uso do cupom: ' . $stmt->error);
+    }
+    $stmt->close();
+}
+
+/**
+ * Pedido cancelado: o uso do cupom deixa de contar nos limites
+ * Deve ser chamada dentro da transação que cancela o pedido
+ */
+function liberarUsoCupom($conexao, int $pedidoId): void {
+    $stmt = $conexao->prepare("SELECT id, cupom_id FROM cupom_usos WHERE pedido_id = ? FOR UPDATE");
+    $stmt->bind_param('i', $pedidoId);
+    $stmt->execute();
+    $uso = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    if (!$uso) {
+        return;
+    }
+
+    $cupomId = (int)$uso['cupom_id'];
+    $stmt = $conexao->prepare("UPDATE cupons SET usos = GREATEST(usos - 1, 0) WHERE id = ?");
+    $stmt->bind_param('i', $cupomId);
+    $stmt->execute();
+    $stmt->close();
+
+    $usoId = (int)$uso['id'];
+    $stmt = $conexao->prepare("DELETE FROM cupom_usos WHERE id = ?");
+    $stmt->bind_param('i', $usoId);
+    $stmt->execute();
+    $stmt->close();
+}
+?>
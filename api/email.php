@@ -0,0 +1,104 @@
+<?php
+/**
+ * Envio de emails transacionais da loja
+ *
+ * O transporte vem de EMAIL_TRANSPORTE:
+ * - 'mail': mail() do PHP, para produção
+ * - 'arquivo': grava cada mensagem em EMAIL_PASTA (.eml), para desenvolvimento
+ * - 'console': escreve a mensagem no log de erros do PHP
+ *
+ * O remetente vem de configuracoes.loja_email. enviarEmail retorna false
+ * quando o transporte não aceita a mensagem; quem chama decide se isso
+ * impede a operação.
+ */
+
+define('EMAIL_TRANSPORTE', getenv('EMAIL_TRANSPORTE') ?: 'arquivo');
+define('EMAIL_PASTA', getenv('EMAIL_PASTA') ?: __DIR__ . '/../logs/emails');
+
+// Endereço do site usado nos links enviados por email
+define('SITE_URL', rtrim(getenv('SITE_URL') ?: 'http://localhost:8080', '/'));
+
+interface TransporteEmail {
+    /**
+     * Entrega a mensagem já montada; $headers não inclui o assunto
+     */
+    public function enviar(string $para, string $assunto, string $corpo, array $headers): bool;
+}
+
+class TransporteMail implements TransporteEmail {
+    public function enviar(string $para, string $assunto, string $corpo, array $headers): bool {
+        return mail($para, mb_encode_mimeheader($assunto, 'UTF-8'), $corpo, implode("\r\n", $headers));
+    }
+}
+
+/**
+ * Grava a mensagem como .eml, que abre em qualquer cliente de email
+ */
+class TransporteArquivo implements TransporteEmail {
+    private $pasta;
+
+    public function __construct(string $pasta) {
+        $this->pasta = $pasta;
+    }
+
+    public function enviar(string $para, string $assunto, string $corpo, array $headers): bool {
+        if (!is_dir($this->pasta) && !mkdir($this->pasta, 0775, true)) {
+            return false;
+        }
+
+        $nome = date('Ymd-His') . '-' . bin2hex(random_bytes(4)) . '.eml';
+        $mensagem = implode("\r\n", array_merge(
+            ["To: $para", 'Subject: ' . mb_encode_mimeheader($assunto, 'UTF-8'), 'Date: ' . date(DATE_RFC2822)],
+            $headers
+        )) . "\r\n\r\n" . $corpo;
+
+        return file_put_contents($this->pasta . '/' . $nome, $mensagem) !== false;
+    }
+}
+
+class TransporteConsole implements TransporteEmail {
+    public function enviar(string $para, string $assunto, string $corpo, array $headers): bool {
+        error_log("[email] Para: $para | Assunto: $assunto\n$corpo");
+        return true;
+    }
+}
+
+/**
+ * Retorna o transporte configurado em EMAIL_TRANSPORTE
+ */
+function obterTransporteEmail(): TransporteEmail {
+    switch (EMAIL_TRANSPORTE) {
+        case 'mail':
+            return new TransporteMail();
+        case 'arquivo':
+            return new TransporteArquivo(EMAIL_PASTA);
+        case 'console':
+            return new TransporteConsole();
+        default:
+            throw new Exception('Transporte de email desconhecido: ' . EMAIL_TRANSPORTE);
+    }
+}
+
+function enviarEmail($conexao, string $para, string $assunto, string $corpo): bool {
+    $remetente = 'nao-responda@localhost';
+    $nomeLoja = 'Loja';
+
+    $result = $conexao->query("SELECT chave, valor FROM configuracoes WHERE chave IN ('loja_email', 'loja_nome')");
+    while ($row = $result->fetch_assoc()) {
+        if ($row['chave'] === 'loja_email' && filter_var($row['valor'], FILTER_VALIDATE_EMAIL)) {
+            $remetente = $row['valor'];
+        }
+        if ($row['chave'] === 'loja_nome' && trim((string)$row['valor']) !== '') {
+            $nomeLoja = trim((string)$row['valor']);
+        }
+    }
+
+    $headers = [
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'From: ' . mb_encode_mimeheader($nomeLoja, 'UTF-8') . " <$remetente>"
+    ];
+
+    return obterTransporteEmail()->enviar($para, $assunto, $corpo, $headers);
+}
+?>
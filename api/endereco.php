@@ -0,0 +1,66 @@
+<?php
+/**
+ * Validação de endereços de entrega
+ * Espelha src/lib/endereco.ts
+ */
+
+const UFS_VALIDAS = [
+    'AC', 'AL', 'AP', 'AM', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MT', 'MS', 'MG', 'PA',
+    'PB', 'PR', 'PE', 'PI', 'RJ', 'RN', 'RS', 'RO', 'RR', 'SC', 'SP', 'SE', 'TO'
+];
+
+/**
+ * Normaliza os campos do endereço (CEP só com dígitos, UF em maiúsculas)
+ */
+function normalizarEndereco(array $endereco): array {
+    $texto = function ($campo) use ($endereco) {
+        $valor = isset($endereco[$campo]) ? trim((string)$endereco[$campo]) : '';
+        return $valor === '' ? null : $valor;
+    };
+
+    return [
+        'apelido' => $texto('apelido'),
+        'destinatario' => $texto('destinatario'),
+        'cep' => preg_replace('/\D/', '', (string)($endereco['cep'] ?? '')),
+        'logradouro' => $texto('logradouro'),
+        'numero' => $texto('numero'),
+        'complemento' => $texto('complemento'),
+        'bairro' => $texto('bairro'),
+        'cidade' => $texto('cidade'),
+        'estado' => strtoupper((string)$texto('estado'))
+    ];
+}
+
+/**
+ * Retorna null se o endereço (já normalizado) for válido, ou a mensagem de erro
+ */
+function validarEndereco(array $endereco): ?string {
+    if (strlen($endereco['cep']) !== 8) {
+        return 'CEP inválido';
+    }
+
+    foreach (['logradouro' => 'Logradouro', 'bairro' => 'Bairro', 'cidade' => 'Cidade'] as $campo => $nome) {
+        if (empty($endereco[$campo])) {
+            return "$nome é obrigatório";
+        }
+    }
+
+    // Número: dígitos com letra opcional (ex.: 120A) ou "S/N"
+    if (empty($endereco['numero']) || !preg_match('/^(\d{1,6}[A-Za-z]?|S\/?N)$/i', $endereco['numero'])) {
+        return 'Número inválido';
+    }
+
+    if (!in_array($endereco['estado'], UFS_VALIDAS, true)) {
+        return 'UF inválida';
+    }
+
+    return null;
+}
+
+/**
+ * CEP no formato 00000-000
+ */
+function formatarCep(string $cep): string {
+    return substr($cep, 0, 5) . '-' . substr($cep, 5);
+}
+?>
@@ -0,0 +1,310 @@
+<?php
+header('Content-Type: application/json; charset=utf-8');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: GET, POST, PUT, DELETE, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit();
+}
+
+require_once 'conexao.php';
+require_once 'endereco.php';
+require_once 'auth.php';
+
+/**
+ * API de Endereços do cliente
+ *
+ * GET    /api/enderecos.php         - Listar endereços (padrão primeiro)
+ * POST   /api/enderecos.php         - Criar endereço
+ * PUT    /api/enderecos.php?id=xxx  - Atualizar endereço e/ou torná-lo padrão
+ * DELETE /api/enderecos.php?id=xxx  - Excluir endereço
+ *
+ * Exige o token do cliente (auth.php); toda operação é restrita aos
+ * endereços da conta dele.
+ */
+
+try {
+    $method = $_SERVER['REQUEST_METHOD'];
+
+    switch ($method) {
+        case 'GET':
+            handleGet($conexao);
+            break;
+        case 'POST':
+            handlePost($conexao);
+            break;
+        case 'PUT':
+            handlePut($conexao);
+            break;
+        case 'DELETE':
+            handleDelete($conexao);
+            break;
+        default:
+            http_response_code(405);
+            echo json_encode(['success' => false, 'error' => 'Método não permitido'], JSON_UNESCAPED_UNICODE);
+    }
+} catch (Throwable $e) {
+    http_response_code(500);
+    echo json_encode(['success' => false, 'error' => $e->getMessage()], JSON_UNESCAPED_UNICODE);
+}
+
+function responderJson($data, int $codigo = 200) {
+    http_response_code($codigo);
+    echo json_encode($data, JSON_UNESCAPED_UNICODE);
+}
+
+function handleGet($conexao) {
+    $usuarioId = (int)autenticarCliente($conexao)['id'];
+    responderJson(['success' => true, 'data' => listarEnderecos($conexao, $usuarioId)]);
+}
+
+function listarEnderecos($conexao, int $usuarioId): array {
+    $stmt = $conexao->prepare("SELECT * FROM enderecos WHERE usuario_id = ? ORDER BY padrao DESC, created_at DESC");
+    $stmt->bind_param('i', $usuarioId);
+    $stmt->execute();
+    $result = $stmt->get_result();
+
+    $enderecos = [];
+    while ($endereco = $result->fetch_assoc()) {
+        $endereco['padrao'] = (bool)$endereco['padrao'];
+        $enderecos[] = $endereco;
+    }
+
+    $stmt->close();
+    return $enderecos;
+}
+
+function buscarEndereco($conexao, int $id, int $usuarioId): ?array {
+    $stmt = $conexao->prepare("SELECT * FROM enderecos WHERE id = ? AND usuario_id = ? LIMIT 1");
+    $stmt->bind_param('ii', $id, $usuarioId);
+    $stmt->execute();
+    $endereco = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    if ($endereco) {
+        $endereco['padrao'] = (bool)$endereco['padrao'];
+    }
+
+    return $endereco ?: null;
+}
+
+/**
+ * Marca um endereço como padrão e desmarca os demais do usuário
+ */
+function definirPadrao($conexao, int $id, int $usuarioId) {
+    $stmt = $conexao->prepare("UPDATE enderecos SET padrao = (id = ?) WHERE usuario_id = ?");
+    $stmt->bind_param('ii', $id, $usuarioId);
+    $stmt->execute();
+    $stmt->close();
+}
+
+function handlePost($conexao) {
+    $input = json_decode(file_get_contents('php://input'), true);
+
+    $usuarioId = (int)autenticarCliente($conexao)['id'];
+
+    if (!$input) {
+        responderJson(['success' => false, 'error' => 'Dados inválidos'], 400);
+        return;
+    }
+
+    $endereco = normalizarEndereco($input);
+
+    $erro = validarEndereco($endereco);
+    if ($erro) {
+        responderJson(['success' => false, 'error' => $erro], 400);
+        return;
+    }
+
+    $cep = formatarCep($endereco['cep']);
+
+    $conexao->begin_transaction();
+
+    try {
+        $stmt = $conexao->prepare("INSERT INTO enderecos (
+            usuario_id,
+            apelido,
+            destinatario,
+            cep,
+            logradouro,
+            numero,
+            complemento,
+            bairro,
+            cidade,
+            estado
+        ) VALUES (?,?,?,?,?,?,?,?,?,?)");
+
+        $stmt->bind_param(
+            'isssssssss',
+            $usuarioId,
+            $endereco['apelido'],
+            $endereco['destinatario'],
+            $cep,
+            $endereco['logradouro'],
+            $endereco['numero'],
+            $endereco['complemento'],
+            $endereco['bairro'],
+            $endereco['cidade'],
+            $endereco['estado']
+        );
+
+        if (!$stmt->execute()) {
+            throw new Exception('Erro ao salvar endereço: ' . $stmt->error);
+        }
+
+        $id = (int)$conexao->insert_id;
+        $stmt->close();
+
+        // O primeiro endereço do usuário vira o padrão
+        $stmt = $conexao->prepare("SELECT COUNT(*) as c FROM enderecos WHERE usuario_id = ? AND padrao = 1");
+        $stmt->bind_param('i', $usuarioId);
+        $stmt->execute();
+        $temPadrao = ((int)$stmt->get_result()->fetch_assoc()['c']) > 0;
+        $stmt->close();
+
+        if (!empty($input['padrao']) || !$temPadrao) {
+            definirPadrao($conexao, $id, $usuarioId);
+        }
+
+        $conexao->commit();
+    } catch (Throwable $e) {
+        $conexao->rollback();
+        throw $e;
+    }
+
+    responderJson([
+        'success' => true,
+        'data' => buscarEndereco($conexao, $id, $usuarioId),
+        'message' => 'Endereço salvo com sucesso'
+    ], 201);
+}
+
+function handlePut($conexao) {
+    $input = json_decode(file_get_contents('php://input'), true);
+    $id = isset($_GET['id']) ? (int)$_GET['id'] : 0;
+
+    $usuarioId = (int)autenticarCliente($conexao)['id'];
+
+    if (!$input || !$id) {
+        responderJson(['success' => false, 'error' => 'Dados inválidos'], 400);
+        return;
+    }
+
+    if (!buscarEndereco($conexao, $id, $usuarioId)) {
+        responderJson(['success' => false, 'error' => 'Endereço não encontrado'], 404);
+        return;
+    }
+
+    $conexao->begin_transaction();
+
+    try {
+        // Sem CEP no corpo, a requisição apenas altera o endereço padrão
+        if (isset($input['cep'])) {
+            $endereco = normalizarEndereco($input);
+
+            $erro = validarEndereco($endereco);
+            if ($erro) {
+                $conexao->rollback();
+                responderJson(['success' => false, 'error' => $erro], 400);
+                return;
+            }
+
+            $cep = formatarCep($endereco['cep']);
+
+            $stmt = $conexao->prepare("UPDATE enderecos SET
+                apelido = ?,
+                destinatario = ?,
+                cep = ?,
+                logradouro = ?,
+                numero = ?,
+                complemento = ?,
+                bairro = ?,
+                cidade = ?,
+                estado = ?
+              WHERE id = ? AND usuario_id = ?");
+
+            $stmt->bind_param(
+                'sssssssssii',
+                $endereco['apelido'],
+                $endereco['destinatario'],
+                $cep,
+                $endereco['logradouro'],
+                $endereco['numero'],
+                $endereco['complemento'],
+                $endereco['bairro'],
+                $endereco['cidade'],
+                $endereco['estado'],
+                $id,
+                $usuarioId
+            );
+
+            if (!$stmt->execute()) {
+                throw new Exception('Erro ao atualizar endereço: ' . $stmt->error);
+            }
+
+            $stmt->close();
+        }
+
+        if (!empty($input['padrao'])) {
+            definirPadrao($conexao, $id, $usuarioId);
+        }
+
+        $conexao->commit();
+    } catch (Throwable $e) {
+        $conexao->rollback();
+        throw $e;
+    }
+
+    responderJson([
+        'success' => true,
+        'data' => buscarEndereco($conexao, $id, $usuarioId),
+        'message' => 'Endereço atualizado com sucesso'
+    ]);
+}
+
+function handleDelete($conexao) {
+    $id = isset($_GET['id']) ? (int)$_GET['id'] : 0;
+    $usuarioId = (int)autenticarCliente($conexao)['id'];
+
+    if (!$id) {
+        responderJson(['success' => false, 'error' => 'Parâmetro id é obrigatório'], 400);
+        return;
+    }
+
+    $endereco = buscarEndereco($conexao, $id, $usuarioId);
+    if (!$endereco) {
+        responderJson(['success' => false, 'error' => 'Endereço não encontrado'], 404);
+        return;
+    }
+
+    $conexao->begin_transaction();
+
+    try {
+        $stmt = $conexao->prepare("DELETE FROM enderecos WHERE id = ? AND usuario_id = ?");
+        $stmt->bind_param('ii', $id, $usuarioId);
+        $stmt->execute();
+        $stmt->close();
+
+        // Se o padrão foi excluído, o endereço mais recente assume
+        if ($endereco['padrao']) {
+            $stmt = $conexao->prepare("SELECT id FROM enderecos WHERE usuario_id = ? ORDER BY created_at DESC LIMIT 1");
+            $stmt->bind_param('i', $usuarioId);
+            $stmt->execute();
+            $proximo = $stmt->get_result()->fetch_assoc();
+            $stmt->close();
+
+            if ($proximo) {
+                definirPadrao($conexao, (int)$proximo['id'], $usuarioId);
+            }
+        }
+
+        $conexao->commit();
+    } catch (Throwable $e) {
+        $conexao->rollback();
+        throw $e;
+    }
+
+    responderJson(['success' => true, 'message' => 'Endereço excluído com sucesso']);
+}
@@ -0,0 +1,336 @@
+<?php
+/**
+ * Reserva de estoque dos pedidos
+ *
+ * O estoque é baixado (reservado) na criação do pedido, por variação de cor
+ * e capacidade quando houver. A reserva fica "ativa" até o pagamento
+ * (confirmada) ou o cancelamento (liberada, devolvendo o estoque). Pedidos não
+ * pagos até expira_em são cancelados por expirarReservasVencidas(); no cartão o
+ * prazo é curto e uma recusa do emissor já cancela o pedido (provedores.php).
+ *
+ * Produtos com unidades cadastradas (unidades.php) reservam unidades
+ * específicas, ligadas ao item do pedido, e o estoque é recalculado por elas.
+ */
+
+require_once __DIR__ . '/cupom.php';
+require_once __DIR__ . '/boleto.php';
+require_once __DIR__ . '/unidades.php';
+
+// Tempo padrão de reserva de pedidos PIX e cartão, se não configurado
+const RESERVA_PIX_MINUTOS_PADRAO = 60;
+const RESERVA_CARTAO_MINUTOS_PADRAO = 30;
+
+/**
+ * Um ou mais itens do pedido sem estoque suficiente
+ * $itens: [['indice', 'produto_id', 'variacao_id', 'cor', 'capacidade', 'nome', 'solicitado', 'disponivel'], ...]
+ */
+class EstoqueInsuficienteException extends Exception {
+    public $itens;
+
+    public function __construct(array $itens) {
+        parent::__construct('Estoque insuficiente para um ou mais itens', 409);
+        $this->itens = $itens;
+    }
+}
+
+/**
+ * Data de expiração da reserva para a forma de pagamento (null = não expira)
+ */
+function calcularExpiracaoReserva($conexao, string $formaPagamento): ?string {
+    if ($formaPagamento === 'boleto') {
+        return calcularExpiracaoBoleto(obterConfigBoleto($conexao));
+    }
+
+    // Cartão: o tempo do desafio 3DS ou de uma notificação que não chegou
+    if ($formaPagamento === 'cartao') {
+        $chave = 'reserva_cartao_minutos';
+        $minutos = RESERVA_CARTAO_MINUTOS_PADRAO;
+    } elseif ($formaPagamento === 'pix') {
+        $chave = 'reserva_pix_minutos';
+        $minutos = RESERVA_PIX_MINUTOS_PADRAO;
+    } else {
+        return null;
+    }
+
+    $stmt = $conexao->prepare("SELECT valor FROM configuracoes WHERE chave = ? LIMIT 1");
+    $stmt->bind_param('s', $chave);
+    $stmt->execute();
+    $row = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    if ($row && (int)$row['valor'] > 0) {
+        $minutos = (int)$row['valor'];
+    }
+
+    return date('Y-m-d H:i:s', time() + $minutos * 60);
+}
+
+/**
+ * Identifica a variação do item: variacao_id explícito ou cor/capacidade
+ * Retorna null quando o item não tem variação (estoque do próprio produto)
+ */
+function resolverVariacao($conexao, int $produtoId, array $item): ?int {
+    $variacaoId = isset($item['variacao_id']) ? (int)$item['variacao_id'] : 0;
+    if ($variacaoId > 0) {
+        $stmt = $conexao->prepare("SELECT id FROM produto_variacoes WHERE id = ? AND produto_id = ? LIMIT 1");
+        $stmt->bind_param('ii', $variacaoId, $produtoId);
+    } else {
+        $cor = trim((string)($item['cor'] ?? $item['color'] ?? ''));
+        $capacidade = trim((string)($item['capacidade'] ?? $item['capacity'] ?? ''));
+        if ($cor === '' && $capacidade === '') {
+            return null;
+        }
+
+        $stmt = $conexao->prepare("SELECT id FROM produto_variacoes
+            WHERE produto_id = ? AND COALESCE(cor, '') = ? AND COALESCE(capacidade, '') = ?
+            LIMIT 1");
+        $stmt->bind_param('iss', $produtoId, $cor, $capacidade);
+    }
+
+    $stmt->execute();
+    $row = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    return $row ? (int)$row['id'] : null;
+}
+
+/**
+ * Reserva o estoque de todos os itens do pedido
+ * Deve ser chamada dentro da transação que cria o pedido: a baixa só
+ * acontece se houver saldo (UPDATE condicional), então dois pedidos
+ * simultâneos não conseguem levar a mesma última unidade.
+ * Lança EstoqueInsuficienteException listando todos os itens sem saldo.
+ * Cada item traz o pedido_item_id gravado, para ligar as unidades reservadas.
+ */
+function reservarEstoque($conexao, int $pedidoId, array $itens, ?string $expiraEm): void {
+    $stmtVariacao = $conexao->prepare("UPDATE produto_variacoes SET estoque = estoque - ? WHERE id = ? AND ativo = 1 AND estoque >= ?");
+    $stmtProduto = $conexao->prepare("UPDATE produtos SET estoque = estoque - ? WHERE id = ? AND estoque >= ?");
+    $stmtSaldoProduto = $conexao->prepare("SELECT estoque FROM produtos WHERE id = ? FOR UPDATE");
+    $stmtTotalProduto = $conexao->prepare("UPDATE produtos SET estoque = estoque - ? WHERE id = ?");
+    $stmtReserva = $conexao->prepare("INSERT INTO estoque_reservas (pedido_id, produto_id, variacao_id, quantidade, quantidade_produto, expira_em) VALUES (?, ?, ?, ?, ?, ?)");
+
+    $faltando = [];
+
+    foreach (array_values($itens) as $indice => $item) {
+        $produtoId = (int)($item['produto_id'] ?? $item['id'] ?? 0);
+        $quantidade = (int)($item['quantidade'] ?? $item['quantity'] ?? 1);
+        if ($produtoId <= 0 || $quantidade <= 0) {
+            continue;
+        }
+
+        $variacaoId = resolverVariacao($conexao, $produtoId, $item);
+        $quantidadeProduto = 0;
+
+        if (produtoUsaUnidades($conexao, $produtoId)) {
+            $pedidoItemId = isset($item['pedido_item_id']) ? (int)$item['pedido_item_id'] : null;
+            $reservado = reservarUnidades($conexao, $produtoId, $variacaoId, $quantidade, $pedidoItemId);
+            if ($reservado) {
+                sincronizarEstoqueUnidades($conexao, $produtoId);
+            }
+        } elseif ($variacaoId !== null) {
+            $stmtVariacao->bind_param('iii', $quantidade, $variacaoId, $quantidade);
+            $stmtVariacao->execute();
+            $reservado = $stmtVariacao->affected_rows > 0;
+
+            // O estoque do produto é o total das variações exibido no catálogo;
+            // baixa só o que ele tem, e a reserva guarda quanto foi para devolver o mesmo
+            if ($reservado) {
+                $stmtSaldoProduto->bind_param('i', $produtoId);
+                $stmtSaldoProduto->execute();
+                $saldo = $stmtSaldoProduto->get_result()->fetch_assoc();
+                $quantidadeProduto = min($quantidade, max(0, (int)($saldo['estoque'] ?? 0)));
+
+                $stmtTotalProduto->bind_param('ii', $quantidadeProduto, $produtoId);
+                $stmtTotalProduto->execute();
+            }
+        } else {
+            $stmtProduto->bind_param('iii', $quantidade, $produtoId, $quantidade);
+            $stmtProduto->execute();
+            $reservado = $stmtProduto->affected_rows > 0;
+            $quantidadeProduto = $quantidade;
+        }
+
+        if (!$reservado) {
+            $faltando[] = [
+                'indice' => $indice,
+                'produto_id' => $produtoId,
+                'variacao_id' => $variacaoId,
+                'cor' => $item['cor'] ?? $item['color'] ?? null,
+                'capacidade' => $item['capacidade'] ?? $item['capacity'] ?? null,
+                'nome' => $item['nome'] ?? $item['name'] ?? 'Produto',
+                'solicitado' => $quantidade,
+                'disponivel' => consultarEstoqueDisponivel($conexao, $produtoId, $variacaoId)
+            ];
+            continue;
+        }
+
+        $stmtReserva->bind_param('iiiiis', $pedidoId, $produtoId, $variacaoId, $quantidade, $quantidadeProduto, $expiraEm);
+        if (!$stmtReserva->execute()) {
+            throw new Exception('Erro ao registrar reserva de estoque: ' . $stmtReserva->error);
+        }
+    }
+
+    $stmtVariacao->close();
+    $stmtProduto->close();
+    $stmtSaldoProduto->close();
+    $stmtTotalProduto->close();
+    $stmtReserva->close();
+
+    if (count($faltando) > 0) {
+        throw new EstoqueInsuficienteException($faltando);
+    }
+}
+
+function consultarEstoqueDisponivel($conexao, int $produtoId, ?int $variacaoId): int {
+    if ($variacaoId !== null) {
+        $stmt = $conexao->prepare("SELECT IF(ativo = 1, estoque, 0) AS estoque FROM produto_variacoes WHERE id = ?");
+        $stmt->bind_param('i', $variacaoId);
+    } else {
+        $stmt = $conexao->prepare("SELECT estoque FROM produtos WHERE id = ?");
+        $stmt->bind_param('i', $produtoId);
+    }
+
+    $stmt->execute();
+    $row = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    return $row ? max(0, (int)$row['estoque']) : 0;
+}
+
+/**
+ * Devolve ao estoque as reservas do pedido (cancelamento ou expiração)
+ * Inclui as confirmadas: um pedido pago ainda pode ser cancelado antes do envio
+ * O produto recebe de volta quantidade_produto, o que de fato saiu dele na reserva
+ * Deve ser chamada dentro da transação que cancela o pedido
+ */
+function liberarReservasPedido($conexao, int $pedidoId): void {
+    $stmt = $conexao->prepare("SELECT id, produto_id, variacao_id, quantidade, quantidade_produto FROM estoque_reservas WHERE pedido_id = ? AND status IN ('ativa', 'confirmada') FOR UPDATE");
+    $stmt->bind_param('i', $pedidoId);
+    $stmt->execute();
+    $result = $stmt->get_result();
+
+    $reservas = [];
+    while ($reserva = $result->fetch_assoc()) {
+        $reservas[] = $reserva;
+    }
+    $stmt->close();
+
+    if (count($reservas) === 0) {
+        return;
+    }
+
+    $stmtVariacao = $conexao->prepare("UPDATE produto_variacoes SET estoque = estoque + ? WHERE id = ?");
+    $stmtProduto = $conexao->prepare("UPDATE produtos SET estoque = estoque + ? WHERE id = ?");
+
+    foreach ($reservas as $reserva) {
+        $quantidade = (int)$reserva['quantidade'];
+        $produtoId = (int)$reserva['produto_id'];
+
+        // O estoque destes vem das unidades, liberadas abaixo
+        if (produtoUsaUnidades($conexao, $produtoId)) {
+            continue;
+        }
+
+        if ($reserva['variacao_id'] !== null) {
+            $variacaoId = (int)$reserva['variacao_id'];
+            $stmtVariacao->bind_param('ii', $quantidade, $variacaoId);
+            $stmtVariacao->execute();
+        }
+
+        $quantidadeProduto = (int)$reserva['quantidade_produto'];
+        if ($quantidadeProduto > 0) {
+            $stmtProduto->bind_param('ii', $quantidadeProduto, $produtoId);
+            $stmtProduto->execute();
+        }
+    }
+
+    $stmtVariacao->close();
+    $stmtProduto->close();
+
+    liberarUnidadesPedido($conexao, $pedidoId);
+
+    $stmt = $conexao->prepare("UPDATE estoque_reservas SET status = 'liberada', expira_em = NULL WHERE pedido_id = ? AND status IN ('ativa', 'confirmada')");
+    $stmt->bind_param('i', $pedidoId);
+    $stmt->execute();
+    $stmt->close();
+}
+
+/**
+ * Pedido pago: a baixa passa a ser definitiva e a reserva não expira mais
+ * As unidades reservadas passam a vendidas
+ */
+function confirmarReservasPedido($conexao, int $pedidoId): void {
+    $stmt = $conexao->prepare("UPDATE estoque_reservas SET status = 'confirmada', expira_em = NULL WHERE pedido_id = ? AND status = 'ativa'");
+    $stmt->bind_param('i', $pedidoId);
+    $stmt->execute();
+    $stmt->close();
+
+    confirmarUnidadesPedido($conexao, $pedidoId);
+}
+
+/**
+ * Cancela os pedidos ainda não pagos cuja reserva venceu e devolve o estoque
+ * Retorna a quantidade de pedidos cancelados
+ * Roda na tarefa agendada (cron/expirar_reservas.php) e nos caminhos de
+ * escrita (pedido, cobrança, webhook), nunca em consultas
+ * Não pode ser chamada dentro de outra transação
+ */
+function expirarReservasVencidas($conexao): int {
+    $stmt = $conexao->prepare("SELECT DISTINCT p.id, p.status
+        FROM estoque_reservas r
+        INNER JOIN pedidos p ON p.id = r.pedido_id
+        WHERE r.status = 'ativa'
+          AND r.expira_em IS NOT NULL
+          AND r.expira_em < NOW()
+          AND p.status IN ('aguardando_pagamento', 'pendente')");
+    $stmt->execute();
+    $result = $stmt->get_result();
+
+    $pedidos = [];
+    while ($pedido = $result->fetch_assoc()) {
+        $pedidos[] = $pedido;
+    }
+    $stmt->close();
+
+    $cancelados = 0;
+
+    foreach ($pedidos as $pedido) {
+        $pedidoId = (int)$pedido['id'];
+        $statusAtual = $pedido['status'];
+
+        $conexao->begin_transaction();
+        try {
+            // A condição no status evita cancelar um pedido pago neste intervalo
+            $stmt = $conexao->prepare("UPDATE pedidos SET status = 'cancelado', updated_at = NOW() WHERE id = ? AND status = ?");
+            $stmt->bind_param('is', $pedidoId, $statusAtual);
+            $stmt->execute();
+            $alterado = $stmt->affected_rows > 0;
+            $stmt->close();
+
+            if (!$alterado) {
+                $conexao->rollback();
+                continue;
+            }
+
+            liberarReservasPedido($conexao, $pedidoId);
+            liberarUsoCupom($conexao, $pedidoId);
+
+            // PIX ou boleto em aberto deixam de valer junto com o pedido
+            $stmt = $conexao->prepare("UPDATE pagamentos SET status = 'expirado' WHERE pedido_id = ? AND status = 'pendente'");
+            $stmt->bind_param('i', $pedidoId);
+            $stmt->execute();
+            $stmt->close();
+
+            registrarHistoricoPedido($conexao, $pedidoId, $statusAtual, 'cancelado', 'sistema', null, null, 'Pagamento não identificado no prazo da reserva');
+
+            $conexao->commit();
+            $cancelados++;
+        } catch (Throwable $e) {
+            $conexao->rollback();
+            throw $e;
+        }
+    }
+
+    return $cancelados;
+}
+?>
@@ -0,0 +1,43 @@
+<?php
+/**
+ * Configurações dos endpoints de frete
+ * Reutiliza a conexão existente do conexao.php
+ */
+
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: POST, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+header('Content-Type: application/json; charset=utf-8');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit();
+}
+
+require_once __DIR__ . '/../conexao.php';
+require_once __DIR__ . '/provedores.php';
+
+/**
+ * Resposta de sucesso
+ */
+function responderSucesso($data, $mensagem = null) {
+    $response = ['success' => true, 'data' => $data];
+    if ($mensagem) {
+        $response['message'] = $mensagem;
+    }
+    echo json_encode($response, JSON_UNESCAPED_UNICODE);
+    exit();
+}
+
+/**
+ * Resposta de erro
+ */
+function responderErro($mensagem, $codigo = 400) {
+    http_response_code($codigo);
+    echo json_encode([
+        'success' => false,
+        'error' => $mensagem
+    ], JSON_UNESCAPED_UNICODE);
+    exit();
+}
+?>
@@ -0,0 +1,35 @@
+<?php
+/**
+ * Cotação de frete
+ *
+ * POST /api/frete/cotacao.php
+ * { "cep": "65000000", "itens": [{ "produto_id": 1, "quantidade": 1 }], "subtotal": 3999.90 }
+ */
+
+require_once 'config.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    responderErro('Método não permitido', 405);
+}
+
+$input = json_decode(file_get_contents('php://input'), true);
+
+if (!$input || empty($input['cep']) || empty($input['itens']) || !is_array($input['itens'])) {
+    responderErro('CEP e itens são obrigatórios');
+}
+
+try {
+    $opcoes = cotarFrete($conexao, (string)$input['cep'], $input['itens'], (float)($input['subtotal'] ?? 0));
+} catch (InvalidArgumentException $e) {
+    responderErro($e->getMessage());
+}
+
+if (count($opcoes) === 0) {
+    responderErro('Não entregamos neste CEP', 404);
+}
+
+responderSucesso([
+    'cep' => preg_replace('/\D/', '', $input['cep']),
+    'opcoes' => $opcoes
+]);
+?>
@@ -0,0 +1,142 @@
+<?php
+/**
+ * Abstração de provedores de frete
+ *
+ * Cada provedor recebe o CEP de destino e o peso total e devolve as opções
+ * de entrega. A regra de frete grátis (configuracoes.frete_gratis_acima) é
+ * aplicada por cotarFrete(), independente do provedor.
+ */
+
+// Peso usado quando o produto não tem peso cadastrado (aparelho + embalagem)
+const FRETE_PESO_PADRAO_GRAMAS = 400;
+
+interface ProvedorFrete {
+    /**
+     * Nome do provedor (para logs e depuração)
+     */
+    public function nome(): string;
+
+    /**
+     * Retorna as opções disponíveis para o CEP (8 dígitos) e peso
+     * Cada opção: ['servico' => string, 'preco' => float, 'prazo_dias' => int]
+     */
+    public function cotar(string $cep, int $pesoGramas): array;
+}
+
+/**
+ * Provedor baseado na tabela frete_faixas (faixas de CEP x peso)
+ */
+class ProvedorFreteTabela implements ProvedorFrete {
+    private $conexao;
+
+    public function __construct($conexao) {
+        $this->conexao = $conexao;
+    }
+
+    public function nome(): string {
+        return 'tabela';
+    }
+
+    public function cotar(string $cep, int $pesoGramas): array {
+        // Para cada serviço, a menor faixa de peso que comporta o pacote
+        $stmt = $this->conexao->prepare("SELECT servico, preco, prazo_dias, peso_max_gramas
+            FROM frete_faixas
+            WHERE ativo = 1 AND ? BETWEEN cep_inicio AND cep_fim AND peso_max_gramas >= ?
+            ORDER BY servico, peso_max_gramas ASC");
+        $stmt->bind_param('si', $cep, $pesoGramas);
+        $stmt->execute();
+        $result = $stmt->get_result();
+
+        $opcoes = [];
+        while ($faixa = $result->fetch_assoc()) {
+            if (isset($opcoes[$faixa['servico']])) {
+                continue;
+            }
+            $opcoes[$faixa['servico']] = [
+                'servico' => $faixa['servico'],
+                'preco' => (float)$faixa['preco'],
+                'prazo_dias' => (int)$faixa['prazo_dias']
+            ];
+        }
+
+        $stmt->close();
+        return array_values($opcoes);
+    }
+}
+
+/**
+ * Retorna o provedor de frete ativo
+ */
+function obterProvedorFrete($conexao): ProvedorFrete {
+    return new ProvedorFreteTabela($conexao);
+}
+
+/**
+ * Peso total dos itens ([['produto_id' => int, 'quantidade' => int], ...])
+ */
+function calcularPesoItens($conexao, array $itens): int {
+    $stmt = $conexao->prepare("SELECT peso_gramas FROM produtos WHERE id = ?");
+    $peso = 0;
+
+    foreach ($itens as $item) {
+        $produtoId = (int)($item['produto_id'] ?? $item['id'] ?? 0);
+        $quantidade = max(1, (int)($item['quantidade'] ?? $item['quantity'] ?? 1));
+
+        $pesoItem = FRETE_PESO_PADRAO_GRAMAS;
+        if ($produtoId > 0) {
+            $stmt->bind_param('i', $produtoId);
+            $stmt->execute();
+            $produto = $stmt->get_result()->fetch_assoc();
+            if ($produto && (int)$produto['peso_gramas'] > 0) {
+                $pesoItem = (int)$produto['peso_gramas'];
+            }
+        }
+
+        $peso += $pesoItem * $quantidade;
+    }
+
+    $stmt->close();
+    return $peso;
+}
+
+/**
+ * Valor mínimo para frete grátis (0 = desativado)
+ */
+function obterFreteGratisAcima($conexao): float {
+    $result = $conexao->query("SELECT valor FROM configuracoes WHERE chave = 'frete_gratis_acima' LIMIT 1");
+    $row = $result ? $result->fetch_assoc() : null;
+    return $row ? (float)$row['valor'] : 0.0;
+}
+
+/**
+ * Cota o frete dos itens para o CEP
+ *
+ * Retorna as opções ordenadas pelo preço. Quando o subtotal atinge
+ * frete_gratis_acima, a opção mais barata sai de graça.
+ * Cada opção: ['servico', 'preco', 'prazo_dias', 'gratis']
+ */
+function cotarFrete($conexao, string $cep, array $itens, float $subtotal): array {
+    $cep = preg_replace('/\D/', '', $cep);
+    if (strlen($cep) !== 8) {
+        throw new InvalidArgumentException('CEP inválido');
+    }
+
+    $peso = calcularPesoItens($conexao, $itens);
+    $opcoes = obterProvedorFrete($conexao)->cotar($cep, $peso);
+
+    usort($opcoes, function ($a, $b) {
+        return $a['preco'] <=> $b['preco'];
+    });
+
+    $gratisAcima = obterFreteGratisAcima($conexao);
+    foreach ($opcoes as $indice => &$opcao) {
+        $opcao['gratis'] = $indice === 0 && $gratisAcima > 0 && $subtotal >= $gratisAcima;
+        if ($opcao['gratis']) {
+            $opcao['preco'] = 0.0;
+        }
+    }
+    unset($opcao);
+
+    return $opcoes;
+}
+?>
@@ -0,0 +1,199 @@
+<?php
+/**
+ * Upload de imagens do painel (produtos e categorias)
+ *
+ * Cada arquivo enviado é conferido (tamanho, tipo pelo conteúdo e dimensões)
+ * e convertido em WebP em três larguras: thumb (miniaturas), card (listagens)
+ * e zoom (página do produto). Imagens menores que a largura de uma versão não
+ * são ampliadas. As versões ficam em UPLOADS_PASTA e são servidas por
+ * UPLOADS_URL; produto_imagens.variantes guarda a lista em JSON e a vitrine
+ * monta o srcset a partir dela (src/lib/imagens.ts).
+ */
+
+define('UPLOADS_PASTA', rtrim(getenv('UPLOADS_PASTA') ?: __DIR__ . '/../uploads', '/'));
+define('UPLOADS_URL', rtrim(getenv('UPLOADS_URL') ?: urlBaseUploads(), '/'));
+
+const IMAGEM_TIPOS = ['image/jpeg', 'image/png', 'image/webp'];
+const IMAGEM_TAMANHO_MAXIMO = 8 * 1024 * 1024;
+// Limite por lado: evita estourar a memória ao descompactar a imagem
+const IMAGEM_DIMENSAO_MAXIMA = 6000;
+const IMAGEM_DIMENSAO_MINIMA = 200;
+const IMAGEM_QUALIDADE_WEBP = 82;
+
+// Largura máxima de cada versão gerada, da menor para a maior
+const IMAGEM_VARIANTES = [
+    'thumb' => 160,
+    'card' => 480,
+    'zoom' => 1600
+];
+
+const IMAGEM_DESTINOS = ['produtos', 'categorias'];
+
+function urlBaseUploads(): string {
+    $protocolo = !empty($_SERVER['HTTPS']) && $_SERVER['HTTPS'] !== 'off' ? 'https' : 'http';
+    return $protocolo . '://' . ($_SERVER['HTTP_HOST'] ?? 'localhost') . '/uploads';
+}
+
+/**
+ * Confere o arquivo de $_FILES; retorna null se aceito ou a mensagem de erro
+ */
+function validarUploadImagem(?array $arquivo): ?string {
+    if (!$arquivo || !isset($arquivo['error'])) {
+        return 'Envie uma imagem';
+    }
+    if ($arquivo['error'] === UPLOAD_ERR_INI_SIZE || $arquivo['error'] === UPLOAD_ERR_FORM_SIZE) {
+        return 'A imagem passa do tamanho máximo de ' . (IMAGEM_TAMANHO_MAXIMO / 1024 / 1024) . ' MB';
+    }
+    if ($arquivo['error'] !== UPLOAD_ERR_OK || !is_uploaded_file($arquivo['tmp_name'])) {
+        return 'Falha no envio da imagem';
+    }
+    if ($arquivo['size'] > IMAGEM_TAMANHO_MAXIMO) {
+        return 'A imagem passa do tamanho máximo de ' . (IMAGEM_TAMANHO_MAXIMO / 1024 / 1024) . ' MB';
+    }
+
+    // O tipo vem do conteúdo do arquivo, não da extensão nem do que o navegador informou
+    $tipo = (new finfo(FILEINFO_MIME_TYPE))->file($arquivo['tmp_name']);
+    if (!in_array($tipo, IMAGEM_TIPOS, true)) {
+        return 'Formato não aceito. Envie JPEG, PNG ou WebP';
+    }
+
+    $dimensoes = @getimagesize($arquivo['tmp_name']);
+    if (!$dimensoes) {
+        return 'Imagem corrompida ou ilegível';
+    }
+    [$largura, $altura] = $dimensoes;
+    if ($largura > IMAGEM_DIMENSAO_MAXIMA || $altura > IMAGEM_DIMENSAO_MAXIMA) {
+        return 'A imagem passa de ' . IMAGEM_DIMENSAO_MAXIMA . ' px de lado';
+    }
+    if ($largura < IMAGEM_DIMENSAO_MINIMA || $altura < IMAGEM_DIMENSAO_MINIMA) {
+        return 'A imagem precisa ter pelo menos ' . IMAGEM_DIMENSAO_MINIMA . ' px de lado';
+    }
+
+    return null;
+}
+
+/**
+ * Gera as versões WebP do arquivo já validado
+ * Retorna ['url' => maior versão, 'variantes' => [[nome, url, largura, altura]], 'largura', 'altura']
+ */
+function processarUploadImagem(array $arquivo, string $destino): array {
+    if (!function_exists('imagewebp')) {
+        throw new RuntimeException('O servidor não tem suporte a WebP (extensão GD)');
+    }
+
+    $tipo = (new finfo(FILEINFO_MIME_TYPE))->file($arquivo['tmp_name']);
+    $leitores = [
+        'image/jpeg' => 'imagecreatefromjpeg',
+        'image/png' => 'imagecreatefrompng',
+        'image/webp' => 'imagecreatefromwebp'
+    ];
+    $original = $leitores[$tipo]($arquivo['tmp_name']);
+    if (!$original) {
+        throw new RuntimeException('Não foi possível ler a imagem');
+    }
+
+    if ($tipo === 'image/jpeg') {
+        $original = corrigirOrientacaoImagem($original, $arquivo['tmp_name']);
+    }
+
+    $larguraOriginal = imagesx($original);
+    $alturaOriginal = imagesy($original);
+
+    $subpasta = $destino . '/' . date('Y/m');
+    $pasta = UPLOADS_PASTA . '/' . $subpasta;
+    if (!is_dir($pasta) && !mkdir($pasta, 0755, true)) {
+        imagedestroy($original);
+        throw new RuntimeException('Não foi possível gravar a imagem');
+    }
+
+    $base = bin2hex(random_bytes(8));
+    $variantes = [];
+
+    foreach (IMAGEM_VARIANTES as $nome => $larguraMaxima) {
+        $largura = min($larguraMaxima, $larguraOriginal);
+        $altura = (int)round($alturaOriginal * $largura / $larguraOriginal);
+
+        $versao = imagecreatetruecolor($largura, $altura);
+        // Mantém a transparência de PNG e WebP
+        imagealphablending($versao, false);
+        imagesavealpha($versao, true);
+        imagecopyresampled($versao, $original, 0, 0, 0, 0, $largura, $altura, $larguraOriginal, $alturaOriginal);
+
+        $nomeArquivo = "$base-$nome.webp";
+        $gravou = imagewebp($versao, "$pasta/$nomeArquivo", IMAGEM_QUALIDADE_WEBP);
+        imagedestroy($versao);
+
+        if (!$gravou) {
+            imagedestroy($original);
+            throw new RuntimeException('Não foi possível gravar a imagem');
+        }
+
+        $variantes[] = [
+            'nome' => $nome,
+            'url' => UPLOADS_URL . "/$subpasta/$nomeArquivo",
+            'largura' => $largura,
+            'altura' => $altura
+        ];
+    }
+
+    imagedestroy($original);
+
+    return [
+        'url' => end($variantes)['url'],
+        'variantes' => $variantes,
+        'largura' => $larguraOriginal,
+        'altura' => $alturaOriginal
+    ];
+}
+
+/**
+ * Fotos de celular chegam deitadas com a orientação só no EXIF
+ */
+function corrigirOrientacaoImagem($imagem, string $caminho) {
+    if (!function_exists('exif_read_data')) {
+        return $imagem;
+    }
+
+    $exif = @exif_read_data($caminho);
+    $angulos = [3 => 180, 6 => -90, 8 => 90];
+    $angulo = $angulos[(int)($exif['Orientation'] ?? 1)] ?? 0;
+    if ($angulo === 0) {
+        return $imagem;
+    }
+
+    $girada = imagerotate($imagem, $angulo, 0);
+    if (!$girada) {
+        return $imagem;
+    }
+    imagedestroy($imagem);
+    return $girada;
+}
+
+/**
+ * Lista de versões gravada em produto_imagens.variantes; vazia para imagens
+ * cadastradas por URL antes do upload
+ */
+function lerVariantesImagem(?string $json): array {
+    if (!$json) {
+        return [];
+    }
+    $variantes = json_decode($json, true);
+    return is_array($variantes) ? $variantes : [];
+}
+
+/**
+ * Imagem no formato da vitrine: url e versões com a largura para o srcset
+ */
+function imagemParaVitrine(array $imagem): array {
+    $variantes = [];
+    foreach (lerVariantesImagem($imagem['variantes'] ?? null) as $variante) {
+        $variantes[] = [
+            'name' => $variante['nome'],
+            'url' => $variante['url'],
+            'width' => (int)$variante['largura']
+        ];
+    }
+
+    return ['url' => $imagem['url'], 'variants' => $variantes];
+}
+?>
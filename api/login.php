@@ -16,6 +16,7 @@ if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
 }
 
 require_once 'conexao.php';
+require_once 'auth.php';
 
 // Apenas POST é permitido
 if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
@@ -50,7 +51,7 @@ if (!filter_var($email, FILTER_VALIDATE_EMAIL)) {
 }
 
 // Buscar usuário
-$stmt = $conexao->prepare("SELECT id, nome, email, senha, tipo FROM usuarios WHERE email = ? AND ativo = 1");
+$stmt = $conexao->prepare("SELECT id, nome, email, senha, telefone, cpf, tipo, papel, token_versao, email_verificado FROM usuarios WHERE email = ? AND ativo = 1");
 $stmt->bind_param("s", $email);
 $stmt->execute();
 $result = $stmt->get_result();
@@ -74,21 +75,15 @@ if (!password_verify($senha, $usuario['senha'])) {
     exit();
 }
 
-// Gerar token
-$token = base64_encode($usuario['id'] . ':' . time());
+// Gerar tokens de acesso e renovação (auth.php)
+$tokens = gerarTokensUsuario($usuario);
 
 // Retornar dados do usuário
 echo json_encode([
     'success' => true,
     'message' => 'Login realizado com sucesso',
-    'data' => [
-        'token' => $token,
-        'usuario' => [
-            'id' => $usuario['id'],
-            'nome' => $usuario['nome'],
-            'email' => $usuario['email'],
-            'tipo' => $usuario['tipo']
-        ]
+    'data' => $tokens + [
+        'usuario' => dadosUsuarioSessao($usuario)
     ]
 ]);
 ?>
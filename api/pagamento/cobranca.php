@@ -0,0 +1,196 @@
+<?php
+/**
+ * API de Cobranças
+ *
+ * POST /api/pagamento/cobranca.php                   - Criar cobrança para um pedido { numero, email, cartao? }
+ * GET  /api/pagamento/cobranca.php?numero=X&email=Y  - Consultar status do pagamento do pedido
+ * GET  /api/pagamento/cobranca.php?disponivel=1      - Há provedor ativo? O checkout consulta antes de criar o pedido
+ *
+ * Como em pedidos.php, o pedido só é encontrado com o email da compra ou o
+ * token do cliente que o fez (pedido_acesso.php); sem isso responde 404.
+ *
+ * No cartão a cobrança consome o token gravado no pedido. Uma recusa do
+ * emissor cancela o pedido (processarNotificacao); se a cobrança falhou antes
+ * disso, o cliente tenta de novo no mesmo pedido enviando outro cartão
+ * tokenizado em { cartao: { token, bandeira, final } }. Quando o emissor pede
+ * 3DS a cobrança fica pendente com requer_autenticacao = 1.
+ *
+ * No boleto a cobrança traz linha_digitavel, codigo_barras e vencimento; a
+ * baixa chega pelo webhook (cobranca.paga) ou pelo admin ao marcar o pedido
+ * como pago.
+ */
+
+require_once 'config.php';
+require_once __DIR__ . '/../cartao.php';
+require_once __DIR__ . '/../pedido_acesso.php';
+require_once __DIR__ . '/../auth.php';
+
+try {
+    switch ($_SERVER['REQUEST_METHOD']) {
+        case 'GET':
+            if (isset($_GET['disponivel'])) {
+                responderSucesso(['disponivel' => pagamentoDisponivel()]);
+            }
+            consultarPagamento($conexao);
+            break;
+        case 'POST':
+            criarCobranca($conexao);
+            break;
+        default:
+            responderErro('Método não permitido', 405);
+    }
+} catch (PagamentoIndisponivelException $e) {
+    responderErro($e->getMessage(), $e->getCode());
+} catch (Throwable $e) {
+    responderErro($e->getMessage(), 500);
+}
+
+function buscarPedidoPorNumero($conexao, string $numero, string $email): ?array {
+    $cliente = autenticarCliente($conexao, false);
+    return buscarPedidoDoCliente($conexao, $numero, $email, $cliente ? (int)$cliente['id'] : null);
+}
+
+function buscarUltimoPagamento($conexao, int $pedidoId): ?array {
+    $stmt = $conexao->prepare("SELECT referencia, provedor, metodo, valor, status, motivo_recusa, requer_autenticacao, autenticacao_url,
+        linha_digitavel, codigo_barras, nosso_numero, vencimento, expira_em, pago_em
+        FROM pagamentos WHERE pedido_id = ? ORDER BY id DESC LIMIT 1");
+    $stmt->bind_param('i', $pedidoId);
+    $stmt->execute();
+    $pagamento = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    if ($pagamento) {
+        $pagamento['valor'] = (float)$pagamento['valor'];
+        $pagamento['requer_autenticacao'] = (bool)$pagamento['requer_autenticacao'];
+    }
+    return $pagamento ?: null;
+}
+
+function consultarPagamento($conexao) {
+    $numero = trim($_GET['numero'] ?? '');
+    if ($numero === '') {
+        responderErro('Número do pedido é obrigatório');
+    }
+
+    $pedido = buscarPedidoPorNumero($conexao, $numero, trim($_GET['email'] ?? ''));
+    if (!$pedido) {
+        responderErro('Pedido não encontrado', 404);
+    }
+
+    responderSucesso([
+        'numero' => $pedido['numero'],
+        'status' => $pedido['status'],
+        'pagamento' => buscarUltimoPagamento($conexao, (int)$pedido['id'])
+    ]);
+}
+
+function criarCobranca($conexao) {
+    $input = json_decode(file_get_contents('php://input'), true);
+    $numero = trim($input['numero'] ?? '');
+
+    if ($numero === '') {
+        responderErro('Número do pedido é obrigatório');
+    }
+
+    // Pedido com a reserva vencida é cancelado antes, e não cobrado
+    expirarReservasVencidas($conexao);
+
+    $pedido = buscarPedidoPorNumero($conexao, $numero, trim((string)($input['email'] ?? '')));
+    if (!$pedido) {
+        responderErro('Pedido não encontrado', 404);
+    }
+
+    if ($pedido['status'] !== 'aguardando_pagamento') {
+        responderErro('Pedido não está aguardando pagamento', 409);
+    }
+
+    // Sem provedor configurado nada é cobrado (nem o cartão trocado)
+    $provedor = obterProvedorPagamento($conexao);
+    $pedidoId = (int)$pedido['id'];
+
+    // Reaproveitar cobrança pendente já criada para o pedido
+    $existente = buscarUltimoPagamento($conexao, $pedidoId);
+    if ($existente && $existente['status'] === 'pendente') {
+        responderSucesso($existente);
+    }
+
+    $metodo = $pedido['forma_pagamento'];
+
+    // Nova tentativa no cartão com outro cartão tokenizado
+    if ($metodo === 'cartao' && isset($input['cartao'])) {
+        try {
+            $cartao = normalizarCartaoToken($input['cartao']);
+        } catch (InvalidArgumentException $e) {
+            responderErro($e->getMessage());
+        }
+
+        $stmt = $conexao->prepare("UPDATE pedidos SET cartao_token = ?, cartao_bandeira = ?, cartao_final = ? WHERE id = ?");
+        $stmt->bind_param('sssi', $cartao['token'], $cartao['bandeira'], $cartao['final'], $pedidoId);
+        $stmt->execute();
+        $stmt->close();
+
+        $pedido['cartao_token'] = $cartao['token'];
+    }
+
+    if ($metodo === 'cartao' && empty($pedido['cartao_token'])) {
+        responderErro('Informe os dados do cartão', 422);
+    }
+
+    $cobranca = $provedor->criarCobranca($pedido, $metodo);
+
+    // Token de uso único: não fica guardado depois da tentativa
+    if ($metodo === 'cartao') {
+        $stmt = $conexao->prepare("UPDATE pedidos SET cartao_token = NULL WHERE id = ?");
+        $stmt->bind_param('i', $pedidoId);
+        $stmt->execute();
+        $stmt->close();
+    }
+
+    $provedorNome = $provedor->nome();
+    $referencia = $cobranca['referencia'];
+    $valor = number_format((float)$pedido['total'], 2, '.', '');
+    $expiraEm = $cobranca['expira_em'] ?? null;
+    $dados = json_encode($cobranca['dados'] ?? [], JSON_UNESCAPED_UNICODE);
+
+    // Boleto: linha digitável e código de barras devolvidos pelo provedor
+    $boleto = $cobranca['boleto'] ?? null;
+    $linhaDigitavel = $boleto['linha_digitavel'] ?? null;
+    $codigoBarras = $boleto['codigo_barras'] ?? null;
+    $nossoNumero = $boleto['nosso_numero'] ?? null;
+    $vencimento = $boleto['vencimento'] ?? null;
+
+    $stmt = $conexao->prepare("INSERT INTO pagamentos (pedido_id, provedor, referencia, metodo, valor, status, linha_digitavel, codigo_barras, nosso_numero, vencimento, expira_em, dados)
+        VALUES (?, ?, ?, ?, ?, 'pendente', ?, ?, ?, ?, ?, ?)");
+    $stmt->bind_param('issssssssss', $pedidoId, $provedorNome, $referencia, $metodo, $valor, $linhaDigitavel, $codigoBarras, $nossoNumero, $vencimento, $expiraEm, $dados);
+
+    if (!$stmt->execute()) {
+        throw new Exception('Erro ao registrar cobrança: ' . $stmt->error);
+    }
+    $stmt->close();
+
+    $autorizacao = $cobranca['autorizacao'] ?? null;
+
+    // Emissor pediu autenticação (3DS): o pagamento segue pendente até o desafio
+    if ($autorizacao && $autorizacao['resultado'] === 'autenticacao') {
+        $autenticacaoUrl = $autorizacao['autenticacao_url'] ?? null;
+        $stmt = $conexao->prepare("UPDATE pagamentos SET requer_autenticacao = 1, autenticacao_url = ? WHERE provedor = ? AND referencia = ?");
+        $stmt->bind_param('sss', $autenticacaoUrl, $provedorNome, $referencia);
+        $stmt->execute();
+        $stmt->close();
+    }
+
+    // O provedor fake simula a notificação do gateway com o resultado da autorização
+    if ($provedor instanceof ProvedorFake && $autorizacao && $autorizacao['resultado'] !== 'autenticacao') {
+        $aprovada = $autorizacao['resultado'] === 'aprovada';
+        $provedor->emitirNotificacao($conexao, [
+            'evento_id' => 'evt_' . bin2hex(random_bytes(10)),
+            'tipo' => $aprovada ? 'cobranca.paga' : 'cobranca.recusada',
+            'referencia' => $referencia,
+            'valor' => (float)$valor,
+            'motivo' => $aprovada ? null : $autorizacao['motivo']
+        ]);
+    }
+
+    responderSucesso(buscarUltimoPagamento($conexao, $pedidoId), 'Cobrança criada');
+}
+?>
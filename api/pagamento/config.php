@@ -0,0 +1,59 @@
+<?php
+/**
+ * Configurações dos endpoints de pagamento
+ * Reutiliza a conexão existente do conexao.php
+ */
+
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: GET, POST, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization, X-Pagamento-Assinatura, X-Pagamento-Timestamp');
+header('Content-Type: application/json; charset=utf-8');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit();
+}
+
+require_once __DIR__ . '/../conexao.php';
+require_once __DIR__ . '/../pedido_status.php';
+require_once __DIR__ . '/../estoque.php';
+
+// Provedor ativo, sem padrão: vazio recusa cobranças e notificações
+define('PAGAMENTO_PROVEDOR', getenv('PAGAMENTO_PROVEDOR') ?: '');
+
+// Segredo compartilhado com o provedor para assinar as notificações (sem padrão)
+define('PAGAMENTO_WEBHOOK_SEGREDO', getenv('PAGAMENTO_WEBHOOK_SEGREDO') ?: '');
+define('PAGAMENTO_WEBHOOK_SEGREDO_MINIMO', 32);
+
+// Libera o provedor 'fake' e o simulador fake.php (somente desenvolvimento)
+define('PAGAMENTO_FAKE_HABILITADO', getenv('PAGAMENTO_FAKE_HABILITADO') === '1');
+
+// Tolerância (segundos) entre o timestamp assinado e o horário do servidor
+define('PAGAMENTO_WEBHOOK_TOLERANCIA', 300);
+
+require_once __DIR__ . '/provedores.php';
+
+/**
+ * Resposta de sucesso
+ */
+function responderSucesso($data, $mensagem = null) {
+    $response = ['success' => true, 'data' => $data];
+    if ($mensagem) {
+        $response['message'] = $mensagem;
+    }
+    echo json_encode($response, JSON_UNESCAPED_UNICODE);
+    exit();
+}
+
+/**
+ * Resposta de erro
+ */
+function responderErro($mensagem, $codigo = 400) {
+    http_response_code($codigo);
+    echo json_encode([
+        'success' => false,
+        'error' => $mensagem
+    ], JSON_UNESCAPED_UNICODE);
+    exit();
+}
+?>
@@ -0,0 +1,106 @@
+<?php
+/**
+ * Provedor de pagamento fake (somente desenvolvimento)
+ *
+ * Responde apenas com PAGAMENTO_PROVEDOR=fake e PAGAMENTO_FAKE_HABILITADO=1.
+ * O dono do pedido (sessão ou email da compra) simula as cobranças do próprio
+ * pedido, como no desafio 3DS; a equipe com pedidos.editar simula qualquer uma.
+ *
+ * POST /api/pagamento/fake.php { referencia, numero, email?, tipo? } - Emite uma notificação assinada
+ *      tipo: cobranca.paga (padrão) | cobranca.expirada | cobranca.recusada
+ *      motivo: motivo da recusa (ex.: autenticacao_falhou ao recusar o desafio 3DS)
+ *      valor: valor notificado, diferente do cobrado (somente equipe)
+ * POST /api/pagamento/fake.php { evento_id } - Reenvia um evento já registrado (somente equipe)
+ *
+ * As notificações passam pelo mesmo fluxo de verificação do webhook.
+ */
+
+require_once 'config.php';
+require_once __DIR__ . '/../auth.php';
+require_once __DIR__ . '/../permissoes.php';
+require_once __DIR__ . '/../pedido_acesso.php';
+
+if (PAGAMENTO_PROVEDOR !== 'fake' || !PAGAMENTO_FAKE_HABILITADO) {
+    responderErro('Provedor fake desabilitado', 404);
+}
+
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    responderErro('Método não permitido', 405);
+}
+
+$usuario = autenticarCliente($conexao, false);
+$equipe = $usuario !== null && temPermissao($usuario, 'pedidos.editar');
+
+$input = json_decode(file_get_contents('php://input'), true) ?: [];
+
+try {
+    $provedor = obterProvedorPagamento($conexao);
+
+    // Reenvio de um evento registrado
+    if (!empty($input['evento_id'])) {
+        if (!$equipe) {
+            responderErro('Reenvio restrito à equipe', 403);
+        }
+
+        $eventoId = (string)$input['evento_id'];
+        $stmt = $conexao->prepare("SELECT payload FROM pagamento_eventos WHERE provedor = 'fake' AND evento_id = ? LIMIT 1");
+        $stmt->bind_param('s', $eventoId);
+        $stmt->execute();
+        $registro = $stmt->get_result()->fetch_assoc();
+        $stmt->close();
+
+        if (!$registro) {
+            responderErro('Evento não encontrado', 404);
+        }
+
+        responderSucesso($provedor->emitirNotificacao($conexao, json_decode($registro['payload'], true)), 'Evento reenviado');
+    }
+
+    $referencia = trim($input['referencia'] ?? '');
+    if ($referencia === '') {
+        responderErro('Referência da cobrança é obrigatória');
+    }
+
+    $tipo = $input['tipo'] ?? 'cobranca.paga';
+    if (!in_array($tipo, ['cobranca.paga', 'cobranca.expirada', 'cobranca.recusada'], true)) {
+        responderErro('Tipo de evento inválido');
+    }
+
+    $stmt = $conexao->prepare("SELECT pedido_id, valor FROM pagamentos WHERE provedor = 'fake' AND referencia = ? LIMIT 1");
+    $stmt->bind_param('s', $referencia);
+    $stmt->execute();
+    $pagamento = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    if (!$pagamento) {
+        responderErro('Cobrança não encontrada', 404);
+    }
+
+    // Fora da equipe, só cobranças do próprio pedido
+    if (!$equipe) {
+        $pedido = buscarPedidoDoCliente(
+            $conexao,
+            trim((string)($input['numero'] ?? '')),
+            trim((string)($input['email'] ?? '')),
+            $usuario ? (int)$usuario['id'] : null
+        );
+
+        if (!$pedido || (int)$pedido['id'] !== (int)$pagamento['pedido_id']) {
+            responderErro('Cobrança não encontrada', 404);
+        }
+    }
+
+    responderSucesso($provedor->emitirNotificacao($conexao, [
+        'evento_id' => 'evt_' . bin2hex(random_bytes(10)),
+        'tipo' => $tipo,
+        'referencia' => $referencia,
+        'valor' => $equipe && isset($input['valor']) ? (float)$input['valor'] : (float)$pagamento['valor'],
+        'motivo' => isset($input['motivo']) ? (string)$input['motivo'] : null
+    ]), 'Notificação emitida');
+
+} catch (NotificacaoInvalidaException | PagamentoIndisponivelException $e) {
+    responderErro($e->getMessage(), $e->getCode());
+} catch (Throwable $e) {
+    responderErro($e->getMessage(), 500);
+}
+?>
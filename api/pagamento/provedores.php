@@ -0,0 +1,305 @@
+<?php
+/**
+ * Abstração de provedores de pagamento
+ *
+ * Cada provedor sabe criar uma cobrança para um pedido e verificar a
+ * autenticidade das notificações que envia ao webhook. Apenas eventos
+ * verificados alteram o status de um pedido.
+ */
+
+interface ProvedorPagamento {
+    /**
+     * Nome gravado em pagamentos.provedor
+     */
+    public function nome(): string;
+
+    /**
+     * Cria a cobrança no provedor
+     * Retorna ['referencia' => string, 'expira_em' => ?string, 'dados' => array]
+     *
+     * No cartão, $pedido traz cartao_token e o retorno inclui
+     * 'autorizacao' => ['resultado' => 'aprovada'|'recusada'|'autenticacao',
+     * 'motivo' => ?string, 'autenticacao_url' => ?string]
+     *
+     * No boleto o retorno inclui 'boleto' => ['codigo_barras', 'linha_digitavel',
+     * 'nosso_numero', 'vencimento']
+     */
+    public function criarCobranca(array $pedido, string $metodo): array;
+
+    /**
+     * Verifica a assinatura da notificação e retorna o evento decodificado,
+     * ou null se a notificação não for autêntica
+     */
+    public function verificarNotificacao(array $headers, string $corpo): ?array;
+}
+
+/**
+ * Provedor local para desenvolvimento
+ * Assina as notificações com HMAC-SHA256 usando PAGAMENTO_WEBHOOK_SEGREDO
+ */
+class ProvedorFake implements ProvedorPagamento {
+    private $conexao;
+
+    public function __construct($conexao) {
+        $this->conexao = $conexao;
+    }
+
+    public function nome(): string {
+        return 'fake';
+    }
+
+    public function criarCobranca(array $pedido, string $metodo): array {
+        $cobranca = [
+            'referencia' => 'fake_' . bin2hex(random_bytes(10)),
+            'expira_em' => date('Y-m-d H:i:s', time() + 3600),
+            'dados' => ['metodo' => $metodo, 'numero' => $pedido['numero']]
+        ];
+
+        if ($metodo === 'cartao') {
+            $cobranca['autorizacao'] = $this->autorizarCartao((string)($pedido['cartao_token'] ?? ''));
+        }
+
+        // Boleto emitido localmente com o convênio configurado
+        if ($metodo === 'boleto') {
+            $config = obterConfigBoleto($this->conexao);
+            $cobranca['boleto'] = gerarBoleto($config, (int)$pedido['id'], (float)$pedido['total'], calcularVencimentoBoleto($config));
+            $cobranca['expira_em'] = calcularExpiracaoBoleto($config);
+        }
+
+        return $cobranca;
+    }
+
+    /**
+     * Simula a resposta do emissor pelo cenário gravado no token
+     * (cartões de teste em src/services/cartaoGateway.ts)
+     * Só roda com PAGAMENTO_FAKE_HABILITADO, ver obterProvedorPagamento
+     */
+    private function autorizarCartao(string $token): array {
+        $cenario = preg_match('/^tok_fake_([a-z_]+)_[0-9a-f]+$/', $token, $m) ? $m[1] : 'cartao_recusado';
+
+        if ($cenario === 'aprovado') {
+            return ['resultado' => 'aprovada', 'motivo' => null, 'autenticacao_url' => null];
+        }
+
+        // 3DS: o desafio é simulado no navegador e concluído via fake.php
+        if ($cenario === 'autenticacao') {
+            return ['resultado' => 'autenticacao', 'motivo' => null, 'autenticacao_url' => null];
+        }
+
+        return ['resultado' => 'recusada', 'motivo' => $cenario, 'autenticacao_url' => null];
+    }
+
+    public function verificarNotificacao(array $headers, string $corpo): ?array {
+        $headers = array_change_key_case($headers, CASE_LOWER);
+        $assinatura = $headers['x-pagamento-assinatura'] ?? '';
+        $timestamp = $headers['x-pagamento-timestamp'] ?? '';
+
+        if ($assinatura === '' || !ctype_digit((string)$timestamp)) {
+            return null;
+        }
+
+        if (abs(time() - (int)$timestamp) > PAGAMENTO_WEBHOOK_TOLERANCIA) {
+            return null;
+        }
+
+        $esperada = 'sha256=' . hash_hmac('sha256', $timestamp . '.' . $corpo, PAGAMENTO_WEBHOOK_SEGREDO);
+        if (!hash_equals($esperada, $assinatura)) {
+            return null;
+        }
+
+        $evento = json_decode($corpo, true);
+        if (!is_array($evento) || empty($evento['evento_id']) || empty($evento['tipo']) || empty($evento['referencia'])) {
+            return null;
+        }
+
+        return $evento;
+    }
+
+    /**
+     * Gera os cabeçalhos assinados de uma notificação
+     */
+    public function assinar(string $corpo): array {
+        $timestamp = (string)time();
+        return [
+            'X-Pagamento-Timestamp' => $timestamp,
+            'X-Pagamento-Assinatura' => 'sha256=' . hash_hmac('sha256', $timestamp . '.' . $corpo, PAGAMENTO_WEBHOOK_SEGREDO)
+        ];
+    }
+
+    /**
+     * Emite uma notificação assinada e a entrega ao mesmo fluxo do webhook
+     */
+    public function emitirNotificacao($conexao, array $evento): array {
+        $corpo = json_encode($evento, JSON_UNESCAPED_UNICODE);
+        return processarNotificacao($conexao, $this, $this->assinar($corpo), $corpo);
+    }
+}
+
+/**
+ * Há provedor conhecido, com segredo de webhook, para cobrar agora
+ * O checkout consulta antes de registrar o pedido (cobranca.php?disponivel=1)
+ */
+function pagamentoDisponivel(): bool {
+    if (PAGAMENTO_PROVEDOR === '' || strlen(PAGAMENTO_WEBHOOK_SEGREDO) < PAGAMENTO_WEBHOOK_SEGREDO_MINIMO) {
+        return false;
+    }
+
+    // Cada provedor novo entra aqui e em obterProvedorPagamento()
+    switch (PAGAMENTO_PROVEDOR) {
+        case 'fake':
+            return PAGAMENTO_FAKE_HABILITADO;
+        default:
+            return false;
+    }
+}
+
+/**
+ * Retorna o provedor configurado em PAGAMENTO_PROVEDOR
+ *
+ * Sem provedor ou sem segredo de webhook nenhuma cobrança é criada e nenhuma
+ * notificação é aceita; o 'fake' ainda exige PAGAMENTO_FAKE_HABILITADO.
+ */
+function obterProvedorPagamento($conexao): ProvedorPagamento {
+    if (!pagamentoDisponivel()) {
+        throw new PagamentoIndisponivelException('Pagamentos não configurados');
+    }
+
+    switch (PAGAMENTO_PROVEDOR) {
+        case 'fake':
+            return new ProvedorFake($conexao);
+        default:
+            throw new PagamentoIndisponivelException('Provedor de pagamento desconhecido: ' . PAGAMENTO_PROVEDOR);
+    }
+}
+
+/**
+ * Valida, registra e aplica uma notificação do provedor
+ *
+ * Eventos repetidos (mesmo evento_id) são ignorados, então o provedor pode
+ * reenviar a mesma notificação sem efeitos colaterais.
+ * Retorna ['evento_id' => string, 'duplicado' => bool, 'pedido_status' => ?string]
+ */
+function processarNotificacao($conexao, ProvedorPagamento $provedor, array $headers, string $corpo): array {
+    $evento = $provedor->verificarNotificacao($headers, $corpo);
+    if ($evento === null) {
+        throw new NotificacaoInvalidaException('Assinatura da notificação inválida');
+    }
+
+    $provedorNome = $provedor->nome();
+    $eventoId = (string)$evento['evento_id'];
+    $tipo = (string)$evento['tipo'];
+    $referencia = (string)$evento['referencia'];
+
+    $conexao->begin_transaction();
+
+    try {
+        $stmt = $conexao->prepare("SELECT id, pedido_id, valor, status FROM pagamentos WHERE provedor = ? AND referencia = ? FOR UPDATE");
+        $stmt->bind_param('ss', $provedorNome, $referencia);
+        $stmt->execute();
+        $pagamento = $stmt->get_result()->fetch_assoc();
+        $stmt->close();
+
+        if (!$pagamento) {
+            throw new NotificacaoInvalidaException('Cobrança não encontrada', 404);
+        }
+
+        // Registrar o evento (idempotência por provedor + evento_id)
+        $pagamentoId = (int)$pagamento['id'];
+        $stmt = $conexao->prepare("INSERT IGNORE INTO pagamento_eventos (pagamento_id, provedor, evento_id, tipo, payload) VALUES (?, ?, ?, ?, ?)");
+        $stmt->bind_param('issss', $pagamentoId, $provedorNome, $eventoId, $tipo, $corpo);
+        $stmt->execute();
+        $novo = $stmt->affected_rows > 0;
+        $stmt->close();
+
+        if (!$novo) {
+            $conexao->commit();
+            return ['evento_id' => $eventoId, 'duplicado' => true, 'pedido_status' => null];
+        }
+
+        $pedidoId = (int)$pagamento['pedido_id'];
+        $pedidoStatus = null;
+
+        switch ($tipo) {
+            case 'cobranca.paga':
+                $valorPago = round((float)($evento['valor'] ?? 0), 2);
+                if ($valorPago !== round((float)$pagamento['valor'], 2)) {
+                    throw new NotificacaoInvalidaException('Valor pago não confere com a cobrança', 422);
+                }
+
+                $stmt = $conexao->prepare("UPDATE pagamentos SET status = 'pago', requer_autenticacao = 0, pago_em = NOW() WHERE id = ?");
+                $stmt->bind_param('i', $pagamentoId);
+                $stmt->execute();
+                $stmt->close();
+
+                // Somente pedidos aguardando pagamento passam para "pago"
+                $stmt = $conexao->prepare("UPDATE pedidos SET status = 'pago', updated_at = NOW() WHERE id = ? AND status = 'aguardando_pagamento'");
+                $stmt->bind_param('i', $pedidoId);
+                $stmt->execute();
+                if ($stmt->affected_rows > 0) {
+                    $pedidoStatus = 'pago';
+                }
+                $stmt->close();
+
+                if ($pedidoStatus !== null) {
+                    confirmarReservasPedido($conexao, $pedidoId);
+                    registrarHistoricoPedido($conexao, $pedidoId, 'aguardando_pagamento', 'pago', 'sistema', null, null, 'Pagamento confirmado pelo provedor');
+                }
+                break;
+
+            case 'cobranca.expirada':
+            case 'cobranca.recusada':
+                $novoStatus = $tipo === 'cobranca.expirada' ? 'expirado' : 'recusado';
+                $motivo = $tipo === 'cobranca.recusada' ? (string)($evento['motivo'] ?? 'cartao_recusado') : null;
+                $stmt = $conexao->prepare("UPDATE pagamentos SET status = ?, motivo_recusa = ?, requer_autenticacao = 0 WHERE id = ? AND status = 'pendente'");
+                $stmt->bind_param('ssi', $novoStatus, $motivo, $pagamentoId);
+                $stmt->execute();
+                $alterado = $stmt->affected_rows > 0;
+                $stmt->close();
+
+                // Cartão recusado: o pedido é cancelado e o estoque volta na hora,
+                // sem esperar o prazo da reserva; a nova tentativa é outro pedido
+                if ($tipo === 'cobranca.recusada' && $alterado) {
+                    $stmt = $conexao->prepare("UPDATE pedidos SET status = 'cancelado', updated_at = NOW() WHERE id = ? AND status = 'aguardando_pagamento'");
+                    $stmt->bind_param('i', $pedidoId);
+                    $stmt->execute();
+                    if ($stmt->affected_rows > 0) {
+                        $pedidoStatus = 'cancelado';
+                    }
+                    $stmt->close();
+
+                    if ($pedidoStatus !== null) {
+                        liberarReservasPedido($conexao, $pedidoId);
+                        liberarUsoCupom($conexao, $pedidoId);
+                        registrarHistoricoPedido($conexao, $pedidoId, 'aguardando_pagamento', 'cancelado', 'sistema', null, null, 'Pagamento recusado pelo emissor');
+                    }
+                }
+                break;
+        }
+
+        $conexao->commit();
+        return ['evento_id' => $eventoId, 'duplicado' => false, 'pedido_status' => $pedidoStatus];
+
+    } catch (Throwable $e) {
+        $conexao->rollback();
+        throw $e;
+    }
+}
+
+/**
+ * Pagamentos fora do ar por configuração (provedor ou segredo ausentes)
+ */
+class PagamentoIndisponivelException extends Exception {
+    public function __construct(string $mensagem) {
+        parent::__construct($mensagem, 503);
+    }
+}
+
+/**
+ * Erro de notificação rejeitada (assinatura, cobrança ou valor inválidos)
+ */
+class NotificacaoInvalidaException extends Exception {
+    public function __construct(string $mensagem, int $codigo = 401) {
+        parent::__construct($mensagem, $codigo);
+    }
+}
+?>
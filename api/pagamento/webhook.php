@@ -0,0 +1,31 @@
+<?php
+/**
+ * Webhook de notificações do provedor de pagamento
+ * POST /api/pagamento/webhook.php
+ *
+ * A notificação precisa estar assinada pelo provedor. Apenas eventos
+ * verificados movem um pedido de "aguardando_pagamento" para "pago".
+ */
+
+require_once 'config.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    responderErro('Método não permitido', 405);
+}
+
+$corpo = file_get_contents('php://input');
+
+try {
+    $resultado = processarNotificacao($conexao, obterProvedorPagamento($conexao), getallheaders(), $corpo);
+
+    // Aproveita a notificação para cancelar os pedidos com reserva vencida
+    expirarReservasVencidas($conexao);
+
+    $conexao->close();
+    responderSucesso($resultado, $resultado['duplicado'] ? 'Evento já processado' : 'Evento processado');
+} catch (NotificacaoInvalidaException | PagamentoIndisponivelException $e) {
+    responderErro($e->getMessage(), $e->getCode());
+} catch (Throwable $e) {
+    responderErro('Erro ao processar notificação', 500);
+}
+?>
@@ -0,0 +1,114 @@
+<?php
+/**
+ * Parcelamento no cartão
+ *
+ * Até parcelas_sem_juros o valor é dividido sem acréscimo. Acima disso a
+ * parcela segue a tabela Price com a taxa mensal de juros_parcelamento
+ * (JSON { "parcelas": taxa % a.m. }); parcelas sem taxa na tabela usam a da
+ * maior quantidade cadastrada abaixo delas.
+ *
+ * Espelho de src/lib/parcelamento.ts: as duas contas precisam dar o mesmo
+ * valor, senão o pedido é recusado com total_divergente. Por isso o
+ * arredondamento não usa round(): arredondarCentavos() faz as mesmas
+ * operações que o round2 do site.
+ */
+
+const PARCELAS_MAXIMO_PADRAO = 12;
+const PARCELAS_SEM_JUROS_PADRAO = 3;
+const JUROS_MENSAL_PADRAO = 1.99;
+
+/**
+ * Arredonda para centavos, metade para longe do zero
+ * O épsilon corrige valores como 1,005, guardados como 1,00499999...
+ */
+function arredondarCentavos(float $valor): float {
+    $centavos = floor(abs($valor) * 100 * (1 + PHP_FLOAT_EPSILON) + 0.5);
+    return ($valor < 0 ? -$centavos : $centavos) / 100;
+}
+
+function obterConfigParcelamento($conexao): array {
+    $config = [
+        'maximo' => PARCELAS_MAXIMO_PADRAO,
+        'sem_juros' => PARCELAS_SEM_JUROS_PADRAO,
+        'taxas' => []
+    ];
+
+    $result = $conexao->query("SELECT chave, valor FROM configuracoes WHERE chave IN ('parcelas_maximo', 'parcelas_sem_juros', 'juros_parcelamento')");
+    while ($row = $result->fetch_assoc()) {
+        if ($row['chave'] === 'parcelas_maximo' && (int)$row['valor'] > 0) {
+            $config['maximo'] = (int)$row['valor'];
+        } elseif ($row['chave'] === 'parcelas_sem_juros' && (int)$row['valor'] > 0) {
+            $config['sem_juros'] = (int)$row['valor'];
+        } elseif ($row['chave'] === 'juros_parcelamento') {
+            $taxas = json_decode((string)$row['valor'], true);
+            if (is_array($taxas)) {
+                foreach ($taxas as $parcelas => $taxa) {
+                    $config['taxas'][(int)$parcelas] = (float)$taxa;
+                }
+            }
+        }
+    }
+
+    $config['sem_juros'] = min($config['sem_juros'], $config['maximo']);
+    return $config;
+}
+
+function taxaMensalParcelamento(int $parcelas, array $config): float {
+    if ($parcelas <= $config['sem_juros']) {
+        return 0.0;
+    }
+
+    $taxa = JUROS_MENSAL_PADRAO;
+    $maiorAbaixo = 0;
+    foreach ($config['taxas'] as $quantidade => $valor) {
+        if ($quantidade <= $parcelas && $quantidade > $maiorAbaixo) {
+            $maiorAbaixo = $quantidade;
+            $taxa = $valor;
+        }
+    }
+
+    return $taxa;
+}
+
+/**
+ * Plano de $parcelas vezes para $valor
+ * Retorna ['parcelas', 'valor_parcela', 'total', 'juros', 'taxa_mensal', 'sem_juros']
+ */
+function calcularPlanoParcelamento(float $valor, int $parcelas, array $config): array {
+    if ($parcelas < 1 || $parcelas > $config['maximo']) {
+        throw new InvalidArgumentException('Parcelamento disponível em até ' . $config['maximo'] . 'x');
+    }
+
+    $taxa = taxaMensalParcelamento($parcelas, $config);
+
+    if ($taxa <= 0) {
+        $valorParcela = arredondarCentavos($valor / $parcelas);
+        $total = arredondarCentavos($valor);
+    } else {
+        $i = $taxa / 100;
+        $valorParcela = arredondarCentavos($valor * $i / (1 - pow(1 + $i, -$parcelas)));
+        $total = arredondarCentavos($valorParcela * $parcelas);
+    }
+
+    return [
+        'parcelas' => $parcelas,
+        'valor_parcela' => $valorParcela,
+        'total' => $total,
+        'juros' => arredondarCentavos($total - $valor),
+        'taxa_mensal' => $taxa,
+        'sem_juros' => $taxa <= 0
+    ];
+}
+
+/**
+ * Acrescenta ao resultado de calcularPrecosCarrinho() o plano escolhido e os juros no total
+ */
+function aplicarParcelamento(array $precos, int $parcelas, array $config): array {
+    $plano = calcularPlanoParcelamento($precos['total'], $parcelas, $config);
+
+    $precos['parcelamento'] = $plano;
+    $precos['total'] = $plano['total'];
+
+    return $precos;
+}
+?>
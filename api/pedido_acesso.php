@@ -0,0 +1,137 @@
+<?php
+/**
+ * Prova de posse para consultar pedidos sem login
+ *
+ * Um pedido só é exibido com o número e o email usado na compra, ou ao
+ * cliente logado que o fez (auth.php). Para listar todos os pedidos de um
+ * email, o cliente recebe nesse email um código de 6 dígitos de uso único,
+ * válido por codigo_acesso_minutos. O banco guarda apenas o hash; após
+ * CODIGO_ACESSO_MAX_TENTATIVAS erros o código deixa de valer e um novo só
+ * pode ser pedido depois de CODIGO_ACESSO_INTERVALO_SEGUNDOS.
+ */
+
+const CODIGO_ACESSO_MINUTOS_PADRAO = 15;
+const CODIGO_ACESSO_MAX_TENTATIVAS = 5;
+const CODIGO_ACESSO_INTERVALO_SEGUNDOS = 60;
+
+function normalizarEmailPedido($email): string {
+    return strtolower(trim((string)$email));
+}
+
+function hashCodigoAcesso(string $email, string $codigo): string {
+    return hash('sha256', normalizarEmailPedido($email) . '|' . $codigo);
+}
+
+/**
+ * Busca o pedido pelo número conferindo o email da compra ou o cliente logado
+ * que fez o pedido. Sem nenhum dos dois responde como pedido inexistente
+ */
+function buscarPedidoDoCliente($conexao, string $numero, string $email, ?int $usuarioId = null): ?array {
+    $stmt = $conexao->prepare("SELECT * FROM pedidos WHERE numero = ? LIMIT 1");
+    $stmt->bind_param('s', $numero);
+    $stmt->execute();
+    $pedido = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    if (!$pedido) {
+        return null;
+    }
+
+    if ($usuarioId !== null && (int)$pedido['usuario_id'] === $usuarioId) {
+        return $pedido;
+    }
+
+    if ($email === '') {
+        return null;
+    }
+
+    if (!hash_equals(normalizarEmailPedido($pedido['email_cliente']), normalizarEmailPedido($email))) {
+        return null;
+    }
+
+    return $pedido;
+}
+
+/**
+ * Gera um novo código para o email, invalidando os anteriores
+ * Retorna null se outro código foi pedido há menos do intervalo mínimo
+ */
+function gerarCodigoAcesso($conexao, string $email): ?string {
+    $email = normalizarEmailPedido($email);
+
+    $stmt = $conexao->prepare("SELECT COUNT(*) AS c FROM pedido_codigos_acesso
+        WHERE email = ? AND created_at > DATE_SUB(NOW(), INTERVAL ? SECOND)");
+    $intervalo = CODIGO_ACESSO_INTERVALO_SEGUNDOS;
+    $stmt->bind_param('si', $email, $intervalo);
+    $stmt->execute();
+    $recentes = (int)$stmt->get_result()->fetch_assoc()['c'];
+    $stmt->close();
+
+    if ($recentes > 0) {
+        return null;
+    }
+
+    $minutos = CODIGO_ACESSO_MINUTOS_PADRAO;
+    $result = $conexao->query("SELECT valor FROM configuracoes WHERE chave = 'codigo_acesso_minutos' LIMIT 1");
+    if ($row = $result->fetch_assoc()) {
+        if ((int)$row['valor'] > 0) $minutos = (int)$row['valor'];
+    }
+
+    $stmt = $conexao->prepare("UPDATE pedido_codigos_acesso SET usado_em = NOW() WHERE email = ? AND usado_em IS NULL");
+    $stmt->bind_param('s', $email);
+    $stmt->execute();
+    $stmt->close();
+
+    $codigo = str_pad((string)random_int(0, 999999), 6, '0', STR_PAD_LEFT);
+    $hash = hashCodigoAcesso($email, $codigo);
+    $expiraEm = date('Y-m-d H:i:s', strtotime("+$minutos minutes"));
+    $ip = $_SERVER['REMOTE_ADDR'] ?? null;
+
+    $stmt = $conexao->prepare("INSERT INTO pedido_codigos_acesso (email, codigo_hash, expira_em, ip) VALUES (?, ?, ?, ?)");
+    $stmt->bind_param('ssss', $email, $hash, $expiraEm, $ip);
+    $stmt->execute();
+    $stmt->close();
+
+    return $codigo;
+}
+
+/**
+ * Confere e consome o código do email
+ * Código errado conta uma tentativa; o certo não pode ser usado de novo
+ */
+function validarCodigoAcesso($conexao, string $email, string $codigo): bool {
+    $email = normalizarEmailPedido($email);
+    $codigo = preg_replace('/\D/', '', $codigo);
+
+    $stmt = $conexao->prepare("SELECT id, codigo_hash, tentativas FROM pedido_codigos_acesso
+        WHERE email = ? AND usado_em IS NULL AND expira_em > NOW()
+        ORDER BY created_at DESC LIMIT 1");
+    $stmt->bind_param('s', $email);
+    $stmt->execute();
+    $registro = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    if (!$registro || (int)$registro['tentativas'] >= CODIGO_ACESSO_MAX_TENTATIVAS) {
+        return false;
+    }
+
+    $id = (int)$registro['id'];
+
+    if (strlen($codigo) !== 6 || !hash_equals($registro['codigo_hash'], hashCodigoAcesso($email, $codigo))) {
+        $stmt = $conexao->prepare("UPDATE pedido_codigos_acesso SET tentativas = tentativas + 1 WHERE id = ?");
+        $stmt->bind_param('i', $id);
+        $stmt->execute();
+        $stmt->close();
+        return false;
+    }
+
+    // A condição em usado_em impede que duas requisições usem o mesmo código
+    $stmt = $conexao->prepare("UPDATE pedido_codigos_acesso SET usado_em = NOW() WHERE id = ? AND usado_em IS NULL");
+    $stmt->bind_param('i', $id);
+    $stmt->execute();
+    $consumido = $stmt->affected_rows === 1;
+    $stmt->close();
+
+    return $consumido;
+}
+?>
@@ -0,0 +1,89 @@
+<?php
+/**
+ * Máquina de estados do pedido
+ * Espelha src/lib/pedidoStatus.ts: mantenha as duas listas sincronizadas
+ */
+
+const PEDIDO_TRANSICOES = [
+    'aguardando_pagamento' => ['pago', 'cancelado'],
+    'pendente' => ['pago', 'cancelado'],
+    'pago' => ['preparando', 'cancelado'],
+    'preparando' => ['enviado', 'cancelado'],
+    'enviado' => ['entregue'],
+    'entregue' => [],
+    'cancelado' => []
+];
+
+const PEDIDO_STATUS_LABELS = [
+    'aguardando_pagamento' => 'Aguardando Pagamento',
+    'pendente' => 'Pendente',
+    'pago' => 'Pago',
+    'preparando' => 'Preparando',
+    'enviado' => 'Enviado',
+    'entregue' => 'Entregue',
+    'cancelado' => 'Cancelado'
+];
+
+function statusPedidoValido($status): bool {
+    return is_string($status) && array_key_exists($status, PEDIDO_TRANSICOES);
+}
+
+function podeTransicionarStatus(string $de, string $para): bool {
+    return in_array($para, PEDIDO_TRANSICOES[$de] ?? [], true);
+}
+
+/**
+ * Retorna null se a transição for permitida, ou a mensagem de erro
+ */
+function validarTransicaoStatus(string $de, string $para): ?string {
+    if (!statusPedidoValido($para)) {
+        return "Status inválido: $para";
+    }
+
+    if (!podeTransicionarStatus($de, $para)) {
+        $deLabel = PEDIDO_STATUS_LABELS[$de] ?? $de;
+        $paraLabel = PEDIDO_STATUS_LABELS[$para];
+        return "Não é possível alterar o pedido de \"$deLabel\" para \"$paraLabel\"";
+    }
+
+    return null;
+}
+
+/**
+ * Registra uma mudança de status no histórico do pedido
+ * $ator: 'cliente', 'admin' ou 'sistema'
+ */
+function registrarHistoricoPedido($conexao, int $pedidoId, ?string $de, string $para, string $ator, ?int $atorId = null, ?string $atorNome = null, ?string $observacao = null): void {
+    $stmt = $conexao->prepare("INSERT INTO pedido_historico (pedido_id, status_anterior, status_novo, ator, ator_id, ator_nome, observacao) VALUES (?, ?, ?, ?, ?, ?, ?)");
+    $stmt->bind_param('isssiss', $pedidoId, $de, $para, $ator, $atorId, $atorNome, $observacao);
+
+    if (!$stmt->execute()) {
+        throw new Exception('Erro ao registrar histórico do pedido: ' . $stmt->error);
+    }
+
+    $stmt->close();
+}
+
+/**
+ * Histórico do pedido em ordem cronológica
+ * O nome de quem alterou só é exposto quando $incluirAtor é true (admin)
+ */
+function buscarHistoricoPedido($conexao, int $pedidoId, bool $incluirAtor = false): array {
+    $colunaAtor = $incluirAtor ? ', ator_nome' : '';
+    $stmt = $conexao->prepare("SELECT id, status_anterior, status_novo, ator$colunaAtor, observacao, created_at
+      FROM pedido_historico
+      WHERE pedido_id = ?
+      ORDER BY created_at ASC, id ASC");
+    $stmt->bind_param('i', $pedidoId);
+    $stmt->execute();
+    $result = $stmt->get_result();
+
+    $historico = [];
+    while ($evento = $result->fetch_assoc()) {
+        $historico[] = $evento;
+    }
+
+    $stmt->close();
+    return $historico;
+}
+?>
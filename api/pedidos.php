@@ -10,14 +10,44 @@ if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
 }
 
 require_once 'conexao.php';
+require_once 'pedido_status.php';
+require_once 'endereco.php';
+require_once 'estoque.php';
+require_once 'precificacao.php';
+require_once 'cartao.php';
+require_once 'pedido_acesso.php';
+require_once 'auth.php';
+require_once 'cliente.php';
 
 /**
  * API de Pedidos
  *
- * GET  /api/pedidos.php?email=xxx   - Buscar pedidos por email do cliente
- * GET  /api/pedidos.php?numero=xxx  - Buscar pedido por número
+ * GET  /api/pedidos.php                         - Pedidos do cliente logado (token)
+ * GET  /api/pedidos.php?email=xxx&codigo=000000 - Pedidos do email (código de pedidos_codigo.php)
+ * GET  /api/pedidos.php?numero=xxx&email=xxx     - Buscar pedido por número e email da compra
  * POST /api/pedidos.php             - Criar novo pedido
- * PUT  /api/pedidos.php?numero=xxx  - Atualizar status do pedido
+ * PUT  /api/pedidos.php?numero=xxx  - Cancelar pedido aguardando pagamento { status, email }
+ *
+ * O POST recalcula preços, desconto, frete e total no servidor
+ * (precificacao.php) e responde 409 com code "total_divergente" quando o
+ * total enviado não confere. No cartão, o total inclui os juros do
+ * parcelamento escolhido (parcelamento.php), gravado no pedido. Também
+ * reserva o estoque de cada item (variação) e responde 409 com
+ * code "estoque_insuficiente" e a lista de itens sem saldo. Cupom que não se
+ * aplica responde 422 com code "cupom_invalido". O cancelamento devolve a
+ * reserva ao estoque e o uso do cupom.
+ *
+ * Pedidos no cartão trazem { cartao: { token, bandeira, final } } gerado pelo
+ * gateway no navegador; número, validade e CVV são recusados.
+ *
+ * A confirmação de pagamento acontece apenas via webhook do provedor
+ * (api/pagamento/webhook.php).
+ *
+ * Pedidos podem ser feitos sem login. A consulta exige prova de posse
+ * (pedido_acesso.php): número com o email da compra, ou o código de uso
+ * único enviado ao email para listar todos os pedidos dele. Com o token do
+ * cliente (auth.php), o pedido fica vinculado à conta e o dono o consulta e
+ * cancela sem informar o email; usuario_id enviado pelo navegador é ignorado.
  */
 
 try {
@@ -43,9 +73,11 @@ try {
 }
 
 function handleGet($conexao) {
-    // Buscar por usuario_id
-    if (isset($_GET['usuario_id'])) {
-        $usuarioId = (int)$_GET['usuario_id'];
+    $cliente = autenticarCliente($conexao, false);
+
+    // Pedidos da conta do cliente logado
+    if ($cliente && !isset($_GET['email']) && !isset($_GET['numero'])) {
+        $usuarioId = (int)$cliente['id'];
 
         $stmt = $conexao->prepare("SELECT * FROM pedidos WHERE usuario_id = ? ORDER BY created_at DESC");
         $stmt->bind_param('i', $usuarioId);
@@ -55,7 +87,8 @@ function handleGet($conexao) {
         $pedidos = [];
         while ($pedido = $result->fetch_assoc()) {
             $pedido['itens'] = fetchItensPedido($conexao, (int)$pedido['id']);
-            $pedidos[] = $pedido;
+            $pedido['historico'] = buscarHistoricoPedido($conexao, (int)$pedido['id']);
+            $pedidos[] = ocultarTokenCartao($pedido);
         }
 
         $stmt->close();
@@ -64,9 +97,22 @@ function handleGet($conexao) {
         return;
     }
 
-    // Buscar por email
-    if (isset($_GET['email'])) {
-        $email = trim($_GET['email']);
+    // Listar pedidos do email: só com o código enviado a ele
+    if (isset($_GET['email']) && !isset($_GET['numero'])) {
+        $email = normalizarEmailPedido($_GET['email']);
+        $codigo = trim($_GET['codigo'] ?? '');
+
+        if ($codigo === '') {
+            http_response_code(400);
+            echo json_encode(['success' => false, 'error' => 'Informe o código enviado ao seu email'], JSON_UNESCAPED_UNICODE);
+            return;
+        }
+
+        if (!validarCodigoAcesso($conexao, $email, $codigo)) {
+            http_response_code(403);
+            echo json_encode(['success' => false, 'code' => 'codigo_invalido', 'error' => 'Código inválido ou expirado'], JSON_UNESCAPED_UNICODE);
+            return;
+        }
 
         $stmt = $conexao->prepare("SELECT * FROM pedidos WHERE email_cliente = ? ORDER BY created_at DESC");
         $stmt->bind_param('s', $email);
@@ -76,7 +122,8 @@ function handleGet($conexao) {
         $pedidos = [];
         while ($pedido = $result->fetch_assoc()) {
             $pedido['itens'] = fetchItensPedido($conexao, (int)$pedido['id']);
-            $pedidos[] = $pedido;
+            $pedido['historico'] = buscarHistoricoPedido($conexao, (int)$pedido['id']);
+            $pedidos[] = ocultarTokenCartao($pedido);
         }
 
         $stmt->close();
@@ -85,17 +132,14 @@ function handleGet($conexao) {
         return;
     }
 
-    // Buscar por número do pedido
+    // Buscar por número do pedido, conferindo o email da compra
     if (isset($_GET['numero'])) {
-        $numero = trim($_GET['numero']);
-
-        $stmt = $conexao->prepare("SELECT * FROM pedidos WHERE numero = ? LIMIT 1");
-        $stmt->bind_param('s', $numero);
-        $stmt->execute();
-        $result = $stmt->get_result();
-
-        $pedido = $result->fetch_assoc();
-        $stmt->close();
+        $pedido = buscarPedidoDoCliente(
+            $conexao,
+            trim($_GET['numero']),
+            trim($_GET['email'] ?? ''),
+            $cliente ? (int)$cliente['id'] : null
+        );
 
         if (!$pedido) {
             http_response_code(404);
@@ -104,8 +148,9 @@ function handleGet($conexao) {
         }
 
         $pedido['itens'] = fetchItensPedido($conexao, (int)$pedido['id']);
+        $pedido['historico'] = buscarHistoricoPedido($conexao, (int)$pedido['id']);
 
-        echo json_encode(['success' => true, 'data' => $pedido], JSON_UNESCAPED_UNICODE);
+        echo json_encode(['success' => true, 'data' => ocultarTokenCartao($pedido)], JSON_UNESCAPED_UNICODE);
         return;
     }
 
@@ -120,6 +165,10 @@ function fetchItensPedido($conexao, int $pedidoId): array {
         produto_nome as nome,
         produto_sku as sku,
         produto_imagem as imagem,
+        variacao_id,
+        variacao_cor,
+        variacao_cor_codigo,
+        variacao_capacidade,
         quantidade,
         preco_unitario,
         subtotal
@@ -158,41 +207,142 @@ function handlePost($conexao) {
         }
     }
 
+    // O email da compra é a prova de posse para consultar o pedido sem login
+    $input['email_cliente'] = normalizarEmailPedido($input['email_cliente']);
+    if (!filter_var($input['email_cliente'], FILTER_VALIDATE_EMAIL)) {
+        http_response_code(400);
+        echo json_encode(['success' => false, 'error' => 'Email inválido'], JSON_UNESCAPED_UNICODE);
+        return;
+    }
+
     if (!is_array($input['itens']) || count($input['itens']) === 0) {
         http_response_code(400);
         echo json_encode(['success' => false, 'error' => 'Itens do pedido são obrigatórios'], JSON_UNESCAPED_UNICODE);
         return;
     }
 
+    // Endereço de entrega obrigatório e validado (CEP, UF e número)
+    $endereco = normalizarEndereco(is_array($input['endereco'] ?? null) ? $input['endereco'] : []);
+    $erroEndereco = validarEndereco($endereco);
+    if ($erroEndereco) {
+        http_response_code(400);
+        echo json_encode(['success' => false, 'error' => "Endereço de entrega: $erroEndereco"], JSON_UNESCAPED_UNICODE);
+        return;
+    }
+
     $numero = generateOrderNumber($conexao);
 
-    // Compatibilidade: alguns frontends mandam "aguardando_pagamento"
-    $status = $input['status'] ?? 'pendente';
-    if ($status === 'aguardando_pagamento') {
-        $status = 'pendente';
-    }
+    // Todo pedido nasce aguardando pagamento; o status enviado pelo cliente é ignorado
+    $status = 'aguardando_pagamento';
 
-    $usuarioId = isset($input['usuario_id']) ? (string)$input['usuario_id'] : null;
-    $telefone = $input['telefone_cliente'] ?? null;
-    $cpf = $input['cpf_cliente'] ?? null;
+    // A conta vem do token; pedidos sem token são de visitante
+    $cliente = autenticarCliente($conexao, false);
+    $usuarioId = $cliente ? (string)$cliente['id'] : null;
 
-    $endereco = $input['endereco'] ?? [];
-    $endCep = $endereco['cep'] ?? null;
-    $endLogradouro = $endereco['logradouro'] ?? null;
-    $endNumero = $endereco['numero'] ?? null;
-    $endComplemento = $endereco['complemento'] ?? null;
-    $endBairro = $endereco['bairro'] ?? null;
-    $endCidade = $endereco['cidade'] ?? null;
-    $endEstado = $endereco['estado'] ?? null;
+    [$contato, $erroContato] = normalizarContatoCliente($input['telefone_cliente'] ?? '', $input['cpf_cliente'] ?? '');
+    if ($erroContato) {
+        http_response_code(400);
+        echo json_encode(['success' => false, 'error' => $erroContato], JSON_UNESCAPED_UNICODE);
+        return;
+    }
+
+    // Telefone e CPF não enviados vêm do perfil da conta (cadastros antigos
+    // podem ter valores inválidos, que são ignorados)
+    $telefone = $contato['telefone'];
+    if ($telefone === null && $cliente && validarTelefone((string)$cliente['telefone'])) {
+        $telefone = formatarTelefone($cliente['telefone']);
+    }
+    $cpf = $contato['cpf'];
+    if ($cpf === null && $cliente && validarCpf((string)$cliente['cpf'])) {
+        $cpf = formatarCpf($cliente['cpf']);
+    }
 
-    $subtotal = isset($input['subtotal']) ? (float)$input['subtotal'] : (float)$input['total'];
-    $desconto = isset($input['desconto']) ? (float)$input['desconto'] : 0.0;
-    $frete = isset($input['frete']) ? (float)$input['frete'] : 0.0;
-    $total = (float)$input['total'];
+    $endCep = formatarCep($endereco['cep']);
+    $endLogradouro = $endereco['logradouro'];
+    $endNumero = $endereco['numero'];
+    $endComplemento = $endereco['complemento'];
+    $endBairro = $endereco['bairro'];
+    $endCidade = $endereco['cidade'];
+    $endEstado = $endereco['estado'];
 
     $formaPagamento = $input['forma_pagamento'];
     $observacoes = $input['observacoes'] ?? null;
 
+    $cartao = ['token' => null, 'bandeira' => null, 'final' => null];
+    if ($formaPagamento === 'cartao') {
+        try {
+            $cartao = normalizarCartaoToken($input['cartao'] ?? null);
+        } catch (InvalidArgumentException $e) {
+            http_response_code(400);
+            echo json_encode(['success' => false, 'error' => $e->getMessage()], JSON_UNESCAPED_UNICODE);
+            return;
+        }
+    }
+
+    // Preços, desconto e frete vêm do banco; os valores do navegador não são usados
+    $freteServico = isset($input['frete_servico']) ? (string)$input['frete_servico'] : '';
+    if ($freteServico === '') {
+        http_response_code(400);
+        echo json_encode(['success' => false, 'error' => 'Opção de frete é obrigatória'], JSON_UNESCAPED_UNICODE);
+        return;
+    }
+
+    $cupomCodigo = isset($input['cupom']) ? trim((string)$input['cupom']) : '';
+
+    try {
+        $precos = calcularPrecosCarrinho(
+            $conexao,
+            $input['itens'],
+            $endereco['cep'],
+            $freteServico,
+            (string)$formaPagamento,
+            $cupomCodigo !== '' ? $cupomCodigo : null,
+            $usuarioId !== null ? (int)$usuarioId : null,
+            (string)$input['email_cliente']
+        );
+    } catch (CupomInvalidoException $e) {
+        http_response_code(422);
+        echo json_encode(['success' => false, 'code' => 'cupom_invalido', 'error' => $e->getMessage()], JSON_UNESCAPED_UNICODE);
+        return;
+    } catch (InvalidArgumentException $e) {
+        http_response_code(400);
+        echo json_encode(['success' => false, 'error' => $e->getMessage()], JSON_UNESCAPED_UNICODE);
+        return;
+    }
+
+    // Parcelas só no cartão; PIX e boleto são à vista
+    $parcelas = $formaPagamento === 'cartao' ? max(1, (int)($input['parcelas'] ?? 1)) : 1;
+
+    try {
+        $precos = aplicarParcelamento($precos, $parcelas, obterConfigParcelamento($conexao));
+    } catch (InvalidArgumentException $e) {
+        http_response_code(400);
+        echo json_encode(['success' => false, 'error' => $e->getMessage()], JSON_UNESCAPED_UNICODE);
+        return;
+    }
+
+    if (!totalConfere((float)$input['total'], $precos['total'])) {
+        http_response_code(409);
+        echo json_encode([
+            'success' => false,
+            'code' => 'total_divergente',
+            'error' => 'Os valores do pedido foram atualizados. Confira o novo total antes de continuar.',
+            'precos' => $precos
+        ], JSON_UNESCAPED_UNICODE);
+        return;
+    }
+
+    $subtotal = $precos['subtotal'];
+    $desconto = $precos['desconto'];
+    $frete = $precos['frete'];
+    $fretePrazo = $precos['frete_prazo_dias'];
+    $total = $precos['total'];
+
+    // Devolve ao estoque as reservas vencidas antes de reservar novamente
+    // (a consulta de pedidos não expira nada; ver cron/expirar_reservas.php)
+    expirarReservasVencidas($conexao);
+    $reservaExpiraEm = calcularExpiracaoReserva($conexao, (string)$formaPagamento);
+
     $conexao->begin_transaction();
 
     try {
@@ -213,11 +363,21 @@ function handlePost($conexao) {
             subtotal,
             desconto,
             frete,
+            frete_servico,
+            frete_prazo_dias,
+            cupom_id,
+            cupom_codigo,
+            parcelas,
+            valor_parcela,
+            juros,
+            cartao_token,
+            cartao_bandeira,
+            cartao_final,
             total,
             forma_pagamento,
             status,
             observacoes
-        ) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)");
+        ) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)");
 
         // bind_param por referência: criar variáveis "primitivas"
         $vNumero = (string)$numero;
@@ -236,6 +396,16 @@ function handlePost($conexao) {
         $vSubtotal = number_format($subtotal, 2, '.', '');
         $vDesconto = number_format($desconto, 2, '.', '');
         $vFrete = number_format($frete, 2, '.', '');
+        $vFreteServico = $freteServico;
+        $vFretePrazo = (string)$fretePrazo;
+        $vCupomId = $precos['cupom'] !== null ? (string)$precos['cupom']['cupom_id'] : null;
+        $vCupomCodigo = $precos['cupom'] !== null ? (string)$precos['cupom']['codigo'] : null;
+        $vParcelas = (string)$precos['parcelamento']['parcelas'];
+        $vValorParcela = number_format($precos['parcelamento']['valor_parcela'], 2, '.', '');
+        $vJuros = number_format($precos['parcelamento']['juros'], 2, '.', '');
+        $vCartaoToken = $cartao['token'];
+        $vCartaoBandeira = $cartao['bandeira'];
+        $vCartaoFinal = $cartao['final'];
         $vTotal = number_format($total, 2, '.', '');
         $vForma = (string)$formaPagamento;
         $vStatus = (string)$status;
@@ -243,7 +413,7 @@ function handlePost($conexao) {
 
         // usar tudo como string para evitar problemas de tipagem/NULL
         $stmt->bind_param(
-            str_repeat('s', 20),
+            str_repeat('s', 30),
             $vNumero,
             $vUsuarioId,
             $vNome,
@@ -260,6 +430,16 @@ function handlePost($conexao) {
             $vSubtotal,
             $vDesconto,
             $vFrete,
+            $vFreteServico,
+            $vFretePrazo,
+            $vCupomId,
+            $vCupomCodigo,
+            $vParcelas,
+            $vValorParcela,
+            $vJuros,
+            $vCartaoToken,
+            $vCartaoBandeira,
+            $vCartaoFinal,
             $vTotal,
             $vForma,
             $vStatus,
@@ -279,39 +459,50 @@ function handlePost($conexao) {
             produto_nome,
             produto_sku,
             produto_imagem,
+            variacao_id,
+            variacao_cor,
+            variacao_cor_codigo,
+            variacao_capacidade,
             quantidade,
             preco_unitario,
             subtotal
-        ) VALUES (?,?,?,?,?,?,?,?)");
-
-        // Preparar statement para descontar estoque
-        $stmtEstoque = $conexao->prepare("UPDATE produtos SET estoque = GREATEST(estoque - ?, 0) WHERE id = ?");
-
-        foreach ($input['itens'] as $item) {
-            $produtoId = $item['produto_id'] ?? $item['id'] ?? null;
-            $produtoNome = $item['nome'] ?? $item['name'] ?? 'Produto';
-            $produtoSku = $item['sku'] ?? null;
-            $produtoImagem = $item['imagem'] ?? $item['image'] ?? null;
-            $quantidade = (int)($item['quantidade'] ?? $item['quantity'] ?? 1);
-            $precoUnit = (float)($item['preco_unitario'] ?? $item['price'] ?? 0);
-            $subtotalItem = $precoUnit * $quantidade;
+        ) VALUES (?,?,?,?,?,?,?,?,?,?,?,?)");
+
+        foreach ($precos['itens'] as $indice => $item) {
+            $produtoId = $item['produto_id'];
+            $produtoNome = $item['nome'];
+            $produtoSku = $item['sku'];
+            $produtoImagem = $item['imagem'];
+            $variacaoId = $item['variacao_id'];
+            $quantidade = $item['quantidade'];
+            $precoUnit = $item['preco_unitario'];
+            $subtotalItem = $item['subtotal'];
 
             $vPedidoId = (string)$pedidoId;
             $vProdutoId = $produtoId !== null ? (string)$produtoId : null;
             $vProdutoNome = (string)$produtoNome;
             $vProdutoSku = $produtoSku !== null ? (string)$produtoSku : null;
             $vProdutoImagem = $produtoImagem !== null ? (string)$produtoImagem : null;
+            // Cor e capacidade gravadas como estavam na compra, mesmo se a variação mudar depois
+            $vVariacaoId = $variacaoId !== null ? (string)$variacaoId : null;
+            $vVariacaoCor = $item['cor'];
+            $vVariacaoCorCodigo = $item['cor_codigo'];
+            $vVariacaoCapacidade = $item['capacidade'];
             $vQtd = (string)$quantidade;
             $vPrecoUnit = number_format($precoUnit, 2, '.', '');
             $vSubItem = number_format($subtotalItem, 2, '.', '');
 
             $stmtItem->bind_param(
-                'ssssssss',
+                'ssssssssssss',
                 $vPedidoId,
                 $vProdutoId,
                 $vProdutoNome,
                 $vProdutoSku,
                 $vProdutoImagem,
+                $vVariacaoId,
+                $vVariacaoCor,
+                $vVariacaoCorCodigo,
+                $vVariacaoCapacidade,
                 $vQtd,
                 $vPrecoUnit,
                 $vSubItem
@@ -320,17 +511,20 @@ function handlePost($conexao) {
             if (!$stmtItem->execute()) {
                 throw new Exception('Erro ao inserir item: ' . $stmtItem->error);
             }
-
-            // Descontar estoque do produto
-            if ($produtoId !== null) {
-                $stmtEstoque->bind_param('ii', $quantidade, $produtoId);
-                $stmtEstoque->execute();
-            }
+            // Liga as unidades de aparelho reservadas ao item
+            $precos['itens'][$indice]['pedido_item_id'] = $stmtItem->insert_id;
         }
-        
-        $stmtEstoque->close();
 
         $stmtItem->close();
+
+        reservarEstoque($conexao, $pedidoId, $precos['itens'], $reservaExpiraEm);
+
+        if ($precos['cupom'] !== null) {
+            registrarUsoCupom($conexao, $precos['cupom'], $pedidoId, $vUsuarioId !== null ? (int)$vUsuarioId : null, $vEmail);
+        }
+
+        registrarHistoricoPedido($conexao, $pedidoId, null, $status, 'cliente', $vUsuarioId !== null ? (int)$vUsuarioId : null, null, 'Pedido criado');
+
         $conexao->commit();
 
         echo json_encode([
@@ -342,6 +536,19 @@ function handlePost($conexao) {
             'message' => 'Pedido criado com sucesso'
         ], JSON_UNESCAPED_UNICODE);
 
+    } catch (EstoqueInsuficienteException $e) {
+        $conexao->rollback();
+        http_response_code(409);
+        echo json_encode([
+            'success' => false,
+            'code' => 'estoque_insuficiente',
+            'error' => $e->getMessage(),
+            'itens' => $e->itens
+        ], JSON_UNESCAPED_UNICODE);
+    } catch (CupomInvalidoException $e) {
+        $conexao->rollback();
+        http_response_code(422);
+        echo json_encode(['success' => false, 'code' => 'cupom_invalido', 'error' => $e->getMessage()], JSON_UNESCAPED_UNICODE);
     } catch (Throwable $e) {
         $conexao->rollback();
         throw $e;
@@ -377,14 +584,52 @@ function handlePut($conexao) {
     }
 
     $status = $input['status'];
-    if ($status === 'aguardando_pagamento') {
-        $status = 'pendente';
+
+    // O cliente só pode cancelar; as demais mudanças vêm do pagamento ou do admin
+    if ($status !== 'cancelado') {
+        http_response_code(403);
+        echo json_encode(['success' => false, 'error' => 'Status do pedido só pode ser alterado pela confirmação de pagamento'], JSON_UNESCAPED_UNICODE);
+        return;
     }
 
-    $stmt = $conexao->prepare("UPDATE pedidos SET status = ?, updated_at = NOW() WHERE numero = ?");
-    $stmt->bind_param('ss', $status, $pedidoNumero);
+    // Só o dono cancela: cliente logado que fez o pedido ou quem sabe o email da compra
+    $cliente = autenticarCliente($conexao, false);
+    $pedido = buscarPedidoDoCliente(
+        $conexao,
+        $pedidoNumero,
+        trim((string)($input['email'] ?? '')),
+        $cliente ? (int)$cliente['id'] : null
+    );
+
+    if (!$pedido) {
+        http_response_code(404);
+        echo json_encode(['success' => false, 'error' => 'Pedido não encontrado'], JSON_UNESCAPED_UNICODE);
+        return;
+    }
+
+    $statusAtual = $pedido['status'];
+
+    $erroTransicao = validarTransicaoStatus($statusAtual, $status);
+
+    // Cancelamento pelo cliente só antes da confirmação do pagamento
+    if (!$erroTransicao && !in_array($statusAtual, ['aguardando_pagamento', 'pendente'], true)) {
+        $erroTransicao = 'Pedido já pago só pode ser cancelado pela loja';
+    }
+
+    if ($erroTransicao) {
+        http_response_code(409);
+        echo json_encode(['success' => false, 'error' => $erroTransicao], JSON_UNESCAPED_UNICODE);
+        return;
+    }
+
+    $conexao->begin_transaction();
+
+    // A condição no status atual evita sobrescrever uma mudança concorrente
+    $stmt = $conexao->prepare("UPDATE pedidos SET status = ?, updated_at = NOW() WHERE numero = ? AND status = ?");
+    $stmt->bind_param('sss', $status, $pedidoNumero, $statusAtual);
 
     if (!$stmt->execute()) {
+        $conexao->rollback();
         http_response_code(500);
         echo json_encode(['success' => false, 'error' => 'Erro ao atualizar pedido'], JSON_UNESCAPED_UNICODE);
         $stmt->close();
@@ -392,14 +637,25 @@ function handlePut($conexao) {
     }
 
     if ($stmt->affected_rows === 0) {
-        http_response_code(404);
-        echo json_encode(['success' => false, 'error' => 'Pedido não encontrado'], JSON_UNESCAPED_UNICODE);
+        $conexao->rollback();
+        http_response_code(409);
+        echo json_encode(['success' => false, 'error' => 'O status do pedido foi alterado. Atualize a página e tente novamente'], JSON_UNESCAPED_UNICODE);
         $stmt->close();
         return;
     }
 
     $stmt->close();
 
+    try {
+        liberarReservasPedido($conexao, (int)$pedido['id']);
+        liberarUsoCupom($conexao, (int)$pedido['id']);
+        registrarHistoricoPedido($conexao, (int)$pedido['id'], $statusAtual, $status, 'cliente', null, null, 'Cancelado pelo cliente');
+        $conexao->commit();
+    } catch (Throwable $e) {
+        $conexao->rollback();
+        throw $e;
+    }
+
     echo json_encode([
         'success' => true,
         'data' => ['numero' => $pedidoNumero, 'status' => $status],
@@ -0,0 +1,71 @@
+<?php
+header('Content-Type: application/json; charset=utf-8');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: POST, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit();
+}
+
+require_once 'conexao.php';
+require_once 'pedido_acesso.php';
+require_once 'email.php';
+
+/**
+ * Código de acesso aos pedidos
+ *
+ * POST /api/pedidos_codigo.php { email } - Envia um código de uso único ao email
+ *
+ * O código é usado em GET /api/pedidos.php?email=xxx&codigo=000000. A resposta
+ * é a mesma havendo ou não pedidos no email, para não revelar quem comprou
+ * na loja; o email só é enviado quando há pedidos e no máximo um por minuto.
+ */
+
+try {
+    if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+        http_response_code(405);
+        echo json_encode(['success' => false, 'error' => 'Método não permitido'], JSON_UNESCAPED_UNICODE);
+        exit();
+    }
+
+    $input = json_decode(file_get_contents('php://input'), true);
+    $email = normalizarEmailPedido($input['email'] ?? '');
+
+    if (!filter_var($email, FILTER_VALIDATE_EMAIL)) {
+        http_response_code(400);
+        echo json_encode(['success' => false, 'error' => 'Email inválido'], JSON_UNESCAPED_UNICODE);
+        exit();
+    }
+
+    $stmt = $conexao->prepare("SELECT COUNT(*) AS c FROM pedidos WHERE email_cliente = ?");
+    $stmt->bind_param('s', $email);
+    $stmt->execute();
+    $temPedidos = (int)$stmt->get_result()->fetch_assoc()['c'] > 0;
+    $stmt->close();
+
+    // Pedido repetido dentro do intervalo mínimo: o código anterior continua valendo
+    $codigo = $temPedidos ? gerarCodigoAcesso($conexao, $email) : null;
+
+    if ($codigo !== null) {
+        $corpo = "Seu código para consultar seus pedidos é: $codigo\n\n"
+            . "Ele vale por alguns minutos e só pode ser usado uma vez.\n"
+            . "Se você não pediu este código, ignore este email.";
+
+        if (!enviarEmail($conexao, $email, 'Código de acesso aos seus pedidos', $corpo)) {
+            http_response_code(500);
+            echo json_encode(['success' => false, 'error' => 'Não foi possível enviar o email. Tente novamente'], JSON_UNESCAPED_UNICODE);
+            exit();
+        }
+    }
+
+    echo json_encode([
+        'success' => true,
+        'message' => 'Se houver pedidos neste email, você receberá um código em instantes'
+    ], JSON_UNESCAPED_UNICODE);
+} catch (Throwable $e) {
+    http_response_code(500);
+    echo json_encode(['success' => false, 'error' => $e->getMessage()], JSON_UNESCAPED_UNICODE);
+}
+?>
@@ -0,0 +1,91 @@
+<?php
+header('Content-Type: application/json; charset=utf-8');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: GET, PUT, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit();
+}
+
+require_once 'conexao.php';
+require_once 'auth.php';
+require_once 'cliente.php';
+
+/**
+ * API do Perfil do cliente
+ *
+ * GET /api/perfil.php - Dados da conta
+ * PUT /api/perfil.php - Atualizar { nome, telefone, cpf }
+ *
+ * Exige o token do cliente (auth.php). O email identifica a conta e não é
+ * alterado aqui. Telefone e CPF são opcionais, mas quando informados precisam
+ * ser válidos (cliente.php) e são gravados formatados.
+ */
+
+try {
+    $method = $_SERVER['REQUEST_METHOD'];
+
+    switch ($method) {
+        case 'GET':
+            handleGet($conexao);
+            break;
+        case 'PUT':
+            handlePut($conexao);
+            break;
+        default:
+            http_response_code(405);
+            echo json_encode(['success' => false, 'error' => 'Método não permitido'], JSON_UNESCAPED_UNICODE);
+    }
+} catch (Throwable $e) {
+    http_response_code(500);
+    echo json_encode(['success' => false, 'error' => $e->getMessage()], JSON_UNESCAPED_UNICODE);
+}
+
+function handleGet($conexao) {
+    $usuario = autenticarCliente($conexao);
+    echo json_encode(['success' => true, 'data' => dadosUsuarioSessao($usuario)], JSON_UNESCAPED_UNICODE);
+}
+
+function handlePut($conexao) {
+    $usuario = autenticarCliente($conexao);
+    $input = json_decode(file_get_contents('php://input'), true);
+
+    if (!is_array($input)) {
+        http_response_code(400);
+        echo json_encode(['success' => false, 'error' => 'Dados inválidos'], JSON_UNESCAPED_UNICODE);
+        return;
+    }
+
+    $nome = trim((string)($input['nome'] ?? ''));
+    if ($nome === '' || mb_strlen($nome) > 100) {
+        http_response_code(400);
+        echo json_encode(['success' => false, 'error' => 'Informe seu nome (até 100 caracteres)'], JSON_UNESCAPED_UNICODE);
+        return;
+    }
+
+    [$contato, $erro] = normalizarContatoCliente($input['telefone'] ?? '', $input['cpf'] ?? '');
+    if ($erro) {
+        http_response_code(400);
+        echo json_encode(['success' => false, 'error' => $erro], JSON_UNESCAPED_UNICODE);
+        return;
+    }
+
+    $id = (int)$usuario['id'];
+    $stmt = $conexao->prepare("UPDATE usuarios SET nome = ?, telefone = ?, cpf = ? WHERE id = ?");
+    $stmt->bind_param('sssi', $nome, $contato['telefone'], $contato['cpf'], $id);
+    $stmt->execute();
+    $stmt->close();
+
+    $usuario['nome'] = $nome;
+    $usuario['telefone'] = $contato['telefone'];
+    $usuario['cpf'] = $contato['cpf'];
+
+    echo json_encode([
+        'success' => true,
+        'message' => 'Dados atualizados',
+        'data' => dadosUsuarioSessao($usuario)
+    ], JSON_UNESCAPED_UNICODE);
+}
+?>
@@ -0,0 +1,51 @@
+<?php
+/**
+ * Papéis da equipe do painel e o que cada um pode fazer
+ *
+ * Todo usuário tipo 'admin' tem um papel (usuarios.papel). Os endpoints de
+ * api/admin exigem a permissão da ação (config.php: exigirPermissao); o
+ * painel recebe a lista em admin/sessao.php e esconde o que o papel não pode
+ * fazer. Os nomes dos papéis ficam em src/lib/permissoes.ts.
+ */
+
+const PAPEIS_ADMIN = ['dono', 'catalogo', 'pedidos', 'leitura'];
+
+const PERMISSOES_PAPEIS = [
+    'dono' => [
+        'produtos.ver', 'produtos.editar',
+        'categorias.ver', 'categorias.editar',
+        'cupons.ver', 'cupons.editar',
+        'pedidos.ver', 'pedidos.editar',
+        'tradein.ver', 'tradein.editar',
+        'equipe.gerenciar', 'auditoria.ver'
+    ],
+    'catalogo' => [
+        'produtos.ver', 'produtos.editar',
+        'categorias.ver', 'categorias.editar',
+        'cupons.ver',
+        'tradein.ver'
+    ],
+    'pedidos' => [
+        'produtos.ver',
+        'categorias.ver',
+        'pedidos.ver', 'pedidos.editar',
+        'tradein.ver', 'tradein.editar'
+    ],
+    'leitura' => [
+        'produtos.ver',
+        'categorias.ver',
+        'cupons.ver',
+        'pedidos.ver',
+        'tradein.ver'
+    ]
+];
+
+function permissoesDoPapel(?string $papel): array {
+    return PERMISSOES_PAPEIS[$papel] ?? [];
+}
+
+function temPermissao(array $usuario, string $permissao): bool {
+    return ($usuario['tipo'] ?? null) === 'admin'
+        && in_array($permissao, permissoesDoPapel($usuario['papel'] ?? null), true);
+}
+?>
@@ -0,0 +1,294 @@
+<?php
+/**
+ * Leitura e geração de planilhas CSV e XLSX
+ *
+ * Uma planilha é uma lista de linhas, cada uma uma lista de células em texto;
+ * a primeira linha é o cabeçalho. O XLSX é montado e lido direto do pacote
+ * (ZipArchive + XML), só com a primeira aba e sem formatação.
+ *
+ * O CSV sai com BOM e ponto e vírgula, que é o que o Excel em português abre
+ * sem perguntar nada; na leitura o separador é detectado pelo cabeçalho.
+ */
+
+const PLANILHA_FORMATOS = ['csv', 'xlsx'];
+const PLANILHA_TAMANHO_MAXIMO = 5 * 1024 * 1024;
+
+const PLANILHA_TIPOS = [
+    'csv' => 'text/csv; charset=utf-8',
+    'xlsx' => 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+];
+
+/**
+ * Confere o arquivo de $_FILES; retorna null se aceito ou a mensagem de erro
+ */
+function validarUploadPlanilha(?array $arquivo): ?string {
+    if (!$arquivo || !isset($arquivo['error'])) {
+        return 'Envie uma planilha';
+    }
+    if ($arquivo['error'] === UPLOAD_ERR_INI_SIZE || $arquivo['error'] === UPLOAD_ERR_FORM_SIZE || $arquivo['size'] > PLANILHA_TAMANHO_MAXIMO) {
+        return 'A planilha passa do tamanho máximo de ' . (PLANILHA_TAMANHO_MAXIMO / 1024 / 1024) . ' MB';
+    }
+    if ($arquivo['error'] !== UPLOAD_ERR_OK || !is_uploaded_file($arquivo['tmp_name'])) {
+        return 'Falha no envio da planilha';
+    }
+    if (!formatoPlanilha($arquivo['name'])) {
+        return 'Formato não aceito. Envie CSV ou XLSX';
+    }
+    return null;
+}
+
+// Formato pela extensão do nome original, ou null se não for CSV nem XLSX
+function formatoPlanilha(string $nome): ?string {
+    $extensao = strtolower(pathinfo($nome, PATHINFO_EXTENSION));
+    return in_array($extensao, PLANILHA_FORMATOS, true) ? $extensao : null;
+}
+
+/**
+ * Linhas da planilha, sem as totalmente vazias
+ * Lança RuntimeException se o arquivo não puder ser lido
+ */
+function lerPlanilha(string $caminho, string $formato): array {
+    $linhas = $formato === 'xlsx' ? lerXlsx($caminho) : lerCsv($caminho);
+
+    $resultado = [];
+    foreach ($linhas as $linha) {
+        $linha = array_map(function ($celula) {
+            return trim((string)$celula);
+        }, $linha);
+        if (implode('', $linha) !== '') {
+            $resultado[] = $linha;
+        }
+    }
+    return $resultado;
+}
+
+function lerCsv(string $caminho): array {
+    $conteudo = file_get_contents($caminho);
+    if ($conteudo === false) {
+        throw new RuntimeException('Não foi possível ler a planilha');
+    }
+
+    // Remove o BOM e converte planilhas salvas em Latin-1 pelo Excel
+    $conteudo = preg_replace('/^\xEF\xBB\xBF/', '', $conteudo);
+    if (!mb_check_encoding($conteudo, 'UTF-8')) {
+        $conteudo = mb_convert_encoding($conteudo, 'UTF-8', 'Windows-1252');
+    }
+
+    $primeiraLinha = strtok($conteudo, "\n");
+    $separador = substr_count($primeiraLinha, ';') >= substr_count($primeiraLinha, ',') ? ';' : ',';
+
+    $arquivo = fopen('php://temp', 'r+');
+    fwrite($arquivo, $conteudo);
+    rewind($arquivo);
+
+    $linhas = [];
+    while (($linha = fgetcsv($arquivo, 0, $separador, '"', '')) !== false) {
+        if ($linha !== [null]) {
+            $linhas[] = $linha;
+        }
+    }
+    fclose($arquivo);
+
+    return $linhas;
+}
+
+function lerXlsx(string $caminho): array {
+    $zip = new ZipArchive();
+    if ($zip->open($caminho) !== true) {
+        throw new RuntimeException('Arquivo XLSX inválido');
+    }
+
+    // Textos repetidos ficam numa tabela à parte e as células guardam o índice
+    $textos = [];
+    $xmlTextos = $zip->getFromName('xl/sharedStrings.xml');
+    if ($xmlTextos !== false) {
+        $sst = simplexml_load_string($xmlTextos);
+        foreach ($sst->si as $item) {
+            $textos[] = textoXlsx($item);
+        }
+    }
+
+    $xmlAba = $zip->getFromName(caminhoPrimeiraAbaXlsx($zip));
+    $zip->close();
+    if ($xmlAba === false) {
+        throw new RuntimeException('A planilha não tem nenhuma aba');
+    }
+
+    $aba = simplexml_load_string($xmlAba);
+    $linhas = [];
+    foreach ($aba->sheetData->row as $row) {
+        $linha = [];
+        foreach ($row->c as $celula) {
+            // Células vazias não são gravadas: a posição vem da referência (C5 = coluna 2)
+            $coluna = indiceColunaXlsx((string)$celula['r']);
+            while (count($linha) < $coluna) {
+                $linha[] = '';
+            }
+
+            $tipo = (string)$celula['t'];
+            if ($tipo === 's') {
+                $linha[] = $textos[(int)$celula->v] ?? '';
+            } elseif ($tipo === 'inlineStr') {
+                $linha[] = textoXlsx($celula->is);
+            } elseif ($tipo === 'b') {
+                $linha[] = (string)$celula->v === '1' ? 'sim' : 'nao';
+            } else {
+                $linha[] = (string)$celula->v;
+            }
+        }
+        $linhas[] = $linha;
+    }
+
+    return $linhas;
+}
+
+// Texto de um <si> ou <is>, juntando os trechos com formatação (<r><t>)
+function textoXlsx($no): string {
+    if (isset($no->t)) {
+        return (string)$no->t;
+    }
+    $texto = '';
+    foreach ($no->r as $trecho) {
+        $texto .= (string)$trecho->t;
+    }
+    return $texto;
+}
+
+function caminhoPrimeiraAbaXlsx(ZipArchive $zip): string {
+    $padrao = 'xl/worksheets/sheet1.xml';
+
+    $workbook = $zip->getFromName('xl/workbook.xml');
+    $rels = $zip->getFromName('xl/_rels/workbook.xml.rels');
+    if ($workbook === false || $rels === false) {
+        return $padrao;
+    }
+
+    $xmlWorkbook = simplexml_load_string($workbook);
+    $xmlWorkbook->registerXPathNamespace('m', 'http://schemas.openxmlformats.org/spreadsheetml/2006/main');
+    $abas = $xmlWorkbook->xpath('//m:sheets/m:sheet');
+    if (!$abas) {
+        return $padrao;
+    }
+    $relId = (string)$abas[0]->attributes('http://schemas.openxmlformats.org/officeDocument/2006/relationships')['id'];
+
+    foreach (simplexml_load_string($rels)->Relationship as $rel) {
+        if ((string)$rel['Id'] === $relId) {
+            $alvo = ltrim((string)$rel['Target'], '/');
+            return strpos($alvo, 'xl/') === 0 ? $alvo : 'xl/' . $alvo;
+        }
+    }
+    return $padrao;
+}
+
+// "C5" => 2
+function indiceColunaXlsx(string $referencia): int {
+    $letras = preg_replace('/[^A-Z]/', '', strtoupper($referencia));
+    $indice = 0;
+    for ($i = 0; $i < strlen($letras); $i++) {
+        $indice = $indice * 26 + (ord($letras[$i]) - 64);
+    }
+    return max(0, $indice - 1);
+}
+
+function letraColunaXlsx(int $indice): string {
+    $letras = '';
+    $indice++;
+    while ($indice > 0) {
+        $resto = ($indice - 1) % 26;
+        $letras = chr(65 + $resto) . $letras;
+        $indice = intdiv($indice - 1, 26);
+    }
+    return $letras;
+}
+
+/**
+ * Conteúdo do arquivo no formato pedido
+ * Números (int/float) viram células numéricas no XLSX; o resto vai como texto
+ */
+function gerarPlanilha(array $linhas, string $formato): string {
+    return $formato === 'xlsx' ? gerarXlsx($linhas) : gerarCsv($linhas);
+}
+
+function gerarCsv(array $linhas): string {
+    $arquivo = fopen('php://temp', 'r+');
+    fwrite($arquivo, "\xEF\xBB\xBF");
+    foreach ($linhas as $linha) {
+        fputcsv($arquivo, $linha, ';', '"', '');
+    }
+    rewind($arquivo);
+    $conteudo = stream_get_contents($arquivo);
+    fclose($arquivo);
+    return $conteudo;
+}
+
+function gerarXlsx(array $linhas): string {
+    $xmlLinhas = '';
+    foreach ($linhas as $i => $linha) {
+        $numeroLinha = $i + 1;
+        $xmlLinhas .= "<row r=\"$numeroLinha\">";
+        foreach (array_values($linha) as $j => $valor) {
+            $ref = letraColunaXlsx($j) . $numeroLinha;
+            if (is_int($valor) || is_float($valor)) {
+                $xmlLinhas .= "<c r=\"$ref\"><v>$valor</v></c>";
+            } elseif ($valor !== null && $valor !== '') {
+                $texto = htmlspecialchars((string)$valor, ENT_XML1 | ENT_QUOTES, 'UTF-8');
+                $xmlLinhas .= "<c r=\"$ref\" t=\"inlineStr\"><is><t xml:space=\"preserve\">$texto</t></is></c>";
+            }
+        }
+        $xmlLinhas .= '</row>';
+    }
+
+    $arquivos = [
+        '[Content_Types].xml' => '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+            . '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+            . '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+            . '<Default Extension="xml" ContentType="application/xml"/>'
+            . '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+            . '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+            . '</Types>',
+        '_rels/.rels' => '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+            . '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+            . '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+            . '</Relationships>',
+        'xl/workbook.xml' => '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+            . '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+            . '<sheets><sheet name="Produtos" sheetId="1" r:id="rId1"/></sheets>'
+            . '</workbook>',
+        'xl/_rels/workbook.xml.rels' => '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+            . '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+            . '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+            . '</Relationships>',
+        'xl/worksheets/sheet1.xml' => '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+            . '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+            . "<sheetData>$xmlLinhas</sheetData>"
+            . '</worksheet>'
+    ];
+
+    $caminho = tempnam(sys_get_temp_dir(), 'xlsx');
+    $zip = new ZipArchive();
+    if ($zip->open($caminho, ZipArchive::OVERWRITE) !== true) {
+        throw new RuntimeException('Não foi possível gerar a planilha');
+    }
+    foreach ($arquivos as $nome => $conteudo) {
+        $zip->addFromString($nome, $conteudo);
+    }
+    $zip->close();
+
+    $conteudo = file_get_contents($caminho);
+    unlink($caminho);
+    return $conteudo;
+}
+
+/**
+ * Envia a planilha como download e encerra
+ */
+function enviarPlanilha(array $linhas, string $formato, string $nomeBase): void {
+    $conteudo = gerarPlanilha($linhas, $formato);
+
+    header('Content-Type: ' . PLANILHA_TIPOS[$formato]);
+    header('Content-Disposition: attachment; filename="' . $nomeBase . '.' . $formato . '"');
+    header('Content-Length: ' . strlen($conteudo));
+    echo $conteudo;
+    exit();
+}
+?>
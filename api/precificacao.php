@@ -0,0 +1,184 @@
+<?php
+/**
+ * Precificação do carrinho no servidor
+ *
+ * Recebe apenas ids (produto e variação, ou cor/capacidade) e quantidades e
+ * calcula preços, desconto, frete e total a partir do banco. É a mesma conta
+ * usada por api/precos.php (exibição) e por api/pedidos.php (criação do
+ * pedido), que rejeita totais diferentes do calculado aqui.
+ */
+
+require_once __DIR__ . '/estoque.php';
+require_once __DIR__ . '/frete/provedores.php';
+require_once __DIR__ . '/cupom.php';
+require_once __DIR__ . '/parcelamento.php';
+
+// Desconto PIX padrão (%), se não configurado
+const DESCONTO_PIX_PERCENTUAL_PADRAO = 5;
+
+// Diferença aceita entre o total enviado pelo cliente e o calculado (arredondamento)
+const PRECO_TOLERANCIA = 0.01;
+
+function obterDescontoPixPercentual($conexao): float {
+    $stmt = $conexao->prepare("SELECT valor FROM configuracoes WHERE chave = 'desconto_pix_percentual' LIMIT 1");
+    $stmt->execute();
+    $row = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    return $row && is_numeric($row['valor']) ? (float)$row['valor'] : DESCONTO_PIX_PERCENTUAL_PADRAO;
+}
+
+/**
+ * Calcula os valores do carrinho
+ *
+ * $itens: [['produto_id', 'variacao_id'?, 'cor'?, 'capacidade'?, 'quantidade'], ...]
+ * $cep / $freteServico: opcionais; sem eles o frete fica 0 e frete_servico null
+ * $formaPagamento: 'pix' aplica o desconto PIX sobre subtotal + frete - cupom
+ * $cupomCodigo: opcional; $usuarioId / $email entram no limite por cliente
+ *
+ * "desconto" é o total de descontos (cupom + PIX), o valor gravado no pedido.
+ * "parcelamento" fica null; aplicarParcelamento() o preenche e soma os juros
+ * do cartão ao total.
+ *
+ * Lança InvalidArgumentException para itens inválidos ou indisponíveis e
+ * quando o serviço de frete não atende o CEP, e CupomInvalidoException
+ * quando o cupom não se aplica.
+ */
+function calcularPrecosCarrinho($conexao, array $itens, ?string $cep = null, ?string $freteServico = null, ?string $formaPagamento = null, ?string $cupomCodigo = null, ?int $usuarioId = null, ?string $email = null): array {
+    if (count($itens) === 0) {
+        throw new InvalidArgumentException('Carrinho vazio');
+    }
+
+    $stmtProduto = $conexao->prepare("SELECT p.id, p.categoria_id, p.nome, p.sku, p.preco,
+            (SELECT url FROM produto_imagens WHERE produto_id = p.id ORDER BY principal DESC, ordem ASC LIMIT 1) AS imagem
+        FROM produtos p
+        WHERE p.id = ? AND p.ativo = 1
+        LIMIT 1");
+    $stmtVariacao = $conexao->prepare("SELECT cor, cor_codigo, capacidade, preco FROM produto_variacoes WHERE id = ? AND ativo = 1 LIMIT 1");
+
+    $linhas = [];
+    $subtotal = 0.0;
+
+    foreach (array_values($itens) as $indice => $item) {
+        $produtoId = (int)($item['produto_id'] ?? $item['id'] ?? 0);
+        $quantidade = (int)($item['quantidade'] ?? $item['quantity'] ?? 0);
+
+        if ($produtoId <= 0 || $quantidade <= 0) {
+            throw new InvalidArgumentException('Item inválido no carrinho');
+        }
+
+        $stmtProduto->bind_param('i', $produtoId);
+        $stmtProduto->execute();
+        $produto = $stmtProduto->get_result()->fetch_assoc();
+
+        if (!$produto) {
+            throw new InvalidArgumentException('Produto indisponível: ' . ($item['nome'] ?? $item['name'] ?? "#$produtoId"));
+        }
+
+        $precoUnitario = (float)$produto['preco'];
+        $cor = null;
+        $corCodigo = null;
+        $capacidade = null;
+
+        $variacaoId = resolverVariacao($conexao, $produtoId, $item);
+        if ($variacaoId !== null) {
+            $stmtVariacao->bind_param('i', $variacaoId);
+            $stmtVariacao->execute();
+            $variacao = $stmtVariacao->get_result()->fetch_assoc();
+
+            if (!$variacao) {
+                throw new InvalidArgumentException('Variação indisponível: ' . $produto['nome']);
+            }
+
+            $cor = $variacao['cor'];
+            $corCodigo = $variacao['cor_codigo'];
+            $capacidade = $variacao['capacidade'];
+            if ((float)$variacao['preco'] > 0) {
+                $precoUnitario = (float)$variacao['preco'];
+            }
+        }
+
+        $precoUnitario = round($precoUnitario, 2);
+        $totalLinha = round($precoUnitario * $quantidade, 2);
+        $subtotal += $totalLinha;
+
+        $linhas[] = [
+            'indice' => $indice,
+            'produto_id' => $produtoId,
+            'variacao_id' => $variacaoId,
+            'categoria_id' => $produto['categoria_id'] !== null ? (int)$produto['categoria_id'] : null,
+            'nome' => $produto['nome'],
+            'sku' => $produto['sku'],
+            'imagem' => $produto['imagem'],
+            'cor' => $cor,
+            'cor_codigo' => $corCodigo,
+            'capacidade' => $capacidade,
+            'quantidade' => $quantidade,
+            'preco_unitario' => $precoUnitario,
+            'subtotal' => $totalLinha
+        ];
+    }
+
+    $stmtProduto->close();
+    $stmtVariacao->close();
+
+    $subtotal = round($subtotal, 2);
+
+    $frete = 0.0;
+    $fretePrazo = null;
+    $freteServicoCalculado = null;
+
+    if ($cep !== null && $cep !== '' && $freteServico !== null && $freteServico !== '') {
+        $opcaoFrete = null;
+        foreach (cotarFrete($conexao, $cep, $itens, $subtotal) as $opcao) {
+            if ($opcao['servico'] === $freteServico) {
+                $opcaoFrete = $opcao;
+                break;
+            }
+        }
+
+        if (!$opcaoFrete) {
+            throw new InvalidArgumentException('Opção de frete indisponível para o CEP informado');
+        }
+
+        $frete = round((float)$opcaoFrete['preco'], 2);
+        $fretePrazo = (int)$opcaoFrete['prazo_dias'];
+        $freteServicoCalculado = $opcaoFrete['servico'];
+    }
+
+    $cupom = null;
+    $descontoCupom = 0.0;
+    if ($cupomCodigo !== null && trim($cupomCodigo) !== '') {
+        $cupom = calcularDescontoCupom($conexao, $cupomCodigo, $linhas, $subtotal, $frete, $usuarioId, $email);
+        $descontoCupom = $cupom['desconto'];
+    }
+
+    $descontoPercentual = $formaPagamento === 'pix' ? obterDescontoPixPercentual($conexao) : 0.0;
+    $descontoPix = round(($subtotal + $frete - $descontoCupom) * $descontoPercentual / 100, 2);
+    $desconto = round($descontoCupom + $descontoPix, 2);
+    $total = round($subtotal + $frete - $desconto, 2);
+
+    return [
+        'itens' => $linhas,
+        'subtotal' => $subtotal,
+        'frete' => $frete,
+        'frete_servico' => $freteServicoCalculado,
+        'frete_prazo_dias' => $fretePrazo,
+        'cupom' => $cupom,
+        'desconto_cupom' => $descontoCupom,
+        'desconto_pix' => $descontoPix,
+        'desconto' => $desconto,
+        'desconto_percentual' => $descontoPercentual,
+        'parcelamento' => null,
+        'total' => $total
+    ];
+}
+
+/**
+ * Total enviado pelo site confere com o do servidor, com até PRECO_TOLERANCIA de diferença
+ * A comparação é em centavos: 0,01 em ponto flutuante pode sair 0,0100000001
+ */
+function totalConfere(float $totalCliente, float $totalServidor): bool {
+    return abs(round(($totalCliente - $totalServidor) * 100)) <= round(PRECO_TOLERANCIA * 100);
+}
+?>
@@ -0,0 +1,79 @@
+<?php
+header('Content-Type: application/json; charset=utf-8');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: POST, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit();
+}
+
+require_once 'conexao.php';
+require_once 'precificacao.php';
+require_once 'auth.php';
+
+/**
+ * API de Preços do carrinho
+ *
+ * POST /api/precos.php
+ * {
+ *   "itens": [{ "produto_id": 3, "variacao_id": 1, "quantidade": 1 }],
+ *   "cep": "65000000",           (opcional)
+ *   "frete_servico": "PAC",      (opcional)
+ *   "forma_pagamento": "pix",    (opcional)
+ *   "parcelas": 10,              (opcional, só cartão)
+ *   "cupom": "BEMVINDO10",       (opcional)
+ *   "email": "cliente@email.com" (opcional, limite de uso por cliente)
+ * }
+ *
+ * Os preços vêm do banco; valores enviados pelo cliente são ignorados.
+ * O cliente logado, para o limite do cupom, vem do token (auth.php).
+ * O total retornado é o que api/pedidos.php exige na criação do pedido.
+ * Cupom que não se aplica responde 422 com code "cupom_invalido".
+ */
+
+try {
+    if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+        http_response_code(405);
+        echo json_encode(['success' => false, 'error' => 'Método não permitido'], JSON_UNESCAPED_UNICODE);
+        exit();
+    }
+
+    $input = json_decode(file_get_contents('php://input'), true);
+
+    if (!$input || empty($input['itens']) || !is_array($input['itens'])) {
+        http_response_code(400);
+        echo json_encode(['success' => false, 'error' => 'Itens são obrigatórios'], JSON_UNESCAPED_UNICODE);
+        exit();
+    }
+
+    $cliente = autenticarCliente($conexao, false);
+
+    $precos = calcularPrecosCarrinho(
+        $conexao,
+        $input['itens'],
+        isset($input['cep']) ? (string)$input['cep'] : null,
+        isset($input['frete_servico']) ? (string)$input['frete_servico'] : null,
+        isset($input['forma_pagamento']) ? (string)$input['forma_pagamento'] : null,
+        isset($input['cupom']) ? (string)$input['cupom'] : null,
+        $cliente ? (int)$cliente['id'] : null,
+        $cliente ? $cliente['email'] : (isset($input['email']) ? (string)$input['email'] : null)
+    );
+
+    if (($input['forma_pagamento'] ?? null) === 'cartao' && !empty($input['parcelas'])) {
+        $precos = aplicarParcelamento($precos, (int)$input['parcelas'], obterConfigParcelamento($conexao));
+    }
+
+    echo json_encode(['success' => true, 'data' => $precos], JSON_UNESCAPED_UNICODE);
+} catch (CupomInvalidoException $e) {
+    http_response_code(422);
+    echo json_encode(['success' => false, 'code' => 'cupom_invalido', 'error' => $e->getMessage()], JSON_UNESCAPED_UNICODE);
+} catch (InvalidArgumentException $e) {
+    http_response_code(400);
+    echo json_encode(['success' => false, 'error' => $e->getMessage()], JSON_UNESCAPED_UNICODE);
+} catch (Throwable $e) {
+    http_response_code(500);
+    echo json_encode(['success' => false, 'error' => $e->getMessage()], JSON_UNESCAPED_UNICODE);
+}
+?>
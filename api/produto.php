@@ -16,6 +16,7 @@ if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
 }
 
 require_once 'conexao.php';
+require_once 'imagens.php';
 
 try {
     $id = isset($_GET['id']) ? intval($_GET['id']) : null;
@@ -70,7 +71,7 @@ try {
     $produtoId = intval($row['id']);
     
     // Buscar imagens
-    $sqlImagens = "SELECT url, principal FROM produto_imagens WHERE produto_id = ? ORDER BY principal DESC, ordem ASC";
+    $sqlImagens = "SELECT url, variantes, principal FROM produto_imagens WHERE produto_id = ? ORDER BY principal DESC, ordem ASC";
     $stmtImagens = $conexao->prepare($sqlImagens);
     $stmtImagens->bind_param('i', $produtoId);
     $stmtImagens->execute();
@@ -78,13 +79,13 @@ try {
     
     $imagens = [];
     while ($img = $resultImagens->fetch_assoc()) {
-        $imagens[] = $img['url'];
+        $imagens[] = imagemParaVitrine($img);
     }
     $stmtImagens->close();
     
     // Se não tiver imagens, usar placeholder
     if (empty($imagens)) {
-        $imagens[] = '/placeholder.svg';
+        $imagens[] = ['url' => '/placeholder.svg', 'variants' => []];
     }
     
     // Buscar especificações
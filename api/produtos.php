@@ -16,6 +16,7 @@ if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
 }
 
 require_once 'conexao.php';
+require_once 'imagens.php';
 
 try {
     // Buscar produtos ativos com estoque
@@ -60,7 +61,7 @@ try {
         $produtoId = intval($row['id']);
         
         // Buscar imagens do produto
-        $sqlImagens = "SELECT url, principal FROM produto_imagens WHERE produto_id = ? ORDER BY principal DESC, ordem ASC";
+        $sqlImagens = "SELECT url, variantes, principal FROM produto_imagens WHERE produto_id = ? ORDER BY principal DESC, ordem ASC";
         $stmtImagens = $conexao->prepare($sqlImagens);
         $stmtImagens->bind_param('i', $produtoId);
         $stmtImagens->execute();
@@ -68,13 +69,13 @@ try {
         
         $imagens = [];
         while ($img = $resultImagens->fetch_assoc()) {
-            $imagens[] = $img['url'];
+            $imagens[] = imagemParaVitrine($img);
         }
         $stmtImagens->close();
         
         // Se não tiver imagens, usar placeholder
         if (empty($imagens)) {
-            $imagens[] = '/placeholder.svg';
+            $imagens[] = ['url' => '/placeholder.svg', 'variants' => []];
         }
         
         // Buscar especificações do produto
@@ -0,0 +1,57 @@
+<?php
+/**
+ * API de Recuperação de Senha
+ * POST /recuperar_senha.php { email }
+ *
+ * Envia ao email um link de redefinição (conta_tokens.php). A resposta é a
+ * mesma havendo ou não conta com o email, para não revelar quem é cliente.
+ */
+
+header('Content-Type: application/json; charset=utf-8');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: POST, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+// Handle preflight
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit();
+}
+
+require_once 'conexao.php';
+require_once 'conta_tokens.php';
+
+// Apenas POST é permitido
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    http_response_code(405);
+    echo json_encode(['success' => false, 'error' => 'Método não permitido'], JSON_UNESCAPED_UNICODE);
+    exit();
+}
+
+$input = json_decode(file_get_contents('php://input'), true);
+$email = trim($input['email'] ?? '');
+
+if (!filter_var($email, FILTER_VALIDATE_EMAIL)) {
+    http_response_code(400);
+    echo json_encode(['success' => false, 'error' => 'Email inválido'], JSON_UNESCAPED_UNICODE);
+    exit();
+}
+
+$stmt = $conexao->prepare("SELECT id, nome, email FROM usuarios WHERE email = ? AND ativo = 1");
+$stmt->bind_param("s", $email);
+$stmt->execute();
+$usuario = $stmt->get_result()->fetch_assoc();
+$stmt->close();
+
+// Pedido repetido dentro do intervalo mínimo: o link anterior continua valendo
+if ($usuario) {
+    enviarEmailRedefinicaoSenha($conexao, $usuario);
+}
+
+$conexao->close();
+
+echo json_encode([
+    'success' => true,
+    'message' => 'Se houver uma conta com este email, você receberá um link para criar uma nova senha'
+], JSON_UNESCAPED_UNICODE);
+?>
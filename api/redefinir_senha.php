@@ -0,0 +1,67 @@
+<?php
+/**
+ * API de Redefinição de Senha
+ * POST /redefinir_senha.php { token, senha }
+ *
+ * Troca a senha com o token do link enviado por recuperar_senha.php. Todas
+ * as sessões abertas são encerradas (token_versao) e, como o cliente provou
+ * ter acesso à caixa de entrada, o email passa a contar como confirmado.
+ */
+
+header('Content-Type: application/json; charset=utf-8');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: POST, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+// Handle preflight
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit();
+}
+
+require_once 'conexao.php';
+require_once 'conta_tokens.php';
+
+// Apenas POST é permitido
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    http_response_code(405);
+    echo json_encode(['success' => false, 'error' => 'Método não permitido'], JSON_UNESCAPED_UNICODE);
+    exit();
+}
+
+$input = json_decode(file_get_contents('php://input'), true);
+$token = trim((string)($input['token'] ?? ''));
+$senha = $input['senha'] ?? '';
+
+if (strlen($senha) < 6) {
+    http_response_code(400);
+    echo json_encode(['success' => false, 'error' => 'Senha deve ter pelo menos 6 caracteres'], JSON_UNESCAPED_UNICODE);
+    exit();
+}
+
+$usuarioId = consumirTokenConta($conexao, $token, 'redefinir_senha');
+
+if ($usuarioId === null) {
+    http_response_code(400);
+    echo json_encode([
+        'success' => false,
+        'code' => 'token_invalido',
+        'error' => 'Link inválido ou expirado. Peça um novo link de redefinição'
+    ], JSON_UNESCAPED_UNICODE);
+    exit();
+}
+
+$senhaHash = password_hash($senha, PASSWORD_DEFAULT);
+
+$stmt = $conexao->prepare("UPDATE usuarios SET senha = ?, token_versao = token_versao + 1,
+    email_verificado = 1, email_verificado_em = COALESCE(email_verificado_em, NOW()) WHERE id = ?");
+$stmt->bind_param("si", $senhaHash, $usuarioId);
+$stmt->execute();
+$stmt->close();
+$conexao->close();
+
+echo json_encode([
+    'success' => true,
+    'message' => 'Senha alterada. Entre com a nova senha'
+], JSON_UNESCAPED_UNICODE);
+?>
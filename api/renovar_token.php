@@ -0,0 +1,49 @@
+<?php
+/**
+ * API de Renovação de Token
+ * POST /renovar_token.php { refresh_token }
+ *
+ * Troca um token de renovação válido por um novo par de tokens
+ * (api/auth.php). Token inválido responde 401 com code "token_invalido".
+ */
+
+header('Content-Type: application/json; charset=utf-8');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: POST, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+// Handle preflight
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit();
+}
+
+require_once 'conexao.php';
+require_once 'auth.php';
+
+// Apenas POST é permitido
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    http_response_code(405);
+    echo json_encode(['success' => false, 'error' => 'Método não permitido']);
+    exit();
+}
+
+$input = json_decode(file_get_contents('php://input'), true);
+$refreshToken = trim((string)($input['refresh_token'] ?? ''));
+
+$payload = $refreshToken !== '' ? lerToken($refreshToken, 'renovacao') : null;
+$usuario = $payload ? buscarUsuarioDoToken($conexao, $payload) : null;
+
+if (!$usuario) {
+    responderTokenInvalido();
+}
+
+$tokens = gerarTokensUsuario($usuario);
+
+echo json_encode([
+    'success' => true,
+    'data' => $tokens + [
+        'usuario' => dadosUsuarioSessao($usuario)
+    ]
+], JSON_UNESCAPED_UNICODE);
+?>
@@ -0,0 +1,249 @@
+<?php
+/**
+ * Trade-in: avaliação do iPhone usado do cliente
+ *
+ * A tabela de preços (tradein_precos) guarda, por modelo e capacidade, a
+ * faixa paga por um aparelho sem defeitos e com bateria perfeita. A cotação
+ * do assistente aplica sobre ela o fator da saúde da bateria e os descontos
+ * das respostas às perguntas de condição; algumas respostas impedem a
+ * avaliação (TradeInRecusadoException).
+ *
+ * O envio cria uma avaliação pendente (tradein_avaliacoes) que a equipe
+ * analisa no painel (admin/tradein_avaliacoes.php), seguindo
+ * TRADEIN_TRANSICOES. Aceita, a avaliação vira crédito na loja: um cupom de
+ * valor fixo e uso único (gerarCreditoTradeIn), descontado no pedido em que o
+ * cliente o usar. Os textos das perguntas ficam em src/lib/tradeIn.ts.
+ */
+
+require_once __DIR__ . '/email.php';
+
+// Mesmos valores de BATTERY_HEALTH (src/lib/produtoCondicao.ts)
+const TRADEIN_BATERIA_FATORES = [
+    'perfeita' => 1.0,
+    'boa' => 0.95,
+    'ok' => 0.85,
+    'ruim' => 0.75,
+    'muito_ruim' => 0.6
+];
+
+// Resposta (sim/não) que indica problema e o que ela causa: desconto sobre a faixa ou recusa
+const TRADEIN_PERGUNTAS = [
+    'liga' => ['problema' => false, 'recusa' => 'Só avaliamos aparelhos que ligam e funcionam normalmente'],
+    'icloud' => ['problema' => false, 'recusa' => 'Desative o Buscar iPhone e saia da conta iCloud antes de pedir a avaliação'],
+    'tela' => ['problema' => true, 'desconto' => 0.30],
+    'carcaca' => ['problema' => true, 'desconto' => 0.15],
+    'biometria' => ['problema' => false, 'desconto' => 0.20],
+    'cameras' => ['problema' => false, 'desconto' => 0.15],
+    'reparo' => ['problema' => true, 'desconto' => 0.10]
+];
+
+const TRADEIN_ETAPAS = ['pendente', 'em_analise', 'aceita', 'recusada'];
+
+// Aceita e recusada encerram a avaliação
+const TRADEIN_TRANSICOES = [
+    'pendente' => ['em_analise', 'recusada'],
+    'em_analise' => ['aceita', 'recusada'],
+    'aceita' => [],
+    'recusada' => []
+];
+
+const TRADEIN_ETAPA_LABELS = [
+    'pendente' => 'Aguardando análise',
+    'em_analise' => 'Em análise',
+    'aceita' => 'Aceita',
+    'recusada' => 'Recusada'
+];
+
+const TRADEIN_CREDITO_DIAS_PADRAO = 180;
+
+// Crédito acima da cotação máxima: só quem já pode criar cupons à vontade
+const TRADEIN_PERMISSAO_ACIMA_COTACAO = 'cupons.editar';
+
+class TradeInRecusadoException extends Exception {
+    public function __construct(string $mensagem) {
+        parent::__construct($mensagem, 422);
+    }
+}
+
+/**
+ * Mensagem de erro da mudança de etapa, ou null se permitida
+ */
+function validarTransicaoTradeIn(string $de, string $para): ?string {
+    if (!in_array($para, TRADEIN_ETAPAS, true)) {
+        return "Etapa inválida: $para";
+    }
+
+    if ($de !== $para && !in_array($para, TRADEIN_TRANSICOES[$de] ?? [], true)) {
+        $deLabel = TRADEIN_ETAPA_LABELS[$de] ?? $de;
+        $paraLabel = TRADEIN_ETAPA_LABELS[$para];
+        return "Não é possível alterar a avaliação de \"$deLabel\" para \"$paraLabel\"";
+    }
+
+    return null;
+}
+
+/**
+ * Mensagem de erro do valor final ao aceitar, ou null se permitido
+ * Acima da cotação máxima o crédito exige TRADEIN_PERMISSAO_ACIMA_COTACAO
+ * Mesma regra de validarValorFinalTradeIn (src/lib/tradeIn.ts)
+ */
+function validarValorFinalTradeIn(float $valor, float $cotacaoMaxima, bool $podeExceder): ?string {
+    if (round($valor * 100) > round($cotacaoMaxima * 100) && !$podeExceder) {
+        return 'O valor final passa da cotação máxima; só quem pode editar cupons aprova um crédito acima dela';
+    }
+
+    return null;
+}
+
+/**
+ * Respostas do assistente como [pergunta => bool], todas obrigatórias
+ * Lança InvalidArgumentException se faltar alguma
+ */
+function normalizarRespostasTradeIn($respostas): array {
+    if (!is_array($respostas)) {
+        throw new InvalidArgumentException('Responda às perguntas sobre o aparelho');
+    }
+
+    $normalizadas = [];
+    foreach (array_keys(TRADEIN_PERGUNTAS) as $chave) {
+        if (!isset($respostas[$chave]) || !is_bool($respostas[$chave])) {
+            throw new InvalidArgumentException('Responda às perguntas sobre o aparelho');
+        }
+        $normalizadas[$chave] = $respostas[$chave];
+    }
+
+    return $normalizadas;
+}
+
+/**
+ * Faixa de valor do aparelho: ['cotacao_minima', 'cotacao_maxima']
+ *
+ * Os fatores da bateria e das respostas se multiplicam sobre a faixa da
+ * tabela; os valores são arredondados para baixo, em dezenas de reais.
+ * Lança InvalidArgumentException (modelo fora da tabela, dados inválidos) ou
+ * TradeInRecusadoException (resposta que impede a avaliação).
+ */
+function cotarTradeIn($conexao, string $modelo, string $capacidade, string $bateria, array $respostas): array {
+    if (!isset(TRADEIN_BATERIA_FATORES[$bateria])) {
+        throw new InvalidArgumentException('Saúde da bateria inválida');
+    }
+
+    $stmt = $conexao->prepare("SELECT valor_minimo, valor_maximo FROM tradein_precos WHERE modelo = ? AND capacidade = ? AND ativo = 1 LIMIT 1");
+    $stmt->bind_param('ss', $modelo, $capacidade);
+    $stmt->execute();
+    $preco = $stmt->get_result()->fetch_assoc();
+    $stmt->close();
+
+    if (!$preco) {
+        throw new InvalidArgumentException('Ainda não avaliamos este modelo nesta capacidade');
+    }
+
+    $fator = TRADEIN_BATERIA_FATORES[$bateria];
+    foreach (TRADEIN_PERGUNTAS as $chave => $pergunta) {
+        if ($respostas[$chave] !== $pergunta['problema']) {
+            continue;
+        }
+        if (isset($pergunta['recusa'])) {
+            throw new TradeInRecusadoException($pergunta['recusa']);
+        }
+        $fator *= 1 - $pergunta['desconto'];
+    }
+
+    return [
+        'cotacao_minima' => floor((float)$preco['valor_minimo'] * $fator / 10) * 10,
+        'cotacao_maxima' => floor((float)$preco['valor_maximo'] * $fator / 10) * 10
+    ];
+}
+
+/**
+ * Número da avaliação mostrado ao cliente: TI + 6 letras ou números
+ */
+function gerarNumeroTradeIn($conexao): string {
+    $caracteres = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+    for ($tentativa = 0; $tentativa < 10; $tentativa++) {
+        $numero = 'TI';
+        for ($i = 0; $i < 6; $i++) {
+            $numero .= $caracteres[random_int(0, strlen($caracteres) - 1)];
+        }
+
+        $stmt = $conexao->prepare("SELECT 1 FROM tradein_avaliacoes WHERE numero = ? LIMIT 1");
+        $stmt->bind_param('s', $numero);
+        $stmt->execute();
+        $existe = $stmt->get_result()->num_rows > 0;
+        $stmt->close();
+
+        if (!$existe) {
+            return $numero;
+        }
+    }
+
+    throw new Exception('Não foi possível gerar o número da avaliação');
+}
+
+function validadeCreditoTradeIn($conexao): int {
+    $result = $conexao->query("SELECT valor FROM configuracoes WHERE chave = 'tradein_credito_dias' LIMIT 1");
+    $row = $result->fetch_assoc();
+    return $row && (int)$row['valor'] > 0 ? (int)$row['valor'] : TRADEIN_CREDITO_DIAS_PADRAO;
+}
+
+/**
+ * Cria o cupom de crédito da avaliação aceita e retorna ['id', 'codigo', 'valido_ate']
+ * Valor fixo, uso único e sem valor mínimo; como todo cupom de valor fixo, o
+ * desconto se limita ao subtotal do pedido e a sobra não fica para depois.
+ * Deve ser chamada dentro da transação que aceita a avaliação.
+ */
+function gerarCreditoTradeIn($conexao, array $avaliacao, float $valor): array {
+    $codigo = 'TROCA-' . strtoupper(bin2hex(random_bytes(4)));
+    $descricao = "Crédito do trade-in {$avaliacao['numero']}";
+    $validoAte = date('Y-m-d 23:59:59', strtotime('+' . validadeCreditoTradeIn($conexao) . ' days'));
+
+    $stmt = $conexao->prepare("INSERT INTO cupons (codigo, descricao, tipo, valor, valido_ate, limite_uso, limite_por_cliente)
+        VALUES (?, ?, 'valor_fixo', ?, ?, 1, 1)");
+    $stmt->bind_param('ssds', $codigo, $descricao, $valor, $validoAte);
+    if (!$stmt->execute()) {
+        throw new Exception('Erro ao gerar o crédito: ' . $stmt->error);
+    }
+    $id = $stmt->insert_id;
+    $stmt->close();
+
+    return ['id' => $id, 'codigo' => $codigo, 'valido_ate' => $validoAte];
+}
+
+function formatarValorTradeIn(float $valor): string {
+    return 'R$ ' . number_format($valor, 2, ',', '.');
+}
+
+/**
+ * Confirma ao cliente o recebimento da avaliação, com a cotação
+ */
+function enviarEmailTradeInRecebido($conexao, array $avaliacao): bool {
+    $corpo = "Olá, {$avaliacao['nome']}!\n\n"
+        . "Recebemos o pedido de avaliação {$avaliacao['numero']} do seu {$avaliacao['modelo']} {$avaliacao['capacidade']}.\n"
+        . "Cotação: " . formatarValorTradeIn((float)$avaliacao['cotacao_minima']) . " a " . formatarValorTradeIn((float)$avaliacao['cotacao_maxima']) . ".\n\n"
+        . "Nossa equipe vai entrar em contato para combinar a análise do aparelho. "
+        . "O valor final é confirmado depois dela.";
+
+    return enviarEmail($conexao, $avaliacao['email'], "Avaliação {$avaliacao['numero']} recebida", $corpo);
+}
+
+/**
+ * Avisa o cliente do resultado: o cupom de crédito ou o motivo da recusa
+ */
+function enviarEmailTradeInConcluido($conexao, array $avaliacao, ?array $credito): bool {
+    if ($credito !== null) {
+        $corpo = "Olá, {$avaliacao['nome']}!\n\n"
+            . "Seu {$avaliacao['modelo']} {$avaliacao['capacidade']} foi avaliado em " . formatarValorTradeIn((float)$avaliacao['valor_final']) . ".\n"
+            . "O valor virou crédito na loja: use o cupom {$credito['codigo']} ao finalizar a compra, até " . date('d/m/Y', strtotime($credito['valido_ate'])) . ".\n"
+            . "O crédito é usado de uma vez, em um único pedido.";
+        $assunto = "Avaliação {$avaliacao['numero']} aceita";
+    } else {
+        $corpo = "Olá, {$avaliacao['nome']}!\n\n"
+            . "Não foi possível aceitar o seu {$avaliacao['modelo']} {$avaliacao['capacidade']} no trade-in."
+            . ($avaliacao['observacoes'] ? "\n\n{$avaliacao['observacoes']}" : '');
+        $assunto = "Avaliação {$avaliacao['numero']} recusada";
+    }
+
+    return enviarEmail($conexao, $avaliacao['email'], $assunto, $corpo);
+}
+?>
@@ -0,0 +1,141 @@
+<?php
+header('Content-Type: application/json; charset=utf-8');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: GET, POST, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit();
+}
+
+require_once 'conexao.php';
+require_once 'auth.php';
+require_once 'cliente.php';
+require_once 'tradein.php';
+
+/**
+ * API do assistente "Quanto vale o meu iPhone?" (trade-in)
+ *
+ * GET  /api/tradein_avaliacoes.php         - Modelos e capacidades da tabela de preços
+ * POST /api/tradein_avaliacoes.php?cotar=1 - Cotação { modelo, capacidade, saude_bateria, respostas }
+ * POST /api/tradein_avaliacoes.php         - Envia para avaliação: cotação + { nome, email, telefone }
+ *
+ * A cotação é sempre calculada no servidor (tradein.php). Aparelho que não
+ * pode ser avaliado responde 422 com code "tradein_recusado". O cliente
+ * logado, se houver, fica ligado à avaliação.
+ */
+
+try {
+    switch ($_SERVER['REQUEST_METHOD']) {
+        case 'GET':
+            handleGet($conexao);
+            break;
+        case 'POST':
+            handlePost($conexao);
+            break;
+        default:
+            responderJson(['success' => false, 'error' => 'Método não permitido'], 405);
+    }
+} catch (TradeInRecusadoException $e) {
+    responderJson(['success' => false, 'code' => 'tradein_recusado', 'error' => $e->getMessage()], 422);
+} catch (InvalidArgumentException $e) {
+    responderJson(['success' => false, 'error' => $e->getMessage()], 400);
+} catch (Throwable $e) {
+    responderJson(['success' => false, 'error' => $e->getMessage()], 500);
+}
+
+function responderJson($data, int $codigo = 200) {
+    http_response_code($codigo);
+    echo json_encode($data, JSON_UNESCAPED_UNICODE);
+}
+
+function handleGet($conexao) {
+    $result = $conexao->query("SELECT modelo, capacidade FROM tradein_precos WHERE ativo = 1 ORDER BY modelo, capacidade");
+    $modelos = [];
+    while ($row = $result->fetch_assoc()) {
+        $modelos[] = $row;
+    }
+    responderJson(['success' => true, 'data' => $modelos]);
+}
+
+function handlePost($conexao) {
+    $input = json_decode(file_get_contents('php://input'), true) ?: [];
+
+    $modelo = trim((string)($input['modelo'] ?? ''));
+    $capacidade = trim((string)($input['capacidade'] ?? ''));
+    $bateria = (string)($input['saude_bateria'] ?? '');
+    $respostas = normalizarRespostasTradeIn($input['respostas'] ?? null);
+
+    $cotacao = cotarTradeIn($conexao, $modelo, $capacidade, $bateria, $respostas);
+
+    if (!empty($_GET['cotar'])) {
+        responderJson(['success' => true, 'data' => $cotacao]);
+        return;
+    }
+
+    $nome = trim((string)($input['nome'] ?? ''));
+    $email = trim((string)($input['email'] ?? ''));
+    $telefone = trim((string)($input['telefone'] ?? ''));
+
+    if ($nome === '') {
+        throw new InvalidArgumentException('Informe seu nome');
+    }
+    if (!filter_var($email, FILTER_VALIDATE_EMAIL)) {
+        throw new InvalidArgumentException('Email inválido');
+    }
+    if (!validarTelefone($telefone)) {
+        throw new InvalidArgumentException('Telefone inválido');
+    }
+
+    $cliente = autenticarCliente($conexao, false);
+    $usuarioId = $cliente ? (int)$cliente['id'] : null;
+
+    $avaliacao = [
+        'numero' => gerarNumeroTradeIn($conexao),
+        'nome' => mb_substr($nome, 0, 100),
+        'email' => $email,
+        'telefone' => formatarTelefone($telefone),
+        'modelo' => $modelo,
+        'capacidade' => $capacidade,
+        'saude_bateria' => $bateria,
+        'respostas' => json_encode($respostas),
+        'cotacao_minima' => $cotacao['cotacao_minima'],
+        'cotacao_maxima' => $cotacao['cotacao_maxima']
+    ];
+
+    $stmt = $conexao->prepare("INSERT INTO tradein_avaliacoes
+        (numero, usuario_id, nome, email, telefone, modelo, capacidade, saude_bateria, respostas, cotacao_minima, cotacao_maxima)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)");
+    $stmt->bind_param(
+        'sisssssssdd',
+        $avaliacao['numero'],
+        $usuarioId,
+        $avaliacao['nome'],
+        $avaliacao['email'],
+        $avaliacao['telefone'],
+        $avaliacao['modelo'],
+        $avaliacao['capacidade'],
+        $avaliacao['saude_bateria'],
+        $avaliacao['respostas'],
+        $avaliacao['cotacao_minima'],
+        $avaliacao['cotacao_maxima']
+    );
+    if (!$stmt->execute()) {
+        throw new Exception('Erro ao enviar a avaliação: ' . $stmt->error);
+    }
+    $stmt->close();
+
+    // A avaliação já está gravada; uma falha no email não desfaz o envio
+    enviarEmailTradeInRecebido($conexao, $avaliacao);
+
+    responderJson([
+        'success' => true,
+        'data' => [
+            'numero' => $avaliacao['numero'],
+            'cotacao_minima' => $avaliacao['cotacao_minima'],
+            'cotacao_maxima' => $avaliacao['cotacao_maxima']
+        ]
+    ], 201);
+}
+?>
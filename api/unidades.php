@@ -0,0 +1,225 @@
+<?php
+/**
+ * Unidades de aparelho: um registro por iPhone físico
+ *
+ * Cada unidade pertence a um produto (e, se houver, a uma variação) e guarda
+ * IMEI ou número de série, saúde exata da bateria, grade estética, custo de
+ * compra e data de entrada. Produtos com unidades cadastradas têm o estoque,
+ * do produto e de cada variação, calculado pelas unidades em estoque
+ * (sincronizarEstoqueUnidades); os demais seguem com o estoque digitado.
+ *
+ * A reserva, a venda e a devolução ao estoque acompanham o pedido
+ * (estoque.php) e ligam a unidade ao item do pedido (pedido_item_id). As
+ * demais mudanças de situação são feitas no painel (admin/unidades.php),
+ * seguindo UNIDADE_TRANSICOES. Os rótulos ficam em src/lib/unidades.ts.
+ */
+
+const UNIDADE_SITUACOES = ['em_estoque', 'reservado', 'vendido', 'em_reparo', 'devolvido'];
+
+// A: sem marcas de uso, B: marcas leves, C: marcas visíveis
+const UNIDADE_GRADES = ['A', 'B', 'C'];
+
+// Mudanças de situação permitidas no painel; reservado e vendido vêm só do pedido
+const UNIDADE_TRANSICOES = [
+    'em_estoque' => ['em_reparo'],
+    'reservado' => [],
+    'vendido' => ['devolvido'],
+    'em_reparo' => ['em_estoque'],
+    'devolvido' => ['em_estoque', 'em_reparo']
+];
+
+const UNIDADE_SITUACAO_LABELS = [
+    'em_estoque' => 'Em estoque',
+    'reservado' => 'Reservado',
+    'vendido' => 'Vendido',
+    'em_reparo' => 'Em reparo',
+    'devolvido' => 'Devolvido'
+];
+
+/**
+ * Mensagem de erro da mudança de situação feita no painel, ou null se permitida
+ */
+function validarTransicaoUnidade(string $de, string $para): ?string {
+    if (!in_array($para, UNIDADE_SITUACOES, true)) {
+        return "Situação inválida: $para";
+    }
+
+    if ($de !== $para && !in_array($para, UNIDADE_TRANSICOES[$de] ?? [], true)) {
+        $deLabel = UNIDADE_SITUACAO_LABELS[$de] ?? $de;
+        $paraLabel = UNIDADE_SITUACAO_LABELS[$para];
+        return "Não é possível alterar a unidade de \"$deLabel\" para \"$paraLabel\"";
+    }
+
+    return null;
+}
+
+/**
+ * IMEI: 15 dígitos, o último é o verificador de Luhn
+ */
+function validarImei(string $imei): bool {
+    if (!preg_match('/^\d{15}$/', $imei)) {
+        return false;
+    }
+
+    $soma = 0;
+    for ($i = 0; $i < 15; $i++) {
+        $digito = (int)$imei[$i];
+        // Dobra um dígito sim, outro não, a partir do penúltimo
+        if ($i % 2 === 1) {
+            $digito *= 2;
+            if ($digito > 9) {
+                $digito -= 9;
+            }
+        }
+        $soma += $digito;
+    }
+
+    return $soma % 10 === 0;
+}
+
+function produtoUsaUnidades($conexao, int $produtoId): bool {
+    $stmt = $conexao->prepare("SELECT 1 FROM produto_unidades WHERE produto_id = ? LIMIT 1");
+    $stmt->bind_param('i', $produtoId);
+    $stmt->execute();
+    $usa = $stmt->get_result()->num_rows > 0;
+    $stmt->close();
+    return $usa;
+}
+
+/**
+ * Recalcula o estoque do produto e das variações pelas unidades em estoque
+ * Produtos sem nenhuma unidade cadastrada ficam como estão, a não ser com
+ * $forcar (a última unidade acabou de sair do produto: o estoque vai a zero)
+ */
+function sincronizarEstoqueUnidades($conexao, int $produtoId, bool $forcar = false): void {
+    if (!$forcar && !produtoUsaUnidades($conexao, $produtoId)) {
+        return;
+    }
+
+    $stmt = $conexao->prepare("UPDATE produto_variacoes v
+        SET v.estoque = (SELECT COUNT(*) FROM produto_unidades u WHERE u.variacao_id = v.id AND u.situacao = 'em_estoque')
+        WHERE v.produto_id = ?");
+    $stmt->bind_param('i', $produtoId);
+    $stmt->execute();
+    $stmt->close();
+
+    $stmt = $conexao->prepare("UPDATE produtos
+        SET estoque = (SELECT COUNT(*) FROM produto_unidades WHERE produto_id = ? AND situacao = 'em_estoque')
+        WHERE id = ?");
+    $stmt->bind_param('ii', $produtoId, $produtoId);
+    $stmt->execute();
+    $stmt->close();
+}
+
+/**
+ * Reserva unidades em estoque para o item do pedido, as mais antigas primeiro
+ * Deve ser chamada dentro da transação que cria o pedido: o FOR UPDATE impede
+ * que dois pedidos levem a mesma unidade. Retorna false se não houver o
+ * suficiente (nada é reservado nesse caso).
+ */
+function reservarUnidades($conexao, int $produtoId, ?int $variacaoId, int $quantidade, ?int $pedidoItemId): bool {
+    if ($variacaoId !== null) {
+        $stmt = $conexao->prepare("SELECT id FROM produto_unidades
+            WHERE produto_id = ? AND variacao_id = ? AND situacao = 'em_estoque'
+            ORDER BY data_entrada, id LIMIT ? FOR UPDATE");
+        $stmt->bind_param('iii', $produtoId, $variacaoId, $quantidade);
+    } else {
+        $stmt = $conexao->prepare("SELECT id FROM produto_unidades
+            WHERE produto_id = ? AND situacao = 'em_estoque'
+            ORDER BY data_entrada, id LIMIT ? FOR UPDATE");
+        $stmt->bind_param('ii', $produtoId, $quantidade);
+    }
+    $stmt->execute();
+    $result = $stmt->get_result();
+    $ids = [];
+    while ($row = $result->fetch_assoc()) {
+        $ids[] = (int)$row['id'];
+    }
+    $stmt->close();
+
+    if (count($ids) < $quantidade) {
+        return false;
+    }
+
+    $stmt = $conexao->prepare("UPDATE produto_unidades SET situacao = 'reservado', pedido_item_id = ? WHERE id = ? AND situacao = 'em_estoque'");
+    foreach ($ids as $id) {
+        $stmt->bind_param('ii', $pedidoItemId, $id);
+        $stmt->execute();
+        if ($stmt->affected_rows === 0) {
+            $stmt->close();
+            throw new Exception('Unidade reservada por outro pedido');
+        }
+    }
+    $stmt->close();
+
+    return true;
+}
+
+/**
+ * Pedido pago: as unidades reservadas passam a vendidas
+ */
+function confirmarUnidadesPedido($conexao, int $pedidoId): void {
+    $stmt = $conexao->prepare("UPDATE produto_unidades u
+        INNER JOIN pedido_itens i ON i.id = u.pedido_item_id
+        SET u.situacao = 'vendido'
+        WHERE i.pedido_id = ? AND u.situacao = 'reservado'");
+    $stmt->bind_param('i', $pedidoId);
+    $stmt->execute();
+    $stmt->close();
+}
+
+/**
+ * Pedido cancelado: as unidades reservadas ou vendidas voltam ao estoque
+ */
+function liberarUnidadesPedido($conexao, int $pedidoId): void {
+    $stmt = $conexao->prepare("SELECT DISTINCT u.produto_id
+        FROM produto_unidades u
+        INNER JOIN pedido_itens i ON i.id = u.pedido_item_id
+        WHERE i.pedido_id = ? AND u.situacao IN ('reservado', 'vendido')
+        FOR UPDATE");
+    $stmt->bind_param('i', $pedidoId);
+    $stmt->execute();
+    $result = $stmt->get_result();
+    $produtos = [];
+    while ($row = $result->fetch_assoc()) {
+        $produtos[] = (int)$row['produto_id'];
+    }
+    $stmt->close();
+
+    if (count($produtos) === 0) {
+        return;
+    }
+
+    $stmt = $conexao->prepare("UPDATE produto_unidades u
+        INNER JOIN pedido_itens i ON i.id = u.pedido_item_id
+        SET u.situacao = 'em_estoque', u.pedido_item_id = NULL
+        WHERE i.pedido_id = ? AND u.situacao IN ('reservado', 'vendido')");
+    $stmt->bind_param('i', $pedidoId);
+    $stmt->execute();
+    $stmt->close();
+
+    foreach ($produtos as $produtoId) {
+        sincronizarEstoqueUnidades($conexao, $produtoId);
+    }
+}
+
+/**
+ * IMEI ou número de série das unidades de cada item do pedido: [pedido_item_id => [..]]
+ */
+function listarUnidadesPedido($conexao, int $pedidoId): array {
+    $stmt = $conexao->prepare("SELECT u.pedido_item_id, COALESCE(u.imei, u.numero_serie) AS identificacao
+        FROM produto_unidades u
+        INNER JOIN pedido_itens i ON i.id = u.pedido_item_id
+        WHERE i.pedido_id = ?
+        ORDER BY u.id");
+    $stmt->bind_param('i', $pedidoId);
+    $stmt->execute();
+    $result = $stmt->get_result();
+    $unidades = [];
+    while ($row = $result->fetch_assoc()) {
+        $unidades[(int)$row['pedido_item_id']][] = $row['identificacao'];
+    }
+    $stmt->close();
+    return $unidades;
+}
+?>
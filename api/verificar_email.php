@@ -0,0 +1,81 @@
+<?php
+/**
+ * API de Confirmação de Email
+ *
+ * POST /verificar_email.php { token }  - Confirma o email com o token do link
+ * POST /verificar_email.php (Authorization: Bearer, sem token) - Reenvia o
+ *   link ao cliente logado, no máximo um por minuto
+ */
+
+header('Content-Type: application/json; charset=utf-8');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: POST, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+// Handle preflight
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit();
+}
+
+require_once 'conexao.php';
+require_once 'auth.php';
+require_once 'conta_tokens.php';
+
+// Apenas POST é permitido
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    http_response_code(405);
+    echo json_encode(['success' => false, 'error' => 'Método não permitido'], JSON_UNESCAPED_UNICODE);
+    exit();
+}
+
+$input = json_decode(file_get_contents('php://input'), true);
+$token = trim((string)($input['token'] ?? ''));
+
+if ($token === '') {
+    $usuario = autenticarCliente($conexao);
+
+    if ((int)$usuario['email_verificado'] === 1) {
+        echo json_encode(['success' => true, 'message' => 'Seu email já está confirmado'], JSON_UNESCAPED_UNICODE);
+        exit();
+    }
+
+    if (!enviarEmailVerificacao($conexao, $usuario)) {
+        http_response_code(429);
+        echo json_encode([
+            'success' => false,
+            'error' => 'Não foi possível enviar o link agora. Tente novamente em um minuto'
+        ], JSON_UNESCAPED_UNICODE);
+        exit();
+    }
+
+    echo json_encode([
+        'success' => true,
+        'message' => "Enviamos um novo link de confirmação para {$usuario['email']}"
+    ], JSON_UNESCAPED_UNICODE);
+    exit();
+}
+
+$usuarioId = consumirTokenConta($conexao, $token, 'verificar_email');
+
+if ($usuarioId === null) {
+    http_response_code(400);
+    echo json_encode([
+        'success' => false,
+        'code' => 'token_invalido',
+        'error' => 'Link inválido ou expirado. Peça um novo link de confirmação'
+    ], JSON_UNESCAPED_UNICODE);
+    exit();
+}
+
+$stmt = $conexao->prepare("UPDATE usuarios SET email_verificado = 1, email_verificado_em = NOW() WHERE id = ?");
+$stmt->bind_param("i", $usuarioId);
+$stmt->execute();
+$stmt->close();
+$conexao->close();
+
+echo json_encode([
+    'success' => true,
+    'message' => 'Email confirmado com sucesso'
+], JSON_UNESCAPED_UNICODE);
+?>
@@ -9,6 +9,20 @@ SET FOREIGN_KEY_CHECKS = 0;
 -- =====================================================
 -- LIMPAR TABELAS EXISTENTES (SE HOUVER)
 -- =====================================================
+DROP TABLE IF EXISTS auditoria;
+DROP TABLE IF EXISTS tradein_avaliacoes;
+DROP TABLE IF EXISTS tradein_precos;
+DROP TABLE IF EXISTS usuario_tokens;
+DROP TABLE IF EXISTS pedido_codigos_acesso;
+DROP TABLE IF EXISTS cupom_usos;
+DROP TABLE IF EXISTS cupom_produtos;
+DROP TABLE IF EXISTS cupom_categorias;
+DROP TABLE IF EXISTS carrinho_itens;
+DROP TABLE IF EXISTS estoque_reservas;
+DROP TABLE IF EXISTS produto_unidades;
+DROP TABLE IF EXISTS pedido_historico;
+DROP TABLE IF EXISTS pagamento_eventos;
+DROP TABLE IF EXISTS pagamentos;
 DROP TABLE IF EXISTS pedido_itens;
 DROP TABLE IF EXISTS pedidos;
 DROP TABLE IF EXISTS produto_variacoes;
@@ -16,8 +30,11 @@ DROP TABLE IF EXISTS produto_especificacoes;
 DROP TABLE IF EXISTS produto_imagens;
 DROP TABLE IF EXISTS produtos;
 DROP TABLE IF EXISTS categorias;
+DROP TABLE IF EXISTS enderecos;
 DROP TABLE IF EXISTS usuarios;
 DROP TABLE IF EXISTS configuracoes;
+DROP TABLE IF EXISTS frete_faixas;
+DROP TABLE IF EXISTS cupons;
 
 -- =====================================================
 -- TABELA: usuarios
@@ -30,11 +47,39 @@ CREATE TABLE usuarios (
     telefone VARCHAR(20),
     cpf VARCHAR(14),
     tipo ENUM('admin', 'cliente') DEFAULT 'cliente',
+    -- Papel na equipe do painel, só para tipo 'admin' (api/permissoes.php)
+    papel ENUM('dono', 'catalogo', 'pedidos', 'leitura') DEFAULT NULL,
     ativo TINYINT(1) DEFAULT 1,
+    -- Incrementada para invalidar todos os tokens emitidos (api/auth.php)
+    token_versao INT DEFAULT 0,
+    email_verificado TINYINT(1) DEFAULT 0,
+    email_verificado_em DATETIME,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
 
+-- =====================================================
+-- TABELA: enderecos
+-- Endereços de entrega salvos pelo cliente
+-- =====================================================
+CREATE TABLE enderecos (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    usuario_id INT NOT NULL,
+    apelido VARCHAR(50),
+    destinatario VARCHAR(100),
+    cep VARCHAR(9) NOT NULL,
+    logradouro VARCHAR(255) NOT NULL,
+    numero VARCHAR(20) NOT NULL,
+    complemento VARCHAR(100),
+    bairro VARCHAR(100) NOT NULL,
+    cidade VARCHAR(100) NOT NULL,
+    estado VARCHAR(2) NOT NULL,
+    padrao TINYINT(1) DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (usuario_id) REFERENCES usuarios(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
 -- =====================================================
 -- TABELA: categorias
 -- =====================================================
@@ -75,6 +120,7 @@ CREATE TABLE produtos (
     rating DECIMAL(2,1) DEFAULT 5.0,
     reviews INT DEFAULT 0,
     parcelas INT DEFAULT 12,
+    peso_gramas INT DEFAULT 400,
     ativo TINYINT(1) DEFAULT 1,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
@@ -88,6 +134,8 @@ CREATE TABLE produto_imagens (
     id INT AUTO_INCREMENT PRIMARY KEY,
     produto_id INT NOT NULL,
     url VARCHAR(500) NOT NULL,
+    -- Versões WebP geradas no upload, em JSON: [{ nome, url, largura, altura }] (api/imagens.php)
+    variantes TEXT,
     ordem INT DEFAULT 0,
     principal TINYINT(1) DEFAULT 0,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -144,14 +192,25 @@ CREATE TABLE pedidos (
     subtotal DECIMAL(10,2) NOT NULL,
     desconto DECIMAL(10,2) DEFAULT 0,
     frete DECIMAL(10,2) DEFAULT 0,
+    frete_servico VARCHAR(30),
+    frete_prazo_dias INT,
+    cupom_id INT,
+    cupom_codigo VARCHAR(40),
+    parcelas INT DEFAULT 1,
+    valor_parcela DECIMAL(10,2),
+    juros DECIMAL(10,2) DEFAULT 0,
+    cartao_token VARCHAR(100),
+    cartao_bandeira VARCHAR(20),
+    cartao_final CHAR(4),
     total DECIMAL(10,2) NOT NULL,
     forma_pagamento ENUM('pix', 'cartao', 'boleto') NOT NULL,
-    status ENUM('pendente', 'pago', 'preparando', 'enviado', 'entregue', 'cancelado') DEFAULT 'pendente',
+    status ENUM('aguardando_pagamento', 'pendente', 'pago', 'preparando', 'enviado', 'entregue', 'cancelado') DEFAULT 'aguardando_pagamento',
     codigo_rastreio VARCHAR(50),
     observacoes TEXT,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
-    FOREIGN KEY (usuario_id) REFERENCES usuarios(id) ON DELETE SET NULL
+    FOREIGN KEY (usuario_id) REFERENCES usuarios(id) ON DELETE SET NULL,
+    FOREIGN KEY (cupom_id) REFERENCES cupons(id) ON DELETE SET NULL
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
 
 -- =====================================================
@@ -164,11 +223,323 @@ CREATE TABLE pedido_itens (
     produto_nome VARCHAR(255) NOT NULL,
     produto_sku VARCHAR(50),
     produto_imagem VARCHAR(500),
+    variacao_id INT,
+    variacao_cor VARCHAR(50),
+    variacao_cor_codigo VARCHAR(7),
+    variacao_capacidade VARCHAR(20),
     quantidade INT NOT NULL DEFAULT 1,
     preco_unitario DECIMAL(10,2) NOT NULL,
     subtotal DECIMAL(10,2) NOT NULL,
     FOREIGN KEY (pedido_id) REFERENCES pedidos(id) ON DELETE CASCADE,
-    FOREIGN KEY (produto_id) REFERENCES produtos(id) ON DELETE SET NULL
+    FOREIGN KEY (produto_id) REFERENCES produtos(id) ON DELETE SET NULL,
+    FOREIGN KEY (variacao_id) REFERENCES produto_variacoes(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- =====================================================
+-- TABELA: pedido_historico
+-- Uma linha por mudança de status do pedido
+-- =====================================================
+CREATE TABLE pedido_historico (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    pedido_id INT NOT NULL,
+    status_anterior VARCHAR(30),
+    status_novo VARCHAR(30) NOT NULL,
+    ator ENUM('cliente', 'admin', 'sistema') NOT NULL,
+    ator_id INT,
+    ator_nome VARCHAR(100),
+    observacao TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (pedido_id) REFERENCES pedidos(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- =====================================================
+-- TABELA: estoque_reservas
+-- Estoque baixado por item do pedido até o pagamento ou cancelamento
+-- =====================================================
+CREATE TABLE estoque_reservas (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    pedido_id INT NOT NULL,
+    produto_id INT NOT NULL,
+    variacao_id INT,
+    quantidade INT NOT NULL,
+    -- Quanto saiu de produtos.estoque (numa variação pode ser menos que a quantidade)
+    quantidade_produto INT NOT NULL DEFAULT 0,
+    status ENUM('ativa', 'confirmada', 'liberada') DEFAULT 'ativa',
+    expira_em DATETIME,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (pedido_id) REFERENCES pedidos(id) ON DELETE CASCADE,
+    FOREIGN KEY (produto_id) REFERENCES produtos(id) ON DELETE CASCADE,
+    FOREIGN KEY (variacao_id) REFERENCES produto_variacoes(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- =====================================================
+-- TABELA: produto_unidades
+-- Um registro por aparelho físico (api/unidades.php)
+-- Produtos com unidades têm o estoque calculado pelas unidades em estoque
+-- pedido_item_id: item do pedido que reservou ou comprou a unidade
+-- =====================================================
+CREATE TABLE produto_unidades (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    produto_id INT NOT NULL,
+    variacao_id INT,
+    imei CHAR(15) UNIQUE,
+    numero_serie VARCHAR(30) UNIQUE,
+    saude_bateria TINYINT UNSIGNED NOT NULL,
+    grade ENUM('A', 'B', 'C') NOT NULL,
+    custo DECIMAL(10,2) NOT NULL,
+    data_entrada DATE NOT NULL,
+    situacao ENUM('em_estoque', 'reservado', 'vendido', 'em_reparo', 'devolvido') DEFAULT 'em_estoque',
+    pedido_item_id INT,
+    observacoes VARCHAR(500),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (produto_id) REFERENCES produtos(id) ON DELETE CASCADE,
+    FOREIGN KEY (variacao_id) REFERENCES produto_variacoes(id) ON DELETE SET NULL,
+    FOREIGN KEY (pedido_item_id) REFERENCES pedido_itens(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- =====================================================
+-- TABELA: carrinho_itens
+-- Carrinho do cliente logado, sincronizado entre aparelhos
+-- preco_adicionado: preço exibido quando o item entrou no carrinho
+-- =====================================================
+CREATE TABLE carrinho_itens (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    usuario_id INT NOT NULL,
+    produto_id INT NOT NULL,
+    variacao_id INT,
+    cor VARCHAR(50),
+    cor_codigo VARCHAR(7),
+    capacidade VARCHAR(20),
+    quantidade INT NOT NULL DEFAULT 1,
+    preco_adicionado DECIMAL(10,2) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (usuario_id) REFERENCES usuarios(id) ON DELETE CASCADE,
+    FOREIGN KEY (produto_id) REFERENCES produtos(id) ON DELETE CASCADE,
+    FOREIGN KEY (variacao_id) REFERENCES produto_variacoes(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- =====================================================
+-- TABELA: pagamentos
+-- Cobranças criadas no provedor de pagamento
+-- =====================================================
+CREATE TABLE pagamentos (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    pedido_id INT NOT NULL,
+    provedor VARCHAR(30) NOT NULL,
+    referencia VARCHAR(100) NOT NULL,
+    metodo ENUM('pix', 'cartao', 'boleto') NOT NULL,
+    valor DECIMAL(10,2) NOT NULL,
+    status ENUM('pendente', 'pago', 'expirado', 'recusado') DEFAULT 'pendente',
+    motivo_recusa VARCHAR(50),
+    requer_autenticacao TINYINT(1) DEFAULT 0,
+    autenticacao_url VARCHAR(255),
+    linha_digitavel VARCHAR(60),
+    codigo_barras CHAR(44),
+    nosso_numero VARCHAR(20),
+    vencimento DATE,
+    expira_em DATETIME,
+    pago_em DATETIME,
+    dados TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY uk_pagamentos_referencia (provedor, referencia),
+    FOREIGN KEY (pedido_id) REFERENCES pedidos(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- =====================================================
+-- TABELA: pagamento_eventos
+-- Notificações verificadas recebidas pelo webhook
+-- =====================================================
+CREATE TABLE pagamento_eventos (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    pagamento_id INT NOT NULL,
+    provedor VARCHAR(30) NOT NULL,
+    evento_id VARCHAR(100) NOT NULL,
+    tipo VARCHAR(50) NOT NULL,
+    payload TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uk_pagamento_eventos (provedor, evento_id),
+    FOREIGN KEY (pagamento_id) REFERENCES pagamentos(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- =====================================================
+-- TABELA: frete_faixas
+-- Tabela de frete por faixa de CEP e peso (ProvedorFreteTabela)
+-- =====================================================
+CREATE TABLE frete_faixas (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    servico VARCHAR(30) NOT NULL,
+    regiao VARCHAR(50),
+    cep_inicio CHAR(8) NOT NULL,
+    cep_fim CHAR(8) NOT NULL,
+    peso_max_gramas INT NOT NULL,
+    preco DECIMAL(10,2) NOT NULL,
+    prazo_dias INT NOT NULL,
+    ativo TINYINT(1) DEFAULT 1
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- =====================================================
+-- TABELA: cupons
+-- tipo: percentual (valor = %), valor_fixo (valor = R$) ou frete_gratis
+-- usos: contador para limite_uso; cupom_usos guarda cada uso por pedido
+-- =====================================================
+CREATE TABLE cupons (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    codigo VARCHAR(40) UNIQUE NOT NULL,
+    descricao VARCHAR(255),
+    tipo ENUM('percentual', 'valor_fixo', 'frete_gratis') NOT NULL,
+    valor DECIMAL(10,2) DEFAULT 0,
+    valor_minimo DECIMAL(10,2),
+    valido_de DATETIME,
+    valido_ate DATETIME,
+    limite_uso INT,
+    limite_por_cliente INT,
+    usos INT DEFAULT 0,
+    ativo TINYINT(1) DEFAULT 1,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- =====================================================
+-- TABELAS: cupom_categorias / cupom_produtos
+-- Restringem o cupom aos itens vinculados (sem vínculos = todos os itens)
+-- =====================================================
+CREATE TABLE cupom_categorias (
+    cupom_id INT NOT NULL,
+    categoria_id INT NOT NULL,
+    PRIMARY KEY (cupom_id, categoria_id),
+    FOREIGN KEY (cupom_id) REFERENCES cupons(id) ON DELETE CASCADE,
+    FOREIGN KEY (categoria_id) REFERENCES categorias(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+CREATE TABLE cupom_produtos (
+    cupom_id INT NOT NULL,
+    produto_id INT NOT NULL,
+    PRIMARY KEY (cupom_id, produto_id),
+    FOREIGN KEY (cupom_id) REFERENCES cupons(id) ON DELETE CASCADE,
+    FOREIGN KEY (produto_id) REFERENCES produtos(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- =====================================================
+-- TABELA: cupom_usos
+-- Um registro por pedido que usou cupom (removido se o pedido for cancelado)
+-- =====================================================
+CREATE TABLE cupom_usos (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    cupom_id INT NOT NULL,
+    pedido_id INT NOT NULL,
+    usuario_id INT,
+    cliente_email VARCHAR(255),
+    valor_desconto DECIMAL(10,2) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (cupom_id) REFERENCES cupons(id) ON DELETE CASCADE,
+    FOREIGN KEY (pedido_id) REFERENCES pedidos(id) ON DELETE CASCADE,
+    FOREIGN KEY (usuario_id) REFERENCES usuarios(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- =====================================================
+-- TABELA: pedido_codigos_acesso
+-- Código de uso único enviado ao email para listar os pedidos sem login
+-- Guarda só o hash do código; tentativas erradas invalidam o código
+-- =====================================================
+CREATE TABLE pedido_codigos_acesso (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    email VARCHAR(255) NOT NULL,
+    codigo_hash CHAR(64) NOT NULL,
+    tentativas INT DEFAULT 0,
+    expira_em DATETIME NOT NULL,
+    usado_em DATETIME,
+    ip VARCHAR(45),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_codigos_email (email, created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- =====================================================
+-- TABELA: usuario_tokens
+-- Links de uso único enviados por email (redefinir senha, verificar email)
+-- Guarda só o hash do token; gerar um novo invalida os anteriores do mesmo tipo
+-- =====================================================
+CREATE TABLE usuario_tokens (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    usuario_id INT NOT NULL,
+    tipo ENUM('redefinir_senha', 'verificar_email') NOT NULL,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    expira_em DATETIME NOT NULL,
+    usado_em DATETIME,
+    ip VARCHAR(45),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_usuario_tokens_usuario (usuario_id, tipo, created_at),
+    FOREIGN KEY (usuario_id) REFERENCES usuarios(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- =====================================================
+-- TABELA: tradein_precos
+-- Faixa paga no trade-in por modelo e capacidade, para o aparelho sem
+-- defeitos e com bateria perfeita; os descontos da cotação ficam em
+-- api/tradein.php
+-- =====================================================
+CREATE TABLE tradein_precos (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    modelo VARCHAR(60) NOT NULL,
+    capacidade VARCHAR(10) NOT NULL,
+    valor_minimo DECIMAL(10,2) NOT NULL,
+    valor_maximo DECIMAL(10,2) NOT NULL,
+    ativo TINYINT(1) DEFAULT 1,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY uk_tradein_precos_modelo (modelo, capacidade)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- =====================================================
+-- TABELA: tradein_avaliacoes
+-- Aparelho enviado pelo cliente no assistente "Quanto vale o meu iPhone?",
+-- com a cotação calculada no envio. Aceita, vira crédito na loja: um cupom
+-- de valor fixo e uso único (cupom_id)
+-- =====================================================
+CREATE TABLE tradein_avaliacoes (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    numero VARCHAR(20) UNIQUE NOT NULL,
+    usuario_id INT,
+    nome VARCHAR(100) NOT NULL,
+    email VARCHAR(255) NOT NULL,
+    telefone VARCHAR(20),
+    modelo VARCHAR(60) NOT NULL,
+    capacidade VARCHAR(10) NOT NULL,
+    saude_bateria ENUM('perfeita', 'boa', 'ok', 'ruim', 'muito_ruim') NOT NULL,
+    respostas TEXT NOT NULL,
+    cotacao_minima DECIMAL(10,2) NOT NULL,
+    cotacao_maxima DECIMAL(10,2) NOT NULL,
+    etapa ENUM('pendente', 'em_analise', 'aceita', 'recusada') DEFAULT 'pendente',
+    valor_final DECIMAL(10,2),
+    cupom_id INT,
+    observacoes TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (usuario_id) REFERENCES usuarios(id) ON DELETE SET NULL,
+    FOREIGN KEY (cupom_id) REFERENCES cupons(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- =====================================================
+-- TABELA: auditoria
+-- Uma linha por alteração feita no painel (api/auditoria.php)
+-- alteracoes guarda em JSON só os campos que mudaram: { campo: { antes, depois } }
+-- =====================================================
+CREATE TABLE auditoria (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    usuario_id INT,
+    usuario_nome VARCHAR(100) NOT NULL,
+    acao ENUM('criar', 'atualizar', 'excluir') NOT NULL,
+    entidade VARCHAR(30) NOT NULL,
+    entidade_id INT NOT NULL,
+    -- Nome do produto, número do pedido etc., para identificar registros já excluídos
+    entidade_nome VARCHAR(255),
+    alteracoes TEXT NOT NULL,
+    ip VARCHAR(45),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (usuario_id) REFERENCES usuarios(id) ON DELETE SET NULL
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
 
 -- =====================================================
@@ -189,13 +560,29 @@ CREATE INDEX idx_produtos_slug ON produtos(slug);
 CREATE INDEX idx_produtos_ativo ON produtos(ativo);
 CREATE INDEX idx_pedidos_status ON pedidos(status);
 CREATE INDEX idx_pedidos_numero ON pedidos(numero);
+CREATE INDEX idx_pedidos_email ON pedidos(email_cliente);
 CREATE INDEX idx_variacoes_produto ON produto_variacoes(produto_id);
+CREATE INDEX idx_pagamentos_pedido ON pagamentos(pedido_id);
+CREATE INDEX idx_pedido_historico_pedido ON pedido_historico(pedido_id);
+CREATE INDEX idx_enderecos_usuario ON enderecos(usuario_id);
+CREATE INDEX idx_frete_faixas_cep ON frete_faixas(cep_inicio, cep_fim);
+CREATE INDEX idx_estoque_reservas_pedido ON estoque_reservas(pedido_id);
+CREATE INDEX idx_estoque_reservas_expiracao ON estoque_reservas(status, expira_em);
+CREATE INDEX idx_produto_unidades_produto ON produto_unidades(produto_id, situacao);
+CREATE INDEX idx_produto_unidades_pedido_item ON produto_unidades(pedido_item_id);
+CREATE INDEX idx_carrinho_itens_usuario ON carrinho_itens(usuario_id);
+CREATE INDEX idx_cupom_usos_cupom ON cupom_usos(cupom_id);
+CREATE INDEX idx_cupom_usos_pedido ON cupom_usos(pedido_id);
+CREATE INDEX idx_tradein_avaliacoes_etapa ON tradein_avaliacoes(etapa, created_at);
+CREATE INDEX idx_tradein_avaliacoes_email ON tradein_avaliacoes(email);
+CREATE INDEX idx_auditoria_entidade ON auditoria(entidade, entidade_id, created_at);
+CREATE INDEX idx_auditoria_data ON auditoria(created_at);
 
 -- =====================================================
 -- DADOS: USUÁRIO ADMIN (senha: admin123)
 -- =====================================================
-INSERT INTO usuarios (nome, email, senha, tipo) VALUES
-('Administrador', 'admin@iplace.com.br', '$2y$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi', 'admin');
+INSERT INTO usuarios (nome, email, senha, tipo, papel, email_verificado) VALUES
+('Administrador', 'admin@iplace.com.br', '$2y$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi', 'admin', 'dono', 1);
 
 -- =====================================================
 -- DADOS: CATEGORIAS
@@ -309,6 +696,65 @@ INSERT INTO configuracoes (chave, valor, descricao) VALUES
 ('loja_email', 'contato@iplaceseminovos.com.br', 'Email'),
 ('frete_gratis_acima', '500', 'Valor mínimo para frete grátis'),
 ('parcelas_maximo', '12', 'Máximo de parcelas'),
-('parcelas_sem_juros', '6', 'Parcelas sem juros');
+('parcelas_sem_juros', '6', 'Parcelas sem juros'),
+('juros_parcelamento', '{"7": 1.49, "10": 1.99}', 'Juros mensais (%) a partir de cada quantidade de parcelas acima das sem juros'),
+('desconto_pix_percentual', '5', 'Desconto (%) para pagamento via PIX'),
+('pix_chave', '', 'Chave PIX para recebimento'),
+('pix_nome', 'iPlace Seminovos', 'Nome do recebedor PIX (máx. 25 caracteres)'),
+('pix_cidade', 'Sao Luis', 'Cidade do recebedor PIX (máx. 15 caracteres)'),
+('reserva_pix_minutos', '60', 'Minutos que o estoque fica reservado para pedidos PIX não pagos'),
+('reserva_cartao_minutos', '30', 'Minutos que o estoque fica reservado para pedidos no cartão sem confirmação (ex.: desafio 3DS)'),
+('boleto_banco', '001', 'Código do banco emissor do boleto'),
+('boleto_convenio', '1234567', 'Convênio de cobrança (7 dígitos)'),
+('boleto_carteira', '17', 'Carteira de cobrança'),
+('boleto_vencimento_dias', '3', 'Dias corridos até o vencimento do boleto'),
+('boleto_compensacao_dias', '2', 'Dias após o vencimento aguardando a compensação antes de cancelar o pedido'),
+('boleto_beneficiario_documento', '', 'CNPJ do beneficiário impresso no boleto'),
+('boleto_instrucoes', 'Não receber após o vencimento.', 'Instruções impressas no boleto'),
+('codigo_acesso_minutos', '15', 'Minutos de validade do código enviado por email para consultar pedidos'),
+('redefinir_senha_minutos', '60', 'Minutos de validade do link de redefinição de senha'),
+('verificar_email_horas', '48', 'Horas de validade do link de confirmação de email'),
+('tradein_credito_dias', '180', 'Dias de validade do crédito gerado por um trade-in aceito');
+
+-- Faixas de frete (origem: São Luís/MA)
+INSERT INTO frete_faixas (servico, regiao, cep_inicio, cep_fim, peso_max_gramas, preco, prazo_dias) VALUES
+('PAC', 'Maranhão', '65000000', '65999999', 1000, 14.90, 2),
+('PAC', 'Maranhão', '65000000', '65999999', 5000, 19.90, 3),
+('SEDEX', 'Maranhão', '65000000', '65999999', 1000, 24.90, 1),
+('SEDEX', 'Maranhão', '65000000', '65999999', 5000, 34.90, 2),
+('PAC', 'Nordeste', '40000000', '64999999', 1000, 22.90, 5),
+('PAC', 'Nordeste', '40000000', '64999999', 5000, 32.90, 6),
+('SEDEX', 'Nordeste', '40000000', '64999999', 1000, 39.90, 2),
+('SEDEX', 'Nordeste', '40000000', '64999999', 5000, 54.90, 3),
+('PAC', 'Norte', '66000000', '69999999', 1000, 24.90, 7),
+('PAC', 'Norte', '66000000', '69999999', 5000, 36.90, 8),
+('SEDEX', 'Norte', '66000000', '69999999', 1000, 44.90, 3),
+('SEDEX', 'Norte', '66000000', '69999999', 5000, 62.90, 4),
+('PAC', 'Centro-Oeste', '70000000', '79999999', 1000, 29.90, 8),
+('PAC', 'Centro-Oeste', '70000000', '79999999', 5000, 42.90, 9),
+('SEDEX', 'Centro-Oeste', '70000000', '79999999', 1000, 49.90, 3),
+('SEDEX', 'Centro-Oeste', '70000000', '79999999', 5000, 69.90, 4),
+('PAC', 'Sudeste', '01000000', '39999999', 1000, 29.90, 8),
+('PAC', 'Sudeste', '01000000', '39999999', 5000, 42.90, 9),
+('SEDEX', 'Sudeste', '01000000', '39999999', 1000, 49.90, 3),
+('SEDEX', 'Sudeste', '01000000', '39999999', 5000, 69.90, 4),
+('PAC', 'Sul', '80000000', '99999999', 1000, 32.90, 10),
+('PAC', 'Sul', '80000000', '99999999', 5000, 46.90, 11),
+('SEDEX', 'Sul', '80000000', '99999999', 1000, 54.90, 4),
+('SEDEX', 'Sul', '80000000', '99999999', 5000, 74.90, 5);
+
+-- Cupons de exemplo
+INSERT INTO cupons (codigo, descricao, tipo, valor, valor_minimo, limite_por_cliente) VALUES
+('BEMVINDO10', '10% na primeira compra', 'percentual', 10.00, NULL, 1),
+('FRETEGRATIS', 'Frete grátis acima de R$ 2.000', 'frete_gratis', 0.00, 2000.00, NULL);
+
+-- Tabela de trade-in de exemplo (aparelho sem defeitos e bateria perfeita)
+INSERT INTO tradein_precos (modelo, capacidade, valor_minimo, valor_maximo) VALUES
+('iPhone 13', '128GB', 1500.00, 1800.00),
+('iPhone 13', '256GB', 1700.00, 2000.00),
+('iPhone 14', '128GB', 2000.00, 2400.00),
+('iPhone 14 Pro', '128GB', 2800.00, 3300.00),
+('iPhone 15', '128GB', 2600.00, 3100.00),
+('iPhone 15 Pro Max', '256GB', 4200.00, 4900.00);
 
 SET FOREIGN_KEY_CHECKS = 1;
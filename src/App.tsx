@@ -12,12 +12,23 @@ import Checkout from "./pages/Checkout";
 import OrderConfirmed from "./pages/OrderConfirmed";
 import MeusPedidos from "./pages/MeusPedidos";
 import AcompanharPedido from "./pages/AcompanharPedido";
+import Boleto from "./pages/Boleto";
 import Enderecos from "./pages/Enderecos";
+import MinhaConta from "./pages/MinhaConta";
+import RedefinirSenha from "./pages/RedefinirSenha";
+import VerificarEmail from "./pages/VerificarEmail";
+import AvaliarIphone from "./pages/AvaliarIphone";
 import AdminDashboard from "./pages/admin/AdminDashboard";
 import AdminProducts from "./pages/admin/AdminProducts";
 import AdminProductForm from "./pages/admin/AdminProductForm";
 import AdminCategories from "./pages/admin/AdminCategories";
 import AdminOrders from "./pages/admin/AdminOrders";
+import AdminCoupons from "./pages/admin/AdminCoupons";
+import AdminTeam from "./pages/admin/AdminTeam";
+import AdminAudit from "./pages/admin/AdminAudit";
+import AdminUnidades from "./pages/admin/AdminUnidades";
+import AdminTradeIn from "./pages/admin/AdminTradeIn";
+import AdminRoute from "@/components/AdminRoute";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -38,17 +49,29 @@ const App = () => (
           <Route path="/pedido-confirmado" element={<OrderConfirmed />} />
           <Route path="/meus-pedidos" element={<MeusPedidos />} />
           <Route path="/pedido/:orderNumber" element={<AcompanharPedido />} />
+          <Route path="/pedido/:orderNumber/boleto" element={<Boleto />} />
           <Route path="/enderecos" element={<Enderecos />} />
+          <Route path="/minha-conta" element={<MinhaConta />} />
+          <Route path="/redefinir-senha" element={<RedefinirSenha />} />
+          <Route path="/verificar-email" element={<VerificarEmail />} />
+          <Route path="/quanto-vale-meu-iphone" element={<AvaliarIphone />} />
           
-          {/* Admin Routes */}
-          <Route path="/admin" element={<AdminDashboard />} />
-          <Route path="/admin/login" element={<AdminDashboard />} />
-          <Route path="/admin/dashboard" element={<AdminDashboard />} />
-          <Route path="/admin/produtos" element={<AdminProducts />} />
-          <Route path="/admin/produtos/novo" element={<AdminProductForm />} />
-          <Route path="/admin/produtos/:id" element={<AdminProductForm />} />
-          <Route path="/admin/categorias" element={<AdminCategories />} />
-          <Route path="/admin/pedidos" element={<AdminOrders />} />
+          {/* Admin Routes: AdminRoute confere a sessão e a permissão de cada página */}
+          <Route path="/admin" element={<AdminRoute />}>
+            <Route index element={<AdminDashboard />} />
+            <Route path="login" element={<AdminDashboard />} />
+            <Route path="dashboard" element={<AdminDashboard />} />
+            <Route path="produtos" element={<AdminProducts />} />
+            <Route path="produtos/novo" element={<AdminProductForm />} />
+            <Route path="produtos/:id" element={<AdminProductForm />} />
+            <Route path="unidades" element={<AdminUnidades />} />
+            <Route path="categorias" element={<AdminCategories />} />
+            <Route path="pedidos" element={<AdminOrders />} />
+            <Route path="cupons" element={<AdminCoupons />} />
+            <Route path="equipe" element={<AdminTeam />} />
+            <Route path="auditoria" element={<AdminAudit />} />
+            <Route path="trade-in" element={<AdminTradeIn />} />
+          </Route>
           
           <Route path="*" element={<NotFound />} />
         </Routes>
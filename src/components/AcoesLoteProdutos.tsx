@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CheckCircle2, ChevronDown, Loader2, X, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import {
+  executarAdminProdutosLote,
+  AdminCategory,
+  AdminProduct,
+  AdminProdutoLoteAcao,
+  AdminProdutoLoteResultado,
+} from "@/services/adminApi";
+
+type Acao = AdminProdutoLoteAcao["acao"];
+
+const ACOES: { acao: Acao; label: string; destrutiva?: boolean }[] = [
+  { acao: "ativar", label: "Ativar" },
+  { acao: "desativar", label: "Desativar" },
+  { acao: "destacar", label: "Destacar" },
+  { acao: "remover_destaque", label: "Remover destaque" },
+  { acao: "categoria", label: "Mudar categoria" },
+  { acao: "preco", label: "Reajustar preço" },
+  { acao: "excluir", label: "Excluir", destrutiva: true },
+];
+
+const DESCRICOES: Record<Acao, (total: number) => string> = {
+  ativar: (total) => `${total} produto(s) voltam a aparecer na loja.`,
+  desativar: (total) => `${total} produto(s) deixam de aparecer na loja.`,
+  destacar: (total) => `${total} produto(s) passam a aparecer nos destaques.`,
+  remover_destaque: (total) => `${total} produto(s) saem dos destaques.`,
+  categoria: (total) => `${total} produto(s) serão movidos para a categoria escolhida.`,
+  preco: (total) =>
+    `O preço de ${total} produto(s) e de suas variações será reajustado. O preço original acompanha quando ficar abaixo do novo preço.`,
+  excluir: (total) => `${total} produto(s) serão excluídos permanentemente. Esta ação não pode ser desfeita.`,
+};
+
+interface AcoesLoteProdutosProps {
+  selecionados: AdminProduct[];
+  categorias: AdminCategory[];
+  onLimpar: () => void;
+  onConcluido: () => void;
+}
+
+/**
+ * Barra de ações para os produtos marcados na listagem
+ * Toda ação pede confirmação e, no fim, mostra o resultado de cada produto
+ */
+const AcoesLoteProdutos = ({ selecionados, categorias, onLimpar, onConcluido }: AcoesLoteProdutosProps) => {
+  const [acao, setAcao] = useState<Acao | null>(null);
+  const [categoriaId, setCategoriaId] = useState("");
+  const [percentual, setPercentual] = useState("");
+  const [executando, setExecutando] = useState(false);
+  const [resultado, setResultado] = useState<AdminProdutoLoteResultado | null>(null);
+
+  const percentualNumero = Number(percentual.replace(",", "."));
+  const parametroValido =
+    acao === "categoria"
+      ? categoriaId !== ""
+      : acao === "preco"
+      ? percentual.trim() !== "" && !Number.isNaN(percentualNumero) && percentualNumero !== 0 && percentualNumero >= -90 && percentualNumero <= 500
+      : true;
+
+  const abrir = (nova: Acao) => {
+    setCategoriaId("");
+    setPercentual("");
+    setAcao(nova);
+  };
+
+  const executar = async () => {
+    if (!acao || !parametroValido) return;
+
+    const payload: AdminProdutoLoteAcao =
+      acao === "categoria"
+        ? { acao, categoria_id: Number(categoriaId) }
+        : acao === "preco"
+        ? { acao, percentual: percentualNumero }
+        : { acao };
+
+    try {
+      setExecutando(true);
+      const resposta = await executarAdminProdutosLote(
+        selecionados.map((p) => p.id),
+        payload
+      );
+      setAcao(null);
+      setResultado(resposta);
+      onConcluido();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao aplicar ação");
+    } finally {
+      setExecutando(false);
+    }
+  };
+
+  const formatPrice = (price: number) =>
+    price.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+  // Exemplo com o primeiro produto, para conferir o sentido do reajuste
+  const exemplo = selecionados[0];
+  const acaoConfig = ACOES.find((item) => item.acao === acao);
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 p-2 mb-4 rounded-lg bg-secondary/60 border">
+        <span className="text-sm font-medium px-2">{selecionados.length} selecionado(s)</span>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="outline">
+              Ações
+              <ChevronDown className="w-4 h-4 ml-2" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {ACOES.map((item) => (
+              <div key={item.acao}>
+                {item.destrutiva && <DropdownMenuSeparator />}
+                <DropdownMenuItem
+                  onClick={() => abrir(item.acao)}
+                  className={item.destrutiva ? "text-destructive focus:text-destructive" : ""}
+                >
+                  {item.label}
+                </DropdownMenuItem>
+              </div>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button size="sm" variant="ghost" onClick={onLimpar}>
+          <X className="w-4 h-4 mr-1" />
+          Limpar seleção
+        </Button>
+      </div>
+
+      {/* Confirmação */}
+      <AlertDialog open={acao !== null} onOpenChange={(aberto) => !aberto && !executando && setAcao(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{acaoConfig?.label} {selecionados.length} produto(s)?</AlertDialogTitle>
+            <AlertDialogDescription>{acao && DESCRICOES[acao](selecionados.length)}</AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {acao === "categoria" && (
+            <div className="space-y-2">
+              <Label>Nova categoria</Label>
+              <Select value={categoriaId} onValueChange={setCategoriaId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Escolha a categoria" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categorias.map((categoria) => (
+                    <SelectItem key={categoria.id} value={String(categoria.id)}>
+                      {categoria.nome}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {acao === "preco" && (
+            <div className="space-y-2">
+              <Label htmlFor="lote-percentual">Reajuste (%)</Label>
+              <Input
+                id="lote-percentual"
+                inputMode="decimal"
+                placeholder="Ex: 5 para aumentar, -10 para reduzir"
+                value={percentual}
+                onChange={(e) => setPercentual(e.target.value)}
+              />
+              {parametroValido && exemplo && (
+                <p className="text-xs text-muted-foreground">
+                  {exemplo.nome}: {formatPrice(Number(exemplo.preco))} →{" "}
+                  {formatPrice(Math.round(Number(exemplo.preco) * (1 + percentualNumero / 100) * 100) / 100)}
+                </p>
+              )}
+            </div>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={executando}>Cancelar</AlertDialogCancel>
+            <Button
+              onClick={executar}
+              disabled={!parametroValido || executando}
+              variant={acaoConfig?.destrutiva ? "destructive" : "default"}
+            >
+              {executando && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Confirmar
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Resultado por produto */}
+      <Dialog open={resultado !== null} onOpenChange={(aberto) => !aberto && setResultado(null)}>
+        <DialogContent className="max-h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Resultado</DialogTitle>
+            <DialogDescription>
+              {resultado?.sucessos} concluído(s)
+              {resultado && resultado.falhas > 0 && `, ${resultado.falhas} com erro`}
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="flex-1 min-h-0 overflow-y-auto space-y-2 text-sm">
+            {resultado?.resultados.map((item) => (
+              <li key={item.id} className="flex items-start gap-2">
+                {item.sucesso ? (
+                  <CheckCircle2 className="w-4 h-4 text-green-600 shrink-0 mt-0.5" />
+                ) : (
+                  <XCircle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+                )}
+                <div className="min-w-0">
+                  <p className="truncate">{item.nome ?? `Produto #${item.id}`}</p>
+                  {item.erro && <p className="text-xs text-destructive">{item.erro}</p>}
+                </div>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button onClick={() => setResultado(null)}>Fechar</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default AcoesLoteProdutos;
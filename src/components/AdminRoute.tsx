@@ -0,0 +1,114 @@
+import { useMemo, useState } from "react";
+import { Link, Outlet, matchPath, useLocation } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Lock, ShieldAlert } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import LoginModal from "@/components/LoginModal";
+import { AdminSessaoContext, AdminSessaoContexto } from "@/hooks/useAdminSessao";
+import { useAuth } from "@/hooks/useAuth";
+import { fetchAdminSessao } from "@/services/adminApi";
+import type { Permissao } from "@/lib/permissoes";
+
+// Permissão para abrir cada página; a primeira rota que casar vale
+const PERMISSAO_ROTAS: { path: string; permissao: Permissao }[] = [
+  // Novo e edição: quem só vê produtos fica na listagem
+  { path: "/admin/produtos/:id", permissao: "produtos.editar" },
+  { path: "/admin/produtos", permissao: "produtos.ver" },
+  { path: "/admin/unidades", permissao: "produtos.ver" },
+  { path: "/admin/categorias", permissao: "categorias.ver" },
+  { path: "/admin/pedidos", permissao: "pedidos.ver" },
+  { path: "/admin/cupons", permissao: "cupons.ver" },
+  { path: "/admin/equipe", permissao: "equipe.gerenciar" },
+  { path: "/admin/auditoria", permissao: "auditoria.ver" },
+  { path: "/admin/trade-in", permissao: "tradein.ver" },
+];
+
+const permissaoDaRota = (pathname: string) =>
+  PERMISSAO_ROTAS.find((rota) => matchPath(rota.path, pathname))?.permissao ?? null;
+
+const AvisoAcesso = ({ children }: { children: React.ReactNode }) => (
+  <div className="min-h-screen bg-secondary flex flex-col">
+    <Header />
+    <div className="container py-12 flex-1">
+      <Card className="max-w-md mx-auto">
+        <CardContent className="text-center py-12 space-y-4">{children}</CardContent>
+      </Card>
+    </div>
+    <Footer />
+  </div>
+);
+
+/**
+ * Guarda das rotas /admin/*
+ *
+ * Usa a sessão da loja (useAuth): confere o papel no servidor
+ * (admin/sessao.php), bloqueia as páginas que o papel não pode abrir e
+ * disponibiliza as permissões às páginas do painel (useAdminSessao).
+ */
+const AdminRoute = () => {
+  const location = useLocation();
+  const { user, isLoading: carregandoUsuario } = useAuth();
+  const [showLoginModal, setShowLoginModal] = useState(false);
+
+  const equipe = user?.tipo === "admin";
+  const { data: sessao, isLoading, isError } = useQuery({
+    queryKey: ["admin-sessao", user?.id],
+    queryFn: fetchAdminSessao,
+    enabled: equipe,
+    retry: false,
+    staleTime: 60 * 1000,
+  });
+
+  const contexto = useMemo<AdminSessaoContexto | null>(
+    () =>
+      sessao
+        ? { ...sessao, pode: (permissao: Permissao) => sessao.permissoes.includes(permissao) }
+        : null,
+    [sessao]
+  );
+
+  if (carregandoUsuario || (equipe && isLoading)) {
+    return (
+      <div className="min-h-screen bg-secondary flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!equipe || isError || !contexto) {
+    return (
+      <AvisoAcesso>
+        <Lock className="w-12 h-12 mx-auto text-muted-foreground" />
+        <h1 className="text-xl font-semibold">Área restrita</h1>
+        <p className="text-muted-foreground">Entre com a sua conta da equipe para acessar o painel.</p>
+        <Button onClick={() => setShowLoginModal(true)}>Entrar</Button>
+        <LoginModal isOpen={showLoginModal} onClose={() => setShowLoginModal(false)} />
+      </AvisoAcesso>
+    );
+  }
+
+  const permissao = permissaoDaRota(location.pathname);
+  if (permissao && !contexto.pode(permissao)) {
+    return (
+      <AvisoAcesso>
+        <ShieldAlert className="w-12 h-12 mx-auto text-muted-foreground" />
+        <h1 className="text-xl font-semibold">Sem permissão</h1>
+        <p className="text-muted-foreground">Seu papel na equipe não dá acesso a esta página.</p>
+        <Button variant="outline" asChild>
+          <Link to="/admin/dashboard">Voltar ao painel</Link>
+        </Button>
+      </AvisoAcesso>
+    );
+  }
+
+  return (
+    <AdminSessaoContext.Provider value={contexto}>
+      <Outlet />
+    </AdminSessaoContext.Provider>
+  );
+};
+
+export default AdminRoute;
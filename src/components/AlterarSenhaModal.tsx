@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { saveSessao } from "@/services/clienteAuth";
+import { alterarSenha } from "@/services/contaApi";
+
+interface AlterarSenhaModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const AlterarSenhaModal = ({ isOpen, onClose }: AlterarSenhaModalProps) => {
+  const [senhaAtual, setSenhaAtual] = useState("");
+  const [novaSenha, setNovaSenha] = useState("");
+  const [confirmacao, setConfirmacao] = useState("");
+  const [erro, setErro] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleClose = () => {
+    setSenhaAtual("");
+    setNovaSenha("");
+    setConfirmacao("");
+    setErro(null);
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (novaSenha.length < 6) {
+      setErro("A nova senha deve ter pelo menos 6 caracteres");
+      return;
+    }
+    if (novaSenha !== confirmacao) {
+      setErro("As senhas não conferem");
+      return;
+    }
+
+    setErro(null);
+    setIsLoading(true);
+    try {
+      // Os tokens antigos deixam de valer; esta sessão segue com o novo par
+      saveSessao(await alterarSenha(senhaAtual, novaSenha));
+      toast.success("Senha alterada! As outras sessões da sua conta foram encerradas.");
+      handleClose();
+    } catch (error) {
+      setErro(error instanceof Error ? error.message : "Erro ao alterar senha");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="w-[90vw] max-w-[400px] rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>Alterar senha</DialogTitle>
+          <DialogDescription>
+            Ao trocar a senha, sua conta é desconectada dos outros aparelhos.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">
+              Senha atual*
+            </label>
+            <Input
+              type="password"
+              value={senhaAtual}
+              onChange={(e) => setSenhaAtual(e.target.value)}
+              className="w-full rounded-lg"
+              autoComplete="current-password"
+              required
+              disabled={isLoading}
+            />
+          </div>
+
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">
+              Nova senha*
+            </label>
+            <Input
+              type="password"
+              placeholder="Mínimo 6 caracteres"
+              value={novaSenha}
+              onChange={(e) => setNovaSenha(e.target.value)}
+              className="w-full rounded-lg"
+              autoComplete="new-password"
+              required
+              minLength={6}
+              disabled={isLoading}
+            />
+          </div>
+
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">
+              Confirmar nova senha*
+            </label>
+            <Input
+              type="password"
+              value={confirmacao}
+              onChange={(e) => setConfirmacao(e.target.value)}
+              className="w-full rounded-lg"
+              autoComplete="new-password"
+              required
+              disabled={isLoading}
+            />
+          </div>
+
+          {erro && <p className="text-sm text-destructive">{erro}</p>}
+
+          <Button
+            type="submit"
+            className="w-full bg-foreground hover:bg-foreground/80 text-background font-medium py-6 rounded-lg transition-all"
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Aguarde...
+              </>
+            ) : (
+              "Alterar senha"
+            )}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AlterarSenhaModal;
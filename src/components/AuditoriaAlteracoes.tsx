@@ -0,0 +1,34 @@
+import { AdminAuditoria } from "@/services/adminApi";
+import { formatValorAuditoria, getCampoLabel } from "@/lib/auditoria";
+
+interface AuditoriaAlteracoesProps {
+  registro: Pick<AdminAuditoria, "acao" | "alteracoes">;
+}
+
+// Campos alterados com o valor anterior e o novo (também usado na prévia da importação de produtos)
+const AuditoriaAlteracoes = ({ registro }: AuditoriaAlteracoesProps) => {
+  const campos = Object.entries(registro.alteracoes);
+
+  if (campos.length === 0) {
+    return <p className="text-xs text-muted-foreground">Sem detalhes</p>;
+  }
+
+  return (
+    <dl className="text-xs space-y-1">
+      {campos.map(([campo, { antes, depois }]) => (
+        <div key={campo} className="grid grid-cols-[minmax(0,8rem)_1fr] gap-2">
+          <dt className="text-muted-foreground truncate">{getCampoLabel(campo)}</dt>
+          <dd className="break-words">
+            {registro.acao !== "criar" && (
+              <span className="line-through text-muted-foreground">{formatValorAuditoria(campo, antes)}</span>
+            )}
+            {registro.acao === "atualizar" && " → "}
+            {registro.acao !== "excluir" && <span>{formatValorAuditoria(campo, depois)}</span>}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+export default AuditoriaAlteracoes;
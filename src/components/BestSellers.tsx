@@ -1,6 +1,7 @@
 import { Link } from "react-router-dom";
 import { useApiProducts } from "@/hooks/useApiProducts";
 import { encodeProductId } from "@/lib/productHash";
+import { getImageProps } from "@/lib/imagens";
 import { Loader2, Star, TrendingUp } from "lucide-react";
 
 interface BestSellersProps {
@@ -55,7 +56,7 @@ const BestSellers = ({ excludeProductId }: BestSellersProps) => {
           >
             <div className="aspect-square bg-secondary/30 rounded-lg overflow-hidden mb-3">
               <img
-                src={product.images[0]}
+                {...getImageProps(product.images[0], "card")}
                 alt={product.name}
                 className="w-full h-full object-contain group-hover:scale-105 transition-transform"
               />
@@ -0,0 +1,36 @@
+import { useMemo } from "react";
+import { encodeItf } from "@/lib/boleto";
+
+interface BoletoBarcodeProps {
+  codigo: string;
+  height?: number;
+  className?: string;
+}
+
+// Código de barras do boleto (ITF) em SVG, nítido na impressão
+const BoletoBarcode = ({ codigo, height = 50, className = "" }: BoletoBarcodeProps) => {
+  const { barras, largura } = useMemo(() => {
+    const barras = encodeItf(codigo);
+    return { barras, largura: barras.reduce((total, b) => total + b.largura, 0) };
+  }, [codigo]);
+
+  let x = 0;
+
+  return (
+    <svg
+      viewBox={`0 0 ${largura} ${height}`}
+      preserveAspectRatio="none"
+      className={className}
+      role="img"
+      aria-label={`Código de barras ${codigo}`}
+    >
+      {barras.map((b, i) => {
+        const posicao = x;
+        x += b.largura;
+        return b.barra ? <rect key={i} x={posicao} y={0} width={b.largura} height={height} fill="#000" /> : null;
+      })}
+    </svg>
+  );
+};
+
+export default BoletoBarcode;
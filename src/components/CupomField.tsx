@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Loader2, Tag, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CupomAplicado } from "@/services/precosApi";
+import { normalizeCupomCodigo } from "@/lib/cupom";
+
+interface CupomFieldProps {
+  // Código aplicado (salvo em localStorage) e o resultado calculado pelo servidor
+  codigo: string | null;
+  cupom?: CupomAplicado | null;
+  // Valida o código no servidor; rejeita com a mensagem a exibir
+  onApply: (codigo: string) => Promise<void>;
+  onRemove: () => void;
+  className?: string;
+}
+
+const formatPrice = (price: number) =>
+  price.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+const CupomField = ({ codigo, cupom, onApply, onRemove, className = "" }: CupomFieldProps) => {
+  const [input, setInput] = useState("");
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleApply = async () => {
+    const valor = normalizeCupomCodigo(input);
+    if (!valor) {
+      toast.error("Digite o código do cupom");
+      return;
+    }
+
+    setIsApplying(true);
+    try {
+      await onApply(valor);
+      setInput("");
+      toast.success("Cupom aplicado!");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Cupom inválido");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (codigo) {
+    return (
+      <div className={`flex items-center gap-2 p-2 md:p-3 rounded-lg border border-green-600/40 bg-green-50 text-sm ${className}`}>
+        <Tag className="w-4 h-4 text-green-600 shrink-0" />
+        <div className="min-w-0 flex-1">
+          <p className="font-medium text-green-700">{codigo}</p>
+          {cupom && (
+            <p className="text-xs text-green-700/80 truncate">
+              {cupom.descricao || (cupom.tipo === "frete_gratis" ? "Frete grátis" : "Desconto aplicado")}
+              {cupom.desconto > 0 && ` · -${formatPrice(cupom.desconto)}`}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onRemove}
+          className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+          aria-label="Remover cupom"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex gap-2 ${className}`}>
+      <Input
+        placeholder="Cupom de desconto"
+        value={input}
+        onChange={(e) => setInput(e.target.value.toUpperCase())}
+        onKeyDown={(e) => e.key === "Enter" && handleApply()}
+        className="flex-1 text-sm"
+      />
+      <Button variant="outline" size="sm" className="shrink-0" onClick={handleApply} disabled={isApplying}>
+        {isApplying ? <Loader2 className="w-4 h-4 animate-spin" /> : "Aplicar"}
+      </Button>
+    </div>
+  );
+};
+
+export default CupomField;
@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { EnderecoData } from "@/services/enderecosApi";
+import { buscarCep } from "@/services/cepApi";
+import { UFS, EnderecoErrors, formatCep, isValidCep, validateEndereco } from "@/lib/endereco";
+
+interface EnderecoFormProps {
+  initialData?: Partial<EnderecoData>;
+  submitLabel?: string;
+  isSaving?: boolean;
+  showPadrao?: boolean;
+  onSubmit: (data: EnderecoData) => void;
+  onCancel?: () => void;
+}
+
+const emptyForm: EnderecoData = {
+  apelido: "",
+  destinatario: "",
+  cep: "",
+  logradouro: "",
+  numero: "",
+  complemento: "",
+  bairro: "",
+  cidade: "",
+  estado: "",
+  padrao: false,
+};
+
+const EnderecoForm = ({
+  initialData,
+  submitLabel = "Salvar endereço",
+  isSaving = false,
+  showPadrao = true,
+  onSubmit,
+  onCancel,
+}: EnderecoFormProps) => {
+  const [form, setForm] = useState<EnderecoData>({
+    ...emptyForm,
+    ...initialData,
+    cep: formatCep(initialData?.cep || ""),
+  });
+  const [errors, setErrors] = useState<EnderecoErrors>({});
+  const [isBuscandoCep, setIsBuscandoCep] = useState(false);
+
+  const setField = <K extends keyof EnderecoData>(field: K, value: EnderecoData[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  // Preenche o endereço a partir do CEP; o usuário ainda pode editar os campos
+  const handleCepChange = async (value: string) => {
+    const cep = formatCep(value);
+    setField("cep", cep);
+    if (!isValidCep(cep)) return;
+
+    setIsBuscandoCep(true);
+    try {
+      const info = await buscarCep(cep);
+      if (!info) {
+        setErrors((prev) => ({ ...prev, cep: "CEP não encontrado" }));
+        return;
+      }
+
+      setForm((prev) => ({
+        ...prev,
+        logradouro: info.logradouro || prev.logradouro,
+        bairro: info.bairro || prev.bairro,
+        cidade: info.cidade || prev.cidade,
+        estado: info.estado || prev.estado,
+      }));
+      setErrors((prev) => ({ ...prev, logradouro: undefined, bairro: undefined, cidade: undefined, estado: undefined }));
+    } catch (error) {
+      console.error("Erro ao consultar CEP:", error);
+    } finally {
+      setIsBuscandoCep(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = validateEndereco(form);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    onSubmit({
+      ...form,
+      numero: form.numero.trim().toUpperCase(),
+      estado: form.estado.toUpperCase(),
+    });
+  };
+
+  const fieldError = (field: keyof EnderecoErrors) =>
+    errors[field] && <p className="text-xs text-destructive mt-1">{errors[field]}</p>;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="endereco-apelido">Identificação</Label>
+          <Input
+            id="endereco-apelido"
+            placeholder="Ex.: Casa, Trabalho"
+            value={form.apelido}
+            onChange={(e) => setField("apelido", e.target.value)}
+            maxLength={50}
+          />
+        </div>
+        <div>
+          <Label htmlFor="endereco-destinatario">Destinatário</Label>
+          <Input
+            id="endereco-destinatario"
+            placeholder="Quem vai receber"
+            value={form.destinatario}
+            onChange={(e) => setField("destinatario", e.target.value)}
+            maxLength={100}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <Label htmlFor="endereco-cep">CEP</Label>
+          <div className="relative">
+            <Input
+              id="endereco-cep"
+              inputMode="numeric"
+              placeholder="00000-000"
+              value={form.cep}
+              onChange={(e) => handleCepChange(e.target.value)}
+            />
+            {isBuscandoCep && (
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground absolute right-3 top-1/2 -translate-y-1/2" />
+            )}
+          </div>
+          {fieldError("cep")}
+        </div>
+        <div className="sm:col-span-2">
+          <Label htmlFor="endereco-logradouro">Logradouro</Label>
+          <Input
+            id="endereco-logradouro"
+            placeholder="Rua, avenida..."
+            value={form.logradouro}
+            onChange={(e) => setField("logradouro", e.target.value)}
+          />
+          {fieldError("logradouro")}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <Label htmlFor="endereco-numero">Número</Label>
+          <Input
+            id="endereco-numero"
+            placeholder="123 ou S/N"
+            value={form.numero}
+            onChange={(e) => setField("numero", e.target.value)}
+            maxLength={20}
+          />
+          {fieldError("numero")}
+        </div>
+        <div className="sm:col-span-2">
+          <Label htmlFor="endereco-complemento">Complemento</Label>
+          <Input
+            id="endereco-complemento"
+            placeholder="Apto, bloco..."
+            value={form.complemento}
+            onChange={(e) => setField("complemento", e.target.value)}
+            maxLength={100}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-5 gap-3">
+        <div className="sm:col-span-2">
+          <Label htmlFor="endereco-bairro">Bairro</Label>
+          <Input
+            id="endereco-bairro"
+            value={form.bairro}
+            onChange={(e) => setField("bairro", e.target.value)}
+          />
+          {fieldError("bairro")}
+        </div>
+        <div className="sm:col-span-2">
+          <Label htmlFor="endereco-cidade">Cidade</Label>
+          <Input
+            id="endereco-cidade"
+            value={form.cidade}
+            onChange={(e) => setField("cidade", e.target.value)}
+          />
+          {fieldError("cidade")}
+        </div>
+        <div>
+          <Label htmlFor="endereco-estado">UF</Label>
+          <Select value={form.estado} onValueChange={(value) => setField("estado", value)}>
+            <SelectTrigger id="endereco-estado">
+              <SelectValue placeholder="UF" />
+            </SelectTrigger>
+            <SelectContent>
+              {UFS.map((uf) => (
+                <SelectItem key={uf} value={uf}>{uf}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {fieldError("estado")}
+        </div>
+      </div>
+
+      {showPadrao && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="endereco-padrao"
+            checked={!!form.padrao}
+            onCheckedChange={(checked) => setField("padrao", checked === true)}
+          />
+          <Label htmlFor="endereco-padrao" className="cursor-pointer">Usar como endereço padrão</Label>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+            Cancelar
+          </Button>
+        )}
+        <Button type="submit" disabled={isSaving}>
+          {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default EnderecoForm;
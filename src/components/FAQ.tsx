@@ -1,3 +1,4 @@
+import { Link } from "react-router-dom";
 import {
   Accordion,
   AccordionContent,
@@ -5,14 +6,15 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 
-const faqs = [
+const faqs: { question: string; answer: string; link?: { to: string; label: string } }[] = [
   {
     question: "iPhone usado vale a pena?",
     answer: `Sim, entenda o porquê! Adquirir um iPhone seminovo pode ser uma excelente forma de obter um dispositivo de boa qualidade a um preço mais acessível. Na iPlace Seminovos, todos os dispositivos são verificados tecnicamente por nossa equipe de especialistas, garantindo qualidade e procedência.`,
   },
   {
     question: "Quanto vale o meu iPhone seminovo?",
-    answer: `A condição física do seu iPhone desempenha um papel importante no valor. Telefones em excelente estado, com poucos sinais de desgaste e pleno funcionamento, geralmente têm um valor mais alto. Entre em contato conosco para uma avaliação personalizada.`,
+    answer: `A condição física do seu iPhone desempenha um papel importante no valor. Telefones em excelente estado, com poucos sinais de desgaste e pleno funcionamento, geralmente têm um valor mais alto. Informe o modelo, a capacidade, a saúde da bateria e o estado do aparelho e veja na hora quanto ele vale em crédito para usar na loja.`,
+    link: { to: "/quanto-vale-meu-iphone", label: "Avaliar meu iPhone" },
   },
   {
     question: "O que é iPhone vitrine?",
@@ -43,6 +45,11 @@ const FAQ = () => {
               </AccordionTrigger>
               <AccordionContent className="text-muted-foreground">
                 {faq.answer}
+                {faq.link && (
+                  <Link to={faq.link.to} className="block mt-2 font-medium text-primary hover:underline">
+                    {faq.link.label}
+                  </Link>
+                )}
               </AccordionContent>
             </AccordionItem>
           ))}
@@ -61,6 +61,7 @@ const Footer = () => {
             <FooterSection title="Serviços" id="services">
               <ul className="space-y-2 text-sm">
                 <li><Link to="#" className="text-muted-foreground hover:text-foreground">Garantia</Link></li>
+                <li><Link to="/quanto-vale-meu-iphone" className="text-muted-foreground hover:text-foreground">Avalie seu iPhone</Link></li>
                 <li><Link to="#" className="text-muted-foreground hover:text-foreground">Assistência Técnica</Link></li>
                 <li><Link to="#" className="text-muted-foreground hover:text-foreground">Retire em loja</Link></li>
               </ul>
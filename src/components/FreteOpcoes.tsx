@@ -0,0 +1,58 @@
+import { Truck } from "lucide-react";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { FreteOpcao } from "@/services/freteApi";
+import { getFreteLabel, formatDeliveryDate } from "@/lib/frete";
+
+interface FreteOpcoesProps {
+  opcoes: FreteOpcao[];
+  selected?: string | null;
+  onSelect?: (servico: string) => void;
+}
+
+const formatPrice = (price: number) =>
+  price.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+const OpcaoInfo = ({ opcao }: { opcao: FreteOpcao }) => (
+  <>
+    <div className="min-w-0">
+      <p className="font-medium text-sm">{getFreteLabel(opcao.servico)}</p>
+      <p className="text-xs text-muted-foreground font-normal">
+        Até {opcao.prazo_dias} {opcao.prazo_dias === 1 ? "dia útil" : "dias úteis"} · chega até {formatDeliveryDate(opcao.prazo_dias)}
+      </p>
+    </div>
+    <span className={`ml-auto text-sm font-medium shrink-0 ${opcao.gratis ? "text-green-600" : ""}`}>
+      {opcao.gratis ? "Grátis" : formatPrice(opcao.preco)}
+    </span>
+  </>
+);
+
+const FreteOpcoes = ({ opcoes, selected, onSelect }: FreteOpcoesProps) => {
+  if (!onSelect) {
+    return (
+      <div className="space-y-2">
+        {opcoes.map((opcao) => (
+          <div key={opcao.servico} className="flex items-center gap-3 p-3 border rounded-lg">
+            <Truck className="w-4 h-4 text-muted-foreground shrink-0" />
+            <OpcaoInfo opcao={opcao} />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <RadioGroup value={selected || ""} onValueChange={onSelect} className="space-y-2">
+      {opcoes.map((opcao) => (
+        <div key={opcao.servico} className="flex items-center space-x-3 p-3 border rounded-lg hover:bg-muted/50 cursor-pointer">
+          <RadioGroupItem value={opcao.servico} id={`frete-${opcao.servico}`} />
+          <Label htmlFor={`frete-${opcao.servico}`} className="flex items-center gap-3 cursor-pointer flex-1">
+            <OpcaoInfo opcao={opcao} />
+          </Label>
+        </div>
+      ))}
+    </RadioGroup>
+  );
+};
+
+export default FreteOpcoes;
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { ShoppingCart, User, Heart, Menu, LogOut, Package, MapPin, UserCircle, HelpCircle, ChevronDown, ChevronRight } from "lucide-react";
+import { ShoppingCart, User, Heart, Menu, LogOut, Package, MapPin, UserCircle, HelpCircle, ChevronDown, ChevronRight, KeyRound } from "lucide-react";
 import AppleLogo from "@/assets/logo-apple.svg";
 import { Button } from "@/components/ui/button";
 import { Link, useNavigate } from "react-router-dom";
@@ -8,8 +8,12 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/component
 import SearchDropdown from "./SearchDropdown";
 import LoginModal from "./LoginModal";
 import UserMenuDropdown from "./UserMenuDropdown";
+import AlterarSenhaModal from "./AlterarSenhaModal";
 import { useCart } from "@/hooks/useCart";
 import { useCategories } from "@/hooks/useCategories";
+import { useAuth } from "@/hooks/useAuth";
+import { SESSAO_ENCERRADA_EVENT, USUARIO_ATUALIZADO_EVENT } from "@/services/clienteAuth";
+import { reenviarConfirmacaoEmail } from "@/services/contaApi";
 import { toast } from "sonner";
 
 interface Usuario {
@@ -17,10 +21,12 @@ interface Usuario {
   nome: string;
   email: string;
   tipo: 'admin' | 'cliente';
+  email_verificado?: boolean;
 }
 
 const Header = () => {
   const [isLoginOpen, setIsLoginOpen] = useState(false);
+  const [isAlterarSenhaOpen, setIsAlterarSenhaOpen] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isProdutosOpen, setIsProdutosOpen] = useState(false);
   const [usuario, setUsuario] = useState<Usuario | null>(null);
@@ -28,6 +34,7 @@ const Header = () => {
   const { categories } = useCategories();
   const itemCount = getItemCount();
   const navigate = useNavigate();
+  const { logout } = useAuth();
 
   // Verificar se usuário está logado
   useEffect(() => {
@@ -44,21 +51,40 @@ const Header = () => {
       }
     };
 
+    // Sessão recusada pelo servidor: useAuth já limpou os dados
+    const handleSessaoEncerrada = () => {
+      setUsuario(null);
+      toast.error("Sua sessão expirou. Entre novamente.", { id: "sessao-encerrada" });
+    };
+
     checkAuth();
     // Escutar mudanças no localStorage
     window.addEventListener('storage', checkAuth);
-    return () => window.removeEventListener('storage', checkAuth);
+    window.addEventListener(USUARIO_ATUALIZADO_EVENT, checkAuth);
+    window.addEventListener(SESSAO_ENCERRADA_EVENT, handleSessaoEncerrada);
+    return () => {
+      window.removeEventListener('storage', checkAuth);
+      window.removeEventListener(USUARIO_ATUALIZADO_EVENT, checkAuth);
+      window.removeEventListener(SESSAO_ENCERRADA_EVENT, handleSessaoEncerrada);
+    };
   }, []);
 
   const handleLogout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('usuario');
+    logout();
     setUsuario(null);
     setIsMobileMenuOpen(false);
     toast.success("Você saiu da sua conta");
     navigate('/');
   };
 
+  const handleReenviarConfirmacao = async () => {
+    try {
+      toast.success(await reenviarConfirmacaoEmail());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao reenviar confirmação");
+    }
+  };
+
   const handleLoginSuccess = () => {
     const usuarioData = localStorage.getItem('usuario');
     if (usuarioData) {
@@ -136,6 +162,14 @@ const Header = () => {
                 <div className="p-4 border-t border-border mt-auto">
                   {usuario ? (
                     <div className="space-y-2">
+                      <Link 
+                        to="/minha-conta" 
+                        className="flex items-center gap-3 px-3 py-3 text-foreground hover:bg-secondary rounded-lg transition-colors"
+                        onClick={() => setIsMobileMenuOpen(false)}
+                      >
+                        <UserCircle className="w-5 h-5" />
+                        Minha Conta
+                      </Link>
                       <Link 
                         to="/meus-pedidos" 
                         className="flex items-center gap-3 px-3 py-3 text-foreground hover:bg-secondary rounded-lg transition-colors"
@@ -162,6 +196,16 @@ const Header = () => {
                         <HelpCircle className="w-5 h-5" />
                         Ajuda
                       </a>
+                      <button
+                        onClick={() => {
+                          setIsMobileMenuOpen(false);
+                          setIsAlterarSenhaOpen(true);
+                        }}
+                        className="flex items-center gap-3 px-3 py-3 w-full text-foreground hover:bg-secondary rounded-lg transition-colors"
+                      >
+                        <KeyRound className="w-5 h-5" />
+                        Alterar senha
+                      </button>
                       {usuario.tipo === 'admin' && (
                         <Link 
                           to="/admin/dashboard" 
@@ -216,6 +260,9 @@ const Header = () => {
                   userName={usuario.nome}
                   userEmail={usuario.email}
                   userType={usuario.tipo}
+                  emailVerificado={usuario.email_verificado}
+                  onAlterarSenha={() => setIsAlterarSenhaOpen(true)}
+                  onReenviarConfirmacao={handleReenviarConfirmacao}
                   onLogout={handleLogout}
                 />
               ) : (
@@ -276,6 +323,11 @@ const Header = () => {
           handleLoginSuccess();
         }} 
       />
+
+      <AlterarSenhaModal
+        isOpen={isAlterarSenhaOpen}
+        onClose={() => setIsAlterarSenhaOpen(false)}
+      />
     </>
   );
 };
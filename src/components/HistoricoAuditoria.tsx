@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import AuditoriaAlteracoes from "@/components/AuditoriaAlteracoes";
+import { fetchAdminAuditoria } from "@/services/adminApi";
+import { AUDITORIA_ACAO_CONFIG, AuditoriaEntidade } from "@/lib/auditoria";
+
+interface HistoricoAuditoriaProps {
+  entidade: AuditoriaEntidade;
+  entidadeId: number;
+}
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+/**
+ * Alterações feitas no painel sobre um registro (quem, quando e o que mudou)
+ * Mostra as 20 mais recentes; o log completo fica em /admin/auditoria
+ */
+const HistoricoAuditoria = ({ entidade, entidadeId }: HistoricoAuditoriaProps) => {
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["admin-auditoria", entidade, entidadeId],
+    queryFn: () => fetchAdminAuditoria({ entidade, entidade_id: entidadeId, limite: 20 }),
+  });
+
+  if (isLoading) {
+    return <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />;
+  }
+
+  if (isError || !data) {
+    return <p className="text-sm text-muted-foreground">Não foi possível carregar o histórico</p>;
+  }
+
+  if (data.registros.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nenhuma alteração registrada</p>;
+  }
+
+  return (
+    <ol className="space-y-4">
+      {data.registros.map((registro) => (
+        <li key={registro.id} className="border-l-2 border-muted pl-3 space-y-1">
+          <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+            <Badge variant={AUDITORIA_ACAO_CONFIG[registro.acao].variant}>
+              {AUDITORIA_ACAO_CONFIG[registro.acao].label}
+            </Badge>
+            <span className="font-medium">{registro.usuario_nome}</span>
+            <time className="text-xs text-muted-foreground">{formatDateTime(registro.created_at)}</time>
+          </div>
+          <AuditoriaAlteracoes registro={registro} />
+        </li>
+      ))}
+      {data.total > data.registros.length && (
+        <li className="text-xs text-muted-foreground">
+          Mais {data.total - data.registros.length} alteração(ões) no log de auditoria
+        </li>
+      )}
+    </ol>
+  );
+};
+
+export default HistoricoAuditoria;
@@ -0,0 +1,211 @@
+import { useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { AdminImportacaoLinha, AdminImportacaoResultado, importAdminProdutos } from "@/services/adminApi";
+import AuditoriaAlteracoes from "@/components/AuditoriaAlteracoes";
+
+interface ImportarProdutosDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImportado: () => void;
+}
+
+const ACAO_CONFIG: Record<AdminImportacaoLinha["acao"], { label: string; variant: "default" | "secondary" | "outline" }> = {
+  criar: { label: "Novo", variant: "default" },
+  atualizar: { label: "Alterado", variant: "secondary" },
+  sem_alteracao: { label: "Sem alteração", variant: "outline" },
+};
+
+/**
+ * Importação de produtos por planilha: o arquivo escolhido é conferido no
+ * servidor e a prévia mostra o que cada linha cria ou muda; só é possível
+ * aplicar quando nenhuma linha tem erro
+ */
+const ImportarProdutosDialog = ({ open, onOpenChange, onImportado }: ImportarProdutosDialogProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [arquivo, setArquivo] = useState<File | null>(null);
+  const [previa, setPrevia] = useState<AdminImportacaoResultado | null>(null);
+  const [conferindo, setConferindo] = useState(false);
+  const [aplicando, setAplicando] = useState(false);
+
+  const limpar = () => {
+    setArquivo(null);
+    setPrevia(null);
+  };
+
+  const handleOpenChange = (aberto: boolean) => {
+    if (aplicando) return;
+    if (!aberto) limpar();
+    onOpenChange(aberto);
+  };
+
+  const conferir = async (selecionado: File) => {
+    setArquivo(selecionado);
+    setPrevia(null);
+    try {
+      setConferindo(true);
+      setPrevia(await importAdminProdutos(selecionado, false));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao ler a planilha");
+      setArquivo(null);
+    } finally {
+      setConferindo(false);
+    }
+  };
+
+  const aplicar = async () => {
+    if (!arquivo) return;
+    try {
+      setAplicando(true);
+      const resultado = await importAdminProdutos(arquivo, true);
+      if (!resultado.aplicado) {
+        // O catálogo mudou desde a prévia e alguma linha passou a ter erro
+        setPrevia(resultado);
+        toast.error("A planilha tem erros. Nada foi importado");
+        return;
+      }
+      toast.success(
+        `Importação concluída: ${resultado.resumo.criar} novo(s), ${resultado.resumo.atualizar} alterado(s)`
+      );
+      limpar();
+      onOpenChange(false);
+      onImportado();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao importar planilha");
+    } finally {
+      setAplicando(false);
+    }
+  };
+
+  const totalMudancas = previa ? previa.resumo.criar + previa.resumo.atualizar : 0;
+  const podeAplicar = previa !== null && previa.resumo.erros === 0 && totalMudancas > 0;
+  // Linhas com erro primeiro; as sem alteração ficam de fora da lista
+  const linhasVisiveis = previa
+    ? [...previa.linhas]
+        .filter((linha) => linha.erros.length > 0 || linha.acao !== "sem_alteracao")
+        .sort((a, b) => Number(b.erros.length > 0) - Number(a.erros.length > 0))
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            Importar produtos
+          </DialogTitle>
+          <DialogDescription>
+            CSV ou XLSX no formato da exportação. Produtos são encontrados pelo id ou pelo SKU; os demais são
+            criados. Células vazias mantêm o valor atual.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => inputRef.current?.click()}
+            disabled={conferindo || aplicando}
+          >
+            {conferindo ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            {arquivo ? "Trocar arquivo" : "Escolher arquivo"}
+          </Button>
+          {arquivo && <span className="text-sm text-muted-foreground truncate">{arquivo.name}</span>}
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,.xlsx"
+            className="hidden"
+            onChange={(e) => {
+              const selecionado = e.target.files?.[0];
+              if (selecionado) conferir(selecionado);
+              e.target.value = "";
+            }}
+          />
+        </div>
+
+        {previa && (
+          <div className="flex-1 min-h-0 flex flex-col gap-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge>{previa.resumo.criar} novo(s)</Badge>
+              <Badge variant="secondary">{previa.resumo.atualizar} alterado(s)</Badge>
+              <Badge variant="outline">{previa.resumo.sem_alteracao} sem alteração</Badge>
+              {previa.resumo.erros > 0 && (
+                <Badge variant="destructive">{previa.resumo.erros} com erro</Badge>
+              )}
+            </div>
+
+            {previa.colunas_ignoradas.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Colunas ignoradas: {previa.colunas_ignoradas.join(", ")}
+              </p>
+            )}
+
+            {previa.resumo.erros > 0 && (
+              <p className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="w-4 h-4 shrink-0" />
+                Corrija as linhas com erro e envie a planilha de novo. Nada é importado enquanto houver erros.
+              </p>
+            )}
+
+            <div className="flex-1 min-h-0 overflow-y-auto space-y-2 pr-1">
+              {linhasVisiveis.length === 0 ? (
+                <p className="text-center text-muted-foreground py-6 text-sm">
+                  A planilha não muda nenhum produto
+                </p>
+              ) : (
+                linhasVisiveis.map((linha) => (
+                  <div
+                    key={linha.linha}
+                    className={`border rounded-lg p-3 space-y-2 ${linha.erros.length > 0 ? "border-destructive" : ""}`}
+                  >
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="text-xs text-muted-foreground">Linha {linha.linha}</span>
+                      <Badge variant={ACAO_CONFIG[linha.acao].variant}>{ACAO_CONFIG[linha.acao].label}</Badge>
+                      <span className="font-medium">{linha.nome || "Sem nome"}</span>
+                      {linha.sku && <span className="text-xs text-muted-foreground">SKU {linha.sku}</span>}
+                    </div>
+                    {linha.erros.length > 0 ? (
+                      <ul className="text-xs text-destructive space-y-0.5">
+                        {linha.erros.map((erro) => (
+                          <li key={erro}>• {erro}</li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <AuditoriaAlteracoes
+                        registro={{ acao: linha.acao === "criar" ? "criar" : "atualizar", alteracoes: linha.alteracoes }}
+                      />
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={aplicando}>
+            Cancelar
+          </Button>
+          <Button onClick={aplicar} disabled={!podeAplicar || aplicando || conferindo}>
+            {aplicando && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Importar {totalMudancas > 0 ? `${totalMudancas} produto(s)` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportarProdutosDialog;
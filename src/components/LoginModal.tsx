@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Lock, Loader2 } from "lucide-react";
+import { Lock, Loader2, MailCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -10,6 +10,9 @@ import {
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { API_BASE_URL } from "@/services/api";
+import { mergeCartOnLogin } from "@/hooks/useCart";
+import { saveSessao } from "@/services/clienteAuth";
+import { solicitarRedefinicaoSenha } from "@/services/contaApi";
 import { useNavigate } from "react-router-dom";
 import AppleLogo from "@/assets/logo-apple.svg";
 
@@ -21,6 +24,9 @@ interface LoginModalProps {
 
 const LoginModal = ({ isOpen, onClose, defaultToRegister = false }: LoginModalProps) => {
   const [isLogin, setIsLogin] = useState(!defaultToRegister);
+  // Tela "Não sei a minha senha": pede o email e envia o link de redefinição
+  const [isRecuperar, setIsRecuperar] = useState(false);
+  const [recuperacaoMensagem, setRecuperacaoMensagem] = useState<string | null>(null);
   const [nome, setNome] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
@@ -32,9 +38,34 @@ const LoginModal = ({ isOpen, onClose, defaultToRegister = false }: LoginModalPr
   useEffect(() => {
     if (isOpen) {
       setIsLogin(!defaultToRegister);
+      setIsRecuperar(false);
+      setRecuperacaoMensagem(null);
     }
   }, [isOpen, defaultToRegister]);
 
+  const handleRecuperar = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      setRecuperacaoMensagem(await solicitarRedefinicaoSenha(email));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao solicitar redefinição de senha",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const voltarAoLogin = () => {
+    setIsRecuperar(false);
+    setRecuperacaoMensagem(null);
+    setIsLogin(true);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -59,26 +90,21 @@ const LoginModal = ({ isOpen, onClose, defaultToRegister = false }: LoginModalPr
         throw new Error(data.error || 'Erro ao processar requisição');
       }
 
-      // Salvar dados do usuário
-      localStorage.setItem('token', data.data.token);
-      localStorage.setItem('usuario', JSON.stringify(data.data.usuario));
+      // Salvar a sessão (token de acesso, renovação e dados do usuário)
+      saveSessao(data.data);
 
-      // Compatibilidade com páginas administrativas
-      if (data.data.usuario.tipo === 'admin') {
-        localStorage.setItem('adminToken', data.data.token);
-        localStorage.setItem('adminUser', JSON.stringify(data.data.usuario));
-        sessionStorage.setItem('adminToken', data.data.token);
-        sessionStorage.setItem('adminUser', JSON.stringify(data.data.usuario));
-      } else {
-        localStorage.removeItem('adminToken');
-        localStorage.removeItem('adminUser');
-        sessionStorage.removeItem('adminToken');
-        sessionStorage.removeItem('adminUser');
+      // Levar o carrinho anônimo para a conta; uma falha aqui não impede o login
+      try {
+        await mergeCartOnLogin();
+      } catch (mergeError) {
+        console.error('Erro ao mesclar carrinho:', mergeError);
       }
 
       toast({
         title: isLogin ? "Login realizado!" : "Cadastro realizado!",
-        description: `Bem-vindo, ${data.data.usuario.nome}!`,
+        description: isLogin
+          ? `Bem-vindo, ${data.data.usuario.nome}!`
+          : `Bem-vindo, ${data.data.usuario.nome}! Enviamos um link para confirmar seu email.`,
       });
 
       // Limpar formulário
@@ -112,6 +138,8 @@ const LoginModal = ({ isOpen, onClose, defaultToRegister = false }: LoginModalPr
     setEmail("");
     setPassword("");
     setIsLogin(true);
+    setIsRecuperar(false);
+    setRecuperacaoMensagem(null);
     onClose();
   };
 
@@ -139,90 +167,141 @@ const LoginModal = ({ isOpen, onClose, defaultToRegister = false }: LoginModalPr
           <DialogHeader className="mb-6">
             <div className="flex items-center justify-between">
               <DialogTitle className="text-xl font-semibold">
-                {isLogin ? "Fazer login" : "Criar conta"}
+                {isRecuperar ? "Recuperar senha" : isLogin ? "Fazer login" : "Criar conta"}
               </DialogTitle>
               <button
-                onClick={() => setIsLogin(!isLogin)}
+                onClick={() => (isRecuperar ? voltarAoLogin() : setIsLogin(!isLogin))}
                 className="text-sm text-muted-foreground hover:text-foreground underline"
               >
-                {isLogin ? "Não sou cadastrado" : "Já tenho conta"}
+                {isRecuperar ? "Voltar ao login" : isLogin ? "Não sou cadastrado" : "Já tenho conta"}
               </button>
             </div>
           </DialogHeader>
 
-          <form onSubmit={handleSubmit} className="space-y-4">
-            {!isLogin && (
+          {isRecuperar ? (
+            recuperacaoMensagem ? (
+              <div className="space-y-4 text-center">
+                <MailCheck className="w-10 h-10 mx-auto text-primary" />
+                <p className="text-sm text-muted-foreground">{recuperacaoMensagem}</p>
+                <Button
+                  variant="outline"
+                  className="w-full rounded-lg"
+                  onClick={voltarAoLogin}
+                >
+                  Voltar ao login
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleRecuperar} className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Informe o email da sua conta e enviaremos um link para criar uma nova senha.
+                </p>
+                <div>
+                  <label className="text-sm text-muted-foreground mb-1 block">
+                    Email*
+                  </label>
+                  <Input
+                    type="email"
+                    placeholder="nome@email.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="w-full rounded-lg"
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full bg-foreground hover:bg-foreground/80 text-background font-medium py-6 rounded-lg transition-all"
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Aguarde...
+                    </>
+                  ) : (
+                    "Enviar link"
+                  )}
+                </Button>
+              </form>
+            )
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {!isLogin && (
+                <div>
+                  <label className="text-sm text-muted-foreground mb-1 block">
+                    Nome completo*
+                  </label>
+                  <Input
+                    type="text"
+                    placeholder="Seu nome"
+                    value={nome}
+                    onChange={(e) => setNome(e.target.value)}
+                    className="w-full rounded-lg"
+                    required={!isLogin}
+                    disabled={isLoading}
+                  />
+                </div>
+              )}
+
               <div>
                 <label className="text-sm text-muted-foreground mb-1 block">
-                  Nome completo*
+                  Email*
                 </label>
                 <Input
-                  type="text"
-                  placeholder="Seu nome"
-                  value={nome}
-                  onChange={(e) => setNome(e.target.value)}
+                  type="email"
+                  placeholder="nome@email.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
                   className="w-full rounded-lg"
-                  required={!isLogin}
+                  required
                   disabled={isLoading}
                 />
               </div>
-            )}
-
-            <div>
-              <label className="text-sm text-muted-foreground mb-1 block">
-                Email*
-              </label>
-              <Input
-                type="email"
-                placeholder="nome@email.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                className="w-full rounded-lg"
-                required
-                disabled={isLoading}
-              />
-            </div>
 
-            <div>
-              <label className="text-sm text-muted-foreground mb-1 block">
-                Senha*
-              </label>
-              <Input
-                type="password"
-                placeholder={isLogin ? "Sua senha" : "Mínimo 6 caracteres"}
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="w-full rounded-lg"
-                required
-                minLength={6}
-                disabled={isLoading}
-              />
-            </div>
+              <div>
+                <label className="text-sm text-muted-foreground mb-1 block">
+                  Senha*
+                </label>
+                <Input
+                  type="password"
+                  placeholder={isLogin ? "Sua senha" : "Mínimo 6 caracteres"}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full rounded-lg"
+                  required
+                  minLength={6}
+                  disabled={isLoading}
+                />
+              </div>
 
-            {isLogin && (
-              <button
-                type="button"
-                className="text-sm text-muted-foreground hover:text-foreground underline"
-              >
-                Não sei a minha senha
-              </button>
-            )}
-
-            <Button
-              type="submit"
-              className="w-full bg-foreground hover:bg-foreground/80 text-background font-medium py-6 rounded-lg transition-all"
-              disabled={isLoading}
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Aguarde...
-                </>
-              ) : (
-                isLogin ? "Entrar" : "Criar conta"
+              {isLogin && (
+                <button
+                  type="button"
+                  onClick={() => setIsRecuperar(true)}
+                  className="text-sm text-muted-foreground hover:text-foreground underline"
+                >
+                  Não sei a minha senha
+                </button>
               )}
-            </Button>
-          </form>
+
+              <Button
+                type="submit"
+                className="w-full bg-foreground hover:bg-foreground/80 text-background font-medium py-6 rounded-lg transition-all"
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Aguarde...
+                  </>
+                ) : (
+                  isLogin ? "Entrar" : "Criar conta"
+                )}
+              </Button>
+            </form>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import {
   Dialog,
@@ -18,184 +18,373 @@ import {
   Loader2,
   ShieldCheck,
   User,
+  AlertCircle,
+  Barcode,
 } from "lucide-react";
 import { toast } from "sonner";
+import { QRCodeSVG } from "qrcode.react";
 import { useCart, CartItem } from "@/hooks/useCart";
-import { createPedido, updatePedidoStatus } from "@/services/pedidosApi";
-import { User as UserType } from "@/hooks/useAuth";
+import { createPedido, ClientePedido, EstoqueInsuficienteError, TotalDivergenteError } from "@/services/pedidosApi";
+import { PrecosCarrinho, CupomInvalidoError } from "@/services/precosApi";
+import {
+  createCobranca,
+  fetchPagamentoDisponivel,
+  simulatePagamento,
+  Pagamento,
+  PagamentoIndisponivelError,
+} from "@/services/pagamentosApi";
 import { useInvalidateProducts } from "@/hooks/useInvalidateProducts";
+import { useInvalidatePrecos } from "@/hooks/usePrecos";
+import { clearSavedCupom } from "@/lib/cupom";
+import { useConfiguracoes } from "@/hooks/useConfiguracoes";
+import { useParcelamento } from "@/hooks/useParcelamento";
+import { formatPlano } from "@/lib/parcelamento";
+import {
+  BANDEIRA_LABELS,
+  detectBandeira,
+  formatCardNumber,
+  formatExpiry,
+  getCvvLength,
+  getMensagemRecusa,
+  validateCartao,
+} from "@/lib/cartao";
+import { getCartaoGateway, CartaoToken } from "@/services/cartaoGateway";
+import { formatVencimento, linhaDigitavelNumeros } from "@/lib/boleto";
+import BoletoBarcode from "@/components/BoletoBarcode";
+import { usePagamentoStatus } from "@/hooks/usePagamentoStatus";
+import { buildPixPayload } from "@/lib/pix";
+import { EnderecoEntrega } from "@/lib/endereco";
+import { savePedidoEmail } from "@/lib/pedidoAcesso";
 
 interface PaymentModalProps {
   isOpen: boolean;
   onClose: () => void;
-  paymentMethod: "pix" | "card";
-  total: number;
-  subtotal: number;
-  shipping: number;
+  paymentMethod: "pix" | "card" | "boleto";
+  precos: PrecosCarrinho | null;
   cartItems: CartItem[];
-  user: UserType | null;
+  cliente: ClientePedido | null;
+  endereco: EnderecoEntrega | null;
+  freteServico: string | null;
 }
 
 const PaymentModal = ({
   isOpen,
   onClose,
   paymentMethod,
-  total,
-  subtotal,
-  shipping,
+  precos,
   cartItems,
-  user,
+  cliente,
+  endereco,
+  freteServico,
 }: PaymentModalProps) => {
   const navigate = useNavigate();
   const { clearCart } = useCart();
   const { invalidateAllProducts } = useInvalidateProducts();
+  const invalidatePrecos = useInvalidatePrecos();
+  const { data: config } = useConfiguracoes();
+  const { listarPlanos } = useParcelamento();
   const [isProcessing, setIsProcessing] = useState(false);
   const [pixGenerated, setPixGenerated] = useState(false);
   const [copied, setCopied] = useState(false);
   const [orderNumber, setOrderNumber] = useState<string | null>(null);
+  const [orderMethod, setOrderMethod] = useState<"pix" | "cartao" | "boleto" | null>(null);
+  const [pagamento, setPagamento] = useState<Pagamento | null>(null);
+  const finishedRef = useRef(false);
+
+  // O pedido só é confirmado quando o servidor recebe a notificação verificada do provedor
+  const { data: pagamentoStatus, refetch: refetchPagamento, isFetching: isCheckingPayment } =
+    usePagamentoStatus(orderNumber, cliente?.email ?? null, isOpen);
 
   const [cardData, setCardData] = useState({
     number: "",
-    name: user?.nome?.toUpperCase() || "",
+    name: cliente?.nome?.toUpperCase() || "",
     expiry: "",
     cvv: "",
     installments: "1",
   });
-
-  const finalTotal = paymentMethod === "pix" ? total * 0.95 : total;
-  const discount = paymentMethod === "pix" ? total * 0.05 : 0;
-
-  const pixCode =
-    "00020126580014br.gov.bcb.pix0136a1b2c3d4-e5f6-7890-abcd-ef1234567890520400005303986540" +
-    finalTotal.toFixed(2).replace(".", "") +
-    "5802BR5925IPLACE LTDA6009SAO PAULO62070503***6304";
+  const [cardErrors, setCardErrors] = useState<Partial<Record<"numero" | "nome" | "validade" | "cvv", string>>>({});
+  const bandeira = detectBandeira(cardData.number);
+
+  // Cartão aguardando o desafio 3DS do emissor
+  const pagamentoAtual = pagamentoStatus?.pagamento ?? pagamento;
+  const aguardandoAutenticacao =
+    paymentMethod === "card" && !!pagamentoAtual?.requer_autenticacao && pagamentoAtual.status === "pendente";
+
+  // Valores calculados pelo servidor (api/precos.php)
+  const subtotal = precos?.subtotal ?? 0;
+  const shipping = precos?.frete ?? 0;
+  const discount = precos?.desconto ?? 0;
+  const finalTotal = precos?.total ?? 0;
+
+  // Cartão: o servidor refaz o plano e confere o total com juros
+  const planos = listarPlanos(finalTotal);
+  const planoSelecionado = planos.find((p) => p.parcelas === Number(cardData.installments)) ?? planos[0];
+  const totalPagamento = paymentMethod === "card" && planoSelecionado ? planoSelecionado.total : finalTotal;
+
+  // Código PIX "copia e cola" com o número do pedido como txid
+  const pixCode = useMemo(() => {
+    if (!orderNumber) return null;
+    try {
+      return buildPixPayload({
+        chave: config.pix_chave,
+        nome: config.pix_nome || config.loja_nome,
+        cidade: config.pix_cidade,
+        valor: Number(finalTotal.toFixed(2)),
+        txid: orderNumber,
+      });
+    } catch (error) {
+      console.error("Erro ao gerar código PIX:", error);
+      return null;
+    }
+  }, [orderNumber, config, finalTotal]);
 
   const handleCopyPix = () => {
+    if (!pixCode) return;
     navigator.clipboard.writeText(pixCode);
     setCopied(true);
     toast.success("Código PIX copiado!");
     setTimeout(() => setCopied(false), 3000);
   };
 
+  useEffect(() => {
+    if (!orderNumber || finishedRef.current) return;
+
+    if (pagamentoStatus?.status === "pago") {
+      finishedRef.current = true;
+      // Invalida cache de produtos para atualizar estoque
+      invalidateAllProducts();
+      clearCart();
+      clearSavedCupom();
+      onClose();
+      localStorage.setItem("lastOrderNumber", orderNumber);
+      toast.success("Pagamento confirmado!");
+      navigate("/pedido-confirmado");
+    } else if (pagamentoStatus?.pagamento?.status === "recusado") {
+      setIsProcessing(false);
+      // Nova tentativa exige digitar o código de segurança de novo
+      setCardData((prev) => ({ ...prev, cvv: "" }));
+      toast.error(getMensagemRecusa(pagamentoStatus.pagamento.motivo_recusa));
+    } else if (pagamentoStatus?.pagamento?.requer_autenticacao) {
+      setIsProcessing(false);
+    }
+  }, [pagamentoStatus, orderNumber, invalidateAllProducts, clearCart, onClose, navigate]);
+
   const handleGeneratePix = async () => {
-    if (!user) {
-      toast.error("Usuário não autenticado");
+    if (!cliente) {
+      toast.error("Informe seus dados para continuar");
       return;
     }
 
     setIsProcessing(true);
     try {
-      const numero = await saveOrderToAPI("pix", "pendente");
-      setOrderNumber(numero);
+      const numero = await registrarPedido("pix");
+      const cobranca = await createCobranca(numero, cliente.email);
+      setPagamento(cobranca);
       setPixGenerated(true);
       toast.success("Pedido registrado! Aguardando pagamento.");
     } catch (error) {
       console.error("Erro ao criar pedido:", error);
-      toast.error("Erro ao registrar pedido. Tente novamente.");
+      if (!handlePedidoRecusado(error)) {
+        toast.error("Erro ao registrar pedido. Tente novamente.");
+      }
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const handleConfirmPixPayment = async () => {
-    if (!orderNumber) {
-      toast.error("Erro: pedido não encontrado");
+  // O boleto leva dias para compensar: o carrinho é liberado assim que o pedido é registrado
+  const handleGenerateBoleto = async () => {
+    if (!cliente) {
+      toast.error("Informe seus dados para continuar");
       return;
     }
 
     setIsProcessing(true);
     try {
-      await updatePedidoStatus(orderNumber, "pago");
-      // Invalida cache de produtos para atualizar estoque
+      const numero = await registrarPedido("boleto");
+      const cobranca = await createCobranca(numero, cliente.email);
+      setPagamento(cobranca);
+      localStorage.setItem("lastOrderNumber", numero);
       invalidateAllProducts();
       clearCart();
-      onClose();
-      localStorage.setItem("lastOrderNumber", orderNumber);
-      toast.success("Pagamento confirmado!");
-      navigate("/pedido-confirmado");
+      clearSavedCupom();
+      toast.success("Boleto gerado! Aguardando pagamento.");
     } catch (error) {
-      console.error("Erro ao confirmar pagamento:", error);
-      toast.error("Erro ao confirmar pagamento. Tente novamente.");
+      console.error("Erro ao gerar boleto:", error);
+      if (!handlePedidoRecusado(error)) {
+        toast.error("Erro ao gerar boleto. Tente novamente.");
+      }
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const formatCardNumber = (value: string) => {
-    const v = value.replace(/\s+/g, "").replace(/[^0-9]/gi, "");
-    const matches = v.match(/\d{4,16}/g);
-    const match = (matches && matches[0]) || "";
-    const parts = [];
-    for (let i = 0, len = match.length; i < len; i += 4) {
-      parts.push(match.substring(i, i + 4));
+  const handleCopyLinhaDigitavel = () => {
+    if (!pagamentoAtual?.linha_digitavel) return;
+    navigator.clipboard.writeText(linhaDigitavelNumeros(pagamentoAtual.linha_digitavel));
+    setCopied(true);
+    toast.success("Linha digitável copiada!");
+    setTimeout(() => setCopied(false), 3000);
+  };
+
+  const handleCheckPixPayment = async () => {
+    if (!orderNumber) {
+      toast.error("Erro: pedido não encontrado");
+      return;
+    }
+
+    const { data } = await refetchPagamento();
+    if (data?.status === "aguardando_pagamento") {
+      toast.info("Ainda não recebemos a confirmação do pagamento. Aguarde alguns instantes.");
     }
-    return parts.length ? parts.join(" ") : value;
   };
 
-  const formatExpiry = (value: string) => {
-    const v = value.replace(/\s+/g, "").replace(/[^0-9]/gi, "");
-    if (v.length >= 2) {
-      return v.substring(0, 2) + "/" + v.substring(2, 4);
+  const handleSimulatePayment = async () => {
+    if (!pagamento || !orderNumber || !cliente) return;
+
+    try {
+      await simulatePagamento(orderNumber, cliente.email, pagamento.referencia);
+      await refetchPagamento();
+    } catch (error) {
+      console.error("Erro ao simular pagamento:", error);
+      toast.error("Erro ao simular pagamento");
     }
-    return v;
   };
 
   const handleCardPayment = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!user) {
-      toast.error("Usuário não autenticado");
+    if (!cliente) {
+      toast.error("Informe seus dados para continuar");
       return;
     }
 
-    if (
-      !cardData.number ||
-      !cardData.name ||
-      !cardData.expiry ||
-      !cardData.cvv
-    ) {
-      toast.error("Preencha todos os dados do cartão");
+    const erros = validateCartao({
+      numero: cardData.number,
+      nome: cardData.name,
+      validade: cardData.expiry,
+      cvv: cardData.cvv,
+    });
+    setCardErrors(erros);
+    if (Object.keys(erros).length > 0) {
+      toast.error("Confira os dados do cartão");
       return;
     }
 
     setIsProcessing(true);
     try {
-      const numero = await saveOrderToAPI("cartao", "pendente");
-      await updatePedidoStatus(numero, "pago");
-      
-      // Invalida cache de produtos para atualizar estoque
-      invalidateAllProducts();
-      clearCart();
-      onClose();
-      localStorage.setItem("lastOrderNumber", numero);
-      toast.success("Pagamento aprovado!");
-      navigate("/pedido-confirmado");
+      // Só o token e o final do cartão saem do navegador
+      const cartao = await getCartaoGateway().tokenizar({
+        numero: cardData.number,
+        nome: cardData.name,
+        validade: cardData.expiry,
+        cvv: cardData.cvv,
+      });
+
+      // Pedido ainda aguardando pagamento: tenta de novo nele com o novo cartão
+      const numero = await registrarPedido("cartao", cartao);
+      const cobranca = await createCobranca(numero, cliente.email, numero === orderNumber ? cartao : undefined);
+      // A confirmação chega pelo acompanhamento do status do pedido
+      setPagamento(cobranca);
+      if (numero === orderNumber) await refetchPagamento();
     } catch (error) {
       console.error("Erro ao processar pagamento:", error);
-      toast.error("Erro ao processar pagamento. Tente novamente.");
-    } finally {
+      if (!handlePedidoRecusado(error)) {
+        toast.error("Erro ao processar pagamento. Tente novamente.");
+      }
       setIsProcessing(false);
     }
   };
 
-  const saveOrderToAPI = async (
-    method: "pix" | "cartao" | "boleto",
-    status: "pendente" | "pago" = "pendente"
-  ): Promise<string> => {
-    if (!user) throw new Error("Usuário não autenticado");
+  // Volta ao carrinho mostrando quais itens ficaram sem estoque;
+  // se o total mudou, recalcula e deixa o cliente conferir antes de pagar
+  const handlePedidoRecusado = (error: unknown): boolean => {
+    if (error instanceof PagamentoIndisponivelError) {
+      toast.error(error.message);
+      return true;
+    }
+
+    // O checkout recalcula, remove o cupom e avisa o cliente
+    if (error instanceof CupomInvalidoError) {
+      invalidatePrecos();
+      onClose();
+      return true;
+    }
+
+    if (error instanceof TotalDivergenteError) {
+      invalidatePrecos();
+      onClose();
+      toast.error(error.message);
+      return true;
+    }
+
+    if (!(error instanceof EstoqueInsuficienteError)) return false;
+
+    invalidateAllProducts();
+    onClose();
+    toast.error("Alguns itens não têm mais estoque suficiente. Revise seu carrinho.");
+    navigate("/carrinho", { state: { estoqueInsuficiente: error.itens } });
+    return true;
+  };
+
+  // Desafio 3DS simulado pelo provedor fake
+  const handleAutenticacao = async (aprovar: boolean) => {
+    if (!pagamento || !orderNumber || !cliente) return;
+
+    try {
+      await simulatePagamento(
+        orderNumber,
+        cliente.email,
+        pagamento.referencia,
+        aprovar ? "cobranca.paga" : "cobranca.recusada",
+        aprovar ? undefined : "autenticacao_falhou"
+      );
+      await refetchPagamento();
+    } catch (error) {
+      console.error("Erro na autenticação do cartão:", error);
+      toast.error("Erro na autenticação do cartão");
+    }
+  };
+
+  // O pedido é registrado uma vez só: uma cobrança que falhou é tentada de novo
+  // no mesmo pedido, sem reservar o estoque outra vez. Cartão recusado cancela o
+  // pedido e devolve o estoque, então a nova tentativa registra outro. Sem
+  // provedor de pagamento ativo, nada é registrado
+  const registrarPedido = async (method: "pix" | "cartao" | "boleto", cartao?: CartaoToken): Promise<string> => {
+    // Trocar a forma de pagamento no checkout registra outro pedido
+    if (orderNumber && orderMethod === method && pagamentoStatus?.status !== "cancelado") return orderNumber;
+
+    if (!(await fetchPagamentoDisponivel())) {
+      throw new PagamentoIndisponivelError();
+    }
+
+    const numero = await saveOrderToAPI(method, cartao);
+    setOrderNumber(numero);
+    setOrderMethod(method);
+    return numero;
+  };
+
+  const saveOrderToAPI = async (method: "pix" | "cartao" | "boleto", cartao?: CartaoToken): Promise<string> => {
+    if (!cliente) throw new Error("Dados do cliente não informados");
+    if (!endereco) throw new Error("Endereço de entrega não informado");
+    if (!freteServico) throw new Error("Opção de frete não selecionada");
+    if (!precos) throw new Error("Valores do pedido não calculados");
 
     const result = await createPedido({
-      usuario_id: user.id,
-      nome_cliente: user.nome,
-      email_cliente: user.email,
-      telefone_cliente: user.telefone,
-      cpf_cliente: user.cpf,
+      nome_cliente: cliente.nome,
+      email_cliente: cliente.email,
+      telefone_cliente: cliente.telefone,
+      cpf_cliente: cliente.cpf,
+      endereco,
       subtotal,
       desconto: discount,
       frete: shipping,
-      total: finalTotal,
+      frete_servico: freteServico,
+      total: method === "cartao" && planoSelecionado ? planoSelecionado.total : finalTotal,
       forma_pagamento: method,
-      status,
+      cupom: precos.cupom?.codigo,
+      parcelas: method === "cartao" ? planoSelecionado?.parcelas : undefined,
+      cartao,
       itens: cartItems.map((item) => ({
         produto_id: !isNaN(Number(item.id)) ? Number(item.id) : undefined,
         nome: item.name,
@@ -203,9 +392,14 @@ const PaymentModal = ({
         imagem: item.image,
         quantidade: item.quantity,
         preco_unitario: item.price,
+        variacao_id: item.variationId,
+        cor: item.color || undefined,
+        capacidade: item.capacity || undefined,
       })),
     });
 
+    // Sem login, o email da compra é o que permite acompanhar o pedido depois
+    savePedidoEmail(result.numero, cliente.email);
     return result.numero;
   };
 
@@ -219,6 +413,11 @@ const PaymentModal = ({
                 <QrCode className="w-5 h-5" />
                 Pagamento via PIX
               </>
+            ) : paymentMethod === "boleto" ? (
+              <>
+                <Barcode className="w-5 h-5" />
+                Pagamento com Boleto
+              </>
             ) : (
               <>
                 <CreditCard className="w-5 h-5" />
@@ -229,14 +428,14 @@ const PaymentModal = ({
         </DialogHeader>
 
         <div className="space-y-4">
-          {/* Dados do cliente logado */}
-          {user && (
+          {/* Dados do cliente */}
+          {cliente && (
             <div className="p-3 bg-muted/50 rounded-lg text-sm flex items-center gap-2">
               <User className="w-4 h-4 text-muted-foreground" />
               <div>
                 <span className="text-muted-foreground">Cliente: </span>
-                <strong>{user.nome}</strong>
-                <span className="text-muted-foreground ml-2">({user.email})</span>
+                <strong>{cliente.nome}</strong>
+                <span className="text-muted-foreground ml-2">({cliente.email})</span>
               </div>
             </div>
           )}
@@ -276,175 +475,323 @@ const PaymentModal = ({
                     </div>
                   )}
 
-                  <div className="flex flex-col items-center">
-                    <div className="w-40 h-40 bg-muted rounded-lg flex items-center justify-center border-2 border-dashed">
-                      <div className="text-center">
-                        <QrCode className="w-24 h-24 text-foreground mx-auto" />
-                        <p className="text-xs text-muted-foreground mt-2">
-                          QR Code PIX
+                  {pixCode ? (
+                    <>
+                      <div className="flex flex-col items-center">
+                        <div className="p-3 bg-white rounded-lg border">
+                          <QRCodeSVG value={pixCode} size={192} level="M" />
+                        </div>
+                        <p className="text-sm text-muted-foreground mt-4 text-center">
+                          Escaneie o QR Code com o app do seu banco
                         </p>
                       </div>
-                    </div>
-                    <p className="text-sm text-muted-foreground mt-4 text-center">
-                      Escaneie o QR Code com o app do seu banco
-                    </p>
-                  </div>
 
-                  <Separator />
-
-                  <div>
-                    <Label className="text-sm text-muted-foreground">
-                      Ou copie o código PIX:
-                    </Label>
-                    <div className="flex gap-2 mt-2">
-                      <Input
-                        value={pixCode.substring(0, 40) + "..."}
-                        readOnly
-                        className="font-mono text-xs"
-                      />
-                      <Button variant="outline" size="icon" onClick={handleCopyPix}>
-                        {copied ? (
-                          <Check className="w-4 h-4" />
-                        ) : (
-                          <Copy className="w-4 h-4" />
-                        )}
-                      </Button>
+                      <Separator />
+
+                      <div>
+                        <Label className="text-sm text-muted-foreground">
+                          Ou copie o código PIX:
+                        </Label>
+                        <div className="flex gap-2 mt-2">
+                          <Input
+                            value={pixCode}
+                            readOnly
+                            onFocus={(e) => e.target.select()}
+                            className="font-mono text-xs"
+                          />
+                          <Button variant="outline" size="icon" onClick={handleCopyPix}>
+                            {copied ? (
+                              <Check className="w-4 h-4" />
+                            ) : (
+                              <Copy className="w-4 h-4" />
+                            )}
+                          </Button>
+                        </div>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-center">
+                      <p className="text-sm text-red-800">
+                        Não foi possível gerar o código PIX. Entre em contato com a loja.
+                      </p>
                     </div>
-                  </div>
+                  )}
 
-                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 flex items-center gap-2">
+                    <Loader2 className="w-4 h-4 text-yellow-800 animate-spin shrink-0" />
                     <p className="text-sm text-yellow-800">
-                      <strong>Importante:</strong> Após realizar o pagamento, clique
-                      no botão abaixo para confirmar.
+                      Aguardando a confirmação do banco. Esta tela será atualizada
+                      automaticamente assim que o pagamento for identificado.
                     </p>
                   </div>
 
                   <Button
-                    onClick={handleConfirmPixPayment}
+                    onClick={handleCheckPixPayment}
+                    variant="outline"
                     className="w-full"
                     size="lg"
-                    disabled={isProcessing}
+                    disabled={isCheckingPayment}
                   >
-                    {isProcessing ? (
+                    {isCheckingPayment ? (
                       <>
                         <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                        Confirmando...
+                        Verificando...
                       </>
                     ) : (
                       "Já realizei o pagamento"
                     )}
                   </Button>
+
+                  {import.meta.env.DEV && pagamento?.provedor === "fake" && (
+                    <Button
+                      onClick={handleSimulatePayment}
+                      variant="ghost"
+                      className="w-full"
+                      size="sm"
+                    >
+                      Simular pagamento (ambiente de teste)
+                    </Button>
+                  )}
                 </div>
               )}
             </>
-          ) : (
-            <form onSubmit={handleCardPayment} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="cardNumber">Número do Cartão</Label>
-                <Input
-                  id="cardNumber"
-                  placeholder="0000 0000 0000 0000"
-                  value={cardData.number}
-                  onChange={(e) =>
-                    setCardData({
-                      ...cardData,
-                      number: formatCardNumber(e.target.value),
-                    })
-                  }
-                  maxLength={19}
-                />
+          ) : paymentMethod === "boleto" ? (
+            !pagamentoAtual ? (
+              <div className="text-center py-6">
+                <p className="text-sm text-muted-foreground mb-4">
+                  O boleto vence em {config.boleto_vencimento_dias} dias. Os produtos ficam reservados até a
+                  compensação do pagamento.
+                </p>
+                <Button onClick={handleGenerateBoleto} disabled={isProcessing} size="lg">
+                  {isProcessing ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Gerando...
+                    </>
+                  ) : (
+                    "Gerar boleto"
+                  )}
+                </Button>
               </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-center">
+                  <p className="text-sm text-green-800">
+                    Pedido <strong>#{orderNumber}</strong> registrado!
+                  </p>
+                  {pagamentoAtual?.vencimento && (
+                    <p className="text-xs text-green-600 mt-1">
+                      Pague até {formatVencimento(pagamentoAtual.vencimento)}
+                    </p>
+                  )}
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="cardName">Nome no Cartão</Label>
-                <Input
-                  id="cardName"
-                  placeholder="Como está no cartão"
-                  value={cardData.name}
-                  onChange={(e) =>
-                    setCardData({
-                      ...cardData,
-                      name: e.target.value.toUpperCase(),
-                    })
-                  }
-                />
+                {pagamentoAtual?.linha_digitavel && pagamentoAtual.codigo_barras ? (
+                  <>
+                    <div>
+                      <Label className="text-sm text-muted-foreground">Linha digitável:</Label>
+                      <div className="flex gap-2 mt-2">
+                        <Input
+                          value={pagamentoAtual.linha_digitavel}
+                          readOnly
+                          onFocus={(e) => e.target.select()}
+                          className="font-mono text-xs"
+                        />
+                        <Button variant="outline" size="icon" onClick={handleCopyLinhaDigitavel}>
+                          {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="p-3 bg-white rounded-lg border">
+                      <BoletoBarcode codigo={pagamentoAtual.codigo_barras} className="w-full h-12" />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button variant="outline" onClick={() => window.open(`/pedido/${orderNumber}/boleto`, "_blank")}>
+                        Imprimir boleto
+                      </Button>
+                      <Button
+                        onClick={() => {
+                          onClose();
+                          navigate(`/pedido/${orderNumber}`);
+                        }}
+                      >
+                        Acompanhar pedido
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-center">
+                    <p className="text-sm text-red-800">
+                      Não foi possível gerar o boleto. Entre em contato com a loja.
+                    </p>
+                  </div>
+                )}
+
+                {import.meta.env.DEV && pagamento?.provedor === "fake" && (
+                  <Button onClick={handleSimulatePayment} variant="ghost" className="w-full" size="sm">
+                    Simular compensação (ambiente de teste)
+                  </Button>
+                )}
               </div>
+            )
+          ) : (
+            aguardandoAutenticacao ? (
+              <div className="space-y-4">
+                <div className="p-4 bg-muted/50 border rounded-lg text-center space-y-1">
+                  <ShieldCheck className="w-8 h-8 mx-auto text-primary" />
+                  <p className="font-medium">Confirme a compra com seu banco</p>
+                  <p className="text-sm text-muted-foreground">
+                    O emissor do cartão pediu uma verificação adicional antes de aprovar o pagamento.
+                  </p>
+                </div>
+
+                {pagamentoAtual?.autenticacao_url && (
+                  <Button
+                    className="w-full"
+                    size="lg"
+                    onClick={() => window.open(pagamentoAtual.autenticacao_url as string, "_blank")}
+                  >
+                    Autenticar no banco
+                  </Button>
+                )}
 
-              <div className="grid grid-cols-2 gap-4">
+                {import.meta.env.DEV && pagamentoAtual?.provedor === "fake" && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button onClick={() => handleAutenticacao(true)}>Autorizar (teste)</Button>
+                    <Button variant="outline" onClick={() => handleAutenticacao(false)}>
+                      Recusar (teste)
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <form onSubmit={handleCardPayment} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="expiry">Validade</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="cardNumber">Número do Cartão</Label>
+                    {bandeira && (
+                      <span className="text-xs font-medium text-muted-foreground">{BANDEIRA_LABELS[bandeira]}</span>
+                    )}
+                  </div>
                   <Input
-                    id="expiry"
-                    placeholder="MM/AA"
-                    value={cardData.expiry}
+                    id="cardNumber"
+                    placeholder="0000 0000 0000 0000"
+                    inputMode="numeric"
+                    autoComplete="cc-number"
+                    value={cardData.number}
                     onChange={(e) =>
                       setCardData({
                         ...cardData,
-                        expiry: formatExpiry(e.target.value),
+                        number: formatCardNumber(e.target.value),
                       })
                     }
-                    maxLength={5}
                   />
+                  {cardErrors.numero && <p className="text-xs text-destructive">{cardErrors.numero}</p>}
                 </div>
+
                 <div className="space-y-2">
-                  <Label htmlFor="cvv">CVV</Label>
+                  <Label htmlFor="cardName">Nome no Cartão</Label>
                   <Input
-                    id="cvv"
-                    placeholder="000"
-                    value={cardData.cvv}
+                    id="cardName"
+                    placeholder="Como está no cartão"
+                    value={cardData.name}
                     onChange={(e) =>
                       setCardData({
                         ...cardData,
-                        cvv: e.target.value.replace(/\D/g, ""),
+                        name: e.target.value.toUpperCase(),
                       })
                     }
-                    maxLength={4}
+                    autoComplete="cc-name"
                   />
+                  {cardErrors.nome && <p className="text-xs text-destructive">{cardErrors.nome}</p>}
                 </div>
-              </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="installments">Parcelas</Label>
-                <select
-                  id="installments"
-                  value={cardData.installments}
-                  onChange={(e) =>
-                    setCardData({ ...cardData, installments: e.target.value })
-                  }
-                  className="w-full h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
-                >
-                  {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12].map((n) => (
-                    <option key={n} value={n}>
-                      {n}x de{" "}
-                      {(total / n).toLocaleString("pt-BR", {
-                        style: "currency",
-                        currency: "BRL",
-                      })}{" "}
-                      sem juros
-                    </option>
-                  ))}
-                </select>
-              </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="expiry">Validade</Label>
+                    <Input
+                      id="expiry"
+                      placeholder="MM/AA"
+                      value={cardData.expiry}
+                      onChange={(e) =>
+                        setCardData({
+                          ...cardData,
+                          expiry: formatExpiry(e.target.value),
+                        })
+                      }
+                      maxLength={5}
+                      inputMode="numeric"
+                      autoComplete="cc-exp"
+                    />
+                    {cardErrors.validade && <p className="text-xs text-destructive">{cardErrors.validade}</p>}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="cvv">CVV</Label>
+                    <Input
+                      id="cvv"
+                      placeholder={"0".repeat(getCvvLength(bandeira))}
+                      value={cardData.cvv}
+                      onChange={(e) =>
+                        setCardData({
+                          ...cardData,
+                          cvv: e.target.value.replace(/\D/g, ""),
+                        })
+                      }
+                      maxLength={getCvvLength(bandeira)}
+                      inputMode="numeric"
+                      autoComplete="cc-csc"
+                    />
+                    {cardErrors.cvv && <p className="text-xs text-destructive">{cardErrors.cvv}</p>}
+                  </div>
+                </div>
 
-              <Button
-                type="submit"
-                className="w-full py-6"
-                size="lg"
-                disabled={isProcessing}
-              >
-                {isProcessing ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Processando...
-                  </>
-                ) : (
-                  `Pagar ${finalTotal.toLocaleString("pt-BR", {
-                    style: "currency",
-                    currency: "BRL",
-                  })}`
+                <div className="space-y-2">
+                  <Label htmlFor="installments">Parcelas</Label>
+                  <select
+                    id="installments"
+                    value={cardData.installments}
+                    onChange={(e) =>
+                      setCardData({ ...cardData, installments: e.target.value })
+                    }
+                    className="w-full h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    {planos.map((plano) => (
+                      <option key={plano.parcelas} value={plano.parcelas}>
+                        {formatPlano(plano)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {pagamentoAtual?.status === "recusado" && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+                    <AlertCircle className="w-4 h-4 text-red-700 mt-0.5 shrink-0" />
+                    <p className="text-sm text-red-800">{getMensagemRecusa(pagamentoAtual.motivo_recusa)}</p>
+                  </div>
                 )}
-              </Button>
-            </form>
+
+                <Button
+                  type="submit"
+                  className="w-full py-6"
+                  size="lg"
+                  disabled={isProcessing}
+                >
+                  {isProcessing ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Processando...
+                    </>
+                  ) : (
+                    `Pagar ${totalPagamento.toLocaleString("pt-BR", {
+                      style: "currency",
+                      currency: "BRL",
+                    })}`
+                  )}
+                </Button>
+              </form>
+            )
           )}
 
           {/* Order Summary */}
@@ -471,12 +818,37 @@ const PaymentModal = ({
                     })}
               </span>
             </div>
+            {precos?.cupom && precos.desconto_cupom > 0 && (
+              <div className="flex justify-between text-green-600">
+                <span>Cupom {precos.cupom.codigo}</span>
+                <span>
+                  -
+                  {precos.desconto_cupom.toLocaleString("pt-BR", {
+                    style: "currency",
+                    currency: "BRL",
+                  })}
+                </span>
+              </div>
+            )}
             {paymentMethod === "pix" && (
               <div className="flex justify-between text-green-600">
-                <span>Desconto PIX (5%)</span>
+                <span>Desconto PIX ({precos?.desconto_percentual}%)</span>
                 <span>
                   -
-                  {discount.toLocaleString("pt-BR", {
+                  {(precos?.desconto_pix ?? 0).toLocaleString("pt-BR", {
+                    style: "currency",
+                    currency: "BRL",
+                  })}
+                </span>
+              </div>
+            )}
+            {paymentMethod === "card" && planoSelecionado && planoSelecionado.juros > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">
+                  Juros ({planoSelecionado.parcelas}x, {planoSelecionado.taxa_mensal.toLocaleString("pt-BR")}% a.m.)
+                </span>
+                <span>
+                  {planoSelecionado.juros.toLocaleString("pt-BR", {
                     style: "currency",
                     currency: "BRL",
                   })}
@@ -487,7 +859,7 @@ const PaymentModal = ({
             <div className="flex justify-between font-bold">
               <span>Total</span>
               <span>
-                {finalTotal.toLocaleString("pt-BR", {
+                {totalPagamento.toLocaleString("pt-BR", {
                   style: "currency",
                   currency: "BRL",
                 })}
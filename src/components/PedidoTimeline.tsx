@@ -0,0 +1,69 @@
+import { PedidoHistorico } from "@/services/pedidosApi";
+import { getStatusConfig } from "@/lib/pedidoStatus";
+
+interface PedidoTimelineProps {
+  historico: PedidoHistorico[];
+  showActor?: boolean;
+}
+
+const actorLabels: Record<PedidoHistorico["ator"], string> = {
+  cliente: "Cliente",
+  admin: "Loja",
+  sistema: "Sistema",
+};
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+const PedidoTimeline = ({ historico, showActor = false }: PedidoTimelineProps) => {
+  if (historico.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nenhuma movimentação registrada</p>;
+  }
+
+  // Mais recente primeiro
+  const eventos = [...historico].reverse();
+
+  return (
+    <ol className="relative border-l border-muted ml-3 space-y-5">
+      {eventos.map((evento, index) => {
+        const config = getStatusConfig(evento.status_novo);
+        const Icon = config.icon;
+
+        return (
+          <li key={evento.id} className="ml-6">
+            <span
+              className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ${
+                index === 0 ? "bg-primary text-primary-foreground" : config.color
+              }`}
+            >
+              <Icon className="w-3 h-3" />
+            </span>
+            <div className="flex flex-wrap items-baseline justify-between gap-x-3">
+              <p className="font-medium text-sm">{config.label}</p>
+              <time className="text-xs text-muted-foreground">{formatDateTime(evento.created_at)}</time>
+            </div>
+            {evento.observacao && (
+              <p className="text-sm text-muted-foreground">{evento.observacao}</p>
+            )}
+            {showActor && (
+              <p className="text-xs text-muted-foreground">
+                {evento.status_anterior && `${getStatusConfig(evento.status_anterior).shortLabel} → ${config.shortLabel} · `}
+                {actorLabels[evento.ator]}
+                {evento.ator_nome && `: ${evento.ator_nome}`}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default PedidoTimeline;
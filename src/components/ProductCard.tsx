@@ -1,16 +1,17 @@
 import { Star } from "lucide-react";
 import { Link } from "react-router-dom";
 import { encodeProductId } from "@/lib/productHash";
+import { useParcelamento } from "@/hooks/useParcelamento";
+import { getImageProps } from "@/lib/imagens";
+import type { ProductImage } from "@/services/api";
 
 interface ProductCardProps {
   id?: number | string;
   slug?: string;
-  image: string;
+  image?: ProductImage;
   name: string;
   oldPrice: number;
   newPrice: number;
-  installments: number;
-  installmentPrice: number;
   condition: string;
   rating?: number;
 }
@@ -22,8 +23,6 @@ const ProductCard = ({
   name,
   oldPrice,
   newPrice,
-  installments,
-  installmentPrice,
   condition,
   rating = 4,
 }: ProductCardProps) => {
@@ -37,6 +36,9 @@ const ProductCard = ({
     });
   };
 
+  const { melhorPlanoSemJuros } = useParcelamento();
+  const plano = melhorPlanoSemJuros(newPrice);
+
   const discount = Math.round(((oldPrice - newPrice) / oldPrice) * 100);
 
   return (
@@ -47,7 +49,7 @@ const ProductCard = ({
       {/* Image */}
       <div className="relative aspect-square rounded-lg mb-4 overflow-hidden">
         <img
-          src={image}
+          {...getImageProps(image, "card")}
           alt={name}
           className="w-full h-full object-cover rounded-lg group-hover:scale-105 transition-transform duration-300"
         />
@@ -85,8 +87,8 @@ const ProductCard = ({
           {formatPrice(newPrice)}
         </p>
         <p className="text-xs text-muted-foreground">
-          ou <span className="text-primary">{installments}x</span> de{" "}
-          <span className="text-primary">{formatPrice(installmentPrice)}</span>
+          ou <span className="text-primary">{plano.parcelas}x</span> de{" "}
+          <span className="text-primary">{formatPrice(plano.valor_parcela)}</span> sem juros
         </p>
       </div>
     </Link>
@@ -102,8 +102,6 @@ const ProductGrid = ({
                 name={product.name}
                 oldPrice={product.originalPrice}
                 newPrice={product.price}
-                installments={product.installments}
-                installmentPrice={product.price / product.installments}
                 condition={product.condition}
                 rating={product.rating}
               />
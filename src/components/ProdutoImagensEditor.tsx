@@ -0,0 +1,201 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { GripVertical, ImagePlus, Loader2, Star, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { AdminImagemInput, uploadAdminImagem } from "@/services/adminApi";
+import { IMAGEM_TIPOS_ACEITOS, validarArquivoImagem } from "@/lib/imagens";
+
+interface ProdutoImagensEditorProps {
+  imagens: AdminImagemInput[];
+  onChange: (imagens: AdminImagemInput[]) => void;
+  disabled?: boolean;
+}
+
+const getThumb = (imagem: AdminImagemInput) =>
+  imagem.variantes?.find((v) => v.nome === "thumb")?.url ?? imagem.url;
+
+/**
+ * Imagens do produto: upload por arrastar ou selecionar arquivos, ordem por
+ * arrastar as miniaturas e escolha da imagem principal
+ */
+const ProdutoImagensEditor = ({ imagens, onChange, disabled = false }: ProdutoImagensEditorProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [enviando, setEnviando] = useState(0);
+  const [arrastando, setArrastando] = useState<number | null>(null);
+  const [sobreArea, setSobreArea] = useState(false);
+
+  // Lista sempre com exatamente uma principal (a primeira, se nenhuma marcada)
+  const emitir = (lista: AdminImagemInput[]) => {
+    const temPrincipal = lista.some((img) => img.principal);
+    onChange(lista.map((img, i) => ({ ...img, principal: temPrincipal ? img.principal : i === 0 })));
+  };
+
+  const enviarArquivos = async (arquivos: File[]) => {
+    const validos = arquivos.filter((arquivo) => {
+      const erro = validarArquivoImagem(arquivo);
+      if (erro) toast.error(erro);
+      return !erro;
+    });
+    if (validos.length === 0) return;
+
+    setEnviando(validos.length);
+    let lista = imagens;
+    // Um por vez, na ordem escolhida
+    for (const arquivo of validos) {
+      try {
+        const upload = await uploadAdminImagem(arquivo, "produtos");
+        lista = [...lista, { url: upload.url, variantes: upload.variantes, principal: false }];
+        emitir(lista);
+      } catch (error) {
+        toast.error(`${arquivo.name}: ${error instanceof Error ? error.message : "erro ao enviar"}`);
+      } finally {
+        setEnviando((n) => n - 1);
+      }
+    }
+  };
+
+  const mover = (de: number, para: number) => {
+    if (de === para) return;
+    const lista = [...imagens];
+    const [imagem] = lista.splice(de, 1);
+    lista.splice(para, 0, imagem);
+    emitir(lista);
+  };
+
+  const definirPrincipal = (index: number) => {
+    emitir(imagens.map((img, i) => ({ ...img, principal: i === index })));
+  };
+
+  const remover = (index: number) => {
+    emitir(imagens.filter((_, i) => i !== index));
+  };
+
+  // Arquivos soltos sobre a área; miniaturas arrastadas são tratadas em cada item
+  const handleDropArea = (e: React.DragEvent) => {
+    e.preventDefault();
+    setSobreArea(false);
+    if (disabled || arrastando !== null) return;
+    enviarArquivos(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        onDragOver={(e) => {
+          if (disabled || !e.dataTransfer.types.includes("Files")) return;
+          e.preventDefault();
+          setSobreArea(true);
+        }}
+        onDragLeave={() => setSobreArea(false)}
+        onDrop={handleDropArea}
+        className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+          sobreArea ? "border-primary bg-primary/5" : "border-border"
+        }`}
+      >
+        <Upload className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
+        <p className="text-sm text-muted-foreground mb-3">
+          Arraste as imagens aqui ou selecione os arquivos (JPEG, PNG ou WebP)
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled || enviando > 0}
+        >
+          {enviando > 0 ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <ImagePlus className="w-4 h-4 mr-2" />
+          )}
+          {enviando > 0 ? `Enviando ${enviando}...` : "Selecionar imagens"}
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={IMAGEM_TIPOS_ACEITOS.join(",")}
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            enviarArquivos(Array.from(e.target.files ?? []));
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {imagens.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+            {imagens.map((imagem, index) => (
+              <div
+                key={`${imagem.url}-${index}`}
+                draggable={!disabled}
+                onDragStart={(e) => {
+                  setArrastando(index);
+                  e.dataTransfer.effectAllowed = "move";
+                }}
+                onDragOver={(e) => {
+                  if (arrastando === null) return;
+                  e.preventDefault();
+                }}
+                onDrop={(e) => {
+                  if (arrastando === null) return;
+                  e.preventDefault();
+                  e.stopPropagation();
+                  mover(arrastando, index);
+                  setArrastando(null);
+                }}
+                onDragEnd={() => setArrastando(null)}
+                className={`relative group border rounded-lg overflow-hidden bg-secondary/30 ${
+                  imagem.principal ? "ring-2 ring-primary" : ""
+                } ${arrastando === index ? "opacity-50" : ""}`}
+              >
+                <img
+                  src={getThumb(imagem)}
+                  alt={`Imagem ${index + 1}`}
+                  className="w-full aspect-square object-contain"
+                  onError={(e) => {
+                    (e.target as HTMLImageElement).src = "/placeholder.svg";
+                  }}
+                />
+                {!disabled && (
+                  <GripVertical className="absolute top-1 left-1 w-5 h-5 text-muted-foreground cursor-move bg-background/80 rounded" />
+                )}
+                <div className="absolute bottom-0 inset-x-0 flex items-center justify-between p-1 bg-background/90">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => definirPrincipal(index)}
+                    disabled={disabled || imagem.principal}
+                  >
+                    <Star className={`w-3 h-3 mr-1 ${imagem.principal ? "fill-current text-primary" : ""}`} />
+                    {imagem.principal ? "Principal" : "Tornar principal"}
+                  </Button>
+                  {!disabled && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-destructive hover:text-destructive"
+                      onClick={() => remover(index)}
+                      aria-label="Remover imagem"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Arraste as miniaturas para mudar a ordem. A principal aparece nas listagens e no carrinho.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProdutoImagensEditor;
@@ -3,6 +3,7 @@ import { Search, X, Loader2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { useNavigate } from "react-router-dom";
 import { useApiProducts } from "@/hooks/useApiProducts";
+import { getImageUrl } from "@/lib/imagens";
 
 const SearchDropdown = () => {
   const [query, setQuery] = useState("");
@@ -114,7 +115,7 @@ const SearchDropdown = () => {
                   className="w-full flex items-center gap-4 p-3 hover:bg-secondary transition-colors text-left"
                 >
                   <img
-                    src={product.images?.[0] || "https://via.placeholder.com/60"}
+                    src={getImageUrl(product.images?.[0], "thumb")}
                     alt={product.name}
                     className="w-12 h-12 object-cover rounded bg-secondary"
                   />
@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { updateAdminTradeIn, AdminTradeIn } from "@/services/adminApi";
+import { useAdminSessao } from "@/hooks/useAdminSessao";
+import { getSaudeBateriaLabel } from "@/lib/produtoCondicao";
+import {
+  TRADEIN_PERGUNTAS,
+  TRADEIN_PERMISSAO_ACIMA_COTACAO,
+  TRADEIN_TRANSICOES,
+  getTradeInEtapaConfig,
+  validarValorFinalTradeIn,
+  TradeInEtapa,
+} from "@/lib/tradeIn";
+
+interface TradeInAvaliacaoDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  avaliacao: AdminTradeIn | null;
+  podeEditar: boolean;
+  onSalvo: () => void;
+}
+
+const formatPrice = (price: number) =>
+  Number(price).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+/**
+ * Análise de uma avaliação do trade-in
+ * Mostra o aparelho e as respostas do cliente; aceitar pede o valor final e
+ * gera o cupom de crédito, enviado ao cliente por email
+ */
+const TradeInAvaliacaoDialog = ({ open, onOpenChange, avaliacao, podeEditar, onSalvo }: TradeInAvaliacaoDialogProps) => {
+  const [etapa, setEtapa] = useState<TradeInEtapa>("pendente");
+  const [valorFinal, setValorFinal] = useState("");
+  const [observacoes, setObservacoes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { pode } = useAdminSessao();
+  const podeExceder = pode(TRADEIN_PERMISSAO_ACIMA_COTACAO);
+
+  useEffect(() => {
+    if (!open || !avaliacao) return;
+    setEtapa(avaliacao.etapa);
+    setValorFinal(avaliacao.valor_final !== null ? String(Number(avaliacao.valor_final)) : "");
+    setObservacoes(avaliacao.observacoes ?? "");
+  }, [open, avaliacao]);
+
+  if (!avaliacao) return null;
+
+  const etapas: TradeInEtapa[] = [avaliacao.etapa, ...TRADEIN_TRANSICOES[avaliacao.etapa]];
+  const aceitando = etapa === "aceita" && avaliacao.etapa !== "aceita";
+  const erroValorFinal = aceitando
+    ? validarValorFinalTradeIn(Number(valorFinal), Number(avaliacao.cotacao_maxima), podeExceder)
+    : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (aceitando && !(Number(valorFinal) > 0)) {
+      toast.error("Informe o valor final do aparelho para aceitar");
+      return;
+    }
+
+    if (erroValorFinal) {
+      toast.error(erroValorFinal);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const mensagem = await updateAdminTradeIn(avaliacao.id, {
+        etapa,
+        valor_final: aceitando ? Number(valorFinal) : undefined,
+        observacoes,
+      });
+      toast.success(mensagem);
+      onOpenChange(false);
+      onSalvo();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao atualizar avaliação");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(aberto) => !saving && onOpenChange(aberto)}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Avaliação {avaliacao.numero}</DialogTitle>
+          <DialogDescription>
+            {avaliacao.nome} · {avaliacao.email}
+            {avaliacao.telefone && ` · ${avaliacao.telefone}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="rounded-lg border p-3 space-y-1">
+            <p className="font-medium">
+              {avaliacao.modelo} {avaliacao.capacidade}
+            </p>
+            <p className="text-muted-foreground">Bateria: {getSaudeBateriaLabel(avaliacao.saude_bateria)}</p>
+            <p className="text-muted-foreground">
+              Cotação: {formatPrice(avaliacao.cotacao_minima)} a {formatPrice(avaliacao.cotacao_maxima)}
+            </p>
+          </div>
+
+          <dl className="space-y-1">
+            {TRADEIN_PERGUNTAS.map((item) => (
+              <div key={item.chave} className="flex justify-between gap-4">
+                <dt className="text-muted-foreground">{item.pergunta}</dt>
+                <dd className="font-medium shrink-0">{avaliacao.respostas[item.chave] ? "Sim" : "Não"}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {avaliacao.cupom_codigo && (
+            <div className="rounded-lg bg-secondary p-3 space-y-1">
+              <p>
+                Crédito de {formatPrice(Number(avaliacao.valor_final))} no cupom{" "}
+                <span className="font-mono font-medium">{avaliacao.cupom_codigo}</span>
+              </p>
+              <p className="text-muted-foreground">
+                {avaliacao.pedido_numero
+                  ? `Usado no pedido ${avaliacao.pedido_numero}`
+                  : avaliacao.cupom_valido_ate
+                    ? `Válido até ${new Date(avaliacao.cupom_valido_ate.replace(" ", "T")).toLocaleDateString("pt-BR")}`
+                    : "Ainda não usado"}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {podeEditar ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Etapa</Label>
+              <Select value={etapa} onValueChange={(valor) => setEtapa(valor as TradeInEtapa)} disabled={etapas.length <= 1}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {etapas.map((item) => (
+                    <SelectItem key={item} value={item}>
+                      {getTradeInEtapaConfig(item).label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {aceitando && (
+              <div className="space-y-2">
+                <Label htmlFor="tradein-valor-final">Valor final (R$) *</Label>
+                <Input
+                  id="tradein-valor-final"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={valorFinal}
+                  onChange={(e) => setValorFinal(e.target.value)}
+                />
+                {erroValorFinal ? (
+                  <p className="text-xs text-destructive">{erroValorFinal}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Vira um cupom de crédito de uso único, enviado ao cliente por email.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="tradein-observacoes">Observações</Label>
+              <Textarea
+                id="tradein-observacoes"
+                rows={3}
+                maxLength={1000}
+                placeholder="Parecer da análise; na recusa, vai no email ao cliente"
+                value={observacoes}
+                onChange={(e) => setObservacoes(e.target.value)}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Salvar
+              </Button>
+            </DialogFooter>
+          </form>
+        ) : (
+          avaliacao.observacoes && <p className="text-sm text-muted-foreground">{avaliacao.observacoes}</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TradeInAvaliacaoDialog;
@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  createAdminTradeInPreco,
+  updateAdminTradeInPreco,
+  AdminTradeInPreco,
+  AdminTradeInPrecoData,
+} from "@/services/adminApi";
+import { IPHONE_CAPACIDADES, IPHONE_MODELOS } from "@/lib/iphoneSpecs";
+
+interface TradeInPrecoDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // null cadastra um preço novo
+  preco: AdminTradeInPreco | null;
+  onSalvo: () => void;
+}
+
+const FORM_VAZIO = { modelo: "", capacidade: "", valor_minimo: "", valor_maximo: "", ativo: true };
+
+/**
+ * Cadastro e edição de uma linha da tabela de preços do trade-in
+ * A faixa vale para o aparelho sem defeitos e com bateria perfeita
+ */
+const TradeInPrecoDialog = ({ open, onOpenChange, preco, onSalvo }: TradeInPrecoDialogProps) => {
+  const [form, setForm] = useState(FORM_VAZIO);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      preco
+        ? {
+            modelo: preco.modelo,
+            capacidade: preco.capacidade,
+            valor_minimo: String(Number(preco.valor_minimo)),
+            valor_maximo: String(Number(preco.valor_maximo)),
+            ativo: Boolean(Number(preco.ativo)),
+          }
+        : FORM_VAZIO
+    );
+  }, [open, preco]);
+
+  const set = <K extends keyof typeof form>(campo: K, valor: (typeof form)[K]) =>
+    setForm((atual) => ({ ...atual, [campo]: valor }));
+
+  // Modelo ou capacidade fora das listas padrão (cadastrados antes) continuam selecionáveis
+  const modelos = form.modelo && !IPHONE_MODELOS.includes(form.modelo) ? [form.modelo, ...IPHONE_MODELOS] : IPHONE_MODELOS;
+  const capacidades =
+    form.capacidade && !IPHONE_CAPACIDADES.includes(form.capacidade)
+      ? [form.capacidade, ...IPHONE_CAPACIDADES]
+      : IPHONE_CAPACIDADES;
+
+  const validar = () => {
+    if (!form.modelo) return "Escolha o modelo";
+    if (!form.capacidade) return "Escolha a capacidade";
+    const minimo = Number(form.valor_minimo);
+    const maximo = Number(form.valor_maximo);
+    if (!form.valor_minimo || !form.valor_maximo || minimo <= 0 || maximo <= 0) {
+      return "Informe os valores mínimo e máximo";
+    }
+    if (minimo > maximo) return "O valor mínimo não pode ser maior que o máximo";
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const erro = validar();
+    if (erro) {
+      toast.error(erro);
+      return;
+    }
+
+    const dados: AdminTradeInPrecoData = {
+      modelo: form.modelo,
+      capacidade: form.capacidade,
+      valor_minimo: Number(form.valor_minimo),
+      valor_maximo: Number(form.valor_maximo),
+      ativo: form.ativo,
+    };
+
+    try {
+      setSaving(true);
+      if (preco) {
+        await updateAdminTradeInPreco(preco.id, dados);
+        toast.success("Preço atualizado");
+      } else {
+        await createAdminTradeInPreco(dados);
+        toast.success("Preço cadastrado");
+      }
+      onOpenChange(false);
+      onSalvo();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao salvar preço");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(aberto) => !saving && onOpenChange(aberto)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{preco ? "Editar preço" : "Novo preço"}</DialogTitle>
+          <DialogDescription>
+            Faixa paga pelo aparelho sem defeitos e com bateria perfeita. A cotação desconta a bateria e a condição.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Modelo *</Label>
+              <Select value={form.modelo} onValueChange={(valor) => set("modelo", valor)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Escolha" />
+                </SelectTrigger>
+                <SelectContent>
+                  {modelos.map((modelo) => (
+                    <SelectItem key={modelo} value={modelo}>
+                      {modelo}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Capacidade *</Label>
+              <Select value={form.capacidade} onValueChange={(valor) => set("capacidade", valor)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Escolha" />
+                </SelectTrigger>
+                <SelectContent>
+                  {capacidades.map((capacidade) => (
+                    <SelectItem key={capacidade} value={capacidade}>
+                      {capacidade}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="tradein-preco-minimo">Valor mínimo (R$) *</Label>
+              <Input
+                id="tradein-preco-minimo"
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.valor_minimo}
+                onChange={(e) => set("valor_minimo", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tradein-preco-maximo">Valor máximo (R$) *</Label>
+              <Input
+                id="tradein-preco-maximo"
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.valor_maximo}
+                onChange={(e) => set("valor_maximo", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="tradein-preco-ativo" checked={form.ativo} onCheckedChange={(valor) => set("ativo", valor)} />
+            <Label htmlFor="tradein-preco-ativo">Aparece no assistente do site</Label>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TradeInPrecoDialog;
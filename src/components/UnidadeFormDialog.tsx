@@ -0,0 +1,354 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  createAdminUnidade,
+  fetchAdminProduct,
+  updateAdminUnidade,
+  AdminProduct,
+  AdminUnidade,
+  AdminUnidadeData,
+} from "@/services/adminApi";
+import { onlyDigits } from "@/lib/endereco";
+import {
+  UNIDADE_GRADES,
+  UNIDADE_TRANSICOES,
+  getUnidadeSituacaoConfig,
+  isValidImei,
+  normalizeNumeroSerie,
+  UnidadeGrade,
+  UnidadeSituacao,
+} from "@/lib/unidades";
+
+interface UnidadeFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // null cadastra uma unidade nova
+  unidade: AdminUnidade | null;
+  produtos: AdminProduct[];
+  produtoIdInicial?: number;
+  onSalvo: () => void;
+}
+
+const SEM_VARIACAO = "none";
+
+// Data de hoje no fuso do navegador, no formato do input date
+const hoje = () => {
+  const data = new Date();
+  const pad = (valor: number) => String(valor).padStart(2, "0");
+  return `${data.getFullYear()}-${pad(data.getMonth() + 1)}-${pad(data.getDate())}`;
+};
+
+const formVazio = (produtoId?: number) => ({
+  produto_id: produtoId ? String(produtoId) : "",
+  variacao_id: SEM_VARIACAO,
+  imei: "",
+  numero_serie: "",
+  saude_bateria: "",
+  grade: "A" as UnidadeGrade,
+  custo: "",
+  data_entrada: hoje(),
+  situacao: "em_estoque" as UnidadeSituacao,
+  observacoes: "",
+});
+
+/**
+ * Cadastro e edição de uma unidade de aparelho
+ * A situação só oferece as mudanças permitidas a partir da atual
+ */
+const UnidadeFormDialog = ({ open, onOpenChange, unidade, produtos, produtoIdInicial, onSalvo }: UnidadeFormDialogProps) => {
+  const [form, setForm] = useState(formVazio(produtoIdInicial));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      unidade
+        ? {
+            produto_id: String(unidade.produto_id),
+            variacao_id: unidade.variacao_id ? String(unidade.variacao_id) : SEM_VARIACAO,
+            imei: unidade.imei ?? "",
+            numero_serie: unidade.numero_serie ?? "",
+            saude_bateria: String(unidade.saude_bateria),
+            grade: unidade.grade,
+            custo: String(unidade.custo),
+            data_entrada: unidade.data_entrada,
+            situacao: unidade.situacao,
+            observacoes: unidade.observacoes ?? "",
+          }
+        : formVazio(produtoIdInicial)
+    );
+  }, [open, unidade, produtoIdInicial]);
+
+  // Variações do produto escolhido
+  const { data: produto } = useQuery({
+    queryKey: ["admin-produto", form.produto_id],
+    queryFn: () => fetchAdminProduct(Number(form.produto_id)),
+    enabled: open && form.produto_id !== "",
+  });
+  const variacoes = produto?.variacoes ?? [];
+
+  const set = <K extends keyof typeof form>(campo: K, valor: (typeof form)[K]) =>
+    setForm((atual) => ({ ...atual, [campo]: valor }));
+
+  // Unidade de um pedido fica no produto e na variação vendidos
+  const deUmPedido = unidade !== null && (unidade.situacao === "reservado" || unidade.situacao === "vendido");
+  const situacoes: UnidadeSituacao[] = unidade
+    ? [unidade.situacao, ...UNIDADE_TRANSICOES[unidade.situacao]]
+    : ["em_estoque", "em_reparo"];
+
+  const imeiInvalido = form.imei !== "" && !isValidImei(form.imei);
+
+  const validar = () => {
+    if (!form.produto_id) return "Escolha o produto";
+    if (!form.imei && !form.numero_serie) return "Informe o IMEI ou o número de série";
+    if (imeiInvalido) return "IMEI inválido";
+    if (form.numero_serie && (form.numero_serie.length < 8 || form.numero_serie.length > 30)) {
+      return "Número de série deve ter de 8 a 30 letras ou números";
+    }
+    const bateria = Number(form.saude_bateria);
+    if (!Number.isInteger(bateria) || bateria < 1 || bateria > 100) {
+      return "Saúde da bateria deve ser um percentual inteiro de 1 a 100";
+    }
+    if (form.custo === "" || Number(form.custo) < 0) return "Informe o custo de compra";
+    if (!form.data_entrada) return "Informe a data de entrada";
+    if (form.data_entrada > hoje()) return "A data de entrada não pode ser futura";
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const erro = validar();
+    if (erro) {
+      toast.error(erro);
+      return;
+    }
+
+    const dados: AdminUnidadeData = {
+      produto_id: Number(form.produto_id),
+      variacao_id: form.variacao_id !== SEM_VARIACAO ? Number(form.variacao_id) : null,
+      imei: form.imei,
+      numero_serie: form.numero_serie,
+      saude_bateria: Number(form.saude_bateria),
+      grade: form.grade,
+      custo: Number(form.custo),
+      data_entrada: form.data_entrada,
+      situacao: form.situacao,
+      observacoes: form.observacoes,
+    };
+
+    try {
+      setSaving(true);
+      if (unidade) {
+        await updateAdminUnidade(unidade.id, dados);
+        toast.success("Unidade atualizada");
+      } else {
+        await createAdminUnidade(dados);
+        toast.success("Unidade cadastrada");
+      }
+      onOpenChange(false);
+      onSalvo();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao salvar unidade");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(aberto) => !saving && onOpenChange(aberto)}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{unidade ? "Editar unidade" : "Nova unidade"}</DialogTitle>
+          <DialogDescription>
+            {unidade?.pedido_numero
+              ? `Ligada ao pedido ${unidade.pedido_numero}`
+              : "Um cadastro por aparelho; o estoque do produto passa a contar as unidades em estoque."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Produto *</Label>
+            <Select
+              value={form.produto_id}
+              onValueChange={(valor) => setForm((atual) => ({ ...atual, produto_id: valor, variacao_id: SEM_VARIACAO }))}
+              disabled={deUmPedido}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Escolha o produto" />
+              </SelectTrigger>
+              <SelectContent>
+                {produtos.map((item) => (
+                  <SelectItem key={item.id} value={String(item.id)}>
+                    {item.nome}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {variacoes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Variação</Label>
+              <Select value={form.variacao_id} onValueChange={(valor) => set("variacao_id", valor)} disabled={deUmPedido}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SEM_VARIACAO}>Sem variação</SelectItem>
+                  {variacoes.map((variacao) => (
+                    <SelectItem key={variacao.id} value={String(variacao.id)}>
+                      {[variacao.cor, variacao.capacidade].filter(Boolean).join(" · ")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="unidade-imei">IMEI</Label>
+              <Input
+                id="unidade-imei"
+                inputMode="numeric"
+                placeholder="15 dígitos"
+                value={form.imei}
+                onChange={(e) => set("imei", onlyDigits(e.target.value).slice(0, 15))}
+                aria-invalid={imeiInvalido}
+              />
+              {imeiInvalido && <p className="text-xs text-destructive">IMEI inválido</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="unidade-serie">Número de série</Label>
+              <Input
+                id="unidade-serie"
+                value={form.numero_serie}
+                onChange={(e) => set("numero_serie", normalizeNumeroSerie(e.target.value).slice(0, 30))}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="unidade-bateria">Saúde da bateria (%) *</Label>
+              <Input
+                id="unidade-bateria"
+                type="number"
+                min={1}
+                max={100}
+                value={form.saude_bateria}
+                onChange={(e) => set("saude_bateria", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Grade *</Label>
+              <Select value={form.grade} onValueChange={(valor) => set("grade", valor as UnidadeGrade)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {UNIDADE_GRADES.map((grade) => (
+                    <SelectItem key={grade.value} value={grade.value}>
+                      {grade.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="unidade-custo">Custo de compra (R$) *</Label>
+              <Input
+                id="unidade-custo"
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.custo}
+                onChange={(e) => set("custo", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="unidade-entrada">Data de entrada *</Label>
+              <Input
+                id="unidade-entrada"
+                type="date"
+                max={hoje()}
+                value={form.data_entrada}
+                onChange={(e) => set("data_entrada", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Situação</Label>
+            <Select
+              value={form.situacao}
+              onValueChange={(valor) => set("situacao", valor as UnidadeSituacao)}
+              disabled={situacoes.length <= 1}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {situacoes.map((situacao) => (
+                  <SelectItem key={situacao} value={situacao}>
+                    {getUnidadeSituacaoConfig(situacao).label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="unidade-observacoes">Observações</Label>
+            <Textarea
+              id="unidade-observacoes"
+              rows={2}
+              maxLength={500}
+              placeholder="Ex: tela trocada, riscos na lateral"
+              value={form.observacoes}
+              onChange={(e) => set("observacoes", e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UnidadeFormDialog;
@@ -15,16 +15,30 @@ import {
   LogOut,
   ChevronDown,
   LayoutDashboard,
+  KeyRound,
+  MailWarning,
+  UserCircle,
 } from "lucide-react";
 
 interface UserMenuDropdownProps {
   userName?: string;
   userEmail?: string;
   userType?: 'admin' | 'cliente';
+  emailVerificado?: boolean;
+  onAlterarSenha: () => void;
+  onReenviarConfirmacao: () => void;
   onLogout: () => void;
 }
 
-const UserMenuDropdown = ({ userName, userEmail, userType, onLogout }: UserMenuDropdownProps) => {
+const UserMenuDropdown = ({
+  userName,
+  userEmail,
+  userType,
+  emailVerificado,
+  onAlterarSenha,
+  onReenviarConfirmacao,
+  onLogout,
+}: UserMenuDropdownProps) => {
   const [open, setOpen] = useState(false);
   const navigate = useNavigate();
 
@@ -34,6 +48,11 @@ const UserMenuDropdown = ({ userName, userEmail, userType, onLogout }: UserMenuD
       label: "Dashboard",
       href: "/admin/dashboard",
     }] : []),
+    {
+      icon: UserCircle,
+      label: "Minha Conta",
+      href: "/minha-conta",
+    },
     {
       icon: Package,
       label: "Meus Pedidos",
@@ -61,6 +80,11 @@ const UserMenuDropdown = ({ userName, userEmail, userType, onLogout }: UserMenuD
     }
   };
 
+  const handleAction = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
   const handleLogout = () => {
     setOpen(false);
     onLogout();
@@ -93,6 +117,20 @@ const UserMenuDropdown = ({ userName, userEmail, userType, onLogout }: UserMenuD
               )}
             </div>
           </div>
+          {emailVerificado === false && (
+            <div className="mt-3 flex items-start gap-2 rounded-md bg-amber-50 p-2 text-xs text-amber-800">
+              <MailWarning className="w-4 h-4 shrink-0" />
+              <div>
+                <p>Email ainda não confirmado.</p>
+                <button
+                  onClick={() => handleAction(onReenviarConfirmacao)}
+                  className="underline font-medium"
+                >
+                  Reenviar link de confirmação
+                </button>
+              </div>
+            </div>
+          )}
         </div>
 
         <Separator />
@@ -109,6 +147,13 @@ const UserMenuDropdown = ({ userName, userEmail, userType, onLogout }: UserMenuD
               <span>{item.label}</span>
             </button>
           ))}
+          <button
+            onClick={() => handleAction(onAlterarSenha)}
+            className="w-full flex items-center gap-3 px-3 py-2.5 rounded-md text-sm hover:bg-muted transition-colors text-left"
+          >
+            <KeyRound className="w-4 h-4 text-muted-foreground" />
+            <span>Alterar senha</span>
+          </button>
         </div>
 
         <Separator />
@@ -0,0 +1,25 @@
+interface VariacaoInfoProps {
+  cor?: string | null;
+  corCodigo?: string | null;
+  capacidade?: string | null;
+  className?: string;
+}
+
+// Cor (com amostra) e capacidade da variação comprada
+const VariacaoInfo = ({ cor, corCodigo, capacidade, className = "" }: VariacaoInfoProps) => {
+  if (!cor && !capacidade) return null;
+
+  return (
+    <span className={`inline-flex items-center gap-1.5 text-muted-foreground ${className}`}>
+      {corCodigo && (
+        <span
+          className="w-3 h-3 rounded-full border border-border shrink-0"
+          style={{ backgroundColor: corCodigo }}
+        />
+      )}
+      {[cor, capacidade].filter(Boolean).join(" - ")}
+    </span>
+  );
+};
+
+export default VariacaoInfo;
@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import type { AdminSessao } from '@/services/adminApi';
+import type { Permissao } from '@/lib/permissoes';
+
+export interface AdminSessaoContexto extends AdminSessao {
+  pode: (permissao: Permissao) => boolean;
+}
+
+// Preenchido por AdminRoute para as páginas do painel
+export const AdminSessaoContext = createContext<AdminSessaoContexto | null>(null);
+
+/**
+ * Usuário do painel e suas permissões
+ * Use para esconder as ações que o papel não pode fazer
+ */
+export const useAdminSessao = () => {
+  const sessao = useContext(AdminSessaoContext);
+  if (!sessao) {
+    throw new Error('useAdminSessao deve ser usado dentro de AdminRoute');
+  }
+  return sessao;
+};
@@ -1,4 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
+import { clearLocalCart } from './useCart';
+import type { PapelAdmin } from '@/lib/permissoes';
+import { clearSessao, saveSessao, SessaoCliente, SESSAO_ENCERRADA_EVENT, USUARIO_ATUALIZADO_EVENT } from '@/services/clienteAuth';
 
 export interface User {
   id: number;
@@ -7,6 +10,9 @@ export interface User {
   telefone?: string;
   cpf?: string;
   tipo: 'cliente' | 'admin';
+  // Papel na equipe do painel; null para clientes
+  papel?: PapelAdmin | null;
+  email_verificado?: boolean;
 }
 
 export const useAuth = () => {
@@ -33,26 +39,41 @@ export const useAuth = () => {
     setIsLoading(false);
   }, []);
 
-  const login = useCallback((userData: User, authToken: string) => {
-    localStorage.setItem('token', authToken);
-    localStorage.setItem('usuario', JSON.stringify(userData));
-    setUser(userData);
-    setToken(authToken);
+  const login = useCallback((sessao: SessaoCliente) => {
+    saveSessao(sessao);
+    setUser(sessao.usuario);
+    setToken(sessao.token);
   }, []);
 
   const logout = useCallback(() => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('usuario');
+    clearSessao();
     localStorage.removeItem('customerEmail');
     localStorage.removeItem('userEmail');
-    sessionStorage.removeItem('adminToken');
-    sessionStorage.removeItem('adminUser');
-    localStorage.removeItem('adminToken');
-    localStorage.removeItem('adminUser');
+    clearLocalCart();
     setUser(null);
     setToken(null);
   }, []);
 
+  // Token recusado pelo servidor (expirado, revogado ou adulterado): encerra a sessão
+  useEffect(() => {
+    window.addEventListener(SESSAO_ENCERRADA_EVENT, logout);
+    return () => window.removeEventListener(SESSAO_ENCERRADA_EVENT, logout);
+  }, [logout]);
+
+  // Perfil editado ou email confirmado: relê os dados salvos do usuário
+  useEffect(() => {
+    const recarregarUsuario = () => {
+      try {
+        const storedUser = localStorage.getItem('usuario');
+        if (storedUser) setUser(JSON.parse(storedUser));
+      } catch {
+        // Mantém o usuário atual se os dados salvos estiverem inválidos
+      }
+    };
+    window.addEventListener(USUARIO_ATUALIZADO_EVENT, recarregarUsuario);
+    return () => window.removeEventListener(USUARIO_ATUALIZADO_EVENT, recarregarUsuario);
+  }, []);
+
   const isLoggedIn = !!user && !!token;
   const isAdmin = user?.tipo === 'admin';
 
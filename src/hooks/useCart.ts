@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { CarrinhoItem, CarrinhoItemRequest, fetchCarrinho, mergeCarrinho, saveCarrinho } from '@/services/carrinhoApi';
 
 export interface CartItem {
   id: number;
@@ -6,12 +7,55 @@ export interface CartItem {
   image: string;
   price: number;
   quantity: number;
+  variationId?: number;
   color?: string;
+  colorCode?: string;
   capacity?: string;
+  // Preço e estoque atuais informados pelo carrinho do servidor (cliente logado)
+  // currentPrice null = produto ou variação fora de venda
+  currentPrice?: number | null;
+  stock?: number;
 }
 
+export interface CartItemStale {
+  priceChanged: boolean;
+  unavailable: boolean;
+  stockShort: boolean;
+}
+
+/**
+ * Identifica uma linha do carrinho: o mesmo produto em variações diferentes
+ * (cor/capacidade) são linhas separadas. Itens antigos sem variationId usam
+ * cor e capacidade.
+ */
+export const getCartLineKey = (item: Pick<CartItem, 'id' | 'variationId' | 'color' | 'capacity'>): string =>
+  item.variationId
+    ? `${item.id}:${item.variationId}`
+    : `${item.id}:${item.color || ''}:${item.capacity || ''}`;
+
+/**
+ * Itens cujo preço ou estoque mudaram desde que entraram no carrinho.
+ * Só há informação para itens vindos do carrinho do servidor; os demais
+ * nunca ficam desatualizados aqui (o checkout recalcula tudo no servidor).
+ */
+export const getCartItemStale = (item: CartItem): CartItemStale => {
+  const unavailable = item.currentPrice === null || item.stock === 0;
+
+  return {
+    priceChanged: !unavailable && item.currentPrice !== undefined && Math.abs(item.currentPrice - item.price) >= 0.01,
+    unavailable,
+    stockShort: !unavailable && item.stock !== undefined && item.quantity > item.stock,
+  };
+};
+
+export const isCartItemStale = (item: CartItem): boolean => {
+  const stale = getCartItemStale(item);
+  return stale.priceChanged || stale.unavailable || stale.stockShort;
+};
+
 const CART_STORAGE_KEY = 'iplace-cart';
 const CART_EVENT_NAME = 'iplace-cart-updated';
+const SERVER_SYNC_DELAY_MS = 800;
 
 const safeParseCart = (raw: string | null): CartItem[] => {
   if (!raw) return [];
@@ -34,12 +78,108 @@ const writeCartToStorage = (items: CartItem[]) => {
   window.dispatchEvent(new Event(CART_EVENT_NAME));
 };
 
+// Carrinho do servidor: carregado uma vez por página e salvo após cada alteração
+let serverCartLoaded = false;
+let serverSyncTimer: ReturnType<typeof setTimeout> | null = null;
+let localCartVersion = 0;
+
+const readLoggedUserId = (): number | null => {
+  if (typeof window === 'undefined' || !localStorage.getItem('token')) return null;
+  try {
+    const usuario = JSON.parse(localStorage.getItem('usuario') || 'null');
+    return usuario?.id ? Number(usuario.id) : null;
+  } catch {
+    return null;
+  }
+};
+
+const fromCarrinhoItem = (item: CarrinhoItem): CartItem => ({
+  id: item.produto_id,
+  name: item.nome,
+  image: item.imagem || '',
+  price: item.preco,
+  quantity: item.quantidade,
+  variationId: item.variacao_id ?? undefined,
+  color: item.cor ?? undefined,
+  colorCode: item.cor_codigo ?? undefined,
+  capacity: item.capacidade ?? undefined,
+  currentPrice: item.preco_atual,
+  stock: item.estoque,
+});
+
+const toCarrinhoItem = (item: CartItem): CarrinhoItemRequest => ({
+  produto_id: item.id,
+  variacao_id: item.variationId,
+  cor: item.color,
+  cor_codigo: item.colorCode,
+  capacidade: item.capacity,
+  quantidade: item.quantity,
+  preco: item.price,
+});
+
+const scheduleServerSync = () => {
+  localCartVersion++;
+
+  if (typeof window === 'undefined' || readLoggedUserId() === null) return;
+
+  if (serverSyncTimer) clearTimeout(serverSyncTimer);
+  serverSyncTimer = setTimeout(() => {
+    serverSyncTimer = null;
+    if (readLoggedUserId() === null) return;
+
+    saveCarrinho(readCartFromStorage().map(toCarrinhoItem)).catch((error) => {
+      console.error('Erro ao sincronizar carrinho:', error);
+    });
+  }, SERVER_SYNC_DELAY_MS);
+};
+
+const loadServerCart = async () => {
+  if (serverCartLoaded || readLoggedUserId() === null) return;
+  serverCartLoaded = true;
+
+  const version = localCartVersion;
+  try {
+    const itens = await fetchCarrinho();
+    // Alterações feitas durante a busca prevalecem (e já estão sendo salvas)
+    if (version === localCartVersion) {
+      writeCartToStorage(itens.map(fromCarrinhoItem));
+    }
+  } catch (error) {
+    serverCartLoaded = false;
+    console.error('Erro ao carregar carrinho:', error);
+  }
+};
+
+/**
+ * Login: mescla o carrinho anônimo deste aparelho no carrinho salvo da conta.
+ * Linhas iguais ficam com a maior quantidade (limitada ao estoque); as demais
+ * são somadas ao carrinho. O resultado passa a ser o carrinho local.
+ */
+export const mergeCartOnLogin = async (): Promise<void> => {
+  const itens = await mergeCarrinho(readCartFromStorage().map(toCarrinhoItem));
+  writeCartToStorage(itens.map(fromCarrinhoItem));
+  serverCartLoaded = true;
+};
+
+/**
+ * Logout: o carrinho continua salvo na conta, mas sai deste aparelho
+ */
+export const clearLocalCart = () => {
+  if (serverSyncTimer) {
+    clearTimeout(serverSyncTimer);
+    serverSyncTimer = null;
+  }
+  serverCartLoaded = false;
+  writeCartToStorage([]);
+};
+
 export const useCart = (): {
   cartItems: CartItem[];
   addToCart: (product: Omit<CartItem, 'quantity'>, quantity?: number) => void;
-  removeFromCart: (productId: number) => void;
-  updateQuantity: (productId: number, quantity: number) => void;
+  removeFromCart: (lineKey: string) => void;
+  updateQuantity: (lineKey: string, quantity: number) => void;
   clearCart: () => void;
+  acceptCurrentPrice: (lineKey: string) => void;
   getTotal: () => number;
   getItemCount: () => number;
 } => {
@@ -60,43 +200,66 @@ export const useCart = (): {
     };
   }, []);
 
+  useEffect(() => {
+    loadServerCart();
+  }, []);
+
   const addToCart = useCallback((item: Omit<CartItem, 'quantity'>, quantity: number = 1) => {
     const current = readCartFromStorage();
-    const existing = current.find((i) => i.id === item.id && i.color === item.color && i.capacity === item.capacity);
+    const lineKey = getCartLineKey(item);
+    const existing = current.find((i) => getCartLineKey(i) === lineKey);
 
     const next = existing
-      ? current.map((i) => (i.id === item.id && i.color === item.color && i.capacity === item.capacity ? { ...i, quantity: i.quantity + quantity } : i))
+      ? current.map((i) => (getCartLineKey(i) === lineKey ? { ...i, quantity: i.quantity + quantity } : i))
       : [...current, { ...item, quantity }];
 
     writeCartToStorage(next);
     setCartItems(next);
+    scheduleServerSync();
   }, []);
 
-  const removeFromCart = useCallback((id: number) => {
-    const next = readCartFromStorage().filter((item) => item.id !== id);
+  const removeFromCart = useCallback((lineKey: string) => {
+    const next = readCartFromStorage().filter((item) => getCartLineKey(item) !== lineKey);
     writeCartToStorage(next);
     setCartItems(next);
+    scheduleServerSync();
   }, []);
 
-  const updateQuantity = useCallback((id: number, quantity: number) => {
+  const updateQuantity = useCallback((lineKey: string, quantity: number) => {
     if (quantity < 1) {
-      const next = readCartFromStorage().filter((item) => item.id !== id);
+      const next = readCartFromStorage().filter((item) => getCartLineKey(item) !== lineKey);
       writeCartToStorage(next);
       setCartItems(next);
+      scheduleServerSync();
       return;
     }
 
     const next = readCartFromStorage().map((item) =>
-      item.id === id ? { ...item, quantity } : item
+      getCartLineKey(item) === lineKey ? { ...item, quantity } : item
     );
 
     writeCartToStorage(next);
     setCartItems(next);
+    scheduleServerSync();
   }, []);
 
   const clearCart = useCallback(() => {
     writeCartToStorage([]);
     setCartItems([]);
+    scheduleServerSync();
+  }, []);
+
+  // Cliente aceitou o preço atual de um item desatualizado
+  const acceptCurrentPrice = useCallback((lineKey: string) => {
+    const next = readCartFromStorage().map((item) =>
+      getCartLineKey(item) === lineKey && typeof item.currentPrice === 'number'
+        ? { ...item, price: item.currentPrice }
+        : item
+    );
+
+    writeCartToStorage(next);
+    setCartItems(next);
+    scheduleServerSync();
   }, []);
 
   const getTotal = useCallback(() => {
@@ -113,6 +276,7 @@ export const useCart = (): {
     removeFromCart,
     updateQuantity,
     clearCart,
+    acceptCurrentPrice,
     getTotal,
     getItemCount,
   };
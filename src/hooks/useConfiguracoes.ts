@@ -9,7 +9,17 @@ export interface Configuracoes {
   frete_gratis_acima: string;
   parcelas_maximo: string;
   parcelas_sem_juros: string;
+  // JSON { "parcelas": taxa % a.m. } aplicado acima de parcelas_sem_juros
+  juros_parcelamento: string;
+  desconto_pix_percentual: string;
   cep: string;
+  pix_chave: string;
+  pix_nome: string;
+  pix_cidade: string;
+  boleto_banco: string;
+  boleto_vencimento_dias: string;
+  boleto_beneficiario_documento: string;
+  boleto_instrucoes: string;
 }
 
 const defaultConfig: Configuracoes = {
@@ -20,7 +30,16 @@ const defaultConfig: Configuracoes = {
   frete_gratis_acima: '500',
   parcelas_maximo: '12',
   parcelas_sem_juros: '3',
+  juros_parcelamento: '{"7": 1.49, "10": 1.99}',
+  desconto_pix_percentual: '5',
   cep: '',
+  pix_chave: '',
+  pix_nome: 'iPlace Seminovos',
+  pix_cidade: 'Sao Luis',
+  boleto_banco: '001',
+  boleto_vencimento_dias: '3',
+  boleto_beneficiario_documento: '',
+  boleto_instrucoes: 'Não receber após o vencimento.',
 };
 
 export const fetchConfiguracoes = async (): Promise<Configuracoes> => {
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Valor que só acompanha o original depois de `delay` ms sem mudanças
+ * Usado em campos de busca que disparam consultas ao servidor
+ */
+export const useDebouncedValue = <T>(value: T, delay = 400): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+};
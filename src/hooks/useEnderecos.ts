@@ -0,0 +1,21 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchEnderecos } from '@/services/enderecosApi';
+
+/**
+ * Endereços salvos do usuário logado
+ */
+export const useEnderecos = (usuarioId: number | null | undefined) => {
+  return useQuery({
+    queryKey: ['enderecos', usuarioId],
+    queryFn: fetchEnderecos,
+    enabled: !!usuarioId,
+  });
+};
+
+/**
+ * Invalida a lista de endereços após criar, editar ou excluir
+ */
+export const useInvalidateEnderecos = () => {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: ['enderecos'] });
+};
@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { cotarFrete, FreteItem } from '@/services/freteApi';
+import { isValidCep, onlyDigits } from '@/lib/endereco';
+
+/**
+ * Cotação de frete para um CEP
+ * Só consulta o servidor quando o CEP tem 8 dígitos e há itens
+ */
+export const useCotacaoFrete = (cep: string | null | undefined, itens: FreteItem[], subtotal: number) => {
+  const digits = onlyDigits(cep || '');
+
+  return useQuery({
+    queryKey: ['frete', digits, itens, subtotal],
+    queryFn: () => cotarFrete(digits, itens, subtotal),
+    enabled: isValidCep(digits) && itens.length > 0,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+};
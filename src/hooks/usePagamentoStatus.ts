@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchPagamentoStatus } from '@/services/pagamentosApi';
+
+const POLL_INTERVAL = 5000;
+
+/**
+ * Acompanha o status de pagamento de um pedido
+ * Consulta o servidor periodicamente até o pedido sair de "aguardando_pagamento"
+ * Precisa do email da compra, como a consulta do pedido (api/pedido_acesso.php)
+ */
+export const usePagamentoStatus = (numero: string | null, email: string | null, enabled = true) => {
+  return useQuery({
+    queryKey: ['pagamentoStatus', numero, email],
+    queryFn: () => fetchPagamentoStatus(numero as string, email as string),
+    enabled: !!numero && !!email && enabled,
+    refetchInterval: (query) =>
+      query.state.data && query.state.data.status !== 'aguardando_pagamento' ? false : POLL_INTERVAL,
+    refetchIntervalInBackground: true,
+  });
+};
@@ -0,0 +1,24 @@
+import { useMemo } from 'react';
+import { useConfiguracoes } from '@/hooks/useConfiguracoes';
+import {
+  calcularPlano,
+  getMelhorPlanoSemJuros,
+  getParcelamentoConfig,
+  listarPlanos,
+} from '@/lib/parcelamento';
+
+/**
+ * Parcelamento conforme parcelas_maximo / parcelas_sem_juros / juros_parcelamento
+ * Mesma conta de api/parcelamento.php
+ */
+export const useParcelamento = () => {
+  const { data: config } = useConfiguracoes();
+  const parcelamento = useMemo(() => getParcelamentoConfig(config), [config]);
+
+  return {
+    config: parcelamento,
+    calcularPlano: (valor: number, parcelas: number) => calcularPlano(valor, parcelas, parcelamento),
+    listarPlanos: (valor: number) => listarPlanos(valor, parcelamento),
+    melhorPlanoSemJuros: (valor: number) => getMelhorPlanoSemJuros(valor, parcelamento),
+  };
+};
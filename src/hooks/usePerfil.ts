@@ -0,0 +1,21 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchPerfil } from '@/services/perfilApi';
+
+/**
+ * Dados da conta do usuário logado, lidos do servidor
+ */
+export const usePerfil = (usuarioId: number | null | undefined) => {
+  return useQuery({
+    queryKey: ['perfil', usuarioId],
+    queryFn: fetchPerfil,
+    enabled: !!usuarioId,
+  });
+};
+
+/**
+ * Invalida o perfil após editar os dados da conta
+ */
+export const useInvalidatePerfil = () => {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: ['perfil'] });
+};
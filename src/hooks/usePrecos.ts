@@ -0,0 +1,24 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { calcularPrecos, CalculoPrecosData } from '@/services/precosApi';
+
+/**
+ * Valores do pedido calculados pelo servidor
+ * É o total que api/pedidos.php aceita na criação do pedido
+ */
+export const usePrecosCarrinho = (data: CalculoPrecosData, enabled = true) => {
+  return useQuery({
+    queryKey: ['precos', data],
+    queryFn: () => calcularPrecos(data),
+    enabled: enabled && data.itens.length > 0,
+    staleTime: 60 * 1000,
+    retry: false,
+  });
+};
+
+/**
+ * Força o recálculo após o servidor recusar um total desatualizado
+ */
+export const useInvalidatePrecos = () => {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: ['precos'] });
+};
@@ -0,0 +1,116 @@
+// Log de auditoria do painel: entidades, ações e apresentação das alterações
+// As entidades registradas são definidas no servidor em api/auditoria.php
+
+import { getStatusConfig } from './pedidoStatus';
+import { getPapelLabel } from './permissoes';
+import { getTradeInEtapaConfig } from './tradeIn';
+import { getUnidadeSituacaoConfig } from './unidades';
+
+export const AUDITORIA_ACOES = ['criar', 'atualizar', 'excluir'] as const;
+
+export type AuditoriaAcao = (typeof AUDITORIA_ACOES)[number];
+
+export const AUDITORIA_ENTIDADES = [
+  'produto',
+  'categoria',
+  'cupom',
+  'pedido',
+  'usuario',
+  'unidade',
+  'tradein',
+  'tradein_preco',
+] as const;
+
+export type AuditoriaEntidade = (typeof AUDITORIA_ENTIDADES)[number];
+
+export const AUDITORIA_ACAO_CONFIG: Record<AuditoriaAcao, { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  criar: { label: 'Criou', variant: 'default' },
+  atualizar: { label: 'Alterou', variant: 'secondary' },
+  excluir: { label: 'Excluiu', variant: 'destructive' },
+};
+
+export const AUDITORIA_ENTIDADE_LABELS: Record<AuditoriaEntidade, string> = {
+  produto: 'Produto',
+  categoria: 'Categoria',
+  cupom: 'Cupom',
+  pedido: 'Pedido',
+  usuario: 'Membro da equipe',
+  unidade: 'Unidade',
+  tradein: 'Avaliação de trade-in',
+  tradein_preco: 'Preço de trade-in',
+};
+
+// Nomes legíveis das colunas mais comuns; as demais aparecem como estão no banco
+const CAMPO_LABELS: Record<string, string> = {
+  nome: 'Nome',
+  sku: 'SKU',
+  slug: 'Slug',
+  descricao: 'Descrição',
+  descricao_curta: 'Descrição curta',
+  categoria_id: 'Categoria',
+  modelo: 'Modelo',
+  condicao: 'Condição',
+  condicao_descricao: 'Descrição da condição',
+  preco: 'Preço',
+  preco_original: 'Preço original',
+  desconto_percentual: 'Desconto (%)',
+  estoque: 'Estoque',
+  garantia_meses: 'Garantia (meses)',
+  destaque: 'Destaque',
+  parcelas: 'Parcelas',
+  peso_gramas: 'Peso (g)',
+  ativo: 'Ativo',
+  imagens: 'Imagens',
+  especificacoes: 'Especificações',
+  variacoes: 'Variações',
+  imagem: 'Imagem',
+  ordem: 'Ordem',
+  codigo: 'Código',
+  tipo: 'Tipo',
+  valor: 'Valor',
+  valor_minimo: 'Valor mínimo',
+  valido_de: 'Válido de',
+  valido_ate: 'Válido até',
+  limite_uso: 'Limite de usos',
+  limite_por_cliente: 'Limite por cliente',
+  produtos: 'Produtos',
+  categorias: 'Categorias',
+  numero: 'Número',
+  status: 'Status',
+  codigo_rastreio: 'Código de rastreio',
+  observacoes: 'Observações',
+  email: 'Email',
+  papel: 'Papel',
+  produto_id: 'Produto',
+  variacao_id: 'Variação',
+  imei: 'IMEI',
+  numero_serie: 'Número de série',
+  saude_bateria: 'Saúde da bateria (%)',
+  grade: 'Grade',
+  custo: 'Custo',
+  data_entrada: 'Data de entrada',
+  situacao: 'Situação',
+  pedido_item_id: 'Item do pedido',
+  capacidade: 'Capacidade',
+  valor_maximo: 'Valor máximo',
+  etapa: 'Etapa',
+  valor_final: 'Valor final',
+  cupom_id: 'Cupom de crédito',
+};
+
+export const getCampoLabel = (campo: string) => CAMPO_LABELS[campo] ?? campo;
+
+/**
+ * Valor de um campo alterado como texto
+ * Status do pedido, papel da equipe, situação da unidade e etapa do trade-in aparecem com o rótulo
+ */
+export const formatValorAuditoria = (campo: string, valor: unknown): string => {
+  if (valor === null || valor === undefined || valor === '') return '—';
+  if (Array.isArray(valor)) return valor.length > 0 ? valor.join(', ') : '—';
+  if (campo === 'status') return getStatusConfig(String(valor)).label;
+  if (campo === 'papel') return getPapelLabel(String(valor));
+  if (campo === 'situacao') return getUnidadeSituacaoConfig(String(valor)).label;
+  if (campo === 'etapa') return getTradeInEtapaConfig(String(valor)).label;
+  if (typeof valor === 'object') return JSON.stringify(valor);
+  return String(valor);
+};
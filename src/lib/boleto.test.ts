@@ -0,0 +1,128 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import {
+  BOLETO_DATA_BASE,
+  encodeItf,
+  fatorVencimento,
+  formatVencimento,
+  gerarBoleto,
+  isValidLinhaDigitavel,
+  linhaDigitavelNumeros,
+  modulo10,
+  modulo11,
+} from './boleto';
+
+// Código de barras de 44 dígitos (banco 001, moeda 9, DV 1)
+const CODIGO_BARRAS = '00191000000000000000000000000000000000000000';
+
+const padrao = (barras: ReturnType<typeof encodeItf>) =>
+  barras.map(({ largura, barra }) => `${barra ? 'B' : 'E'}${largura}`).join(' ');
+
+describe('encodeItf', () => {
+  it('tem início, 5 elementos por dígito e fim', () => {
+    expect(encodeItf(CODIGO_BARRAS)).toHaveLength(4 + 44 * 5 + 3);
+  });
+
+  it('alterna barra e espaço começando por barra', () => {
+    encodeItf(CODIGO_BARRAS).forEach(({ barra }, i) => expect(barra).toBe(i % 2 === 0));
+  });
+
+  it('codifica o par de dígitos nas barras e nos espaços', () => {
+    // "1" (wnnnw) nas barras e "2" (nwnnw) nos espaços
+    expect(padrao(encodeItf('12'))).toBe(
+      'B1 E1 B1 E1 ' + 'B3 E1 B1 E3 B1 E1 B1 E1 B3 E3 ' + 'B3 E1 B1'
+    );
+  });
+
+  it('usa as larguras informadas', () => {
+    const larguras = new Set(encodeItf('00', 2, 5).map(({ largura }) => largura));
+    expect([...larguras].sort()).toEqual([2, 5]);
+  });
+
+  it('recusa código com letras ou tamanho ímpar', () => {
+    expect(() => encodeItf('123')).toThrow('Código de barras inválido');
+    expect(() => encodeItf('12a4')).toThrow('Código de barras inválido');
+  });
+});
+
+describe('formatação', () => {
+  it('mostra o vencimento em dd/mm/aaaa', () => {
+    expect(formatVencimento('2025-03-10')).toBe('10/03/2025');
+    expect(formatVencimento('2025-03-10 00:00:00')).toBe('10/03/2025');
+  });
+
+  it('deixa só os números da linha digitável', () => {
+    expect(linhaDigitavelNumeros('00190.00009 01234.567890 12345.678901 1 99990000010000')).toBe(
+      '00190000090123456789012345678901199990000010000'
+    );
+  });
+});
+
+describe('fatorVencimento', () => {
+  it('conta os dias desde 07/10/1997', () => {
+    expect(fatorVencimento(BOLETO_DATA_BASE)).toBe('0000');
+    expect(fatorVencimento('2000-07-03')).toBe('1000');
+    expect(fatorVencimento('2025-02-21')).toBe('9999');
+  });
+
+  it('reinicia em 1000 depois de 9999', () => {
+    expect(fatorVencimento('2025-02-22')).toBe('1000');
+    expect(fatorVencimento('2025-03-10 00:00:00')).toBe('1016');
+  });
+
+  it('usa a mesma data base de api/boleto.php', () => {
+    const fonte = readFileSync(new URL('../../api/boleto.php', import.meta.url), 'utf8');
+    expect(fonte).toContain(`const BOLETO_DATA_BASE = '${BOLETO_DATA_BASE}';`);
+  });
+});
+
+describe('dígitos verificadores', () => {
+  it('módulo 10 soma os dígitos dos produtos maiores que 9', () => {
+    expect(modulo10('001900000')).toBe(9);
+    expect(modulo10('0123456700')).toBe(4);
+    expect(modulo10('0000004217')).toBe(6);
+  });
+
+  it('módulo 11 troca 0, 10 e 11 por 1', () => {
+    expect(modulo11('0019101600001509900000001234567000000004217')).toBe(1);
+    expect(modulo11('0')).toBe(1);
+  });
+});
+
+describe('gerarBoleto', () => {
+  // Pedido 42 de R$ 1.509,90 com vencimento em 10/03/2025 (fator já reiniciado)
+  const boleto = gerarBoleto({ banco: '001', convenio: '1234567', carteira: '17' }, 42, 1509.9, '2025-03-10');
+
+  it('monta o código de barras FEBRABAN de 44 dígitos', () => {
+    expect(boleto.codigo_barras).toBe('00191101600001509900000001234567000000004217');
+    expect(boleto.nosso_numero).toBe('12345670000000042');
+  });
+
+  it('monta a linha digitável com os DVs de cada campo', () => {
+    expect(boleto.linha_digitavel).toBe('00190.00009 01234.567004 00000.042176 1 10160000150990');
+    expect(isValidLinhaDigitavel(boleto.linha_digitavel)).toBe(true);
+  });
+
+  it('recusa valor acima de 10 dígitos', () => {
+    expect(() => gerarBoleto({ banco: '001', convenio: '1234567', carteira: '17' }, 1, 1e9, '2025-03-10')).toThrow(
+      'Valor acima do limite do boleto'
+    );
+  });
+});
+
+describe('isValidLinhaDigitavel', () => {
+  const linha = '00190.00009 01234.567004 00000.042176 1 10160000150990';
+
+  it('recusa DV de campo ou DV geral errado', () => {
+    expect(isValidLinhaDigitavel(linha.replace('00009', '00008'))).toBe(false);
+    expect(isValidLinhaDigitavel(linha.replace(' 1 ', ' 2 '))).toBe(false);
+  });
+
+  it('recusa valor alterado, que muda o DV geral', () => {
+    expect(isValidLinhaDigitavel(linha.replace('150990', '150999'))).toBe(false);
+  });
+
+  it('recusa tamanho errado', () => {
+    expect(isValidLinhaDigitavel(linha.slice(0, -1))).toBe(false);
+  });
+});
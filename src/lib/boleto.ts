@@ -0,0 +1,154 @@
+// Boleto: desenho do código de barras, formatação e dígitos verificadores
+// A linha digitável e o código de barras são gerados no servidor (api/boleto.php);
+// gerarBoleto repete o mesmo cálculo FEBRABAN para conferi-lo nos testes
+
+// Intercalado 2 de 5 (ITF): cada dígito é 5 elementos, 2 largos (w) e 3 estreitos (n)
+const ITF_DIGITOS = ['nnwwn', 'wnnnw', 'nwnnw', 'wwnnn', 'nnwnw', 'wnwnn', 'nwwnn', 'nnnww', 'wnnwn', 'nwnwn'];
+
+export interface BarraItf {
+  largura: number;
+  barra: boolean;
+}
+
+/**
+ * Converte os 44 dígitos do código de barras em barras e espaços
+ * Pares de dígitos: o primeiro nas barras, o segundo nos espaços
+ */
+export const encodeItf = (codigo: string, larguraFina = 1, larguraGrossa = 3): BarraItf[] => {
+  if (!/^\d+$/.test(codigo) || codigo.length % 2 !== 0) {
+    throw new Error('Código de barras inválido');
+  }
+
+  const largura = (elemento: string) => (elemento === 'w' ? larguraGrossa : larguraFina);
+  const barras: BarraItf[] = [];
+
+  // Início: barra, espaço, barra, espaço estreitos
+  'nnnn'.split('').forEach((elemento, i) => barras.push({ largura: largura(elemento), barra: i % 2 === 0 }));
+
+  for (let i = 0; i < codigo.length; i += 2) {
+    const padraoBarras = ITF_DIGITOS[Number(codigo[i])];
+    const padraoEspacos = ITF_DIGITOS[Number(codigo[i + 1])];
+    for (let j = 0; j < 5; j++) {
+      barras.push({ largura: largura(padraoBarras[j]), barra: true });
+      barras.push({ largura: largura(padraoEspacos[j]), barra: false });
+    }
+  }
+
+  // Fim: barra larga, espaço estreito, barra estreita
+  barras.push({ largura: larguraGrossa, barra: true });
+  barras.push({ largura: larguraFina, barra: false });
+  barras.push({ largura: larguraFina, barra: true });
+
+  return barras;
+};
+
+// "2025-03-10" -> "10/03/2025"
+export const formatVencimento = (vencimento: string) => {
+  const [ano, mes, dia] = vencimento.slice(0, 10).split('-');
+  return `${dia}/${mes}/${ano}`;
+};
+
+// Linha digitável sem pontos e espaços, para copiar no app do banco
+export const linhaDigitavelNumeros = (linha: string) => linha.replace(/\D/g, '');
+
+// Data base do fator de vencimento; o fator reinicia em 1000 depois de 9999 (22/02/2025)
+export const BOLETO_DATA_BASE = '1997-10-07';
+
+export interface BoletoConfig {
+  banco: string;
+  convenio: string;
+  carteira: string;
+}
+
+export interface BoletoGerado {
+  codigo_barras: string;
+  linha_digitavel: string;
+  nosso_numero: string;
+  vencimento: string;
+}
+
+const diasDesde = (de: string, ate: string) =>
+  Math.floor((Date.parse(`${ate.slice(0, 10)}T00:00:00Z`) - Date.parse(`${de}T00:00:00Z`)) / 86400000);
+
+// "2025-03-10" -> "1016": dias desde a data base, com 4 dígitos
+export const fatorVencimento = (vencimento: string) => {
+  let dias = diasDesde(BOLETO_DATA_BASE, vencimento);
+  if (dias > 9999) {
+    dias = ((dias - 10000) % 9000) + 1000;
+  }
+  return String(dias).padStart(4, '0');
+};
+
+// DV dos campos da linha digitável: pesos 2 e 1 da direita, somando os dígitos do produto
+export const modulo10 = (numero: string) => {
+  let soma = 0;
+  let peso = 2;
+  for (let i = numero.length - 1; i >= 0; i--) {
+    const produto = Number(numero[i]) * peso;
+    soma += produto > 9 ? produto - 9 : produto;
+    peso = peso === 2 ? 1 : 2;
+  }
+  return (10 - (soma % 10)) % 10;
+};
+
+// DV geral do código de barras: pesos 2 a 9 da direita; 0, 10 e 11 viram 1
+export const modulo11 = (numero: string) => {
+  let soma = 0;
+  let peso = 2;
+  for (let i = numero.length - 1; i >= 0; i--) {
+    soma += Number(numero[i]) * peso;
+    peso = peso === 9 ? 2 : peso + 1;
+  }
+  const dv = 11 - (soma % 11);
+  return dv === 0 || dv === 10 || dv === 11 ? 1 : dv;
+};
+
+/**
+ * Código de barras e linha digitável, como gerarBoleto (api/boleto.php)
+ * Campo livre do convênio de 7 dígitos: 6 zeros, convênio, nosso número (10) e carteira
+ */
+export const gerarBoleto = (config: BoletoConfig, pedidoId: number, valor: number, vencimento: string): BoletoGerado => {
+  const pedido = String(pedidoId).padStart(10, '0');
+  const campoLivre = `000000${config.convenio}${pedido}${config.carteira}`;
+
+  const valorCentavos = String(Math.round(valor * 100)).padStart(10, '0');
+  if (valorCentavos.length > 10) {
+    throw new Error('Valor acima do limite do boleto');
+  }
+
+  const semDv = `${config.banco}9${fatorVencimento(vencimento)}${valorCentavos}${campoLivre}`;
+  const dv = modulo11(semDv);
+  const codigoBarras = `${semDv.slice(0, 4)}${dv}${semDv.slice(4)}`;
+
+  // Campos 1 a 3 com DV módulo 10; campo 4 é o DV geral; campo 5, fator + valor
+  const campos = [`${config.banco}9${campoLivre.slice(0, 5)}`, campoLivre.slice(5, 15), campoLivre.slice(15, 25)].map(
+    (campo) => `${campo}${modulo10(campo)}`
+  );
+
+  return {
+    codigo_barras: codigoBarras,
+    linha_digitavel: [
+      ...campos.map((campo) => `${campo.slice(0, 5)}.${campo.slice(5)}`),
+      String(dv),
+      codigoBarras.slice(5, 19),
+    ].join(' '),
+    nosso_numero: `${config.convenio}${pedido}`,
+    vencimento,
+  };
+};
+
+/**
+ * Confere os DVs da linha digitável (47 dígitos, com ou sem pontuação):
+ * módulo 10 dos três primeiros campos e módulo 11 do código de barras
+ */
+export const isValidLinhaDigitavel = (linha: string) => {
+  const numeros = linhaDigitavelNumeros(linha);
+  if (numeros.length !== 47) return false;
+
+  const campos = [numeros.slice(0, 10), numeros.slice(10, 21), numeros.slice(21, 32)];
+  if (campos.some((campo) => modulo10(campo.slice(0, -1)) !== Number(campo.slice(-1)))) return false;
+
+  // Código de barras sem o DV: banco e moeda, fator e valor, campo livre
+  const semDv = `${numeros.slice(0, 4)}${numeros.slice(33)}${numeros.slice(4, 9)}${numeros.slice(10, 20)}${numeros.slice(21, 31)}`;
+  return modulo11(semDv) === Number(numeros[32]);
+};
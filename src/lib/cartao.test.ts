@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectBandeira,
+  formatCardNumber,
+  formatExpiry,
+  getMensagemRecusa,
+  isExpiryValid,
+  isValidLuhn,
+  validateCartao,
+} from './cartao';
+
+describe('detectBandeira', () => {
+  it.each([
+    ['4111111111111111', 'visa'],
+    ['5555555555554444', 'mastercard'],
+    ['2223000048400011', 'mastercard'],
+    ['378282246310005', 'amex'],
+    ['6062825624254001', 'hipercard'],
+    ['6362970000457013', 'elo'],
+    ['4389350000000000', 'elo'],
+  ])('%s é %s', (numero, bandeira) => {
+    expect(detectBandeira(numero)).toBe(bandeira);
+  });
+
+  it('ignora espaços e recusa bandeiras não aceitas', () => {
+    expect(detectBandeira('4111 1111 1111 1111')).toBe('visa');
+    expect(detectBandeira('6011111111111117')).toBeNull();
+    expect(detectBandeira('')).toBeNull();
+  });
+});
+
+describe('isValidLuhn', () => {
+  it('aceita números de teste válidos', () => {
+    expect(isValidLuhn('4111111111111111')).toBe(true);
+    expect(isValidLuhn('3782 822463 10005')).toBe(true);
+  });
+
+  it('recusa dígito verificador errado ou número curto', () => {
+    expect(isValidLuhn('4111111111111112')).toBe(false);
+    expect(isValidLuhn('0000000000')).toBe(false);
+  });
+});
+
+describe('formatação', () => {
+  it('agrupa de 4 em 4 e o Amex em 4-6-5', () => {
+    expect(formatCardNumber('4111111111111111')).toBe('4111 1111 1111 1111');
+    expect(formatCardNumber('378282246310005')).toBe('3782 822463 10005');
+  });
+
+  it('corta no tamanho máximo da bandeira', () => {
+    expect(formatCardNumber('3782822463100059999')).toBe('3782 822463 10005');
+  });
+
+  it('formata a validade como MM/AA', () => {
+    expect(formatExpiry('1230')).toBe('12/30');
+    expect(formatExpiry('1')).toBe('1');
+  });
+});
+
+describe('isExpiryValid', () => {
+  const hoje = new Date(2025, 5, 15);
+
+  it('vale até o fim do mês impresso', () => {
+    expect(isExpiryValid('06/25', hoje)).toBe(true);
+    expect(isExpiryValid('05/25', hoje)).toBe(false);
+  });
+
+  it('recusa mês inválido ou formato errado', () => {
+    expect(isExpiryValid('13/30', hoje)).toBe(false);
+    expect(isExpiryValid('1230', hoje)).toBe(false);
+  });
+});
+
+describe('validateCartao', () => {
+  const valido = { numero: '4111 1111 1111 1111', nome: 'Maria Silva', validade: '12/99', cvv: '123' };
+
+  it('não aponta erros num cartão válido', () => {
+    expect(validateCartao(valido)).toEqual({});
+  });
+
+  it('aponta cada campo inválido', () => {
+    const erros = validateCartao({ numero: '4111111111111112', nome: 'Maria', validade: '01/20', cvv: '12' });
+
+    expect(Object.keys(erros).sort()).toEqual(['cvv', 'nome', 'numero', 'validade']);
+  });
+
+  it('exige 4 dígitos de CVV no Amex', () => {
+    expect(validateCartao({ ...valido, numero: '378282246310005', cvv: '123' }).cvv).toBe(
+      'O código de segurança tem 4 dígitos'
+    );
+  });
+});
+
+describe('getMensagemRecusa', () => {
+  it('cai na mensagem genérica para motivos desconhecidos', () => {
+    expect(getMensagemRecusa('motivo_novo')).toBe(getMensagemRecusa('cartao_recusado'));
+    expect(getMensagemRecusa(null)).toBe(getMensagemRecusa('cartao_recusado'));
+  });
+});
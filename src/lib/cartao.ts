@@ -0,0 +1,145 @@
+// Validação de cartão de crédito usada pelo formulário de pagamento
+// O número completo nunca sai do navegador: só o token do gateway e os 4 últimos dígitos
+
+export type CartaoBandeira = 'visa' | 'mastercard' | 'elo' | 'amex' | 'hipercard';
+
+export interface CartaoDados {
+  numero: string;
+  nome: string;
+  validade: string; // MM/AA
+  cvv: string;
+}
+
+export const BANDEIRA_LABELS: Record<CartaoBandeira, string> = {
+  visa: 'Visa',
+  mastercard: 'Mastercard',
+  elo: 'Elo',
+  amex: 'American Express',
+  hipercard: 'Hipercard',
+};
+
+// Elo e Hipercard vêm antes de Visa/Master porque alguns BINs se sobrepõem
+const BANDEIRA_PADROES: Array<{ bandeira: CartaoBandeira; padrao: RegExp }> = [
+  {
+    bandeira: 'elo',
+    padrao: /^(4011(78|79)|43(1274|8935)|45(1416|7393|763(1|2))|50(4175|6699|67[0-7][0-9]|9000)|627780|63(6297|6368)|650(03([^4])|04([0-9])|05(0|1)|4(0[5-9]|3[0-9]|8[5-9]|9[0-9])|5([0-2][0-9]|3[0-8])|9([2-6][0-9]|7[0-8])|541|700|720|901)|651652|655000|655021)/,
+  },
+  { bandeira: 'hipercard', padrao: /^(606282|3841(0|4|6)0)/ },
+  { bandeira: 'amex', padrao: /^3[47]/ },
+  { bandeira: 'mastercard', padrao: /^(5[1-5]|222[1-9]|22[3-9]|2[3-6]|27[01]|2720)/ },
+  { bandeira: 'visa', padrao: /^4/ },
+];
+
+const TAMANHOS: Record<CartaoBandeira, number[]> = {
+  visa: [13, 16, 19],
+  mastercard: [16],
+  elo: [16],
+  amex: [15],
+  hipercard: [16, 19],
+};
+
+export const getBandeiraLabel = (bandeira?: string | null) =>
+  (bandeira && BANDEIRA_LABELS[bandeira as CartaoBandeira]) || 'Cartão';
+
+export const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+export const detectBandeira = (numero: string): CartaoBandeira | null => {
+  const digitos = onlyDigits(numero);
+  if (!digitos) return null;
+  return BANDEIRA_PADROES.find(({ padrao }) => padrao.test(digitos))?.bandeira ?? null;
+};
+
+export const isValidLuhn = (numero: string): boolean => {
+  const digitos = onlyDigits(numero);
+  if (digitos.length < 12) return false;
+
+  let soma = 0;
+  for (let i = 0; i < digitos.length; i++) {
+    let d = Number(digitos[digitos.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    soma += d;
+  }
+
+  return soma % 10 === 0;
+};
+
+export const getCvvLength = (bandeira: CartaoBandeira | null) => (bandeira === 'amex' ? 4 : 3);
+
+export const getMaxNumeroLength = (bandeira: CartaoBandeira | null) =>
+  bandeira ? Math.max(...TAMANHOS[bandeira]) : 16;
+
+// "4111 1111 1111 1111"; Amex em 4-6-5
+export const formatCardNumber = (value: string): string => {
+  const bandeira = detectBandeira(value);
+  const digitos = onlyDigits(value).slice(0, getMaxNumeroLength(bandeira));
+
+  if (bandeira === 'amex') {
+    return [digitos.slice(0, 4), digitos.slice(4, 10), digitos.slice(10)].filter(Boolean).join(' ');
+  }
+
+  return digitos.replace(/(\d{4})(?=\d)/g, '$1 ');
+};
+
+export const formatExpiry = (value: string): string => {
+  const digitos = onlyDigits(value).slice(0, 4);
+  return digitos.length > 2 ? `${digitos.slice(0, 2)}/${digitos.slice(2)}` : digitos;
+};
+
+// Válido até o último dia do mês impresso
+export const isExpiryValid = (validade: string, hoje = new Date()): boolean => {
+  const match = /^(\d{2})\/(\d{2})$/.exec(validade);
+  if (!match) return false;
+
+  const mes = Number(match[1]);
+  const ano = 2000 + Number(match[2]);
+  if (mes < 1 || mes > 12) return false;
+
+  const fimDoMes = new Date(ano, mes, 0, 23, 59, 59);
+  return fimDoMes >= hoje;
+};
+
+/**
+ * Valida o formulário do cartão
+ * Retorna os erros por campo; objeto vazio quando está tudo certo
+ */
+export const validateCartao = (dados: CartaoDados): Partial<Record<keyof CartaoDados, string>> => {
+  const erros: Partial<Record<keyof CartaoDados, string>> = {};
+  const digitos = onlyDigits(dados.numero);
+  const bandeira = detectBandeira(digitos);
+
+  if (!bandeira) {
+    erros.numero = 'Bandeira não aceita. Aceitamos Visa, Mastercard, Elo, American Express e Hipercard';
+  } else if (!TAMANHOS[bandeira].includes(digitos.length) || !isValidLuhn(digitos)) {
+    erros.numero = 'Número do cartão inválido';
+  }
+
+  if (dados.nome.trim().split(/\s+/).length < 2) {
+    erros.nome = 'Informe o nome como impresso no cartão';
+  }
+
+  if (!isExpiryValid(dados.validade)) {
+    erros.validade = 'Validade inválida ou vencida';
+  }
+
+  if (onlyDigits(dados.cvv).length !== getCvvLength(bandeira)) {
+    erros.cvv = `O código de segurança tem ${getCvvLength(bandeira)} dígitos`;
+  }
+
+  return erros;
+};
+
+// Motivos de recusa devolvidos pelo gateway (pagamentos.motivo_recusa)
+export const MOTIVO_RECUSA_MENSAGENS: Record<string, string> = {
+  saldo_insuficiente: 'Limite insuficiente. Tente outro cartão ou pague com PIX.',
+  cartao_expirado: 'O banco informou que este cartão está vencido.',
+  cvv_invalido: 'Código de segurança incorreto. Confira o CVV e tente novamente.',
+  suspeita_fraude: 'O banco não autorizou esta compra. Entre em contato com o emissor do cartão.',
+  autenticacao_falhou: 'A autenticação com o banco não foi concluída. Tente novamente.',
+  cartao_recusado: 'Pagamento não autorizado pelo banco. Tente outro cartão.',
+};
+
+export const getMensagemRecusa = (motivo?: string | null) =>
+  (motivo && MOTIVO_RECUSA_MENSAGENS[motivo]) || MOTIVO_RECUSA_MENSAGENS.cartao_recusado;
@@ -0,0 +1,65 @@
+// Dados de contato do cliente: perfil da conta ou quem compra sem login
+// Telefone e CPF são validados também em api/cliente.php
+
+import { onlyDigits } from './endereco';
+
+export interface DadosCliente {
+  nome: string;
+  email: string;
+  telefone: string;
+  cpf: string;
+}
+
+export type ClienteErrors = Partial<Record<keyof DadosCliente, string>>;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+
+// Máscara (00) 00000-0000 ou (00) 0000-0000 durante a digitação
+export const formatTelefone = (value: string) => {
+  const digits = onlyDigits(value).slice(0, 11);
+  if (digits.length <= 2) return digits.length ? `(${digits}` : '';
+  const corte = digits.length === 11 ? 7 : 6;
+  if (digits.length <= corte) return `(${digits.slice(0, 2)}) ${digits.slice(2)}`;
+  return `(${digits.slice(0, 2)}) ${digits.slice(2, corte)}-${digits.slice(corte)}`;
+};
+
+// DDD + 8 dígitos (fixo) ou 9 dígitos (celular)
+export const isValidTelefone = (telefone: string) => /^\d{10,11}$/.test(onlyDigits(telefone));
+
+// Máscara 000.000.000-00 durante a digitação
+export const formatCpf = (value: string) => {
+  const digits = onlyDigits(value).slice(0, 11);
+  if (digits.length <= 3) return digits;
+  if (digits.length <= 6) return `${digits.slice(0, 3)}.${digits.slice(3)}`;
+  if (digits.length <= 9) return `${digits.slice(0, 3)}.${digits.slice(3, 6)}.${digits.slice(6)}`;
+  return `${digits.slice(0, 3)}.${digits.slice(3, 6)}.${digits.slice(6, 9)}-${digits.slice(9)}`;
+};
+
+// 11 dígitos, não todos iguais, com os dois dígitos verificadores corretos
+export const isValidCpf = (cpf: string) => {
+  const digits = onlyDigits(cpf);
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false;
+
+  return [9, 10].every((posicao) => {
+    let soma = 0;
+    for (let i = 0; i < posicao; i++) {
+      soma += Number(digits[i]) * (posicao + 1 - i);
+    }
+    return Number(digits[posicao]) === ((soma * 10) % 11) % 10;
+  });
+};
+
+// Retorna os erros por campo; objeto vazio quando os dados são válidos
+export const validateCliente = (cliente: Partial<DadosCliente>): ClienteErrors => {
+  const errors: ClienteErrors = {};
+
+  if (!cliente.nome?.trim()) errors.nome = 'Informe seu nome';
+  if (!isValidEmail(cliente.email || '')) errors.email = 'Email inválido';
+  if (!isValidTelefone(cliente.telefone || '')) errors.telefone = 'Telefone inválido';
+  // CPF é opcional, mas quando informado precisa ser válido
+  if (cliente.cpf?.trim() && !isValidCpf(cliente.cpf)) errors.cpf = 'CPF inválido';
+
+  return errors;
+};
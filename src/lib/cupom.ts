@@ -0,0 +1,29 @@
+// Utilitários de cupom compartilhados por Carrinho, Checkout e admin
+
+import type { CupomTipo } from '@/services/precosApi';
+
+const CUPOM_STORAGE_KEY = 'iplace-cupom';
+
+export const CUPOM_TIPO_LABELS: Record<CupomTipo, string> = {
+  percentual: 'Percentual',
+  valor_fixo: 'Valor fixo',
+  frete_gratis: 'Frete grátis',
+};
+
+export const normalizeCupomCodigo = (codigo: string) => codigo.trim().toUpperCase();
+
+// Cupom aplicado no carrinho, reaplicado no checkout
+export const getSavedCupom = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(CUPOM_STORAGE_KEY);
+};
+
+export const saveCupom = (codigo: string) => {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(CUPOM_STORAGE_KEY, normalizeCupomCodigo(codigo));
+};
+
+export const clearSavedCupom = () => {
+  if (typeof window === 'undefined') return;
+  localStorage.removeItem(CUPOM_STORAGE_KEY);
+};
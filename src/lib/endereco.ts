@@ -0,0 +1,59 @@
+// Validação de endereços de entrega
+// Espelhada no servidor em api/endereco.php
+
+export const UFS = [
+  'AC', 'AL', 'AP', 'AM', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MT', 'MS', 'MG', 'PA',
+  'PB', 'PR', 'PE', 'PI', 'RJ', 'RN', 'RS', 'RO', 'RR', 'SC', 'SP', 'SE', 'TO',
+] as const;
+
+export type UF = (typeof UFS)[number];
+
+// Campos enviados em createPedido
+export interface EnderecoEntrega {
+  cep: string;
+  logradouro: string;
+  numero: string;
+  complemento?: string;
+  bairro: string;
+  cidade: string;
+  estado: string;
+}
+
+export type EnderecoErrors = Partial<Record<keyof EnderecoEntrega, string>>;
+
+// Dígitos, com letra opcional (ex.: 120A), ou "S/N"
+const NUMERO_REGEX = /^(\d{1,6}[A-Za-z]?|S\/?N)$/i;
+
+export const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+// Máscara 00000-000 durante a digitação
+export const formatCep = (value: string) => {
+  const digits = onlyDigits(value).slice(0, 8);
+  return digits.length > 5 ? `${digits.slice(0, 5)}-${digits.slice(5)}` : digits;
+};
+
+export const isValidCep = (cep: string) => onlyDigits(cep).length === 8;
+
+export const isValidUf = (uf: string): uf is UF => (UFS as readonly string[]).includes(uf.toUpperCase());
+
+export const isValidNumero = (numero: string) => NUMERO_REGEX.test(numero.trim());
+
+// Retorna os erros por campo; objeto vazio quando o endereço é válido
+export const validateEndereco = (endereco: Partial<EnderecoEntrega>): EnderecoErrors => {
+  const errors: EnderecoErrors = {};
+
+  if (!isValidCep(endereco.cep || '')) errors.cep = 'CEP inválido';
+  if (!endereco.logradouro?.trim()) errors.logradouro = 'Informe o logradouro';
+  if (!isValidNumero(endereco.numero || '')) errors.numero = 'Número inválido (use S/N se não houver)';
+  if (!endereco.bairro?.trim()) errors.bairro = 'Informe o bairro';
+  if (!endereco.cidade?.trim()) errors.cidade = 'Informe a cidade';
+  if (!isValidUf(endereco.estado || '')) errors.estado = 'UF inválida';
+
+  return errors;
+};
+
+// Endereço em uma linha, para listagens
+export const formatEnderecoLinha = (endereco: EnderecoEntrega) => {
+  const complemento = endereco.complemento ? ` - ${endereco.complemento}` : '';
+  return `${endereco.logradouro}, ${endereco.numero}${complemento} - ${endereco.bairro}, ${endereco.cidade}/${endereco.estado}`;
+};
@@ -0,0 +1,57 @@
+// Utilitários de frete compartilhados por Produto, Carrinho e Checkout
+
+import { onlyDigits } from './endereco';
+
+const CEP_STORAGE_KEY = 'iplace-cep';
+const SERVICO_STORAGE_KEY = 'iplace-frete-servico';
+
+export const FRETE_SERVICO_LABELS: Record<string, string> = {
+  PAC: 'PAC',
+  SEDEX: 'SEDEX',
+};
+
+export const getFreteLabel = (servico: string) => FRETE_SERVICO_LABELS[servico] || servico;
+
+// Último CEP consultado, reaproveitado entre as páginas
+export const getSavedCep = (): string => {
+  if (typeof window === 'undefined') return '';
+  return localStorage.getItem(CEP_STORAGE_KEY) || '';
+};
+
+export const saveCep = (cep: string) => {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(CEP_STORAGE_KEY, onlyDigits(cep));
+};
+
+// Serviço escolhido no carrinho, pré-selecionado no checkout
+export const getSavedFreteServico = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(SERVICO_STORAGE_KEY);
+};
+
+export const saveFreteServico = (servico: string) => {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(SERVICO_STORAGE_KEY, servico);
+};
+
+// Data estimada de entrega contando apenas dias úteis
+export const estimateDeliveryDate = (businessDays: number, from: Date = new Date()): Date => {
+  const date = new Date(from);
+  let remaining = businessDays;
+
+  while (remaining > 0) {
+    date.setDate(date.getDate() + 1);
+    const day = date.getDay();
+    if (day !== 0 && day !== 6) remaining--;
+  }
+
+  return date;
+};
+
+export const formatDeliveryDate = (businessDays: number) => {
+  return estimateDeliveryDate(businessDays).toLocaleDateString('pt-BR', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+  });
+};
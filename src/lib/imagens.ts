@@ -0,0 +1,67 @@
+// Imagens de produto com as versões geradas no upload (api/imagens.php)
+// Imagens antigas, cadastradas por URL, não têm versões e usam só a url
+
+import type { ProductImage } from '@/services/api';
+
+// Limites do upload; espelham api/imagens.php
+export const IMAGEM_TIPOS_ACEITOS = ['image/jpeg', 'image/png', 'image/webp'];
+export const IMAGEM_TAMANHO_MAXIMO = 8 * 1024 * 1024;
+
+/**
+ * Confere o arquivo antes de enviar; retorna a mensagem de erro ou null
+ * O servidor confere de novo pelo conteúdo do arquivo
+ */
+export const validarArquivoImagem = (arquivo: File): string | null => {
+  if (!IMAGEM_TIPOS_ACEITOS.includes(arquivo.type)) {
+    return `${arquivo.name}: formato não aceito. Envie JPEG, PNG ou WebP`;
+  }
+  if (arquivo.size > IMAGEM_TAMANHO_MAXIMO) {
+    return `${arquivo.name}: passa do tamanho máximo de ${IMAGEM_TAMANHO_MAXIMO / 1024 / 1024} MB`;
+  }
+  return null;
+};
+
+// Largura de exibição de cada uso, para o navegador escolher a versão do srcset
+export const IMAGE_SIZES = {
+  thumb: '64px',
+  card: '(min-width: 1280px) 25vw, (min-width: 768px) 33vw, 50vw',
+  zoom: '(min-width: 1024px) 50vw, 100vw',
+} as const;
+
+/**
+ * srcset com as versões da imagem ("url 160w, url 480w, ...")
+ * Versões de mesma largura (imagem original pequena) entram uma vez só
+ */
+export const getSrcSet = (image: ProductImage | undefined): string | undefined => {
+  if (!image || image.variants.length === 0) return undefined;
+
+  const larguras = new Set<number>();
+  return image.variants
+    .filter((variant) => {
+      if (larguras.has(variant.width)) return false;
+      larguras.add(variant.width);
+      return true;
+    })
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .join(', ');
+};
+
+/**
+ * URL de uma versão específica (ex.: thumb no carrinho), ou a url da imagem
+ */
+export const getImageUrl = (image: ProductImage | undefined, variant?: ProductImage['variants'][number]['name']) => {
+  if (!image) return '/placeholder.svg';
+  return image.variants.find((v) => v.name === variant)?.url ?? image.url;
+};
+
+/**
+ * Atributos de <img> para um uso: src, srcSet e sizes
+ */
+export const getImageProps = (image: ProductImage | undefined, uso: keyof typeof IMAGE_SIZES) => {
+  const srcSet = getSrcSet(image);
+  return {
+    src: getImageUrl(image, uso),
+    srcSet,
+    sizes: srcSet ? IMAGE_SIZES[uso] : undefined,
+  };
+};
@@ -78,6 +78,12 @@ const IPHONE_SPECS: Record<string, iPhoneSpec> = {
   "IPHONE SE 2022": { model: "iPhone SE (2022)", display: "4.7\" Retina HD", camera: "12MP", chip: "A15 Bionic" },
 };
 
+// Nomes dos modelos, dos mais antigos aos mais novos (a linha SE por último)
+export const IPHONE_MODELOS = Object.values(IPHONE_SPECS).map((spec) => spec.model);
+
+// Capacidades de armazenamento padrão
+export const IPHONE_CAPACIDADES = ['64GB', '128GB', '256GB', '512GB', '1TB'];
+
 // Encontra as specs de um iPhone baseado no nome do produto
 export const getIPhoneSpecs = (productName: string): iPhoneSpec | null => {
   const nameUpper = productName.toUpperCase();
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calcularPlano,
+  formatPlano,
+  getMelhorPlanoSemJuros,
+  getParcelamentoConfig,
+  listarPlanos,
+  round2,
+} from './parcelamento';
+
+const configPadrao = getParcelamentoConfig({});
+
+describe('round2', () => {
+  it('arredonda a metade para longe do zero, como api/parcelamento.php', () => {
+    // 1,005 é guardado como 1,00499999...: Math.round(v * 100) daria 1,00
+    expect(round2(1.005)).toBe(1.01);
+    expect(round2(-1.005)).toBe(-1.01);
+    expect(round2(2.675)).toBe(2.68);
+  });
+
+  it('não mexe em valores já em centavos', () => {
+    expect(round2(1.0049)).toBe(1);
+    expect(round2(1234.56)).toBe(1234.56);
+    expect(round2(0)).toBe(0);
+  });
+});
+
+describe('getParcelamentoConfig', () => {
+  it('usa os padrões sem configuração', () => {
+    expect(configPadrao).toEqual({ maximo: 12, semJuros: 3, taxas: {} });
+  });
+
+  it('limita as parcelas sem juros ao máximo e lê a tabela de taxas', () => {
+    const config = getParcelamentoConfig({
+      parcelas_maximo: '6',
+      parcelas_sem_juros: '10',
+      juros_parcelamento: '{"4": 1.5}',
+    });
+
+    expect(config).toEqual({ maximo: 6, semJuros: 6, taxas: { 4: 1.5 } });
+  });
+
+  it('ignora tabela de taxas inválida', () => {
+    expect(getParcelamentoConfig({ juros_parcelamento: '{inválido' }).taxas).toEqual({});
+  });
+});
+
+describe('calcularPlano', () => {
+  it('divide sem juros até parcelas_sem_juros', () => {
+    expect(calcularPlano(1000, 3, configPadrao)).toEqual({
+      parcelas: 3,
+      valor_parcela: 333.33,
+      total: 1000,
+      juros: 0,
+      taxa_mensal: 0,
+      sem_juros: true,
+    });
+  });
+
+  it('aplica a tabela Price acima disso, com o total pela parcela arredondada', () => {
+    expect(calcularPlano(1000, 12, configPadrao)).toEqual({
+      parcelas: 12,
+      valor_parcela: 94.5,
+      total: 1134,
+      juros: 134,
+      taxa_mensal: 1.99,
+      sem_juros: false,
+    });
+  });
+
+  it('usa a taxa da maior quantidade cadastrada abaixo das parcelas', () => {
+    const config = getParcelamentoConfig({
+      parcelas_maximo: '10',
+      parcelas_sem_juros: '2',
+      juros_parcelamento: '{"4": 1.5, "8": 2.5}',
+    });
+
+    expect([3, 4, 7, 8, 10].map((parcelas) => calcularPlano(2500, parcelas, config).taxa_mensal)).toEqual([
+      1.99, 1.5, 1.5, 2.5, 2.5,
+    ]);
+  });
+});
+
+describe('listagem e exibição', () => {
+  it('lista de 1x até o máximo', () => {
+    expect(listarPlanos(500, configPadrao).map((plano) => plano.parcelas)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+  });
+
+  it('destaca o maior parcelamento sem juros', () => {
+    expect(getMelhorPlanoSemJuros(900, configPadrao)).toMatchObject({ parcelas: 3, valor_parcela: 300 });
+  });
+
+  it('formata com ou sem o total', () => {
+    const semJuros = calcularPlano(900, 3, configPadrao);
+    const comJuros = calcularPlano(1000, 12, configPadrao);
+
+    expect(formatPlano(semJuros).replace(/\s/g, ' ')).toBe('3x de R$ 300,00 sem juros');
+    expect(formatPlano(comJuros).replace(/\s/g, ' ')).toBe('12x de R$ 94,50 (total R$ 1.134,00)');
+    expect(formatPlano(comJuros, false).replace(/\s/g, ' ')).toBe('12x de R$ 94,50');
+  });
+});
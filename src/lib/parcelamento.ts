@@ -0,0 +1,115 @@
+// Parcelamento no cartão - espelho de api/parcelamento.php
+// Produto, ProductCard, Carrinho e o formulário de cartão usam estas funções
+// para exibir os mesmos valores que o servidor cobra.
+
+import type { Configuracoes } from '@/hooks/useConfiguracoes';
+
+const PARCELAS_MAXIMO_PADRAO = 12;
+const PARCELAS_SEM_JUROS_PADRAO = 3;
+const JUROS_MENSAL_PADRAO = 1.99;
+
+export interface ParcelamentoConfig {
+  maximo: number;
+  semJuros: number;
+  // Taxa mensal (%) a partir de cada quantidade de parcelas
+  taxas: Record<number, number>;
+}
+
+export interface PlanoParcelamento {
+  parcelas: number;
+  valor_parcela: number;
+  total: number;
+  juros: number;
+  taxa_mensal: number;
+  sem_juros: boolean;
+}
+
+// Centavos, metade para longe do zero: mesmas operações de arredondarCentavos()
+// em api/parcelamento.php. O épsilon corrige valores como 1,005 (1,00499999...)
+export const round2 = (value: number) => {
+  const centavos = Math.floor(Math.abs(value) * 100 * (1 + Number.EPSILON) + 0.5);
+  return (value < 0 ? -centavos : centavos) / 100;
+};
+
+const parseTaxas = (raw: string | undefined): Record<number, number> => {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') return {};
+    return Object.fromEntries(
+      Object.entries(parsed).map(([parcelas, taxa]) => [Number(parcelas), Number(taxa)])
+    );
+  } catch {
+    return {};
+  }
+};
+
+export const getParcelamentoConfig = (config: Partial<Configuracoes>): ParcelamentoConfig => {
+  const maximo = Number(config.parcelas_maximo) > 0 ? Number(config.parcelas_maximo) : PARCELAS_MAXIMO_PADRAO;
+  const semJuros = Number(config.parcelas_sem_juros) > 0 ? Number(config.parcelas_sem_juros) : PARCELAS_SEM_JUROS_PADRAO;
+
+  return {
+    maximo,
+    semJuros: Math.min(semJuros, maximo),
+    taxas: parseTaxas(config.juros_parcelamento),
+  };
+};
+
+const getTaxaMensal = (parcelas: number, config: ParcelamentoConfig): number => {
+  if (parcelas <= config.semJuros) return 0;
+
+  let taxa = JUROS_MENSAL_PADRAO;
+  let maiorAbaixo = 0;
+  for (const [quantidade, valor] of Object.entries(config.taxas)) {
+    const q = Number(quantidade);
+    if (q <= parcelas && q > maiorAbaixo) {
+      maiorAbaixo = q;
+      taxa = valor;
+    }
+  }
+
+  return taxa;
+};
+
+export const calcularPlano = (valor: number, parcelas: number, config: ParcelamentoConfig): PlanoParcelamento => {
+  const taxa = getTaxaMensal(parcelas, config);
+
+  let valorParcela: number;
+  let total: number;
+
+  if (taxa <= 0) {
+    valorParcela = round2(valor / parcelas);
+    total = round2(valor);
+  } else {
+    const i = taxa / 100;
+    valorParcela = round2((valor * i) / (1 - Math.pow(1 + i, -parcelas)));
+    total = round2(valorParcela * parcelas);
+  }
+
+  return {
+    parcelas,
+    valor_parcela: valorParcela,
+    total,
+    juros: round2(total - valor),
+    taxa_mensal: taxa,
+    sem_juros: taxa <= 0,
+  };
+};
+
+// Todos os planos de 1x até o máximo configurado
+export const listarPlanos = (valor: number, config: ParcelamentoConfig): PlanoParcelamento[] =>
+  Array.from({ length: config.maximo }, (_, index) => calcularPlano(valor, index + 1, config));
+
+// Maior parcelamento sem juros: o destaque de vitrine e carrinho
+export const getMelhorPlanoSemJuros = (valor: number, config: ParcelamentoConfig): PlanoParcelamento =>
+  calcularPlano(valor, config.semJuros, config);
+
+const formatPrice = (price: number) =>
+  price.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+// "6x de R$ 500,00 sem juros" / "12x de R$ 280,10 (total R$ 3.361,20)"
+export const formatPlano = (plano: PlanoParcelamento, comTotal = true): string => {
+  const base = `${plano.parcelas}x de ${formatPrice(plano.valor_parcela)}`;
+  if (plano.sem_juros) return `${base} sem juros`;
+  return comTotal ? `${base} (total ${formatPrice(plano.total)})` : base;
+};
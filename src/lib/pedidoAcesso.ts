@@ -0,0 +1,37 @@
+// Email da compra de cada pedido feito neste navegador
+// A API só mostra um pedido com o número e o email usado na compra (api/pedido_acesso.php)
+
+import { normalizeEmail } from './cliente';
+
+const PEDIDO_EMAILS_STORAGE_KEY = 'iplace-pedido-emails';
+
+const getSavedPedidoEmails = (): Record<string, string> => {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(PEDIDO_EMAILS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const savePedidoEmail = (numero: string, email: string) => {
+  if (typeof window === 'undefined') return;
+  const emails = getSavedPedidoEmails();
+  emails[numero] = normalizeEmail(email);
+  localStorage.setItem(PEDIDO_EMAILS_STORAGE_KEY, JSON.stringify(emails));
+};
+
+// Email salvo do pedido ou, na falta dele, o do cliente logado
+export const getPedidoEmail = (numero: string): string | null => {
+  if (typeof window === 'undefined') return null;
+
+  const salvo = getSavedPedidoEmails()[numero];
+  if (salvo) return salvo;
+
+  try {
+    const usuario = JSON.parse(localStorage.getItem('usuario') || 'null');
+    return usuario?.email ? normalizeEmail(usuario.email) : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,71 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import {
+  PAID_STATUSES,
+  PEDIDO_STATUSES,
+  PEDIDO_TRANSITIONS,
+  assertTransition,
+  canTransition,
+  getNextStatuses,
+  getStatusConfig,
+  isPedidoStatus,
+} from './pedidoStatus';
+
+// Lê PEDIDO_TRANSICOES de api/pedido_status.php: as duas máquinas precisam ser iguais
+const lerTransicoesPhp = (): Record<string, string[]> => {
+  const fonte = readFileSync(new URL('../../api/pedido_status.php', import.meta.url), 'utf8');
+  const bloco = fonte.match(/const PEDIDO_TRANSICOES = \[([\s\S]*?)\n\];/);
+  if (!bloco) throw new Error('PEDIDO_TRANSICOES não encontrado');
+
+  return Object.fromEntries(
+    [...bloco[1].matchAll(/'(\w+)' => \[([^\]]*)\]/g)].map(([, de, para]) => [
+      de,
+      [...para.matchAll(/'(\w+)'/g)].map(([, status]) => status),
+    ])
+  );
+};
+
+describe('máquina de estados do pedido', () => {
+  it('é a mesma de api/pedido_status.php', () => {
+    expect(lerTransicoesPhp()).toEqual(PEDIDO_TRANSITIONS);
+  });
+
+  it('tem transições para todos os status', () => {
+    expect(Object.keys(PEDIDO_TRANSITIONS).sort()).toEqual([...PEDIDO_STATUSES].sort());
+  });
+
+  it('segue o fluxo de pagamento, preparo e envio', () => {
+    expect(canTransition('aguardando_pagamento', 'pago')).toBe(true);
+    expect(canTransition('pago', 'preparando')).toBe(true);
+    expect(canTransition('preparando', 'enviado')).toBe(true);
+    expect(canTransition('enviado', 'entregue')).toBe(true);
+  });
+
+  it('não pula etapas nem volta atrás', () => {
+    expect(canTransition('aguardando_pagamento', 'enviado')).toBe(false);
+    expect(canTransition('pago', 'aguardando_pagamento')).toBe(false);
+    expect(canTransition('enviado', 'cancelado')).toBe(false);
+  });
+
+  it('trata entregue e cancelado como finais', () => {
+    expect(getNextStatuses('entregue')).toEqual([]);
+    expect(getNextStatuses('cancelado')).toEqual([]);
+  });
+
+  it('assertTransition explica a transição recusada', () => {
+    expect(() => assertTransition('pago', 'preparando')).not.toThrow();
+    expect(() => assertTransition('cancelado', 'pago')).toThrow('Não é possível alterar o pedido de "Cancelado" para "Pago"');
+  });
+
+  it('considera pagos só os status depois do pagamento', () => {
+    expect(PAID_STATUSES).not.toContain('aguardando_pagamento');
+    expect(PAID_STATUSES).not.toContain('cancelado');
+    expect(PAID_STATUSES).toContain('entregue');
+  });
+
+  it('reconhece status desconhecidos', () => {
+    expect(isPedidoStatus('pago')).toBe(true);
+    expect(isPedidoStatus('estornado')).toBe(false);
+    expect(getStatusConfig('estornado').label).toBe('Pendente');
+  });
+});
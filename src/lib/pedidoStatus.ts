@@ -0,0 +1,75 @@
+// Máquina de estados do pedido: status, transições permitidas e apresentação
+// Espelhada no servidor em api/pedido_status.php
+
+import { Clock, CheckCircle, Package, Truck, XCircle } from 'lucide-react';
+
+export const PEDIDO_STATUSES = [
+  'aguardando_pagamento',
+  'pendente',
+  'pago',
+  'preparando',
+  'enviado',
+  'entregue',
+  'cancelado',
+] as const;
+
+export type PedidoStatus = (typeof PEDIDO_STATUSES)[number];
+
+// Transições permitidas a partir de cada status
+export const PEDIDO_TRANSITIONS: Record<PedidoStatus, PedidoStatus[]> = {
+  aguardando_pagamento: ['pago', 'cancelado'],
+  pendente: ['pago', 'cancelado'],
+  pago: ['preparando', 'cancelado'],
+  preparando: ['enviado', 'cancelado'],
+  enviado: ['entregue'],
+  entregue: [],
+  cancelado: [],
+};
+
+// Status que representam um pedido já pago
+export const PAID_STATUSES: PedidoStatus[] = ['pago', 'preparando', 'enviado', 'entregue'];
+
+export interface PedidoStatusConfig {
+  label: string;
+  shortLabel: string;
+  color: string;
+  variant: 'default' | 'secondary' | 'outline' | 'destructive';
+  icon: React.ElementType;
+}
+
+export const PEDIDO_STATUS_CONFIG: Record<PedidoStatus, PedidoStatusConfig> = {
+  aguardando_pagamento: { label: 'Aguardando Pagamento', shortLabel: 'Aguardando', color: 'bg-yellow-100 text-yellow-800', variant: 'secondary', icon: Clock },
+  pendente: { label: 'Pendente', shortLabel: 'Pendente', color: 'bg-yellow-100 text-yellow-800', variant: 'secondary', icon: Clock },
+  pago: { label: 'Pago', shortLabel: 'Pago', color: 'bg-green-100 text-green-800', variant: 'default', icon: CheckCircle },
+  preparando: { label: 'Preparando', shortLabel: 'Preparando', color: 'bg-blue-100 text-blue-800', variant: 'outline', icon: Package },
+  enviado: { label: 'Enviado', shortLabel: 'Enviado', color: 'bg-purple-100 text-purple-800', variant: 'outline', icon: Truck },
+  entregue: { label: 'Entregue', shortLabel: 'Entregue', color: 'bg-green-100 text-green-800', variant: 'default', icon: CheckCircle },
+  cancelado: { label: 'Cancelado', shortLabel: 'Cancelado', color: 'bg-red-100 text-red-800', variant: 'destructive', icon: XCircle },
+};
+
+export const isPedidoStatus = (value: string): value is PedidoStatus => {
+  return (PEDIDO_STATUSES as readonly string[]).includes(value);
+};
+
+// Configuração de exibição com fallback para status desconhecidos
+export const getStatusConfig = (status: string): PedidoStatusConfig => {
+  return isPedidoStatus(status) ? PEDIDO_STATUS_CONFIG[status] : PEDIDO_STATUS_CONFIG.pendente;
+};
+
+export const canTransition = (from: PedidoStatus, to: PedidoStatus): boolean => {
+  return PEDIDO_TRANSITIONS[from]?.includes(to) ?? false;
+};
+
+// Próximos status possíveis a partir do status atual
+export const getNextStatuses = (from: PedidoStatus): PedidoStatus[] => {
+  return PEDIDO_TRANSITIONS[from] ?? [];
+};
+
+// Lança erro se a transição não for permitida
+export const assertTransition = (from: PedidoStatus, to: PedidoStatus): void => {
+  if (!canTransition(from, to)) {
+    const fromLabel = getStatusConfig(from).label;
+    const toLabel = getStatusConfig(to).label;
+    throw new Error(`Não é possível alterar o pedido de "${fromLabel}" para "${toLabel}"`);
+  }
+};
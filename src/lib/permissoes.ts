@@ -0,0 +1,42 @@
+// Papéis da equipe do painel e permissões de cada ação
+// A lista de permissões de cada papel vem do servidor (api/permissoes.php)
+
+export const PAPEIS_ADMIN = ['dono', 'catalogo', 'pedidos', 'leitura'] as const;
+
+export type PapelAdmin = (typeof PAPEIS_ADMIN)[number];
+
+export type Permissao =
+  | 'produtos.ver'
+  | 'produtos.editar'
+  | 'categorias.ver'
+  | 'categorias.editar'
+  | 'cupons.ver'
+  | 'cupons.editar'
+  | 'pedidos.ver'
+  | 'pedidos.editar'
+  | 'tradein.ver'
+  | 'tradein.editar'
+  | 'equipe.gerenciar'
+  | 'auditoria.ver';
+
+export const PAPEL_ADMIN_CONFIG: Record<PapelAdmin, { label: string; descricao: string }> = {
+  dono: {
+    label: 'Dono',
+    descricao: 'Acesso total, incluindo a equipe e a auditoria',
+  },
+  catalogo: {
+    label: 'Editor de catálogo',
+    descricao: 'Produtos e categorias; vê os cupons e o trade-in',
+  },
+  pedidos: {
+    label: 'Operador de pedidos',
+    descricao: 'Atualiza pedidos e avalia o trade-in; vê o catálogo',
+  },
+  leitura: {
+    label: 'Somente leitura',
+    descricao: 'Vê catálogo, cupons, pedidos e trade-in, sem alterar nada',
+  },
+};
+
+export const getPapelLabel = (papel: string | null | undefined) =>
+  papel && papel in PAPEL_ADMIN_CONFIG ? PAPEL_ADMIN_CONFIG[papel as PapelAdmin].label : 'Sem papel';
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { buildPixPayload, crc16, isValidPixPayload, parsePixPayload } from './pix';
+
+// Exemplo do Manual de Padrões para Iniciação do PIX (Banco Central)
+const PAYLOAD_BCB =
+  '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-426655440000' +
+  '5204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***63041D3D';
+
+describe('crc16', () => {
+  it('segue o CRC16-CCITT (0x1021, início 0xFFFF)', () => {
+    expect(crc16('123456789')).toBe('29B1');
+  });
+
+  it('completa com zeros à esquerda', () => {
+    expect(crc16('')).toBe('FFFF');
+    expect(crc16('A')).toHaveLength(4);
+  });
+});
+
+describe('isValidPixPayload', () => {
+  it('aceita o exemplo do Banco Central', () => {
+    expect(isValidPixPayload(PAYLOAD_BCB)).toBe(true);
+  });
+
+  it('recusa CRC errado ou payload curto', () => {
+    expect(isValidPixPayload(PAYLOAD_BCB.slice(0, -4) + '0000')).toBe(false);
+    expect(isValidPixPayload('000201')).toBe(false);
+    expect(isValidPixPayload('')).toBe(false);
+  });
+});
+
+describe('buildPixPayload', () => {
+  const opcoes = {
+    chave: 'loja@exemplo.com.br',
+    nome: 'iPlace Seminovos Comércio de Aparelhos',
+    cidade: 'São José dos Campos',
+    valor: 1234.5,
+    txid: 'PED-ABC123',
+  };
+
+  it('gera um payload válido que volta pelo parse', () => {
+    const payload = buildPixPayload(opcoes);
+
+    expect(isValidPixPayload(payload)).toBe(true);
+    expect(parsePixPayload(payload)).toMatchObject({
+      chave: 'loja@exemplo.com.br',
+      valor: 1234.5,
+      txid: 'PEDABC123',
+      crc: payload.slice(-4),
+    });
+  });
+
+  it('remove acentos e corta nome e cidade nos limites do BR Code', () => {
+    const dados = parsePixPayload(buildPixPayload(opcoes));
+
+    expect(dados.nome).toBe('iPlace Seminovos Comercio');
+    expect(dados.cidade).toBe('Sao Jose dos Ca');
+  });
+
+  it('grava o valor com duas casas e omite valor zerado', () => {
+    expect(buildPixPayload({ ...opcoes, valor: 10 })).toContain('540510.00');
+    expect(parsePixPayload(buildPixPayload({ ...opcoes, valor: 0 })).valor).toBeUndefined();
+  });
+
+  it('usa *** sem txid', () => {
+    const payload = buildPixPayload({ ...opcoes, txid: undefined });
+
+    expect(payload).toContain('0503***');
+    expect(parsePixPayload(payload).txid).toBeUndefined();
+  });
+
+  it('exige a chave', () => {
+    expect(() => buildPixPayload({ ...opcoes, chave: '  ' })).toThrow('Chave PIX não configurada');
+  });
+});
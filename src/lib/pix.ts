@@ -0,0 +1,176 @@
+// Gerador de payload PIX "copia e cola" (BR Code / EMV QRCPS-MPM)
+// Referência: Manual de Padrões para Iniciação do PIX (Banco Central)
+
+export interface PixPayloadOptions {
+  chave: string;
+  nome: string;
+  cidade: string;
+  valor?: number;
+  txid?: string;
+  descricao?: string;
+}
+
+export interface PixPayloadData {
+  chave: string;
+  nome: string;
+  cidade: string;
+  valor?: number;
+  txid?: string;
+  descricao?: string;
+  crc: string;
+}
+
+// IDs dos campos EMV usados pelo PIX
+const ID_PAYLOAD_FORMAT = '00';
+const ID_MERCHANT_ACCOUNT = '26';
+const ID_MERCHANT_GUI = '00';
+const ID_MERCHANT_KEY = '01';
+const ID_MERCHANT_DESCRIPTION = '02';
+const ID_MERCHANT_CATEGORY = '52';
+const ID_CURRENCY = '53';
+const ID_AMOUNT = '54';
+const ID_COUNTRY = '58';
+const ID_MERCHANT_NAME = '59';
+const ID_MERCHANT_CITY = '60';
+const ID_ADDITIONAL_DATA = '62';
+const ID_ADDITIONAL_TXID = '05';
+const ID_CRC = '63';
+
+const PIX_GUI = 'br.gov.bcb.pix';
+const CURRENCY_BRL = '986';
+const MAX_NAME_LENGTH = 25;
+const MAX_CITY_LENGTH = 15;
+const MAX_TXID_LENGTH = 25;
+
+// Monta um campo TLV: ID (2) + tamanho (2) + valor
+const tlv = (id: string, value: string): string => {
+  const length = value.length.toString().padStart(2, '0');
+  return `${id}${length}${value}`;
+};
+
+// Remove acentos e caracteres fora do conjunto permitido pelo BR Code
+const sanitizeText = (value: string, maxLength: number): string => {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9 $%*+\-./:]/g, '')
+    .trim()
+    .substring(0, maxLength);
+};
+
+// O txid aceita apenas letras e números (máx. 25); sem txid usa-se "***"
+const sanitizeTxid = (txid?: string): string => {
+  const clean = (txid || '').replace(/[^A-Za-z0-9]/g, '').substring(0, MAX_TXID_LENGTH);
+  return clean || '***';
+};
+
+// CRC16-CCITT (polinômio 0x1021, valor inicial 0xFFFF)
+export const crc16 = (payload: string): string => {
+  let crc = 0xffff;
+
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// Gera o código PIX "copia e cola" pronto para QR Code
+export const buildPixPayload = (options: PixPayloadOptions): string => {
+  const chave = options.chave.trim();
+  if (!chave) {
+    throw new Error('Chave PIX não configurada');
+  }
+
+  const merchantAccount =
+    tlv(ID_MERCHANT_GUI, PIX_GUI) +
+    tlv(ID_MERCHANT_KEY, chave) +
+    (options.descricao ? tlv(ID_MERCHANT_DESCRIPTION, sanitizeText(options.descricao, 40)) : '');
+
+  const amount =
+    options.valor !== undefined && options.valor > 0
+      ? tlv(ID_AMOUNT, options.valor.toFixed(2))
+      : '';
+
+  const payload =
+    tlv(ID_PAYLOAD_FORMAT, '01') +
+    tlv(ID_MERCHANT_ACCOUNT, merchantAccount) +
+    tlv(ID_MERCHANT_CATEGORY, '0000') +
+    tlv(ID_CURRENCY, CURRENCY_BRL) +
+    amount +
+    tlv(ID_COUNTRY, 'BR') +
+    tlv(ID_MERCHANT_NAME, sanitizeText(options.nome, MAX_NAME_LENGTH) || 'LOJA') +
+    tlv(ID_MERCHANT_CITY, sanitizeText(options.cidade, MAX_CITY_LENGTH) || 'BRASIL') +
+    tlv(ID_ADDITIONAL_DATA, tlv(ID_ADDITIONAL_TXID, sanitizeTxid(options.txid))) +
+    ID_CRC +
+    '04';
+
+  return payload + crc16(payload);
+};
+
+// Lê uma sequência de campos TLV e retorna um mapa ID -> valor
+const parseTlv = (data: string): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  let pos = 0;
+
+  while (pos < data.length) {
+    const id = data.substring(pos, pos + 2);
+    const length = Number(data.substring(pos + 2, pos + 4));
+
+    if (id.length < 2 || isNaN(length) || pos + 4 + length > data.length) {
+      throw new Error('Payload PIX malformado');
+    }
+
+    fields[id] = data.substring(pos + 4, pos + 4 + length);
+    pos += 4 + length;
+  }
+
+  return fields;
+};
+
+// Interpreta um código PIX "copia e cola" (não valida o CRC)
+export const parsePixPayload = (payload: string): PixPayloadData => {
+  const fields = parseTlv(payload);
+  const account = parseTlv(fields[ID_MERCHANT_ACCOUNT] || '');
+  const additional = parseTlv(fields[ID_ADDITIONAL_DATA] || '');
+  const txid = additional[ID_ADDITIONAL_TXID];
+
+  return {
+    chave: account[ID_MERCHANT_KEY] || '',
+    nome: fields[ID_MERCHANT_NAME] || '',
+    cidade: fields[ID_MERCHANT_CITY] || '',
+    valor: fields[ID_AMOUNT] ? Number(fields[ID_AMOUNT]) : undefined,
+    txid: txid && txid !== '***' ? txid : undefined,
+    descricao: account[ID_MERCHANT_DESCRIPTION],
+    crc: fields[ID_CRC] || '',
+  };
+};
+
+// Valida estrutura e checksum de um código PIX
+export const isValidPixPayload = (payload: string): boolean => {
+  if (!payload || payload.length < 8) return false;
+
+  const crcPosition = payload.length - 4;
+  if (payload.substring(crcPosition - 4, crcPosition) !== `${ID_CRC}04`) return false;
+  if (crc16(payload.substring(0, crcPosition)) !== payload.substring(crcPosition).toUpperCase()) return false;
+
+  try {
+    const fields = parseTlv(payload);
+    const account = parseTlv(fields[ID_MERCHANT_ACCOUNT] || '');
+
+    return (
+      fields[ID_PAYLOAD_FORMAT] === '01' &&
+      account[ID_MERCHANT_GUI]?.toLowerCase() === PIX_GUI &&
+      !!account[ID_MERCHANT_KEY] &&
+      fields[ID_CURRENCY] === CURRENCY_BRL &&
+      !!fields[ID_MERCHANT_NAME] &&
+      !!fields[ID_MERCHANT_CITY]
+    );
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,27 @@
+// Condições do produto, os mesmos valores do ENUM produtos.condicao (PRODUTO_CONDICOES em api/catalogo.php)
+
+export const CONDITIONS = [
+  { value: 'novo', label: 'Novo' },
+  { value: 'seminovo', label: 'Seminovo' },
+  { value: 'usado_excelente', label: 'Usado - Excelente' },
+  { value: 'usado_bom', label: 'Usado - Bom' },
+  { value: 'recondicionado', label: 'Recondicionado' },
+  { value: 'com_defeito', label: 'Com defeito' },
+];
+
+export const getCondicaoLabel = (condicao: string) =>
+  CONDITIONS.find((c) => c.value === condicao)?.label ?? condicao;
+
+// Faixas de saúde da bateria (formulário do produto e assistente de trade-in, api/tradein.php)
+export const BATTERY_HEALTH = [
+  { value: 'perfeita', label: 'Perfeita (95% até 100%)' },
+  { value: 'boa', label: 'Boa (80% até 94%)' },
+  { value: 'ok', label: 'OK (60% até 79%)' },
+  { value: 'ruim', label: 'Ruim (40% até 59%)' },
+  { value: 'muito_ruim', label: 'Muito Ruim (abaixo de 39%)' },
+] as const;
+
+export type SaudeBateria = (typeof BATTERY_HEALTH)[number]['value'];
+
+export const getSaudeBateriaLabel = (saude: string) =>
+  BATTERY_HEALTH.find((b) => b.value === saude)?.label ?? saude;
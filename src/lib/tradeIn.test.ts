@@ -0,0 +1,33 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { TRADEIN_PERMISSAO_ACIMA_COTACAO, validarValorFinalTradeIn } from './tradeIn';
+
+const fontePhp = readFileSync(new URL('../../api/tradein.php', import.meta.url), 'utf8');
+
+describe('validarValorFinalTradeIn', () => {
+  it('aceita até a cotação máxima', () => {
+    expect(validarValorFinalTradeIn(1200, 1500, false)).toBeNull();
+    expect(validarValorFinalTradeIn(1500, 1500, false)).toBeNull();
+  });
+
+  it('recusa um centavo acima da cotação sem a permissão', () => {
+    expect(validarValorFinalTradeIn(1500.01, 1500, false)).toMatch(/cotação máxima/);
+  });
+
+  it('libera acima da cotação para quem pode editar cupons', () => {
+    expect(TRADEIN_PERMISSAO_ACIMA_COTACAO).toBe('cupons.editar');
+    expect(validarValorFinalTradeIn(2000, 1500, true)).toBeNull();
+  });
+
+  it('compara em centavos', () => {
+    // 0,1 + 0,2 = 0,30000000000000004
+    expect(validarValorFinalTradeIn(0.1 + 0.2, 0.3, false)).toBeNull();
+  });
+});
+
+describe('paridade com api/tradein.php', () => {
+  it('usa a mesma permissão e a mesma mensagem', () => {
+    expect(fontePhp).toContain(`const TRADEIN_PERMISSAO_ACIMA_COTACAO = '${TRADEIN_PERMISSAO_ACIMA_COTACAO}';`);
+    expect(fontePhp).toContain(`return '${validarValorFinalTradeIn(2, 1, false)}';`);
+  });
+});
@@ -0,0 +1,72 @@
+// Trade-in: perguntas do assistente e etapas da avaliação
+// Os descontos de cada resposta e as transições valem no servidor (api/tradein.php)
+
+import { IPHONE_CAPACIDADES, IPHONE_MODELOS } from './iphoneSpecs';
+import type { Permissao } from './permissoes';
+
+export const TRADEIN_PERGUNTAS = [
+  { chave: 'liga', pergunta: 'O aparelho liga e funciona normalmente?' },
+  { chave: 'icloud', pergunta: 'O Buscar iPhone está desativado e o aparelho fora da conta iCloud?' },
+  { chave: 'tela', pergunta: 'A tela tem trincas, manchas ou falhas no toque?' },
+  { chave: 'carcaca', pergunta: 'A traseira ou as laterais têm trincas ou amassados?' },
+  { chave: 'biometria', pergunta: 'O Face ID ou o Touch ID funciona?' },
+  { chave: 'cameras', pergunta: 'Todas as câmeras funcionam?' },
+  { chave: 'reparo', pergunta: 'O aparelho já foi aberto ou teve peças trocadas fora da Apple?' },
+] as const;
+
+export type TradeInPergunta = (typeof TRADEIN_PERGUNTAS)[number]['chave'];
+
+export type TradeInRespostas = Record<TradeInPergunta, boolean>;
+
+export const TRADEIN_ETAPAS = ['pendente', 'em_analise', 'aceita', 'recusada'] as const;
+
+export type TradeInEtapa = (typeof TRADEIN_ETAPAS)[number];
+
+export const TRADEIN_ETAPA_CONFIG: Record<
+  TradeInEtapa,
+  { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }
+> = {
+  pendente: { label: 'Aguardando análise', variant: 'secondary' },
+  em_analise: { label: 'Em análise', variant: 'outline' },
+  aceita: { label: 'Aceita', variant: 'default' },
+  recusada: { label: 'Recusada', variant: 'destructive' },
+};
+
+// Aceita e recusada encerram a avaliação
+export const TRADEIN_TRANSICOES: Record<TradeInEtapa, TradeInEtapa[]> = {
+  pendente: ['em_analise', 'recusada'],
+  em_analise: ['aceita', 'recusada'],
+  aceita: [],
+  recusada: [],
+};
+
+// Crédito acima da cotação máxima: só quem já pode criar cupons à vontade
+export const TRADEIN_PERMISSAO_ACIMA_COTACAO: Permissao = 'cupons.editar';
+
+// Mensagem de erro do valor final ao aceitar, ou null se permitido
+// Mesma regra de validarValorFinalTradeIn (api/tradein.php), que vale no servidor
+export const validarValorFinalTradeIn = (valor: number, cotacaoMaxima: number, podeExceder: boolean) => {
+  if (Math.round(valor * 100) > Math.round(cotacaoMaxima * 100) && !podeExceder) {
+    return 'O valor final passa da cotação máxima; só quem pode editar cupons aprova um crédito acima dela';
+  }
+
+  return null;
+};
+
+export const getTradeInEtapaConfig = (etapa: string) =>
+  TRADEIN_ETAPA_CONFIG[etapa as TradeInEtapa] ?? { label: etapa, variant: 'outline' as const };
+
+export const getTradeInPerguntaLabel = (chave: string) =>
+  TRADEIN_PERGUNTAS.find((p) => p.chave === chave)?.pergunta ?? chave;
+
+// Ordem de exibição: modelos na ordem de iphoneSpecs, capacidades da menor para a maior
+const posicao = (lista: string[], valor: string) => {
+  const indice = lista.indexOf(valor);
+  return indice === -1 ? lista.length : indice;
+};
+
+export const compararModelos = (a: string, b: string) =>
+  posicao(IPHONE_MODELOS, a) - posicao(IPHONE_MODELOS, b) || a.localeCompare(b, 'pt-BR');
+
+export const compararCapacidades = (a: string, b: string) =>
+  posicao(IPHONE_CAPACIDADES, a) - posicao(IPHONE_CAPACIDADES, b) || a.localeCompare(b, 'pt-BR');
@@ -0,0 +1,60 @@
+// Unidades de aparelho: situações, grades e validação do IMEI
+// As mesmas regras valem no servidor (api/unidades.php)
+
+import { onlyDigits } from './endereco';
+
+export const UNIDADE_SITUACOES = ['em_estoque', 'reservado', 'vendido', 'em_reparo', 'devolvido'] as const;
+
+export type UnidadeSituacao = (typeof UNIDADE_SITUACOES)[number];
+
+export const UNIDADE_SITUACAO_CONFIG: Record<
+  UnidadeSituacao,
+  { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }
+> = {
+  em_estoque: { label: 'Em estoque', variant: 'default' },
+  reservado: { label: 'Reservado', variant: 'secondary' },
+  vendido: { label: 'Vendido', variant: 'outline' },
+  em_reparo: { label: 'Em reparo', variant: 'secondary' },
+  devolvido: { label: 'Devolvido', variant: 'destructive' },
+};
+
+// Mudanças feitas no painel; reservado e vendido vêm só do pedido
+export const UNIDADE_TRANSICOES: Record<UnidadeSituacao, UnidadeSituacao[]> = {
+  em_estoque: ['em_reparo'],
+  reservado: [],
+  vendido: ['devolvido'],
+  em_reparo: ['em_estoque'],
+  devolvido: ['em_estoque', 'em_reparo'],
+};
+
+export const UNIDADE_GRADES = [
+  { value: 'A', label: 'A - Sem marcas de uso' },
+  { value: 'B', label: 'B - Marcas leves' },
+  { value: 'C', label: 'C - Marcas visíveis' },
+] as const;
+
+export type UnidadeGrade = (typeof UNIDADE_GRADES)[number]['value'];
+
+export const getUnidadeSituacaoConfig = (situacao: string) =>
+  UNIDADE_SITUACAO_CONFIG[situacao as UnidadeSituacao] ?? { label: situacao, variant: 'outline' as const };
+
+// 15 dígitos com o último sendo o verificador de Luhn
+export const isValidImei = (imei: string) => {
+  const digits = onlyDigits(imei);
+  if (digits.length !== 15) return false;
+
+  const soma = digits.split('').reduce((total, char, i) => {
+    let digito = Number(char);
+    // Dobra um dígito sim, outro não, a partir do penúltimo
+    if (i % 2 === 1) {
+      digito *= 2;
+      if (digito > 9) digito -= 9;
+    }
+    return total + digito;
+  }, 0);
+
+  return soma % 10 === 0;
+};
+
+// Número de série: só letras e números, em maiúsculas
+export const normalizeNumeroSerie = (value: string) => value.replace(/[^a-z0-9]/gi, '').toUpperCase();
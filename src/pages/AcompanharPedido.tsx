@@ -6,10 +6,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
 import { 
   Package, 
   ArrowLeft, 
-  Clock, 
   CheckCircle, 
   Truck, 
   MapPin,
@@ -17,18 +17,20 @@ import {
   QrCode,
   Calendar,
   Mail,
-  Loader2
+  Loader2,
+  Barcode,
+  Search
 } from "lucide-react";
 import { fetchPedidoByNumero, Pedido } from "@/services/pedidosApi";
-
-const statusConfig: Record<string, { label: string; color: string; icon: React.ElementType }> = {
-  pendente: { label: "Pendente", color: "bg-yellow-100 text-yellow-800", icon: Clock },
-  pago: { label: "Pago", color: "bg-green-100 text-green-800", icon: CheckCircle },
-  preparando: { label: "Preparando", color: "bg-blue-100 text-blue-800", icon: Package },
-  enviado: { label: "Enviado", color: "bg-purple-100 text-purple-800", icon: Truck },
-  entregue: { label: "Entregue", color: "bg-green-100 text-green-800", icon: CheckCircle },
-  cancelado: { label: "Cancelado", color: "bg-red-100 text-red-800", icon: Clock },
-};
+import { usePagamentoStatus } from "@/hooks/usePagamentoStatus";
+import { getStatusConfig } from "@/lib/pedidoStatus";
+import { getFreteLabel } from "@/lib/frete";
+import { getBandeiraLabel } from "@/lib/cartao";
+import { formatVencimento } from "@/lib/boleto";
+import { getPedidoEmail, savePedidoEmail } from "@/lib/pedidoAcesso";
+import { isValidEmail, normalizeEmail } from "@/lib/cliente";
+import PedidoTimeline from "@/components/PedidoTimeline";
+import VariacaoInfo from "@/components/VariacaoInfo";
 
 const allSteps = [
   { key: "pago", label: "Pagamento Aprovado", icon: CheckCircle },
@@ -41,15 +43,30 @@ const AcompanharPedido = () => {
   const { orderNumber } = useParams<{ orderNumber: string }>();
   const [order, setOrder] = useState<Pedido | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // O pedido só é exibido com o email da compra
+  const [email, setEmail] = useState<string | null>(() => (orderNumber ? getPedidoEmail(orderNumber) : null));
+  const [emailInput, setEmailInput] = useState("");
+  const [emailNaoConfere, setEmailNaoConfere] = useState(false);
 
   useEffect(() => {
     const loadOrder = async () => {
       if (!orderNumber) return;
+
+      if (!email) {
+        setOrder(null);
+        setIsLoading(false);
+        return;
+      }
       
       setIsLoading(true);
       try {
-        const pedido = await fetchPedidoByNumero(orderNumber);
+        const pedido = await fetchPedidoByNumero(orderNumber, email);
         setOrder(pedido);
+        if (pedido) {
+          savePedidoEmail(orderNumber, email);
+        } else {
+          setEmailNaoConfere(true);
+        }
       } catch (error) {
         console.error("Erro ao buscar pedido:", error);
         setOrder(null);
@@ -59,7 +76,29 @@ const AcompanharPedido = () => {
     };
 
     loadOrder();
-  }, [orderNumber]);
+  }, [orderNumber, email]);
+
+  const handleConfirmEmail = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidEmail(emailInput)) return;
+    setEmailNaoConfere(false);
+    setEmail(normalizeEmail(emailInput));
+  };
+
+  // Enquanto aguarda pagamento, acompanha a confirmação enviada pelo provedor
+  const { data: pagamentoStatus } = usePagamentoStatus(
+    order?.status === "aguardando_pagamento" ? order.numero : null,
+    order?.email_cliente ?? null
+  );
+
+  // Recarrega o pedido quando o status muda para trazer o histórico atualizado
+  useEffect(() => {
+    if (pagamentoStatus && order && pagamentoStatus.status !== order.status) {
+      fetchPedidoByNumero(order.numero, order.email_cliente)
+        .then((pedido) => pedido && setOrder(pedido))
+        .catch((error) => console.error("Erro ao atualizar pedido:", error));
+    }
+  }, [pagamentoStatus, order]);
 
   const formatPrice = (price: number) => {
     return Number(price).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
@@ -69,11 +108,26 @@ const AcompanharPedido = () => {
     return new Date(dateString).toLocaleDateString("pt-BR");
   };
 
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString("pt-BR", {
+      day: "2-digit",
+      month: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
   const getCurrentStepIndex = () => {
     if (!order) return -1;
     return allSteps.findIndex(step => step.key === order.status);
   };
 
+  // Data em que o pedido chegou a cada etapa
+  const getStepDate = (stepKey: string) => {
+    const evento = order?.historico?.find((h) => h.status_novo === stepKey);
+    return evento ? formatDateTime(evento.created_at) : null;
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background">
@@ -93,11 +147,27 @@ const AcompanharPedido = () => {
         <Header />
         <main className="container py-16 text-center">
           <Package className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
-          <h1 className="text-2xl font-bold mb-2">Pedido não encontrado</h1>
+          <h1 className="text-2xl font-bold mb-2">
+            {emailNaoConfere ? "Pedido não encontrado" : `Pedido #${orderNumber}`}
+          </h1>
           <p className="text-muted-foreground mb-6">
-            Não foi possível encontrar o pedido #{orderNumber}
+            {emailNaoConfere
+              ? `Não encontramos o pedido #${orderNumber} com o email informado.`
+              : "Informe o email usado na compra para ver o pedido."}
           </p>
-          <Button asChild>
+          <form onSubmit={handleConfirmEmail} className="max-w-sm mx-auto flex gap-2 mb-6">
+            <Input
+              type="email"
+              placeholder="Email usado na compra"
+              value={emailInput}
+              onChange={(e) => setEmailInput(e.target.value)}
+            />
+            <Button type="submit" disabled={!isValidEmail(emailInput)}>
+              <Search className="w-4 h-4 mr-2" />
+              Ver
+            </Button>
+          </form>
+          <Button variant="outline" asChild>
             <Link to="/meus-pedidos">Ver Meus Pedidos</Link>
           </Button>
         </main>
@@ -106,7 +176,7 @@ const AcompanharPedido = () => {
     );
   }
 
-  const status = statusConfig[order.status] || statusConfig.pendente;
+  const status = getStatusConfig(order.status);
   const currentStepIndex = getCurrentStepIndex();
 
   return (
@@ -155,6 +225,7 @@ const AcompanharPedido = () => {
                       const isCompleted = index <= currentStepIndex;
                       const isCurrent = index === currentStepIndex;
                       const StepIcon = step.icon;
+                      const stepDate = getStepDate(step.key);
                       
                       return (
                         <div key={step.key} className="relative flex items-start gap-4">
@@ -171,6 +242,9 @@ const AcompanharPedido = () => {
                             <p className={`font-medium ${isCompleted ? "" : "text-muted-foreground"}`}>
                               {step.label}
                             </p>
+                            {stepDate && (
+                              <p className="text-xs text-muted-foreground">{stepDate}</p>
+                            )}
                           </div>
                         </div>
                       );
@@ -187,6 +261,16 @@ const AcompanharPedido = () => {
               </CardContent>
             </Card>
 
+            {/* Status History */}
+            <Card>
+              <CardHeader className="p-4 md:p-6 pb-0">
+                <CardTitle className="text-lg">Histórico</CardTitle>
+              </CardHeader>
+              <CardContent className="p-4 md:p-6">
+                <PedidoTimeline historico={order.historico || []} />
+              </CardContent>
+            </Card>
+
             {/* Order Items */}
             <Card>
               <CardHeader className="p-4 md:p-6 pb-0">
@@ -211,6 +295,12 @@ const AcompanharPedido = () => {
                       </div>
                       <div className="flex-1 min-w-0">
                         <p className="font-medium">{item.nome}</p>
+                        <VariacaoInfo
+                          cor={item.variacao_cor}
+                          corCodigo={item.variacao_cor_codigo}
+                          capacidade={item.variacao_capacidade}
+                          className="text-sm"
+                        />
                         <p className="text-sm text-muted-foreground">
                           Quantidade: {item.quantidade}
                         </p>
@@ -250,6 +340,8 @@ const AcompanharPedido = () => {
                 <div className="flex items-center gap-3">
                   {order.forma_pagamento === "pix" ? (
                     <QrCode className="w-5 h-5 text-muted-foreground" />
+                  ) : order.forma_pagamento === "boleto" ? (
+                    <Barcode className="w-5 h-5 text-muted-foreground" />
                   ) : (
                     <CreditCard className="w-5 h-5 text-muted-foreground" />
                   )}
@@ -260,8 +352,32 @@ const AcompanharPedido = () => {
                        order.forma_pagamento === "cartao" ? "Cartão de Crédito" : 
                        "Boleto"}
                     </p>
+                    {order.forma_pagamento === "cartao" && (order.cartao_final || Number(order.parcelas) > 1) && (
+                      <p className="text-xs text-muted-foreground">
+                        {order.cartao_final && `${getBandeiraLabel(order.cartao_bandeira)} final ${order.cartao_final}`}
+                        {order.cartao_final && Number(order.parcelas) > 1 && " · "}
+                        {Number(order.parcelas) > 1 && `${order.parcelas}x de ${formatPrice(Number(order.valor_parcela))}`}
+                      </p>
+                    )}
                   </div>
                 </div>
+                {order.forma_pagamento === "boleto" &&
+                  order.status === "aguardando_pagamento" &&
+                  pagamentoStatus?.pagamento?.linha_digitavel && (
+                    <div className="p-3 bg-muted/50 rounded-lg space-y-2">
+                      {pagamentoStatus.pagamento.vencimento && (
+                        <p className="text-sm">
+                          Vencimento: <strong>{formatVencimento(pagamentoStatus.pagamento.vencimento)}</strong>
+                        </p>
+                      )}
+                      <p className="font-mono text-xs break-all">{pagamentoStatus.pagamento.linha_digitavel}</p>
+                      <Link to={`/pedido/${order.numero}/boleto`}>
+                        <Button variant="outline" size="sm" className="w-full">
+                          Ver / imprimir boleto
+                        </Button>
+                      </Link>
+                    </div>
+                  )}
               </CardContent>
             </Card>
 
@@ -276,17 +392,25 @@ const AcompanharPedido = () => {
                   <span>{formatPrice(order.subtotal)}</span>
                 </div>
                 <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Frete</span>
+                  <span className="text-muted-foreground">
+                    Frete{order.frete_servico && ` (${getFreteLabel(order.frete_servico)})`}
+                  </span>
                   <span className="text-green-600">
                     {Number(order.frete) === 0 ? "Grátis" : formatPrice(order.frete)}
                   </span>
                 </div>
                 {Number(order.desconto) > 0 && (
                   <div className="flex justify-between text-sm text-green-600">
-                    <span>Desconto</span>
+                    <span>Desconto{order.cupom_codigo ? ` (cupom ${order.cupom_codigo})` : ""}</span>
                     <span>-{formatPrice(order.desconto)}</span>
                   </div>
                 )}
+                {Number(order.juros) > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Juros ({order.parcelas}x)</span>
+                    <span>{formatPrice(Number(order.juros))}</span>
+                  </div>
+                )}
                 <Separator />
                 <div className="flex justify-between font-bold text-lg">
                   <span>Total</span>
@@ -0,0 +1,410 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, CheckCircle, Loader2, Smartphone, XCircle } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { BATTERY_HEALTH, SaudeBateria } from "@/lib/produtoCondicao";
+import {
+  TRADEIN_PERGUNTAS,
+  TradeInRespostas,
+  compararCapacidades,
+  compararModelos,
+} from "@/lib/tradeIn";
+import { formatTelefone, isValidEmail, isValidTelefone } from "@/lib/cliente";
+import {
+  cotarTradeIn,
+  enviarTradeIn,
+  fetchTradeInModelos,
+  TradeInAparelho,
+  TradeInCotacao,
+  TradeInRecusadoError,
+} from "@/services/tradeInApi";
+
+const PASSOS = ["Aparelho", "Bateria", "Condição", "Cotação"];
+
+const formatPrice = (price: number) =>
+  price.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+/**
+ * Assistente "Quanto vale o meu iPhone?"
+ * Modelo e capacidade, saúde da bateria e condição levam à faixa de valor
+ * calculada no servidor; o envio entra na fila de avaliação da loja
+ */
+const AvaliarIphone = () => {
+  const { user } = useAuth();
+  const [passo, setPasso] = useState(0);
+  const [modelo, setModelo] = useState("");
+  const [capacidade, setCapacidade] = useState("");
+  const [bateria, setBateria] = useState<SaudeBateria | "">("");
+  const [respostas, setRespostas] = useState<Partial<TradeInRespostas>>({});
+  const [cotacao, setCotacao] = useState<TradeInCotacao | null>(null);
+  const [recusa, setRecusa] = useState<string | null>(null);
+  const [contato, setContato] = useState({ nome: "", email: "", telefone: "" });
+  const [erro, setErro] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [numero, setNumero] = useState<string | null>(null);
+
+  const { data: tabela = [], isLoading: isLoadingModelos, isError } = useQuery({
+    queryKey: ["tradein-modelos"],
+    queryFn: fetchTradeInModelos,
+  });
+
+  const modelos = [...new Set(tabela.map((item) => item.modelo))].sort(compararModelos);
+  const capacidades = tabela
+    .filter((item) => item.modelo === modelo)
+    .map((item) => item.capacidade)
+    .sort(compararCapacidades);
+
+  // Cliente logado já chega com os dados de contato preenchidos
+  useEffect(() => {
+    if (!user) return;
+    setContato((atual) => ({
+      nome: atual.nome || user.nome,
+      email: atual.email || user.email,
+      telefone: atual.telefone || formatTelefone(user.telefone ?? ""),
+    }));
+  }, [user]);
+
+  const todasRespondidas = TRADEIN_PERGUNTAS.every((p) => respostas[p.chave] !== undefined);
+
+  const podeAvancar = [modelo !== "" && capacidade !== "", bateria !== "", todasRespondidas][passo] ?? false;
+
+  const aparelho = (): TradeInAparelho => ({
+    modelo,
+    capacidade,
+    saude_bateria: bateria as SaudeBateria,
+    respostas: respostas as TradeInRespostas,
+  });
+
+  const voltar = () => {
+    setErro(null);
+    setRecusa(null);
+    setCotacao(null);
+    setPasso((p) => p - 1);
+  };
+
+  const avancar = async () => {
+    setErro(null);
+    if (passo < 2) {
+      setPasso((p) => p + 1);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setCotacao(await cotarTradeIn(aparelho()));
+      setRecusa(null);
+    } catch (error) {
+      if (error instanceof TradeInRecusadoError) {
+        setRecusa(error.message);
+      } else {
+        setErro(error instanceof Error ? error.message : "Erro ao calcular a cotação");
+        return;
+      }
+    } finally {
+      setIsLoading(false);
+    }
+    setPasso(3);
+  };
+
+  const handleEnviar = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!contato.nome.trim()) {
+      setErro("Informe seu nome");
+      return;
+    }
+    if (!isValidEmail(contato.email)) {
+      setErro("Email inválido");
+      return;
+    }
+    if (!isValidTelefone(contato.telefone)) {
+      setErro("Telefone inválido");
+      return;
+    }
+
+    setErro(null);
+    setIsLoading(true);
+    try {
+      const resultado = await enviarTradeIn({ ...aparelho(), ...contato });
+      setCotacao(resultado);
+      setNumero(resultado.numero);
+    } catch (error) {
+      setErro(error instanceof Error ? error.message : "Erro ao enviar a avaliação");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderPasso = () => {
+    if (passo === 0) {
+      if (isLoadingModelos) {
+        return (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        );
+      }
+      if (isError || modelos.length === 0) {
+        return (
+          <p className="text-center text-muted-foreground py-8">
+            A avaliação online está indisponível no momento. Fale com a loja para avaliar seu iPhone.
+          </p>
+        );
+      }
+      return (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Modelo</Label>
+            <Select
+              value={modelo}
+              onValueChange={(valor) => {
+                setModelo(valor);
+                setCapacidade("");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Escolha o modelo" />
+              </SelectTrigger>
+              <SelectContent>
+                {modelos.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {item}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Capacidade</Label>
+            <Select value={capacidade} onValueChange={setCapacidade} disabled={!modelo}>
+              <SelectTrigger>
+                <SelectValue placeholder="Escolha a capacidade" />
+              </SelectTrigger>
+              <SelectContent>
+                {capacidades.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {item}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Não encontrou seu modelo? Ainda não o avaliamos pelo site; fale com a loja.
+          </p>
+        </div>
+      );
+    }
+
+    if (passo === 1) {
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Veja em Ajustes &gt; Bateria &gt; Saúde e Carregamento da Bateria.
+          </p>
+          <RadioGroup value={bateria} onValueChange={(valor) => setBateria(valor as SaudeBateria)} className="space-y-2">
+            {BATTERY_HEALTH.map((item) => (
+              <div key={item.value} className="flex items-center space-x-3 p-3 border rounded-lg hover:bg-muted/50">
+                <RadioGroupItem value={item.value} id={`bateria-${item.value}`} />
+                <Label htmlFor={`bateria-${item.value}`} className="cursor-pointer flex-1">
+                  {item.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+      );
+    }
+
+    if (passo === 2) {
+      return (
+        <div className="space-y-4">
+          {TRADEIN_PERGUNTAS.map((item) => {
+            const valor = respostas[item.chave];
+            return (
+              <div key={item.chave} className="space-y-2">
+                <p className="text-sm font-medium">{item.pergunta}</p>
+                <RadioGroup
+                  value={valor === undefined ? "" : valor ? "sim" : "nao"}
+                  onValueChange={(resposta) => setRespostas((atual) => ({ ...atual, [item.chave]: resposta === "sim" }))}
+                  className="flex gap-6"
+                >
+                  {(["sim", "nao"] as const).map((opcao) => (
+                    <div key={opcao} className="flex items-center space-x-2">
+                      <RadioGroupItem value={opcao} id={`${item.chave}-${opcao}`} />
+                      <Label htmlFor={`${item.chave}-${opcao}`} className="cursor-pointer">
+                        {opcao === "sim" ? "Sim" : "Não"}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+            );
+          })}
+        </div>
+      );
+    }
+
+    if (recusa) {
+      return (
+        <div className="text-center space-y-3 py-4">
+          <XCircle className="w-12 h-12 mx-auto text-destructive" />
+          <p className="font-medium">Não conseguimos avaliar este aparelho</p>
+          <p className="text-sm text-muted-foreground">{recusa}</p>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleEnviar} className="space-y-4">
+        {cotacao && (
+          <div className="rounded-lg bg-secondary p-4 text-center">
+            <p className="text-sm text-muted-foreground">
+              {modelo} {capacidade} vale de
+            </p>
+            <p className="text-2xl font-bold">
+              {formatPrice(cotacao.cotacao_minima)} a {formatPrice(cotacao.cotacao_maxima)}
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Em crédito para usar na loja. O valor final é confirmado depois da análise do aparelho.
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="tradein-nome">Nome*</Label>
+          <Input
+            id="tradein-nome"
+            value={contato.nome}
+            onChange={(e) => setContato((atual) => ({ ...atual, nome: e.target.value }))}
+            disabled={isLoading}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tradein-email">Email*</Label>
+          <Input
+            id="tradein-email"
+            type="email"
+            value={contato.email}
+            onChange={(e) => setContato((atual) => ({ ...atual, email: e.target.value }))}
+            disabled={isLoading}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tradein-telefone">Telefone*</Label>
+          <Input
+            id="tradein-telefone"
+            inputMode="tel"
+            placeholder="(00) 00000-0000"
+            value={contato.telefone}
+            onChange={(e) => setContato((atual) => ({ ...atual, telefone: formatTelefone(e.target.value) }))}
+            disabled={isLoading}
+          />
+        </div>
+
+        {erro && <p className="text-sm text-destructive">{erro}</p>}
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Enviar para avaliação
+        </Button>
+      </form>
+    );
+  };
+
+  const renderConteudo = () => {
+    if (numero && cotacao) {
+      return (
+        <div className="text-center space-y-4">
+          <CheckCircle className="w-12 h-12 mx-auto text-green-600" />
+          <h1 className="text-2xl font-bold">Avaliação enviada</h1>
+          <p className="text-muted-foreground">
+            Seu pedido de avaliação é o <span className="font-mono font-medium text-foreground">{numero}</span>.
+            Enviamos a cotação de {formatPrice(cotacao.cotacao_minima)} a {formatPrice(cotacao.cotacao_maxima)} para{" "}
+            {contato.email} e vamos entrar em contato para combinar a análise do aparelho.
+          </p>
+          <p className="text-sm text-muted-foreground">
+            Aceito o aparelho, o valor vira crédito: um cupom para usar no seu próximo pedido.
+          </p>
+          <Button asChild>
+            <Link to="/">Ver seminovos</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <div className="text-center">
+          <Smartphone className="w-10 h-10 mx-auto text-primary mb-3" />
+          <h1 className="text-2xl font-bold">Quanto vale o meu iPhone?</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Responda algumas perguntas e veja quanto seu iPhone vale em crédito na loja.
+          </p>
+        </div>
+
+        <ol className="flex justify-between text-xs">
+          {PASSOS.map((nome, indice) => (
+            <li
+              key={nome}
+              className={indice === passo ? "font-semibold text-foreground" : "text-muted-foreground"}
+              aria-current={indice === passo ? "step" : undefined}
+            >
+              {indice + 1}. {nome}
+            </li>
+          ))}
+        </ol>
+
+        {renderPasso()}
+
+        {passo < 3 && erro && <p className="text-sm text-destructive">{erro}</p>}
+
+        <div className="flex justify-between gap-3">
+          {passo > 0 ? (
+            <Button variant="outline" onClick={voltar} disabled={isLoading}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Voltar
+            </Button>
+          ) : (
+            <span />
+          )}
+          {passo < 3 && (
+            <Button onClick={avancar} disabled={!podeAvancar || isLoading}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {passo === 2 ? "Ver cotação" : "Continuar"}
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container py-12">
+        <Card className="max-w-lg mx-auto">
+          <CardContent className="pt-8 pb-8">{renderConteudo()}</CardContent>
+        </Card>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default AvaliarIphone;
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { useParams, Link } from "react-router-dom";
+import { ArrowLeft, Copy, Loader2, Printer } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import BoletoBarcode from "@/components/BoletoBarcode";
+import { fetchPedidoByNumero, Pedido } from "@/services/pedidosApi";
+import { usePagamentoStatus } from "@/hooks/usePagamentoStatus";
+import { useConfiguracoes } from "@/hooks/useConfiguracoes";
+import { formatVencimento, linhaDigitavelNumeros } from "@/lib/boleto";
+import { getPedidoEmail } from "@/lib/pedidoAcesso";
+
+const formatPrice = (price: number) =>
+  Number(price).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+// Boleto para impressão (ou "Salvar como PDF" no navegador)
+const Boleto = () => {
+  const { orderNumber } = useParams<{ orderNumber: string }>();
+  const { data: config } = useConfiguracoes();
+  const [order, setOrder] = useState<Pedido | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const { data: pagamentoStatus, isLoading: isLoadingPagamento } = usePagamentoStatus(
+    orderNumber ?? null,
+    orderNumber ? getPedidoEmail(orderNumber) : null
+  );
+
+  useEffect(() => {
+    if (!orderNumber) return;
+
+    // Sem o email da compra, o acompanhamento do pedido pede para confirmá-lo
+    const email = getPedidoEmail(orderNumber);
+    if (!email) {
+      setIsLoading(false);
+      return;
+    }
+
+    fetchPedidoByNumero(orderNumber, email)
+      .then(setOrder)
+      .catch((error) => {
+        console.error("Erro ao buscar pedido:", error);
+        setOrder(null);
+      })
+      .finally(() => setIsLoading(false));
+  }, [orderNumber]);
+
+  const pagamento = pagamentoStatus?.pagamento;
+
+  if (isLoading || isLoadingPagamento) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-10 h-10 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!order || order.forma_pagamento !== "boleto" || !pagamento?.codigo_barras || !pagamento.linha_digitavel) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 p-4 text-center">
+        <p className="text-muted-foreground">Boleto não encontrado para este pedido.</p>
+        <Link to={orderNumber ? `/pedido/${orderNumber}` : "/"}>
+          <Button variant="outline">Voltar</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const pago = pagamentoStatus?.status !== "aguardando_pagamento";
+  const vencimento = pagamento.vencimento ? formatVencimento(pagamento.vencimento) : "-";
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(linhaDigitavelNumeros(pagamento.linha_digitavel as string));
+    toast.success("Linha digitável copiada!");
+  };
+
+  const campo = (rotulo: string, valor: React.ReactNode, className = "") => (
+    <div className={`border-l border-black px-2 py-1 ${className}`}>
+      <p className="text-[10px] uppercase text-neutral-600">{rotulo}</p>
+      <p className="text-sm font-medium">{valor}</p>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-neutral-100 print:bg-white py-6 print:py-0">
+      <div className="max-w-3xl mx-auto px-4 print:px-0 space-y-4">
+        <div className="flex items-center justify-between print:hidden">
+          <Link to={`/pedido/${order.numero}`} className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="w-4 h-4" />
+            Voltar ao pedido
+          </Link>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleCopy}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copiar linha
+            </Button>
+            <Button size="sm" onClick={() => window.print()} disabled={pago}>
+              <Printer className="w-4 h-4 mr-2" />
+              Imprimir / PDF
+            </Button>
+          </div>
+        </div>
+
+        {pago && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800 print:hidden">
+            {pagamentoStatus?.status === "cancelado"
+              ? "Este pedido foi cancelado e o boleto não deve ser pago."
+              : "Pagamento já identificado. Não é necessário pagar este boleto."}
+          </div>
+        )}
+
+        <div className="bg-white text-black border border-black font-sans">
+          {/* Cabeçalho: banco e linha digitável */}
+          <div className="flex items-stretch border-b-2 border-black">
+            <div className="px-3 py-2 font-bold text-lg border-r-2 border-black">{config.boleto_banco}-9</div>
+            <div className="flex-1 px-3 py-2 text-right font-mono text-sm md:text-base tracking-wide">
+              {pagamento.linha_digitavel}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 border-b border-black">
+            {campo("Local de pagamento", "Pagável em qualquer banco até o vencimento", "col-span-3 border-l-0")}
+            {campo("Vencimento", vencimento)}
+          </div>
+          <div className="grid grid-cols-4 border-b border-black">
+            {campo(
+              "Beneficiário",
+              <>
+                {config.loja_nome}
+                {config.boleto_beneficiario_documento && ` - CNPJ ${config.boleto_beneficiario_documento}`}
+              </>,
+              "col-span-3 border-l-0"
+            )}
+            {campo("Nosso número", pagamento.nosso_numero ?? "-")}
+          </div>
+          <div className="grid grid-cols-4 border-b border-black">
+            {campo("Data do documento", new Date(order.created_at).toLocaleDateString("pt-BR"), "border-l-0")}
+            {campo("Nº do documento", order.numero)}
+            {campo("Espécie", "R$")}
+            {campo("Valor do documento", formatPrice(pagamento.valor))}
+          </div>
+          <div className="grid grid-cols-4 border-b border-black">
+            {campo("Instruções", config.boleto_instrucoes || "-", "col-span-3 border-l-0 min-h-[64px]")}
+            {campo("(=) Valor cobrado", formatPrice(pagamento.valor))}
+          </div>
+          <div className="border-b border-black">
+            {campo(
+              "Pagador",
+              <>
+                {order.nome_cliente}
+                {order.cpf_cliente && ` - CPF ${order.cpf_cliente}`}
+                <br />
+                <span className="font-normal text-xs">
+                  {order.endereco_logradouro}, {order.endereco_numero}
+                  {order.endereco_complemento && ` - ${order.endereco_complemento}`} - {order.endereco_bairro},{" "}
+                  {order.endereco_cidade}/{order.endereco_estado} - CEP {order.endereco_cep}
+                </span>
+              </>,
+              "border-l-0"
+            )}
+          </div>
+
+          <div className="px-3 py-4">
+            <BoletoBarcode codigo={pagamento.codigo_barras} className="w-full max-w-[420px] h-[50px]" />
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground text-center print:hidden">
+          Pedido #{order.numero} · o pagamento é confirmado automaticamente após a compensação bancária,
+          que pode levar até 3 dias úteis.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default Boleto;
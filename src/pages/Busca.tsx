@@ -7,7 +7,9 @@ import { Star, SlidersHorizontal, Loader2, X, ChevronDown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { useApiProducts } from "@/hooks/useApiProducts";
+import { useParcelamento } from "@/hooks/useParcelamento";
 import { encodeProductId } from "@/lib/productHash";
+import { getImageProps } from "@/lib/imagens";
 
 // Faixas de preço
 const PRICE_RANGES = [
@@ -254,6 +256,7 @@ const Busca = () => {
   const [searchParams] = useSearchParams();
   const query = searchParams.get("q") || "";
   const categoria = searchParams.get("categoria") || "";
+  const { melhorPlanoSemJuros } = useParcelamento();
   const [isFilterOpen, setIsFilterOpen] = useState(false);
   const [filters, setFilters] = useState<FilterState>({
     models: [],
@@ -620,7 +623,7 @@ const Busca = () => {
                     {/* Image */}
                     <div className="aspect-square p-4 bg-secondary/30 relative overflow-hidden">
                       <img
-                        src={product.images[0]}
+                        {...getImageProps(product.images[0], "card")}
                         alt={product.name}
                         className="w-full h-full object-contain group-hover:scale-105 transition-transform"
                       />
@@ -664,7 +667,8 @@ const Busca = () => {
                           {formatPrice(product.price)}
                         </p>
                         <p className="text-xs text-muted-foreground">
-                          ou {product.installments}x de {formatPrice(product.price / product.installments)}
+                          ou {melhorPlanoSemJuros(product.price).parcelas}x de{" "}
+                          {formatPrice(melhorPlanoSemJuros(product.price).valor_parcela)} sem juros
                         </p>
                       </div>
                     </div>
@@ -1,17 +1,39 @@
-import { useState } from "react";
-import { Link, useNavigate } from "react-router-dom";
-import { Trash2, Plus, Minus, ShoppingBag } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { Trash2, Plus, Minus, ShoppingBag, Loader2, AlertTriangle, RefreshCw } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import WhatsAppButton from "@/components/WhatsAppButton";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { useCart } from "@/hooks/useCart";
+import { useAuth } from "@/hooks/useAuth";
+import { useCart, CartItem, getCartLineKey, getCartItemStale, isCartItemStale } from "@/hooks/useCart";
+import { EstoqueInsuficienteItem } from "@/services/pedidosApi";
+import { calcularPrecos, CupomInvalidoError } from "@/services/precosApi";
+import { useCotacaoFrete } from "@/hooks/useFrete";
+import { usePrecosCarrinho } from "@/hooks/usePrecos";
+import { useParcelamento } from "@/hooks/useParcelamento";
+import { getSavedCep, saveCep, getSavedFreteServico, saveFreteServico } from "@/lib/frete";
+import { formatCep, isValidCep } from "@/lib/endereco";
+import { getSavedCupom, saveCupom, clearSavedCupom } from "@/lib/cupom";
+import { toast } from "sonner";
+import FreteOpcoes from "@/components/FreteOpcoes";
+import VariacaoInfo from "@/components/VariacaoInfo";
+import CupomField from "@/components/CupomField";
 
 const Carrinho = () => {
   const navigate = useNavigate();
-  const { cartItems, updateQuantity, removeFromCart, getTotal } = useCart();
-  const [coupon, setCoupon] = useState("");
+  const location = useLocation();
+  const { cartItems, updateQuantity, removeFromCart, acceptCurrentPrice, getTotal } = useCart();
+  // Itens recusados pelo servidor ao criar o pedido (ver PaymentModal)
+  const estoqueInsuficiente: EstoqueInsuficienteItem[] =
+    (location.state as { estoqueInsuficiente?: EstoqueInsuficienteItem[] } | null)?.estoqueInsuficiente || [];
+  const { user } = useAuth();
+  const { melhorPlanoSemJuros } = useParcelamento();
+  const [cupomCodigo, setCupomCodigo] = useState<string | null>(() => getSavedCupom());
+  const [cep, setCep] = useState(() => formatCep(getSavedCep()));
+  const [shippingCep, setShippingCep] = useState<string | null>(() => (isValidCep(getSavedCep()) ? getSavedCep() : null));
+  const [freteServico, setFreteServico] = useState<string | null>(() => getSavedFreteServico());
 
   const formatPrice = (price: number) => {
     return price.toLocaleString("pt-BR", {
@@ -21,8 +43,102 @@ const Carrinho = () => {
   };
 
   const subtotal = getTotal();
-  const shipping = subtotal > 299 ? 0 : 29.90;
-  const total = subtotal + shipping;
+
+  const freteItens = useMemo(
+    () => cartItems.map((item) => ({ produto_id: item.id, quantidade: item.quantity })),
+    [cartItems]
+  );
+  const {
+    data: cotacaoFrete,
+    isFetching: isCalculatingShipping,
+    error: freteError,
+  } = useCotacaoFrete(shippingCep, freteItens, subtotal);
+
+  // Mantém o serviço escolhido se ainda estiver disponível; senão, o mais barato
+  const freteOpcao =
+    cotacaoFrete?.opcoes.find((o) => o.servico === freteServico) || cotacaoFrete?.opcoes[0] || null;
+  const shipping = freteOpcao ? freteOpcao.preco : null;
+
+  // Desconto do cupom calculado pelo servidor (itens elegíveis, mínimo e limites)
+  const cupomPrecosData = useMemo(
+    () => ({
+      itens: cartItems.map((item) => ({
+        produto_id: item.id,
+        variacao_id: item.variationId,
+        cor: item.color || undefined,
+        capacidade: item.capacity || undefined,
+        quantidade: item.quantity,
+      })),
+      cep: freteOpcao && shippingCep ? shippingCep : undefined,
+      frete_servico: freteOpcao?.servico,
+      email: user?.email,
+    }),
+    [cartItems, freteOpcao, shippingCep, user]
+  );
+  const { data: precosCupom, error: cupomError } = usePrecosCarrinho(
+    { ...cupomPrecosData, cupom: cupomCodigo ?? undefined },
+    !!cupomCodigo
+  );
+  const descontoCupom = cupomCodigo && precosCupom?.cupom ? precosCupom.desconto_cupom : 0;
+  const total = subtotal + (shipping ?? 0) - descontoCupom;
+  const planoDestaque = melhorPlanoSemJuros(total);
+
+  // Cupom que deixou de valer (carrinho abaixo do mínimo, expirado, esgotado)
+  useEffect(() => {
+    if (cupomError instanceof CupomInvalidoError) {
+      toast.error(`Cupom removido: ${cupomError.message}`, { id: "cupom-invalido" });
+      clearSavedCupom();
+      setCupomCodigo(null);
+    }
+  }, [cupomError]);
+
+  const handleApplyCupom = async (codigo: string) => {
+    await calcularPrecos({ ...cupomPrecosData, cupom: codigo });
+    saveCupom(codigo);
+    setCupomCodigo(codigo);
+  };
+
+  const handleRemoveCupom = () => {
+    clearSavedCupom();
+    setCupomCodigo(null);
+  };
+
+  useEffect(() => {
+    if (freteOpcao && freteOpcao.servico !== freteServico) {
+      setFreteServico(freteOpcao.servico);
+    }
+  }, [freteOpcao, freteServico]);
+
+  const handleCalculateShipping = () => {
+    if (!isValidCep(cep)) {
+      toast.error("Digite um CEP válido");
+      return;
+    }
+
+    saveCep(cep);
+    setShippingCep(cep);
+  };
+
+  const handleSelectFrete = (servico: string) => {
+    setFreteServico(servico);
+    saveFreteServico(servico);
+  };
+
+  const getEstoqueProblema = (item: CartItem) => {
+    const problema = estoqueInsuficiente.find(
+      (p) =>
+        p.produto_id === item.id &&
+        (p.variacao_id && item.variationId
+          ? p.variacao_id === item.variationId
+          : (p.cor || "") === (item.color || "") && (p.capacidade || "") === (item.capacity || ""))
+    );
+    // Some assim que a quantidade da linha couber no estoque disponível
+    return problema && item.quantity > problema.disponivel ? problema : null;
+  };
+
+  const hasEstoqueProblema = cartItems.some((item) => getEstoqueProblema(item) !== null);
+  // Itens do carrinho salvo cujo preço ou estoque mudaram desde que foram adicionados
+  const hasItemDesatualizado = cartItems.some(isCartItemStale);
 
   if (cartItems.length === 0) {
     return (
@@ -65,57 +181,99 @@ const Carrinho = () => {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-8">
           {/* Cart Items */}
           <div className="lg:col-span-2 space-y-3 md:space-y-4">
-            {cartItems.map((item) => (
-              <div
-                key={item.id}
-                className="flex gap-3 md:gap-4 p-3 md:p-4 bg-card rounded-lg border border-border"
-              >
-                <img
-                  src={item.image}
-                  alt={item.name}
-                  className="w-20 h-20 md:w-24 md:h-24 object-cover rounded-lg shrink-0"
-                />
-                <div className="flex-1 min-w-0">
-                  <Link
-                    to={`/produto/${item.id}`}
-                    className="font-medium text-sm md:text-base text-foreground hover:text-primary line-clamp-2"
-                  >
-                    {item.name}
-                  </Link>
-                  {item.color && (
-                    <p className="text-xs md:text-sm text-muted-foreground mt-1">
-                      {item.color} {item.capacity && `- ${item.capacity}`}
+            {cartItems.map((item) => {
+              const estoqueProblema = getEstoqueProblema(item);
+              const desatualizado = getCartItemStale(item);
+              const destacar = estoqueProblema || desatualizado.unavailable || desatualizado.stockShort;
+
+              return (
+                <div
+                  key={getCartLineKey(item)}
+                  className={`flex gap-3 md:gap-4 p-3 md:p-4 bg-card rounded-lg border ${destacar ? "border-destructive" : desatualizado.priceChanged ? "border-amber-500" : "border-border"}`}
+                >
+                  <img
+                    src={item.image}
+                    alt={item.name}
+                    className="w-20 h-20 md:w-24 md:h-24 object-cover rounded-lg shrink-0"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <Link
+                      to={`/produto/${item.id}`}
+                      className="font-medium text-sm md:text-base text-foreground hover:text-primary line-clamp-2"
+                    >
+                      {item.name}
+                    </Link>
+                    <VariacaoInfo
+                      cor={item.color}
+                      corCodigo={item.colorCode}
+                      capacidade={item.capacity}
+                      className="flex text-xs md:text-sm mt-1"
+                    />
+                    <p className="text-base md:text-lg font-bold text-foreground mt-1 md:mt-2">
+                      {formatPrice(item.price)}
                     </p>
-                  )}
-                  <p className="text-base md:text-lg font-bold text-foreground mt-1 md:mt-2">
-                    {formatPrice(item.price)}
-                  </p>
-                  <div className="flex items-center justify-between gap-2 mt-2 md:mt-3">
-                    <div className="flex items-center border border-border rounded-lg">
-                      <button
-                        onClick={() => updateQuantity(item.id, item.quantity - 1)}
-                        className="p-1.5 md:p-2 hover:bg-secondary transition-colors"
-                      >
-                        <Minus className="w-3 h-3 md:w-4 md:h-4" />
-                      </button>
-                      <span className="px-3 md:px-4 text-sm md:text-base font-medium">{item.quantity}</span>
+                    {estoqueProblema && (
+                      <p className="flex items-center gap-1 text-xs md:text-sm text-destructive mt-1">
+                        <AlertTriangle className="w-3 h-3 md:w-4 md:h-4 shrink-0" />
+                        {estoqueProblema.disponivel === 0
+                          ? "Esgotado. Remova este item para continuar."
+                          : `Apenas ${estoqueProblema.disponivel} ${estoqueProblema.disponivel === 1 ? "unidade disponível" : "unidades disponíveis"}. Ajuste a quantidade.`}
+                      </p>
+                    )}
+                    {!estoqueProblema && desatualizado.unavailable && (
+                      <p className="flex items-center gap-1 text-xs md:text-sm text-destructive mt-1">
+                        <AlertTriangle className="w-3 h-3 md:w-4 md:h-4 shrink-0" />
+                        Indisponível no momento. Remova este item para continuar.
+                      </p>
+                    )}
+                    {!estoqueProblema && desatualizado.stockShort && (
+                      <p className="flex items-center gap-1 text-xs md:text-sm text-destructive mt-1">
+                        <AlertTriangle className="w-3 h-3 md:w-4 md:h-4 shrink-0" />
+                        {`Apenas ${item.stock} ${item.stock === 1 ? "unidade disponível" : "unidades disponíveis"}. Ajuste a quantidade.`}
+                      </p>
+                    )}
+                    {desatualizado.priceChanged && (
+                      <div className="flex flex-wrap items-center gap-2 text-xs md:text-sm text-amber-600 mt-1">
+                        <span className="flex items-center gap-1">
+                          <AlertTriangle className="w-3 h-3 md:w-4 md:h-4 shrink-0" />
+                          Preço alterado para {formatPrice(item.currentPrice as number)}
+                        </span>
+                        <button
+                          onClick={() => acceptCurrentPrice(getCartLineKey(item))}
+                          className="flex items-center gap-1 font-medium underline hover:no-underline"
+                        >
+                          <RefreshCw className="w-3 h-3" />
+                          Usar novo preço
+                        </button>
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between gap-2 mt-2 md:mt-3">
+                      <div className="flex items-center border border-border rounded-lg">
+                        <button
+                          onClick={() => updateQuantity(getCartLineKey(item), item.quantity - 1)}
+                          className="p-1.5 md:p-2 hover:bg-secondary transition-colors"
+                        >
+                          <Minus className="w-3 h-3 md:w-4 md:h-4" />
+                        </button>
+                        <span className="px-3 md:px-4 text-sm md:text-base font-medium">{item.quantity}</span>
+                        <button
+                          onClick={() => updateQuantity(getCartLineKey(item), item.quantity + 1)}
+                          className="p-1.5 md:p-2 hover:bg-secondary transition-colors"
+                        >
+                          <Plus className="w-3 h-3 md:w-4 md:h-4" />
+                        </button>
+                      </div>
                       <button
-                        onClick={() => updateQuantity(item.id, item.quantity + 1)}
-                        className="p-1.5 md:p-2 hover:bg-secondary transition-colors"
+                        onClick={() => removeFromCart(getCartLineKey(item))}
+                        className="text-destructive hover:text-destructive/80 transition-colors p-2"
                       >
-                        <Plus className="w-3 h-3 md:w-4 md:h-4" />
+                        <Trash2 className="w-4 h-4 md:w-5 md:h-5" />
                       </button>
                     </div>
-                    <button
-                      onClick={() => removeFromCart(item.id)}
-                      className="text-destructive hover:text-destructive/80 transition-colors p-2"
-                    >
-                      <Trash2 className="w-4 h-4 md:w-5 md:h-5" />
-                    </button>
                   </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
 
           {/* Summary */}
@@ -124,14 +282,47 @@ const Carrinho = () => {
               <h2 className="font-semibold text-base md:text-lg mb-4">Resumo do pedido</h2>
 
               {/* Coupon */}
-              <div className="flex gap-2 mb-4 md:mb-6">
-                <Input
-                  placeholder="Cupom de desconto"
-                  value={coupon}
-                  onChange={(e) => setCoupon(e.target.value)}
-                  className="flex-1 text-sm"
-                />
-                <Button variant="outline" size="sm" className="shrink-0">Aplicar</Button>
+              <CupomField
+                codigo={cupomCodigo}
+                cupom={precosCupom?.cupom}
+                onApply={handleApplyCupom}
+                onRemove={handleRemoveCupom}
+                className="mb-4 md:mb-6"
+              />
+
+              {/* Shipping */}
+              <div className="space-y-2 mb-4 md:mb-6">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="CEP para calcular o frete"
+                    value={cep}
+                    onChange={(e) => setCep(formatCep(e.target.value))}
+                    onKeyDown={(e) => e.key === "Enter" && handleCalculateShipping()}
+                    className="flex-1 text-sm"
+                    inputMode="numeric"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="shrink-0"
+                    onClick={handleCalculateShipping}
+                    disabled={isCalculatingShipping}
+                  >
+                    {isCalculatingShipping ? <Loader2 className="w-4 h-4 animate-spin" /> : "Calcular"}
+                  </Button>
+                </div>
+                {shippingCep && !isCalculatingShipping && freteError && (
+                  <p className="text-xs text-destructive">
+                    {freteError instanceof Error ? freteError.message : "Erro ao calcular frete"}
+                  </p>
+                )}
+                {cotacaoFrete && !isCalculatingShipping && (
+                  <FreteOpcoes
+                    opcoes={cotacaoFrete.opcoes}
+                    selected={freteOpcao?.servico}
+                    onSelect={handleSelectFrete}
+                  />
+                )}
               </div>
 
               <div className="space-y-2 md:space-y-3 text-sm">
@@ -142,20 +333,27 @@ const Carrinho = () => {
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Frete</span>
                   <span className={shipping === 0 ? "text-primary" : ""}>
-                    {shipping === 0 ? "Grátis" : formatPrice(shipping)}
+                    {shipping === null ? "Calcule acima" : shipping === 0 ? "Grátis" : formatPrice(shipping)}
                   </span>
                 </div>
+                {descontoCupom > 0 && (
+                  <div className="flex justify-between text-primary">
+                    <span>Cupom {cupomCodigo}</span>
+                    <span>-{formatPrice(descontoCupom)}</span>
+                  </div>
+                )}
                 <div className="border-t border-border pt-2 md:pt-3 flex justify-between font-semibold text-base md:text-lg">
                   <span>Total</span>
                   <span>{formatPrice(total)}</span>
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  ou em até 12x de {formatPrice(total / 12)} sem juros
+                  ou em até {planoDestaque.parcelas}x de {formatPrice(planoDestaque.valor_parcela)} sem juros
                 </p>
               </div>
 
               <Button 
                 onClick={() => navigate("/checkout")}
+                disabled={hasEstoqueProblema || hasItemDesatualizado}
                 className="w-full mt-4 md:mt-6 py-5 md:py-6 text-sm md:text-base"
               >
                 Finalizar compra
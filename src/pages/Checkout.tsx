@@ -1,35 +1,233 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Link } from "react-router-dom";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
-import { QrCode, CreditCard, ShieldCheck, ArrowLeft, User, Loader2 } from "lucide-react";
-import { useCart } from "@/hooks/useCart";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { QrCode, CreditCard, Barcode, ShieldCheck, ArrowLeft, User, Loader2, MapPin, Plus, Truck, Pencil } from "lucide-react";
+import { toast } from "sonner";
+import { useCart, getCartLineKey } from "@/hooks/useCart";
 import { useAuth } from "@/hooks/useAuth";
+import { useEnderecos, useInvalidateEnderecos } from "@/hooks/useEnderecos";
+import { usePerfil } from "@/hooks/usePerfil";
+import { createEndereco, EnderecoData } from "@/services/enderecosApi";
+import { formatEnderecoLinha, validateEndereco } from "@/lib/endereco";
+import { useCotacaoFrete } from "@/hooks/useFrete";
+import { usePrecosCarrinho } from "@/hooks/usePrecos";
+import { calcularPrecos, CupomInvalidoError } from "@/services/precosApi";
+import { useConfiguracoes } from "@/hooks/useConfiguracoes";
+import { getSavedFreteServico, saveFreteServico } from "@/lib/frete";
+import { getSavedCupom, saveCupom, clearSavedCupom } from "@/lib/cupom";
+import { DadosCliente, ClienteErrors, formatCpf, formatTelefone, isValidEmail, normalizeEmail, validateCliente } from "@/lib/cliente";
+import type { ClientePedido } from "@/services/pedidosApi";
+import FreteOpcoes from "@/components/FreteOpcoes";
 import PaymentModal from "@/components/PaymentModal";
 import LoginModal from "@/components/LoginModal";
+import EnderecoForm from "@/components/EnderecoForm";
+import CupomField from "@/components/CupomField";
 
 const Checkout = () => {
   const { cartItems, getTotal } = useCart();
-  const { user, isLoggedIn, isLoading } = useAuth();
-  const [paymentMethod, setPaymentMethod] = useState<"pix" | "card">("pix");
+  const { user, isLoading } = useAuth();
+  const [paymentMethod, setPaymentMethod] = useState<"pix" | "card" | "boleto">("pix");
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [showLoginModal, setShowLoginModal] = useState(false);
   const [defaultToRegister, setDefaultToRegister] = useState(false);
+  const { data: enderecos = [], isLoading: isLoadingEnderecos } = useEnderecos(user?.id);
+  const { data: perfil } = usePerfil(user?.id);
+  const invalidateEnderecos = useInvalidateEnderecos();
+  const [selectedEnderecoId, setSelectedEnderecoId] = useState<number | null>(null);
+  const [showEnderecoForm, setShowEnderecoForm] = useState(false);
+  const [isSavingEndereco, setIsSavingEndereco] = useState(false);
+  const [freteServico, setFreteServico] = useState<string | null>(() => getSavedFreteServico());
+  const [cupomCodigo, setCupomCodigo] = useState<string | null>(() => getSavedCupom());
+  // Compra sem login: contato e endereço ficam só no pedido
+  const [dadosConvidado, setDadosConvidado] = useState<DadosCliente>({ nome: "", email: "", telefone: "", cpf: "" });
+  const [clienteErrors, setClienteErrors] = useState<ClienteErrors>({});
+  const [enderecoConvidado, setEnderecoConvidado] = useState<EnderecoData | null>(null);
 
   const subtotal = getTotal();
-  const shipping = subtotal > 299 ? 0 : 29.9;
-  const total = subtotal + shipping;
 
   // Recarregar estado do usuário quando o modal fechar
   useEffect(() => {
     // Força recarregamento do estado de autenticação
   }, [showLoginModal]);
 
+  // Pré-selecionar o endereço padrão
+  useEffect(() => {
+    if (selectedEnderecoId === null && enderecos.length > 0) {
+      const padrao = enderecos.find((e) => e.padrao) || enderecos[0];
+      setSelectedEnderecoId(padrao.id);
+    }
+  }, [enderecos, selectedEnderecoId]);
+
+  const selectedEndereco = user ? enderecos.find((e) => e.id === selectedEnderecoId) || null : enderecoConvidado;
+
+  // Logado: dados do perfil (Minha Conta), com os da sessão enquanto ele carrega
+  const conta = perfil ?? user;
+  const cliente: ClientePedido | null = conta
+    ? { nome: conta.nome, email: conta.email, telefone: conta.telefone || undefined, cpf: conta.cpf || undefined }
+    : Object.keys(validateCliente(dadosConvidado)).length === 0
+      ? {
+          nome: dadosConvidado.nome.trim(),
+          email: normalizeEmail(dadosConvidado.email),
+          telefone: dadosConvidado.telefone,
+          cpf: dadosConvidado.cpf.trim() || undefined,
+        }
+      : null;
+
+  // Limite de uso do cupom por cliente também vale para quem compra sem login
+  const emailCliente = user?.email ?? (isValidEmail(dadosConvidado.email) ? normalizeEmail(dadosConvidado.email) : undefined);
+
+  const freteItens = useMemo(
+    () => cartItems.map((item) => ({ produto_id: item.id, quantidade: item.quantity })),
+    [cartItems]
+  );
+  const {
+    data: cotacaoFrete,
+    isFetching: isCalculatingShipping,
+    error: freteError,
+  } = useCotacaoFrete(selectedEndereco?.cep ?? null, freteItens, subtotal);
+
+  // Ao trocar de endereço, mantém o serviço se disponível no novo CEP; senão, o mais barato
+  const freteOpcao =
+    cotacaoFrete?.opcoes.find((o) => o.servico === freteServico) || cotacaoFrete?.opcoes[0] || null;
+
+  // Valores exibidos e cobrados vêm do servidor; o carrinho local só informa ids e quantidades
+  const precoItens = useMemo(
+    () =>
+      cartItems.map((item) => ({
+        produto_id: item.id,
+        variacao_id: item.variationId,
+        cor: item.color || undefined,
+        capacidade: item.capacity || undefined,
+        quantidade: item.quantity,
+      })),
+    [cartItems]
+  );
+  const {
+    data: precos,
+    isFetching: isCalculatingPrecos,
+    error: precosError,
+  } = usePrecosCarrinho({
+    itens: precoItens,
+    cep: freteOpcao ? selectedEndereco?.cep : undefined,
+    frete_servico: freteOpcao?.servico,
+    forma_pagamento: paymentMethod === "card" ? "cartao" : paymentMethod,
+    cupom: cupomCodigo ?? undefined,
+    email: emailCliente,
+  });
+  const { data: config } = useConfiguracoes();
+
+  const shipping = precos ? precos.frete : 0;
+  const total = precos ? precos.total : subtotal;
+
+  // Cupom que deixou de valer: recalcula sem ele e avisa o cliente
+  useEffect(() => {
+    if (precosError instanceof CupomInvalidoError) {
+      toast.error(`Cupom removido: ${precosError.message}`, { id: "cupom-invalido" });
+      clearSavedCupom();
+      setCupomCodigo(null);
+    }
+  }, [precosError]);
+
+  const handleApplyCupom = async (codigo: string) => {
+    await calcularPrecos({
+      itens: precoItens,
+      cep: freteOpcao ? selectedEndereco?.cep : undefined,
+      frete_servico: freteOpcao?.servico,
+      cupom: codigo,
+      email: emailCliente,
+    });
+    saveCupom(codigo);
+    setCupomCodigo(codigo);
+  };
+
+  const handleRemoveCupom = () => {
+    clearSavedCupom();
+    setCupomCodigo(null);
+  };
+
+  const handleSelectFrete = (servico: string) => {
+    setFreteServico(servico);
+    saveFreteServico(servico);
+  };
+
+  const setDadoConvidado = (field: keyof DadosCliente, value: string) => {
+    setDadosConvidado((prev) => ({ ...prev, [field]: value }));
+    setClienteErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSaveEndereco = async (data: EnderecoData) => {
+    if (!user) {
+      setEnderecoConvidado(data);
+      setShowEnderecoForm(false);
+      return;
+    }
+
+    setIsSavingEndereco(true);
+    try {
+      const novo = await createEndereco(data);
+      await invalidateEnderecos();
+      setSelectedEnderecoId(novo.id);
+      setShowEnderecoForm(false);
+      toast.success("Endereço adicionado!");
+    } catch (error) {
+      console.error("Erro ao salvar endereço:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao salvar endereço");
+    } finally {
+      setIsSavingEndereco(false);
+    }
+  };
+
+  const handleContinue = () => {
+    if (!user) {
+      const erros = validateCliente(dadosConvidado);
+      setClienteErrors(erros);
+      if (Object.keys(erros).length > 0) {
+        toast.error("Confira seus dados de contato");
+        return;
+      }
+    }
+
+    if (!selectedEndereco) {
+      toast.error("Selecione ou cadastre um endereço de entrega");
+      return;
+    }
+
+    if (Object.keys(validateEndereco(selectedEndereco)).length > 0) {
+      toast.error("O endereço selecionado está incompleto. Edite-o em Meus Endereços.");
+      return;
+    }
+
+    if (!freteOpcao || isCalculatingShipping) {
+      toast.error("Selecione uma opção de frete disponível para o endereço");
+      return;
+    }
+
+    if (precosError) {
+      toast.error(precosError instanceof Error ? precosError.message : "Erro ao calcular valores do pedido");
+      return;
+    }
+
+    if (!precos || isCalculatingPrecos || precos.frete_servico !== freteOpcao.servico) {
+      toast.info("Atualizando os valores do pedido. Tente novamente em instantes.");
+      return;
+    }
+
+    setShowPaymentModal(true);
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background">
@@ -55,63 +253,6 @@ const Checkout = () => {
     );
   }
 
-  // Se não estiver logado, mostrar aviso com botões que abrem o modal
-  if (!isLoggedIn) {
-    return (
-      <div className="min-h-screen bg-background">
-        <Header />
-        <main className="container py-8 md:py-16">
-          <div className="max-w-md mx-auto text-center">
-            <div className="w-20 h-20 bg-muted rounded-full flex items-center justify-center mx-auto mb-6">
-              <User className="w-10 h-10 text-muted-foreground" />
-            </div>
-            <h1 className="text-2xl font-semibold mb-4">Faça login para continuar</h1>
-            <p className="text-muted-foreground mb-8">
-              Para finalizar sua compra, você precisa estar logado em sua conta. 
-              Assim podemos garantir a segurança do seu pedido e você poderá acompanhar o status da entrega.
-            </p>
-            <div className="flex flex-col sm:flex-row gap-3 justify-center">
-              <Button 
-                size="lg"
-                onClick={() => {
-                  setDefaultToRegister(false);
-                  setShowLoginModal(true);
-                }}
-              >
-                Entrar na minha conta
-              </Button>
-              <Button 
-                variant="outline" 
-                size="lg"
-                onClick={() => {
-                  setDefaultToRegister(true);
-                  setShowLoginModal(true);
-                }}
-              >
-                Criar conta
-              </Button>
-            </div>
-            <div className="mt-6">
-              <Button variant="ghost" asChild>
-                <Link to="/carrinho">
-                  <ArrowLeft className="w-4 h-4 mr-2" />
-                  Voltar ao carrinho
-                </Link>
-              </Button>
-            </div>
-          </div>
-        </main>
-        <Footer />
-
-        <LoginModal 
-          isOpen={showLoginModal} 
-          onClose={() => setShowLoginModal(false)}
-          defaultToRegister={defaultToRegister}
-        />
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -124,7 +265,7 @@ const Checkout = () => {
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-8">
           <div className="lg:col-span-2 space-y-4 md:space-y-6">
-            {/* Dados do cliente logado */}
+            {/* Dados do cliente: da conta ou informados para comprar sem login */}
             <Card>
               <CardHeader className="p-4 md:p-6">
                 <CardTitle className="text-base md:text-lg flex items-center gap-2">
@@ -133,32 +274,219 @@ const Checkout = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent className="p-4 md:p-6 pt-0">
-                <div className="bg-muted/50 rounded-lg p-4 space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Nome:</span>
-                    <span className="font-medium">{user?.nome}</span>
+                {conta ? (
+                  <div className="bg-muted/50 rounded-lg p-4 space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Nome:</span>
+                      <span className="font-medium">{conta.nome}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Email:</span>
+                      <span className="font-medium">{conta.email}</span>
+                    </div>
+                    {conta.telefone && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Telefone:</span>
+                        <span className="font-medium">{conta.telefone}</span>
+                      </div>
+                    )}
+                    {conta.cpf && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">CPF:</span>
+                        <span className="font-medium">{conta.cpf}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center gap-2 pt-1 text-sm">
+                      <span className="text-xs text-muted-foreground">
+                        {conta.telefone ? "Dados da sua conta" : "Adicione seu telefone para facilitar a entrega"}
+                      </span>
+                      <Link to="/minha-conta" className="text-primary hover:underline shrink-0">
+                        Editar dados
+                      </Link>
+                    </div>
                   </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Email:</span>
-                    <span className="font-medium">{user?.email}</span>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 bg-muted/50 rounded-lg text-sm">
+                      <span className="text-muted-foreground">Já tem conta? Entre para usar seus endereços salvos.</span>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setDefaultToRegister(false);
+                            setShowLoginModal(true);
+                          }}
+                        >
+                          Entrar
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setDefaultToRegister(true);
+                            setShowLoginModal(true);
+                          }}
+                        >
+                          Criar conta
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <div className="sm:col-span-2">
+                        <Label htmlFor="convidado-nome">Nome completo*</Label>
+                        <Input
+                          id="convidado-nome"
+                          value={dadosConvidado.nome}
+                          onChange={(e) => setDadoConvidado("nome", e.target.value)}
+                          autoComplete="name"
+                        />
+                        {clienteErrors.nome && <p className="text-xs text-destructive mt-1">{clienteErrors.nome}</p>}
+                      </div>
+                      <div>
+                        <Label htmlFor="convidado-email">Email*</Label>
+                        <Input
+                          id="convidado-email"
+                          type="email"
+                          value={dadosConvidado.email}
+                          onChange={(e) => setDadoConvidado("email", e.target.value)}
+                          autoComplete="email"
+                        />
+                        {clienteErrors.email ? (
+                          <p className="text-xs text-destructive mt-1">{clienteErrors.email}</p>
+                        ) : (
+                          <p className="text-xs text-muted-foreground mt-1">Use este email para acompanhar o pedido</p>
+                        )}
+                      </div>
+                      <div>
+                        <Label htmlFor="convidado-telefone">Telefone*</Label>
+                        <Input
+                          id="convidado-telefone"
+                          value={dadosConvidado.telefone}
+                          onChange={(e) => setDadoConvidado("telefone", formatTelefone(e.target.value))}
+                          placeholder="(00) 00000-0000"
+                          autoComplete="tel"
+                        />
+                        {clienteErrors.telefone && <p className="text-xs text-destructive mt-1">{clienteErrors.telefone}</p>}
+                      </div>
+                      <div>
+                        <Label htmlFor="convidado-cpf">CPF</Label>
+                        <Input
+                          id="convidado-cpf"
+                          value={dadosConvidado.cpf}
+                          onChange={(e) => setDadoConvidado("cpf", formatCpf(e.target.value))}
+                          placeholder="000.000.000-00"
+                          inputMode="numeric"
+                        />
+                        {clienteErrors.cpf && <p className="text-xs text-destructive mt-1">{clienteErrors.cpf}</p>}
+                      </div>
+                    </div>
                   </div>
-                  {user?.telefone && (
-                    <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">Telefone:</span>
-                      <span className="font-medium">{user?.telefone}</span>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Endereço de entrega */}
+            <Card>
+              <CardHeader className="p-4 md:p-6">
+                <CardTitle className="text-base md:text-lg flex items-center gap-2">
+                  <MapPin className="w-5 h-5" />
+                  Endereço de Entrega
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-4 md:p-6 pt-0 space-y-3">
+                {!user ? (
+                  enderecoConvidado ? (
+                    <div className="flex items-start justify-between gap-3 p-3 md:p-4 border rounded-lg">
+                      <div className="min-w-0">
+                        <p className="font-medium text-sm md:text-base">{enderecoConvidado.destinatario || dadosConvidado.nome || "Endereço"}</p>
+                        <p className="text-xs md:text-sm text-muted-foreground">
+                          {formatEnderecoLinha(enderecoConvidado)} - CEP {enderecoConvidado.cep}
+                        </p>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => setShowEnderecoForm(true)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
                     </div>
-                  )}
-                </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Informe o endereço de entrega.</p>
+                  )
+                ) : isLoadingEnderecos ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                  </div>
+                ) : enderecos.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Você ainda não tem endereços cadastrados.
+                  </p>
+                ) : (
+                  <RadioGroup
+                    value={selectedEnderecoId ? String(selectedEnderecoId) : ""}
+                    onValueChange={(v) => setSelectedEnderecoId(Number(v))}
+                    className="space-y-3"
+                  >
+                    {enderecos.map((endereco) => (
+                      <div key={endereco.id} className="flex items-start space-x-3 p-3 md:p-4 border rounded-lg hover:bg-muted/50 cursor-pointer">
+                        <RadioGroupItem value={String(endereco.id)} id={`endereco-${endereco.id}`} className="mt-1" />
+                        <Label htmlFor={`endereco-${endereco.id}`} className="cursor-pointer flex-1 min-w-0">
+                          <p className="font-medium text-sm md:text-base">
+                            {endereco.apelido || "Endereço"}
+                            {endereco.padrao && <span className="ml-2 text-xs text-primary">Padrão</span>}
+                          </p>
+                          <p className="text-xs md:text-sm text-muted-foreground font-normal">
+                            {formatEnderecoLinha(endereco)} - CEP {endereco.cep}
+                          </p>
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                )}
+
+                {(user || !enderecoConvidado) && (
+                  <Button variant="outline" className="w-full" onClick={() => setShowEnderecoForm(true)}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    {user ? "Adicionar novo endereço" : "Informar endereço"}
+                  </Button>
+                )}
               </CardContent>
             </Card>
 
+            {/* Frete */}
+            {selectedEndereco && (
+              <Card>
+                <CardHeader className="p-4 md:p-6">
+                  <CardTitle className="text-base md:text-lg flex items-center gap-2">
+                    <Truck className="w-5 h-5" />
+                    Frete
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="p-4 md:p-6 pt-0">
+                  {isCalculatingShipping ? (
+                    <div className="flex justify-center py-4">
+                      <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                    </div>
+                  ) : freteError ? (
+                    <p className="text-sm text-destructive">
+                      {freteError instanceof Error ? freteError.message : "Erro ao calcular frete"}
+                    </p>
+                  ) : cotacaoFrete ? (
+                    <FreteOpcoes
+                      opcoes={cotacaoFrete.opcoes}
+                      selected={freteOpcao?.servico}
+                      onSelect={handleSelectFrete}
+                    />
+                  ) : null}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Forma de pagamento */}
             <Card>
               <CardHeader className="p-4 md:p-6">
                 <CardTitle className="text-base md:text-lg">Forma de Pagamento</CardTitle>
               </CardHeader>
               <CardContent className="p-4 md:p-6 pt-0">
-                <RadioGroup value={paymentMethod} onValueChange={(v) => setPaymentMethod(v as "pix" | "card")} className="space-y-3 md:space-y-4">
+                <RadioGroup value={paymentMethod} onValueChange={(v) => setPaymentMethod(v as "pix" | "card" | "boleto")} className="space-y-3 md:space-y-4">
                   <div className="flex items-center space-x-3 p-3 md:p-4 border rounded-lg hover:bg-muted/50 cursor-pointer">
                     <RadioGroupItem value="pix" id="pix" />
                     <Label htmlFor="pix" className="flex items-center gap-2 md:gap-3 cursor-pointer flex-1">
@@ -167,7 +495,7 @@ const Checkout = () => {
                         <p className="font-medium text-sm md:text-base">PIX</p>
                         <p className="text-xs md:text-sm text-muted-foreground">Aprovação instantânea</p>
                       </div>
-                      <span className="ml-auto text-xs font-medium text-green-600 shrink-0">5% off</span>
+                      <span className="ml-auto text-xs font-medium text-green-600 shrink-0">{config.desconto_pix_percentual}% off</span>
                     </Label>
                   </div>
                   <div className="flex items-center space-x-3 p-3 md:p-4 border rounded-lg hover:bg-muted/50 cursor-pointer">
@@ -176,13 +504,27 @@ const Checkout = () => {
                       <CreditCard className="w-5 h-5 md:w-6 md:h-6 text-primary shrink-0" />
                       <div>
                         <p className="font-medium text-sm md:text-base">Cartão de Crédito</p>
-                        <p className="text-xs md:text-sm text-muted-foreground">Em até 12x sem juros</p>
+                        <p className="text-xs md:text-sm text-muted-foreground">
+                          Em até {config.parcelas_maximo}x, {config.parcelas_sem_juros}x sem juros
+                        </p>
+                      </div>
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-3 p-3 md:p-4 border rounded-lg hover:bg-muted/50 cursor-pointer">
+                    <RadioGroupItem value="boleto" id="boleto" />
+                    <Label htmlFor="boleto" className="flex items-center gap-2 md:gap-3 cursor-pointer flex-1">
+                      <Barcode className="w-5 h-5 md:w-6 md:h-6 text-primary shrink-0" />
+                      <div>
+                        <p className="font-medium text-sm md:text-base">Boleto Bancário</p>
+                        <p className="text-xs md:text-sm text-muted-foreground">
+                          Vence em {config.boleto_vencimento_dias} dias · aprovação em até 3 dias úteis
+                        </p>
                       </div>
                     </Label>
                   </div>
                 </RadioGroup>
 
-                <Button onClick={() => setShowPaymentModal(true)} className="w-full mt-6" size="lg">
+                <Button onClick={handleContinue} className="w-full mt-6" size="lg">
                   Continuar para Pagamento
                 </Button>
               </CardContent>
@@ -195,31 +537,53 @@ const Checkout = () => {
                 <CardTitle className="text-base md:text-lg">Resumo do Pedido</CardTitle>
               </CardHeader>
               <CardContent className="p-4 md:p-6 pt-0 space-y-4">
-                {cartItems.map((item) => (
-                  <div key={item.id} className="flex justify-between text-xs md:text-sm gap-2">
+                <CupomField
+                  codigo={cupomCodigo}
+                  cupom={precos?.cupom}
+                  onApply={handleApplyCupom}
+                  onRemove={handleRemoveCupom}
+                />
+                {cartItems.map((item, index) => (
+                  <div key={getCartLineKey(item)} className="flex justify-between text-xs md:text-sm gap-2">
                     <span className="text-muted-foreground truncate">{item.quantity}x {item.name}</span>
-                    <span className="shrink-0">{(item.price * item.quantity).toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}</span>
+                    <span className="shrink-0">{(precos?.itens[index]?.subtotal ?? item.price * item.quantity).toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}</span>
                   </div>
                 ))}
+                {precosError && (
+                  <p className="text-xs text-destructive">
+                    {precosError instanceof Error ? precosError.message : "Erro ao calcular valores do pedido"}
+                  </p>
+                )}
                 <Separator />
                 <div className="flex justify-between text-xs md:text-sm">
                   <span className="text-muted-foreground">Subtotal</span>
-                  <span>{subtotal.toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}</span>
+                  <span>{(precos?.subtotal ?? subtotal).toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}</span>
                 </div>
                 <div className="flex justify-between text-xs md:text-sm">
                   <span className="text-muted-foreground">Frete</span>
-                  <span className="text-green-600">{shipping === 0 ? "Grátis" : shipping.toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}</span>
+                  <span className={shipping === 0 && freteOpcao ? "text-green-600" : ""}>
+                    {!freteOpcao ? "—" : shipping === 0 ? "Grátis" : shipping.toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}
+                  </span>
                 </div>
-                {paymentMethod === "pix" && (
+                {precos?.cupom && precos.desconto_cupom > 0 && (
+                  <div className="flex justify-between text-xs md:text-sm text-green-600">
+                    <span>Cupom {precos.cupom.codigo}</span>
+                    <span>-{precos.desconto_cupom.toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}</span>
+                  </div>
+                )}
+                {precos && precos.desconto_pix > 0 && (
                   <div className="flex justify-between text-xs md:text-sm text-green-600">
-                    <span>Desconto PIX (5%)</span>
-                    <span>-{(total * 0.05).toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}</span>
+                    <span>Desconto PIX ({precos.desconto_percentual}%)</span>
+                    <span>-{precos.desconto_pix.toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}</span>
                   </div>
                 )}
                 <Separator />
                 <div className="flex justify-between font-bold text-base md:text-lg">
                   <span>Total</span>
-                  <span>{(paymentMethod === "pix" ? total * 0.95 : total).toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}</span>
+                  <span className="flex items-center gap-2">
+                    {isCalculatingPrecos && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+                    {total.toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}
+                  </span>
                 </div>
                 <div className="flex items-center gap-2 text-xs md:text-sm text-muted-foreground bg-muted p-2 md:p-3 rounded-lg">
                   <ShieldCheck className="w-4 h-4 text-green-600 shrink-0" />
@@ -236,12 +600,38 @@ const Checkout = () => {
         isOpen={showPaymentModal}
         onClose={() => setShowPaymentModal(false)}
         paymentMethod={paymentMethod}
-        total={total}
-        subtotal={subtotal}
-        shipping={shipping}
+        precos={precos ?? null}
         cartItems={cartItems}
-        user={user}
+        cliente={cliente}
+        endereco={selectedEndereco}
+        freteServico={freteOpcao?.servico ?? null}
       />
+
+      <LoginModal
+        isOpen={showLoginModal}
+        onClose={() => setShowLoginModal(false)}
+        defaultToRegister={defaultToRegister}
+      />
+
+      <Dialog open={showEnderecoForm} onOpenChange={setShowEnderecoForm}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{user ? "Novo endereço" : "Endereço de entrega"}</DialogTitle>
+          </DialogHeader>
+          <EnderecoForm
+            initialData={
+              user
+                ? { destinatario: user.nome, padrao: enderecos.length === 0 }
+                : enderecoConvidado ?? { destinatario: dadosConvidado.nome }
+            }
+            submitLabel={user ? "Salvar e usar este endereço" : "Usar este endereço"}
+            showPadrao={!!user}
+            isSaving={isSavingEndereco}
+            onSubmit={handleSaveEndereco}
+            onCancel={() => setShowEnderecoForm(false)}
+          />
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -1,39 +1,277 @@
 import { useState } from "react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { MapPin, Plus, Construction } from "lucide-react";
-import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { MapPin, Plus, Pencil, Trash2, Star, Loader2, User } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { useEnderecos, useInvalidateEnderecos } from "@/hooks/useEnderecos";
+import {
+  Endereco,
+  EnderecoData,
+  createEndereco,
+  updateEndereco,
+  deleteEndereco,
+  setEnderecoPadrao,
+} from "@/services/enderecosApi";
+import { formatEnderecoLinha } from "@/lib/endereco";
+import EnderecoForm from "@/components/EnderecoForm";
+import LoginModal from "@/components/LoginModal";
 
 const Enderecos = () => {
-  return (
-    <div className="min-h-screen bg-background">
-      <Header />
+  const { user, isLoggedIn, isLoading: isAuthLoading } = useAuth();
+  const { data: enderecos = [], isLoading } = useEnderecos(user?.id);
+  const invalidateEnderecos = useInvalidateEnderecos();
+  const [showLoginModal, setShowLoginModal] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Endereco | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
 
-      <main className="container py-4 md:py-8">
-        <div className="flex items-center justify-between mb-6">
-          <h1 className="text-2xl md:text-3xl font-bold">Meus Endereços</h1>
+  const openNew = () => {
+    setEditing(null);
+    setFormOpen(true);
+  };
+
+  const openEdit = (endereco: Endereco) => {
+    setEditing(endereco);
+    setFormOpen(true);
+  };
+
+  const handleSave = async (data: EnderecoData) => {
+    if (!user) return;
+
+    setIsSaving(true);
+    try {
+      if (editing) {
+        await updateEndereco(editing.id, data);
+        toast.success("Endereço atualizado!");
+      } else {
+        await createEndereco(data);
+        toast.success("Endereço adicionado!");
+      }
+      await invalidateEnderecos();
+      setFormOpen(false);
+    } catch (error) {
+      console.error("Erro ao salvar endereço:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao salvar endereço");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSetPadrao = async (endereco: Endereco) => {
+    if (!user) return;
+
+    setBusyId(endereco.id);
+    try {
+      await setEnderecoPadrao(endereco.id);
+      await invalidateEnderecos();
+      toast.success("Endereço padrão atualizado!");
+    } catch (error) {
+      console.error("Erro ao definir endereço padrão:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao definir endereço padrão");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (endereco: Endereco) => {
+    if (!user) return;
+
+    setBusyId(endereco.id);
+    try {
+      await deleteEndereco(endereco.id);
+      await invalidateEnderecos();
+      toast.success("Endereço excluído!");
+    } catch (error) {
+      console.error("Erro ao excluir endereço:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao excluir endereço");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderContent = () => {
+    if (isAuthLoading || (isLoggedIn && isLoading)) {
+      return (
+        <div className="text-center py-12">
+          <Loader2 className="w-8 h-8 mx-auto animate-spin text-primary" />
         </div>
+      );
+    }
+
+    if (!isLoggedIn) {
+      return (
+        <Card>
+          <CardContent className="text-center py-16">
+            <User className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Faça login para ver seus endereços</h2>
+            <p className="text-muted-foreground mb-6">
+              Seus endereços salvos ficam disponíveis para agilizar o checkout.
+            </p>
+            <Button onClick={() => setShowLoginModal(true)}>Entrar na minha conta</Button>
+          </CardContent>
+        </Card>
+      );
+    }
 
+    if (enderecos.length === 0) {
+      return (
         <Card>
           <CardContent className="text-center py-16">
-            <Construction className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
-            <h2 className="text-xl font-semibold mb-2">Em breve!</h2>
-            <p className="text-muted-foreground mb-6 max-w-md mx-auto">
-              A funcionalidade de gerenciamento de endereços estará disponível em breve. 
-              Por enquanto, você pode adicionar seu endereço durante o checkout.
+            <MapPin className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Nenhum endereço cadastrado</h2>
+            <p className="text-muted-foreground mb-6">
+              Adicione um endereço para usar nas suas compras.
             </p>
-            <Button asChild>
-              <Link to="/">Continuar Comprando</Link>
+            <Button onClick={openNew}>
+              <Plus className="w-4 h-4 mr-2" />
+              Adicionar endereço
             </Button>
           </CardContent>
         </Card>
+      );
+    }
+
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {enderecos.map((endereco) => (
+          <Card key={endereco.id} className={endereco.padrao ? "border-primary" : ""}>
+            <CardContent className="p-4 md:p-6 space-y-3">
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <MapPin className="w-5 h-5 text-muted-foreground shrink-0" />
+                  <p className="font-semibold">{endereco.apelido || "Endereço"}</p>
+                </div>
+                {endereco.padrao && <Badge>Padrão</Badge>}
+              </div>
+              <div className="text-sm text-muted-foreground space-y-1">
+                {endereco.destinatario && <p className="text-foreground">{endereco.destinatario}</p>}
+                <p>{formatEnderecoLinha(endereco)}</p>
+                <p>CEP: {endereco.cep}</p>
+              </div>
+              <div className="flex flex-wrap gap-2 pt-1">
+                <Button variant="outline" size="sm" onClick={() => openEdit(endereco)}>
+                  <Pencil className="w-4 h-4 mr-1" />
+                  Editar
+                </Button>
+                {!endereco.padrao && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleSetPadrao(endereco)}
+                    disabled={busyId === endereco.id}
+                  >
+                    <Star className="w-4 h-4 mr-1" />
+                    Tornar padrão
+                  </Button>
+                )}
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      disabled={busyId === endereco.id}
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Excluir
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Excluir endereço?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        O endereço "{endereco.apelido || formatEnderecoLinha(endereco)}" será removido.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => handleDelete(endereco)}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Excluir
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container py-4 md:py-8">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl md:text-3xl font-bold">Meus Endereços</h1>
+          {isLoggedIn && enderecos.length > 0 && (
+            <Button onClick={openNew}>
+              <Plus className="w-4 h-4 mr-2" />
+              Novo endereço
+            </Button>
+          )}
+        </div>
+
+        {renderContent()}
       </main>
 
       <Footer />
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Editar endereço" : "Novo endereço"}</DialogTitle>
+          </DialogHeader>
+          <EnderecoForm
+            key={editing?.id ?? "novo"}
+            initialData={
+              editing
+                ? {
+                    ...editing,
+                    apelido: editing.apelido || "",
+                    destinatario: editing.destinatario || "",
+                    complemento: editing.complemento || "",
+                  }
+                : { destinatario: user?.nome || "" }
+            }
+            showPadrao={!editing?.padrao}
+            isSaving={isSaving}
+            onSubmit={handleSave}
+            onCancel={() => setFormOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <LoginModal isOpen={showLoginModal} onClose={() => setShowLoginModal(false)} />
     </div>
   );
 };
 
-export default Enderecos;
\ No newline at end of file
+export default Enderecos;
@@ -1,60 +1,54 @@
 import { useState, useEffect } from "react";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { Package, Search, Eye, Loader2 } from "lucide-react";
-import { fetchPedidosByEmail, fetchPedidosByUsuarioId, Pedido } from "@/services/pedidosApi";
-
-const statusConfig: Record<string, { label: string; color: string }> = {
-  pendente: { label: "Pendente", color: "bg-yellow-100 text-yellow-800" },
-  pago: { label: "Pago", color: "bg-green-100 text-green-800" },
-  preparando: { label: "Preparando", color: "bg-blue-100 text-blue-800" },
-  enviado: { label: "Enviado", color: "bg-purple-100 text-purple-800" },
-  entregue: { label: "Entregue", color: "bg-green-100 text-green-800" },
-  cancelado: { label: "Cancelado", color: "bg-red-100 text-red-800" },
-};
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Package, Search, Eye, Loader2, Mail } from "lucide-react";
+import { toast } from "sonner";
+import {
+  fetchPedidoByNumero,
+  fetchPedidosByEmail,
+  fetchMeusPedidos,
+  solicitarCodigoAcesso,
+  Pedido,
+} from "@/services/pedidosApi";
+import { getStatusConfig } from "@/lib/pedidoStatus";
+import { isValidEmail, normalizeEmail } from "@/lib/cliente";
+import { savePedidoEmail } from "@/lib/pedidoAcesso";
+import { useAuth } from "@/hooks/useAuth";
 
 const MeusPedidos = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const isLoggedIn = !!user;
   const [searchEmail, setSearchEmail] = useState("");
+  const [searchNumero, setSearchNumero] = useState("");
+  const [codigo, setCodigo] = useState("");
+  const [codigoEnviado, setCodigoEnviado] = useState(false);
   const [orders, setOrders] = useState<Pedido[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isSending, setIsSending] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
 
-  // Carregar pedidos do usuário logado ou por email salvo
+  // Cliente logado vê os pedidos da conta; sem login, precisa provar que o email é dele
   useEffect(() => {
+    if (!user) {
+      setOrders([]);
+      setHasSearched(false);
+      return;
+    }
+
     const loadOrders = async () => {
       setIsLoading(true);
       setHasSearched(true);
-
       try {
-        // Primeiro tenta buscar por usuario_id se logado
-        const userDataStr = localStorage.getItem("usuario");
-        if (userDataStr) {
-          const userData = JSON.parse(userDataStr);
-          if (userData.id) {
-            const pedidos = await fetchPedidosByUsuarioId(userData.id);
-            setOrders(pedidos);
-            if (userData.email) {
-              setSearchEmail(userData.email);
-            }
-            setIsLoading(false);
-            return;
-          }
-        }
-
-        // Fallback para busca por email
-        const savedEmail = localStorage.getItem("customerEmail") || localStorage.getItem("userEmail");
-        if (savedEmail) {
-          setSearchEmail(savedEmail);
-          const pedidos = await fetchPedidosByEmail(savedEmail);
-          setOrders(pedidos);
-        } else {
-          setHasSearched(false);
-        }
+        setOrders(await fetchMeusPedidos());
       } catch (error) {
         console.error("Erro ao buscar pedidos:", error);
         setOrders([]);
@@ -64,21 +58,71 @@ const MeusPedidos = () => {
     };
 
     loadOrders();
-  }, []);
+  }, [user]);
+
+  // Um pedido: número + email da compra
+  const handleBuscarPedido = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const numero = searchNumero.trim().toUpperCase();
+    if (!numero || !isValidEmail(searchEmail)) return;
+
+    const email = normalizeEmail(searchEmail);
+    setIsLoading(true);
+    try {
+      const pedido = await fetchPedidoByNumero(numero, email);
+      if (!pedido) {
+        toast.error("Pedido não encontrado para este email");
+        return;
+      }
+      savePedidoEmail(pedido.numero, email);
+      navigate(`/pedido/${pedido.numero}`);
+    } catch (error) {
+      console.error("Erro ao buscar pedido:", error);
+      toast.error("Erro ao buscar pedido. Tente novamente.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Todos os pedidos do email: código de uso único enviado a ele
+  const handleEnviarCodigo = async () => {
+    if (!isValidEmail(searchEmail)) {
+      toast.error("Informe um email válido");
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      const mensagem = await solicitarCodigoAcesso(normalizeEmail(searchEmail));
+      setCodigoEnviado(true);
+      setCodigo("");
+      toast.success(mensagem);
+    } catch (error) {
+      console.error("Erro ao enviar código:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao enviar código");
+    } finally {
+      setIsSending(false);
+    }
+  };
 
-  const handleSearch = async (emailToSearch?: string) => {
-    const email = emailToSearch || searchEmail;
-    if (!email) return;
+  const handleConfirmarCodigo = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (codigo.length !== 6) return;
 
+    const email = normalizeEmail(searchEmail);
     setIsLoading(true);
     setHasSearched(true);
-    
     try {
-      const pedidos = await fetchPedidosByEmail(email);
+      const pedidos = await fetchPedidosByEmail(email, codigo);
+      pedidos.forEach((pedido) => savePedidoEmail(pedido.numero, email));
       setOrders(pedidos);
+      setCodigoEnviado(false);
     } catch (error) {
       console.error("Erro ao buscar pedidos:", error);
       setOrders([]);
+      setHasSearched(false);
+      setCodigo("");
+      toast.error(error instanceof Error ? error.message : "Erro ao buscar pedidos");
     } finally {
       setIsLoading(false);
     }
@@ -99,30 +143,85 @@ const MeusPedidos = () => {
       <main className="container py-4 md:py-8">
         <h1 className="text-2xl md:text-3xl font-bold mb-6">Meus Pedidos</h1>
 
-        {/* Search Form */}
-        <Card className="mb-6">
-          <CardContent className="p-4 md:p-6">
-            <div className="flex flex-col sm:flex-row gap-3">
-              <div className="flex-1">
+        {/* Consulta sem login */}
+        {!isLoggedIn && (
+          <Card className="mb-6">
+            <CardContent className="p-4 md:p-6 space-y-4">
+              <div>
+                <Label htmlFor="busca-email">Email usado na compra</Label>
                 <Input
+                  id="busca-email"
                   type="email"
-                  placeholder="Digite seu email para buscar pedidos"
+                  placeholder="nome@email.com"
                   value={searchEmail}
-                  onChange={(e) => setSearchEmail(e.target.value)}
-                  onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+                  onChange={(e) => {
+                    setSearchEmail(e.target.value);
+                    setCodigoEnviado(false);
+                  }}
                 />
               </div>
-              <Button onClick={() => handleSearch()} disabled={isLoading}>
-                {isLoading ? (
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                ) : (
-                  <Search className="w-4 h-4 mr-2" />
-                )}
-                Buscar
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
+
+              <Tabs defaultValue="numero">
+                <TabsList className="grid grid-cols-2 w-full">
+                  <TabsTrigger value="numero">Número do pedido</TabsTrigger>
+                  <TabsTrigger value="codigo">Código por email</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="numero">
+                  <form onSubmit={handleBuscarPedido} className="flex flex-col sm:flex-row gap-3">
+                    <Input
+                      placeholder="Número do pedido (ex.: A1B2C3)"
+                      value={searchNumero}
+                      onChange={(e) => setSearchNumero(e.target.value)}
+                      className="flex-1 uppercase"
+                    />
+                    <Button type="submit" disabled={isLoading || !searchNumero.trim() || !isValidEmail(searchEmail)}>
+                      {isLoading ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Search className="w-4 h-4 mr-2" />
+                      )}
+                      Ver pedido
+                    </Button>
+                  </form>
+                </TabsContent>
+
+                <TabsContent value="codigo" className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    Enviaremos um código de 6 dígitos para o email para listar todos os seus pedidos.
+                  </p>
+                  {codigoEnviado ? (
+                    <form onSubmit={handleConfirmarCodigo} className="flex flex-col sm:flex-row sm:items-center gap-3">
+                      <InputOTP maxLength={6} value={codigo} onChange={setCodigo}>
+                        <InputOTPGroup>
+                          {[0, 1, 2, 3, 4, 5].map((i) => (
+                            <InputOTPSlot key={i} index={i} />
+                          ))}
+                        </InputOTPGroup>
+                      </InputOTP>
+                      <Button type="submit" disabled={isLoading || codigo.length !== 6}>
+                        {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Ver pedidos
+                      </Button>
+                      <Button type="button" variant="ghost" onClick={handleEnviarCodigo} disabled={isSending}>
+                        Reenviar
+                      </Button>
+                    </form>
+                  ) : (
+                    <Button onClick={handleEnviarCodigo} disabled={isSending || !isValidEmail(searchEmail)}>
+                      {isSending ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Mail className="w-4 h-4 mr-2" />
+                      )}
+                      Enviar código
+                    </Button>
+                  )}
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+        )}
 
         {/* Loading */}
         {isLoading && (
@@ -139,7 +238,7 @@ const MeusPedidos = () => {
               <Package className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
               <h2 className="text-xl font-semibold mb-2">Nenhum pedido encontrado</h2>
               <p className="text-muted-foreground mb-6">
-                Não encontramos pedidos para o email informado.
+                {isLoggedIn ? "Você ainda não fez pedidos." : "Não encontramos pedidos para o email informado."}
               </p>
               <Button asChild>
                 <Link to="/">Continuar Comprando</Link>
@@ -152,7 +251,7 @@ const MeusPedidos = () => {
         {!isLoading && orders.length > 0 && (
           <div className="space-y-4">
             {orders.map((order) => {
-              const status = statusConfig[order.status] || statusConfig.pendente;
+              const status = getStatusConfig(order.status);
               
               return (
                 <Card key={order.id}>
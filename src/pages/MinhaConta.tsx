@@ -0,0 +1,245 @@
+import { useEffect, useState } from "react";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import LoginModal from "@/components/LoginModal";
+import AlterarSenhaModal from "@/components/AlterarSenhaModal";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { KeyRound, Loader2, ShieldCheck, User, UserCircle } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { usePerfil, useInvalidatePerfil } from "@/hooks/usePerfil";
+import { updatePerfil, PerfilData } from "@/services/perfilApi";
+import { reenviarConfirmacaoEmail } from "@/services/contaApi";
+import { ClienteErrors, formatCpf, formatTelefone, validateCliente } from "@/lib/cliente";
+
+const MinhaConta = () => {
+  const { user, isLoggedIn, isLoading: isAuthLoading } = useAuth();
+  const { data: perfil, isLoading } = usePerfil(user?.id);
+  const invalidatePerfil = useInvalidatePerfil();
+  const [form, setForm] = useState<PerfilData>({ nome: "", telefone: "", cpf: "" });
+  const [errors, setErrors] = useState<ClienteErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [isReenviando, setIsReenviando] = useState(false);
+  const [showLoginModal, setShowLoginModal] = useState(false);
+  const [showAlterarSenha, setShowAlterarSenha] = useState(false);
+
+  // Preenche o formulário com os dados do servidor
+  useEffect(() => {
+    if (perfil) {
+      setForm({
+        nome: perfil.nome,
+        telefone: formatTelefone(perfil.telefone || ""),
+        cpf: formatCpf(perfil.cpf || ""),
+      });
+    }
+  }, [perfil]);
+
+  const setCampo = (field: keyof PerfilData, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!perfil) return;
+
+    const erros = validateCliente({ ...form, email: perfil.email });
+    setErrors(erros);
+    if (Object.keys(erros).length > 0) return;
+
+    setIsSaving(true);
+    try {
+      await updatePerfil({
+        nome: form.nome.trim(),
+        telefone: form.telefone,
+        cpf: form.cpf.trim(),
+      });
+      await invalidatePerfil();
+      toast.success("Dados atualizados!");
+    } catch (error) {
+      console.error("Erro ao salvar perfil:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao salvar seus dados");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReenviar = async () => {
+    setIsReenviando(true);
+    try {
+      toast.success(await reenviarConfirmacaoEmail());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao reenviar confirmação");
+    } finally {
+      setIsReenviando(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (isAuthLoading || (isLoggedIn && isLoading)) {
+      return (
+        <div className="text-center py-12">
+          <Loader2 className="w-8 h-8 mx-auto animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (!isLoggedIn) {
+      return (
+        <Card>
+          <CardContent className="text-center py-16">
+            <User className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Faça login para ver seus dados</h2>
+            <p className="text-muted-foreground mb-6">
+              Mantenha seus dados atualizados para agilizar o checkout.
+            </p>
+            <Button onClick={() => setShowLoginModal(true)}>Entrar na minha conta</Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (!perfil) {
+      return (
+        <Card>
+          <CardContent className="text-center py-16">
+            <p className="text-muted-foreground">Não foi possível carregar seus dados. Tente novamente.</p>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
+        <Card className="lg:col-span-2">
+          <CardHeader className="p-4 md:p-6">
+            <CardTitle className="text-base md:text-lg flex items-center gap-2">
+              <UserCircle className="w-5 h-5" />
+              Dados pessoais
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 md:p-6 pt-0">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="perfil-nome">Nome completo*</Label>
+                <Input
+                  id="perfil-nome"
+                  value={form.nome}
+                  onChange={(e) => setCampo("nome", e.target.value)}
+                  maxLength={100}
+                  autoComplete="name"
+                  disabled={isSaving}
+                />
+                {errors.nome && <p className="text-xs text-destructive mt-1">{errors.nome}</p>}
+              </div>
+
+              <div>
+                <Label htmlFor="perfil-email">Email</Label>
+                <Input id="perfil-email" value={perfil.email} disabled />
+                <p className="text-xs text-muted-foreground mt-1">
+                  O email identifica sua conta e seus pedidos e não pode ser alterado.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="perfil-telefone">Telefone*</Label>
+                  <Input
+                    id="perfil-telefone"
+                    value={form.telefone}
+                    onChange={(e) => setCampo("telefone", formatTelefone(e.target.value))}
+                    placeholder="(00) 00000-0000"
+                    autoComplete="tel"
+                    disabled={isSaving}
+                  />
+                  {errors.telefone && <p className="text-xs text-destructive mt-1">{errors.telefone}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="perfil-cpf">CPF</Label>
+                  <Input
+                    id="perfil-cpf"
+                    value={form.cpf}
+                    onChange={(e) => setCampo("cpf", formatCpf(e.target.value))}
+                    placeholder="000.000.000-00"
+                    inputMode="numeric"
+                    disabled={isSaving}
+                  />
+                  {errors.cpf && <p className="text-xs text-destructive mt-1">{errors.cpf}</p>}
+                </div>
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Estes dados preenchem automaticamente seus próximos pedidos.
+              </p>
+
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Salvar alterações
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="p-4 md:p-6">
+            <CardTitle className="text-base md:text-lg flex items-center gap-2">
+              <ShieldCheck className="w-5 h-5" />
+              Segurança
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 md:p-6 pt-0 space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm text-muted-foreground">Email</span>
+                {perfil.email_verificado ? (
+                  <Badge>Confirmado</Badge>
+                ) : (
+                  <Badge variant="outline">Não confirmado</Badge>
+                )}
+              </div>
+              {!perfil.email_verificado && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={handleReenviar}
+                  disabled={isReenviando}
+                >
+                  {isReenviando && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Reenviar link de confirmação
+                </Button>
+              )}
+            </div>
+
+            <Button variant="outline" className="w-full" onClick={() => setShowAlterarSenha(true)}>
+              <KeyRound className="w-4 h-4 mr-2" />
+              Alterar senha
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container py-4 md:py-8">
+        <h1 className="text-2xl md:text-3xl font-bold mb-6">Minha Conta</h1>
+        {renderContent()}
+      </main>
+
+      <Footer />
+
+      <LoginModal isOpen={showLoginModal} onClose={() => setShowLoginModal(false)} />
+      <AlterarSenhaModal isOpen={showAlterarSenha} onClose={() => setShowAlterarSenha(false)} />
+    </div>
+  );
+};
+
+export default MinhaConta;
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useParams, Link, useNavigate } from "react-router-dom";
 import { Heart, Share2, ChevronLeft, ChevronRight, Check, Star, MapPin, CreditCard, ChevronRight as ArrowRight, Loader2, Minus, Plus, Box, Smartphone, QrCode } from "lucide-react";
 import Header from "@/components/Header";
@@ -16,13 +16,20 @@ import BestSellers from "@/components/BestSellers";
 import Modal3DViewer from "@/components/Modal3DViewerV2";
 import { QRCodeSVG } from "qrcode.react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useCotacaoFrete } from "@/hooks/useFrete";
+import { getSavedCep, saveCep } from "@/lib/frete";
+import { isValidCep } from "@/lib/endereco";
+import FreteOpcoes from "@/components/FreteOpcoes";
+import { useParcelamento } from "@/hooks/useParcelamento";
+import { formatPlano } from "@/lib/parcelamento";
+import { getImageProps, getImageUrl } from "@/lib/imagens";
 
 const Produto = () => {
   const { id: rawId } = useParams();
   const navigate = useNavigate();
   const [currentImage, setCurrentImage] = useState(0);
   const [isFavorite, setIsFavorite] = useState(false);
-  const [cep, setCep] = useState("");
+  const [cep, setCep] = useState(() => getSavedCep());
   const [selectedColor, setSelectedColor] = useState<string | null>(null);
   const [selectedCapacity, setSelectedCapacity] = useState<string | null>(null);
   const [quantity, setQuantity] = useState(1);
@@ -30,16 +37,13 @@ const Produto = () => {
   
   // Estados para frete
   const [isLoadingLocation, setIsLoadingLocation] = useState(false);
-  const [isCalculatingShipping, setIsCalculatingShipping] = useState(false);
-  const [shippingResult, setShippingResult] = useState<{
-    price: number;
-    days: number;
-    estimatedDate: string;
-  } | null>(null);
+  const [shippingCep, setShippingCep] = useState<string | null>(null);
   
   // Estados para 3D e QR Code
   const [show3DModal, setShow3DModal] = useState(false);
   const [showQRModal, setShowQRModal] = useState(false);
+  const [showParcelasModal, setShowParcelasModal] = useState(false);
+  const { melhorPlanoSemJuros, listarPlanos } = useParcelamento();
   
   // Decodifica o hash para obter o ID real
   const id = rawId && isProductHash(rawId) ? decodeProductHash(rawId) || rawId : rawId;
@@ -87,6 +91,16 @@ const Produto = () => {
   const currentPrice = currentVariation?.price || product?.price || 0;
   const currentStock = currentVariation?.stock ?? product?.stock ?? 0;
 
+  const freteItens = useMemo(
+    () => (product ? [{ produto_id: Number(product.id), quantidade: quantity }] : []),
+    [product, quantity]
+  );
+  const {
+    data: cotacaoFrete,
+    isFetching: isCalculatingShipping,
+    error: freteError,
+  } = useCotacaoFrete(shippingCep, freteItens, currentPrice * quantity);
+
   // Reset quantity when stock changes
   useEffect(() => {
     if (quantity > currentStock && currentStock > 0) {
@@ -139,15 +153,17 @@ const Produto = () => {
     );
   }
 
-  const installmentPrice = currentPrice / product.installments;
+  const planoDestaque = melhorPlanoSemJuros(currentPrice);
 
   const handleAddToCart = () => {
     addToCart({
       id: Number(product.id),
       name: product.name,
-      image: product.images[0],
+      image: getImageUrl(product.images[0], "card"),
       price: currentPrice,
+      variationId: currentVariation?.id,
       color: selectedColor || '',
+      colorCode: currentVariation?.colorCode,
       capacity: selectedCapacity || '',
     }, quantity);
     toast.success(`${quantity} ${quantity > 1 ? 'itens adicionados' : 'item adicionado'} ao carrinho!`);
@@ -157,46 +173,25 @@ const Produto = () => {
     addToCart({
       id: Number(product.id),
       name: product.name,
-      image: product.images[0],
+      image: getImageUrl(product.images[0], "card"),
       price: currentPrice,
+      variationId: currentVariation?.id,
       color: selectedColor || '',
+      colorCode: currentVariation?.colorCode,
       capacity: selectedCapacity || '',
     }, quantity);
     toast.success(`${quantity} ${quantity > 1 ? 'itens adicionados' : 'item adicionado'} ao carrinho!`);
     navigate('/carrinho');
   };
 
-  const handleCalculateShipping = async () => {
-    if (cep.length < 8) {
+  const handleCalculateShipping = () => {
+    if (!isValidCep(cep)) {
       toast.error("Digite um CEP válido");
       return;
     }
-    
-    setIsCalculatingShipping(true);
-    setShippingResult(null);
-    
-    // Simular delay de API
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    // Verificar se é região Nordeste (CEPs 40000-000 a 65999-999)
-    const cepNumber = parseInt(cep);
-    const isNordeste = cepNumber >= 40000000 && cepNumber <= 65999999;
-    
-    const days = isNordeste ? 3 : 7;
-    const estimatedDate = new Date();
-    estimatedDate.setDate(estimatedDate.getDate() + days);
-    
-    setShippingResult({
-      price: 0, // Frete grátis
-      days,
-      estimatedDate: estimatedDate.toLocaleDateString('pt-BR', { 
-        weekday: 'long', 
-        day: 'numeric', 
-        month: 'long' 
-      })
-    });
-    
-    setIsCalculatingShipping(false);
+
+    saveCep(cep);
+    setShippingCep(cep);
   };
 
   const handleUseLocation = async () => {
@@ -287,7 +282,7 @@ const Produto = () => {
             {/* Main Image */}
             <div className="relative aspect-square flex items-center justify-center rounded-xl overflow-hidden">
               <img
-                src={product.images[currentImage]}
+                {...getImageProps(product.images[currentImage], "zoom")}
                 alt={product.name}
                 className="w-full h-full object-contain"
               />
@@ -326,7 +321,7 @@ const Produto = () => {
                   }`}
                 >
                   <img 
-                    src={image} 
+                    src={getImageUrl(image, "thumb")} 
                     alt="" 
                     className="w-full h-full object-contain p-1" 
                   />
@@ -424,13 +419,16 @@ const Produto = () => {
                 </div>
               </div>
               <p className="text-sm text-muted-foreground">
-                ou <span className="font-medium text-primary">{product.installments}x</span> de{" "}
-                <span className="font-medium text-primary">{formatPrice(installmentPrice)}</span>
+                ou <span className="font-medium text-primary">{planoDestaque.parcelas}x</span> de{" "}
+                <span className="font-medium text-primary">{formatPrice(planoDestaque.valor_parcela)}</span> sem juros
               </p>
             </div>
 
             {/* Payment Methods Link */}
-            <button className="flex items-center gap-2 text-sm text-primary hover:underline w-full py-3 border-y border-border">
+            <button
+              onClick={() => setShowParcelasModal(true)}
+              className="flex items-center gap-2 text-sm text-primary hover:underline w-full py-3 border-y border-border"
+            >
               <CreditCard className="w-5 h-5" />
               <span>veja todas as formas de pagamento</span>
               <ArrowRight className="w-4 h-4 ml-auto" />
@@ -474,21 +472,13 @@ const Produto = () => {
               </button>
               
               {/* Resultado do cálculo de frete */}
-              {shippingResult && (
-                <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
-                  <div className="flex items-center gap-2 text-green-700">
-                    <Check className="w-5 h-5" />
-                    <span className="font-medium">
-                      {shippingResult.price === 0 ? "Frete Grátis!" : formatPrice(shippingResult.price)}
-                    </span>
-                  </div>
-                  <p className="text-sm text-green-600 mt-1">
-                    Entrega estimada: <strong>{shippingResult.estimatedDate}</strong>
-                  </p>
-                  <p className="text-xs text-green-500 mt-1">
-                    ({shippingResult.days} dias úteis)
-                  </p>
-                </div>
+              {shippingCep && !isCalculatingShipping && freteError && (
+                <p className="text-sm text-destructive">
+                  {freteError instanceof Error ? freteError.message : "Erro ao calcular frete"}
+                </p>
+              )}
+              {shippingCep && !isCalculatingShipping && cotacaoFrete && (
+                <FreteOpcoes opcoes={cotacaoFrete.opcoes} />
               )}
             </div>
 
@@ -690,6 +680,33 @@ const Produto = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Modal Parcelamento */}
+      <Dialog open={showParcelasModal} onOpenChange={setShowParcelasModal}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Formas de pagamento</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <p className="text-sm font-medium mb-2">Cartão de crédito</p>
+              <ul className="divide-y divide-border text-sm">
+                {listarPlanos(currentPrice).map((plano) => (
+                  <li key={plano.parcelas} className="flex justify-between py-1.5">
+                    <span>{formatPlano(plano, false)}</span>
+                    <span className={plano.sem_juros ? "text-green-600" : "text-muted-foreground"}>
+                      {plano.sem_juros ? "sem juros" : formatPrice(plano.total)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              PIX e boleto à vista. Parcelas acima de {planoDestaque.parcelas}x têm juros, já somados ao total exibido.
+            </p>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Modal Visualização 3D */}
       {has3DModel && model3DUrl ? (
         <Modal3DViewer
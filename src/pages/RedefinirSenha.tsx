@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import LoginModal from "@/components/LoginModal";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CheckCircle, KeyRound, Loader2, XCircle } from "lucide-react";
+import { clearSessao } from "@/services/clienteAuth";
+import { redefinirSenha } from "@/services/contaApi";
+
+const RedefinirSenha = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const [senha, setSenha] = useState("");
+  const [confirmacao, setConfirmacao] = useState("");
+  const [erro, setErro] = useState<string | null>(null);
+  const [mensagem, setMensagem] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showLoginModal, setShowLoginModal] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (senha.length < 6) {
+      setErro("A senha deve ter pelo menos 6 caracteres");
+      return;
+    }
+    if (senha !== confirmacao) {
+      setErro("As senhas não conferem");
+      return;
+    }
+
+    setErro(null);
+    setIsLoading(true);
+    try {
+      const resultado = await redefinirSenha(token, senha);
+      // A troca encerra todas as sessões da conta, inclusive a deste navegador
+      clearSessao();
+      setMensagem(resultado);
+    } catch (error) {
+      setErro(error instanceof Error ? error.message : "Erro ao redefinir senha");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderConteudo = () => {
+    if (!token) {
+      return (
+        <div className="text-center space-y-4">
+          <XCircle className="w-12 h-12 mx-auto text-destructive" />
+          <h1 className="text-2xl font-bold">Link inválido</h1>
+          <p className="text-muted-foreground">
+            Peça um novo link em "Não sei a minha senha", na tela de login.
+          </p>
+          <Button onClick={() => setShowLoginModal(true)}>Ir para o login</Button>
+        </div>
+      );
+    }
+
+    if (mensagem) {
+      return (
+        <div className="text-center space-y-4">
+          <CheckCircle className="w-12 h-12 mx-auto text-green-600" />
+          <h1 className="text-2xl font-bold">Senha redefinida</h1>
+          <p className="text-muted-foreground">{mensagem}</p>
+          <Button onClick={() => setShowLoginModal(true)}>Entrar</Button>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="text-center mb-2">
+          <KeyRound className="w-10 h-10 mx-auto text-primary mb-3" />
+          <h1 className="text-2xl font-bold">Criar nova senha</h1>
+        </div>
+
+        <div>
+          <label className="text-sm text-muted-foreground mb-1 block">
+            Nova senha*
+          </label>
+          <Input
+            type="password"
+            placeholder="Mínimo 6 caracteres"
+            value={senha}
+            onChange={(e) => setSenha(e.target.value)}
+            autoComplete="new-password"
+            required
+            minLength={6}
+            disabled={isLoading}
+          />
+        </div>
+
+        <div>
+          <label className="text-sm text-muted-foreground mb-1 block">
+            Confirmar nova senha*
+          </label>
+          <Input
+            type="password"
+            value={confirmacao}
+            onChange={(e) => setConfirmacao(e.target.value)}
+            autoComplete="new-password"
+            required
+            disabled={isLoading}
+          />
+        </div>
+
+        {erro && <p className="text-sm text-destructive">{erro}</p>}
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Aguarde...
+            </>
+          ) : (
+            "Salvar nova senha"
+          )}
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container py-12">
+        <Card className="max-w-md mx-auto">
+          <CardContent className="pt-8 pb-8">{renderConteudo()}</CardContent>
+        </Card>
+      </main>
+      <Footer />
+
+      <LoginModal isOpen={showLoginModal} onClose={() => setShowLoginModal(false)} />
+    </div>
+  );
+};
+
+export default RedefinirSenha;
@@ -0,0 +1,112 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, Loader2, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { renovarToken } from "@/services/clienteAuth";
+import { confirmarEmail, reenviarConfirmacaoEmail } from "@/services/contaApi";
+
+type Estado = "confirmando" | "confirmado" | "erro";
+
+const VerificarEmail = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const { isLoggedIn } = useAuth();
+  const [estado, setEstado] = useState<Estado>("confirmando");
+  const [mensagem, setMensagem] = useState("");
+  const [isReenviando, setIsReenviando] = useState(false);
+  // O token é de uso único: o StrictMode não pode confirmá-lo duas vezes
+  const confirmacaoIniciada = useRef(false);
+
+  useEffect(() => {
+    if (confirmacaoIniciada.current) return;
+    confirmacaoIniciada.current = true;
+
+    if (!token) {
+      setEstado("erro");
+      setMensagem("Link de confirmação inválido.");
+      return;
+    }
+
+    confirmarEmail(token)
+      .then(async (resultado) => {
+        setEstado("confirmado");
+        setMensagem(resultado);
+        // Atualiza os dados da sessão salvos (email_verificado) se houver login
+        try {
+          await renovarToken();
+        } catch (error) {
+          console.error("Erro ao atualizar sessão:", error);
+        }
+      })
+      .catch((error) => {
+        setEstado("erro");
+        setMensagem(error instanceof Error ? error.message : "Erro ao confirmar email");
+      });
+  }, [token]);
+
+  const handleReenviar = async () => {
+    setIsReenviando(true);
+    try {
+      toast.success(await reenviarConfirmacaoEmail());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao reenviar confirmação");
+    } finally {
+      setIsReenviando(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container py-12">
+        <Card className="max-w-md mx-auto">
+          <CardContent className="pt-8 pb-8 text-center space-y-4">
+            {estado === "confirmando" && (
+              <>
+                <Loader2 className="w-12 h-12 mx-auto animate-spin text-muted-foreground" />
+                <p className="text-muted-foreground">Confirmando seu email...</p>
+              </>
+            )}
+
+            {estado === "confirmado" && (
+              <>
+                <CheckCircle className="w-12 h-12 mx-auto text-green-600" />
+                <h1 className="text-2xl font-bold">Email confirmado</h1>
+                <p className="text-muted-foreground">{mensagem}</p>
+                <Button asChild>
+                  <Link to="/">Continuar comprando</Link>
+                </Button>
+              </>
+            )}
+
+            {estado === "erro" && (
+              <>
+                <XCircle className="w-12 h-12 mx-auto text-destructive" />
+                <h1 className="text-2xl font-bold">Não foi possível confirmar</h1>
+                <p className="text-muted-foreground">{mensagem}</p>
+                {isLoggedIn ? (
+                  <Button onClick={handleReenviar} disabled={isReenviando}>
+                    {isReenviando && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Enviar novo link
+                  </Button>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Entre na sua conta para pedir um novo link de confirmação.
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default VerificarEmail;
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, ChevronLeft, ChevronRight, ClipboardList, Loader2, RefreshCw } from "lucide-react";
+import { fetchAdminAuditoria, AdminAuditoria, AdminAuditoriaFiltros } from "@/services/adminApi";
+import {
+  AUDITORIA_ACOES,
+  AUDITORIA_ACAO_CONFIG,
+  AUDITORIA_ENTIDADES,
+  AUDITORIA_ENTIDADE_LABELS,
+  AuditoriaAcao,
+  AuditoriaEntidade,
+} from "@/lib/auditoria";
+import AuditoriaAlteracoes from "@/components/AuditoriaAlteracoes";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+
+const POR_PAGINA = 30;
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+// Página do registro no painel, quando ainda existe
+const getEntidadeLink = (registro: AdminAuditoria) => {
+  if (registro.acao === "excluir") return null;
+  if (registro.entidade === "produto") return `/admin/produtos/${registro.entidade_id}`;
+  return null;
+};
+
+const AdminAudit = () => {
+  const [entidade, setEntidade] = useState<string>("all");
+  const [acao, setAcao] = useState<string>("all");
+  const [usuarioId, setUsuarioId] = useState<string>("all");
+  const [de, setDe] = useState("");
+  const [ate, setAte] = useState("");
+  const [pagina, setPagina] = useState(1);
+
+  const filtros: AdminAuditoriaFiltros = {
+    entidade: entidade !== "all" ? (entidade as AuditoriaEntidade) : undefined,
+    acao: acao !== "all" ? (acao as AuditoriaAcao) : undefined,
+    usuario_id: usuarioId !== "all" ? Number(usuarioId) : undefined,
+    de: de || undefined,
+    ate: ate || undefined,
+    pagina,
+    limite: POR_PAGINA,
+  };
+
+  const { data, isLoading, isFetching, isError, refetch } = useQuery({
+    queryKey: ["admin-auditoria", filtros],
+    queryFn: () => fetchAdminAuditoria(filtros),
+    placeholderData: keepPreviousData,
+  });
+
+  // Mudar um filtro volta para a primeira página
+  const filtrar = <T,>(setter: (valor: T) => void) => (valor: T) => {
+    setter(valor);
+    setPagina(1);
+  };
+
+  const totalPaginas = data ? Math.max(1, Math.ceil(data.total / data.limite)) : 1;
+
+  return (
+    <div className="min-h-screen bg-secondary flex flex-col">
+      <Header />
+
+      <div className="container py-4 lg:py-8 flex-1">
+        <div className="flex items-center gap-2 lg:gap-4 mb-4 lg:mb-6">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/admin/dashboard">
+              <ArrowLeft className="w-4 h-4 mr-1 lg:mr-2" />
+              <span className="hidden sm:inline">Voltar</span>
+            </Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 lg:px-6">
+            <CardTitle className="flex items-center gap-2 text-base lg:text-lg">
+              <ClipboardList className="w-4 h-4 lg:w-5 lg:h-5" />
+              Auditoria {data && `(${data.total})`}
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+              <span className="hidden sm:inline ml-2">Atualizar</span>
+            </Button>
+          </CardHeader>
+          <CardContent className="px-4 lg:px-6 space-y-4">
+            {/* Filtros */}
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Entidade</Label>
+                <Select value={entidade} onValueChange={filtrar(setEntidade)}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todas</SelectItem>
+                    {AUDITORIA_ENTIDADES.map((item) => (
+                      <SelectItem key={item} value={item}>
+                        {AUDITORIA_ENTIDADE_LABELS[item]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Ação</Label>
+                <Select value={acao} onValueChange={filtrar(setAcao)}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todas</SelectItem>
+                    {AUDITORIA_ACOES.map((item) => (
+                      <SelectItem key={item} value={item}>
+                        {AUDITORIA_ACAO_CONFIG[item].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Usuário</Label>
+                <Select value={usuarioId} onValueChange={filtrar(setUsuarioId)}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos</SelectItem>
+                    {data?.atores.map((ator) => (
+                      <SelectItem key={ator.id} value={String(ator.id)}>
+                        {ator.nome}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="auditoria-de" className="text-xs">De</Label>
+                <Input
+                  id="auditoria-de"
+                  type="date"
+                  className="h-9"
+                  value={de}
+                  onChange={(e) => filtrar(setDe)(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="auditoria-ate" className="text-xs">Até</Label>
+                <Input
+                  id="auditoria-ate"
+                  type="date"
+                  className="h-9"
+                  value={ate}
+                  onChange={(e) => filtrar(setAte)(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : isError || !data ? (
+              <p className="text-center text-muted-foreground py-12">Erro ao carregar a auditoria</p>
+            ) : data.registros.length === 0 ? (
+              <p className="text-center text-muted-foreground py-12">Nenhuma alteração encontrada</p>
+            ) : (
+              <div className="space-y-3">
+                {data.registros.map((registro) => {
+                  const link = getEntidadeLink(registro);
+                  const rotulo = `${AUDITORIA_ENTIDADE_LABELS[registro.entidade]} ${
+                    registro.entidade_nome ?? `#${registro.entidade_id}`
+                  }`;
+
+                  return (
+                    <div key={registro.id} className="border rounded-lg p-3 space-y-2">
+                      <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+                        <Badge variant={AUDITORIA_ACAO_CONFIG[registro.acao].variant}>
+                          {AUDITORIA_ACAO_CONFIG[registro.acao].label}
+                        </Badge>
+                        {link ? (
+                          <Link to={link} className="font-medium hover:underline">
+                            {rotulo}
+                          </Link>
+                        ) : (
+                          <span className="font-medium">{rotulo}</span>
+                        )}
+                        <span className="text-muted-foreground">por {registro.usuario_nome}</span>
+                        <span className="text-xs text-muted-foreground sm:ml-auto">
+                          {formatDateTime(registro.created_at)}
+                          {registro.ip && ` · IP ${registro.ip}`}
+                        </span>
+                      </div>
+                      <AuditoriaAlteracoes registro={registro} />
+                    </div>
+                  );
+                })}
+
+                {totalPaginas > 1 && (
+                  <div className="flex items-center justify-center gap-3 pt-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPagina((p) => p - 1)}
+                      disabled={pagina <= 1 || isFetching}
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <span className="text-sm text-muted-foreground">
+                      Página {pagina} de {totalPaginas}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPagina((p) => p + 1)}
+                      disabled={pagina >= totalPaginas || isFetching}
+                    >
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminAudit;
@@ -1,5 +1,5 @@
-import { useEffect, useState } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -40,6 +40,8 @@ import {
   Loader2,
   RefreshCw,
   Save,
+  ImagePlus,
+  X,
 } from "lucide-react";
 import { toast } from "sonner";
 import {
@@ -47,17 +49,23 @@ import {
   createAdminCategory,
   updateAdminCategory,
   deleteAdminCategory,
+  uploadAdminImagem,
   AdminCategory,
 } from "@/services/adminApi";
+import { IMAGEM_TIPOS_ACEITOS, validarArquivoImagem } from "@/lib/imagens";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
+import { useAdminSessao } from "@/hooks/useAdminSessao";
 
 const AdminCategories = () => {
-  const navigate = useNavigate();
+  const { pode } = useAdminSessao();
+  const podeEditar = pode("categorias.editar");
   const [categories, setCategories] = useState<AdminCategory[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState<number | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const imagemInputRef = useRef<HTMLInputElement>(null);
   
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<AdminCategory | null>(null);
@@ -83,13 +91,8 @@ const AdminCategories = () => {
   };
 
   useEffect(() => {
-    const token = localStorage.getItem("adminToken") || sessionStorage.getItem("adminToken");
-    if (!token) {
-      navigate("/admin/login");
-      return;
-    }
     loadCategories();
-  }, [navigate]);
+  }, []);
 
 
   const openNewDialog = () => {
@@ -116,6 +119,27 @@ const AdminCategories = () => {
     setDialogOpen(true);
   };
 
+  // A categoria guarda só a versão de listagem (card) da imagem enviada
+  const handleImagemUpload = async (arquivo: File | undefined) => {
+    if (!arquivo) return;
+    const erro = validarArquivoImagem(arquivo);
+    if (erro) {
+      toast.error(erro);
+      return;
+    }
+
+    try {
+      setUploading(true);
+      const upload = await uploadAdminImagem(arquivo, "categorias");
+      const card = upload.variantes.find((v) => v.nome === "card");
+      setFormData((atual) => ({ ...atual, imagem: card?.url ?? upload.url }));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao enviar imagem");
+    } finally {
+      setUploading(false);
+    }
+  };
+
   const handleSave = async () => {
     if (!formData.nome.trim()) {
       toast.error("Nome é obrigatório");
@@ -189,10 +213,12 @@ const AdminCategories = () => {
                 <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
                 <span className="hidden sm:inline ml-2">Atualizar</span>
               </Button>
-              <Button onClick={openNewDialog} size="sm">
-                <Plus className="w-4 h-4" />
-                <span className="hidden sm:inline ml-2">Nova Categoria</span>
-              </Button>
+              {podeEditar && (
+                <Button onClick={openNewDialog} size="sm">
+                  <Plus className="w-4 h-4" />
+                  <span className="hidden sm:inline ml-2">Nova Categoria</span>
+                </Button>
+              )}
             </div>
           </CardHeader>
           <CardContent className="px-4 lg:px-6">
@@ -222,49 +248,51 @@ const AdminCategories = () => {
                         </div>
                         <p className="text-xs text-muted-foreground truncate">{category.slug}</p>
                       </div>
-                      <div className="flex items-center gap-1">
-                        <Button 
-                          variant="ghost" 
-                          size="icon"
-                          className="h-8 w-8"
-                          onClick={() => openEditDialog(category)}
-                        >
-                          <Edit className="w-4 h-4" />
-                        </Button>
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button 
-                              variant="ghost" 
-                              size="icon" 
-                              className="h-8 w-8 text-destructive hover:text-destructive"
-                              disabled={deleting === category.id}
-                            >
-                              {deleting === category.id ? (
-                                <Loader2 className="w-4 h-4 animate-spin" />
-                              ) : (
-                                <Trash2 className="w-4 h-4" />
-                              )}
-                            </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Excluir categoria?</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                Esta ação não pode ser desfeita. A categoria "{category.nome}" será removida permanentemente.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                              <AlertDialogAction
-                                onClick={() => handleDelete(category.id)}
-                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      {podeEditar && (
+                        <div className="flex items-center gap-1">
+                          <Button 
+                            variant="ghost" 
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => openEditDialog(category)}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button 
+                                variant="ghost" 
+                                size="icon" 
+                                className="h-8 w-8 text-destructive hover:text-destructive"
+                                disabled={deleting === category.id}
                               >
-                                Excluir
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
-                      </div>
+                                {deleting === category.id ? (
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                ) : (
+                                  <Trash2 className="w-4 h-4" />
+                                )}
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Excluir categoria?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Esta ação não pode ser desfeita. A categoria "{category.nome}" será removida permanentemente.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDelete(category.id)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Excluir
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -299,50 +327,52 @@ const AdminCategories = () => {
                             </span>
                           </TableCell>
                           <TableCell className="text-right">
-                            <div className="flex items-center justify-end gap-2">
-                              <Button 
-                                variant="ghost" 
-                                size="icon"
-                                onClick={() => openEditDialog(category)}
-                              >
-                                <Edit className="w-4 h-4" />
-                              </Button>
-                              <AlertDialog>
-                                <AlertDialogTrigger asChild>
-                                  <Button 
-                                    variant="ghost" 
-                                    size="icon" 
-                                    className="text-destructive hover:text-destructive"
-                                    disabled={deleting === category.id}
-                                  >
-                                    {deleting === category.id ? (
-                                      <Loader2 className="w-4 h-4 animate-spin" />
-                                    ) : (
-                                      <Trash2 className="w-4 h-4" />
-                                    )}
-                                  </Button>
-                                </AlertDialogTrigger>
-                                <AlertDialogContent>
-                                  <AlertDialogHeader>
-                                    <AlertDialogTitle>Excluir categoria?</AlertDialogTitle>
-                                    <AlertDialogDescription>
-                                      Esta ação não pode ser desfeita. A categoria "{category.nome}" será removida permanentemente.
-                                      <br /><br />
-                                      <strong>Atenção:</strong> Produtos associados a esta categoria podem ficar sem categoria.
-                                    </AlertDialogDescription>
-                                  </AlertDialogHeader>
-                                  <AlertDialogFooter>
-                                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                                    <AlertDialogAction
-                                      onClick={() => handleDelete(category.id)}
-                                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            {podeEditar && (
+                              <div className="flex items-center justify-end gap-2">
+                                <Button 
+                                  variant="ghost" 
+                                  size="icon"
+                                  onClick={() => openEditDialog(category)}
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </Button>
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button 
+                                      variant="ghost" 
+                                      size="icon" 
+                                      className="text-destructive hover:text-destructive"
+                                      disabled={deleting === category.id}
                                     >
-                                      Excluir
-                                    </AlertDialogAction>
-                                  </AlertDialogFooter>
-                                </AlertDialogContent>
-                              </AlertDialog>
-                            </div>
+                                      {deleting === category.id ? (
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                      ) : (
+                                        <Trash2 className="w-4 h-4" />
+                                      )}
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Excluir categoria?</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        Esta ação não pode ser desfeita. A categoria "{category.nome}" será removida permanentemente.
+                                        <br /><br />
+                                        <strong>Atenção:</strong> Produtos associados a esta categoria podem ficar sem categoria.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                      <AlertDialogAction
+                                        onClick={() => handleDelete(category.id)}
+                                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                      >
+                                        Excluir
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              </div>
+                            )}
                           </TableCell>
                         </TableRow>
                       ))}
@@ -393,12 +423,54 @@ const AdminCategories = () => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="imagem">URL da Imagem</Label>
-              <Input
+              <Label htmlFor="imagem">Imagem</Label>
+              {formData.imagem ? (
+                <div className="relative w-32 h-32 border rounded-lg overflow-hidden bg-secondary/30">
+                  <img
+                    src={formData.imagem}
+                    alt="Imagem da categoria"
+                    className="w-full h-full object-contain"
+                    onError={(e) => {
+                      (e.target as HTMLImageElement).src = "/placeholder.svg";
+                    }}
+                  />
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon"
+                    className="absolute top-1 right-1 h-6 w-6"
+                    onClick={() => setFormData({ ...formData, imagem: "" })}
+                    aria-label="Remover imagem"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => imagemInputRef.current?.click()}
+                  disabled={uploading}
+                >
+                  {uploading ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <ImagePlus className="w-4 h-4 mr-2" />
+                  )}
+                  {uploading ? "Enviando..." : "Enviar imagem"}
+                </Button>
+              )}
+              <input
+                ref={imagemInputRef}
                 id="imagem"
-                value={formData.imagem}
-                onChange={(e) => setFormData({ ...formData, imagem: e.target.value })}
-                placeholder="https://..."
+                type="file"
+                accept={IMAGEM_TIPOS_ACEITOS.join(",")}
+                className="hidden"
+                onChange={(e) => {
+                  handleImagemUpload(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
               />
             </div>
 
@@ -427,7 +499,7 @@ const AdminCategories = () => {
             <Button variant="outline" onClick={() => setDialogOpen(false)}>
               Cancelar
             </Button>
-            <Button onClick={handleSave} disabled={saving}>
+            <Button onClick={handleSave} disabled={saving || uploading}>
               {saving ? (
                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
               ) : (
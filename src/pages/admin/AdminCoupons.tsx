@@ -0,0 +1,660 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Tag,
+  Plus,
+  Edit,
+  Trash2,
+  ArrowLeft,
+  Loader2,
+  RefreshCw,
+  Save,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  fetchAdminCupons,
+  createAdminCupom,
+  updateAdminCupom,
+  deleteAdminCupom,
+  fetchAdminCategories,
+  fetchAdminProducts,
+  AdminCupom,
+  AdminCupomData,
+  AdminCategory,
+  AdminProduct,
+} from "@/services/adminApi";
+import { CupomTipo } from "@/services/precosApi";
+import { CUPOM_TIPO_LABELS, normalizeCupomCodigo } from "@/lib/cupom";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import { useAdminSessao } from "@/hooks/useAdminSessao";
+
+interface CupomForm {
+  codigo: string;
+  descricao: string;
+  tipo: CupomTipo;
+  valor: string;
+  valor_minimo: string;
+  valido_de: string;
+  valido_ate: string;
+  limite_uso: string;
+  limite_por_cliente: string;
+  ativo: boolean;
+  produtos: number[];
+  categorias: number[];
+}
+
+const EMPTY_FORM: CupomForm = {
+  codigo: "",
+  descricao: "",
+  tipo: "percentual",
+  valor: "",
+  valor_minimo: "",
+  valido_de: "",
+  valido_ate: "",
+  limite_uso: "",
+  limite_por_cliente: "",
+  ativo: true,
+  produtos: [],
+  categorias: [],
+};
+
+const formatPrice = (price: number) =>
+  price.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+// "2025-01-31 23:59:00" (MySQL) <-> "2025-01-31T23:59" (datetime-local)
+const toInputDate = (value: string | null) => (value ? value.slice(0, 16).replace(" ", "T") : "");
+const formatDate = (value: string | null) =>
+  value ? new Date(value.replace(" ", "T")).toLocaleDateString("pt-BR") : null;
+
+const formatDesconto = (cupom: AdminCupom) => {
+  if (cupom.tipo === "frete_gratis") return "Frete grátis";
+  if (cupom.tipo === "percentual") return `${Number(cupom.valor)}%`;
+  return formatPrice(Number(cupom.valor));
+};
+
+const formatValidade = (cupom: AdminCupom) => {
+  const de = formatDate(cupom.valido_de);
+  const ate = formatDate(cupom.valido_ate);
+  if (de && ate) return `${de} a ${ate}`;
+  if (ate) return `Até ${ate}`;
+  if (de) return `A partir de ${de}`;
+  return "Sem prazo";
+};
+
+const formatUsos = (cupom: AdminCupom) =>
+  cupom.limite_uso ? `${cupom.usos}/${cupom.limite_uso}` : String(cupom.usos);
+
+const AdminCoupons = () => {
+  const { pode } = useAdminSessao();
+  const podeEditar = pode("cupons.editar");
+  const [cupons, setCupons] = useState<AdminCupom[]>([]);
+  const [categories, setCategories] = useState<AdminCategory[]>([]);
+  const [products, setProducts] = useState<AdminProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState<number | null>(null);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCupom, setEditingCupom] = useState<AdminCupom | null>(null);
+  const [formData, setFormData] = useState<CupomForm>(EMPTY_FORM);
+  const [productSearch, setProductSearch] = useState("");
+
+  const loadCupons = async () => {
+    try {
+      setLoading(true);
+      const data = await fetchAdminCupons();
+      setCupons(data);
+    } catch (error) {
+      console.error('Erro ao carregar cupons:', error);
+      toast.error('Erro ao carregar cupons');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCupons();
+    // Listas usadas nas restrições do cupom
+    fetchAdminCategories().then(setCategories).catch(() => setCategories([]));
+    fetchAdminProducts().then(setProducts).catch(() => setProducts([]));
+  }, []);
+
+  const filteredProducts = useMemo(() => {
+    const termo = productSearch.trim().toLowerCase();
+    const lista = termo
+      ? products.filter((p) => p.nome.toLowerCase().includes(termo) || p.sku?.toLowerCase().includes(termo))
+      : products;
+    return lista.slice(0, 50);
+  }, [products, productSearch]);
+
+  const openNewDialog = () => {
+    setEditingCupom(null);
+    setFormData(EMPTY_FORM);
+    setProductSearch("");
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (cupom: AdminCupom) => {
+    setEditingCupom(cupom);
+    setFormData({
+      codigo: cupom.codigo,
+      descricao: cupom.descricao || "",
+      tipo: cupom.tipo,
+      valor: cupom.tipo === "frete_gratis" ? "" : String(Number(cupom.valor)),
+      valor_minimo: cupom.valor_minimo !== null ? String(Number(cupom.valor_minimo)) : "",
+      valido_de: toInputDate(cupom.valido_de),
+      valido_ate: toInputDate(cupom.valido_ate),
+      limite_uso: cupom.limite_uso !== null ? String(cupom.limite_uso) : "",
+      limite_por_cliente: cupom.limite_por_cliente !== null ? String(cupom.limite_por_cliente) : "",
+      ativo: Boolean(Number(cupom.ativo)),
+      produtos: cupom.produtos || [],
+      categorias: cupom.categorias || [],
+    });
+    setProductSearch("");
+    setDialogOpen(true);
+  };
+
+  const toggleId = (lista: number[], id: number) =>
+    lista.includes(id) ? lista.filter((i) => i !== id) : [...lista, id];
+
+  const handleSave = async () => {
+    if (!formData.codigo.trim()) {
+      toast.error("Código é obrigatório");
+      return;
+    }
+
+    if (formData.tipo !== "frete_gratis" && !(Number(formData.valor) > 0)) {
+      toast.error("Informe o valor do desconto");
+      return;
+    }
+
+    const optionalNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+
+    try {
+      setSaving(true);
+      const cupomData: AdminCupomData = {
+        codigo: normalizeCupomCodigo(formData.codigo),
+        descricao: formData.descricao,
+        tipo: formData.tipo,
+        valor: formData.tipo === "frete_gratis" ? 0 : Number(formData.valor),
+        valor_minimo: optionalNumber(formData.valor_minimo),
+        valido_de: formData.valido_de || null,
+        valido_ate: formData.valido_ate || null,
+        limite_uso: optionalNumber(formData.limite_uso),
+        limite_por_cliente: optionalNumber(formData.limite_por_cliente),
+        ativo: formData.ativo,
+        produtos: formData.produtos,
+        categorias: formData.categorias,
+      };
+
+      if (editingCupom) {
+        await updateAdminCupom(editingCupom.id, cupomData);
+        toast.success("Cupom atualizado!");
+      } else {
+        await createAdminCupom(cupomData);
+        toast.success("Cupom criado!");
+      }
+
+      setDialogOpen(false);
+      loadCupons();
+    } catch (error) {
+      console.error('Erro ao salvar:', error);
+      toast.error(error instanceof Error ? error.message : "Erro ao salvar cupom");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      setDeleting(id);
+      await deleteAdminCupom(id);
+      setCupons(cupons.filter((c) => c.id !== id));
+      toast.success("Cupom excluído!");
+    } catch (error) {
+      console.error('Erro ao excluir:', error);
+      toast.error("Erro ao excluir cupom");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const renderStatus = (cupom: AdminCupom) => (
+    <span
+      className={`px-2 py-1 rounded-full text-xs ${
+        Number(cupom.ativo)
+          ? "bg-green-100 text-green-700"
+          : "bg-red-100 text-red-700"
+      }`}
+    >
+      {Number(cupom.ativo) ? "Ativo" : "Inativo"}
+    </span>
+  );
+
+  const renderDeleteButton = (cupom: AdminCupom, className = "") => (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={`text-destructive hover:text-destructive ${className}`}
+          disabled={deleting === cupom.id}
+        >
+          {deleting === cupom.id ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Trash2 className="w-4 h-4" />
+          )}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Excluir cupom?</AlertDialogTitle>
+          <AlertDialogDescription>
+            O cupom "{cupom.codigo}" deixará de funcionar. Pedidos que já o usaram mantêm o código e o desconto.
+            Para suspender temporariamente, desative o cupom.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancelar</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => handleDelete(cupom.id)}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            Excluir
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+
+  return (
+    <div className="min-h-screen bg-secondary flex flex-col">
+      <Header />
+
+      <div className="container py-4 lg:py-8 flex-1">
+        <div className="flex items-center gap-2 lg:gap-4 mb-4 lg:mb-6">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/admin/dashboard">
+              <ArrowLeft className="w-4 h-4 mr-1 lg:mr-2" />
+              <span className="hidden sm:inline">Voltar</span>
+            </Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 lg:px-6">
+            <CardTitle className="flex items-center gap-2 text-base lg:text-lg">
+              <Tag className="w-4 h-4 lg:w-5 lg:h-5" />
+              Cupons ({cupons.length})
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={loadCupons} disabled={loading}>
+                <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                <span className="hidden sm:inline ml-2">Atualizar</span>
+              </Button>
+              {podeEditar && (
+                <Button onClick={openNewDialog} size="sm">
+                  <Plus className="w-4 h-4" />
+                  <span className="hidden sm:inline ml-2">Novo Cupom</span>
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="px-4 lg:px-6">
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <>
+                {/* Mobile - Cards */}
+                <div className="lg:hidden space-y-3">
+                  {cupons.map((cupom) => (
+                    <div key={cupom.id} className="border rounded-lg p-3 flex items-center justify-between">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono font-medium truncate">{cupom.codigo}</span>
+                          {renderStatus(cupom)}
+                        </div>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {formatDesconto(cupom)} · {formatValidade(cupom)} · {formatUsos(cupom)} usos
+                        </p>
+                      </div>
+                      {podeEditar && (
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => openEditDialog(cupom)}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          {renderDeleteButton(cupom, "h-8 w-8")}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {/* Desktop - Table */}
+                <div className="hidden lg:block overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Código</TableHead>
+                        <TableHead>Desconto</TableHead>
+                        <TableHead>Mínimo</TableHead>
+                        <TableHead>Validade</TableHead>
+                        <TableHead>Usos</TableHead>
+                        <TableHead>Restrição</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Ações</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {cupons.map((cupom) => (
+                        <TableRow key={cupom.id}>
+                          <TableCell>
+                            <p className="font-mono font-medium">{cupom.codigo}</p>
+                            {cupom.descricao && (
+                              <p className="text-xs text-muted-foreground">{cupom.descricao}</p>
+                            )}
+                          </TableCell>
+                          <TableCell>{formatDesconto(cupom)}</TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {cupom.valor_minimo !== null ? formatPrice(Number(cupom.valor_minimo)) : "—"}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{formatValidade(cupom)}</TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {formatUsos(cupom)}
+                            {cupom.limite_por_cliente && (
+                              <span className="block text-xs">máx. {cupom.limite_por_cliente} por cliente</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground text-xs">
+                            {cupom.produtos.length === 0 && cupom.categorias.length === 0
+                              ? "Todos os produtos"
+                              : [
+                                  cupom.categorias.length > 0 && `${cupom.categorias.length} categoria(s)`,
+                                  cupom.produtos.length > 0 && `${cupom.produtos.length} produto(s)`,
+                                ]
+                                  .filter(Boolean)
+                                  .join(", ")}
+                          </TableCell>
+                          <TableCell>{renderStatus(cupom)}</TableCell>
+                          <TableCell className="text-right">
+                            {podeEditar && (
+                              <div className="flex items-center justify-end gap-2">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => openEditDialog(cupom)}
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </Button>
+                                {renderDeleteButton(cupom)}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {cupons.length === 0 && (
+                  <div className="text-center py-12">
+                    <Tag className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground">Nenhum cupom cadastrado</p>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Dialog de Criar/Editar */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingCupom ? "Editar Cupom" : "Novo Cupom"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="codigo">Código *</Label>
+                <Input
+                  id="codigo"
+                  value={formData.codigo}
+                  onChange={(e) => setFormData({ ...formData, codigo: e.target.value.toUpperCase() })}
+                  placeholder="Ex: BEMVINDO10"
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Tipo *</Label>
+                <Select
+                  value={formData.tipo}
+                  onValueChange={(value) => setFormData({ ...formData, tipo: value as CupomTipo })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CUPOM_TIPO_LABELS) as CupomTipo[]).map((tipo) => (
+                      <SelectItem key={tipo} value={tipo}>
+                        {CUPOM_TIPO_LABELS[tipo]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="descricao">Descrição</Label>
+              <Input
+                id="descricao"
+                value={formData.descricao}
+                onChange={(e) => setFormData({ ...formData, descricao: e.target.value })}
+                placeholder="Exibida ao cliente quando o cupom é aplicado"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {formData.tipo !== "frete_gratis" && (
+                <div className="space-y-2">
+                  <Label htmlFor="valor">{formData.tipo === "percentual" ? "Desconto (%) *" : "Desconto (R$) *"}</Label>
+                  <Input
+                    id="valor"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.valor}
+                    onChange={(e) => setFormData({ ...formData, valor: e.target.value })}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="valor_minimo">Pedido mínimo (R$)</Label>
+                <Input
+                  id="valor_minimo"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.valor_minimo}
+                  onChange={(e) => setFormData({ ...formData, valor_minimo: e.target.value })}
+                  placeholder="Sem mínimo"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="valido_de">Válido a partir de</Label>
+                <Input
+                  id="valido_de"
+                  type="datetime-local"
+                  value={formData.valido_de}
+                  onChange={(e) => setFormData({ ...formData, valido_de: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="valido_ate">Válido até</Label>
+                <Input
+                  id="valido_ate"
+                  type="datetime-local"
+                  value={formData.valido_ate}
+                  onChange={(e) => setFormData({ ...formData, valido_ate: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="limite_uso">Limite total de usos</Label>
+                <Input
+                  id="limite_uso"
+                  type="number"
+                  min="1"
+                  value={formData.limite_uso}
+                  onChange={(e) => setFormData({ ...formData, limite_uso: e.target.value })}
+                  placeholder="Ilimitado"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="limite_por_cliente">Usos por cliente</Label>
+                <Input
+                  id="limite_por_cliente"
+                  type="number"
+                  min="1"
+                  value={formData.limite_por_cliente}
+                  onChange={(e) => setFormData({ ...formData, limite_por_cliente: e.target.value })}
+                  placeholder="Ilimitado"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Categorias</Label>
+              <p className="text-xs text-muted-foreground">
+                Sem categorias e produtos marcados, o cupom vale para todo o carrinho.
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {categories.map((categoria) => (
+                  <label key={categoria.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={formData.categorias.includes(categoria.id)}
+                      onCheckedChange={() =>
+                        setFormData({ ...formData, categorias: toggleId(formData.categorias, categoria.id) })
+                      }
+                    />
+                    {categoria.nome}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Produtos ({formData.produtos.length} selecionados)</Label>
+              <Input
+                value={productSearch}
+                onChange={(e) => setProductSearch(e.target.value)}
+                placeholder="Buscar por nome ou SKU"
+              />
+              <div className="max-h-40 overflow-y-auto border rounded-lg p-2 space-y-1">
+                {filteredProducts.map((produto) => (
+                  <label key={produto.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={formData.produtos.includes(produto.id)}
+                      onCheckedChange={() =>
+                        setFormData({ ...formData, produtos: toggleId(formData.produtos, produto.id) })
+                      }
+                    />
+                    <span className="truncate">{produto.nome}</span>
+                  </label>
+                ))}
+                {filteredProducts.length === 0 && (
+                  <p className="text-xs text-muted-foreground text-center py-2">Nenhum produto encontrado</p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="ativo"
+                checked={formData.ativo}
+                onCheckedChange={(checked) => setFormData({ ...formData, ativo: checked })}
+              />
+              <Label htmlFor="ativo">Cupom ativo</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminCoupons;
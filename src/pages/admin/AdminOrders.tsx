@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -26,6 +26,16 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import {
   ShoppingCart,
   Search,
@@ -37,28 +47,31 @@ import {
   MapPin,
   Loader2,
   RefreshCw,
+  History,
+  ClipboardList,
 } from "lucide-react";
 import { toast } from "sonner";
-import { fetchAdminPedidos, AdminPedido, updateAdminPedidoStatus } from "@/services/adminApi";
+import { fetchAdminPedidos, fetchAdminPedido, AdminPedido, updateAdminPedidoStatus } from "@/services/adminApi";
+import { PEDIDO_STATUSES, PedidoStatus, getStatusConfig, getNextStatuses } from "@/lib/pedidoStatus";
+import { getFreteLabel } from "@/lib/frete";
+import { getBandeiraLabel } from "@/lib/cartao";
+import PedidoTimeline from "@/components/PedidoTimeline";
+import HistoricoAuditoria from "@/components/HistoricoAuditoria";
+import VariacaoInfo from "@/components/VariacaoInfo";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
-
-const statusConfig: Record<string, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
-  pendente: { label: "Pendente", variant: "secondary" },
-  pago: { label: "Pago", variant: "default" },
-  preparando: { label: "Preparando", variant: "outline" },
-  enviado: { label: "Enviado", variant: "outline" },
-  entregue: { label: "Entregue", variant: "default" },
-  cancelado: { label: "Cancelado", variant: "destructive" },
-};
+import { useAdminSessao } from "@/hooks/useAdminSessao";
 
 const AdminOrders = () => {
-  const navigate = useNavigate();
+  const { pode } = useAdminSessao();
+  const podeEditar = pode("pedidos.editar");
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [orders, setOrders] = useState<AdminPedido[]>([]);
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState<number | null>(null);
+  // Pedido no boleto aguardando confirmação da baixa manual
+  const [baixaBoleto, setBaixaBoleto] = useState<AdminPedido | null>(null);
 
   const loadOrders = async () => {
     try {
@@ -74,36 +87,60 @@ const AdminOrders = () => {
   };
 
   useEffect(() => {
-    const token = localStorage.getItem("adminToken") || sessionStorage.getItem("adminToken");
-    if (!token) {
-      navigate("/admin/login");
-      return;
-    }
     loadOrders();
-  }, [navigate]);
+  }, []);
+
+
+  // A listagem não traz itens nem histórico: carregar ao abrir os detalhes
+  const loadOrderDetails = async (orderId: number) => {
+    try {
+      const detail = await fetchAdminPedido(orderId);
+      setOrders((prev) => prev.map((o) => (o.id === orderId ? { ...o, ...detail } : o)));
+    } catch (error) {
+      console.error("Erro ao carregar detalhes do pedido:", error);
+      toast.error("Erro ao carregar detalhes do pedido");
+    }
+  };
 
+  const handleStatusChange = async (order: AdminPedido, newStatus: PedidoStatus, confirmado = false) => {
+    if (newStatus === order.status) return;
+
+    // Marcar como pago dá baixa na cobrança em aberto (boleto compensado fora do webhook)
+    const baixaBoleto = newStatus === "pago" && order.forma_pagamento === "boleto";
+    if (baixaBoleto && !confirmado) {
+      setBaixaBoleto(order);
+      return;
+    }
 
-  const handleStatusChange = async (orderId: number, newStatus: string) => {
     try {
-      setUpdating(orderId);
-      await updateAdminPedidoStatus(orderId, newStatus);
-      setOrders(orders.map((order) =>
-        order.id === orderId ? { ...order, status: newStatus } : order
+      setUpdating(order.id);
+      await updateAdminPedidoStatus(
+        order.id,
+        order.status,
+        newStatus,
+        undefined,
+        baixaBoleto ? "Baixa manual do boleto" : undefined
+      );
+      setOrders(orders.map((o) =>
+        o.id === order.id ? { ...o, status: newStatus, historico: undefined } : o
       ));
       toast.success("Status atualizado com sucesso!");
     } catch (error) {
       console.error("Erro ao atualizar status:", error);
-      toast.error("Erro ao atualizar status");
+      toast.error(error instanceof Error ? error.message : "Erro ao atualizar status");
     } finally {
       setUpdating(null);
     }
   };
 
   const getStatusBadge = (status: string) => {
-    const config = statusConfig[status] || statusConfig.pendente;
-    return <Badge variant={config.variant}>{config.label}</Badge>;
+    const config = getStatusConfig(status);
+    return <Badge variant={config.variant}>{config.shortLabel}</Badge>;
   };
 
+  // Status atual + transições permitidas
+  const getStatusOptions = (status: PedidoStatus) => [status, ...getNextStatuses(status)];
+
   const formatPrice = (price: number) => {
     return Number(price).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
   };
@@ -179,12 +216,11 @@ const AdminOrders = () => {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">Todos</SelectItem>
-                  <SelectItem value="pendente">Pendente</SelectItem>
-                  <SelectItem value="pago">Pago</SelectItem>
-                  <SelectItem value="preparando">Preparando</SelectItem>
-                  <SelectItem value="enviado">Enviado</SelectItem>
-                  <SelectItem value="entregue">Entregue</SelectItem>
-                  <SelectItem value="cancelado">Cancelado</SelectItem>
+                  {PEDIDO_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {getStatusConfig(status).shortLabel}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -212,8 +248,8 @@ const AdminOrders = () => {
                         <div className="flex items-center gap-2">
                           <Select
                             value={order.status}
-                            onValueChange={(value) => handleStatusChange(order.id, value)}
-                            disabled={updating === order.id}
+                            onValueChange={(value) => handleStatusChange(order, value as PedidoStatus)}
+                            disabled={updating === order.id || !podeEditar}
                           >
                             <SelectTrigger className="w-28 h-8 text-xs">
                               {updating === order.id ? (
@@ -223,15 +259,14 @@ const AdminOrders = () => {
                               )}
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="pendente">Pendente</SelectItem>
-                              <SelectItem value="pago">Pago</SelectItem>
-                              <SelectItem value="preparando">Preparando</SelectItem>
-                              <SelectItem value="enviado">Enviado</SelectItem>
-                              <SelectItem value="entregue">Entregue</SelectItem>
-                              <SelectItem value="cancelado">Cancelado</SelectItem>
+                              {getStatusOptions(order.status).map((status) => (
+                                <SelectItem key={status} value={status}>
+                                  {getStatusConfig(status).shortLabel}
+                                </SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
-                          <Dialog>
+                          <Dialog onOpenChange={(open) => open && loadOrderDetails(order.id)}>
                             <DialogTrigger asChild>
                               <Button variant="ghost" size="icon" className="h-8 w-8">
                                 <Eye className="w-4 h-4" />
@@ -267,7 +302,11 @@ const AdminOrders = () => {
                                 )}
                                 <div className="flex items-start gap-3">
                                   <CreditCard className="w-5 h-5 text-muted-foreground mt-0.5" />
-                                  <p className="text-sm">{getPaymentLabel(order.forma_pagamento)}</p>
+                                  <p className="text-sm">
+                                    {getPaymentLabel(order.forma_pagamento)}
+                                    {Number(order.parcelas) > 1 && ` em ${order.parcelas}x de ${formatPrice(Number(order.valor_parcela))}`}
+                                    {order.cartao_final && ` · ${getBandeiraLabel(order.cartao_bandeira)} final ${order.cartao_final}`}
+                                  </p>
                                 </div>
                                 <div className="flex items-start gap-3">
                                   <Package className="w-5 h-5 text-muted-foreground mt-0.5" />
@@ -276,7 +315,20 @@ const AdminOrders = () => {
                                     {order.itens && order.itens.length > 0 ? (
                                       order.itens.map((item, index) => (
                                         <div key={index} className="flex justify-between text-sm py-1">
-                                          <span>{item.nome} x{item.quantidade}</span>
+                                          <span>
+                                            {item.nome} x{item.quantidade}
+                                            <VariacaoInfo
+                                              cor={item.variacao_cor}
+                                              corCodigo={item.variacao_cor_codigo}
+                                              capacidade={item.variacao_capacidade}
+                                              className="flex text-xs"
+                                            />
+                                            {item.unidades && item.unidades.length > 0 && (
+                                              <span className="block text-xs text-muted-foreground font-mono">
+                                                {item.unidades.join(", ")}
+                                              </span>
+                                            )}
+                                          </span>
                                           <span>{formatPrice(item.preco_unitario)}</span>
                                         </div>
                                       ))
@@ -291,6 +343,24 @@ const AdminOrders = () => {
                                     </div>
                                   </div>
                                 </div>
+                                <div className="flex items-start gap-3">
+                                  <History className="w-5 h-5 text-muted-foreground mt-0.5" />
+                                  <div className="flex-1">
+                                    <p className="font-medium mb-3">Histórico</p>
+                                    {order.historico ? (
+                                      <PedidoTimeline historico={order.historico} showActor />
+                                    ) : (
+                                      <p className="text-sm text-muted-foreground">Carregando...</p>
+                                    )}
+                                  </div>
+                                </div>
+                                <div className="flex items-start gap-3">
+                                  <ClipboardList className="w-5 h-5 text-muted-foreground mt-0.5" />
+                                  <div className="flex-1">
+                                    <p className="font-medium mb-3">Alterações no painel</p>
+                                    <HistoricoAuditoria entidade="pedido" entidadeId={order.id} />
+                                  </div>
+                                </div>
                               </div>
                             </DialogContent>
                           </Dialog>
@@ -332,8 +402,8 @@ const AdminOrders = () => {
                             <div className="flex items-center justify-end gap-2">
                               <Select
                                 value={order.status}
-                                onValueChange={(value) => handleStatusChange(order.id, value)}
-                                disabled={updating === order.id}
+                                onValueChange={(value) => handleStatusChange(order, value as PedidoStatus)}
+                                disabled={updating === order.id || !podeEditar}
                               >
                                 <SelectTrigger className="w-32 h-8">
                                   {updating === order.id ? (
@@ -343,22 +413,21 @@ const AdminOrders = () => {
                                   )}
                                 </SelectTrigger>
                                 <SelectContent>
-                                  <SelectItem value="pendente">Pendente</SelectItem>
-                                  <SelectItem value="pago">Pago</SelectItem>
-                                  <SelectItem value="preparando">Preparando</SelectItem>
-                                  <SelectItem value="enviado">Enviado</SelectItem>
-                                  <SelectItem value="entregue">Entregue</SelectItem>
-                                  <SelectItem value="cancelado">Cancelado</SelectItem>
+                                  {getStatusOptions(order.status).map((status) => (
+                                    <SelectItem key={status} value={status}>
+                                      {getStatusConfig(status).shortLabel}
+                                    </SelectItem>
+                                  ))}
                                 </SelectContent>
                               </Select>
 
-                              <Dialog>
+                              <Dialog onOpenChange={(open) => open && loadOrderDetails(order.id)}>
                                 <DialogTrigger asChild>
                                   <Button variant="ghost" size="icon">
                                     <Eye className="w-4 h-4" />
                                   </Button>
                                 </DialogTrigger>
-                                <DialogContent className="max-w-lg">
+                                <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
                                   <DialogHeader>
                                     <DialogTitle>Pedido #{order.numero}</DialogTitle>
                                   </DialogHeader>
@@ -390,7 +459,11 @@ const AdminOrders = () => {
 
                                     <div className="flex items-start gap-3">
                                       <CreditCard className="w-5 h-5 text-muted-foreground mt-0.5" />
-                                      <p className="text-sm">{getPaymentLabel(order.forma_pagamento)}</p>
+                                      <p className="text-sm">
+                                        {getPaymentLabel(order.forma_pagamento)}
+                                        {Number(order.parcelas) > 1 && ` em ${order.parcelas}x de ${formatPrice(Number(order.valor_parcela))}`}
+                                        {order.cartao_final && ` · ${getBandeiraLabel(order.cartao_bandeira)} final ${order.cartao_final}`}
+                                      </p>
                                     </div>
 
                                     <div className="flex items-start gap-3">
@@ -400,7 +473,20 @@ const AdminOrders = () => {
                                         {order.itens && order.itens.length > 0 ? (
                                           order.itens.map((item, index) => (
                                             <div key={index} className="flex justify-between text-sm py-1">
-                                              <span>{item.nome} x{item.quantidade}</span>
+                                              <span>
+                                                {item.nome} x{item.quantidade}
+                                                <VariacaoInfo
+                                                  cor={item.variacao_cor}
+                                                  corCodigo={item.variacao_cor_codigo}
+                                                  capacidade={item.variacao_capacidade}
+                                                  className="flex text-xs"
+                                                />
+                                                {item.unidades && item.unidades.length > 0 && (
+                                                  <span className="block text-xs text-muted-foreground font-mono">
+                                                    {item.unidades.join(", ")}
+                                                  </span>
+                                                )}
+                                              </span>
                                               <span>{formatPrice(item.preco_unitario)}</span>
                                             </div>
                                           ))
@@ -416,16 +502,22 @@ const AdminOrders = () => {
                                           )}
                                           {order.desconto > 0 && (
                                             <div className="flex justify-between text-sm text-green-600">
-                                              <span>Desconto</span>
+                                              <span>Desconto{order.cupom_codigo ? ` (cupom ${order.cupom_codigo})` : ""}</span>
                                               <span>-{formatPrice(order.desconto)}</span>
                                             </div>
                                           )}
                                           {order.frete > 0 && (
                                             <div className="flex justify-between text-sm">
-                                              <span>Frete</span>
+                                              <span>Frete{order.frete_servico && ` (${getFreteLabel(order.frete_servico)})`}</span>
                                               <span>{formatPrice(order.frete)}</span>
                                             </div>
                                           )}
+                                          {Number(order.juros) > 0 && (
+                                            <div className="flex justify-between text-sm">
+                                              <span>Juros ({order.parcelas}x)</span>
+                                              <span>{formatPrice(Number(order.juros))}</span>
+                                            </div>
+                                          )}
                                           <div className="flex justify-between font-medium mt-1">
                                             <span>Total</span>
                                             <span>{formatPrice(order.total)}</span>
@@ -433,6 +525,24 @@ const AdminOrders = () => {
                                         </div>
                                       </div>
                                     </div>
+                                    <div className="flex items-start gap-3">
+                                      <History className="w-5 h-5 text-muted-foreground mt-0.5" />
+                                      <div className="flex-1">
+                                        <p className="font-medium mb-3">Histórico</p>
+                                        {order.historico ? (
+                                          <PedidoTimeline historico={order.historico} showActor />
+                                        ) : (
+                                          <p className="text-sm text-muted-foreground">Carregando...</p>
+                                        )}
+                                      </div>
+                                    </div>
+                                    <div className="flex items-start gap-3">
+                                      <ClipboardList className="w-5 h-5 text-muted-foreground mt-0.5" />
+                                      <div className="flex-1">
+                                        <p className="font-medium mb-3">Alterações no painel</p>
+                                        <HistoricoAuditoria entidade="pedido" entidadeId={order.id} />
+                                      </div>
+                                    </div>
                                   </div>
                                 </DialogContent>
                               </Dialog>
@@ -456,6 +566,24 @@ const AdminOrders = () => {
         </Card>
       </div>
 
+      <AlertDialog open={!!baixaBoleto} onOpenChange={(open) => !open && setBaixaBoleto(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Confirmar pagamento do boleto?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Use quando o boleto do pedido #{baixaBoleto?.numero} já foi compensado no banco e a
+              notificação não chegou. O pedido passa para "Pago" e a reserva de estoque é confirmada.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={() => baixaBoleto && handleStatusChange(baixaBoleto, "pago", true)}>
+              Confirmar baixa
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <Footer />
     </div>
   );
@@ -20,7 +20,7 @@ import {
   DialogTitle,
   DialogFooter,
 } from "@/components/ui/dialog";
-import { ArrowLeft, Save, Package, Plus, Trash2, Loader2, ImagePlus, GripVertical, Palette, HardDrive, Box, Eye } from "lucide-react";
+import { ArrowLeft, Save, Package, Plus, Trash2, Loader2, ImagePlus, Palette, HardDrive, Box, Eye, History } from "lucide-react";
 import { toast } from "sonner";
 import {
   fetchAdminProduct,
@@ -28,17 +28,15 @@ import {
   createAdminProduct,
   updateAdminProduct,
   AdminCategory,
+  AdminImagemInput,
 } from "@/services/adminApi";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import Modal3DViewer from "@/components/Modal3DViewerV2";
-
-interface ImageInput {
-  id?: number;
-  url: string;
-  ordem: number;
-  principal: boolean;
-}
+import HistoricoAuditoria from "@/components/HistoricoAuditoria";
+import ProdutoImagensEditor from "@/components/ProdutoImagensEditor";
+import { BATTERY_HEALTH, CONDITIONS } from "@/lib/produtoCondicao";
+import { IPHONE_CAPACIDADES } from "@/lib/iphoneSpecs";
 
 interface SpecInput {
   id?: number;
@@ -61,28 +59,6 @@ const IPHONE_MODELS = [
   "IPHONE SE 2020", "IPHONE SE 2022"
 ];
 
-// Condições disponíveis
-const CONDITIONS = [
-  { value: "novo", label: "Novo" },
-  { value: "seminovo", label: "Seminovo" },
-  { value: "usado_excelente", label: "Usado - Excelente" },
-  { value: "usado_bom", label: "Usado - Bom" },
-  { value: "recondicionado", label: "Recondicionado" },
-  { value: "com_defeito", label: "Com defeito" }
-];
-
-// Saúde da Bateria
-const BATTERY_HEALTH = [
-  { value: "perfeita", label: "Perfeita (95% até 100%)" },
-  { value: "boa", label: "Boa (80% até 94%)" },
-  { value: "ok", label: "OK (60% até 79%)" },
-  { value: "ruim", label: "Ruim (40% até 59%)" },
-  { value: "muito_ruim", label: "Muito Ruim (abaixo de 39%)" }
-];
-
-// Capacidades disponíveis padrão
-const DEFAULT_CAPACITIES = ["64GB", "128GB", "256GB", "512GB", "1TB"];
-
 // Cores disponíveis padrão com códigos hex
 const DEFAULT_COLORS = [
   { name: "Amarelo", code: "#FFD700" },
@@ -237,7 +213,6 @@ const AdminProductForm = () => {
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [categories, setCategories] = useState<AdminCategory[]>([]);
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
   
   // Dados básicos do produto
   const [formData, setFormData] = useState({
@@ -251,6 +226,7 @@ const AdminProductForm = () => {
     preco_original: "",
     estoque: "",
     garantia_meses: "12",
+    peso_gramas: "400",
     descricao: "",
     descricao_curta: "",
     tela: "",
@@ -264,7 +240,7 @@ const AdminProductForm = () => {
 
   // Lista de cores e capacidades disponíveis (dinâmicas)
   const [availableColors, setAvailableColors] = useState<ColorOption[]>(DEFAULT_COLORS);
-  const [availableCapacities, setAvailableCapacities] = useState<string[]>(DEFAULT_CAPACITIES);
+  const [availableCapacities, setAvailableCapacities] = useState<string[]>(IPHONE_CAPACIDADES);
   const [availableDisplaySpecs, setAvailableDisplaySpecs] = useState<string[]>(
     [...new Set(Object.values(DISPLAY_SPECS))]
   );
@@ -285,13 +261,14 @@ const AdminProductForm = () => {
   // Variações geradas automaticamente
   const [variations, setVariations] = useState<VariationSelection[]>([]);
 
-  const [images, setImages] = useState<ImageInput[]>([
-    { url: "", ordem: 0, principal: true }
-  ]);
+  const [images, setImages] = useState<AdminImagemInput[]>([]);
 
   const [specs, setSpecs] = useState<SpecInput[]>([]);
   const [showSpecSelector, setShowSpecSelector] = useState(false);
 
+  // Com unidades de aparelho cadastradas, o estoque é calculado por elas
+  const [unidadesTotal, setUnidadesTotal] = useState(0);
+
   // Carregar categorias
   useEffect(() => {
     const loadCategories = async () => {
@@ -313,16 +290,10 @@ const AdminProductForm = () => {
   }, []);
 
   useEffect(() => {
-    const token = localStorage.getItem("adminToken") || sessionStorage.getItem("adminToken");
-    if (!token) {
-      navigate("/admin/login", { replace: true });
-    } else {
-      setIsAuthenticated(true);
-      if (isEditing) {
-        loadProduct();
-      }
+    if (isEditing) {
+      loadProduct();
     }
-  }, [navigate, isEditing, id]);
+  }, [isEditing, id]);
 
   // Auto-preencher especificações quando modelo muda
   useEffect(() => {
@@ -381,6 +352,7 @@ const AdminProductForm = () => {
         preco_original: String(product.preco_original || ""),
         estoque: String(product.estoque || ""),
         garantia_meses: String(product.garantia_meses || "12"),
+        peso_gramas: String(product.peso_gramas || "400"),
         descricao: product.descricao || "",
         descricao_curta: product.descricao_curta || "",
         tela: product.tela || "",
@@ -391,9 +363,14 @@ const AdminProductForm = () => {
         modelo_3d_url: (product as any).modelo_3d_url || "",
         ar_enabled: (product as any).ar_enabled || false,
       });
+      setUnidadesTotal(product.unidades_total ?? 0);
 
       if (product.imagens && product.imagens.length > 0) {
-        setImages(product.imagens);
+        setImages(product.imagens.map((img) => ({
+          url: img.url,
+          variantes: img.variantes,
+          principal: Boolean(img.principal),
+        })));
       }
 
       if (product.especificacoes && product.especificacoes.length > 0) {
@@ -522,33 +499,6 @@ const AdminProductForm = () => {
     setVariations(newVariations);
   };
 
-  // Gerenciamento de imagens
-  const addImage = () => {
-    setImages([...images, { url: "", ordem: images.length, principal: false }]);
-  };
-
-  const removeImage = (index: number) => {
-    const newImages = images.filter((_, i) => i !== index);
-    if (images[index].principal && newImages.length > 0) {
-      newImages[0].principal = true;
-    }
-    setImages(newImages);
-  };
-
-  const updateImage = (index: number, url: string) => {
-    const newImages = [...images];
-    newImages[index].url = url;
-    setImages(newImages);
-  };
-
-  const setMainImage = (index: number) => {
-    const newImages = images.map((img, i) => ({
-      ...img,
-      principal: i === index,
-    }));
-    setImages(newImages);
-  };
-
   // Gerenciamento de especificações
   const addSpec = (specLabel?: string) => {
     const newSpec: SpecInput = { label: specLabel || "", valor: "" };
@@ -568,14 +518,13 @@ const AdminProductForm = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+
     if (!formData.nome || !formData.categoria_id || !formData.preco) {
       toast.error("Preencha todos os campos obrigatórios");
       return;
     }
 
-    const validImages = images.filter(img => img.url.trim());
-    if (validImages.length === 0) {
+    if (images.length === 0) {
       toast.error("Adicione pelo menos uma imagem");
       return;
     }
@@ -605,6 +554,7 @@ const AdminProductForm = () => {
         preco_original: Number(formData.preco_original) || Number(formData.preco),
         estoque: Number(formData.estoque) || 0,
         garantia_meses: Number(formData.garantia_meses) || 12,
+        peso_gramas: Number(formData.peso_gramas) || 400,
         descricao: formData.descricao,
         descricao_curta: formData.descricao_curta,
         tela: formData.tela,
@@ -614,7 +564,7 @@ const AdminProductForm = () => {
         ativo: formData.ativo,
         modelo_3d_url: formData.modelo_3d_url || null,
         ar_enabled: formData.ar_enabled,
-        imagens: validImages.map((img) => img.url),
+        imagens: images,
         especificacoes: validSpecs,
         variacoes: validVariations,
       };
@@ -636,7 +586,7 @@ const AdminProductForm = () => {
     }
   };
 
-  if (isAuthenticated === null || loading) {
+  if (loading) {
     return (
       <div className="min-h-screen bg-secondary flex items-center justify-center">
         <Loader2 className="w-8 h-8 animate-spin text-primary" />
@@ -801,7 +751,16 @@ const AdminProductForm = () => {
                       value={formData.estoque}
                       onChange={(e) => handleChange("estoque", e.target.value)}
                       placeholder="0"
+                      disabled={unidadesTotal > 0}
                     />
+                    {unidadesTotal > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Calculado pelas{" "}
+                        <Link to={`/admin/unidades?produto_id=${id}`} className="underline">
+                          {unidadesTotal} unidade(s) cadastrada(s)
+                        </Link>
+                      </p>
+                    )}
                   </div>
 
                   <div className="space-y-2">
@@ -814,6 +773,18 @@ const AdminProductForm = () => {
                       placeholder="12"
                     />
                   </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="peso_gramas">Peso com embalagem (g)</Label>
+                    <Input
+                      id="peso_gramas"
+                      type="number"
+                      min="1"
+                      value={formData.peso_gramas}
+                      onChange={(e) => handleChange("peso_gramas", e.target.value)}
+                      placeholder="400"
+                    />
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -938,6 +909,7 @@ const AdminProductForm = () => {
                             onChange={(e) => updateVariation(index, 'estoque', e.target.value)}
                             className="w-20"
                             min="0"
+                            disabled={unidadesTotal > 0}
                           />
                         </div>
                         <div className="flex items-center gap-2">
@@ -1188,68 +1160,32 @@ const AdminProductForm = () => {
 
             {/* Imagens */}
             <Card>
-              <CardHeader className="flex flex-row items-center justify-between">
+              <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <ImagePlus className="w-5 h-5" />
                   Imagens
                 </CardTitle>
-                <Button type="button" variant="outline" size="sm" onClick={addImage}>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Adicionar
-                </Button>
               </CardHeader>
-              <CardContent className="space-y-4">
-                {images.map((image, index) => (
-                  <div key={index} className="flex items-start gap-3 p-3 border rounded-lg">
-                    <GripVertical className="w-5 h-5 text-muted-foreground mt-2 cursor-move" />
-                    
-                    {image.url && (
-                      <img 
-                        src={image.url} 
-                        alt={`Preview ${index + 1}`}
-                        className="w-16 h-16 object-cover rounded"
-                        onError={(e) => {
-                          (e.target as HTMLImageElement).src = '/placeholder.svg';
-                        }}
-                      />
-                    )}
-                    
-                    <div className="flex-1 space-y-2">
-                      <Input
-                        value={image.url}
-                        onChange={(e) => updateImage(index, e.target.value)}
-                        placeholder="Cole a URL da imagem"
-                      />
-                      <div className="flex items-center gap-2">
-                        <input
-                          type="radio"
-                          name="mainImage"
-                          checked={image.principal}
-                          onChange={() => setMainImage(index)}
-                          id={`main-${index}`}
-                        />
-                        <Label htmlFor={`main-${index}`} className="text-sm text-muted-foreground">
-                          Imagem principal
-                        </Label>
-                      </div>
-                    </div>
-                    
-                    {images.length > 1 && (
-                      <Button 
-                        type="button"
-                        variant="ghost" 
-                        size="icon"
-                        className="text-destructive hover:text-destructive"
-                        onClick={() => removeImage(index)}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    )}
-                  </div>
-                ))}
+              <CardContent>
+                <ProdutoImagensEditor imagens={images} onChange={setImages} />
               </CardContent>
             </Card>
 
+            {/* Histórico de alterações */}
+            {isEditing && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <History className="w-5 h-5" />
+                    Histórico de alterações
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <HistoricoAuditoria entidade="produto" entidadeId={Number(id)} />
+                </CardContent>
+              </Card>
+            )}
+
             {/* Botão de Salvar */}
             <div className="flex justify-end gap-4">
               <Button type="button" variant="outline" asChild>
@@ -1,8 +1,19 @@
-import { useEffect, useState } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -22,6 +33,12 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Package,
   Plus,
@@ -31,47 +48,142 @@ import {
   ArrowLeft,
   Loader2,
   RefreshCw,
+  Download,
+  Upload,
+  ChevronLeft,
+  ChevronRight,
+  Star,
 } from "lucide-react";
 import { toast } from "sonner";
-import { fetchAdminProducts, deleteAdminProduct, AdminProduct } from "@/services/adminApi";
+import {
+  fetchAdminProdutosPagina,
+  fetchAdminCategories,
+  deleteAdminProduct,
+  exportAdminProdutos,
+  AdminProduct,
+  AdminProdutoFiltros,
+  AdminProdutoOrdenacao,
+  PlanilhaFormato,
+} from "@/services/adminApi";
 import Header from "@/components/Header";
+import ImportarProdutosDialog from "@/components/ImportarProdutosDialog";
+import AcoesLoteProdutos from "@/components/AcoesLoteProdutos";
 import Footer from "@/components/Footer";
+import { useAdminSessao } from "@/hooks/useAdminSessao";
+import { useDebouncedValue } from "@/hooks/useDebouncedValue";
+import { CONDITIONS, getCondicaoLabel } from "@/lib/produtoCondicao";
+
+const POR_PAGINA = 20;
+
+// Opções do seletor de ordem: "coluna:direcao"
+const ORDENACOES: { value: string; label: string }[] = [
+  { value: "created_at:desc", label: "Mais recentes" },
+  { value: "created_at:asc", label: "Mais antigos" },
+  { value: "nome:asc", label: "Nome (A-Z)" },
+  { value: "nome:desc", label: "Nome (Z-A)" },
+  { value: "preco:asc", label: "Menor preço" },
+  { value: "preco:desc", label: "Maior preço" },
+  { value: "estoque:asc", label: "Menor estoque" },
+  { value: "estoque:desc", label: "Maior estoque" },
+  { value: "categoria:asc", label: "Categoria" },
+];
+
+// "" (campo vazio) não filtra
+const toNumero = (valor: string) => (valor.trim() === "" ? undefined : Number(valor.replace(",", ".")));
+const toBooleano = (valor: string) => (valor === "all" ? undefined : valor === "1");
 
 const AdminProducts = () => {
-  const navigate = useNavigate();
-  const [searchTerm, setSearchTerm] = useState("");
-  const [products, setProducts] = useState<AdminProduct[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { pode } = useAdminSessao();
+  const podeEditar = pode("produtos.editar");
+  const [busca, setBusca] = useState("");
+  const [categoriaId, setCategoriaId] = useState("all");
+  const [condicao, setCondicao] = useState("all");
+  const [ativo, setAtivo] = useState("all");
+  const [destaque, setDestaque] = useState("all");
+  const [estoqueMin, setEstoqueMin] = useState("");
+  const [estoqueMax, setEstoqueMax] = useState("");
+  const [precoMin, setPrecoMin] = useState("");
+  const [precoMax, setPrecoMax] = useState("");
+  const [ordem, setOrdem] = useState(ORDENACOES[0].value);
+  const [pagina, setPagina] = useState(1);
+  // Marcados para as ações em lote; continuam marcados ao trocar de página
+  const [selecionados, setSelecionados] = useState<Record<number, AdminProduct>>({});
   const [deleting, setDeleting] = useState<number | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
 
-  const loadProducts = async () => {
-    try {
-      setLoading(true);
-      const data = await fetchAdminProducts();
-      setProducts(data);
-    } catch (error) {
-      console.error('Erro ao carregar produtos:', error);
-      toast.error('Erro ao carregar produtos');
-    } finally {
-      setLoading(false);
-    }
+  const buscaDebounced = useDebouncedValue(busca.trim());
+  const faixas = useDebouncedValue({ estoqueMin, estoqueMax, precoMin, precoMax });
+  const [ordenar, direcao] = ordem.split(":") as [AdminProdutoOrdenacao, "asc" | "desc"];
+
+  const filtros: AdminProdutoFiltros = {
+    busca: buscaDebounced || undefined,
+    categoria_id: categoriaId !== "all" ? Number(categoriaId) : undefined,
+    condicao: condicao !== "all" ? condicao : undefined,
+    ativo: toBooleano(ativo),
+    destaque: toBooleano(destaque),
+    estoque_min: toNumero(faixas.estoqueMin),
+    estoque_max: toNumero(faixas.estoqueMax),
+    preco_min: toNumero(faixas.precoMin),
+    preco_max: toNumero(faixas.precoMax),
+    ordenar,
+    direcao,
+    pagina,
+    limite: POR_PAGINA,
   };
 
-  useEffect(() => {
-    const token = localStorage.getItem("adminToken") || sessionStorage.getItem("adminToken");
-    if (!token) {
-      navigate("/admin/login");
-      return;
-    }
-    loadProducts();
-  }, [navigate]);
+  const { data, isLoading, isFetching, isError, refetch } = useQuery({
+    queryKey: ["admin-produtos", filtros],
+    queryFn: () => fetchAdminProdutosPagina(filtros),
+    placeholderData: keepPreviousData,
+  });
 
+  const { data: categorias = [] } = useQuery({
+    queryKey: ["admin-categorias"],
+    queryFn: fetchAdminCategories,
+  });
+
+  const products = data?.produtos ?? [];
+  const totalPaginas = data ? Math.max(1, Math.ceil(data.total / data.limite)) : 1;
+  const listaSelecionados = Object.values(selecionados);
+  const todosDaPaginaMarcados = products.length > 0 && products.every((p) => selecionados[p.id]);
+  const algunsDaPaginaMarcados = products.some((p) => selecionados[p.id]);
+
+  // Mudar um filtro volta para a primeira página
+  const filtrar = (setter: (valor: string) => void) => (valor: string) => {
+    setter(valor);
+    setPagina(1);
+  };
+
+  const toggleSelecionado = (product: AdminProduct, marcado: boolean) => {
+    setSelecionados((atual) => {
+      const novo = { ...atual };
+      if (marcado) novo[product.id] = product;
+      else delete novo[product.id];
+      return novo;
+    });
+  };
+
+  const togglePagina = (marcado: boolean) => {
+    setSelecionados((atual) => {
+      const novo = { ...atual };
+      products.forEach((p) => {
+        if (marcado) novo[p.id] = p;
+        else delete novo[p.id];
+      });
+      return novo;
+    });
+  };
 
   const handleDelete = async (id: number) => {
     try {
       setDeleting(id);
       await deleteAdminProduct(id);
-      setProducts(products.filter((p) => p.id !== id));
+      setSelecionados((atual) => {
+        const { [id]: _removido, ...resto } = atual;
+        return resto;
+      });
+      refetch();
       toast.success("Produto excluído com sucesso!");
     } catch (error) {
       console.error('Erro ao excluir:', error);
@@ -81,12 +193,23 @@ const AdminProducts = () => {
     }
   };
 
-  const filteredProducts = products.filter(
-    (p) =>
-      p.nome.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      p.categoria?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      p.sku?.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const handleExport = async (formato: PlanilhaFormato) => {
+    try {
+      setExporting(true);
+      const arquivo = await exportAdminProdutos(formato);
+      const url = URL.createObjectURL(arquivo);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `produtos-${new Date().toISOString().slice(0, 10)}.${formato}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Erro ao exportar:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao exportar produtos');
+    } finally {
+      setExporting(false);
+    }
+  };
 
   const formatPrice = (price: number) => {
     return price.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
@@ -110,44 +233,207 @@ const AdminProducts = () => {
           <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 lg:px-6">
             <CardTitle className="flex items-center gap-2 text-base lg:text-lg">
               <Package className="w-4 h-4 lg:w-5 lg:h-5" />
-              Produtos ({products.length})
+              Produtos {data && `(${data.total})`}
             </CardTitle>
-            <div className="flex gap-2">
-              <Button variant="outline" size="sm" onClick={loadProducts} disabled={loading}>
-                <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
                 <span className="hidden sm:inline ml-2">Atualizar</span>
               </Button>
-              <Button asChild size="sm">
-                <Link to="/admin/produtos/novo">
-                  <Plus className="w-4 h-4" />
-                  <span className="hidden sm:inline ml-2">Novo Produto</span>
-                </Link>
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={exporting}>
+                    {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                    <span className="hidden sm:inline ml-2">Exportar</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => handleExport("xlsx")}>Planilha (XLSX)</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport("csv")}>CSV</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              {podeEditar && (
+                <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+                  <Upload className="w-4 h-4" />
+                  <span className="hidden sm:inline ml-2">Importar</span>
+                </Button>
+              )}
+              {podeEditar && (
+                <Button asChild size="sm">
+                  <Link to="/admin/produtos/novo">
+                    <Plus className="w-4 h-4" />
+                    <span className="hidden sm:inline ml-2">Novo Produto</span>
+                  </Link>
+                </Button>
+              )}
             </div>
           </CardHeader>
           <CardContent className="px-4 lg:px-6">
-            {/* Search */}
-            <div className="relative mb-4 lg:mb-6">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-              <Input
-                placeholder="Buscar por nome, categoria ou SKU..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
-              />
+            {/* Busca e filtros */}
+            <div className="space-y-3 mb-4 lg:mb-6">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  placeholder="Buscar por nome, categoria ou SKU..."
+                  value={busca}
+                  onChange={(e) => filtrar(setBusca)(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Categoria</Label>
+                  <Select value={categoriaId} onValueChange={filtrar(setCategoriaId)}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Todas</SelectItem>
+                      {categorias.map((categoria) => (
+                        <SelectItem key={categoria.id} value={String(categoria.id)}>
+                          {categoria.nome}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Condição</Label>
+                  <Select value={condicao} onValueChange={filtrar(setCondicao)}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Todas</SelectItem>
+                      {CONDITIONS.map((cond) => (
+                        <SelectItem key={cond.value} value={cond.value}>
+                          {cond.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Situação</Label>
+                  <Select value={ativo} onValueChange={filtrar(setAtivo)}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Todos</SelectItem>
+                      <SelectItem value="1">Ativos</SelectItem>
+                      <SelectItem value="0">Inativos</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Destaque</Label>
+                  <Select value={destaque} onValueChange={filtrar(setDestaque)}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Todos</SelectItem>
+                      <SelectItem value="1">Em destaque</SelectItem>
+                      <SelectItem value="0">Sem destaque</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Ordenar por</Label>
+                  <Select value={ordem} onValueChange={filtrar(setOrdem)}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ORDENACOES.map((opcao) => (
+                        <SelectItem key={opcao.value} value={opcao.value}>
+                          {opcao.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Estoque</Label>
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Mín."
+                      className="h-9"
+                      value={estoqueMin}
+                      onChange={(e) => filtrar(setEstoqueMin)(e.target.value)}
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Máx."
+                      className="h-9"
+                      value={estoqueMax}
+                      onChange={(e) => filtrar(setEstoqueMax)(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Preço (R$)</Label>
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Mín."
+                      className="h-9"
+                      value={precoMin}
+                      onChange={(e) => filtrar(setPrecoMin)(e.target.value)}
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Máx."
+                      className="h-9"
+                      value={precoMax}
+                      onChange={(e) => filtrar(setPrecoMax)(e.target.value)}
+                    />
+                  </div>
+                </div>
+              </div>
             </div>
 
-            {loading ? (
+            {podeEditar && listaSelecionados.length > 0 && (
+              <AcoesLoteProdutos
+                selecionados={listaSelecionados}
+                categorias={categorias}
+                onLimpar={() => setSelecionados({})}
+                onConcluido={() => {
+                  setSelecionados({});
+                  refetch();
+                }}
+              />
+            )}
+
+            {isLoading ? (
               <div className="flex items-center justify-center py-12">
                 <Loader2 className="w-8 h-8 animate-spin text-primary" />
               </div>
+            ) : isError || !data ? (
+              <p className="text-center text-muted-foreground py-12">Erro ao carregar produtos</p>
             ) : (
               <>
                 {/* Mobile - Cards */}
                 <div className="lg:hidden space-y-3">
-                  {filteredProducts.map((product) => (
+                  {products.map((product) => (
                     <div key={product.id} className="border rounded-lg p-3 space-y-2">
                       <div className="flex items-start gap-3">
+                        {podeEditar && (
+                          <Checkbox
+                            className="mt-1"
+                            checked={Boolean(selecionados[product.id])}
+                            onCheckedChange={(marcado) => toggleSelecionado(product, marcado === true)}
+                            aria-label={`Selecionar ${product.nome}`}
+                          />
+                        )}
                         {product.imagens && product.imagens.length > 0 ? (
                           <img 
                             src={product.imagens[0].url} 
@@ -161,7 +447,7 @@ const AdminProducts = () => {
                         )}
                         <div className="flex-1 min-w-0">
                           <p className="font-medium text-sm truncate">{product.nome}</p>
-                          <p className="text-xs text-muted-foreground">{product.categoria || '-'}</p>
+                          <p className="text-xs text-muted-foreground">{product.categoria_nome || '-'}</p>
                           <div className="flex items-center gap-2 mt-1">
                             <span className="font-medium text-sm">{formatPrice(product.preco)}</span>
                             <span
@@ -175,47 +461,53 @@ const AdminProducts = () => {
                             >
                               {product.estoque} un.
                             </span>
+                            {Boolean(product.destaque) && <Star className="w-3.5 h-3.5 fill-current text-primary" />}
+                            {!product.ativo && <Badge variant="outline" className="text-xs">Inativo</Badge>}
                           </div>
                         </div>
                         <div className="flex flex-col gap-1">
-                          <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
-                            <Link to={`/admin/produtos/${product.id}`}>
-                              <Edit className="w-4 h-4" />
-                            </Link>
-                          </Button>
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button 
-                                variant="ghost" 
-                                size="icon" 
-                                className="h-8 w-8 text-destructive hover:text-destructive"
-                                disabled={deleting === product.id}
-                              >
-                                {deleting === product.id ? (
-                                  <Loader2 className="w-4 h-4 animate-spin" />
-                                ) : (
-                                  <Trash2 className="w-4 h-4" />
-                                )}
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Excluir produto?</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Esta ação não pode ser desfeita. O produto "{product.nome}" será removido permanentemente.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                                <AlertDialogAction
-                                  onClick={() => handleDelete(product.id)}
-                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          {podeEditar && (
+                            <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                              <Link to={`/admin/produtos/${product.id}`}>
+                                <Edit className="w-4 h-4" />
+                              </Link>
+                            </Button>
+                          )}
+                          {podeEditar && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button 
+                                  variant="ghost" 
+                                  size="icon" 
+                                  className="h-8 w-8 text-destructive hover:text-destructive"
+                                  disabled={deleting === product.id}
                                 >
-                                  Excluir
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
+                                  {deleting === product.id ? (
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                  ) : (
+                                    <Trash2 className="w-4 h-4" />
+                                  )}
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Excluir produto?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Esta ação não pode ser desfeita. O produto "{product.nome}" será removido permanentemente.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => handleDelete(product.id)}
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                  >
+                                    Excluir
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -227,6 +519,15 @@ const AdminProducts = () => {
                   <Table>
                     <TableHeader>
                       <TableRow>
+                        {podeEditar && (
+                          <TableHead className="w-10">
+                            <Checkbox
+                              checked={todosDaPaginaMarcados ? true : algunsDaPaginaMarcados ? "indeterminate" : false}
+                              onCheckedChange={(marcado) => togglePagina(marcado === true)}
+                              aria-label="Selecionar todos da página"
+                            />
+                          </TableHead>
+                        )}
                         <TableHead className="w-16">Img</TableHead>
                         <TableHead>Produto</TableHead>
                         <TableHead>Categoria</TableHead>
@@ -234,12 +535,22 @@ const AdminProducts = () => {
                         <TableHead>Preço Original</TableHead>
                         <TableHead>Estoque</TableHead>
                         <TableHead>Condição</TableHead>
+                        <TableHead>Situação</TableHead>
                         <TableHead className="text-right">Ações</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {filteredProducts.map((product) => (
-                        <TableRow key={product.id}>
+                      {products.map((product) => (
+                        <TableRow key={product.id} data-state={selecionados[product.id] ? "selected" : undefined}>
+                          {podeEditar && (
+                            <TableCell>
+                              <Checkbox
+                                checked={Boolean(selecionados[product.id])}
+                                onCheckedChange={(marcado) => toggleSelecionado(product, marcado === true)}
+                                aria-label={`Selecionar ${product.nome}`}
+                              />
+                            </TableCell>
+                          )}
                           <TableCell>
                             {product.imagens && product.imagens.length > 0 ? (
                               <img 
@@ -256,7 +567,7 @@ const AdminProducts = () => {
                           <TableCell className="font-medium max-w-[200px] truncate">
                             {product.nome}
                           </TableCell>
-                          <TableCell>{product.categoria || '-'}</TableCell>
+                          <TableCell>{product.categoria_nome || '-'}</TableCell>
                           <TableCell>{formatPrice(product.preco)}</TableCell>
                           <TableCell className="text-muted-foreground line-through">
                             {formatPrice(product.preco_original)}
@@ -274,47 +585,63 @@ const AdminProducts = () => {
                               {product.estoque} un.
                             </span>
                           </TableCell>
-                          <TableCell>{product.condicao}</TableCell>
+                          <TableCell>{getCondicaoLabel(product.condicao)}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-1.5">
+                              {product.ativo ? (
+                                <Badge variant="secondary" className="text-xs">Ativo</Badge>
+                              ) : (
+                                <Badge variant="outline" className="text-xs">Inativo</Badge>
+                              )}
+                              {Boolean(product.destaque) && (
+                                <Star className="w-4 h-4 fill-current text-primary" aria-label="Em destaque" />
+                              )}
+                            </div>
+                          </TableCell>
                           <TableCell className="text-right">
                             <div className="flex items-center justify-end gap-2">
-                              <Button variant="ghost" size="icon" asChild>
-                                <Link to={`/admin/produtos/${product.id}`}>
-                                  <Edit className="w-4 h-4" />
-                                </Link>
-                              </Button>
-                              <AlertDialog>
-                                <AlertDialogTrigger asChild>
-                                  <Button 
-                                    variant="ghost" 
-                                    size="icon" 
-                                    className="text-destructive hover:text-destructive"
-                                    disabled={deleting === product.id}
-                                  >
-                                    {deleting === product.id ? (
-                                      <Loader2 className="w-4 h-4 animate-spin" />
-                                    ) : (
-                                      <Trash2 className="w-4 h-4" />
-                                    )}
-                                  </Button>
-                                </AlertDialogTrigger>
-                                <AlertDialogContent>
-                                  <AlertDialogHeader>
-                                    <AlertDialogTitle>Excluir produto?</AlertDialogTitle>
-                                    <AlertDialogDescription>
-                                      Esta ação não pode ser desfeita. O produto "{product.nome}" será removido permanentemente.
-                                    </AlertDialogDescription>
-                                  </AlertDialogHeader>
-                                  <AlertDialogFooter>
-                                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                                    <AlertDialogAction
-                                      onClick={() => handleDelete(product.id)}
-                                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              {podeEditar && (
+                                <Button variant="ghost" size="icon" asChild>
+                                  <Link to={`/admin/produtos/${product.id}`}>
+                                    <Edit className="w-4 h-4" />
+                                  </Link>
+                                </Button>
+                              )}
+                              {podeEditar && (
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button 
+                                      variant="ghost" 
+                                      size="icon" 
+                                      className="text-destructive hover:text-destructive"
+                                      disabled={deleting === product.id}
                                     >
-                                      Excluir
-                                    </AlertDialogAction>
-                                  </AlertDialogFooter>
-                                </AlertDialogContent>
-                              </AlertDialog>
+                                      {deleting === product.id ? (
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                      ) : (
+                                        <Trash2 className="w-4 h-4" />
+                                      )}
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Excluir produto?</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        Esta ação não pode ser desfeita. O produto "{product.nome}" será removido permanentemente.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                      <AlertDialogAction
+                                        onClick={() => handleDelete(product.id)}
+                                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                      >
+                                        Excluir
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              )}
                             </div>
                           </TableCell>
                         </TableRow>
@@ -323,18 +650,46 @@ const AdminProducts = () => {
                   </Table>
                 </div>
 
-                {filteredProducts.length === 0 && (
+                {products.length === 0 && (
                   <div className="text-center py-12">
                     <Package className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                     <p className="text-muted-foreground">Nenhum produto encontrado</p>
                   </div>
                 )}
+
+                {totalPaginas > 1 && (
+                  <div className="flex items-center justify-center gap-3 pt-4">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPagina((p) => p - 1)}
+                      disabled={pagina <= 1 || isFetching}
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <span className="text-sm text-muted-foreground">
+                      Página {pagina} de {totalPaginas}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPagina((p) => p + 1)}
+                      disabled={pagina >= totalPaginas || isFetching}
+                    >
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
               </>
             )}
           </CardContent>
         </Card>
       </div>
 
+      {podeEditar && (
+        <ImportarProdutosDialog open={importOpen} onOpenChange={setImportOpen} onImportado={() => refetch()} />
+      )}
+
       <Footer />
     </div>
   );
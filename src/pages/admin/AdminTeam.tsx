@@ -0,0 +1,320 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Users, UserPlus, ArrowLeft, Loader2, RefreshCw, Send } from "lucide-react";
+import { toast } from "sonner";
+import {
+  fetchAdminEquipe,
+  convidarAdminMembro,
+  updateAdminMembro,
+  AdminMembro,
+} from "@/services/adminApi";
+import { PAPEIS_ADMIN, PAPEL_ADMIN_CONFIG, PapelAdmin } from "@/lib/permissoes";
+import { isValidEmail } from "@/lib/cliente";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import { useAdminSessao } from "@/hooks/useAdminSessao";
+
+const EMPTY_CONVITE = { nome: "", email: "", papel: "leitura" as PapelAdmin };
+
+const AdminTeam = () => {
+  const { usuario } = useAdminSessao();
+  const [membros, setMembros] = useState<AdminMembro[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<number | null>(null);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [convite, setConvite] = useState(EMPTY_CONVITE);
+  const [sending, setSending] = useState(false);
+
+  const loadMembros = async () => {
+    try {
+      setLoading(true);
+      const data = await fetchAdminEquipe();
+      setMembros(data);
+    } catch (error) {
+      console.error("Erro ao carregar equipe:", error);
+      toast.error("Erro ao carregar equipe");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadMembros();
+  }, []);
+
+  const handleUpdate = async (membro: AdminMembro, dados: { papel?: PapelAdmin; ativo?: boolean }) => {
+    setUpdating(membro.id);
+    try {
+      await updateAdminMembro(membro.id, dados);
+      setMembros((prev) => prev.map((m) => (m.id === membro.id ? { ...m, ...dados } : m)));
+      toast.success("Acesso atualizado");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao atualizar acesso");
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const openConviteDialog = () => {
+    setConvite(EMPTY_CONVITE);
+    setDialogOpen(true);
+  };
+
+  const handleConvidar = async () => {
+    if (!convite.nome.trim()) {
+      toast.error("Informe o nome");
+      return;
+    }
+    if (!isValidEmail(convite.email)) {
+      toast.error("Informe um email válido");
+      return;
+    }
+
+    setSending(true);
+    try {
+      const mensagem = await convidarAdminMembro({
+        nome: convite.nome.trim(),
+        email: convite.email.trim(),
+        papel: convite.papel,
+      });
+      toast.success(mensagem);
+      setDialogOpen(false);
+      loadMembros();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao adicionar membro");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Ninguém altera o próprio acesso (o servidor também recusa)
+  const isProprio = (membro: AdminMembro) => membro.id === usuario.id;
+
+  const renderPapelSelect = (membro: AdminMembro, className: string) => (
+    <Select
+      value={membro.papel ?? undefined}
+      onValueChange={(value) => handleUpdate(membro, { papel: value as PapelAdmin })}
+      disabled={isProprio(membro) || updating === membro.id}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Sem papel" />
+      </SelectTrigger>
+      <SelectContent>
+        {PAPEIS_ADMIN.map((papel) => (
+          <SelectItem key={papel} value={papel}>
+            {PAPEL_ADMIN_CONFIG[papel].label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const renderAtivoSwitch = (membro: AdminMembro) => (
+    <Switch
+      checked={membro.ativo}
+      onCheckedChange={(checked) => handleUpdate(membro, { ativo: checked })}
+      disabled={isProprio(membro) || updating === membro.id}
+      aria-label="Acesso ativo"
+    />
+  );
+
+  return (
+    <div className="min-h-screen bg-secondary flex flex-col">
+      <Header />
+
+      <div className="container py-4 lg:py-8 flex-1">
+        <div className="flex items-center gap-2 lg:gap-4 mb-4 lg:mb-6">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/admin/dashboard">
+              <ArrowLeft className="w-4 h-4 mr-1 lg:mr-2" />
+              <span className="hidden sm:inline">Voltar</span>
+            </Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 lg:px-6">
+            <CardTitle className="flex items-center gap-2 text-base lg:text-lg">
+              <Users className="w-4 h-4 lg:w-5 lg:h-5" />
+              Equipe ({membros.length})
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={loadMembros} disabled={loading}>
+                <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                <span className="hidden sm:inline ml-2">Atualizar</span>
+              </Button>
+              <Button onClick={openConviteDialog} size="sm">
+                <UserPlus className="w-4 h-4" />
+                <span className="hidden sm:inline ml-2">Adicionar Membro</span>
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="px-4 lg:px-6">
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <>
+                {/* Mobile - Cards */}
+                <div className="lg:hidden space-y-3">
+                  {membros.map((membro) => (
+                    <div key={membro.id} className="border rounded-lg p-3 space-y-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">
+                            {membro.nome}
+                            {isProprio(membro) && <span className="text-xs text-muted-foreground"> (você)</span>}
+                          </p>
+                          <p className="text-xs text-muted-foreground truncate">{membro.email}</p>
+                        </div>
+                        {renderAtivoSwitch(membro)}
+                      </div>
+                      {renderPapelSelect(membro, "h-8 text-xs")}
+                    </div>
+                  ))}
+                </div>
+
+                {/* Desktop - Table */}
+                <div className="hidden lg:block overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Nome</TableHead>
+                        <TableHead>Email</TableHead>
+                        <TableHead>Papel</TableHead>
+                        <TableHead>Ativo</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {membros.map((membro) => (
+                        <TableRow key={membro.id}>
+                          <TableCell className="font-medium">
+                            {membro.nome}
+                            {isProprio(membro) && <span className="text-xs text-muted-foreground"> (você)</span>}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{membro.email}</TableCell>
+                          <TableCell>
+                            {renderPapelSelect(membro, "w-52 h-8")}
+                            {membro.papel && (
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {PAPEL_ADMIN_CONFIG[membro.papel].descricao}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>{renderAtivoSwitch(membro)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Dialog de Convite */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adicionar Membro</DialogTitle>
+            <DialogDescription>
+              O membro recebe por email um link para criar a própria senha.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="membro-nome">Nome *</Label>
+              <Input
+                id="membro-nome"
+                value={convite.nome}
+                onChange={(e) => setConvite({ ...convite, nome: e.target.value })}
+                maxLength={100}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="membro-email">Email *</Label>
+              <Input
+                id="membro-email"
+                type="email"
+                value={convite.email}
+                onChange={(e) => setConvite({ ...convite, email: e.target.value })}
+                placeholder="nome@loja.com"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Papel *</Label>
+              <Select
+                value={convite.papel}
+                onValueChange={(value) => setConvite({ ...convite, papel: value as PapelAdmin })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAPEIS_ADMIN.map((papel) => (
+                    <SelectItem key={papel} value={papel}>
+                      {PAPEL_ADMIN_CONFIG[papel].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{PAPEL_ADMIN_CONFIG[convite.papel].descricao}</p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleConvidar} disabled={sending}>
+              {sending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="w-4 h-4 mr-2" />
+              )}
+              Enviar convite
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminTeam;
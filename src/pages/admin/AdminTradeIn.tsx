@@ -0,0 +1,387 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Edit,
+  Loader2,
+  Plus,
+  RefreshCw,
+  Repeat,
+  Search,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  deleteAdminTradeInPreco,
+  fetchAdminTradeInPrecos,
+  fetchAdminTradeIns,
+  AdminTradeIn as AdminTradeInAvaliacao,
+  AdminTradeInFiltros,
+  AdminTradeInPreco,
+} from "@/services/adminApi";
+import { getSaudeBateriaLabel } from "@/lib/produtoCondicao";
+import {
+  TRADEIN_ETAPAS,
+  compararCapacidades,
+  compararModelos,
+  getTradeInEtapaConfig,
+  TradeInEtapa,
+} from "@/lib/tradeIn";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import TradeInAvaliacaoDialog from "@/components/TradeInAvaliacaoDialog";
+import TradeInPrecoDialog from "@/components/TradeInPrecoDialog";
+import { useAdminSessao } from "@/hooks/useAdminSessao";
+import { useDebouncedValue } from "@/hooks/useDebouncedValue";
+
+const POR_PAGINA = 30;
+
+const formatPrice = (price: number) =>
+  Number(price).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+const formatDateTime = (data: string) => new Date(data.replace(" ", "T")).toLocaleString("pt-BR");
+
+const AdminTradeIn = () => {
+  const { pode } = useAdminSessao();
+  const podeEditar = pode("tradein.editar");
+
+  const [busca, setBusca] = useState("");
+  const [etapa, setEtapa] = useState("all");
+  const [pagina, setPagina] = useState(1);
+  const [avaliacaoAberta, setAvaliacaoAberta] = useState<AdminTradeInAvaliacao | null>(null);
+  const [precoFormOpen, setPrecoFormOpen] = useState(false);
+  const [precoEditando, setPrecoEditando] = useState<AdminTradeInPreco | null>(null);
+  const [deleting, setDeleting] = useState<number | null>(null);
+
+  const buscaDebounced = useDebouncedValue(busca.trim());
+
+  const filtros: AdminTradeInFiltros = {
+    busca: buscaDebounced || undefined,
+    etapa: etapa !== "all" ? (etapa as TradeInEtapa) : undefined,
+    pagina,
+    limite: POR_PAGINA,
+  };
+
+  const { data, isLoading, isFetching, isError, refetch } = useQuery({
+    queryKey: ["admin-tradein", filtros],
+    queryFn: () => fetchAdminTradeIns(filtros),
+    placeholderData: keepPreviousData,
+  });
+
+  const {
+    data: precos = [],
+    isLoading: isLoadingPrecos,
+    isError: isErrorPrecos,
+    refetch: refetchPrecos,
+  } = useQuery({
+    queryKey: ["admin-tradein-precos"],
+    queryFn: fetchAdminTradeInPrecos,
+    select: (lista) =>
+      [...lista].sort(
+        (a, b) => compararModelos(a.modelo, b.modelo) || compararCapacidades(a.capacidade, b.capacidade)
+      ),
+  });
+
+  // Mudar um filtro volta para a primeira página
+  const filtrar = (setter: (valor: string) => void) => (valor: string) => {
+    setter(valor);
+    setPagina(1);
+  };
+
+  const totalPaginas = data ? Math.max(1, Math.ceil(data.total / data.limite)) : 1;
+
+  const abrirPreco = (preco: AdminTradeInPreco | null) => {
+    setPrecoEditando(preco);
+    setPrecoFormOpen(true);
+  };
+
+  const handleDeletePreco = async (id: number) => {
+    try {
+      setDeleting(id);
+      await deleteAdminTradeInPreco(id);
+      toast.success("Preço excluído");
+      refetchPrecos();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao excluir preço");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-secondary flex flex-col">
+      <Header />
+
+      <div className="container py-4 lg:py-8 flex-1">
+        <div className="flex items-center gap-2 lg:gap-4 mb-4 lg:mb-6">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/admin/dashboard">
+              <ArrowLeft className="w-4 h-4 mr-1 lg:mr-2" />
+              <span className="hidden sm:inline">Voltar</span>
+            </Link>
+          </Button>
+        </div>
+
+        <Tabs defaultValue="avaliacoes">
+          <TabsList className="mb-4">
+            <TabsTrigger value="avaliacoes">Avaliações</TabsTrigger>
+            <TabsTrigger value="precos">Tabela de preços</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="avaliacoes">
+            <Card>
+              <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 lg:px-6">
+                <CardTitle className="flex items-center gap-2 text-base lg:text-lg">
+                  <Repeat className="w-4 h-4 lg:w-5 lg:h-5" />
+                  Avaliações de trade-in {data && `(${data.total})`}
+                </CardTitle>
+                <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                  <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+                  <span className="hidden sm:inline ml-2">Atualizar</span>
+                </Button>
+              </CardHeader>
+              <CardContent className="px-4 lg:px-6 space-y-4">
+                {/* Filtros */}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="tradein-busca" className="text-xs">Buscar</Label>
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                      <Input
+                        id="tradein-busca"
+                        placeholder="Número, cliente, email ou modelo"
+                        className="h-9 pl-10"
+                        value={busca}
+                        onChange={(e) => filtrar(setBusca)(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Etapa</Label>
+                    <Select value={etapa} onValueChange={filtrar(setEtapa)}>
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">Todas</SelectItem>
+                        {TRADEIN_ETAPAS.map((item) => (
+                          <SelectItem key={item} value={item}>
+                            {getTradeInEtapaConfig(item).label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {isLoading ? (
+                  <div className="flex items-center justify-center py-12">
+                    <Loader2 className="w-8 h-8 animate-spin text-primary" />
+                  </div>
+                ) : isError || !data ? (
+                  <p className="text-center text-muted-foreground py-12">Erro ao carregar as avaliações</p>
+                ) : data.avaliacoes.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-12">Nenhuma avaliação encontrada</p>
+                ) : (
+                  <div className="space-y-3">
+                    {data.avaliacoes.map((avaliacao) => {
+                      const etapaConfig = getTradeInEtapaConfig(avaliacao.etapa);
+
+                      return (
+                        <button
+                          key={avaliacao.id}
+                          type="button"
+                          onClick={() => setAvaliacaoAberta(avaliacao)}
+                          className="w-full text-left border rounded-lg p-3 space-y-1 hover:bg-muted/50"
+                        >
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-mono text-sm font-medium">{avaliacao.numero}</span>
+                            <Badge variant={etapaConfig.variant}>{etapaConfig.label}</Badge>
+                            <span className="text-xs text-muted-foreground sm:ml-auto">
+                              {formatDateTime(avaliacao.created_at)}
+                            </span>
+                          </div>
+                          <p className="text-sm">
+                            {avaliacao.modelo} {avaliacao.capacidade}
+                            <span className="text-muted-foreground"> · {avaliacao.nome}</span>
+                          </p>
+                          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                            <span>Bateria {getSaudeBateriaLabel(avaliacao.saude_bateria)}</span>
+                            <span>
+                              Cotação {formatPrice(avaliacao.cotacao_minima)} a {formatPrice(avaliacao.cotacao_maxima)}
+                            </span>
+                            {avaliacao.valor_final !== null && <span>Valor final {formatPrice(avaliacao.valor_final)}</span>}
+                            {avaliacao.cupom_codigo && <span>Cupom {avaliacao.cupom_codigo}</span>}
+                            {avaliacao.pedido_numero && <span>Usado no pedido {avaliacao.pedido_numero}</span>}
+                          </div>
+                        </button>
+                      );
+                    })}
+
+                    {totalPaginas > 1 && (
+                      <div className="flex items-center justify-center gap-3 pt-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setPagina((p) => p - 1)}
+                          disabled={pagina <= 1 || isFetching}
+                        >
+                          <ChevronLeft className="w-4 h-4" />
+                        </Button>
+                        <span className="text-sm text-muted-foreground">
+                          Página {pagina} de {totalPaginas}
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setPagina((p) => p + 1)}
+                          disabled={pagina >= totalPaginas || isFetching}
+                        >
+                          <ChevronRight className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="precos">
+            <Card>
+              <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 lg:px-6">
+                <CardTitle className="text-base lg:text-lg">Tabela de preços ({precos.length})</CardTitle>
+                {podeEditar && (
+                  <Button size="sm" onClick={() => abrirPreco(null)}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Novo preço
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className="px-4 lg:px-6 space-y-3">
+                <p className="text-xs text-muted-foreground">
+                  Faixas para o aparelho sem defeitos e com bateria perfeita. Só os modelos ativos aparecem no
+                  assistente do site; avaliações já enviadas mantêm a cotação da época.
+                </p>
+
+                {isLoadingPrecos ? (
+                  <div className="flex items-center justify-center py-12">
+                    <Loader2 className="w-8 h-8 animate-spin text-primary" />
+                  </div>
+                ) : isErrorPrecos ? (
+                  <p className="text-center text-muted-foreground py-12">Erro ao carregar a tabela de preços</p>
+                ) : precos.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-12">Nenhum preço cadastrado</p>
+                ) : (
+                  precos.map((preco) => (
+                    <div key={preco.id} className="border rounded-lg p-3 flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="text-sm font-medium">
+                            {preco.modelo} {preco.capacidade}
+                          </span>
+                          {!Number(preco.ativo) && <Badge variant="secondary">Inativo</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {formatPrice(preco.valor_minimo)} a {formatPrice(preco.valor_maximo)}
+                        </p>
+                      </div>
+
+                      {podeEditar && (
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="icon" onClick={() => abrirPreco(preco)} aria-label="Editar preço">
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                disabled={deleting === preco.id}
+                                aria-label="Excluir preço"
+                              >
+                                {deleting === preco.id ? (
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                ) : (
+                                  <Trash2 className="w-4 h-4 text-destructive" />
+                                )}
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Excluir preço?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  O {preco.modelo} {preco.capacidade} deixa de ser avaliado pelo site. Para só pausar,
+                                  edite e desative.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDeletePreco(preco.id)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Excluir
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      )}
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <TradeInAvaliacaoDialog
+        open={avaliacaoAberta !== null}
+        onOpenChange={(aberto) => !aberto && setAvaliacaoAberta(null)}
+        avaliacao={avaliacaoAberta}
+        podeEditar={podeEditar}
+        onSalvo={() => refetch()}
+      />
+
+      <TradeInPrecoDialog
+        open={precoFormOpen}
+        onOpenChange={setPrecoFormOpen}
+        preco={precoEditando}
+        onSalvo={() => refetchPrecos()}
+      />
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminTradeIn;
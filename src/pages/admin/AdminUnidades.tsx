@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  ArrowLeft,
+  Battery,
+  ChevronLeft,
+  ChevronRight,
+  Edit,
+  Loader2,
+  Plus,
+  RefreshCw,
+  Search,
+  Smartphone,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  deleteAdminUnidade,
+  fetchAdminProducts,
+  fetchAdminUnidades,
+  AdminUnidade,
+  AdminUnidadesFiltros,
+} from "@/services/adminApi";
+import { UNIDADE_SITUACOES, getUnidadeSituacaoConfig, UnidadeSituacao } from "@/lib/unidades";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import UnidadeFormDialog from "@/components/UnidadeFormDialog";
+import { useAdminSessao } from "@/hooks/useAdminSessao";
+import { useDebouncedValue } from "@/hooks/useDebouncedValue";
+
+const POR_PAGINA = 30;
+
+const formatPrice = (price: number) =>
+  Number(price).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+const formatDate = (data: string) => new Date(`${data}T00:00:00`).toLocaleDateString("pt-BR");
+
+// Só unidades que nunca foram de um pedido podem ser excluídas
+const podeExcluir = (unidade: AdminUnidade) =>
+  unidade.pedido_item_id === null && (unidade.situacao === "em_estoque" || unidade.situacao === "em_reparo");
+
+const AdminUnidades = () => {
+  const { pode } = useAdminSessao();
+  const podeEditar = pode("produtos.editar");
+  const [searchParams] = useSearchParams();
+  const produtoIdParam = Number(searchParams.get("produto_id")) || undefined;
+
+  const [busca, setBusca] = useState("");
+  const [produtoId, setProdutoId] = useState(produtoIdParam ? String(produtoIdParam) : "all");
+  const [situacao, setSituacao] = useState("all");
+  const [pagina, setPagina] = useState(1);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editando, setEditando] = useState<AdminUnidade | null>(null);
+  const [deleting, setDeleting] = useState<number | null>(null);
+
+  const buscaDebounced = useDebouncedValue(busca.trim());
+
+  const filtros: AdminUnidadesFiltros = {
+    busca: buscaDebounced || undefined,
+    produto_id: produtoId !== "all" ? Number(produtoId) : undefined,
+    situacao: situacao !== "all" ? (situacao as UnidadeSituacao) : undefined,
+    pagina,
+    limite: POR_PAGINA,
+  };
+
+  const { data, isLoading, isFetching, isError, refetch } = useQuery({
+    queryKey: ["admin-unidades", filtros],
+    queryFn: () => fetchAdminUnidades(filtros),
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: produtos = [] } = useQuery({
+    queryKey: ["admin-produtos-todos"],
+    queryFn: fetchAdminProducts,
+    select: (lista) => [...lista].sort((a, b) => a.nome.localeCompare(b.nome, "pt-BR")),
+  });
+
+  // Mudar um filtro volta para a primeira página
+  const filtrar = (setter: (valor: string) => void) => (valor: string) => {
+    setter(valor);
+    setPagina(1);
+  };
+
+  const totalPaginas = data ? Math.max(1, Math.ceil(data.total / data.limite)) : 1;
+
+  const abrirForm = (unidade: AdminUnidade | null) => {
+    setEditando(unidade);
+    setFormOpen(true);
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      setDeleting(id);
+      await deleteAdminUnidade(id);
+      toast.success("Unidade excluída");
+      refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao excluir unidade");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-secondary flex flex-col">
+      <Header />
+
+      <div className="container py-4 lg:py-8 flex-1">
+        <div className="flex items-center gap-2 lg:gap-4 mb-4 lg:mb-6">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/admin/dashboard">
+              <ArrowLeft className="w-4 h-4 mr-1 lg:mr-2" />
+              <span className="hidden sm:inline">Voltar</span>
+            </Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 lg:px-6">
+            <CardTitle className="flex items-center gap-2 text-base lg:text-lg">
+              <Smartphone className="w-4 h-4 lg:w-5 lg:h-5" />
+              Unidades {data && `(${data.total})`}
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+                <span className="hidden sm:inline ml-2">Atualizar</span>
+              </Button>
+              {podeEditar && (
+                <Button size="sm" onClick={() => abrirForm(null)}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  Nova unidade
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="px-4 lg:px-6 space-y-4">
+            {/* Filtros */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="unidades-busca" className="text-xs">Buscar</Label>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="unidades-busca"
+                    placeholder="IMEI, série ou produto"
+                    className="h-9 pl-10"
+                    value={busca}
+                    onChange={(e) => filtrar(setBusca)(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Produto</Label>
+                <Select value={produtoId} onValueChange={filtrar(setProdutoId)}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos</SelectItem>
+                    {produtos.map((produto) => (
+                      <SelectItem key={produto.id} value={String(produto.id)}>
+                        {produto.nome}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Situação</Label>
+                <Select value={situacao} onValueChange={filtrar(setSituacao)}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todas</SelectItem>
+                    {UNIDADE_SITUACOES.map((item) => (
+                      <SelectItem key={item} value={item}>
+                        {getUnidadeSituacaoConfig(item).label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : isError || !data ? (
+              <p className="text-center text-muted-foreground py-12">Erro ao carregar as unidades</p>
+            ) : data.unidades.length === 0 ? (
+              <p className="text-center text-muted-foreground py-12">Nenhuma unidade encontrada</p>
+            ) : (
+              <div className="space-y-3">
+                {data.unidades.map((unidade) => {
+                  const situacaoConfig = getUnidadeSituacaoConfig(unidade.situacao);
+                  const variacao = [unidade.variacao_cor, unidade.variacao_capacidade].filter(Boolean).join(" · ");
+
+                  return (
+                    <div key={unidade.id} className="border rounded-lg p-3 flex flex-col sm:flex-row sm:items-center gap-3">
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-mono text-sm font-medium">
+                            {unidade.imei ?? unidade.numero_serie}
+                          </span>
+                          <Badge variant={situacaoConfig.variant}>{situacaoConfig.label}</Badge>
+                          {unidade.pedido_numero && (
+                            <span className="text-xs text-muted-foreground">Pedido {unidade.pedido_numero}</span>
+                          )}
+                        </div>
+                        <p className="text-sm truncate">
+                          {podeEditar ? (
+                            <Link to={`/admin/produtos/${unidade.produto_id}`} className="hover:underline">
+                              {unidade.produto_nome}
+                            </Link>
+                          ) : (
+                            unidade.produto_nome
+                          )}
+                          {variacao && <span className="text-muted-foreground"> · {variacao}</span>}
+                        </p>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                          <span className="flex items-center gap-1">
+                            <Battery className="w-3.5 h-3.5" />
+                            {unidade.saude_bateria}%
+                          </span>
+                          <span>Grade {unidade.grade}</span>
+                          <span>Custo {formatPrice(unidade.custo)}</span>
+                          <span>Entrada {formatDate(unidade.data_entrada)}</span>
+                          {unidade.imei && unidade.numero_serie && <span>Série {unidade.numero_serie}</span>}
+                        </div>
+                        {unidade.observacoes && (
+                          <p className="text-xs text-muted-foreground">{unidade.observacoes}</p>
+                        )}
+                      </div>
+
+                      {podeEditar && (
+                        <div className="flex gap-1 self-end sm:self-center">
+                          <Button variant="ghost" size="icon" onClick={() => abrirForm(unidade)} aria-label="Editar unidade">
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          {podeExcluir(unidade) && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  disabled={deleting === unidade.id}
+                                  aria-label="Excluir unidade"
+                                >
+                                  {deleting === unidade.id ? (
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                  ) : (
+                                    <Trash2 className="w-4 h-4 text-destructive" />
+                                  )}
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Excluir unidade?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    A unidade {unidade.imei ?? unidade.numero_serie} sai do cadastro e do estoque de{" "}
+                                    {unidade.produto_nome}.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => handleDelete(unidade.id)}
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                  >
+                                    Excluir
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+
+                {totalPaginas > 1 && (
+                  <div className="flex items-center justify-center gap-3 pt-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPagina((p) => p - 1)}
+                      disabled={pagina <= 1 || isFetching}
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <span className="text-sm text-muted-foreground">
+                      Página {pagina} de {totalPaginas}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPagina((p) => p + 1)}
+                      disabled={pagina >= totalPaginas || isFetching}
+                    >
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <UnidadeFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        unidade={editando}
+        produtos={produtos}
+        produtoIdInicial={produtoId !== "all" ? Number(produtoId) : undefined}
+        onSalvo={() => refetch()}
+      />
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminUnidades;
@@ -1,3 +1,14 @@
+import { PedidoStatus, PAID_STATUSES, assertTransition } from '@/lib/pedidoStatus';
+import { authFetch as sessaoFetch } from './clienteAuth';
+import type { PedidoHistorico } from './pedidosApi';
+import type { CupomTipo } from './precosApi';
+import type { User } from '@/hooks/useAuth';
+import type { PapelAdmin, Permissao } from '@/lib/permissoes';
+import type { AuditoriaAcao, AuditoriaEntidade } from '@/lib/auditoria';
+import type { UnidadeGrade, UnidadeSituacao } from '@/lib/unidades';
+import type { SaudeBateria } from '@/lib/produtoCondicao';
+import type { TradeInEtapa, TradeInRespostas } from '@/lib/tradeIn';
+
 // URL base da API PHP Admin
 export const ADMIN_API_BASE = 'https://iplaceseminovos.apipainel.com.br/api/admin';
 
@@ -11,6 +22,7 @@ export interface AdminProduct {
   descricao_curta: string;
   categoria_id: number;
   categoria: string;
+  categoria_nome?: string | null;
   modelo?: string;
   condicao: string;
   condicao_descricao?: string;
@@ -20,6 +32,7 @@ export interface AdminProduct {
   desconto_percentual: number;
   estoque: number;
   garantia_meses: number;
+  peso_gramas?: number;
   tela?: string;
   camera?: string;
   chip?: string;
@@ -27,13 +40,37 @@ export interface AdminProduct {
   ativo: boolean;
   modelo_3d_url?: string;
   ar_enabled?: boolean;
-  imagens: { id?: number; url: string; ordem: number; principal: boolean }[];
+  imagens: { id?: number; url: string; variantes: AdminImagemVariante[]; ordem: number; principal: boolean }[];
   especificacoes: { id?: number; label: string; valor: string }[];
   variacoes?: { id?: number; cor: string; cor_codigo: string; capacidade: string; estoque: number; preco: number }[];
+  // Unidades de aparelho cadastradas (só na busca por id); com alguma, o estoque é calculado por elas
+  unidades_total?: number;
   created_at: string;
   updated_at: string;
 }
 
+// Versão WebP gerada no upload (api/imagens.php)
+export interface AdminImagemVariante {
+  nome: 'thumb' | 'card' | 'zoom';
+  url: string;
+  largura: number;
+  altura: number;
+}
+
+// Imagem enviada ao salvar o produto, na ordem de exibição
+export interface AdminImagemInput {
+  url: string;
+  variantes?: AdminImagemVariante[];
+  principal: boolean;
+}
+
+export interface AdminImagemUpload {
+  url: string;
+  variantes: AdminImagemVariante[];
+  largura: number;
+  altura: number;
+}
+
 export interface AdminCategory {
   id: number;
   nome: string;
@@ -44,34 +81,106 @@ export interface AdminCategory {
   ativo: boolean;
 }
 
-// Helper para requisições autenticadas
-const authFetch = async (url: string, options: RequestInit = {}) => {
-  const token = localStorage.getItem('adminToken') || sessionStorage.getItem('adminToken');
+// Requisições do painel com a mesma sessão da loja (clienteAuth): o token é
+// renovado ali e, se a sessão cair, useAuth faz o logout e o AdminRoute pede login
+const authFetch = (url: string, options: RequestInit = {}) =>
+  sessaoFetch(url, {
+    ...options,
+    // Uploads (FormData) levam o Content-Type com o boundary definido pelo navegador
+    headers: {
+      ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+      ...((options.headers as Record<string, string>) || {}),
+    },
+  });
 
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    ...((options.headers as Record<string, string>) || {}),
-  };
+// ==================== SESSÃO E EQUIPE ====================
 
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
+export interface AdminSessao {
+  usuario: User;
+  permissoes: Permissao[];
+}
+
+// Usuário do token com o papel e as permissões atuais
+export const fetchAdminSessao = async (): Promise<AdminSessao> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/sessao.php`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao verificar sessão');
   }
 
-  const response = await fetch(url, {
-    ...options,
-    headers,
+  return data.data;
+};
+
+export interface AdminMembro {
+  id: number;
+  nome: string;
+  email: string;
+  papel: PapelAdmin | null;
+  ativo: boolean;
+  created_at: string;
+}
+
+export const fetchAdminEquipe = async (): Promise<AdminMembro[]> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/equipe.php`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao buscar equipe');
+  }
+
+  return data.data;
+};
+
+// Cria o membro e envia o link para ele criar a senha; retorna a mensagem do servidor
+export const convidarAdminMembro = async (membro: { nome: string; email: string; papel: PapelAdmin }): Promise<string> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/equipe.php`, {
+    method: 'POST',
+    body: JSON.stringify(membro),
+  });
+
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao adicionar membro');
+  }
+
+  return data.message;
+};
+
+export const updateAdminMembro = async (id: number, dados: { papel?: PapelAdmin; ativo?: boolean }): Promise<void> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/equipe.php?id=${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(dados),
+  });
+
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao atualizar acesso');
+  }
+};
+
+// ==================== IMAGENS ====================
+
+// Envia o arquivo e retorna as versões geradas; a imagem só vale depois de salvar o produto ou a categoria
+export const uploadAdminImagem = async (arquivo: File, destino: 'produtos' | 'categorias'): Promise<AdminImagemUpload> => {
+  const body = new FormData();
+  body.append('imagem', arquivo);
+  body.append('destino', destino);
+
+  const response = await authFetch(`${ADMIN_API_BASE}/imagens.php`, {
+    method: 'POST',
+    body,
   });
 
-  if (response.status === 401) {
-    sessionStorage.removeItem('adminToken');
-    sessionStorage.removeItem('adminUser');
-    localStorage.removeItem('adminToken');
-    localStorage.removeItem('adminUser');
-    window.location.href = '/admin/login';
-    throw new Error('Sessão expirada');
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao enviar imagem');
   }
 
-  return response;
+  return data.data;
 };
 
 // ==================== PRODUTOS ====================
@@ -87,6 +196,49 @@ export const fetchAdminProducts = async (): Promise<AdminProduct[]> => {
   return data.data;
 };
 
+export type AdminProdutoOrdenacao = 'nome' | 'sku' | 'preco' | 'estoque' | 'categoria' | 'created_at';
+
+// Filtros da listagem paginada; as faixas são inclusivas
+export interface AdminProdutoFiltros {
+  busca?: string;
+  categoria_id?: number;
+  condicao?: string;
+  ativo?: boolean;
+  destaque?: boolean;
+  estoque_min?: number;
+  estoque_max?: number;
+  preco_min?: number;
+  preco_max?: number;
+  ordenar?: AdminProdutoOrdenacao;
+  direcao?: 'asc' | 'desc';
+  pagina: number;
+  limite?: number;
+}
+
+export interface AdminProdutosPagina {
+  produtos: AdminProduct[];
+  total: number;
+  pagina: number;
+  limite: number;
+}
+
+export const fetchAdminProdutosPagina = async (filtros: AdminProdutoFiltros): Promise<AdminProdutosPagina> => {
+  const params = new URLSearchParams();
+  Object.entries(filtros).forEach(([chave, valor]) => {
+    if (valor === undefined || valor === '') return;
+    params.set(chave, typeof valor === 'boolean' ? (valor ? '1' : '0') : String(valor));
+  });
+
+  const response = await authFetch(`${ADMIN_API_BASE}/produtos.php?${params}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao buscar produtos');
+  }
+
+  return data.data;
+};
+
 export const fetchAdminProduct = async (id: number): Promise<AdminProduct> => {
   const response = await authFetch(`${ADMIN_API_BASE}/produtos.php?id=${id}`);
   const data = await response.json();
@@ -98,7 +250,7 @@ export const fetchAdminProduct = async (id: number): Promise<AdminProduct> => {
   return data.data;
 };
 
-export const createAdminProduct = async (product: Omit<Partial<AdminProduct>, 'imagens'> & { imagens?: string[] }): Promise<{ id: number }> => {
+export const createAdminProduct = async (product: Omit<Partial<AdminProduct>, 'imagens'> & { imagens?: AdminImagemInput[] }): Promise<{ id: number }> => {
   const response = await authFetch(`${ADMIN_API_BASE}/produtos.php`, {
     method: 'POST',
     body: JSON.stringify(product),
@@ -113,7 +265,7 @@ export const createAdminProduct = async (product: Omit<Partial<AdminProduct>, 'i
   return data.data;
 };
 
-export const updateAdminProduct = async (id: number, product: Omit<Partial<AdminProduct>, 'imagens'> & { imagens?: string[] }): Promise<void> => {
+export const updateAdminProduct = async (id: number, product: Omit<Partial<AdminProduct>, 'imagens'> & { imagens?: AdminImagemInput[] }): Promise<void> => {
   const response = await authFetch(`${ADMIN_API_BASE}/produtos.php?id=${id}`, {
     method: 'PUT',
     body: JSON.stringify(product),
@@ -138,6 +290,86 @@ export const deleteAdminProduct = async (id: number): Promise<void> => {
   }
 };
 
+export type AdminProdutoLoteAcao =
+  | { acao: 'ativar' | 'desativar' | 'destacar' | 'remover_destaque' | 'excluir' }
+  | { acao: 'categoria'; categoria_id: number }
+  | { acao: 'preco'; percentual: number };
+
+export interface AdminProdutoLoteResultado {
+  resultados: { id: number; nome: string | null; sucesso: boolean; erro: string | null }[];
+  sucessos: number;
+  falhas: number;
+}
+
+// Cada produto é gravado à parte: o resultado traz sucesso ou erro por id
+export const executarAdminProdutosLote = async (ids: number[], acao: AdminProdutoLoteAcao): Promise<AdminProdutoLoteResultado> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/produtos_lote.php`, {
+    method: 'POST',
+    body: JSON.stringify({ ids, ...acao }),
+  });
+
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao aplicar ação nos produtos');
+  }
+
+  return data.data;
+};
+
+// ==================== PLANILHA DE PRODUTOS ====================
+
+export type PlanilhaFormato = 'csv' | 'xlsx';
+
+// Linha da planilha conferida pelo servidor (admin/produtos_planilha.php)
+export interface AdminImportacaoLinha {
+  linha: number;
+  sku: string;
+  nome: string;
+  produto_id: number | null;
+  acao: 'criar' | 'atualizar' | 'sem_alteracao';
+  alteracoes: Record<string, { antes: unknown; depois: unknown }>;
+  erros: string[];
+}
+
+export interface AdminImportacaoResultado {
+  linhas: AdminImportacaoLinha[];
+  resumo: { criar: number; atualizar: number; sem_alteracao: number; erros: number };
+  colunas_ignoradas: string[];
+  aplicado: boolean;
+}
+
+export const exportAdminProdutos = async (formato: PlanilhaFormato): Promise<Blob> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/produtos_planilha.php?formato=${formato}`);
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || 'Erro ao exportar produtos');
+  }
+
+  return response.blob();
+};
+
+// Sem aplicar, só a prévia; com aplicar, grava tudo ou nada (aplicado = false se houver erros)
+export const importAdminProdutos = async (arquivo: File, aplicar: boolean): Promise<AdminImportacaoResultado> => {
+  const body = new FormData();
+  body.append('arquivo', arquivo);
+  body.append('aplicar', aplicar ? '1' : '0');
+
+  const response = await authFetch(`${ADMIN_API_BASE}/produtos_planilha.php`, {
+    method: 'POST',
+    body,
+  });
+
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao importar planilha');
+  }
+
+  return data.data;
+};
+
 // ==================== CATEGORIAS ====================
 
 export const fetchAdminCategories = async (): Promise<AdminCategory[]> => {
@@ -202,6 +434,341 @@ export const deleteAdminCategory = async (id: number): Promise<void> => {
   }
 };
 
+// ==================== CUPONS ====================
+
+export interface AdminCupom {
+  id: number;
+  codigo: string;
+  descricao: string | null;
+  tipo: CupomTipo;
+  valor: number;
+  valor_minimo: number | null;
+  valido_de: string | null;
+  valido_ate: string | null;
+  limite_uso: number | null;
+  limite_por_cliente: number | null;
+  usos: number;
+  ativo: boolean;
+  // Restrições: vazias = todos os produtos
+  produtos: number[];
+  categorias: number[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type AdminCupomData = Omit<AdminCupom, 'id' | 'usos' | 'created_at' | 'updated_at'>;
+
+export const fetchAdminCupons = async (): Promise<AdminCupom[]> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/cupons.php`);
+  const data = await response.json();
+  
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao buscar cupons');
+  }
+  
+  return data.data;
+};
+
+export const createAdminCupom = async (cupom: AdminCupomData): Promise<{ id: number }> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/cupons.php`, {
+    method: 'POST',
+    body: JSON.stringify(cupom),
+  });
+  
+  const data = await response.json();
+  
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao criar cupom');
+  }
+  
+  return data.data;
+};
+
+export const updateAdminCupom = async (id: number, cupom: AdminCupomData): Promise<void> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/cupons.php?id=${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(cupom),
+  });
+  
+  const data = await response.json();
+  
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao atualizar cupom');
+  }
+};
+
+export const deleteAdminCupom = async (id: number): Promise<void> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/cupons.php?id=${id}`, {
+    method: 'DELETE',
+  });
+  
+  const data = await response.json();
+  
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao excluir cupom');
+  }
+};
+
+// ==================== UNIDADES DE APARELHO ====================
+
+export interface AdminUnidade {
+  id: number;
+  produto_id: number;
+  produto_nome: string;
+  variacao_id: number | null;
+  variacao_cor: string | null;
+  variacao_capacidade: string | null;
+  imei: string | null;
+  numero_serie: string | null;
+  saude_bateria: number;
+  grade: UnidadeGrade;
+  custo: number;
+  data_entrada: string;
+  situacao: UnidadeSituacao;
+  // Item e pedido que reservaram ou compraram a unidade
+  pedido_item_id: number | null;
+  pedido_id: number | null;
+  pedido_numero: string | null;
+  observacoes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AdminUnidadeData {
+  produto_id: number;
+  variacao_id: number | null;
+  imei: string;
+  numero_serie: string;
+  saude_bateria: number;
+  grade: UnidadeGrade;
+  custo: number;
+  data_entrada: string;
+  situacao: UnidadeSituacao;
+  observacoes: string;
+}
+
+export interface AdminUnidadesFiltros {
+  busca?: string;
+  produto_id?: number;
+  situacao?: UnidadeSituacao;
+  pagina?: number;
+  limite?: number;
+}
+
+export interface AdminUnidadesPagina {
+  unidades: AdminUnidade[];
+  total: number;
+  pagina: number;
+  limite: number;
+}
+
+export const fetchAdminUnidades = async (filtros: AdminUnidadesFiltros = {}): Promise<AdminUnidadesPagina> => {
+  const params = new URLSearchParams();
+  Object.entries(filtros).forEach(([chave, valor]) => {
+    if (valor !== undefined && valor !== '') params.set(chave, String(valor));
+  });
+
+  const response = await authFetch(`${ADMIN_API_BASE}/unidades.php?${params}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao buscar unidades');
+  }
+
+  return data.data;
+};
+
+export const createAdminUnidade = async (unidade: AdminUnidadeData): Promise<{ id: number }> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/unidades.php`, {
+    method: 'POST',
+    body: JSON.stringify(unidade),
+  });
+
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao cadastrar unidade');
+  }
+
+  return data.data;
+};
+
+export const updateAdminUnidade = async (id: number, unidade: AdminUnidadeData): Promise<void> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/unidades.php?id=${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(unidade),
+  });
+
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao atualizar unidade');
+  }
+};
+
+export const deleteAdminUnidade = async (id: number): Promise<void> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/unidades.php?id=${id}`, {
+    method: 'DELETE',
+  });
+
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao excluir unidade');
+  }
+};
+
+// ==================== TRADE-IN ====================
+
+// Faixa paga por modelo e capacidade (aparelho sem defeitos e bateria perfeita)
+export interface AdminTradeInPreco {
+  id: number;
+  modelo: string;
+  capacidade: string;
+  valor_minimo: number;
+  valor_maximo: number;
+  ativo: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AdminTradeInPrecoData {
+  modelo: string;
+  capacidade: string;
+  valor_minimo: number;
+  valor_maximo: number;
+  ativo: boolean;
+}
+
+export interface AdminTradeIn {
+  id: number;
+  numero: string;
+  usuario_id: number | null;
+  nome: string;
+  email: string;
+  telefone: string | null;
+  modelo: string;
+  capacidade: string;
+  saude_bateria: SaudeBateria;
+  respostas: TradeInRespostas;
+  cotacao_minima: number;
+  cotacao_maxima: number;
+  etapa: TradeInEtapa;
+  valor_final: number | null;
+  // Cupom de crédito gerado ao aceitar e o pedido em que foi usado
+  cupom_id: number | null;
+  cupom_codigo: string | null;
+  cupom_valido_ate: string | null;
+  pedido_numero: string | null;
+  observacoes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AdminTradeInData {
+  etapa: TradeInEtapa;
+  // Obrigatório ao aceitar
+  valor_final?: number;
+  observacoes: string;
+}
+
+export interface AdminTradeInFiltros {
+  busca?: string;
+  etapa?: TradeInEtapa;
+  pagina?: number;
+  limite?: number;
+}
+
+export interface AdminTradeInPagina {
+  avaliacoes: AdminTradeIn[];
+  total: number;
+  pagina: number;
+  limite: number;
+}
+
+export const fetchAdminTradeInPrecos = async (): Promise<AdminTradeInPreco[]> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/tradein_precos.php`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao buscar a tabela de preços');
+  }
+
+  return data.data;
+};
+
+export const createAdminTradeInPreco = async (preco: AdminTradeInPrecoData): Promise<{ id: number }> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/tradein_precos.php`, {
+    method: 'POST',
+    body: JSON.stringify(preco),
+  });
+
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao cadastrar preço');
+  }
+
+  return data.data;
+};
+
+export const updateAdminTradeInPreco = async (id: number, preco: AdminTradeInPrecoData): Promise<void> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/tradein_precos.php?id=${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(preco),
+  });
+
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao atualizar preço');
+  }
+};
+
+export const deleteAdminTradeInPreco = async (id: number): Promise<void> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/tradein_precos.php?id=${id}`, {
+    method: 'DELETE',
+  });
+
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao excluir preço');
+  }
+};
+
+export const fetchAdminTradeIns = async (filtros: AdminTradeInFiltros = {}): Promise<AdminTradeInPagina> => {
+  const params = new URLSearchParams();
+  Object.entries(filtros).forEach(([chave, valor]) => {
+    if (valor !== undefined && valor !== '') params.set(chave, String(valor));
+  });
+
+  const response = await authFetch(`${ADMIN_API_BASE}/tradein_avaliacoes.php?${params}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao buscar avaliações');
+  }
+
+  return data.data;
+};
+
+// Muda a etapa da avaliação; aceitar gera o cupom de crédito (mensagem com o código)
+export const updateAdminTradeIn = async (id: number, avaliacao: AdminTradeInData): Promise<string> => {
+  const response = await authFetch(`${ADMIN_API_BASE}/tradein_avaliacoes.php?id=${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(avaliacao),
+  });
+
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao atualizar avaliação');
+  }
+
+  return data.message || 'Avaliação atualizada';
+};
+
 // ==================== PEDIDOS ====================
 
 export interface AdminPedido {
@@ -222,9 +789,18 @@ export interface AdminPedido {
   subtotal: number;
   desconto: number;
   frete: number;
+  frete_servico?: string;
+  frete_prazo_dias?: number;
+  cupom_codigo?: string | null;
+  // Cartão: juros do parcelamento já somados ao total
+  parcelas?: number;
+  valor_parcela?: number | null;
+  juros?: number;
+  cartao_bandeira?: string | null;
+  cartao_final?: string | null;
   total: number;
   forma_pagamento: string;
-  status: string;
+  status: PedidoStatus;
   codigo_rastreio?: string;
   observacoes?: string;
   created_at: string;
@@ -235,10 +811,17 @@ export interface AdminPedido {
     nome: string;
     sku?: string;
     imagem?: string;
+    variacao_id?: number | null;
+    variacao_cor?: string | null;
+    variacao_cor_codigo?: string | null;
+    variacao_capacidade?: string | null;
     quantidade: number;
     preco_unitario: number;
     subtotal?: number;
+    // IMEI ou série dos aparelhos reservados ou vendidos no item
+    unidades?: string[];
   }>;
+  historico?: PedidoHistorico[];
 }
 
 export interface AdminStats {
@@ -270,11 +853,24 @@ export const fetchAdminPedido = async (id: number): Promise<AdminPedido> => {
   return data.data;
 };
 
-export const updateAdminPedidoStatus = async (id: number, status: string, codigoRastreio?: string): Promise<void> => {
+export const updateAdminPedidoStatus = async (
+  id: number,
+  statusAtual: PedidoStatus,
+  status: PedidoStatus,
+  codigoRastreio?: string,
+  observacao?: string
+): Promise<void> => {
+  if (status !== statusAtual) {
+    assertTransition(statusAtual, status);
+  }
+
   const body: Record<string, string> = { status };
   if (codigoRastreio) {
     body.codigo_rastreio = codigoRastreio;
   }
+  if (observacao) {
+    body.observacao_status = observacao;
+  }
   
   const response = await authFetch(`${ADMIN_API_BASE}/pedidos.php?id=${id}`, {
     method: 'PUT',
@@ -306,10 +902,9 @@ export const fetchAdminStats = async (): Promise<AdminStats> => {
   const pedidos = pedidosData.success ? pedidosData.data.pedidos : [];
   const categorias = categoriasData.success ? categoriasData.data : [];
   
-  // Calcular total de vendas (pedidos com status pago, preparando, enviado ou entregue)
-  const statusPagos = ['pago', 'preparando', 'enviado', 'entregue'];
+  // Calcular total de vendas (pedidos já pagos)
   const totalVendas = pedidos
-    .filter((p: AdminPedido) => statusPagos.includes(p.status))
+    .filter((p: AdminPedido) => PAID_STATUSES.includes(p.status))
     .reduce((acc: number, p: AdminPedido) => acc + Number(p.total || 0), 0);
   
   return {
@@ -319,3 +914,54 @@ export const fetchAdminStats = async (): Promise<AdminStats> => {
     totalCategorias: categorias.length,
   };
 };
+
+// ==================== AUDITORIA ====================
+
+export interface AdminAuditoria {
+  id: number;
+  usuario_id: number | null;
+  usuario_nome: string;
+  acao: AuditoriaAcao;
+  entidade: AuditoriaEntidade;
+  entidade_id: number;
+  entidade_nome: string | null;
+  // Só os campos que mudaram; na criação "antes" é null e na exclusão "depois" é null
+  alteracoes: Record<string, { antes: unknown; depois: unknown }>;
+  ip: string | null;
+  created_at: string;
+}
+
+export interface AdminAuditoriaFiltros {
+  entidade?: AuditoriaEntidade;
+  entidade_id?: number;
+  usuario_id?: number;
+  acao?: AuditoriaAcao;
+  de?: string;
+  ate?: string;
+  pagina?: number;
+  limite?: number;
+}
+
+export interface AdminAuditoriaPagina {
+  registros: AdminAuditoria[];
+  total: number;
+  pagina: number;
+  limite: number;
+  atores: { id: number; nome: string }[];
+}
+
+export const fetchAdminAuditoria = async (filtros: AdminAuditoriaFiltros = {}): Promise<AdminAuditoriaPagina> => {
+  const params = new URLSearchParams();
+  Object.entries(filtros).forEach(([chave, valor]) => {
+    if (valor !== undefined && valor !== '') params.set(chave, String(valor));
+  });
+
+  const response = await authFetch(`${ADMIN_API_BASE}/auditoria.php?${params}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Erro ao buscar auditoria');
+  }
+
+  return data.data;
+};
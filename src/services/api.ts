@@ -1,6 +1,12 @@
 // URL base da API PHP
 export const API_BASE_URL = 'https://iplaceseminovos.apipainel.com.br/api';
 
+// Imagem do produto com as versões WebP geradas no upload (src/lib/imagens.ts)
+export interface ProductImage {
+  url: string;
+  variants: { name: 'thumb' | 'card' | 'zoom'; url: string; width: number }[];
+}
+
 // Interface do produto vindo da API (já normalizada pelo PHP)
 export interface Product {
   id: string;
@@ -18,7 +24,7 @@ export interface Product {
   originalPrice: number;
   discountPercent: number;
   stock: number;
-  images: string[];
+  images: ProductImage[];
   warrantyMonths: number;
   isFeatured: boolean;
   rating: number;
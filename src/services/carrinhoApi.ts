@@ -0,0 +1,81 @@
+import { API_BASE_URL } from './api';
+import { authFetch } from './clienteAuth';
+
+export interface CarrinhoItemRequest {
+  produto_id: number;
+  variacao_id?: number;
+  cor?: string;
+  cor_codigo?: string;
+  capacidade?: string;
+  quantidade: number;
+  preco: number;
+}
+
+export interface CarrinhoItem {
+  produto_id: number;
+  variacao_id: number | null;
+  cor: string | null;
+  cor_codigo: string | null;
+  capacidade: string | null;
+  quantidade: number;
+  preco: number;
+  nome: string;
+  imagem: string | null;
+  preco_atual: number | null;
+  estoque: number;
+}
+
+// Carrinho salvo do usuário, com preço e estoque atuais
+export const fetchCarrinho = async (): Promise<CarrinhoItem[]> => {
+  const response = await authFetch(`${API_BASE_URL}/carrinho.php`);
+
+  if (!response.ok) {
+    throw new Error('Erro ao buscar carrinho');
+  }
+
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Erro ao buscar carrinho');
+  }
+
+  return result.data;
+};
+
+// Substituir o carrinho salvo pelo carrinho atual
+export const saveCarrinho = async (itens: CarrinhoItemRequest[]): Promise<CarrinhoItem[]> => {
+  const response = await authFetch(`${API_BASE_URL}/carrinho.php`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ itens }),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Erro ao salvar carrinho');
+  }
+
+  return result.data;
+};
+
+// Mesclar o carrinho anônimo no carrinho salvo (login)
+export const mergeCarrinho = async (itens: CarrinhoItemRequest[]): Promise<CarrinhoItem[]> => {
+  const response = await authFetch(`${API_BASE_URL}/carrinho.php`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ itens }),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Erro ao mesclar carrinho');
+  }
+
+  return result.data;
+};
@@ -0,0 +1,55 @@
+import { CartaoBandeira, CartaoDados, detectBandeira, onlyDigits } from '@/lib/cartao';
+
+export interface CartaoToken {
+  token: string;
+  bandeira: CartaoBandeira;
+  final: string;
+}
+
+/**
+ * Gateway que tokeniza o cartão direto no navegador
+ * O servidor da loja recebe apenas o token e os 4 últimos dígitos
+ */
+export interface CartaoGateway {
+  nome: string;
+  tokenizar(dados: CartaoDados): Promise<CartaoToken>;
+}
+
+// Cartões de teste do gateway fake (qualquer nome, validade futura e CVV)
+// O cenário segue no token e o ProvedorFake (api/pagamento/provedores.php) o aplica na cobrança
+const FAKE_CENARIOS: Record<string, string> = {
+  '0002': 'cartao_recusado',
+  '9995': 'saldo_insuficiente',
+  '0069': 'cartao_expirado',
+  '0127': 'cvv_invalido',
+  '3220': 'autenticacao',
+};
+
+export const fakeCartaoGateway: CartaoGateway = {
+  nome: 'fake',
+  tokenizar: async (dados) => {
+    const digitos = onlyDigits(dados.numero);
+    const bandeira = detectBandeira(digitos);
+    if (!bandeira) throw new Error('Bandeira não aceita');
+
+    const final = digitos.slice(-4);
+    const cenario = FAKE_CENARIOS[final] || 'aprovado';
+    const aleatorio = Array.from(crypto.getRandomValues(new Uint8Array(10)))
+      .map((b) => b.toString(16).padStart(2, '0'))
+      .join('');
+
+    return { token: `tok_fake_${cenario}_${aleatorio}`, bandeira, final };
+  },
+};
+
+// Gateway ativo em VITE_CARTAO_GATEWAY (mesmo provedor de api/pagamento/config.php)
+// O fake só vale no build de desenvolvimento; sem gateway configurado o cartão fica indisponível
+export const getCartaoGateway = (): CartaoGateway => {
+  const nome = import.meta.env.VITE_CARTAO_GATEWAY;
+
+  if (nome === 'fake' && import.meta.env.DEV) {
+    return fakeCartaoGateway;
+  }
+
+  throw new Error('Pagamento com cartão indisponível no momento');
+};
@@ -0,0 +1,37 @@
+import { onlyDigits } from '@/lib/endereco';
+
+export interface CepInfo {
+  cep: string;
+  logradouro: string;
+  complemento: string;
+  bairro: string;
+  cidade: string;
+  estado: string;
+}
+
+// Consultar um CEP no ViaCEP; retorna null se o CEP não existir
+export const buscarCep = async (cep: string): Promise<CepInfo | null> => {
+  const digits = onlyDigits(cep);
+  if (digits.length !== 8) return null;
+
+  const response = await fetch(`https://viacep.com.br/ws/${digits}/json/`);
+
+  if (!response.ok) {
+    throw new Error('Erro ao consultar CEP');
+  }
+
+  const data = await response.json();
+
+  if (data.erro) {
+    return null;
+  }
+
+  return {
+    cep: data.cep,
+    logradouro: data.logradouro || '',
+    complemento: data.complemento || '',
+    bairro: data.bairro || '',
+    cidade: data.localidade || '',
+    estado: data.uf || '',
+  };
+};
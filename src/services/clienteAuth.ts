@@ -0,0 +1,144 @@
+import { API_BASE_URL } from './api';
+import type { User } from '@/hooks/useAuth';
+
+// Sessão do cliente: token de acesso curto + token de renovação (api/auth.php)
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+const TOKEN_EXPIRA_KEY = 'token_expira_em';
+const USUARIO_KEY = 'usuario';
+
+// Renova um pouco antes de expirar para a requisição não chegar com token vencido
+const RENOVAR_ANTES_SEGUNDOS = 60;
+
+// Disparado quando o servidor recusa a sessão; useAuth e Header fazem o logout
+export const SESSAO_ENCERRADA_EVENT = 'iplace-sessao-encerrada';
+
+// Disparado quando os dados salvos do usuário mudam (perfil, email confirmado)
+export const USUARIO_ATUALIZADO_EVENT = 'iplace-usuario-atualizado';
+
+export interface SessaoCliente {
+  token: string;
+  refresh_token: string;
+  // Timestamp Unix (segundos)
+  expira_em: number;
+  usuario: User;
+}
+
+export class SessaoExpiradaError extends Error {
+  constructor(message = 'Sua sessão expirou. Entre novamente.') {
+    super(message);
+    this.name = 'SessaoExpiradaError';
+  }
+}
+
+export const saveSessao = (sessao: SessaoCliente) => {
+  localStorage.setItem(TOKEN_KEY, sessao.token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, sessao.refresh_token);
+  localStorage.setItem(TOKEN_EXPIRA_KEY, String(sessao.expira_em));
+  saveUsuario(sessao.usuario);
+};
+
+// Atualiza só os dados do usuário da sessão atual
+export const saveUsuario = (usuario: User) => {
+  localStorage.setItem(USUARIO_KEY, JSON.stringify(usuario));
+  window.dispatchEvent(new Event(USUARIO_ATUALIZADO_EVENT));
+};
+
+export const clearSessao = () => {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(TOKEN_EXPIRA_KEY);
+  localStorage.removeItem(USUARIO_KEY);
+};
+
+const encerrarSessao = () => {
+  clearSessao();
+  window.dispatchEvent(new Event(SESSAO_ENCERRADA_EVENT));
+};
+
+const tokenPertoDeExpirar = () => {
+  const expiraEm = Number(localStorage.getItem(TOKEN_EXPIRA_KEY) || 0);
+  return expiraEm > 0 && expiraEm - Date.now() / 1000 < RENOVAR_ANTES_SEGUNDOS;
+};
+
+// Uma renovação por vez: requisições simultâneas esperam a mesma
+let renovacaoEmAndamento: Promise<string | null> | null = null;
+
+/**
+ * Troca o token de renovação por um novo par
+ * Retorna null quando o servidor recusa (sessão encerrada); erro de rede propaga
+ */
+export const renovarToken = (): Promise<string | null> => {
+  if (renovacaoEmAndamento) return renovacaoEmAndamento;
+
+  renovacaoEmAndamento = (async () => {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (!refreshToken) return null;
+
+    const response = await fetch(`${API_BASE_URL}/renovar_token.php`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ refresh_token: refreshToken }),
+    });
+
+    if (response.status === 401) return null;
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Erro ao renovar sessão');
+    }
+
+    saveSessao(result.data);
+    return result.data.token as string;
+  })().finally(() => {
+    renovacaoEmAndamento = null;
+  });
+
+  return renovacaoEmAndamento;
+};
+
+/**
+ * fetch das APIs do cliente com o token da sessão
+ *
+ * Sem sessão, a requisição segue como visitante. Token recusado (401) é
+ * renovado uma vez; se a renovação também falhar, a sessão é encerrada e a
+ * chamada lança SessaoExpiradaError.
+ */
+export const authFetch = async (url: string, options: RequestInit = {}): Promise<Response> => {
+  const enviar = (token: string | null) =>
+    fetch(url, {
+      ...options,
+      headers: {
+        ...((options.headers as Record<string, string>) || {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    });
+
+  let token = localStorage.getItem(TOKEN_KEY);
+  if (!token) return enviar(null);
+
+  if (tokenPertoDeExpirar()) {
+    token = await renovarToken();
+    if (!token) {
+      encerrarSessao();
+      throw new SessaoExpiradaError();
+    }
+  }
+
+  let response = await enviar(token);
+
+  if (response.status === 401) {
+    const novoToken = await renovarToken();
+    if (novoToken) {
+      response = await enviar(novoToken);
+    }
+    if (!novoToken || response.status === 401) {
+      encerrarSessao();
+      throw new SessaoExpiradaError();
+    }
+  }
+
+  return response;
+};
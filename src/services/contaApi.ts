@@ -0,0 +1,70 @@
+import { API_BASE_URL } from './api';
+import { authFetch, SessaoCliente } from './clienteAuth';
+
+// Senha e confirmação de email da conta do cliente (api/conta_tokens.php)
+
+const postJson = (endpoint: string, body: unknown) =>
+  fetch(`${API_BASE_URL}${endpoint}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+const lerResultado = async (response: Response, erroPadrao: string) => {
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || erroPadrao);
+  }
+
+  return result;
+};
+
+// Envia o link de redefinição; a resposta não revela se o email tem conta
+export const solicitarRedefinicaoSenha = async (email: string): Promise<string> => {
+  const response = await postJson('/recuperar_senha.php', { email });
+  const result = await lerResultado(response, 'Erro ao solicitar redefinição de senha');
+  return result.message;
+};
+
+// Nova senha com o token do link; encerra as sessões abertas da conta
+export const redefinirSenha = async (token: string, senha: string): Promise<string> => {
+  const response = await postJson('/redefinir_senha.php', { token, senha });
+  const result = await lerResultado(response, 'Erro ao redefinir senha');
+  return result.message;
+};
+
+// Troca a senha do cliente logado; retorna a nova sessão deste aparelho
+export const alterarSenha = async (senhaAtual: string, novaSenha: string): Promise<SessaoCliente> => {
+  const response = await authFetch(`${API_BASE_URL}/alterar_senha.php`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ senha_atual: senhaAtual, nova_senha: novaSenha }),
+  });
+  const result = await lerResultado(response, 'Erro ao alterar senha');
+  return result.data;
+};
+
+// Confirma o email com o token do link
+export const confirmarEmail = async (token: string): Promise<string> => {
+  const response = await postJson('/verificar_email.php', { token });
+  const result = await lerResultado(response, 'Erro ao confirmar email');
+  return result.message;
+};
+
+// Reenvia o link de confirmação ao email do cliente logado
+export const reenviarConfirmacaoEmail = async (): Promise<string> => {
+  const response = await authFetch(`${API_BASE_URL}/verificar_email.php`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({}),
+  });
+  const result = await lerResultado(response, 'Erro ao reenviar confirmação');
+  return result.message;
+};
@@ -0,0 +1,104 @@
+import { API_BASE_URL } from './api';
+import { authFetch } from './clienteAuth';
+import { EnderecoEntrega } from '@/lib/endereco';
+
+export interface Endereco extends EnderecoEntrega {
+  id: number;
+  usuario_id: number;
+  apelido?: string | null;
+  destinatario?: string | null;
+  padrao: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EnderecoData extends EnderecoEntrega {
+  apelido?: string;
+  destinatario?: string;
+  padrao?: boolean;
+}
+
+// Listar endereços do cliente logado (padrão primeiro)
+export const fetchEnderecos = async (): Promise<Endereco[]> => {
+  const response = await authFetch(`${API_BASE_URL}/enderecos.php`);
+
+  if (!response.ok) {
+    throw new Error('Erro ao buscar endereços');
+  }
+
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Erro ao buscar endereços');
+  }
+
+  return result.data;
+};
+
+// Criar endereço
+export const createEndereco = async (data: EnderecoData): Promise<Endereco> => {
+  const response = await authFetch(`${API_BASE_URL}/enderecos.php`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Erro ao salvar endereço');
+  }
+
+  return result.data;
+};
+
+// Atualizar endereço
+export const updateEndereco = async (id: number, data: EnderecoData): Promise<Endereco> => {
+  const response = await authFetch(`${API_BASE_URL}/enderecos.php?id=${id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Erro ao atualizar endereço');
+  }
+
+  return result.data;
+};
+
+// Tornar endereço padrão
+export const setEnderecoPadrao = async (id: number): Promise<void> => {
+  const response = await authFetch(`${API_BASE_URL}/enderecos.php?id=${id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ padrao: true }),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Erro ao definir endereço padrão');
+  }
+};
+
+// Excluir endereço
+export const deleteEndereco = async (id: number): Promise<void> => {
+  const response = await authFetch(`${API_BASE_URL}/enderecos.php?id=${id}`, {
+    method: 'DELETE',
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Erro ao excluir endereço');
+  }
+};
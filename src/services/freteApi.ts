@@ -0,0 +1,37 @@
+import { API_BASE_URL } from './api';
+
+export interface FreteOpcao {
+  servico: string;
+  preco: number;
+  prazo_dias: number;
+  gratis: boolean;
+}
+
+export interface FreteItem {
+  produto_id: number;
+  quantidade: number;
+}
+
+export interface CotacaoFrete {
+  cep: string;
+  opcoes: FreteOpcao[];
+}
+
+// Cotar o frete dos itens para um CEP (opções ordenadas pelo preço)
+export const cotarFrete = async (cep: string, itens: FreteItem[], subtotal: number): Promise<CotacaoFrete> => {
+  const response = await fetch(`${API_BASE_URL}/frete/cotacao.php`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ cep, itens, subtotal }),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Erro ao calcular frete');
+  }
+
+  return result.data;
+};
@@ -0,0 +1,115 @@
+import { API_BASE_URL } from './api';
+import { authFetch } from './clienteAuth';
+import { Pedido } from './pedidosApi';
+import { CartaoToken } from './cartaoGateway';
+
+export interface Pagamento {
+  referencia: string;
+  provedor: string;
+  metodo: 'pix' | 'cartao' | 'boleto';
+  valor: number;
+  status: 'pendente' | 'pago' | 'expirado' | 'recusado';
+  // Cartão: motivo devolvido pelo emissor (ver MOTIVO_RECUSA_MENSAGENS)
+  motivo_recusa?: string | null;
+  // Cartão: emissor pediu autenticação 3DS antes de aprovar
+  requer_autenticacao?: boolean;
+  autenticacao_url?: string | null;
+  // Boleto: gerados no servidor (api/boleto.php)
+  linha_digitavel?: string | null;
+  codigo_barras?: string | null;
+  nosso_numero?: string | null;
+  vencimento?: string | null;
+  expira_em?: string;
+  pago_em?: string;
+}
+
+export interface PagamentoStatus {
+  numero: string;
+  status: Pedido['status'];
+  pagamento: Pagamento | null;
+}
+
+// Sem provedor de pagamento ativo no servidor (api/pagamento/config.php)
+export class PagamentoIndisponivelError extends Error {
+  constructor(message = 'Pagamentos indisponíveis no momento. Tente novamente mais tarde.') {
+    super(message);
+    this.name = 'PagamentoIndisponivelError';
+  }
+}
+
+// Consultado antes de registrar o pedido, para não reservar estoque sem poder cobrar
+export const fetchPagamentoDisponivel = async (): Promise<boolean> => {
+  const response = await fetch(`${API_BASE_URL}/pagamento/cobranca.php?disponivel=1`);
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Erro ao consultar pagamentos');
+  }
+
+  return result.data.disponivel;
+};
+
+// Criar (ou reaproveitar) a cobrança de um pedido aguardando pagamento
+// O email da compra (ou a sessão de quem fez o pedido) prova a posse do pedido
+// No cartão, `cartao` substitui o cartão recusado na tentativa anterior
+export const createCobranca = async (numero: string, email: string, cartao?: CartaoToken): Promise<Pagamento> => {
+  const response = await authFetch(`${API_BASE_URL}/pagamento/cobranca.php`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ numero, email, cartao }),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Erro ao criar cobrança');
+  }
+
+  return result.data;
+};
+
+// Consultar o status do pedido e da última cobrança
+export const fetchPagamentoStatus = async (numero: string, email: string): Promise<PagamentoStatus> => {
+  const response = await authFetch(
+    `${API_BASE_URL}/pagamento/cobranca.php?numero=${encodeURIComponent(numero)}&email=${encodeURIComponent(email)}`
+  );
+
+  if (!response.ok) {
+    throw new Error('Erro ao consultar pagamento');
+  }
+
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Erro ao consultar pagamento');
+  }
+
+  return result.data;
+};
+
+// Simular a notificação do provedor fake (PIX em desenvolvimento e desafio 3DS do cartão)
+// Só responde em desenvolvimento; como na cobrança, o email da compra (ou a sessão)
+// prova a posse do pedido
+export const simulatePagamento = async (
+  numero: string,
+  email: string,
+  referencia: string,
+  tipo: 'cobranca.paga' | 'cobranca.recusada' = 'cobranca.paga',
+  motivo?: string
+): Promise<void> => {
+  const response = await authFetch(`${API_BASE_URL}/pagamento/fake.php`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ numero, email, referencia, tipo, motivo }),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Erro ao simular pagamento');
+  }
+};
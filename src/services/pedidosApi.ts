@@ -1,4 +1,11 @@
 import { API_BASE_URL } from './api';
+import { authFetch } from './clienteAuth';
+import { PedidoStatus, assertTransition } from '@/lib/pedidoStatus';
+import { EnderecoEntrega } from '@/lib/endereco';
+import { CupomInvalidoError, type PrecosCarrinho } from './precosApi';
+import type { CartaoToken } from './cartaoGateway';
+
+export type { PedidoStatus };
 
 export interface PedidoItem {
   id?: number;
@@ -6,11 +13,26 @@ export interface PedidoItem {
   nome: string;
   sku?: string;
   imagem?: string;
+  variacao_id?: number | null;
+  variacao_cor?: string | null;
+  variacao_cor_codigo?: string | null;
+  variacao_capacidade?: string | null;
   quantidade: number;
   preco_unitario: number;
   subtotal: number;
 }
 
+// Uma mudança de status registrada em pedido_historico
+export interface PedidoHistorico {
+  id: number;
+  status_anterior: PedidoStatus | null;
+  status_novo: PedidoStatus;
+  ator: 'cliente' | 'admin' | 'sistema';
+  ator_nome?: string | null;
+  observacao?: string | null;
+  created_at: string;
+}
+
 export interface Pedido {
   id: number;
   numero: string;
@@ -29,37 +51,52 @@ export interface Pedido {
   subtotal: number;
   desconto: number;
   frete: number;
+  frete_servico?: string;
+  frete_prazo_dias?: number;
+  cupom_codigo?: string | null;
+  // Cartão: juros do parcelamento já somados ao total
+  parcelas?: number;
+  valor_parcela?: number | null;
+  juros?: number;
+  cartao_bandeira?: string | null;
+  cartao_final?: string | null;
   total: number;
   forma_pagamento: 'pix' | 'cartao' | 'boleto';
-  status: 'aguardando_pagamento' | 'pendente' | 'pago' | 'preparando' | 'enviado' | 'entregue' | 'cancelado';
+  status: PedidoStatus;
   codigo_rastreio?: string;
   observacoes?: string;
   created_at: string;
   updated_at: string;
   itens: PedidoItem[];
+  historico: PedidoHistorico[];
+}
+
+// Quem está comprando: cliente logado ou dados informados no checkout sem login
+// A conta do pedido vem do token da sessão (services/clienteAuth.ts)
+export interface ClientePedido {
+  nome: string;
+  email: string;
+  telefone?: string;
+  cpf?: string;
 }
 
 export interface CreatePedidoData {
-  usuario_id?: number;
   nome_cliente: string;
   email_cliente: string;
   telefone_cliente?: string;
   cpf_cliente?: string;
-  endereco?: {
-    cep?: string;
-    logradouro?: string;
-    numero?: string;
-    complemento?: string;
-    bairro?: string;
-    cidade?: string;
-    estado?: string;
-  };
+  endereco: EnderecoEntrega;
   subtotal: number;
   desconto?: number;
   frete?: number;
+  frete_servico: string;
   total: number;
   forma_pagamento: 'pix' | 'cartao' | 'boleto';
-  status?: 'aguardando_pagamento' | 'pendente' | 'pago';
+  cupom?: string;
+  // Cartão: total já inclui os juros do plano (ver src/lib/parcelamento.ts)
+  parcelas?: number;
+  // Cartão tokenizado pelo gateway: nunca o número, validade ou CVV
+  cartao?: CartaoToken;
   observacoes?: string;
   itens: Array<{
     id?: number;
@@ -73,12 +110,48 @@ export interface CreatePedidoData {
     quantity?: number;
     preco_unitario?: number;
     price?: number;
+    variacao_id?: number;
+    cor?: string;
+    capacidade?: string;
   }>;
 }
 
+// Item recusado na criação do pedido por falta de estoque
+export interface EstoqueInsuficienteItem {
+  indice: number;
+  produto_id: number;
+  variacao_id: number | null;
+  cor: string | null;
+  capacidade: string | null;
+  nome: string;
+  solicitado: number;
+  disponivel: number;
+}
+
+export class EstoqueInsuficienteError extends Error {
+  itens: EstoqueInsuficienteItem[];
+
+  constructor(message: string, itens: EstoqueInsuficienteItem[]) {
+    super(message);
+    this.name = 'EstoqueInsuficienteError';
+    this.itens = itens;
+  }
+}
+
+// Total enviado diferente do calculado pelo servidor (preço, frete ou desconto mudou)
+export class TotalDivergenteError extends Error {
+  precos: PrecosCarrinho;
+
+  constructor(message: string, precos: PrecosCarrinho) {
+    super(message);
+    this.name = 'TotalDivergenteError';
+    this.precos = precos;
+  }
+}
+
 // Criar novo pedido
 export const createPedido = async (data: CreatePedidoData): Promise<{ id: number; numero: string }> => {
-  const response = await fetch(`${API_BASE_URL}/pedidos.php`, {
+  const response = await authFetch(`${API_BASE_URL}/pedidos.php`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -88,6 +161,15 @@ export const createPedido = async (data: CreatePedidoData): Promise<{ id: number
 
   if (!response.ok) {
     const error = await response.json();
+    if (error.code === 'estoque_insuficiente') {
+      throw new EstoqueInsuficienteError(error.error || 'Estoque insuficiente', error.itens || []);
+    }
+    if (error.code === 'total_divergente') {
+      throw new TotalDivergenteError(error.error || 'O total do pedido mudou', error.precos);
+    }
+    if (error.code === 'cupom_invalido') {
+      throw new CupomInvalidoError(error.error || 'Cupom inválido');
+    }
     throw new Error(error.error || 'Erro ao criar pedido');
   }
 
@@ -100,12 +182,45 @@ export const createPedido = async (data: CreatePedidoData): Promise<{ id: number
   return result.data;
 };
 
-// Buscar pedidos por email
-export const fetchPedidosByEmail = async (email: string): Promise<Pedido[]> => {
-  const response = await fetch(`${API_BASE_URL}/pedidos.php?email=${encodeURIComponent(email)}`);
+// Código de acesso enviado ao email expirado, já usado ou digitado errado
+export class CodigoAcessoInvalidoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CodigoAcessoInvalidoError';
+  }
+}
+
+// Envia ao email um código de uso único para listar os pedidos dele
+export const solicitarCodigoAcesso = async (email: string): Promise<string> => {
+  const response = await fetch(`${API_BASE_URL}/pedidos_codigo.php`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ email }),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Erro ao enviar código');
+  }
+
+  return result.message;
+};
+
+// Buscar pedidos por email, com o código recebido nele
+export const fetchPedidosByEmail = async (email: string, codigo: string): Promise<Pedido[]> => {
+  const response = await fetch(
+    `${API_BASE_URL}/pedidos.php?email=${encodeURIComponent(email)}&codigo=${encodeURIComponent(codigo)}`
+  );
 
   if (!response.ok) {
-    throw new Error('Erro ao buscar pedidos');
+    const error = await response.json();
+    if (error.code === 'codigo_invalido') {
+      throw new CodigoAcessoInvalidoError(error.error || 'Código inválido ou expirado');
+    }
+    throw new Error(error.error || 'Erro ao buscar pedidos');
   }
 
   const result = await response.json();
@@ -117,9 +232,9 @@ export const fetchPedidosByEmail = async (email: string): Promise<Pedido[]> => {
   return result.data;
 };
 
-// Buscar pedidos por usuario_id
-export const fetchPedidosByUsuarioId = async (usuarioId: number): Promise<Pedido[]> => {
-  const response = await fetch(`${API_BASE_URL}/pedidos.php?usuario_id=${usuarioId}`);
+// Pedidos da conta do cliente logado
+export const fetchMeusPedidos = async (): Promise<Pedido[]> => {
+  const response = await authFetch(`${API_BASE_URL}/pedidos.php`);
 
   if (!response.ok) {
     throw new Error('Erro ao buscar pedidos');
@@ -134,9 +249,11 @@ export const fetchPedidosByUsuarioId = async (usuarioId: number): Promise<Pedido
   return result.data;
 };
 
-// Buscar pedido por número
-export const fetchPedidoByNumero = async (numero: string): Promise<Pedido | null> => {
-  const response = await fetch(`${API_BASE_URL}/pedidos.php?numero=${encodeURIComponent(numero)}`);
+// Buscar pedido por número; sem o email da compra (ou a sessão do dono) o servidor responde como inexistente
+export const fetchPedidoByNumero = async (numero: string, email: string): Promise<Pedido | null> => {
+  const response = await authFetch(
+    `${API_BASE_URL}/pedidos.php?numero=${encodeURIComponent(numero)}&email=${encodeURIComponent(email)}`
+  );
 
   if (response.status === 404) {
     return null;
@@ -155,17 +272,21 @@ export const fetchPedidoByNumero = async (numero: string): Promise<Pedido | null
   return result.data;
 };
 
-// Atualizar status do pedido
+// Atualizar status do pedido (o servidor só aceita o cancelamento pelo dono)
 export const updatePedidoStatus = async (
   numero: string,
-  status: 'aguardando_pagamento' | 'pago' | 'pendente' | 'preparando' | 'enviado' | 'entregue' | 'cancelado'
+  statusAtual: PedidoStatus,
+  status: PedidoStatus,
+  email?: string
 ): Promise<void> => {
-  const response = await fetch(`${API_BASE_URL}/pedidos.php?numero=${encodeURIComponent(numero)}`, {
+  assertTransition(statusAtual, status);
+
+  const response = await authFetch(`${API_BASE_URL}/pedidos.php?numero=${encodeURIComponent(numero)}`, {
     method: 'PUT',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ status }),
+    body: JSON.stringify({ status, email }),
   });
 
   if (!response.ok) {
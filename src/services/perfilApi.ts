@@ -0,0 +1,46 @@
+import { API_BASE_URL } from './api';
+import { authFetch, saveUsuario } from './clienteAuth';
+import type { User } from '@/hooks/useAuth';
+
+export interface PerfilData {
+  nome: string;
+  telefone: string;
+  cpf: string;
+}
+
+// Dados da conta do cliente logado
+export const fetchPerfil = async (): Promise<User> => {
+  const response = await authFetch(`${API_BASE_URL}/perfil.php`);
+
+  if (!response.ok) {
+    throw new Error('Erro ao buscar seus dados');
+  }
+
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Erro ao buscar seus dados');
+  }
+
+  return result.data;
+};
+
+// Atualizar nome, telefone e CPF; os dados salvos da sessão acompanham
+export const updatePerfil = async (data: PerfilData): Promise<User> => {
+  const response = await authFetch(`${API_BASE_URL}/perfil.php`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Erro ao salvar seus dados');
+  }
+
+  saveUsuario(result.data);
+  return result.data;
+};
@@ -0,0 +1,95 @@
+import { API_BASE_URL } from './api';
+import { authFetch } from './clienteAuth';
+import type { PlanoParcelamento } from '@/lib/parcelamento';
+
+export interface PrecoItemRequest {
+  produto_id: number;
+  variacao_id?: number;
+  cor?: string;
+  capacidade?: string;
+  quantidade: number;
+}
+
+export interface PrecoItem {
+  indice: number;
+  produto_id: number;
+  variacao_id: number | null;
+  nome: string;
+  sku: string | null;
+  imagem: string | null;
+  cor: string | null;
+  cor_codigo: string | null;
+  capacidade: string | null;
+  quantidade: number;
+  preco_unitario: number;
+  subtotal: number;
+}
+
+export type CupomTipo = 'percentual' | 'valor_fixo' | 'frete_gratis';
+
+export interface CupomAplicado {
+  cupom_id: number;
+  codigo: string;
+  tipo: CupomTipo;
+  descricao: string | null;
+  desconto: number;
+}
+
+export interface PrecosCarrinho {
+  itens: PrecoItem[];
+  subtotal: number;
+  frete: number;
+  frete_servico: string | null;
+  frete_prazo_dias: number | null;
+  cupom: CupomAplicado | null;
+  desconto_cupom: number;
+  desconto_pix: number;
+  // Total de descontos (cupom + PIX)
+  desconto: number;
+  desconto_percentual: number;
+  // Plano escolhido quando o cálculo é feito com parcelas (cartão); juros já no total
+  parcelamento: PlanoParcelamento | null;
+  total: number;
+}
+
+export interface CalculoPrecosData {
+  itens: PrecoItemRequest[];
+  cep?: string;
+  frete_servico?: string;
+  forma_pagamento?: 'pix' | 'cartao' | 'boleto';
+  cupom?: string;
+  parcelas?: number;
+  // Identifica o cliente no limite de uso por cliente do cupom (logado: vem do token)
+  email?: string;
+}
+
+// Cupom recusado pelo servidor (expirado, esgotado, valor mínimo, etc.)
+export class CupomInvalidoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CupomInvalidoError';
+  }
+}
+
+// Calcular os valores do carrinho no servidor (preços do banco, frete e desconto)
+export const calcularPrecos = async (data: CalculoPrecosData): Promise<PrecosCarrinho> => {
+  const response = await authFetch(`${API_BASE_URL}/precos.php`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+
+  const result = await response.json();
+
+  if (result.code === 'cupom_invalido') {
+    throw new CupomInvalidoError(result.error || 'Cupom inválido');
+  }
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Erro ao calcular valores do pedido');
+  }
+
+  return result.data;
+};
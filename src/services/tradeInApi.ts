@@ -0,0 +1,80 @@
+import { API_BASE_URL } from './api';
+import { authFetch } from './clienteAuth';
+import type { SaudeBateria } from '@/lib/produtoCondicao';
+import type { TradeInRespostas } from '@/lib/tradeIn';
+
+// Modelo e capacidade com preço na tabela do trade-in
+export interface TradeInModelo {
+  modelo: string;
+  capacidade: string;
+}
+
+export interface TradeInAparelho {
+  modelo: string;
+  capacidade: string;
+  saude_bateria: SaudeBateria;
+  respostas: TradeInRespostas;
+}
+
+export interface TradeInCotacao {
+  cotacao_minima: number;
+  cotacao_maxima: number;
+}
+
+export interface TradeInEnvio extends TradeInAparelho {
+  nome: string;
+  email: string;
+  telefone: string;
+}
+
+// Aparelho que não pode ser avaliado (não liga, preso ao iCloud)
+export class TradeInRecusadoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TradeInRecusadoError';
+  }
+}
+
+const lerResposta = async <T>(response: Response, erroPadrao: string): Promise<T> => {
+  const result = await response.json();
+
+  if (result.code === 'tradein_recusado') {
+    throw new TradeInRecusadoError(result.error || 'Não avaliamos este aparelho');
+  }
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || erroPadrao);
+  }
+
+  return result.data;
+};
+
+// Modelos e capacidades que a loja avalia
+export const fetchTradeInModelos = async (): Promise<TradeInModelo[]> => {
+  const response = await fetch(`${API_BASE_URL}/tradein_avaliacoes.php`);
+  return lerResposta(response, 'Erro ao buscar os modelos avaliados');
+};
+
+// Faixa de valor do aparelho, calculada no servidor
+export const cotarTradeIn = async (aparelho: TradeInAparelho): Promise<TradeInCotacao> => {
+  const response = await fetch(`${API_BASE_URL}/tradein_avaliacoes.php?cotar=1`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(aparelho),
+  });
+  return lerResposta(response, 'Erro ao calcular a cotação');
+};
+
+// Envia o aparelho para a avaliação da equipe; o cliente logado fica ligado a ela
+export const enviarTradeIn = async (envio: TradeInEnvio): Promise<TradeInCotacao & { numero: string }> => {
+  const response = await authFetch(`${API_BASE_URL}/tradein_avaliacoes.php`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(envio),
+  });
+  return lerResposta(response, 'Erro ao enviar a avaliação');
+};
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Gateway que tokeniza o cartão no navegador (src/services/cartaoGateway.ts)
+  readonly VITE_CARTAO_GATEWAY?: string;
+}